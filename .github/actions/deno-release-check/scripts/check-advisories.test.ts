@@ -0,0 +1,104 @@
+import { assertEquals, assertStringIncludes } from '@std/assert';
+import { fetchDenoAdvisories, findAffectingAdvisories, findPatchedVersion, parseAdvisoryRange } from './check-advisories.ts';
+import { parseChannel } from './fetch-deno-release.ts';
+import { GitHubClient, type GitHubSecurityAdvisory } from './github-client.ts';
+import { json, startStubServer, type StubServer } from './stub-server.ts';
+import { parseVersion, satisfies } from './versions.ts';
+
+// Advisory fixtures in the shape of `GET /repos/denoland/deno/security-advisories`, split over two pages.
+const FIXTURES = new URL('../fixtures/', import.meta.url);
+const PAGE_1 = JSON.parse(await Deno.readTextFile(new URL('security-advisories.page1.json', FIXTURES)));
+const PAGE_2 = JSON.parse(await Deno.readTextFile(new URL('security-advisories.page2.json', FIXTURES)));
+
+const RELEASES = ['v2.6.0-rc.1', 'v2.5.6', 'v2.5.5', 'v2.5.4', 'v2.5.3'].map((tag) => ({ tag_name: tag, name: tag, draft: false, prerelease: tag.includes('-') }));
+
+function startAdvisoryServer(openPRs: unknown[] = []): StubServer {
+  return startStubServer({
+    'GET /repos/denoland/deno/security-advisories': (request, url) => request.query.get('page') === '2' ? json(PAGE_2) : json(PAGE_1, { headers: { link: `<${url}/repos/denoland/deno/security-advisories?state=published&per_page=100&page=2>; rel="next"` } }),
+    'GET /repos/denoland/deno/releases': () => json(RELEASES),
+    'GET /repos/owner/repo/pulls': () => json(openPRs),
+  });
+}
+
+async function loadAdvisories(): Promise<GitHubSecurityAdvisory[]> {
+  const server = startAdvisoryServer();
+  try {
+    return await fetchDenoAdvisories(new GitHubClient({ apiUrl: server.url }));
+  } finally {
+    await server.close();
+  }
+}
+
+Deno.test('parseAdvisoryRange - reads GitHub comparator lists', () => {
+  const matches = (range: string, version: string) => satisfies(parseVersion(version)!, parseAdvisoryRange(range), true);
+
+  assertEquals(matches('>= 2.0.0, < 2.5.4', '2.5.3'), true);
+  assertEquals(matches('>= 2.0.0, < 2.5.4', '2.5.4'), false);
+  assertEquals(matches('<= 1.46.3', '1.46.3'), true);
+  assertEquals(matches('= 2.5.5', '2.5.5'), true);
+  assertEquals(matches('= 2.5.5', '2.5.6'), false);
+  assertEquals(matches('< 2.5.0', '2.5.0-rc.1'), true);
+});
+
+Deno.test('fetchDenoAdvisories - follows pagination and drops withdrawn advisories', async () => {
+  const advisories = await loadAdvisories();
+
+  assertEquals(advisories.map((a) => a.ghsa_id), ['GHSA-test-0001-perm', 'GHSA-test-0002-node', 'GHSA-test-0003-rt', 'GHSA-test-0005-old']);
+});
+
+Deno.test('findAffectingAdvisories - matches the deno package only', async () => {
+  const advisories = await loadAdvisories();
+
+  assertEquals(findAffectingAdvisories(advisories, '2.5.3'), [{
+    id: 'GHSA-test-0001-perm',
+    cveId: 'CVE-2025-00001',
+    url: 'https://github.com/denoland/deno/security/advisories/GHSA-test-0001-perm',
+    summary: 'Permission prompt bypass via Deno.Command environment',
+    severity: 'high',
+    vulnerableRange: '>= 2.5.0, < 2.5.4',
+    patchedVersions: '2.5.4',
+  }]);
+  assertEquals(findAffectingAdvisories(advisories, '2.5.5').map((a) => a.id), ['GHSA-test-0002-node']);
+  assertEquals(findAffectingAdvisories(advisories, '2.5.6'), []);
+  // deno_runtime versions are unrelated to the CLI's, so its `< 0.220.0` must not match a CLI version.
+  assertEquals(findAffectingAdvisories(PAGE_1, '0.219.0'), []);
+  assertEquals(findAffectingAdvisories(advisories, '1.45.2').map((a) => a.severity), ['low']);
+});
+
+Deno.test('findPatchedVersion - picks the newest unaffected release on the channel', async () => {
+  const advisories = await loadAdvisories();
+  const tags = RELEASES.map((r) => r.tag_name);
+
+  assertEquals(findPatchedVersion(tags, parseChannel('latest', '2.5.3'), advisories, '2.5.3'), '2.5.6');
+  assertEquals(findPatchedVersion(tags, parseChannel('2.5.0 - 2.5.5', '2.5.3'), advisories, '2.5.3'), '2.5.4');
+  assertEquals(findPatchedVersion(['v2.5.3'], parseChannel('latest', '2.5.3'), advisories, '2.5.3'), null);
+});
+
+Deno.test('check-advisories.ts - reports affected versions and the patched target as action outputs', async () => {
+  const workspace = await Deno.makeTempDir();
+  const server = startAdvisoryServer([{ number: 9, title: 'Update Deno to v2.5.6', head: { ref: 'release/v2.5.6' }, state: 'open' }]);
+  try {
+    await Deno.writeTextFile(`${workspace}/Directory.Build.props`, '<Project><PropertyGroup><DenoVersion>2.5.3</DenoVersion></PropertyGroup></Project>');
+    await Deno.writeTextFile(`${workspace}/output`, '');
+
+    const result = await new Deno.Command('deno', {
+      args: ['run', '--no-config', '--allow-net', '--allow-env', '--allow-read', '--allow-write', new URL('./check-advisories.ts', import.meta.url).pathname],
+      env: { GITHUB_WORKSPACE: workspace, GITHUB_OUTPUT: `${workspace}/output`, GITHUB_API_URL: server.url, GITHUB_REPOSITORY: 'owner/repo', GH_TOKEN: 'test-token' },
+      stdout: 'piped',
+      stderr: 'piped',
+    }).output();
+    const stdout = new TextDecoder().decode(result.stdout);
+    const outputs = Object.fromEntries((await Deno.readTextFile(`${workspace}/output`)).trim().split('\n').map((line) => line.split(/=(.*)/s, 2)));
+
+    assertEquals(result.success, true, new TextDecoder().decode(result.stderr));
+    assertStringIncludes(stdout, '::warning::Deno v2.5.3 is affected by GHSA-test-0001-perm (high)');
+    assertEquals(outputs.vulnerable, 'true');
+    assertEquals(outputs.patched_version, '2.5.6');
+    // The open release PR is a regular update, not the security one, so a security PR is still needed.
+    assertEquals(outputs.already_exists, 'false');
+    assertEquals(JSON.parse(outputs.advisories).map((a: { id: string }) => a.id), ['GHSA-test-0001-perm']);
+  } finally {
+    await server.close();
+    await Deno.remove(workspace, { recursive: true });
+  }
+});
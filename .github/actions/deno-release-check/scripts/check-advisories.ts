@@ -0,0 +1,131 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read --allow-write
+// Checks the published security advisories of denoland/deno against the DenoVersion in Directory.Build.props. When
+// the shipped version is affected, it picks the newest release on the channel that no advisory affects; the action
+// then opens a security update PR for it through create-pr.ts (SECURITY_ADVISORIES carries the advisory details).
+
+import { checkCurrentVersion, fetchExistingPRs } from './check-existing-release.ts';
+import { type Channel, fetchDenoReleases, parseChannel, selectVersions } from './fetch-deno-release.ts';
+import { createClientFromEnv, getRepository, type GitHubClient, type GitHubSecurityAdvisory } from './github-client.ts';
+import { renderPullRequestTitle, type SecurityAdvisory } from './pr-body.ts';
+import { compareVersions, formatVersion, parseRange, parseVersion, type Range, satisfies, type Version } from './versions.ts';
+
+// Advisories also cover crates such as deno_core or deno_runtime, whose version numbers are unrelated to the CLI's.
+const CLI_PACKAGE = 'deno';
+
+export interface AdvisoryCheck {
+  currentVersion: string;
+  advisories: SecurityAdvisory[];
+  /** Newest release on the channel that none of the advisories affects; null when there is none yet. */
+  patchedVersion: string | null;
+}
+
+/** Parses GitHub's comma-separated comparators (`>= 2.0.0, < 2.5.6`) into a range. */
+export function parseAdvisoryRange(text: string): Range {
+  return parseRange(text.replace(/,/g, ' '));
+}
+
+function cliVulnerabilities(advisory: GitHubSecurityAdvisory) {
+  return (advisory.vulnerabilities ?? []).filter((v) => v.package?.name?.toLowerCase() === CLI_PACKAGE && v.vulnerable_version_range);
+}
+
+function isAffected(advisory: GitHubSecurityAdvisory, version: Version): boolean {
+  return cliVulnerabilities(advisory).some((v) => satisfies(version, parseAdvisoryRange(v.vulnerable_version_range!), true));
+}
+
+export async function fetchDenoAdvisories(client: GitHubClient, repository = 'denoland/deno'): Promise<GitHubSecurityAdvisory[]> {
+  const advisories = await client.listSecurityAdvisories(repository);
+  return advisories.filter((a) => a.state === 'published' && !a.withdrawn_at);
+}
+
+/** The advisories whose affected ranges for the `deno` package include `version`, most severe first. */
+export function findAffectingAdvisories(advisories: GitHubSecurityAdvisory[], version: string): SecurityAdvisory[] {
+  const parsed = parseVersion(version);
+  if (!parsed) throw new Error(`Invalid version: ${version}`);
+
+  const severityRank = ['critical', 'high', 'medium', 'low'];
+  const rank = (severity: string) => severityRank.includes(severity) ? severityRank.indexOf(severity) : severityRank.length;
+
+  return advisories
+    .filter((advisory) => isAffected(advisory, parsed))
+    .map((advisory) => {
+      const vulnerabilities = cliVulnerabilities(advisory).filter((v) => satisfies(parsed, parseAdvisoryRange(v.vulnerable_version_range!), true));
+      const patched = vulnerabilities.map((v) => v.patched_versions).filter(Boolean).join(', ');
+      return {
+        id: advisory.ghsa_id,
+        cveId: advisory.cve_id ?? undefined,
+        url: advisory.html_url,
+        summary: advisory.summary,
+        severity: advisory.severity ?? 'unknown',
+        vulnerableRange: vulnerabilities.map((v) => v.vulnerable_version_range).join(' || '),
+        patchedVersions: patched || undefined,
+      };
+    })
+    .sort((a, b) => rank(a.severity) - rank(b.severity) || a.id.localeCompare(b.id));
+}
+
+/** The newest release on the channel above `currentVersion` that none of the advisories affects. */
+export function findPatchedVersion(tags: string[], channel: Channel, advisories: GitHubSecurityAdvisory[], currentVersion: string): string | null {
+  const current = parseVersion(currentVersion);
+  if (!current) throw new Error(`Invalid version: ${currentVersion}`);
+
+  const candidates = selectVersions(tags, channel).filter((v) => compareVersions(v, current) > 0).reverse();
+  const patched = candidates.find((v) => !advisories.some((advisory) => isAffected(advisory, v)));
+  return patched ? formatVersion(patched) : null;
+}
+
+export async function checkAdvisories(client: GitHubClient, currentVersion: string, channel: Channel): Promise<AdvisoryCheck> {
+  const all = await fetchDenoAdvisories(client);
+  const advisories = findAffectingAdvisories(all, currentVersion);
+  if (advisories.length === 0) return { currentVersion, advisories, patchedVersion: null };
+
+  const tags = await fetchDenoReleases({ client });
+  return { currentVersion, advisories, patchedVersion: findPatchedVersion(tags, channel, all, currentVersion) };
+}
+
+async function main() {
+  const currentVersion = await checkCurrentVersion();
+  if (!currentVersion) {
+    console.error('Could not determine the current Deno version');
+    Deno.exit(1);
+  }
+
+  let result: AdvisoryCheck;
+  let alreadyExists = false;
+  try {
+    const client = createClientFromEnv();
+    const channel = parseChannel(Deno.env.get('DENO_CHANNEL') || 'latest', currentVersion, Deno.env.get('DENO_INCLUDE_PRERELEASE') === 'true');
+    console.log(`Checking security advisories of denoland/deno against Deno v${currentVersion}...`);
+    result = await checkAdvisories(client, currentVersion, channel);
+
+    if (result.patchedVersion) {
+      // An open security PR with the same title is updated by create-pr.ts anyway; skip the push until something changes.
+      const title = renderPullRequestTitle(result.patchedVersion, { advisories: result.advisories });
+      alreadyExists = (await fetchExistingPRs(client, getRepository())).some((pr) => pr.title === title);
+    }
+  } catch (error) {
+    console.error(`Failed to check security advisories: ${error}`);
+    Deno.exit(1);
+  }
+
+  if (result.advisories.length === 0) {
+    console.log(`No published advisory affects Deno v${currentVersion}.`);
+  } else {
+    for (const advisory of result.advisories) console.log(`::warning::Deno v${currentVersion} is affected by ${advisory.id} (${advisory.severity}): ${advisory.summary}`);
+    if (!result.patchedVersion) console.log(`::error::No release on the channel fixes all advisories affecting Deno v${currentVersion} yet.`);
+    else if (alreadyExists) console.log(`A security update PR for Deno v${result.patchedVersion} is already open.`);
+    else console.log(`Deno v${result.patchedVersion} is not affected; a security update PR will be opened.`);
+  }
+
+  // Set GitHub Actions outputs
+  const outputFile = Deno.env.get('GITHUB_OUTPUT');
+  if (outputFile) {
+    const vulnerable = result.advisories.length > 0;
+    await Deno.writeTextFile(outputFile, `vulnerable=${vulnerable}\nadvisories=${JSON.stringify(result.advisories)}\npatched_version=${result.patchedVersion ?? ''}\nalready_exists=${alreadyExists}\n`, {
+      append: true,
+    });
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -1,5 +1,8 @@
-import { assertEquals, assertRejects } from '@std/assert';
+import { assertEquals, assertRejects, assertThrows } from '@std/assert';
 import { restore, stub } from '@std/testing/mock';
+import { closeSupersededPRs, findExisting, findPendingVersions, findSupersededPRs, parseVersionList } from './check-existing-release.ts';
+import { GitHubClient } from './github-client.ts';
+import { json, startStubServer } from './stub-server.ts';
 
 // Mock interfaces for testing
 interface GitHubPR {
@@ -248,3 +251,70 @@ Deno.test('checkForExistingUpdate - exact branch match required', () => {
   const result = checkForExistingUpdate(mockPRs, mockBranches, '1.45.0');
   assertEquals(result, false);
 });
+
+Deno.test('parseVersionList - JSON arrays, lists and the single-version fallback', () => {
+  assertEquals(parseVersionList('["2.5.5","2.5.6"]'), ['2.5.5', '2.5.6']);
+  assertEquals(parseVersionList('v2.5.5, 2.5.6'), ['2.5.5', '2.5.6']);
+  assertEquals(parseVersionList(undefined, '2.5.5'), ['2.5.5']);
+  assertEquals(parseVersionList('', 'null'), []);
+  assertThrows(() => parseVersionList('[1, 2]'), Error, 'Expected a list of versions');
+});
+
+Deno.test('findExisting - does not confuse 2.5.1 with 2.5.10', () => {
+  const prs: GitHubPR[] = [{ number: 7, title: 'Update Deno to v2.5.10', head: { ref: 'release/v2.5.10' }, state: 'open' }];
+
+  assertEquals(findExisting('2.5.1', prs, []), undefined);
+  assertEquals((findExisting('2.5.10', prs, []) as GitHubPR).number, 7);
+});
+
+Deno.test('findPendingVersions - skips versions up to Directory.Build.props and up to the newest existing PR', () => {
+  const versions = ['2.5.4', '2.5.5', '2.5.6', '2.6.0'];
+  const prs: GitHubPR[] = [{ number: 9, title: 'Update Deno to v2.5.6', head: { ref: 'release/v2.5.6' }, state: 'open' }];
+
+  assertEquals(findPendingVersions(versions, '2.5.4', [], []), ['2.5.5', '2.5.6', '2.6.0']);
+  assertEquals(findPendingVersions(versions, '2.5.4', prs, []), ['2.6.0']);
+  assertEquals(findPendingVersions(versions, '2.5.4', [], ['release/v2.6.0']), []);
+  assertEquals(findPendingVersions(['2.6.0', '2.5.5'], null, [], []), ['2.5.5', '2.6.0']);
+});
+
+Deno.test('findSupersededPRs - older release PRs only', () => {
+  const prs: GitHubPR[] = [
+    { number: 1, title: 'Update Deno to v2.5.6', head: { ref: 'release/v2.5.6' }, state: 'open' },
+    { number: 2, title: 'Update Deno to v2.5.5', head: { ref: 'release/v2.5.5' }, state: 'open' },
+    { number: 3, title: 'Update Deno to v2.6.0', head: { ref: 'release/v2.6.0' }, state: 'open' },
+    { number: 4, title: 'Fix typo', head: { ref: 'fix/release-notes' }, state: 'open' },
+  ];
+
+  assertEquals(findSupersededPRs(prs, '2.6.0').map(({ pr }) => pr.number), [2, 1]);
+  assertEquals(findSupersededPRs(prs, '2.5.5'), []);
+});
+
+Deno.test('closeSupersededPRs - comments, closes and deletes the branch', async () => {
+  const server = startStubServer({
+    'POST /repos/owner/repo/issues/12/comments': () => json({ id: 1 }, { status: 201 }),
+    'PATCH /repos/owner/repo/pulls/12': () => json({ number: 12, state: 'closed' }),
+    'DELETE /repos/owner/repo/git/refs/heads/release/v2.5.5': () => new Response(null, { status: 204 }),
+    'POST /repos/owner/repo/issues/13/comments': () => json({ id: 2 }, { status: 201 }),
+    'PATCH /repos/owner/repo/pulls/13': () => json({ number: 13, state: 'closed' }),
+  });
+  const superseded = [
+    { pr: { number: 12, title: 'Update Deno to v2.5.5', head: { ref: 'release/v2.5.5', repo: { full_name: 'owner/repo' } }, state: 'open' }, version: '2.5.5' },
+    { pr: { number: 13, title: 'Update Deno to v2.5.6', head: { ref: 'release/v2.5.6', repo: { full_name: 'fork/repo' } }, state: 'open' }, version: '2.5.6' },
+  ];
+
+  try {
+    await closeSupersededPRs(new GitHubClient({ apiUrl: server.url }), 'owner/repo', superseded, '2.6.0', 20);
+
+    assertEquals(server.requests.map((r) => `${r.method} ${r.path}`), [
+      'POST /repos/owner/repo/issues/12/comments',
+      'PATCH /repos/owner/repo/pulls/12',
+      'DELETE /repos/owner/repo/git/refs/heads/release/v2.5.5',
+      'POST /repos/owner/repo/issues/13/comments',
+      'PATCH /repos/owner/repo/pulls/13',
+    ]);
+    assertEquals(server.requests[0].body, { body: 'Superseded by the update to Deno v2.6.0 in #20. Closing this pull request and deleting its branch.' });
+    assertEquals(server.requests[1].body, { state: 'closed' });
+  } finally {
+    await server.close();
+  }
+});
@@ -1,84 +1,19 @@
 #!/usr/bin/env -S deno run --allow-net --allow-env --env-file
 
-interface GitHubPR {
-  number: number;
-  title: string;
-  head: {
-    ref: string;
-  };
-  state: string;
-}
+import { createClientFromEnv, getRepository, type GitHubClient, type GitHubPullRequest } from './github-client.ts';
+import { compareVersions, parseVersion } from './versions.ts';
 
-interface GitHubBranch {
-  name: string;
-}
+type GitHubPR = Pick<GitHubPullRequest, 'number' | 'title' | 'head' | 'state'>;
 
-async function fetchExistingPRs(): Promise<GitHubPR[]> {
+async function fetchExistingPRs(client: GitHubClient, repository: string): Promise<GitHubPullRequest[]> {
   console.log('Fetching existing pull requests...');
-
-  try {
-    const githubToken = Deno.env.get('GH_TOKEN');
-    const repository = Deno.env.get('GITHUB_REPOSITORY');
-    if (!repository) {
-      throw new Error('GITHUB_REPOSITORY environment variable not set');
-    }
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'DenoHost-Release-Check',
-    };
-
-    if (githubToken) {
-      headers['Authorization'] = `token ${githubToken}`;
-    }
-
-    const response = await fetch(`https://api.github.com/repos/${repository}/pulls?state=open&per_page=100`, {
-      headers,
-    });
-
-    if (!response.ok) {
-      throw new Error(`GitHub API request failed: ${response.status}`);
-    }
-
-    const prs: GitHubPR[] = await response.json();
-    return prs;
-  } catch (error) {
-    console.error(`Failed to fetch pull requests: ${error}`);
-    return [];
-  }
+  return await client.listPullRequests(repository, 'open');
 }
 
-async function fetchExistingBranches(): Promise<string[]> {
+async function fetchExistingBranches(client: GitHubClient, repository: string): Promise<string[]> {
   console.log('Fetching existing branches...');
-
-  try {
-    const githubToken = Deno.env.get('GH_TOKEN');
-    const repository = Deno.env.get('GITHUB_REPOSITORY');
-    if (!repository) {
-      throw new Error('GITHUB_REPOSITORY environment variable not set');
-    }
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'DenoHost-Release-Check',
-    };
-
-    if (githubToken) {
-      headers['Authorization'] = `token ${githubToken}`;
-    }
-
-    const response = await fetch(`https://api.github.com/repos/${repository}/branches?per_page=100`, {
-      headers,
-    });
-
-    if (!response.ok) {
-      throw new Error(`GitHub API request failed: ${response.status}`);
-    }
-
-    const branches: GitHubBranch[] = await response.json();
-    return branches.map((branch) => branch.name);
-  } catch (error) {
-    console.error(`Failed to fetch branches: ${error}`);
-    return [];
-  }
+  const branches = await client.listBranches(repository);
+  return branches.map((branch) => branch.name);
 }
 
 async function checkCurrentVersion(): Promise<string | null> {
@@ -89,11 +24,11 @@ async function checkCurrentVersion(): Promise<string | null> {
     const filePath = `${workspace}/Directory.Build.props`;
 
     const content = await Deno.readTextFile(filePath);
-    const match = content.match(/<DenoVersion>([\d.]+)<\/DenoVersion>/);
+    const match = content.match(/<DenoVersion>([^<]+)<\/DenoVersion>/);
 
     if (match && match[1]) {
       console.log(`Current Deno version in repository: ${match[1]}`);
-      return match[1];
+      return match[1].trim();
     }
 
     console.log('Could not find DenoVersion in Directory.Build.props');
@@ -104,34 +39,123 @@ async function checkCurrentVersion(): Promise<string | null> {
   }
 }
 
-async function main() {
-  const denoVersion = Deno.env.get('DENO_VERSION');
-  if (!denoVersion) {
-    console.error('DENO_VERSION environment variable not set');
-    Deno.exit(1);
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Reads DENO_VERSIONS (a JSON array or a comma/space separated list), falling back to the single DENO_VERSION. */
+function parseVersionList(versions: string | undefined, version?: string): string[] {
+  const text = versions?.trim() ? versions.trim() : (version?.trim() ?? '');
+  if (text === '') return [];
+  const list: unknown = text.startsWith('[') ? JSON.parse(text) : text.split(/[\s,]+/);
+  if (!Array.isArray(list) || list.some((v) => typeof v !== 'string')) {
+    throw new Error(`Expected a list of versions, got '${text}'`);
   }
+  return list.map((v: string) => v.trim().replace(/^v/, '')).filter((v) => v !== '' && v !== 'null' && v !== 'undefined');
+}
 
-  console.log(`Checking for existing PR/branch for Deno version: ${denoVersion}`);
+function findExisting(version: string, prs: GitHubPR[], branches: string[]): GitHubPR | string | undefined {
+  const branchPattern = `release/v${version}`;
+  const prPattern = new RegExp(`update.*deno.*v?${escapeRegExp(version)}(?![\\w-]|\\.\\d)`, 'i');
+  return prs.find((pr) => prPattern.test(pr.title) || pr.head.ref === branchPattern) ?? branches.find((branch) => branch === branchPattern);
+}
 
-  // Check if version is already in the repository
-  const currentVersion = await checkCurrentVersion();
-  if (currentVersion === denoVersion) {
-    console.log(`Deno version ${denoVersion} is already present in Directory.Build.props. Nothing to do.`);
+/**
+ * The versions that still need a pull request: newer than Directory.Build.props and newer than the newest version
+ * that already has a release PR or branch (a batched PR only has a branch for its newest version, and every other
+ * version it covers is older).
+ */
+function findPendingVersions(versions: string[], currentVersion: string | null, prs: GitHubPR[], branches: string[]): string[] {
+  const current = currentVersion ? parseVersion(currentVersion) : null;
+  const isNewer = (version: string) => {
+    const parsed = parseVersion(version);
+    return parsed && current ? compareVersions(parsed, current) > 0 : version !== currentVersion;
+  };
+  const candidates = versions.filter(isNewer).sort((a, b) => {
+    const [va, vb] = [parseVersion(a), parseVersion(b)];
+    return va && vb ? compareVersions(va, vb) : 0;
+  });
 
-    const outputFile = Deno.env.get('GITHUB_OUTPUT');
+  const lastCovered = candidates.findLastIndex((v) => findExisting(v, prs, branches) !== undefined);
+  return candidates.slice(lastCovered + 1);
+}
+
+/** Open `release/v*` PRs of this repository for versions older than `newestVersion`, oldest first. */
+function findSupersededPRs(prs: GitHubPR[], newestVersion: string): { pr: GitHubPR; version: string }[] {
+  const newest = parseVersion(newestVersion);
+  if (!newest) return [];
+  return prs
+    .map((pr) => ({ pr, version: pr.head.ref.match(/^release\/v(.+)$/)?.[1] ?? '' }))
+    .filter(({ version }) => {
+      const parsed = parseVersion(version);
+      return parsed !== null && compareVersions(parsed, newest) < 0;
+    })
+    .sort((a, b) => compareVersions(parseVersion(a.version)!, parseVersion(b.version)!));
+}
+
+/** Comments on each superseded PR, closes it and deletes its branch (unless the branch lives in a fork). */
+async function closeSupersededPRs(client: GitHubClient, repository: string, superseded: { pr: GitHubPR; version: string }[], newestVersion: string, replacementPR: number | null): Promise<void> {
+  for (const { pr, version } of superseded) {
+    console.log(`Closing PR #${pr.number} (Deno v${version}), superseded by Deno v${newestVersion}`);
+    const replacement = replacementPR ? ` in #${replacementPR}` : '';
+
+    await client.createComment(repository, pr.number, `Superseded by the update to Deno v${newestVersion}${replacement}. Closing this pull request and deleting its branch.`);
+    await client.updatePullRequest(repository, pr.number, { state: 'closed' });
+
+    if (!pr.head.repo || pr.head.repo.full_name === repository) {
+      await client.deleteBranch(repository, pr.head.ref);
+    }
+  }
+}
+
+async function main() {
+  let versions: string[];
+  try {
+    versions = parseVersionList(Deno.env.get('DENO_VERSIONS'), Deno.env.get('DENO_VERSION'));
+  } catch (error) {
+    console.error(`Invalid DENO_VERSIONS: ${error instanceof Error ? error.message : error}`);
+    Deno.exit(1);
+  }
+
+  const outputFile = Deno.env.get('GITHUB_OUTPUT');
+  const writeOutputs = async (pending: string[]) => {
     if (outputFile) {
-      await Deno.writeTextFile(outputFile, `already_exists=true\n`, {
+      await Deno.writeTextFile(outputFile, `already_exists=${pending.length === 0}\npending_versions=${JSON.stringify(pending)}\n`, {
         append: true,
       });
     }
+  };
+
+  if (versions.length === 0) {
+    console.log('No Deno versions to check. Nothing to do.');
+    await writeOutputs([]);
+    Deno.exit(0);
+  }
 
+  console.log(`Checking for existing PR/branch for Deno versions: ${versions.join(', ')}`);
+
+  // Check if the versions are already in the repository
+  const currentVersion = await checkCurrentVersion();
+  if (findPendingVersions(versions, currentVersion, [], []).length === 0) {
+    console.log(`Deno ${versions.join(', ')} is already covered by ${currentVersion} in Directory.Build.props. Nothing to do.`);
+    await writeOutputs([]);
     Deno.exit(0);
   }
 
-  const [existingPRs, existingBranches] = await Promise.all([
-    fetchExistingPRs(),
-    fetchExistingBranches(),
-  ]);
+  // A failed lookup must fail the run: treating it as "nothing exists" would open duplicate PRs.
+  let existingPRs: GitHubPR[];
+  let existingBranches: string[];
+  try {
+    const client = createClientFromEnv();
+    const repository = getRepository();
+    [existingPRs, existingBranches] = await Promise.all([
+      fetchExistingPRs(client, repository),
+      fetchExistingBranches(client, repository),
+    ]);
+  } catch (error) {
+    console.error(`Failed to fetch existing pull requests and branches: ${error}`);
+    Deno.exit(1);
+  }
 
   console.log('Existing open PRs:');
   existingPRs.forEach((pr) => {
@@ -143,30 +167,34 @@ async function main() {
     console.log(`  ${branch}`);
   });
 
-  // Check if any PR or branch exists for this Deno version
-  const branchPattern = `release/v${denoVersion}`;
-  const prPattern = new RegExp(`update.*deno.*v?${denoVersion.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i');
-  const foundPR = existingPRs.find((pr) => prPattern.test(pr.title) || pr.head.ref === branchPattern);
-  const foundBranch = existingBranches.find((branch) => branch === branchPattern);
-  const alreadyExists = (foundPR || foundBranch) ? 'true' : 'false';
+  for (const version of versions) {
+    const found = findExisting(version, existingPRs, existingBranches);
+    if (typeof found === 'string') {
+      console.log(`Found existing branch for Deno v${version}: ${found}`);
+    } else if (found) {
+      console.log(`Found existing PR for Deno v${version}: #${found.number} - ${found.title}`);
+    }
+  }
+
+  const pending = findPendingVersions(versions, currentVersion, existingPRs, existingBranches);
+  await writeOutputs(pending);
 
-  // Set GitHub Actions outputs
-  const outputFile = Deno.env.get('GITHUB_OUTPUT');
-  if (outputFile) {
-    await Deno.writeTextFile(outputFile, `already_exists=${alreadyExists}\n`, {
-      append: true,
-    });
+  if (pending.length > 0) {
+    for (const { pr, version } of findSupersededPRs(existingPRs, pending[pending.length - 1])) {
+      console.log(`PR #${pr.number} for Deno v${version} will be superseded by Deno v${pending[pending.length - 1]}`);
+    }
   }
 
-  if (foundPR) {
-    console.log(`Found existing PR: #${foundPR.number} - ${foundPR.title}`);
-  } else if (foundBranch) {
-    console.log(`Found existing branch: ${foundBranch}`);
+  if (pending.length === 0) {
+    console.log('Every Deno version already has a PR or branch.');
   } else {
-    console.log(`No existing PR or branch found for Deno v${denoVersion}`);
+    console.log(`No existing PR or branch found for Deno ${pending.map((v) => `v${v}`).join(', ')}`);
   }
 }
 
+export { checkCurrentVersion, closeSupersededPRs, fetchExistingBranches, fetchExistingPRs, findExisting, findPendingVersions, findSupersededPRs, parseVersionList };
+export type { GitHubPR };
+
 if (import.meta.main) {
   await main();
 }
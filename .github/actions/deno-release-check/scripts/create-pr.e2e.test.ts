@@ -0,0 +1,157 @@
+import { assertEquals, assertStringIncludes } from '@std/assert';
+import { parseCliArgs } from './create-pr.ts';
+import { json, startStubServer, type StubServer } from './stub-server.ts';
+
+// End to end: create-pr.ts runs as a subprocess in a throwaway workspace whose `origin` is a local bare repository
+// and whose GitHub API is the stub server. The workspace's `deno task generate:refresh` stands in for the real generator.
+
+const SCRIPT = new URL('./create-pr.ts', import.meta.url).pathname;
+
+const FAKE_GENERATOR = `
+const out = '../../DenoHost.Core/Commands/Generated';
+await Deno.mkdir(out, { recursive: true });
+await Deno.writeTextFile(out + '/RunOptions.g.cs', 'public sealed partial class RunOptions\\n{\\n  public bool? NewFlag { get; set; }\\n}\\n');
+const base = Deno.args[Deno.args.indexOf('--drift-base') + 1];
+await Deno.writeTextFile('drift_report.md', '# Deno flag drift: ' + base + ' → ' + Deno.version.deno + '\\n\\nNo flag changes in the generated options classes.\\n');
+for (const snapshot of ['deno_reference', 'json_reference', 'config_schema']) {
+  await Deno.writeTextFile(snapshot + '.snapshot.json', JSON.stringify({ denoVersion: Deno.version.deno }) + '\\n');
+}
+await Deno.mkdir('history/reference', { recursive: true });
+await Deno.writeTextFile('history/' + Deno.version.deno + '.json', JSON.stringify({ denoVersion: Deno.version.deno }) + '\\n');
+await Deno.writeTextFile('history/reference/' + Deno.version.deno + '.json.gz', 'archive');
+`;
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const output = await new Deno.Command('git', { args, cwd, stdout: 'piped', stderr: 'piped' }).output();
+  if (!output.success) throw new Error(`git ${args.join(' ')} failed: ${new TextDecoder().decode(output.stderr)}`);
+  return new TextDecoder().decode(output.stdout).trim();
+}
+
+async function installedDenoVersion(): Promise<string> {
+  const output = await new Deno.Command('deno', { args: ['--version'], stdout: 'piped' }).output();
+  return new TextDecoder().decode(output.stdout).match(/^deno (\S+)/)![1];
+}
+
+/** A workspace pinned to Deno 2.5.5 with one generated file, pushed to a bare `origin`. */
+async function createWorkspace(root: string): Promise<{ work: string; remote: string }> {
+  const remote = `${root}/remote.git`;
+  const work = `${root}/work`;
+  await git(root, 'init', '--bare', '--initial-branch=main', remote);
+  await git(root, 'init', '--initial-branch=main', work);
+  await git(work, 'config', 'user.email', 'dev@example.com');
+  await git(work, 'config', 'user.name', 'Dev');
+  await git(work, 'remote', 'add', 'origin', remote);
+
+  await Deno.writeTextFile(`${work}/Directory.Build.props`, '<Project>\n  <PropertyGroup>\n    <DenoVersion>2.5.5</DenoVersion>\n  </PropertyGroup>\n</Project>\n');
+  await Deno.mkdir(`${work}/DenoHost.Core/Commands/Generated`, { recursive: true });
+  await Deno.writeTextFile(`${work}/DenoHost.Core/Commands/Generated/RunOptions.g.cs`, 'public sealed partial class RunOptions\n{\n  public bool? LegacyFlag { get; set; }\n}\n');
+  await Deno.mkdir(`${work}/tools/gen-commands`, { recursive: true });
+  await Deno.writeTextFile(`${work}/tools/gen-commands/deno.json`, JSON.stringify({ tasks: { 'generate:refresh': 'deno run --allow-read --allow-write generate.ts' } }));
+  await Deno.writeTextFile(`${work}/tools/gen-commands/generate.ts`, FAKE_GENERATOR);
+  await Deno.writeTextFile(`${work}/tools/gen-commands/deno_reference.snapshot.json`, '{}\n');
+
+  await git(work, 'add', '-A');
+  await git(work, 'commit', '-m', 'initial');
+  await git(work, 'push', 'origin', 'main');
+  return { work, remote };
+}
+
+function startGitHubStub(version: string): StubServer {
+  return startStubServer({
+    [`GET /repos/denoland/deno/releases/tags/v${version}`]: () => json({ tag_name: `v${version}`, html_url: `https://github.com/denoland/deno/releases/tag/v${version}`, body: '- fix(cli): something important (#1)\n- chore: bump (#2)' }),
+    'POST /repos/owner/repo/pulls': () => json({ number: 7 }, { status: 201 }),
+    'POST /repos/owner/repo/issues/7/labels': () => json([{ name: 'dependencies' }]),
+    'GET /repos/owner/repo/pulls': () => json([{ number: 3, title: 'Update Deno to v2.5.4', head: { ref: 'release/v2.5.4', repo: { full_name: 'owner/repo' } }, state: 'open' }]),
+    'POST /repos/owner/repo/issues/3/comments': () => json({ id: 1, body: '' }, { status: 201 }),
+    'PATCH /repos/owner/repo/pulls/3': () => json({ number: 3 }),
+    'DELETE /repos/owner/repo/git/refs/heads/release/v2.5.4': () => new Response(null, { status: 204 }),
+  });
+}
+
+async function runCreatePr(work: string, server: StubServer, version: string, args: string[]): Promise<{ success: boolean; stdout: string; outputs: string }> {
+  const outputFile = `${work}/../github_output`;
+  await Deno.writeTextFile(outputFile, '');
+  const output = await new Deno.Command('deno', {
+    args: ['run', '--no-config', '--allow-net', '--allow-env', '--allow-run', '--allow-read', '--allow-write', SCRIPT, ...args],
+    cwd: work,
+    env: {
+      DENO_VERSIONS: JSON.stringify([version]),
+      GITHUB_WORKSPACE: work,
+      GITHUB_REPOSITORY: 'owner/repo',
+      GITHUB_API_URL: server.url,
+      GITHUB_OUTPUT: outputFile,
+      GH_TOKEN: 'test-token',
+      GIT_USER_EMAIL: 'bot@example.com',
+      GIT_USER_NAME: 'bot',
+      PR_LABELS: 'dependencies',
+    },
+    stdout: 'piped',
+    stderr: 'piped',
+  }).output();
+  const stdout = new TextDecoder().decode(output.stdout) + new TextDecoder().decode(output.stderr);
+  return { success: output.success, stdout, outputs: await Deno.readTextFile(outputFile) };
+}
+
+Deno.test('parseCliArgs - flags override the environment', () => {
+  const env = (values: Record<string, string>) => (name: string) => values[name];
+
+  assertEquals(parseCliArgs([], env({})), { dryRun: false, remote: 'origin', base: 'main' });
+  assertEquals(parseCliArgs([], env({ DRY_RUN: 'true', PR_REMOTE: 'upstream', PR_BASE: 'release/2.5' })), { dryRun: true, remote: 'upstream', base: 'release/2.5' });
+  assertEquals(parseCliArgs(['--dry-run', '--remote', 'local', '--base', 'maint'], env({ PR_BASE: 'main' })), { dryRun: true, remote: 'local', base: 'maint' });
+});
+
+Deno.test('create-pr.ts - pushes to a local bare repo and opens the PR against the stub API', async () => {
+  const root = await Deno.makeTempDir();
+  const server = startGitHubStub(await installedDenoVersion());
+  try {
+    const version = await installedDenoVersion();
+    const { work, remote } = await createWorkspace(root);
+
+    const result = await runCreatePr(work, server, version, ['--remote', 'origin', '--base', 'main']);
+
+    assertEquals(result.success, true, result.stdout);
+    assertStringIncludes(await git(root, '--git-dir', remote, 'show', `release/v${version}:Directory.Build.props`), `<DenoVersion>${version}</DenoVersion>`);
+    assertStringIncludes(await git(root, '--git-dir', remote, 'show', `release/v${version}:DenoHost.Core/Commands/Generated/RunOptions.g.cs`), 'NewFlag');
+    for (const snapshot of ['json_reference', 'config_schema']) {
+      assertStringIncludes(await git(root, '--git-dir', remote, 'show', `release/v${version}:tools/gen-commands/${snapshot}.snapshot.json`), version);
+    }
+    assertStringIncludes(await git(root, '--git-dir', remote, 'show', `release/v${version}:tools/gen-commands/history/${version}.json`), version);
+    assertEquals(await git(root, '--git-dir', remote, 'show', `release/v${version}:tools/gen-commands/history/reference/${version}.json.gz`), 'archive');
+
+    const pr = server.requests.find((r) => r.method === 'POST' && r.path === '/repos/owner/repo/pulls')!.body as Record<string, string>;
+    assertEquals([pr.head, pr.base], [`release/v${version}`, 'main']);
+    assertStringIncludes(pr.body, '- fix(cli): something important (#1)');
+    assertStringIncludes(pr.body, '- `RunOptions.g.cs`: added `NewFlag`; removed `LegacyFlag`');
+    assertStringIncludes(pr.body, `## Deno flag drift: 2.5.5 → ${version}`);
+    assertEquals(server.requests.some((r) => r.method === 'POST' && r.path === '/repos/owner/repo/issues/7/labels'), true);
+    assertEquals(server.requests.some((r) => r.method === 'PATCH' && r.path === '/repos/owner/repo/pulls/3'), true);
+    assertStringIncludes(result.outputs, 'pr_number=7\n');
+    assertStringIncludes(result.outputs, `branch_name=release/v${version}\n`);
+  } finally {
+    await server.close();
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test('create-pr.ts --dry-run - commits locally but pushes and creates nothing', async () => {
+  const root = await Deno.makeTempDir();
+  const server = startGitHubStub(await installedDenoVersion());
+  try {
+    const version = await installedDenoVersion();
+    const { work, remote } = await createWorkspace(root);
+
+    const result = await runCreatePr(work, server, version, ['--dry-run', '--base', 'maint']);
+
+    assertEquals(result.success, true, result.stdout);
+    assertStringIncludes(result.stdout, `[dry-run] Would push: git push --force-with-lease origin release/v${version}`);
+    assertStringIncludes(result.stdout, '"base": "maint"');
+    assertStringIncludes(result.stdout, '[dry-run] Would close PR #3 (Deno v2.5.4) as superseded');
+    assertEquals(await git(work, 'log', '-1', '--format=%s'), `chore: update Deno to v${version}`);
+    assertEquals(await git(root, '--git-dir', remote, 'branch', '--list', 'release/*'), '');
+    assertEquals(server.requests.filter((r) => r.method !== 'GET'), []);
+    assertStringIncludes(result.outputs, 'dry_run=true\n');
+  } finally {
+    await server.close();
+    await Deno.remove(root, { recursive: true });
+  }
+});
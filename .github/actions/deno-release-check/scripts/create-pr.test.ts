@@ -1,151 +1,124 @@
 import { assertEquals, assertRejects } from '@std/assert';
-import { restore, stub } from '@std/testing/mock';
-
-// Mock interfaces for testing
-interface GitHubPRResponse {
-  number: number;
-  title: string;
-  html_url: string;
-}
-
-// Extract core functions for testing
-async function createPullRequest(
-  branchName: string,
-  denoVersion: string,
-  token: string,
-): Promise<number> {
-  const title = `Update Deno to v${denoVersion}`;
-  const body = `🚀 **Automated Deno Update**
-
-This pull request updates DenoHost to use Deno v${denoVersion}.
-
-## Changes
-- Update Deno version to v${denoVersion}
-- This will create a new release when merged
-
-## Next Steps
-1. Review the changes
-2. Test the new Deno version compatibility
-3. Merge when ready to create a prerelease candidate
-4. Create prerelease tag (increment N if needed): \`git tag v${denoVersion}-alpha.N && git push --tags\`
-5. Wait for alpha verification from \`nuget.org\` to pass (\`verify-alpha-from-nuget\` workflow job).
-6. After prerelease verification succeeds, create stable tag from the same commit: \`git tag v${denoVersion} && git push --tags\`
-
----
-*This PR was created automatically by the Deno Release Check action.*`;
-
-  const response = await fetch('https://api.github.com/repos/thomas3577/DenoHost/pulls', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/vnd.github+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      title: title,
-      body: body,
-      head: branchName,
-      base: 'main',
-      draft: true,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to create pull request: ${response.status} ${response.statusText} - ${errorText}`);
-  }
+import { createPullRequest, readRuntimeHashes } from './create-pr.ts';
+import { GitHubApiError, GitHubClient } from './github-client.ts';
+import { createFakeFetch, json } from './stub-server.ts';
 
-  const pr: GitHubPRResponse = await response.json();
-  return pr.number;
-}
+const noSleep = () => Promise.resolve();
 
 Deno.test('createPullRequest - successful creation', async () => {
-  const mockPRResponse: GitHubPRResponse = {
-    number: 123,
-    title: 'Update Deno to v1.45.0',
-    html_url: 'https://github.com/thomas3577/DenoHost/pull/123',
-  };
-
-  const mockResponse = new Response(
-    JSON.stringify(mockPRResponse),
-    { status: 201, headers: { 'content-type': 'application/json' } },
-  );
+  const transport = createFakeFetch({
+    'POST /repos/thomas3577/DenoHost/pulls': () => json({ number: 123, title: 'Update Deno to v1.45.0', html_url: 'https://github.com/thomas3577/DenoHost/pull/123' }, { status: 201 }),
+  });
+  const client = new GitHubClient({ token: 'test-token', apiUrl: transport.url, fetchImpl: transport.fetch });
 
-  stub(globalThis, 'fetch', () => Promise.resolve(mockResponse));
+  const result = await createPullRequest(client, 'thomas3577/DenoHost', 'update-deno-v1.45.0', '1.45.0');
 
-  try {
-    const result = await createPullRequest(
-      'update-deno-v1.45.0',
-      '1.45.0',
-      'test-token',
-    );
-    assertEquals(result, 123);
-  } finally {
-    restore();
-  }
+  assertEquals(result, 123);
+  assertEquals(transport.requests[0].headers.get('authorization'), 'Bearer test-token');
 });
+
 Deno.test('createPullRequest - API failure', async () => {
-  const mockResponse = new Response(
-    'Validation failed',
-    { status: 422 },
+  const transport = createFakeFetch({
+    'POST /repos/thomas3577/DenoHost/pulls': () => new Response('Validation failed', { status: 422 }),
+  });
+  const client = new GitHubClient({ token: 'test-token', apiUrl: transport.url, fetchImpl: transport.fetch, sleepImpl: noSleep });
+
+  const error = await assertRejects(
+    () => createPullRequest(client, 'thomas3577/DenoHost', 'update-deno-v1.45.0', '1.45.0'),
+    GitHubApiError,
+    '422 POST https://api.github.test/repos/thomas3577/DenoHost/pulls - Validation failed',
   );
+  assertEquals(error.status, 422);
+  assertEquals(transport.requests.length, 1);
+});
 
-  stub(globalThis, 'fetch', () => Promise.resolve(mockResponse));
+Deno.test('createPullRequest - generates correct title and body', async () => {
+  const transport = createFakeFetch({
+    'POST /repos/thomas3577/DenoHost/pulls': () => json({ number: 123, title: 'test', html_url: 'test' }, { status: 201 }),
+  });
+  const client = new GitHubClient({ token: 'test-token', apiUrl: transport.url, fetchImpl: transport.fetch });
+
+  await createPullRequest(client, 'thomas3577/DenoHost', 'update-deno-v1.45.0', '1.45.0');
+
+  const capturedRequestBody = transport.requests[0].body as Record<string, unknown>;
+  assertEquals(capturedRequestBody.title, 'Update Deno to v1.45.0');
+  assertEquals(capturedRequestBody.head, 'update-deno-v1.45.0');
+  assertEquals(capturedRequestBody.base, 'main');
+  assertEquals(capturedRequestBody.draft, true);
+
+  // Check that body contains expected content
+  const body = capturedRequestBody.body as string;
+  assertEquals(body.includes('Deno v1.45.0'), true);
+  assertEquals(body.includes('This will create a new release when merged'), true);
+  assertEquals(body.includes('git tag v1.45.0-alpha.N && git push --tags'), true);
+  assertEquals(body.includes('alpha verification from `nuget.org`'), true);
+  assertEquals(body.includes('git tag v1.45.0 && git push --tags'), true);
+  assertEquals(body.includes('automatically by the Deno Release Check'), true);
+});
 
-  try {
-    await assertRejects(
-      () =>
-        createPullRequest(
-          'update-deno-v1.45.0',
-          '1.45.0',
-          'test-token',
-        ),
-      Error,
-      'Failed to create pull request: 422  - Validation failed',
-    );
-  } finally {
-    restore();
-  }
+Deno.test('createPullRequest - opens security updates ready for review', async () => {
+  const transport = createFakeFetch({
+    'POST /repos/thomas3577/DenoHost/pulls': () => json({ number: 124 }, { status: 201 }),
+  });
+  const client = new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch });
+  const advisories = [{ id: 'GHSA-test-0001-perm', url: 'https://github.com/denoland/deno/security/advisories/GHSA-test-0001-perm', summary: 'Permission bypass', severity: 'high', vulnerableRange: '< 2.5.4', patchedVersions: '2.5.4' }];
+
+  await createPullRequest(client, 'thomas3577/DenoHost', 'release/v2.5.4', '2.5.4', ['2.5.4'], { advisories });
+
+  const request = transport.requests[0].body as Record<string, unknown>;
+  assertEquals(request.title, 'Update Deno to v2.5.4 (security)');
+  assertEquals(request.draft, false);
+  assertEquals((request.body as string).includes('## Security Advisories'), true);
 });
 
-Deno.test('createPullRequest - generates correct title and body', async () => {
-  let capturedRequestBody: Record<string, unknown> = {};
+Deno.test('createPullRequest - updates the existing PR for the branch instead of failing', async () => {
+  const transport = createFakeFetch({
+    'POST /repos/thomas3577/DenoHost/pulls': () => json({ message: 'Validation Failed', errors: [{ message: 'A pull request already exists for thomas3577:release/v2.5.6.' }] }, { status: 422 }),
+    'GET /repos/thomas3577/DenoHost/pulls': () => json([{ number: 41, title: 'Update Deno to v2.5.6', head: { ref: 'release/v2.5.6' }, state: 'open' }]),
+    'PATCH /repos/thomas3577/DenoHost/pulls/41': () => json({ number: 41 }),
+  });
+  const client = new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch });
 
-  const mockResponse = new Response(
-    JSON.stringify({ number: 123, title: 'test', html_url: 'test' }),
-    { status: 201, headers: { 'content-type': 'application/json' } },
-  );
+  const result = await createPullRequest(client, 'thomas3577/DenoHost', 'release/v2.5.6', '2.5.6');
 
-  // deno-lint-ignore no-explicit-any
-  stub(globalThis, 'fetch', (_input: string | URL | Request, init?: any) => {
-    if (init?.body) {
-      capturedRequestBody = JSON.parse(init.body as string);
-    }
-    return Promise.resolve(mockResponse);
+  assertEquals(result, 41);
+  const update = transport.requests.at(-1)!;
+  assertEquals(update.method, 'PATCH');
+  assertEquals((update.body as { title: string }).title, 'Update Deno to v2.5.6');
+});
+
+Deno.test('createPullRequest - applies labels, reviewers and milestone', async () => {
+  const transport = createFakeFetch({
+    'POST /repos/thomas3577/DenoHost/pulls': () => json({ number: 50 }, { status: 201 }),
+    'POST /repos/thomas3577/DenoHost/issues/50/labels': () => json([{ name: 'dependencies' }]),
+    'POST /repos/thomas3577/DenoHost/pulls/50/requested_reviewers': () => json({ number: 50 }, { status: 201 }),
+    'GET /repos/thomas3577/DenoHost/milestones': () => json([{ number: 3, title: 'Next', state: 'open' }]),
+    'PATCH /repos/thomas3577/DenoHost/issues/50': () => json({ number: 50 }),
   });
+  const client = new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch });
 
+  await createPullRequest(client, 'thomas3577/DenoHost', 'release/v2.5.6', '2.5.6', ['2.5.6'], {}, { base: 'main', labels: ['dependencies', 'deno'], reviewers: ['thomas3577', 'acme/maintainers'], milestone: 'Next' });
+
+  const bodyOf = (method: string, path: string) => transport.requests.find((r) => r.method === method && r.path === path)?.body;
+  assertEquals(bodyOf('POST', '/repos/thomas3577/DenoHost/issues/50/labels'), { labels: ['dependencies', 'deno'] });
+  assertEquals(bodyOf('POST', '/repos/thomas3577/DenoHost/pulls/50/requested_reviewers'), { reviewers: ['thomas3577'], team_reviewers: ['maintainers'] });
+  assertEquals(bodyOf('PATCH', '/repos/thomas3577/DenoHost/issues/50'), { milestone: 3 });
+});
+
+Deno.test('readRuntimeHashes - reads deno.metadata.json per runtime project', async () => {
+  const workspace = await Deno.makeTempDir();
   try {
-    await createPullRequest(
-      'update-deno-v1.45.0',
-      '1.45.0',
-      'test-token',
-    );
-
-    assertEquals(capturedRequestBody.title, 'Update Deno to v1.45.0');
-    assertEquals(capturedRequestBody.head, 'update-deno-v1.45.0');
-    assertEquals(capturedRequestBody.base, 'main');
-    assertEquals(capturedRequestBody.draft, true);
-
-    // Check that body contains expected content
-    const body = capturedRequestBody.body as string;
-    assertEquals(body.includes('Deno v1.45.0'), true);
-    assertEquals(body.includes('This will create a new release when merged'), true);
-    assertEquals(body.includes('git tag v1.45.0-alpha.N && git push --tags'), true);
-    assertEquals(body.includes('alpha verification from `nuget.org`'), true);
-    assertEquals(body.includes('git tag v1.45.0 && git push --tags'), true);
-    assertEquals(body.includes('automatically by the Deno Release Check'), true);
+    for (const rid of ['linux-x64', 'osx-arm64', 'win-x64']) await Deno.mkdir(`${workspace}/DenoHost.Runtime.${rid}`);
+    await Deno.mkdir(`${workspace}/DenoHost.Runtime.Downloader`);
+    const metadata = (rid: string, denoVersion: string, fileName = 'deno') => JSON.stringify({ metadataVersion: 1, fileName, rid, denoVersion, sha256: `${rid}-sha`, source: '', createdAtUtc: '' });
+    await Deno.writeTextFile(`${workspace}/DenoHost.Runtime.linux-x64/deno.metadata.json`, metadata('linux-x64', '2.5.6'));
+    await Deno.writeTextFile(`${workspace}/DenoHost.Runtime.win-x64/deno.metadata.json`, metadata('win-x64', '2.5.5', 'deno.exe'));
+
+    const { hashes, missingRids } = await readRuntimeHashes(workspace, '2.5.6');
+
+    assertEquals(hashes, [{ rid: 'linux-x64', fileName: 'deno', sha256: 'linux-x64-sha' }]);
+    assertEquals(missingRids, ['osx-arm64', 'win-x64']);
   } finally {
-    restore();
+    await Deno.remove(workspace, { recursive: true });
   }
 });
@@ -1,5 +1,8 @@
-import { assertEquals, assertRejects } from '@std/assert';
+import { assertEquals, assertRejects, assertThrows } from '@std/assert';
 import { restore, stub } from '@std/testing/mock';
+import { fetchDenoReleases, findMissingVersions, parseChannel } from './fetch-deno-release.ts';
+import { GitHubApiError, GitHubClient } from './github-client.ts';
+import { createFakeFetch, json } from './stub-server.ts';
 
 // Import the functions we want to test
 // Since the scripts are designed to run as main modules, we'll test the core logic
@@ -99,3 +102,53 @@ Deno.test('removeVersionPrefix - empty string', () => {
 Deno.test('removeVersionPrefix - only v', () => {
   assertEquals(removeVersionPrefix('v'), '');
 });
+
+Deno.test('fetchDenoReleases - follows pagination and skips drafts', async () => {
+  const transport = createFakeFetch({
+    'GET /repos/denoland/deno/releases': (req, url) => {
+      const page = Number(req.query.get('page') ?? '1');
+      if (page === 1) return json(Array.from({ length: 100 }, (_, i) => ({ tag_name: `v1.${i}.0`, draft: false })), { headers: { link: `<${url}/repos/denoland/deno/releases?per_page=100&page=2>; rel="next"` } });
+      return json([{ tag_name: 'v2.6.0', draft: true }, { tag_name: 'v2.5.1', draft: false }]);
+    },
+  });
+
+  const tags = await fetchDenoReleases({ client: new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch }) });
+
+  assertEquals(transport.requests.map((r) => r.query.get('page')), [null, '2']);
+  assertEquals(tags.length, 101);
+  assertEquals(tags.at(-1), 'v2.5.1');
+});
+
+Deno.test('fetchDenoReleases - stops after maxPages', async () => {
+  const transport = createFakeFetch({
+    'GET /repos/denoland/deno/releases': (req, url) => json([{ tag_name: `v1.${req.query.get('page') ?? 1}.0`, draft: false }], { headers: { link: `<${url}/repos/denoland/deno/releases?page=${Number(req.query.get('page') ?? 1) + 1}>; rel="next"` } }),
+  });
+
+  const tags = await fetchDenoReleases({ client: new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch }), maxPages: 3 });
+
+  assertEquals(tags, ['v1.1.0', 'v1.2.0', 'v1.3.0']);
+});
+
+Deno.test('fetchDenoReleases - API failure', async () => {
+  const transport = createFakeFetch({
+    'GET /repos/denoland/deno/releases': () => new Response('Bad credentials', { status: 401 }),
+  });
+
+  await assertRejects(() => fetchDenoReleases({ client: new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch }) }), GitHubApiError, '401 GET');
+});
+
+Deno.test('findMissingVersions - channels select the versions newer than Directory.Build.props', () => {
+  const tags = ['v2.6.1', 'v2.5.6', 'v2.6.0', 'v2.6.0-rc.1', 'v2.5.5', 'v2.5.4', 'std/0.224.0'];
+
+  assertEquals(findMissingVersions(tags, parseChannel('latest', '2.5.4'), '2.5.4'), ['2.5.5', '2.5.6', '2.6.0', '2.6.1']);
+  assertEquals(findMissingVersions(tags, parseChannel('rc', '2.5.6'), '2.5.6'), ['2.6.0-rc.1', '2.6.0', '2.6.1']);
+  assertEquals(findMissingVersions(tags, parseChannel('lts', '2.5.4'), '2.5.4'), ['2.5.5', '2.5.6']);
+  assertEquals(findMissingVersions(tags, parseChannel('>=2.6.0 <2.6.1', '2.5.4'), '2.5.4'), ['2.6.0']);
+  assertEquals(findMissingVersions(tags, parseChannel('latest', '2.6.1'), '2.6.1'), []);
+});
+
+Deno.test('parseChannel - lts needs a valid current version', () => {
+  assertThrows(() => parseChannel('lts', null), Error, 'lts channel');
+  assertEquals(parseChannel('', '2.5.4').name, 'latest');
+  assertEquals(parseChannel('rc', '2.5.4').includePrerelease, true);
+});
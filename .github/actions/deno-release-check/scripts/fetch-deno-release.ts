@@ -1,73 +1,117 @@
-#!/usr/bin/env -S deno run --allow-net --allow-run
-
-interface DenoRelease {
-  tag_name: string;
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read --allow-write
+
+import { checkCurrentVersion } from './check-existing-release.ts';
+import { createClientFromEnv, type GitHubClient } from './github-client.ts';
+import { compareVersions, formatVersion, isPrerelease, parseRange, parseVersion, type Range, satisfies, type Version } from './versions.ts';
+
+const DENO_REPOSITORY = 'denoland/deno';
+const MAX_PAGES = 10;
+
+/**
+ * Which releases to track:
+ * - `latest`: every stable release (the default)
+ * - `rc`: stable releases and release candidates
+ * - `lts`: patches of the minor line in Directory.Build.props (`~2.5.0` when it pins 2.5.x)
+ * - anything else is a semver range, e.g. `2.5.x`, `>=2.5.0 <2.7.0` or `^2.5.0`
+ */
+export interface Channel {
+  name: string;
+  range: Range | null;
+  includePrerelease: boolean;
 }
 
-async function fetchLatestDenoReleaseFromGitHub(): Promise<string | null> {
-  console.log('Fetching latest Deno release from GitHub API...');
+export interface FetchReleasesOptions {
+  client: GitHubClient;
+  repository?: string;
+  maxPages?: number;
+}
 
-  try {
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'DenoHost-Release-Check',
-    };
-
-    // Add GitHub token if available to avoid rate limiting
-    const githubToken = Deno.env.get('GH_TOKEN') || Deno.env.get('GITHUB_TOKEN');
-    if (githubToken) {
-      headers['Authorization'] = `token ${githubToken}`;
+export function parseChannel(channel: string, currentVersion: string | null, includePrerelease = false): Channel {
+  const name = channel.trim() || 'latest';
+  switch (name) {
+    case 'latest':
+      return { name, range: null, includePrerelease };
+    case 'rc':
+      return { name, range: null, includePrerelease: true };
+    case 'lts': {
+      const current = currentVersion ? parseVersion(currentVersion) : null;
+      if (!current) {
+        throw new Error(`The lts channel follows the minor line of Directory.Build.props, but its DenoVersion '${currentVersion}' is not a valid version`);
+      }
+      return { name, range: parseRange(`~${current.major}.${current.minor}.0`), includePrerelease };
     }
+    default:
+      return { name, range: parseRange(name), includePrerelease };
+  }
+}
 
-    const response = await fetch('https://api.github.com/repos/denoland/deno/releases/latest', {
-      headers,
-    });
+// Pages through /releases (newest first, up to `maxPages` of 100); drafts are skipped.
+export async function fetchDenoReleases(options: FetchReleasesOptions): Promise<string[]> {
+  const releases = await options.client.listReleases(options.repository ?? DENO_REPOSITORY, options.maxPages ?? MAX_PAGES);
+  return releases.filter((release) => !release.draft && release.tag_name).map((release) => release.tag_name);
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`GitHub API request failed: ${response.status} - ${errorText}`);
-    }
+/** The released versions on the channel, oldest first. Tags that are not semver (e.g. `std/0.1.0`) are ignored. */
+export function selectVersions(tags: string[], channel: Channel): Version[] {
+  const versions = new Map<string, Version>();
+  for (const tag of tags) {
+    const version = parseVersion(tag);
+    if (!version) continue;
+    const onChannel = channel.range ? satisfies(version, channel.range, channel.includePrerelease) : channel.includePrerelease || !isPrerelease(version);
+    if (onChannel) versions.set(formatVersion(version), version);
+  }
+  return [...versions.values()].sort(compareVersions);
+}
 
-    const data: DenoRelease = await response.json();
+/** The channel's versions newer than `currentVersion`, oldest first; all of them when the current version is unknown. */
+export function findMissingVersions(tags: string[], channel: Channel, currentVersion: string | null): string[] {
+  const current = currentVersion ? parseVersion(currentVersion) : null;
+  return selectVersions(tags, channel)
+    .filter((version) => !current || compareVersions(version, current) > 0)
+    .map(formatVersion);
+}
 
-    if (!data.tag_name) {
-      throw new Error('No tag_name found in release data');
-    }
+async function main() {
+  const channelInput = Deno.env.get('DENO_CHANNEL') || 'latest';
+  const includePrerelease = Deno.env.get('DENO_INCLUDE_PRERELEASE') === 'true';
+  const currentVersion = await checkCurrentVersion();
 
-    return data.tag_name;
+  let channel: Channel;
+  try {
+    channel = parseChannel(channelInput, currentVersion, includePrerelease);
   } catch (error) {
-    console.error(`GitHub API failed: ${error}`);
-    return null;
+    console.error(`Invalid channel: ${error instanceof Error ? error.message : error}`);
+    Deno.exit(1);
   }
-}
 
-async function fetchLatestDenoRelease(): Promise<string> {
-  const version = await fetchLatestDenoReleaseFromGitHub();
+  console.log(`Fetching Deno releases from GitHub API (channel: ${channel.name}, prereleases: ${channel.includePrerelease})...`);
 
-  if (!version) {
-    console.error('Failed to fetch latest Deno release from GitHub API');
+  let tags: string[];
+  try {
+    tags = await fetchDenoReleases({ client: createClientFromEnv() });
+  } catch (error) {
+    console.error(`Failed to fetch Deno releases: ${error}`);
     Deno.exit(1);
   }
 
-  return version;
-}
-
-async function main() {
-  const fullTag = await fetchLatestDenoRelease();
-  console.log(`Latest Deno release: ${fullTag}`);
-
-  // Remove leading 'v' if present
-  const tagCore = fullTag.replace(/^v/, '');
-
-  if (!tagCore || tagCore === 'null' || tagCore === 'undefined') {
-    console.error(`Invalid tag core extracted: '${tagCore}' from '${fullTag}'`);
+  const versions = selectVersions(tags, channel);
+  if (versions.length === 0) {
+    console.error(`No Deno release matches channel '${channel.name}'`);
     Deno.exit(1);
   }
 
+  // tag_core stays the newest release on the channel, so a single-version check keeps working.
+  const tagCore = formatVersion(versions[versions.length - 1]);
+  const fullTag = `v${tagCore}`;
+  const missing = findMissingVersions(tags, channel, currentVersion);
+
+  console.log(`Latest Deno release on channel '${channel.name}': ${fullTag}`);
+  console.log(missing.length > 0 ? `Missing versions since ${currentVersion ?? 'unknown'}: ${missing.join(', ')}` : 'No missing versions.');
+
   // Set GitHub Actions outputs
   const outputFile = Deno.env.get('GITHUB_OUTPUT');
   if (outputFile) {
-    await Deno.writeTextFile(outputFile, `tag_core=${tagCore}\nfull_tag=${fullTag}\n`, {
+    await Deno.writeTextFile(outputFile, `tag_core=${tagCore}\nfull_tag=${fullTag}\nmissing_versions=${JSON.stringify(missing)}\nmissing_count=${missing.length}\n`, {
       append: true,
     });
   }
@@ -0,0 +1,128 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { getNextPageUrl, getRateLimitDelayMs, GitHubApiError, GitHubClient, GitHubNetworkError, GitHubRateLimitError } from './github-client.ts';
+import { createFakeFetch, json, startStubServer } from './stub-server.ts';
+
+const noSleep = () => Promise.resolve();
+const quiet = { log: () => {}, error: () => {} };
+
+Deno.test('getNextPageUrl - reads rel="next" from the Link header', () => {
+  const link = '<https://api.github.com/repositories/1/pulls?page=2>; rel="next", <https://api.github.com/repositories/1/pulls?page=5>; rel="last"';
+  assertEquals(getNextPageUrl(link), 'https://api.github.com/repositories/1/pulls?page=2');
+  assertEquals(getNextPageUrl('<https://api.github.com/repositories/1/pulls?page=1>; rel="prev"'), null);
+  assertEquals(getNextPageUrl(null), null);
+});
+
+Deno.test('getRateLimitDelayMs - reads retry-after as seconds or an HTTP date', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  const limited = (headers: Record<string, string>) => new Response(null, { status: 403, headers });
+
+  assertEquals(getRateLimitDelayMs(limited({ 'retry-after': '7' }), now), 7_000);
+  assertEquals(getRateLimitDelayMs(limited({ 'retry-after': 'Mon, 19 Oct 2026 12:00:30 GMT' }), now), 30_000);
+  assertEquals(getRateLimitDelayMs(limited({ 'retry-after': 'Mon, 19 Oct 2026 11:59:00 GMT' }), now), 0);
+  const reset = String(now / 1000 + 20);
+  assertEquals(getRateLimitDelayMs(limited({ 'retry-after': 'soon', 'x-ratelimit-reset': reset }), now), 21_000);
+  assertEquals(getRateLimitDelayMs(limited({ 'retry-after': 'soon' }), now), 60_000);
+  assertEquals(getRateLimitDelayMs(limited({}), now), null);
+});
+
+Deno.test('GitHubClient - sends one set of headers', async () => {
+  const transport = createFakeFetch({ 'POST /repos/owner/repo/issues/1/labels': () => json([{ name: 'deno' }]) });
+  const client = new GitHubClient({ token: 'secret', apiUrl: transport.url, fetchImpl: transport.fetch });
+
+  assertEquals(await client.addLabels('owner/repo', 1, ['deno']), [{ name: 'deno' }]);
+
+  const headers = transport.requests[0].headers;
+  assertEquals(headers.get('authorization'), 'Bearer secret');
+  assertEquals(headers.get('accept'), 'application/vnd.github+json');
+  assertEquals(headers.get('x-github-api-version'), '2022-11-28');
+  assertEquals(headers.get('content-type'), 'application/json');
+  assertEquals(transport.requests[0].body, { labels: ['deno'] });
+});
+
+Deno.test('GitHubClient - paginates over a local HTTP server', async () => {
+  const server = startStubServer({
+    'GET /repos/owner/repo/pulls': (req, url) => {
+      const page = Number(req.query.get('page') ?? '1');
+      const prs = [{ number: page, title: `PR ${page}`, head: { ref: `branch-${page}` }, state: 'open' }];
+      return json(prs, { headers: page < 3 ? { link: `<${url}/repos/owner/repo/pulls?state=open&per_page=100&page=${page + 1}>; rel="next"` } : {} });
+    },
+  });
+
+  try {
+    const prs = await new GitHubClient({ apiUrl: server.url }).listPullRequests('owner/repo');
+    assertEquals(prs.map((pr) => pr.number), [1, 2, 3]);
+    assertEquals(server.requests.length, 3);
+    assertEquals(server.requests[0].query.get('per_page'), '100');
+    assertEquals(server.requests[0].query.get('state'), 'open');
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test('GitHubClient - waits out primary and secondary rate limits', async () => {
+  let calls = 0;
+  const transport = createFakeFetch({
+    'GET /repos/owner/repo/branches': () => {
+      calls++;
+      if (calls === 1) return json({ message: 'API rate limit exceeded' }, { status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 30) } });
+      if (calls === 2) return json({ message: 'You have exceeded a secondary rate limit' }, { status: 403, headers: { 'retry-after': '7' } });
+      return json([{ name: 'main' }]);
+    },
+  });
+  const delays: number[] = [];
+  const client = new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch, logger: quiet, sleepImpl: (ms) => (delays.push(ms), noSleep()) });
+
+  assertEquals(await client.listBranches('owner/repo'), [{ name: 'main' }]);
+  assertEquals(delays.length, 2);
+  assertEquals(delays[0] > 25_000 && delays[0] <= 31_000, true);
+  assertEquals(delays[1], 7_000);
+});
+
+Deno.test('GitHubClient - retries 5xx and network errors with exponential backoff', async () => {
+  let calls = 0;
+  const transport = createFakeFetch({
+    'GET /repos/owner/repo/labels': () => {
+      calls++;
+      if (calls === 1) throw new TypeError('connection reset');
+      if (calls === 2) return new Response('Bad Gateway', { status: 502 });
+      return json([{ name: 'dependencies' }]);
+    },
+  });
+  const delays: number[] = [];
+  const client = new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch, logger: quiet, sleepImpl: (ms) => (delays.push(ms), noSleep()) });
+
+  assertEquals(await client.listLabels('owner/repo'), [{ name: 'dependencies' }]);
+  assertEquals(delays, [1_000, 2_000]);
+});
+
+Deno.test('GitHubClient - revalidates GET requests with the cached ETag', async () => {
+  const transport = createFakeFetch({
+    'GET /repos/denoland/deno/releases/latest': (req) => req.headers.get('if-none-match') === '"abc"' ? new Response(null, { status: 304 }) : json({ tag_name: 'v2.5.6', draft: false, prerelease: false, name: null }, { headers: { etag: '"abc"' } }),
+  });
+  const client = new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch });
+
+  assertEquals((await client.getLatestRelease('denoland/deno')).tag_name, 'v2.5.6');
+  assertEquals((await client.getLatestRelease('denoland/deno')).tag_name, 'v2.5.6');
+  assertEquals(transport.requests.map((r) => r.headers.get('if-none-match')), [null, '"abc"']);
+});
+
+Deno.test('GitHubClient - errors have consistent types', async () => {
+  const transport = createFakeFetch({
+    'GET /repos/owner/repo/pulls': () => json({ message: 'Bad credentials' }, { status: 401 }),
+    'GET /repos/owner/repo/branches': () => json({ message: 'rate limited' }, { status: 429, headers: { 'retry-after': '1' } }),
+    'DELETE /repos/owner/repo/git/refs/heads/gone': () => json({ message: 'Reference does not exist' }, { status: 422 }),
+  });
+  const client = new GitHubClient({ apiUrl: transport.url, fetchImpl: transport.fetch, logger: quiet, sleepImpl: noSleep, maxRetries: 2 });
+
+  const unauthorized = await assertRejects(() => client.listPullRequests('owner/repo'), GitHubApiError, 'Bad credentials');
+  assertEquals(unauthorized.status, 401);
+
+  const limited = await assertRejects(() => client.listBranches('owner/repo'), GitHubRateLimitError, '429 GET');
+  assertEquals(limited.retryAfterMs, 1_000);
+  assertEquals(transport.requests.filter((r) => r.path.endsWith('/branches')).length, 3);
+
+  await assertRejects(() => client.deleteBranch('owner/repo', 'gone'), GitHubApiError, '422 DELETE');
+
+  const offline = new GitHubClient({ fetchImpl: () => Promise.reject(new TypeError('dns error')), logger: quiet, sleepImpl: noSleep, maxRetries: 1 });
+  await assertRejects(() => offline.getLatestRelease('denoland/deno'), GitHubNetworkError, 'dns error');
+});
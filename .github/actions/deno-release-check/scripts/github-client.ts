@@ -0,0 +1,357 @@
+// The GitHub REST client shared by the release scripts: one set of headers (Bearer token, API version 2022-11-28),
+// `Link` pagination, retries with exponential backoff for network errors and 5xx responses, waiting out primary and
+// secondary rate limits, and ETag caching of GET requests (a `304 Not Modified` does not count against the rate
+// limit). Every failure is a `GitHubError`; HTTP errors are `GitHubApiError`s carrying the status.
+
+const DEFAULT_API_URL = 'https://api.github.com';
+const API_VERSION = '2022-11-28';
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_RATE_LIMIT_WAIT_MS = 15 * 60_000;
+
+// ─── Response types ─────────────────────────────────────────────────────────
+
+export interface GitHubRelease {
+  tag_name: string;
+  name: string | null;
+  body?: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  html_url?: string;
+  published_at?: string | null;
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  body?: string | null;
+  state: string;
+  draft?: boolean;
+  html_url?: string;
+  head: {
+    ref: string;
+    sha?: string;
+    repo?: { full_name: string } | null;
+  };
+  base?: { ref: string };
+  labels?: GitHubLabel[];
+}
+
+export interface GitHubBranch {
+  name: string;
+  commit?: { sha: string };
+  protected?: boolean;
+}
+
+export interface GitHubLabel {
+  name: string;
+  color?: string;
+  description?: string | null;
+}
+
+export interface GitHubMilestone {
+  number: number;
+  title: string;
+  state: string;
+}
+
+export interface GitHubComment {
+  id: number;
+  body: string;
+}
+
+/** A published repository security advisory (`GET /repos/{owner}/{repo}/security-advisories`). */
+export interface GitHubSecurityAdvisory {
+  ghsa_id: string;
+  cve_id: string | null;
+  html_url: string;
+  summary: string;
+  severity: 'critical' | 'high' | 'medium' | 'low' | null;
+  state: string;
+  published_at: string | null;
+  withdrawn_at: string | null;
+  vulnerabilities: {
+    package: { ecosystem: string; name: string | null } | null;
+    /** Comma-separated comparators, e.g. `>= 2.0.0, < 2.5.6`. */
+    vulnerable_version_range: string | null;
+    patched_versions: string | null;
+  }[] | null;
+}
+
+export interface NewPullRequest {
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+  draft?: boolean;
+}
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+export class GitHubError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'GitHubError';
+  }
+}
+
+/** The API answered with an error status (after any retries). */
+export class GitHubApiError extends GitHubError {
+  constructor(readonly status: number, readonly method: string, readonly url: string, readonly body: string) {
+    super(`GitHub API request failed: ${status} ${method} ${url} - ${body}`);
+    this.name = 'GitHubApiError';
+  }
+}
+
+/** A primary or secondary rate limit did not reset within the retries (or would take too long to wait for). */
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(status: number, method: string, url: string, body: string, readonly retryAfterMs: number) {
+    super(status, method, url, body);
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+/** The request never got an answer (DNS, connection reset, ...), even after retrying. */
+export class GitHubNetworkError extends GitHubError {
+  constructor(readonly method: string, readonly url: string, cause: unknown) {
+    super(`GitHub API request failed: ${method} ${url} - ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = 'GitHubNetworkError';
+  }
+}
+
+// ─── Client ─────────────────────────────────────────────────────────────────
+
+export interface GitHubClientOptions {
+  token?: string;
+  apiUrl?: string;
+  fetchImpl?: typeof fetch;
+  sleepImpl?: (delayMs: number) => Promise<void>;
+  logger?: Pick<Console, 'log' | 'error'>;
+  maxRetries?: number;
+}
+
+export interface RequestOptions {
+  body?: unknown;
+  /** Extra headers, e.g. a different `Accept` for diffs. */
+  headers?: Record<string, string>;
+}
+
+interface CachedResponse {
+  etag: string;
+  body: string;
+  link: string | null;
+}
+
+// The primary limit resets at `x-ratelimit-reset`; secondary limits send `retry-after` (or nothing, then a minute
+// is the documented minimum). `retry-after` is either seconds or an HTTP date; an unreadable one falls back to
+// `x-ratelimit-reset`. Returns null when the response is not rate limited.
+export function getRateLimitDelayMs(response: Response, now = Date.now()): number | null {
+  if (response.status !== 403 && response.status !== 429) return null;
+
+  const retryAfter = response.headers.get('retry-after')?.trim();
+  if (retryAfter) {
+    const delayMs = /^\d+$/.test(retryAfter) ? Number(retryAfter) * 1000 : Date.parse(retryAfter) - now;
+    if (Number.isFinite(delayMs)) return Math.max(delayMs, 0);
+  }
+
+  if (retryAfter || response.headers.get('x-ratelimit-remaining') === '0') {
+    const reset = Number(response.headers.get('x-ratelimit-reset') ?? NaN);
+    return Number.isFinite(reset) ? Math.max(reset * 1000 - now, 0) + 1000 : 60_000;
+  }
+
+  return response.status === 429 ? 60_000 : null;
+}
+
+export function getNextPageUrl(linkHeader: string | null): string | null {
+  const next = linkHeader?.split(',').find((link) => /rel="next"/.test(link));
+  return next?.match(/<([^>]+)>/)?.[1] ?? null;
+}
+
+export class GitHubClient {
+  readonly apiUrl: string;
+  private readonly token?: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly sleepImpl: (delayMs: number) => Promise<void>;
+  private readonly logger: Pick<Console, 'log' | 'error'>;
+  private readonly maxRetries: number;
+  private readonly etagCache = new Map<string, CachedResponse>();
+
+  constructor(options: GitHubClientOptions = {}) {
+    this.apiUrl = (options.apiUrl ?? DEFAULT_API_URL).replace(/\/$/, '');
+    this.token = options.token;
+    this.fetchImpl = options.fetchImpl ?? fetch;
+    this.sleepImpl = options.sleepImpl ?? ((delayMs: number) => new Promise((resolve) => setTimeout(resolve, delayMs)));
+    this.logger = options.logger ?? console;
+    this.maxRetries = options.maxRetries ?? MAX_RETRIES;
+  }
+
+  /** Sends a request and parses the JSON answer (`undefined` for `204 No Content`). */
+  async request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    const { text } = await this.send(method, path, options);
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  /** Sends a request and returns the raw body, e.g. for `application/vnd.github.diff`. */
+  async requestText(method: string, path: string, options: RequestOptions = {}): Promise<string> {
+    return (await this.send(method, path, options)).text;
+  }
+
+  /** Fetches every page of a list endpoint by following the `Link` header, up to `maxPages`. */
+  async paginate<T>(path: string, maxPages = Infinity): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | null = `${path}${path.includes('?') ? '&' : '?'}per_page=100`;
+    for (let page = 0; next && page < maxPages; page++) {
+      const { text, link } = await this.send('GET', next);
+      items.push(...JSON.parse(text) as T[]);
+      next = getNextPageUrl(link);
+    }
+    return items;
+  }
+
+  // ─── Typed endpoints ─────────────────────────────────────────────────────
+
+  listReleases(repository: string, maxPages?: number): Promise<GitHubRelease[]> {
+    return this.paginate<GitHubRelease>(`/repos/${repository}/releases`, maxPages);
+  }
+
+  getLatestRelease(repository: string): Promise<GitHubRelease> {
+    return this.request<GitHubRelease>('GET', `/repos/${repository}/releases/latest`);
+  }
+
+  getReleaseByTag(repository: string, tag: string): Promise<GitHubRelease> {
+    return this.request<GitHubRelease>('GET', `/repos/${repository}/releases/tags/${encodeURIComponent(tag)}`);
+  }
+
+  listPullRequests(repository: string, state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubPullRequest[]> {
+    return this.paginate<GitHubPullRequest>(`/repos/${repository}/pulls?state=${state}`);
+  }
+
+  createPullRequest(repository: string, pullRequest: NewPullRequest): Promise<GitHubPullRequest> {
+    return this.request<GitHubPullRequest>('POST', `/repos/${repository}/pulls`, { body: pullRequest });
+  }
+
+  updatePullRequest(repository: string, number: number, update: Partial<Pick<GitHubPullRequest, 'title' | 'body' | 'state'>>): Promise<GitHubPullRequest> {
+    return this.request<GitHubPullRequest>('PATCH', `/repos/${repository}/pulls/${number}`, { body: update });
+  }
+
+  /** Requests reviews; `org/team` entries are requested as team reviewers. */
+  async requestReviewers(repository: string, number: number, reviewers: string[]): Promise<void> {
+    const teams = reviewers.filter((r) => r.includes('/')).map((r) => r.slice(r.indexOf('/') + 1));
+    const users = reviewers.filter((r) => !r.includes('/'));
+    await this.request<unknown>('POST', `/repos/${repository}/pulls/${number}/requested_reviewers`, { body: { reviewers: users, team_reviewers: teams } });
+  }
+
+  listBranches(repository: string): Promise<GitHubBranch[]> {
+    return this.paginate<GitHubBranch>(`/repos/${repository}/branches`);
+  }
+
+  async deleteBranch(repository: string, branch: string): Promise<void> {
+    await this.request<void>('DELETE', `/repos/${repository}/git/refs/heads/${branch}`);
+  }
+
+  createComment(repository: string, issueNumber: number, body: string): Promise<GitHubComment> {
+    return this.request<GitHubComment>('POST', `/repos/${repository}/issues/${issueNumber}/comments`, { body: { body } });
+  }
+
+  listLabels(repository: string): Promise<GitHubLabel[]> {
+    return this.paginate<GitHubLabel>(`/repos/${repository}/labels`);
+  }
+
+  addLabels(repository: string, issueNumber: number, labels: string[]): Promise<GitHubLabel[]> {
+    return this.request<GitHubLabel[]>('POST', `/repos/${repository}/issues/${issueNumber}/labels`, { body: { labels } });
+  }
+
+  listMilestones(repository: string, state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubMilestone[]> {
+    return this.paginate<GitHubMilestone>(`/repos/${repository}/milestones?state=${state}`);
+  }
+
+  async setMilestone(repository: string, issueNumber: number, milestone: number): Promise<void> {
+    await this.request<unknown>('PATCH', `/repos/${repository}/issues/${issueNumber}`, { body: { milestone } });
+  }
+
+  listSecurityAdvisories(repository: string, maxPages?: number): Promise<GitHubSecurityAdvisory[]> {
+    return this.paginate<GitHubSecurityAdvisory>(`/repos/${repository}/security-advisories?state=published`, maxPages);
+  }
+
+  // ─── Transport ───────────────────────────────────────────────────────────
+
+  private async send(method: string, path: string, options: RequestOptions = {}): Promise<{ text: string; link: string | null }> {
+    const url = path.startsWith('http') ? path : `${this.apiUrl}${path}`;
+    const cached = method === 'GET' ? this.etagCache.get(url) : undefined;
+
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github+json',
+      'User-Agent': 'DenoHost-Release-Check',
+      'X-GitHub-Api-Version': API_VERSION,
+      ...options.headers,
+    };
+
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (cached) {
+      headers['If-None-Match'] = cached.etag;
+    }
+
+    for (let attempt = 0;; attempt++) {
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, { method, headers, body: options.body === undefined ? undefined : JSON.stringify(options.body) });
+      } catch (error) {
+        if (attempt >= this.maxRetries) throw new GitHubNetworkError(method, url, error);
+        await this.backoff(attempt, `${method} ${url} failed (${error instanceof Error ? error.message : error})`);
+        continue;
+      }
+
+      if (response.status === 304 && cached) {
+        await response.body?.cancel();
+        return { text: cached.body, link: cached.link };
+      }
+
+      const text = await response.text();
+      if (response.ok) {
+        const etag = response.headers.get('etag');
+        const link = response.headers.get('link');
+        if (method === 'GET' && etag) this.etagCache.set(url, { etag, body: text, link });
+        return { text, link };
+      }
+
+      const delayMs = getRateLimitDelayMs(response);
+      if (delayMs !== null) {
+        if (attempt >= this.maxRetries || delayMs > MAX_RATE_LIMIT_WAIT_MS) throw new GitHubRateLimitError(response.status, method, url, text, delayMs);
+        this.logger.log(`Rate limited by GitHub (${response.status}); retrying in ${Math.ceil(delayMs / 1000)}s...`);
+        await this.sleepImpl(delayMs);
+        continue;
+      }
+
+      if (response.status >= 500 && attempt < this.maxRetries) {
+        await this.backoff(attempt, `${method} ${url} returned ${response.status}`);
+        continue;
+      }
+
+      throw new GitHubApiError(response.status, method, url, text);
+    }
+  }
+
+  private async backoff(attempt: number, reason: string): Promise<void> {
+    const delayMs = BASE_BACKOFF_MS * 2 ** attempt;
+    this.logger.log(`${reason}; retrying in ${delayMs / 1000}s...`);
+    await this.sleepImpl(delayMs);
+  }
+}
+
+/** A client authenticated with GH_TOKEN (or GITHUB_TOKEN), talking to GITHUB_API_URL when set (GitHub Enterprise). */
+export function createClientFromEnv(options: Omit<GitHubClientOptions, 'token' | 'apiUrl'> = {}): GitHubClient {
+  return new GitHubClient({ ...options, token: Deno.env.get('GH_TOKEN') || Deno.env.get('GITHUB_TOKEN'), apiUrl: Deno.env.get('GITHUB_API_URL') });
+}
+
+export function getRepository(): string {
+  const repository = Deno.env.get('GITHUB_REPOSITORY');
+  if (!repository) {
+    throw new Error('GITHUB_REPOSITORY environment variable not set');
+  }
+  return repository;
+}
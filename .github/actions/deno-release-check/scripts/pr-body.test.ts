@@ -0,0 +1,97 @@
+import { assertEquals, assertStringIncludes } from '@std/assert';
+import { extractNotableChanges, parseGeneratedDiff, renderPullRequestBody, renderPullRequestTitle, type SecurityAdvisory } from './pr-body.ts';
+
+const RELEASE_BODY = `### 2.5.6 / 2025.10.29
+
+- feat(unstable): add \`Deno.foo\` (#31001)
+- fix(ext/node): handle empty buffers (#31002)
+- chore: update deps (#31003)
+- perf(ext/web): faster TextDecoder (#31004)
+- test: flaky test (#31005)
+- refactor(cli)!: drop --legacy-flag (#31006)
+- docs: typo (#31007)`;
+
+const DIFF = `diff --git a/DenoHost.Core/Commands/Generated/RunOptions.g.cs b/DenoHost.Core/Commands/Generated/RunOptions.g.cs
+index 1111111..2222222 100644
+--- a/DenoHost.Core/Commands/Generated/RunOptions.g.cs
++++ b/DenoHost.Core/Commands/Generated/RunOptions.g.cs
+@@ -10,9 +10,12 @@ public sealed partial class RunOptions
+-  public bool? LegacyFlag { get; set; }
++  public bool? NewFlag { get; set; }
+-  public string? Conditions { get; set; }
++  public string[]? Conditions { get; set; }
+   public bool? Quiet { get; set; }
+diff --git a/DenoHost.Core/Commands/Generated/FooOptions.g.cs b/DenoHost.Core/Commands/Generated/FooOptions.g.cs
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/DenoHost.Core/Commands/Generated/FooOptions.g.cs
+@@ -0,0 +1,3 @@
++  public bool? Bar { get; set; }
+diff --git a/DenoHost.Core/Commands/Generated/TestOptions.g.cs b/DenoHost.Core/Commands/Generated/TestOptions.g.cs
+index 4444444..5555555 100644
+--- a/DenoHost.Core/Commands/Generated/TestOptions.g.cs
++++ b/DenoHost.Core/Commands/Generated/TestOptions.g.cs
+@@ -1,3 +1,3 @@
+-// Sources: \`deno json_reference\` + Deno JSON schema (Deno 2.5.5)
++// Sources: \`deno json_reference\` + Deno JSON schema (Deno 2.5.6)
+`;
+
+Deno.test('extractNotableChanges - keeps features, fixes, performance and breaking changes', () => {
+  assertEquals(extractNotableChanges(RELEASE_BODY).changes, [
+    '- feat(unstable): add `Deno.foo` (#31001)',
+    '- fix(ext/node): handle empty buffers (#31002)',
+    '- perf(ext/web): faster TextDecoder (#31004)',
+    '- refactor(cli)!: drop --legacy-flag (#31006)',
+  ]);
+  assertEquals(extractNotableChanges(RELEASE_BODY, 2), { changes: ['- feat(unstable): add `Deno.foo` (#31001)', '- fix(ext/node): handle empty buffers (#31002)'], omitted: 2 });
+});
+
+Deno.test('parseGeneratedDiff - files and properties added, removed and changed', () => {
+  assertEquals(parseGeneratedDiff(DIFF), [
+    { path: 'DenoHost.Core/Commands/Generated/RunOptions.g.cs', status: 'modified', addedProperties: ['NewFlag'], removedProperties: ['LegacyFlag'], changedProperties: ['Conditions'] },
+    { path: 'DenoHost.Core/Commands/Generated/FooOptions.g.cs', status: 'added', addedProperties: ['Bar'], removedProperties: [], changedProperties: [] },
+  ]);
+  assertEquals(parseGeneratedDiff(''), []);
+});
+
+Deno.test('renderPullRequestBody - renders the details sections', () => {
+  const body = renderPullRequestBody('2.5.6', ['2.5.5', '2.5.6'], {
+    releaseNotes: [{ version: '2.5.5', body: null }, { version: '2.5.6', url: 'https://github.com/denoland/deno/releases/tag/v2.5.6', body: RELEASE_BODY }],
+    commandChanges: parseGeneratedDiff(DIFF),
+    flagDrift: '# Deno flag drift: 2.5.4 → 2.5.6\n\nBreaking changes: **1** · Non-breaking changes: **0**\n\n## deno run (`RunOptions`)\n\n| Change | Flag |\n',
+    runtimeHashes: [{ rid: 'linux-x64', fileName: 'deno', sha256: 'abc123' }],
+    missingRids: ['win-x64'],
+  });
+
+  assertStringIncludes(body, '- Includes the Deno releases v2.5.5, v2.5.6');
+  assertStringIncludes(body, '### [v2.5.6](https://github.com/denoland/deno/releases/tag/v2.5.6)\n- feat(unstable)');
+  assertStringIncludes(body, '### v2.5.5\n_Release notes could not be fetched._');
+  assertStringIncludes(body, '- `RunOptions.g.cs`: added `NewFlag`; removed `LegacyFlag`; changed `Conditions`');
+  assertStringIncludes(body, '- `FooOptions.g.cs` added');
+  assertStringIncludes(body, '## Deno flag drift: 2.5.4 → 2.5.6\n\nBreaking changes: **1**');
+  assertStringIncludes(body, '### deno run (`RunOptions`)\n\n| Change | Flag |\n\n## Runtime Binaries');
+  assertStringIncludes(body, '| linux-x64 | `deno` | `abc123` |');
+  assertStringIncludes(body, '| win-x64 | _not built_ | |');
+  assertStringIncludes(body, 'git tag v2.5.6 && git push --tags');
+});
+
+Deno.test('renderPullRequestBody - lists the versions of a batched update only', () => {
+  assertStringIncludes(renderPullRequestBody('2.5.6', ['2.5.5', '2.5.6']), '- Includes the Deno releases v2.5.5, v2.5.6');
+  assertEquals(renderPullRequestBody('2.5.6').includes('Includes the Deno releases'), false);
+  assertEquals(renderPullRequestBody('2.5.6').includes('## Upstream Release Notes'), false);
+});
+
+Deno.test('renderPullRequestBody - puts fixed security advisories first', () => {
+  const advisories: SecurityAdvisory[] = [
+    { id: 'GHSA-test-0001-perm', cveId: 'CVE-2025-00001', url: 'https://github.com/denoland/deno/security/advisories/GHSA-test-0001-perm', summary: 'Permission bypass | env', severity: 'high', vulnerableRange: '>= 2.5.0, < 2.5.4', patchedVersions: '2.5.4' },
+    { id: 'GHSA-test-0002-node', url: 'https://github.com/denoland/deno/security/advisories/GHSA-test-0002-node', summary: 'Symlink escape', severity: 'medium', vulnerableRange: '= 2.5.3' },
+  ];
+  const body = renderPullRequestBody('2.5.6', ['2.5.6'], { advisories, releaseNotes: [{ version: '2.5.6', body: RELEASE_BODY }] });
+
+  assertEquals(body.indexOf('## Security Advisories') < body.indexOf('## Upstream Release Notes'), true);
+  assertStringIncludes(body, '| [GHSA-test-0001-perm](https://github.com/denoland/deno/security/advisories/GHSA-test-0001-perm) (CVE-2025-00001) | high | `>= 2.5.0, < 2.5.4` | `2.5.4` | Permission bypass \\| env |');
+  assertStringIncludes(body, '| [GHSA-test-0002-node](https://github.com/denoland/deno/security/advisories/GHSA-test-0002-node) | medium | `= 2.5.3` | — | Symlink escape |');
+  assertEquals(renderPullRequestTitle('2.5.6', { advisories }), 'Update Deno to v2.5.6 (security)');
+  assertEquals(renderPullRequestTitle('2.5.6'), 'Update Deno to v2.5.6');
+});
@@ -0,0 +1,206 @@
+// Renders the release PR body: the fixed checklist plus what a reviewer of a Deno bump would otherwise look up by
+// hand — the security advisories it fixes, the notable upstream changes, what changed in the generated options, and the
+// runtime hashes from each RID's deno.metadata.json.
+
+const MAX_NOTABLE_CHANGES = 25;
+
+// Conventional-commit entries worth a reviewer's attention; chores, tests, docs and CI changes are left out.
+const NOTABLE_CHANGE = /^\s*[-*]\s+(?:(?:feat|fix|perf)(?:\([^)]*\))?!?:|[a-z]+(?:\([^)]*\))?!:|.*BREAKING)/i;
+
+export interface ReleaseNotes {
+  version: string;
+  url?: string;
+  /** The release `body` field; null when the release could not be fetched. */
+  body: string | null;
+}
+
+/** An upstream advisory affecting the Deno version currently in Directory.Build.props. */
+export interface SecurityAdvisory {
+  id: string;
+  cveId?: string;
+  url: string;
+  summary: string;
+  severity: string;
+  vulnerableRange: string;
+  patchedVersions?: string;
+}
+
+export interface GeneratedFileChange {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  addedProperties: string[];
+  removedProperties: string[];
+  /** Properties present on both sides whose declaration changed (type, attributes on the same line). */
+  changedProperties: string[];
+}
+
+export interface RuntimeHash {
+  rid: string;
+  fileName: string;
+  sha256: string;
+}
+
+export interface PullRequestDetails {
+  /** Advisories the update fixes; their presence makes the PR a security update. */
+  advisories?: SecurityAdvisory[];
+  releaseNotes?: ReleaseNotes[];
+  commandChanges?: GeneratedFileChange[];
+  /** `drift_report.md` from tools/gen-commands: the flag changes since the replaced Deno version. */
+  flagDrift?: string;
+  runtimeHashes?: RuntimeHash[];
+  /** RIDs without a deno.metadata.json for this version (the runtime projects were not built). */
+  missingRids?: string[];
+}
+
+/** The notable entries of a release body, at most `limit`, plus how many more there were. */
+export function extractNotableChanges(body: string, limit = MAX_NOTABLE_CHANGES): { changes: string[]; omitted: number } {
+  const notable = body.split(/\r?\n/).filter((line) => NOTABLE_CHANGE.test(line)).map((line) => line.trim().replace(/^\*\s+/, '- '));
+  return { changes: notable.slice(0, limit), omitted: Math.max(notable.length - limit, 0) };
+}
+
+const PROPERTY_DECLARATION = /^\s*public\s+(?:required\s+|override\s+|virtual\s+|static\s+)*[\w.<>?,[\]\s]+?\s+(\w+)\s*\{\s*get\b/;
+
+/** Summarizes `git diff` output of generated C# files: files added/removed and properties added/removed/changed. */
+export function parseGeneratedDiff(diff: string): GeneratedFileChange[] {
+  const changes: GeneratedFileChange[] = [];
+  let current: GeneratedFileChange & { added: Set<string>; removed: Set<string> } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const { added, removed, ...change } = current;
+    change.changedProperties = [...added].filter((name) => removed.has(name)).sort();
+    change.addedProperties = [...added].filter((name) => !removed.has(name)).sort();
+    change.removedProperties = [...removed].filter((name) => !added.has(name)).sort();
+    if (change.status !== 'modified' || change.addedProperties.length + change.removedProperties.length + change.changedProperties.length > 0) {
+      changes.push(change);
+    }
+    current = null;
+  };
+
+  for (const line of diff.split('\n')) {
+    const header = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (header) {
+      flush();
+      current = { path: header[2], status: 'modified', addedProperties: [], removedProperties: [], changedProperties: [], added: new Set(), removed: new Set() };
+      continue;
+    }
+    if (!current) continue;
+    if (line.startsWith('new file mode')) current.status = 'added';
+    else if (line.startsWith('deleted file mode')) current.status = 'removed';
+    else if (line.startsWith('+') && !line.startsWith('+++')) {
+      const name = line.slice(1).match(PROPERTY_DECLARATION)?.[1];
+      if (name) current.added.add(name);
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      const name = line.slice(1).match(PROPERTY_DECLARATION)?.[1];
+      if (name) current.removed.add(name);
+    }
+  }
+  flush();
+
+  return changes;
+}
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function renderFileChanges(changes: GeneratedFileChange[]): string[] {
+  const lines: string[] = [];
+  for (const change of changes) {
+    if (change.status !== 'modified') {
+      lines.push(`- \`${fileName(change.path)}\` ${change.status}`);
+      continue;
+    }
+    const parts = [
+      change.addedProperties.length > 0 ? `added ${change.addedProperties.map((p) => `\`${p}\``).join(', ')}` : '',
+      change.removedProperties.length > 0 ? `removed ${change.removedProperties.map((p) => `\`${p}\``).join(', ')}` : '',
+      change.changedProperties.length > 0 ? `changed ${change.changedProperties.map((p) => `\`${p}\``).join(', ')}` : '',
+    ].filter(Boolean);
+    lines.push(`- \`${fileName(change.path)}\`: ${parts.join('; ')}`);
+  }
+  return lines;
+}
+
+function renderDetails(details: PullRequestDetails): string {
+  const sections: string[] = [];
+
+  const advisories = details.advisories ?? [];
+  if (advisories.length > 0) {
+    const lines = [
+      '## Security Advisories',
+      '',
+      '⚠️ The Deno version DenoHost currently ships is affected by the advisories below. Please review and release this update with priority.',
+      '',
+      '| Advisory | Severity | Affected | Patched | Summary |',
+      '| --- | --- | --- | --- | --- |',
+    ];
+    for (const advisory of advisories) {
+      const id = `[${advisory.id}](${advisory.url})${advisory.cveId ? ` (${advisory.cveId})` : ''}`;
+      lines.push(`| ${id} | ${advisory.severity} | \`${advisory.vulnerableRange}\` | ${advisory.patchedVersions ? `\`${advisory.patchedVersions}\`` : '—'} | ${advisory.summary.replace(/\|/g, '\\|')} |`);
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  const notes = details.releaseNotes ?? [];
+  if (notes.length > 0) {
+    const lines = ['## Upstream Release Notes'];
+    for (const release of [...notes].reverse()) {
+      const heading = release.url ? `[v${release.version}](${release.url})` : `v${release.version}`;
+      lines.push('', `### ${heading}`);
+      if (release.body === null) {
+        lines.push('_Release notes could not be fetched._');
+        continue;
+      }
+      const { changes, omitted } = extractNotableChanges(release.body);
+      lines.push(...(changes.length > 0 ? changes : ['_No notable changes._']));
+      if (omitted > 0) lines.push(`- …and ${omitted} more`);
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  if (details.commandChanges) {
+    const lines = ['## Generated Options'];
+    lines.push(...(details.commandChanges.length > 0 ? renderFileChanges(details.commandChanges) : ['No options classes or properties were added or removed.']));
+    sections.push(lines.join('\n'));
+  }
+
+  if (details.flagDrift) {
+    // The report's own `#` title becomes the section heading.
+    sections.push(details.flagDrift.trim().replace(/^(#+) /gm, '#$1 '));
+  }
+
+  if (details.runtimeHashes || details.missingRids) {
+    const lines = ['## Runtime Binaries', '', '| RID | File | SHA256 |', '| --- | --- | --- |'];
+    for (const hash of details.runtimeHashes ?? []) lines.push(`| ${hash.rid} | \`${hash.fileName}\` | \`${hash.sha256}\` |`);
+    for (const rid of details.missingRids ?? []) lines.push(`| ${rid} | _not built_ | |`);
+    sections.push(lines.join('\n'));
+  }
+
+  return sections.length > 0 ? `\n\n${sections.join('\n\n')}` : '';
+}
+
+export function renderPullRequestTitle(denoVersion: string, details: PullRequestDetails = {}): string {
+  return `Update Deno to v${denoVersion}${(details.advisories ?? []).length > 0 ? ' (security)' : ''}`;
+}
+
+export function renderPullRequestBody(denoVersion: string, includedVersions: string[] = [denoVersion], details: PullRequestDetails = {}): string {
+  const included = includedVersions.length > 1 ? `\n- Includes the Deno releases ${includedVersions.map((v) => `v${v}`).join(', ')}` : '';
+  return `🚀 **Automated Deno Update**
+
+This pull request updates DenoHost to use Deno v${denoVersion}.
+
+## Changes
+- Update Deno version to v${denoVersion}${included}
+- This will create a new release when merged${renderDetails(details)}
+
+## Next Steps
+1. Review the changes
+2. Test the new Deno version compatibility
+3. Merge when ready to create a prerelease candidate
+4. Create prerelease tag (increment N if needed): \`git tag v${denoVersion}-alpha.N && git push --tags\`
+5. Wait for alpha verification from \`nuget.org\` to pass (\`verify-alpha-from-nuget\` workflow job).
+6. After prerelease verification succeeds, create stable tag from the same commit: \`git tag v${denoVersion} && git push --tags\`
+
+---
+*This PR was created automatically by the Deno Release Check action.*`;
+}
@@ -0,0 +1,60 @@
+// Stand-ins for the GitHub API in tests. Routes are matched on `METHOD /path` (the query string is ignored) and
+// every request is recorded so tests can assert on what was sent. `startStubServer` serves the routes over a local
+// HTTP server; `createFakeFetch` answers them in-process and plugs into `GitHubClientOptions.fetchImpl`.
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+}
+
+export type StubRoute = (request: RecordedRequest, url: string) => Response | Promise<Response>;
+
+export interface StubServer {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export interface FakeFetch {
+  fetch: typeof fetch;
+  url: string;
+  requests: RecordedRequest[];
+}
+
+export function json(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), { status: 200, ...init, headers: { 'content-type': 'application/json', ...init.headers } });
+}
+
+async function dispatch(routes: Record<string, StubRoute>, requests: RecordedRequest[], req: Request, baseUrl: string): Promise<Response> {
+  const url = new URL(req.url);
+  const text = await req.text();
+  const recorded: RecordedRequest = { method: req.method, path: url.pathname, query: url.searchParams, headers: req.headers, body: text ? JSON.parse(text) : undefined };
+  requests.push(recorded);
+
+  const route = routes[`${req.method} ${url.pathname}`];
+  return route ? await route(recorded, baseUrl) : json({ message: 'Not Found' }, { status: 404 });
+}
+
+export function startStubServer(routes: Record<string, StubRoute>): StubServer {
+  const requests: RecordedRequest[] = [];
+  let baseUrl = '';
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, (req: Request): Promise<Response> => dispatch(routes, requests, req, baseUrl));
+
+  baseUrl = `http://127.0.0.1:${server.addr.port}`;
+
+  return {
+    url: baseUrl,
+    requests,
+    close: () => server.shutdown(),
+  };
+}
+
+export function createFakeFetch(routes: Record<string, StubRoute>): FakeFetch {
+  const requests: RecordedRequest[] = [];
+  const url = 'https://api.github.test';
+  const fakeFetch = (input: string | URL | Request, init?: RequestInit) => dispatch(routes, requests, new Request(input, init), url);
+  return { fetch: fakeFetch as typeof fetch, url, requests };
+}
@@ -0,0 +1,48 @@
+import { assertEquals, assertThrows } from '@std/assert';
+import { compareVersions, formatVersion, parseRange, parseVersion, satisfies } from './versions.ts';
+
+function matching(range: string, versions: string[], includePrerelease = false): string[] {
+  const parsed = parseRange(range);
+  return versions.filter((v) => satisfies(parseVersion(v)!, parsed, includePrerelease));
+}
+
+const RELEASES = ['2.4.5', '2.5.0-rc.1', '2.5.0', '2.5.1', '2.5.10', '2.6.0-rc.1', '2.6.0-rc.2', '2.6.0', '3.0.0-rc.1', '3.0.0'];
+
+Deno.test('parseVersion - tags with and without prefix, prerelease and build metadata', () => {
+  assertEquals(parseVersion('v2.5.3'), { major: 2, minor: 5, patch: 3, prerelease: [] });
+  assertEquals(parseVersion('2.6.0-rc.1'), { major: 2, minor: 6, patch: 0, prerelease: ['rc', '1'] });
+  assertEquals(formatVersion(parseVersion('v1.0.0-beta.2+build.7')!), '1.0.0-beta.2');
+  assertEquals(parseVersion('std/0.1.0'), null);
+  assertEquals(parseVersion('2.5'), null);
+});
+
+Deno.test('compareVersions - orders by precedence', () => {
+  const sorted = ['2.6.0', '2.5.10', '2.6.0-rc.10', '2.6.0-rc.2', '2.5.9', '2.6.0-beta', '2.6.0-rc'].map((v) => parseVersion(v)!).sort(compareVersions).map(formatVersion);
+  assertEquals(sorted, ['2.5.9', '2.5.10', '2.6.0-beta', '2.6.0-rc', '2.6.0-rc.2', '2.6.0-rc.10', '2.6.0']);
+});
+
+Deno.test('satisfies - x-ranges, tilde and caret exclude prereleases of the next line', () => {
+  assertEquals(matching('2.5.x', RELEASES), ['2.5.0', '2.5.1', '2.5.10']);
+  assertEquals(matching('2.5', RELEASES), ['2.5.0', '2.5.1', '2.5.10']);
+  assertEquals(matching('~2.5.1', RELEASES), ['2.5.1', '2.5.10']);
+  assertEquals(matching('^2.5.0', RELEASES), ['2.5.0', '2.5.1', '2.5.10', '2.6.0']);
+  assertEquals(matching('*', RELEASES), ['2.4.5', '2.5.0', '2.5.1', '2.5.10', '2.6.0', '3.0.0']);
+});
+
+Deno.test('satisfies - comparators, hyphen ranges and alternatives', () => {
+  assertEquals(matching('>=2.5.1 <2.6.0', RELEASES), ['2.5.1', '2.5.10']);
+  assertEquals(matching('>2.5', RELEASES), ['2.6.0', '3.0.0']);
+  assertEquals(matching('<=2.5', RELEASES), ['2.4.5', '2.5.0', '2.5.1', '2.5.10']);
+  assertEquals(matching('2.5.0 - 2.6.0', RELEASES), ['2.5.0', '2.5.1', '2.5.10', '2.6.0']);
+  assertEquals(matching('2.4.x || >= 3', RELEASES), ['2.4.5', '3.0.0']);
+});
+
+Deno.test('satisfies - prereleases only when named by the range or included explicitly', () => {
+  assertEquals(matching('>=2.6.0-rc.2 <2.7.0', RELEASES), ['2.6.0-rc.2', '2.6.0']);
+  assertEquals(matching('^2.5.0', RELEASES, true), ['2.5.0', '2.5.1', '2.5.10', '2.6.0-rc.1', '2.6.0-rc.2', '2.6.0']);
+});
+
+Deno.test('parseRange - rejects malformed ranges', () => {
+  assertThrows(() => parseRange('2.5.x.1'), Error, "Invalid version range: '2.5.x.1'");
+  assertThrows(() => parseRange('latest'), Error, 'Invalid version range');
+});
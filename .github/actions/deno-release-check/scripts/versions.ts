@@ -0,0 +1,143 @@
+// Semantic versions and the version ranges accepted as a release channel. Covers what Deno tags use
+// (`2.5.3`, `2.6.0-rc.1`) and the usual range syntax: comparators (`>=2.5.0 <2.6.0`), x-ranges (`2.5.x`, `2.5`),
+// tilde (`~2.5.1`), caret (`^2.5.0`) and `||` alternatives. Like npm, a range only matches a prerelease when one of
+// its comparators names a prerelease of the same major.minor.patch, unless prereleases are included explicitly.
+
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+export interface Comparator {
+  operator: Operator;
+  version: Version;
+}
+
+/** Alternatives (`||`) of comparator sets that must all match. */
+export type Range = Comparator[][];
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function parseVersion(text: string): Version | null {
+  const match = text.trim().match(VERSION_PATTERN);
+  if (!match) return null;
+  return { major: Number(match[1]), minor: Number(match[2]), patch: Number(match[3]), prerelease: match[4]?.split('.') ?? [] };
+}
+
+export function formatVersion(v: Version): string {
+  return `${v.major}.${v.minor}.${v.patch}${v.prerelease.length > 0 ? `-${v.prerelease.join('.')}` : ''}`;
+}
+
+export function isPrerelease(v: Version): boolean {
+  return v.prerelease.length > 0;
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const [na, nb] = [/^\d+$/.test(a), /^\d+$/.test(b)];
+  if (na && nb) return Number(a) - Number(b);
+  if (na !== nb) return na ? -1 : 1; // numeric identifiers sort before alphanumeric ones
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function compareVersions(a: Version, b: Version): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return core;
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) return b.prerelease.length - a.prerelease.length;
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const c = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (c !== 0) return c;
+  }
+  return a.prerelease.length - b.prerelease.length;
+}
+
+// `2`, `2.5`, `2.5.x`, `2.*` and `*` leave parts open (null).
+function parsePartial(text: string): { parts: (number | null)[]; prerelease: string[] } | null {
+  const match = text.match(/^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/);
+  if (!match) return null;
+  const part = (s: string | undefined) => s === undefined || /^[xX*]$/.test(s) ? null : Number(s);
+  const parts = [part(match[1]), part(match[2]), part(match[3])];
+  // Once a part is open, the following ones are too (`2.x.5` means `2.x`).
+  for (let i = 1; i < 3; i++) if (parts[i - 1] === null) parts[i] = null;
+  return { parts, prerelease: match[4]?.split('.') ?? [] };
+}
+
+const v = (major: number, minor: number, patch: number, prerelease: string[] = []): Version => ({ major, minor, patch, prerelease });
+
+function comparatorsFor(token: string): Comparator[] {
+  const fail = (): never => {
+    throw new Error(`Invalid version range: '${token}'`);
+  };
+  const op = token.match(/^(<=|>=|<|>|=|~|\^)?(.*)$/)!;
+  const operator = op[1] ?? '';
+  const partial = parsePartial(op[2]) ?? fail();
+  const [major, minor, patch] = partial.parts;
+  const floor = v(major ?? 0, minor ?? 0, patch ?? 0, partial.prerelease);
+
+  if (major === null) return operator === '<' || operator === '>' ? [{ operator: '<', version: v(0, 0, 0) }] : [];
+
+  switch (operator) {
+    case '':
+    case '=':
+      if (minor === null) return [{ operator: '>=', version: floor }, { operator: '<', version: v(major + 1, 0, 0, ['0']) }];
+      if (patch === null) return [{ operator: '>=', version: floor }, { operator: '<', version: v(major, minor + 1, 0, ['0']) }];
+      return [{ operator: '=', version: floor }];
+    case '~':
+      return [{ operator: '>=', version: floor }, { operator: '<', version: minor === null ? v(major + 1, 0, 0, ['0']) : v(major, minor + 1, 0, ['0']) }];
+    case '^': {
+      const upper = major > 0 || minor === null ? v(major + 1, 0, 0, ['0']) : minor > 0 || patch === null ? v(0, minor + 1, 0, ['0']) : v(0, 0, patch + 1, ['0']);
+      return [{ operator: '>=', version: floor }, { operator: '<', version: upper }];
+    }
+    case '>':
+      // `>2.5` means above every 2.5.x
+      if (patch === null) return [{ operator: '>=', version: minor === null ? v(major + 1, 0, 0) : v(major, minor + 1, 0) }];
+      return [{ operator: '>', version: floor }];
+    case '<=':
+      if (patch === null) return [{ operator: '<', version: minor === null ? v(major + 1, 0, 0, ['0']) : v(major, minor + 1, 0, ['0']) }];
+      return [{ operator: '<=', version: floor }];
+    default:
+      return [{ operator: operator as Operator, version: operator === '<' && patch === null ? v(major, minor ?? 0, 0, ['0']) : floor }];
+  }
+}
+
+export function parseRange(text: string): Range {
+  const alternatives = text.trim().split('||').map((set) => set.trim());
+  return alternatives.map((set) => {
+    // Hyphen ranges: `2.5.0 - 2.6.0`
+    const hyphen = set.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) return [...comparatorsFor(`>=${hyphen[1]}`), ...comparatorsFor(`<=${hyphen[2]}`)];
+    const tokens = set.replace(/(<=|>=|<|>|=|~|\^)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    return tokens.flatMap(comparatorsFor);
+  });
+}
+
+function matches(version: Version, c: Comparator): boolean {
+  const cmp = compareVersions(version, c.version);
+  switch (c.operator) {
+    case '<':
+      return cmp < 0;
+    case '<=':
+      return cmp <= 0;
+    case '>':
+      return cmp > 0;
+    case '>=':
+      return cmp >= 0;
+    default:
+      return cmp === 0;
+  }
+}
+
+// The `-0` upper bounds above exclude prereleases of the next line; they do not count as naming a prerelease.
+function namesPrereleaseOf(set: Comparator[], version: Version): boolean {
+  return set.some((c) =>
+    isPrerelease(c.version) && !(c.version.prerelease.length === 1 && c.version.prerelease[0] === '0' && c.operator === '<') &&
+    c.version.major === version.major && c.version.minor === version.minor && c.version.patch === version.patch
+  );
+}
+
+export function satisfies(version: Version, range: Range, includePrerelease = false): boolean {
+  return range.some((set) => set.every((c) => matches(version, c)) && (!isPrerelease(version) || includePrerelease || namesPrereleaseOf(set, version)));
+}
@@ -0,0 +1,104 @@
+// Builds runtime packages for tests: a minimal zip writer plus a signing key pair generated per test run, so the
+// verification path can be exercised without the real metadata signing key.
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array;
+  deflate?: boolean;
+}
+
+export interface SigningKeys {
+  privateKey: CryptoKey;
+  publicKeyPem: string;
+}
+
+async function deflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Writes a zip archive; CRCs are left at zero because the reader does not check them. */
+export async function createZip(files: ZipFile[]): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = file.deflate ? await deflateRaw(new Uint8Array(file.data)) : file.data;
+    const method = file.deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, file.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, file.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
+
+export async function createSigningKeys(): Promise<SigningKeys> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey));
+  const base64 = btoa(String.fromCharCode(...spki));
+  return { privateKey: pair.privateKey, publicKeyPem: `-----BEGIN PUBLIC KEY-----\n${base64.match(/.{1,64}/g)!.join('\n')}\n-----END PUBLIC KEY-----` };
+}
+
+/**
+ * A `DenoHost.Runtime.<rid>` package as the build produces it: the binary, its metadata and the base64 signature.
+ * `overrides` tampers with the metadata; `binary` replaces the packaged binary after the hash was taken.
+ */
+export async function createRuntimePackage(rid: string, denoVersion: string, keys: SigningKeys, options: { overrides?: Record<string, unknown>; binary?: Uint8Array } = {}): Promise<Uint8Array<ArrayBuffer>> {
+  const fileName = rid.startsWith('win-') ? 'deno.exe' : 'deno';
+  const binary = new TextEncoder().encode(`deno ${denoVersion} for ${rid}`);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', binary));
+  const sha256 = Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+
+  const metadata = new TextEncoder().encode(JSON.stringify({ metadataVersion: 1, fileName, rid, denoVersion, sha256, source: 'test', createdAtUtc: '2026-01-01T00:00:00Z', ...options.overrides }));
+  const signature = new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keys.privateKey, metadata));
+
+  return await createZip([
+    { name: 'DenoHost.Runtime.nuspec', data: new TextEncoder().encode('<package />') },
+    { name: `runtimes/${rid}/native/${fileName}`, data: options.binary ?? binary, deflate: true },
+    { name: `runtimes/${rid}/native/deno.metadata.json`, data: metadata },
+    { name: `runtimes/${rid}/native/deno.metadata.sig`, data: new TextEncoder().encode(btoa(String.fromCharCode(...signature))) },
+  ]);
+}
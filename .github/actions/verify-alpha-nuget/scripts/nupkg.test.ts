@@ -0,0 +1,52 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { extractZipEntry, importMetadataPublicKey, listZipEntries, runtimeIdFromPackageId, verifyRuntimePackage } from './nupkg.ts';
+import { createRuntimePackage, createSigningKeys, createZip } from './nupkg-fixtures.ts';
+
+Deno.test('listZipEntries and extractZipEntry read stored and deflated entries', async () => {
+  const text = 'deno '.repeat(100);
+  const archive = await createZip([
+    { name: 'stored.txt', data: new TextEncoder().encode('stored') },
+    { name: 'nested/deflated.txt', data: new TextEncoder().encode(text), deflate: true },
+  ]);
+
+  const entries = listZipEntries(archive);
+  assertEquals(entries.map((e) => [e.name, e.method]), [['stored.txt', 0], ['nested/deflated.txt', 8]]);
+  assertEquals(new TextDecoder().decode(await extractZipEntry(archive, entries[0])), 'stored');
+  assertEquals(new TextDecoder().decode(await extractZipEntry(archive, entries[1])), text);
+});
+
+Deno.test('importMetadataPublicKey accepts the repository signing key', async () => {
+  const pem = await Deno.readTextFile(new URL('../../../../Config/metadata-signing-public.pem', import.meta.url));
+  const key = await importMetadataPublicKey(pem);
+
+  const algorithm = key.algorithm as EcKeyAlgorithm;
+  assertEquals([algorithm.name, algorithm.namedCurve], ['ECDSA', 'P-256']);
+});
+
+Deno.test('runtimeIdFromPackageId extracts the RID of runtime packages only', () => {
+  assertEquals(runtimeIdFromPackageId('DenoHost.Runtime.win-arm64'), 'win-arm64');
+  assertEquals(runtimeIdFromPackageId('DenoHost.Core'), null);
+});
+
+Deno.test('verifyRuntimePackage accepts a signed package and reports the binary hash', async () => {
+  const keys = await createSigningKeys();
+  const publicKey = await importMetadataPublicKey(keys.publicKeyPem);
+
+  const linux = await verifyRuntimePackage(await createRuntimePackage('linux-x64', '2.5.6', keys), 'linux-x64', publicKey, '2.5.6');
+  const windows = await verifyRuntimePackage(await createRuntimePackage('win-x64', '2.5.6', keys), 'win-x64', publicKey);
+
+  assertEquals([linux.fileName, linux.denoVersion, linux.sha256.length], ['deno', '2.5.6', 64]);
+  assertEquals(windows.fileName, 'deno.exe');
+});
+
+Deno.test('verifyRuntimePackage rejects tampered or mismatched packages', async () => {
+  const keys = await createSigningKeys();
+  const publicKey = await importMetadataPublicKey(keys.publicKeyPem);
+  const otherKey = await importMetadataPublicKey((await createSigningKeys()).publicKeyPem);
+
+  await assertRejects(async () => await verifyRuntimePackage(await createRuntimePackage('linux-x64', '2.5.6', keys, { binary: new TextEncoder().encode('patched') }), 'linux-x64', publicKey), Error, 'Hash mismatch for runtimes/linux-x64/native/deno');
+  await assertRejects(async () => await verifyRuntimePackage(await createRuntimePackage('linux-x64', '2.5.6', keys), 'linux-x64', otherKey), Error, 'Signature validation failed');
+  await assertRejects(async () => await verifyRuntimePackage(await createRuntimePackage('linux-x64', '2.5.6', keys, { overrides: { rid: 'osx-arm64' } }), 'linux-x64', publicKey), Error, "Metadata RID 'osx-arm64' does not match");
+  await assertRejects(async () => await verifyRuntimePackage(await createRuntimePackage('linux-x64', '2.5.5', keys), 'linux-x64', publicKey, '2.5.6'), Error, "Metadata Deno version '2.5.5' does not match expected '2.5.6'");
+  await assertRejects(async () => await verifyRuntimePackage(await createZip([]), 'linux-x64', publicKey), Error, 'missing runtimes/linux-x64/native/deno.metadata.json');
+});
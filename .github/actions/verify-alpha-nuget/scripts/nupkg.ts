@@ -0,0 +1,140 @@
+// Reads a downloaded .nupkg (a zip archive) and checks its runtime artifacts the way DenoHost.Core does before it
+// starts the binary: deno.metadata.sig must be a valid ECDSA P-256/SHA-256 signature of deno.metadata.json under
+// Config/metadata-signing-public.pem, and runtimes/<rid>/native/deno(.exe) must hash to the SHA256 in the metadata.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export interface ZipEntry {
+  name: string;
+  /** 0 (stored) or 8 (deflate); anything else is rejected on extraction. */
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface RuntimeMetadata {
+  metadataVersion: number;
+  fileName: string;
+  rid: string;
+  denoVersion: string;
+  sha256: string;
+  source?: string;
+  createdAtUtc?: string;
+}
+
+export interface RuntimeVerification {
+  rid: string;
+  fileName: string;
+  denoVersion: string;
+  sha256: string;
+}
+
+/** Lists the entries of a zip archive from its central directory. Zip64 archives are not supported. */
+export function listZipEntries(archive: Uint8Array): ZipEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+
+  // The end-of-central-directory record is 22 bytes plus a comment of up to 64 KiB.
+  let end = -1;
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive: end of central directory not found.');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error(`Corrupt zip archive: bad central directory header at ${offset}.`);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+export async function extractZipEntry(archive: Uint8Array, entry: ZipEntry): Promise<Uint8Array<ArrayBuffer>> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt zip archive: bad local header for ${entry.name}.`);
+
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = archive.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method !== 8) throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}.`);
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Imports an SPKI PEM public key (`-----BEGIN PUBLIC KEY-----`) for ECDSA P-256 verification. */
+export function importMetadataPublicKey(pem: string): Promise<CryptoKey> {
+  const base64 = pem.replace(/-----(?:BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s+/g, '');
+  const der = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return crypto.subtle.importKey('spki', der, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+}
+
+export function runtimeIdFromPackageId(packageId: string): string | null {
+  return packageId.match(/^DenoHost\.Runtime\.(.+)$/i)?.[1] ?? null;
+}
+
+async function sha256Hex(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Verifies the runtime artifacts of a `DenoHost.Runtime.<rid>` package. Throws when an artifact is missing, the
+ * signature does not validate, the metadata does not describe this RID and binary, or the binary hash differs.
+ */
+export async function verifyRuntimePackage(archive: Uint8Array, rid: string, publicKey: CryptoKey, expectedDenoVersion?: string): Promise<RuntimeVerification> {
+  const binaryName = rid.startsWith('win-') ? 'deno.exe' : 'deno';
+  const native = `runtimes/${rid}/native`;
+  const entries = new Map(listZipEntries(archive).map((entry) => [entry.name, entry]));
+
+  const read = (name: string) => {
+    const entry = entries.get(`${native}/${name}`);
+    if (!entry) throw new Error(`Package for ${rid} is missing ${native}/${name}.`);
+    return extractZipEntry(archive, entry);
+  };
+
+  const metadataBytes = await read('deno.metadata.json');
+  const signatureText = new TextDecoder().decode(await read('deno.metadata.sig')).trim();
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    signature = Uint8Array.from(atob(signatureText), (c) => c.charCodeAt(0));
+  } catch {
+    throw new Error(`${native}/deno.metadata.sig does not contain valid Base64.`);
+  }
+
+  if (!await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, publicKey, signature, metadataBytes)) {
+    throw new Error(`Signature validation failed for ${native}/deno.metadata.json.`);
+  }
+
+  const metadata = JSON.parse(new TextDecoder().decode(metadataBytes)) as RuntimeMetadata;
+  if (metadata.fileName !== binaryName) throw new Error(`Metadata file name '${metadata.fileName}' does not match '${binaryName}' for ${rid}.`);
+  if (metadata.rid.toLowerCase() !== rid.toLowerCase()) throw new Error(`Metadata RID '${metadata.rid}' does not match package RID '${rid}'.`);
+  if (expectedDenoVersion && metadata.denoVersion !== expectedDenoVersion) {
+    throw new Error(`Metadata Deno version '${metadata.denoVersion}' does not match expected '${expectedDenoVersion}' for ${rid}.`);
+  }
+
+  const actual = await sha256Hex(await read(binaryName));
+  if (actual !== metadata.sha256.toLowerCase()) throw new Error(`Hash mismatch for ${native}/${binaryName}: expected ${metadata.sha256}, got ${actual}.`);
+
+  return { rid, fileName: binaryName, denoVersion: metadata.denoVersion, sha256: actual };
+}
@@ -1,5 +1,6 @@
-import { assertEquals, assertRejects } from '@std/assert';
-import { buildPackageUrl, getBackoffSeconds, waitForPackageAvailability } from './wait-nuget-propagation.ts';
+import { assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import { createRuntimePackage, createSigningKeys } from './nupkg-fixtures.ts';
+import { buildPackageUrl, getBackoffSeconds, resolvePackageBaseAddress, verifyPublishedPackages, waitForPackageAvailability } from './wait-nuget-propagation.ts';
 
 Deno.test('buildPackageUrl normalizes package id to lowercase', () => {
   assertEquals(
@@ -52,10 +53,11 @@ Deno.test('waitForPackageAvailability resolves when all packages are visible', a
       attempts: 1,
     },
   ]);
+  // Packages are polled concurrently: both first attempts go out before the core package is retried.
   assertEquals(calls, [
-    'https://example.test/v3-flatcontainer/denohost.core/2.3.0-alpha.1/denohost.core.2.3.0-alpha.1.nupkg',
     'https://example.test/v3-flatcontainer/denohost.core/2.3.0-alpha.1/denohost.core.2.3.0-alpha.1.nupkg',
     'https://example.test/v3-flatcontainer/denohost.runtime.linux-x64/2.3.0-alpha.1/denohost.runtime.linux-x64.2.3.0-alpha.1.nupkg',
+    'https://example.test/v3-flatcontainer/denohost.core/2.3.0-alpha.1/denohost.core.2.3.0-alpha.1.nupkg',
   ]);
   assertEquals(sleeps, [10000]);
 });
@@ -148,3 +150,92 @@ Deno.test('waitForPackageAvailability retries when fetch times out', async () =>
   assertEquals(sleeps, [10000]);
   assertEquals(errors, ['Failed to check DenoHost.Core 2.3.0-alpha.1 on attempt 1: Request timed out after 10ms.']);
 });
+
+Deno.test('waitForPackageAvailability shares one deadline and reports every missing package', async () => {
+  let now = 0;
+  const error = await assertRejects(
+    () =>
+      waitForPackageAvailability({
+        packageVersion: '2.3.0-alpha.1',
+        packageIds: ['DenoHost.Core', 'DenoHost.Runtime.osx-arm64'],
+        baseUrl: 'https://example.test/v3-flatcontainer',
+        fetchImpl: () => Promise.resolve(new Response(null, { status: 404 })),
+        sleepImpl: (delayMs) => {
+          now += delayMs;
+          return Promise.resolve();
+        },
+        nowImpl: () => now,
+        timeoutMs: 100_000,
+        logger: { log: () => {}, error: () => {} },
+      }),
+    Error,
+  );
+
+  assertStringIncludes(error.message, 'Package DenoHost.Core 2.3.0-alpha.1 did not appear');
+  assertStringIncludes(error.message, 'Package DenoHost.Runtime.osx-arm64 2.3.0-alpha.1 did not appear');
+  // Both pollers advance the same clock, so together they stop well before one package's 40 attempts.
+  assertEquals(now <= 100_000, true);
+});
+
+Deno.test('resolvePackageBaseAddress reads PackageBaseAddress from the service index', async () => {
+  const index = {
+    version: '3.0.0',
+    resources: [
+      { '@id': 'https://feed.test/query', '@type': 'SearchQueryService' },
+      { '@id': 'https://feed.test/flat/', '@type': 'PackageBaseAddress/3.0.0' },
+    ],
+  };
+
+  assertEquals(await resolvePackageBaseAddress('https://feed.test/index.json', () => Promise.resolve(Response.json(index))), 'https://feed.test/flat');
+  await assertRejects(() => resolvePackageBaseAddress('https://feed.test/index.json', () => Promise.resolve(Response.json({ resources: [] }))), Error, 'has no PackageBaseAddress/3.0.0 resource');
+  await assertRejects(() => resolvePackageBaseAddress('https://feed.test/index.json', () => Promise.resolve(new Response(null, { status: 401 }))), Error, 'Failed to read NuGet service index https://feed.test/index.json: 401');
+});
+
+Deno.test('verifyPublishedPackages downloads and verifies runtime packages from a local feed', async () => {
+  const keys = await createSigningKeys();
+  const version = '2.5.6-alpha.1';
+  const packages = new Map<string, Uint8Array<ArrayBuffer>>([
+    ['denohost.core', new Uint8Array([1])],
+    ['denohost.runtime.linux-x64', await createRuntimePackage('linux-x64', '2.5.6', keys)],
+    ['denohost.runtime.win-arm64', await createRuntimePackage('win-arm64', '2.5.6', keys)],
+    ['denohost.runtime.osx-x64', await createRuntimePackage('osx-x64', '2.5.6', keys, { binary: new TextEncoder().encode('tampered') })],
+  ]);
+  const requests: string[] = [];
+
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, (req) => {
+    const url = new URL(req.url);
+    requests.push(url.pathname);
+    if (url.pathname === '/v3/index.json') {
+      return Response.json({ version: '3.0.0', resources: [{ '@id': `${url.origin}/flat/`, '@type': 'PackageBaseAddress/3.0.0' }] });
+    }
+    const id = url.pathname.match(/^\/flat\/([^/]+)\//)?.[1] ?? '';
+    // The Windows package becomes visible on the second poll.
+    if (id === 'denohost.runtime.win-arm64' && requests.filter((p) => p === url.pathname).length === 1) {
+      return new Response(null, { status: 404 });
+    }
+    const body = packages.get(id);
+    return body ? new Response(body) : new Response(null, { status: 404 });
+  });
+
+  try {
+    const options = {
+      packageVersion: version,
+      serviceIndexUrl: `http://127.0.0.1:${server.addr.port}/v3/index.json`,
+      publicKeyPem: keys.publicKeyPem,
+      denoVersion: '2.5.6',
+      sleepImpl: () => Promise.resolve(),
+      logger: { log: () => {}, error: () => {} },
+    };
+
+    const results = await verifyPublishedPackages({ ...options, packageIds: ['DenoHost.Core', 'DenoHost.Runtime.linux-x64', 'DenoHost.Runtime.win-arm64'] });
+    assertEquals(results.map((r) => [r.packageId, r.attempts, r.runtime?.fileName]), [
+      ['DenoHost.Core', 1, undefined],
+      ['DenoHost.Runtime.linux-x64', 1, 'deno'],
+      ['DenoHost.Runtime.win-arm64', 2, 'deno.exe'],
+    ]);
+
+    await assertRejects(() => verifyPublishedPackages({ ...options, packageIds: ['DenoHost.Runtime.osx-x64'] }), Error, 'Hash mismatch for runtimes/osx-x64/native/deno');
+  } finally {
+    await server.shutdown();
+  }
+});
@@ -1,15 +1,33 @@
-const DEFAULT_PACKAGES = ['DenoHost.Core', 'DenoHost.Runtime.linux-x64'];
+import { importMetadataPublicKey, runtimeIdFromPackageId, type RuntimeVerification, verifyRuntimePackage } from './nupkg.ts';
+
+const RUNTIME_IDS = ['linux-x64', 'linux-arm64', 'osx-x64', 'osx-arm64', 'win-x64', 'win-arm64'];
+const DEFAULT_PACKAGES = ['DenoHost.Core', ...RUNTIME_IDS.map((rid) => `DenoHost.Runtime.${rid}`)];
+const DEFAULT_SERVICE_INDEX = 'https://api.nuget.org/v3/index.json';
 const MAX_ATTEMPTS = 40;
+// Shared by all packages; roughly the full backoff schedule of one package.
+const DEFAULT_TIMEOUT_MS = 40 * 60_000;
 const REQUEST_TIMEOUT_MS = 30_000;
+const DOWNLOAD_TIMEOUT_MS = 5 * 60_000;
 
 export interface WaitOptions {
   packageVersion: string;
   packageIds: string[];
+  /** Flat container (PackageBaseAddress) URL; resolved from `serviceIndexUrl` when omitted. */
   baseUrl?: string;
+  serviceIndexUrl?: string;
   fetchImpl?: typeof fetch;
   sleepImpl?: (delayMs: number) => Promise<void>;
+  nowImpl?: () => number;
   logger?: Pick<Console, 'log' | 'error'>;
   requestTimeoutMs?: number;
+  /** Deadline shared by all packages, measured from the start of polling. */
+  timeoutMs?: number;
+}
+
+export interface VerifyOptions extends WaitOptions {
+  /** PEM of Config/metadata-signing-public.pem. */
+  publicKeyPem: string;
+  denoVersion?: string;
 }
 
 export interface WaitResult {
@@ -18,6 +36,22 @@ export interface WaitResult {
   attempts: number;
 }
 
+export interface VerifyResult extends WaitResult {
+  /** Set for DenoHost.Runtime.* packages. */
+  runtime?: RuntimeVerification;
+}
+
+interface PollContext {
+  packageVersion: string;
+  baseUrl: string;
+  fetchImpl: typeof fetch;
+  sleepImpl: (delayMs: number) => Promise<void>;
+  nowImpl: () => number;
+  logger: Pick<Console, 'log' | 'error'>;
+  requestTimeoutMs: number;
+  deadline: number;
+}
+
 function getBackoffSeconds(attempt: number): number {
   switch (attempt) {
     case 1:
@@ -38,68 +72,137 @@ function buildPackageUrl(packageId: string, packageVersion: string, baseUrl = 'h
   return `${baseUrl}/${normalizedPackageId}/${packageVersion}/${normalizedPackageId}.${packageVersion}.nupkg`;
 }
 
-async function waitForPackageAvailability(options: WaitOptions): Promise<WaitResult[]> {
+/** Fetches `url` and reads the response with `read`; the request is aborted once `read` is done or the timeout hits. */
+async function fetchWithTimeout<T>(fetchImpl: typeof fetch, url: string, timeoutMs: number, read: (response: Response) => T | Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Request timed out after ${timeoutMs}ms.`));
+      }, timeoutMs);
+    });
+
+    return await Promise.race([
+      fetchImpl(url, { signal: controller.signal }).then(read),
+      timeoutPromise,
+    ]);
+  } finally {
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+    }
+    controller.abort();
+  }
+}
+
+/** Resolves the flat container base URL (`PackageBaseAddress/3.0.0`) from a NuGet v3 service index. */
+async function resolvePackageBaseAddress(serviceIndexUrl: string, fetchImpl: typeof fetch = fetch, requestTimeoutMs = REQUEST_TIMEOUT_MS): Promise<string> {
+  const index = await fetchWithTimeout(fetchImpl, serviceIndexUrl, requestTimeoutMs, (response) => {
+    if (!response.ok) {
+      throw new Error(`Failed to read NuGet service index ${serviceIndexUrl}: ${response.status}`);
+    }
+    return response.json() as Promise<{ resources?: { '@id': string; '@type': string | string[] }[] }>;
+  });
+  const resource = index.resources?.find((r) => [r['@type']].flat().some((type) => type.startsWith('PackageBaseAddress/3.0.0')));
+  if (!resource) {
+    throw new Error(`NuGet service index ${serviceIndexUrl} has no PackageBaseAddress/3.0.0 resource.`);
+  }
+
+  return resource['@id'].replace(/\/+$/, '');
+}
+
+async function createPollContext(options: WaitOptions): Promise<PollContext> {
   const fetchImpl = options.fetchImpl ?? fetch;
-  const sleepImpl = options.sleepImpl ?? ((delayMs: number) => new Promise((resolve) => setTimeout(resolve, delayMs)));
-  const logger = options.logger ?? console;
-  const baseUrl = options.baseUrl ?? 'https://api.nuget.org/v3-flatcontainer';
+  const nowImpl = options.nowImpl ?? Date.now;
   const requestTimeoutMs = options.requestTimeoutMs ?? REQUEST_TIMEOUT_MS;
-  const results: WaitResult[] = [];
 
-  for (const packageId of options.packageIds) {
-    const url = buildPackageUrl(packageId, options.packageVersion, baseUrl);
-    logger.log(`Waiting for ${packageId} ${options.packageVersion}`);
+  return {
+    packageVersion: options.packageVersion,
+    baseUrl: options.baseUrl ?? await resolvePackageBaseAddress(options.serviceIndexUrl ?? DEFAULT_SERVICE_INDEX, fetchImpl, requestTimeoutMs),
+    fetchImpl,
+    sleepImpl: options.sleepImpl ?? ((delayMs: number) => new Promise((resolve) => setTimeout(resolve, delayMs))),
+    nowImpl,
+    logger: options.logger ?? console,
+    requestTimeoutMs,
+    deadline: nowImpl() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+  };
+}
+
+async function waitForPackage(packageId: string, context: PollContext): Promise<WaitResult> {
+  const { packageVersion, logger } = context;
+  const url = buildPackageUrl(packageId, packageVersion, context.baseUrl);
+  logger.log(`Waiting for ${packageId} ${packageVersion}`);
 
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
     let found = false;
-    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-      let response: Response | undefined;
-
-      try {
-        const controller = new AbortController();
-        let timeoutId: ReturnType<typeof setTimeout> | undefined;
-
-        try {
-          const timeoutPromise = new Promise<Response>((_, reject) => {
-            timeoutId = setTimeout(() => {
-              controller.abort();
-              reject(new Error(`Request timed out after ${requestTimeoutMs}ms.`));
-            }, requestTimeoutMs);
-          });
-
-          response = await Promise.race([
-            fetchImpl(url, { signal: controller.signal }),
-            timeoutPromise,
-          ]);
-        } finally {
-          if (timeoutId !== undefined) {
-            clearTimeout(timeoutId);
-          }
-          controller.abort();
-        }
-      } catch (error) {
-        logger.error(`Failed to check ${packageId} ${options.packageVersion} on attempt ${attempt}: ${error instanceof Error ? error.message : String(error)}`);
-      }
 
-      if (response?.ok) {
-        logger.log(`Found ${packageId} ${options.packageVersion} on attempt ${attempt}`);
-        results.push({ packageId, url, attempts: attempt });
-        found = true;
-        break;
-      }
+    try {
+      found = await fetchWithTimeout(context.fetchImpl, url, context.requestTimeoutMs, (response) => response.ok);
+    } catch (error) {
+      logger.error(`Failed to check ${packageId} ${packageVersion} on attempt ${attempt}: ${error instanceof Error ? error.message : String(error)}`);
+    }
 
-      const delaySeconds = getBackoffSeconds(attempt);
-      if (attempt < MAX_ATTEMPTS) {
-        logger.log(`${packageId} ${options.packageVersion} not visible yet (attempt ${attempt}/${MAX_ATTEMPTS}). Retrying in ${delaySeconds}s...`);
-        await sleepImpl(delaySeconds * 1000);
-      }
+    if (found) {
+      logger.log(`Found ${packageId} ${packageVersion} on attempt ${attempt}`);
+      return { packageId, url, attempts: attempt };
     }
 
-    if (!found) {
-      throw new Error(`Package ${packageId} ${options.packageVersion} did not appear on nuget.org within timeout.`);
+    const delaySeconds = getBackoffSeconds(attempt);
+    if (attempt === MAX_ATTEMPTS || context.nowImpl() + delaySeconds * 1000 > context.deadline) {
+      break;
     }
+    logger.log(`${packageId} ${packageVersion} not visible yet (attempt ${attempt}/${MAX_ATTEMPTS}). Retrying in ${delaySeconds}s...`);
+    await context.sleepImpl(delaySeconds * 1000);
+  }
+
+  throw new Error(`Package ${packageId} ${packageVersion} did not appear on nuget.org within timeout.`);
+}
+
+/** Waits for every task and reports all failures together, so one missing package does not hide another. */
+async function settleAll<T>(tasks: Promise<T>[]): Promise<T[]> {
+  const settled = await Promise.allSettled(tasks);
+  const errors = settled.flatMap((s) => s.status === 'rejected' ? [s.reason instanceof Error ? s.reason.message : String(s.reason)] : []);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
   }
 
-  return results;
+  return settled.map((s) => (s as PromiseFulfilledResult<T>).value);
+}
+
+/** Polls all packages concurrently until each is visible or the shared deadline passes. */
+async function waitForPackageAvailability(options: WaitOptions): Promise<WaitResult[]> {
+  const context = await createPollContext(options);
+  return await settleAll(options.packageIds.map((packageId) => waitForPackage(packageId, context)));
+}
+
+/**
+ * Waits for each package like `waitForPackageAvailability`, then downloads every runtime package as soon as it is
+ * visible and verifies its binary, metadata and signature.
+ */
+async function verifyPublishedPackages(options: VerifyOptions): Promise<VerifyResult[]> {
+  const context = await createPollContext(options);
+  const publicKey = await importMetadataPublicKey(options.publicKeyPem);
+
+  return await settleAll(options.packageIds.map(async (packageId): Promise<VerifyResult> => {
+    const found = await waitForPackage(packageId, context);
+    const rid = runtimeIdFromPackageId(packageId);
+    if (!rid) {
+      return found;
+    }
+
+    const archive = await fetchWithTimeout(context.fetchImpl, found.url, DOWNLOAD_TIMEOUT_MS, async (response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to download ${packageId} ${options.packageVersion}: ${response.status}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    });
+
+    const runtime = await verifyRuntimePackage(archive, rid, publicKey, options.denoVersion);
+    context.logger.log(`Verified ${packageId} ${options.packageVersion}: ${runtime.fileName} ${runtime.denoVersion} sha256 ${runtime.sha256}`);
+    return { ...found, runtime };
+  }));
 }
 
 async function main(): Promise<number> {
@@ -109,16 +212,24 @@ async function main(): Promise<number> {
     return 2;
   }
 
+  // RUNTIME_PACKAGE_IDS narrows the runtime packages (comma-separated); by default all six RIDs are verified.
+  const runtimePackageIds = Deno.env.get('RUNTIME_PACKAGE_IDS')?.split(',').map((id) => id.trim()).filter(Boolean);
   const packageIds = [
     Deno.env.get('CORE_PACKAGE_ID')?.trim() || DEFAULT_PACKAGES[0],
-    Deno.env.get('RUNTIME_PACKAGE_ID')?.trim() || DEFAULT_PACKAGES[1],
+    ...(runtimePackageIds?.length ? runtimePackageIds : DEFAULT_PACKAGES.slice(1)),
   ];
+  const serviceIndexUrl = Deno.env.get('NUGET_SERVICE_INDEX')?.trim() || DEFAULT_SERVICE_INDEX;
+  const publicKeyPath = Deno.env.get('METADATA_PUBLIC_KEY_PATH')?.trim() || `${Deno.env.get('GITHUB_WORKSPACE') ?? Deno.cwd()}/Config/metadata-signing-public.pem`;
 
   try {
-    await waitForPackageAvailability({
+    const results = await verifyPublishedPackages({
       packageVersion,
       packageIds,
+      serviceIndexUrl,
+      publicKeyPem: await Deno.readTextFile(publicKeyPath),
+      denoVersion: Deno.env.get('DENO_VERSION')?.trim() || undefined,
     });
+    console.log(`Verified ${results.filter((r) => r.runtime).length} runtime package(s) from ${serviceIndexUrl}`);
     return 0;
   } catch (error) {
     console.error(error instanceof Error ? error.message : String(error));
@@ -130,4 +241,4 @@ if (import.meta.main) {
   Deno.exit(await main());
 }
 
-export { buildPackageUrl, getBackoffSeconds, waitForPackageAvailability };
+export { buildPackageUrl, getBackoffSeconds, resolvePackageBaseAddress, verifyPublishedPackages, waitForPackageAvailability };
@@ -0,0 +1,130 @@
+using System;
+using System.Collections.Generic;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>
+/// Walks a Deno argument list for the generated <c>XxxOptions.TryParse</c> methods.
+/// Accepts <c>--flag=value</c>, <c>--flag value</c>, short aliases (<c>-A</c>, <c>-L info</c>, <c>-Linfo</c>)
+/// and comma-joined arrays. Everything that is not a flag is collected as a positional.
+/// </summary>
+internal sealed class DenoArgsReader(string[] args, IReadOnlyDictionary<char, string> shortAliases, bool stopAtPositional)
+{
+  private readonly List<string> _positionals = [];
+  private readonly List<string> _errors = [];
+  private int _index;
+  private bool _endOfFlags;
+  private string _token = string.Empty;
+  private string? _inlineValue;
+
+  /// <summary>Long form (<c>--flag</c>) of the current flag; short aliases are already resolved.</summary>
+  public string Flag { get; private set; } = string.Empty;
+
+  public string[] Positionals => [.. _positionals];
+
+  public string[] Errors => [.. _errors];
+
+  /// <summary>
+  /// Advances to the next flag. Positionals are collected on the way; after <c>--</c>, or after the first
+  /// positional when <c>stopAtPositional</c> is set (entry point commands), all remaining tokens are positionals.
+  /// </summary>
+  public bool MoveNext()
+  {
+    while (_index < args.Length)
+    {
+      var token = args[_index++];
+
+      if (_endOfFlags || token == "-" || !token.StartsWith('-'))
+      {
+        _positionals.Add(token);
+        if (stopAtPositional) _endOfFlags = true;
+        continue;
+      }
+
+      if (token == "--")
+      {
+        _positionals.Add(token);
+        _endOfFlags = true;
+        continue;
+      }
+
+      _token = token;
+
+      if (token.StartsWith("--", StringComparison.Ordinal))
+      {
+        var eq = token.IndexOf('=');
+        Flag = eq < 0 ? token : token[..eq];
+        _inlineValue = eq < 0 ? null : token[(eq + 1)..];
+        return true;
+      }
+
+      // -A, -L=info, -Linfo
+      Flag = shortAliases.TryGetValue(token[1], out var longFlag) ? longFlag : token[..2];
+      _inlineValue = token.Length == 2 ? null : token[2] == '=' ? token[3..] : token[2..];
+      return true;
+    }
+
+    return false;
+  }
+
+  public void ReportUnknown() => _errors.Add($"Unknown flag '{_token}'.");
+
+  public bool? ReadFlag()
+  {
+    if (_inlineValue is null) return true;
+    _errors.Add($"'{Flag}' does not take a value.");
+    return null;
+  }
+
+  public bool? ReadBoolean()
+  {
+    switch (_inlineValue)
+    {
+      case null:
+      case "true": return true;
+      case "false": return false;
+      default:
+        _errors.Add($"'{Flag}' expects true or false, got '{_inlineValue}'.");
+        return null;
+    }
+  }
+
+  public string? ReadValue()
+  {
+    if (_inlineValue is not null) return _inlineValue;
+    if (_index < args.Length) return args[_index++];
+    _errors.Add($"'{Flag}' expects a value.");
+    return null;
+  }
+
+  public int? ReadInt32()
+  {
+    var value = ReadValue();
+    if (value is null) return null;
+    if (int.TryParse(value, NumberStyles.Integer, CultureInfo.InvariantCulture, out var result)) return result;
+    _errors.Add($"'{Flag}' expects a number, got '{value}'.");
+    return null;
+  }
+
+  public long? ReadInt64()
+  {
+    var value = ReadValue();
+    if (value is null) return null;
+    if (long.TryParse(value, NumberStyles.Integer, CultureInfo.InvariantCulture, out var result)) return result;
+    _errors.Add($"'{Flag}' expects a number, got '{value}'.");
+    return null;
+  }
+
+  /// <summary>Optional values only bind with <c>=</c>; the bare flag yields an empty string.</summary>
+  public string ReadOptionalValue() => _inlineValue ?? string.Empty;
+
+  public string[]? ReadArray() => ReadValue()?.Split(',');
+
+  /// <summary>Optional arrays only bind with <c>=</c>; the bare flag yields an empty array.</summary>
+  public string[] ReadOptionalArray() => _inlineValue?.Split(',') ?? [];
+
+  /// <summary>Repeated array flags accumulate, like <c>--allow-read=a --allow-read=b</c> does in Deno.</summary>
+  public static string[]? Concat(string[]? existing, string[]? next)
+    => existing is null || next is null ? next ?? existing : [.. existing, .. next];
+}
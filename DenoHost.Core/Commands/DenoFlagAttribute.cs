@@ -0,0 +1,45 @@
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>
+/// CLI metadata of a generated <c>XxxOptions</c> property, taken from <c>deno json_reference</c>.
+/// Lets tooling (help screens, validation messages, config UIs) describe a flag without a Deno binary.
+/// </summary>
+/// <example>
+/// <code>
+/// var flag = typeof(RunOptions).GetProperty(nameof(RunOptions.AllowRead))!.GetCustomAttribute&lt;DenoFlagAttribute&gt;()!;
+/// Console.WriteLine($"{flag.Name} ({flag.ShortAlias}): {flag.Usage}");
+/// </code>
+/// </example>
+[AttributeUsage(AttributeTargets.Property, Inherited = false)]
+public sealed class DenoFlagAttribute(string name) : Attribute
+{
+  /// <summary>Long form of the flag, e.g. <c>--allow-read</c>.</summary>
+  public string Name { get; } = name;
+
+  /// <summary>Short alias including the dash, e.g. <c>-c</c>; <see langword="null"/> when the flag has none.</summary>
+  public string? ShortAlias { get; set; }
+
+  /// <summary>Exact CLI usage, e.g. <c>-c, --config &lt;FILE&gt;</c>.</summary>
+  public string Usage { get; set; } = string.Empty;
+
+  /// <summary>Help section the flag is listed under in <c>deno &lt;command&gt; --help</c>.</summary>
+  public string Heading { get; set; } = string.Empty;
+
+  /// <summary>Full help text without ANSI colour codes or indentation; line breaks are kept as in <c>--help</c>.</summary>
+  public string Help { get; set; } = string.Empty;
+
+  /// <summary>
+  /// First Deno version in the generator's history with the flag; <see langword="null"/> when it predates that history.
+  /// The history keeps one release per minor version (e.g. 2.3.1, 2.7.1) plus the one generated from, not every patch
+  /// release, so the flag can be older: earlier patches of that minor version may already support it.
+  /// </summary>
+  public string? Since { get; set; }
+
+  /// <summary>
+  /// First Deno version in the generator's history without the flag; <see langword="null"/> while it still exists. Same
+  /// granularity as <see cref="Since"/>: later patches of the previous archived version may already lack it.
+  /// </summary>
+  public string? RemovedIn { get; set; }
+}
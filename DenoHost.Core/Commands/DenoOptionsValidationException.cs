@@ -0,0 +1,27 @@
+using System;
+using System.Collections.Generic;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>
+/// Thrown by the generated <c>XxxOptions.Validate()</c> methods (and therefore by <c>Deno.Xxx</c> and
+/// <c>DenoProcess.Xxx</c>) when options combine flags that Deno would reject, e.g. <c>--lock</c> with <c>--no-lock</c>.
+/// </summary>
+public sealed class DenoOptionsValidationException : ArgumentException
+{
+  public DenoOptionsValidationException(string command, IReadOnlyList<string> errors)
+    : base(FormatMessage(command, errors), "options")
+  {
+    Command = command;
+    Errors = errors;
+  }
+
+  /// <summary>The Deno subcommand the options belong to, e.g. <c>run</c>.</summary>
+  public string Command { get; }
+
+  /// <summary>Every violated rule, one message per rule.</summary>
+  public IReadOnlyList<string> Errors { get; }
+
+  private static string FormatMessage(string command, IReadOnlyList<string> errors)
+    => $"Invalid options for deno {command}:{Environment.NewLine}  - {string.Join($"{Environment.NewLine}  - ", errors)}";
+}
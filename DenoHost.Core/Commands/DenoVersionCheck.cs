@@ -0,0 +1,63 @@
+using System;
+using System.Collections.Generic;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>What the typed command API does with flags the Deno binary in use does not support.</summary>
+public enum DenoUnsupportedFlagHandling
+{
+  /// <summary>Pass the flags on unchecked.</summary>
+  Ignore,
+
+  /// <summary>Log a warning and pass the flags on.</summary>
+  Warn,
+
+  /// <summary>Throw a <see cref="DenoOptionsValidationException"/> before Deno is started.</summary>
+  Throw,
+}
+
+/// <summary>
+/// Checks the flags set on a generated options class against the Deno version in use, using the
+/// <see cref="DenoFlagAttribute.Since"/>/<see cref="DenoFlagAttribute.RemovedIn"/> data from the generator's history.
+/// </summary>
+internal sealed class DenoVersionCheck(Version denoVersion, DenoUnsupportedFlagHandling handling, ILogger? logger)
+{
+  public Version DenoVersion => denoVersion;
+
+  /// <summary>
+  /// Check for <paramref name="baseOptions"/> (or the <see cref="Deno"/> defaults); <see langword="null"/> when checks
+  /// are disabled or the Deno version cannot be determined. Without <see cref="DenoExecuteBaseOptions.DenoVersion"/>,
+  /// the version is detected with the caller's <see cref="DenoExecuteBaseOptions.Environment"/>.
+  /// </summary>
+  public static async Task<DenoVersionCheck?> ForAsync(DenoExecuteBaseOptions? baseOptions, CancellationToken cancellationToken)
+  {
+    var handling = baseOptions?.UnsupportedFlags ?? Deno.UnsupportedFlags;
+    if (handling == DenoUnsupportedFlagHandling.Ignore) return null;
+
+    var version = baseOptions?.DenoVersion
+      ?? await Helper.GetDenoVersionAsync(baseOptions?.Environment, cancellationToken).ConfigureAwait(false);
+    return version is null ? null : new DenoVersionCheck(version, handling, baseOptions?.Logger ?? Deno.Logger);
+  }
+
+  public void Check(List<string> problems, string flag, string? since, string? removedIn)
+  {
+    if (since is not null && denoVersion < Version.Parse(since))
+      problems.Add($"'{flag}' requires Deno {since} or later; the binary is Deno {denoVersion}.");
+    else if (removedIn is not null && denoVersion >= Version.Parse(removedIn))
+      problems.Add($"'{flag}' was removed in Deno {removedIn}; the binary is Deno {denoVersion}.");
+  }
+
+  public void Report(string command, List<string> problems)
+  {
+    if (problems.Count == 0) return;
+
+    if (handling == DenoUnsupportedFlagHandling.Throw)
+      throw new DenoOptionsValidationException(command, problems);
+
+    foreach (var problem in problems)
+      logger?.LogWarning(LogEvents.UnsupportedDenoFlag, "deno {Command}: {Problem}", command, problem);
+  }
+}
@@ -4,56 +4,130 @@
 // Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
 #nullable enable
 
+using System;
 using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
 using System.Globalization;
 
 namespace DenoHost.Core.Commands;
 
 /// <summary>Options for <c>deno add</c>. Add dependencies to your configuration file.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/add/"/>
 public sealed class AddOptions
 {
   #region General
 
-  /// <summary>Add the package as a dev dependency (under `devDependencies`). Note: this only applies when adding to a `package.json` file.</summary>
+  /// <summary>Add the package as a dev dependency (under <c>devDependencies</c>). Note: this only applies when adding to a <c>package.json</c> file.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--dev</c> (short alias <c>-D</c>)</para>
+  /// </remarks>
+  [DenoFlag("--dev", ShortAlias = "-D", Usage = "--dev", Heading = "General", Help = "Add the package as a dev dependency (under `devDependencies`). Note: this only applies when adding to a `package.json` file.")]
   public bool? Dev { get; set; }
 
-  /// <summary>Add the package as an optional dependency (under `optionalDependencies`). Note: this only applies when adding to a `package.json` file.</summary>
+  /// <summary>Add the package as an optional dependency (under <c>optionalDependencies</c>). Note: this only applies when adding to a <c>package.json</c> file.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--save-optional</c> (short alias <c>-O</c>)</para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--save-optional", ShortAlias = "-O", Usage = "--save-optional", Heading = "General", Help = "Add the package as an optional dependency (under `optionalDependencies`). Note: this only applies when adding to a `package.json` file.", Since = "2.9.5")]
   public bool? SaveOptional { get; set; }
 
   /// <summary>Install the package(s) without adding them to the configuration file.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-save</c></para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--no-save", Usage = "--no-save", Heading = "General", Help = "Install the package(s) without adding them to the configuration file.", Since = "2.9.5")]
   public bool? NoSave { get; set; }
 
   /// <summary>Allow running npm lifecycle scripts for the given packages</summary>
+  /// <remarks>
+  /// <para>Note: Scripts will only be executed when using a node_modules directory (<c>--node-modules-dir</c>)</para>
+  /// <para>Usage: <c>--allow-scripts[=&lt;PACKAGE&gt;...]</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-scripts", Usage = "--allow-scripts[=<PACKAGE>...]", Heading = "General", Help = "Allow running npm lifecycle scripts for the given packages\nNote: Scripts will only be executed when using a node_modules directory (`--node-modules-dir`)", Since = "2.1.0")]
   public string[]? AllowScripts { get; set; }
 
-  /// <summary>Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: [38;5;245mdeno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443[39m</summary>
+  /// <summary>Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-import[=&lt;IP_OR_HOSTNAME&gt;...]</c> (short alias <c>-I</c>)</para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-import", ShortAlias = "-I", Usage = "--allow-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443", Since = "2.9.0")]
   public string[]? AllowImport { get; set; }
 
   /// <summary>Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-import[=&lt;IP_OR_HOSTNAME&gt;...]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--deny-import", Usage = "--deny-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.", Since = "2.9.0")]
   public string[]? DenyImport { get; set; }
 
   /// <summary>Install only updating the lockfile</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lockfile-only</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--lockfile-only", Usage = "--lockfile-only", Heading = "General", Help = "Install only updating the lockfile", Since = "2.6.0")]
   public bool? LockfileOnly { get; set; }
 
   /// <summary>assume unprefixed package names are npm packages (default)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--npm</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--npm", Usage = "--npm", Heading = "General", Help = "assume unprefixed package names are npm packages (default)", Since = "2.3.1")]
   public bool? Npm { get; set; }
 
   /// <summary>assume unprefixed package names are jsr packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--jsr</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--jsr", Usage = "--jsr", Heading = "General", Help = "assume unprefixed package names are jsr packages", Since = "2.3.1")]
   public bool? Jsr { get; set; }
 
   /// <summary>Save exact version without the caret (^)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--save-exact</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--save-exact", Usage = "--save-exact", Heading = "General", Help = "Save exact version without the caret (^)", Since = "2.7.1")]
   public bool? SaveExact { get; set; }
 
-  /// <summary>Use the package name without its scope as the alias (ex. `jsr:@david/jsonc-morph` is added as `jsonc-morph`). Packages given an explicit alias are unaffected.</summary>
+  /// <summary>Use the package name without its scope as the alias (ex. <c>jsr:@david/jsonc-morph</c> is added as <c>jsonc-morph</c>). Packages given an explicit alias are unaffected.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unscoped</c></para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--unscoped", Usage = "--unscoped", Heading = "General", Help = "Use the package name without its scope as the alias (ex. `jsr:@david/jsonc-morph` is added as `jsonc-morph`). Packages given an explicit alias are unaffected.", Since = "2.9.5")]
   public bool? Unscoped { get; set; }
 
   /// <summary>Force using package.json for dependency management instead of deno.json</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--package-json</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--package-json", Usage = "--package-json", Heading = "General", Help = "Force using package.json for dependency management instead of deno.json", Since = "2.8.0")]
   public bool? PackageJson { get; set; }
 
   /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
   public string? EnvFile { get; set; }
 
   /// <summary>(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--minimum-dependency-age &lt;minimum-dependency-age&gt;</c></para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--minimum-dependency-age", Usage = "--minimum-dependency-age <minimum-dependency-age>", Heading = "General", Help = "(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)", Since = "2.9.5")]
   public string? MinimumDependencyAge { get; set; }
 
   #endregion
@@ -61,25 +135,50 @@ public sealed class AddOptions
   #region Dependency management options
 
   /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")", Since = "2.4.0")]
   public string? Lock { get; set; }
 
   /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file", Since = "2.4.0")]
   public bool? NoLock { get; set; }
 
   /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date", Since = "2.4.0")]
   public bool? Frozen { get; set; }
 
   #endregion
 
-  internal string[] ToArgs()
+  /// <summary>Checks for flag combinations <c>deno add</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("add", errors);
+  }
+
+  /// <summary>The <c>deno add</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
   {
     var args = new List<string>();
     if (Dev == true) args.Add("--dev");
     if (SaveOptional == true) args.Add("--save-optional");
     if (NoSave == true) args.Add("--no-save");
-    if (AllowScripts is not null) { if (AllowScripts.Length == 0) args.Add("--allow-scripts"); else { args.Add("--allow-scripts"); args.Add(string.Join(",", AllowScripts)); } }
-    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else { args.Add("--allow-import"); args.Add(string.Join(",", AllowImport)); } }
-    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else { args.Add("--deny-import"); args.Add(string.Join(",", DenyImport)); } }
+    if (AllowScripts is not null) { if (AllowScripts.Length == 0) args.Add("--allow-scripts"); else args.Add(string.Concat("--allow-scripts=", string.Join(",", AllowScripts))); }
+    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else args.Add(string.Concat("--allow-import=", string.Join(",", AllowImport))); }
+    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else args.Add(string.Concat("--deny-import=", string.Join(",", DenyImport))); }
     if (Lock is not null) { if (Lock.Length == 0) args.Add("--lock"); else args.Add(string.Concat("--lock=", Lock)); }
     if (NoLock == true) args.Add("--no-lock");
     if (Frozen.HasValue) args.Add(Frozen.Value ? "--frozen" : "--frozen=false");
@@ -93,4 +192,103 @@ public sealed class AddOptions
     if (MinimumDependencyAge is not null) { args.Add("--minimum-dependency-age"); args.Add(MinimumDependencyAge); }
     return [.. args];
   }
+
+  internal bool UsesVersionedFlags =>
+    SaveOptional == true
+    || NoSave == true
+    || AllowScripts is not null
+    || AllowImport is not null
+    || DenyImport is not null
+    || Lock is not null
+    || NoLock == true
+    || Frozen.HasValue
+    || LockfileOnly == true
+    || Npm == true
+    || Jsr == true
+    || SaveExact == true
+    || Unscoped == true
+    || PackageJson == true
+    || EnvFile is not null
+    || MinimumDependencyAge is not null;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (SaveOptional == true) versionCheck.Check(problems, "--save-optional", "2.9.5", null);
+    if (NoSave == true) versionCheck.Check(problems, "--no-save", "2.9.5", null);
+    if (AllowScripts is not null) versionCheck.Check(problems, "--allow-scripts", "2.1.0", null);
+    if (AllowImport is not null) versionCheck.Check(problems, "--allow-import", "2.9.0", null);
+    if (DenyImport is not null) versionCheck.Check(problems, "--deny-import", "2.9.0", null);
+    if (Lock is not null) versionCheck.Check(problems, "--lock", "2.4.0", null);
+    if (NoLock == true) versionCheck.Check(problems, "--no-lock", "2.4.0", null);
+    if (Frozen.HasValue) versionCheck.Check(problems, "--frozen", "2.4.0", null);
+    if (LockfileOnly == true) versionCheck.Check(problems, "--lockfile-only", "2.6.0", null);
+    if (Npm == true) versionCheck.Check(problems, "--npm", "2.3.1", null);
+    if (Jsr == true) versionCheck.Check(problems, "--jsr", "2.3.1", null);
+    if (SaveExact == true) versionCheck.Check(problems, "--save-exact", "2.7.1", null);
+    if (Unscoped == true) versionCheck.Check(problems, "--unscoped", "2.9.5", null);
+    if (PackageJson == true) versionCheck.Check(problems, "--package-json", "2.8.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    if (MinimumDependencyAge is not null) versionCheck.Check(problems, "--minimum-dependency-age", "2.9.5", null);
+    versionCheck.Report("add", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['D'] = "--dev", ['O'] = "--save-optional", ['I'] = "--allow-import" };
+
+  /// <summary>Parses a <c>deno add</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static AddOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno add</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static AddOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno add: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno add</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out AddOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno add</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out AddOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new AddOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--dev": result.Dev = reader.ReadFlag(); break;
+        case "--save-optional": result.SaveOptional = reader.ReadFlag(); break;
+        case "--no-save": result.NoSave = reader.ReadFlag(); break;
+        case "--allow-scripts": result.AllowScripts = DenoArgsReader.Concat(result.AllowScripts, reader.ReadOptionalArray()); break;
+        case "--allow-import": result.AllowImport = DenoArgsReader.Concat(result.AllowImport, reader.ReadOptionalArray()); break;
+        case "--deny-import": result.DenyImport = DenoArgsReader.Concat(result.DenyImport, reader.ReadOptionalArray()); break;
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--lockfile-only": result.LockfileOnly = reader.ReadFlag(); break;
+        case "--npm": result.Npm = reader.ReadFlag(); break;
+        case "--jsr": result.Jsr = reader.ReadFlag(); break;
+        case "--save-exact": result.SaveExact = reader.ReadFlag(); break;
+        case "--unscoped": result.Unscoped = reader.ReadFlag(); break;
+        case "--package-json": result.PackageJson = reader.ReadFlag(); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--minimum-dependency-age": result.MinimumDependencyAge = reader.ReadValue(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
 }
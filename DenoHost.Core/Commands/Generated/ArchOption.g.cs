@@ -0,0 +1,70 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--arch</c>.</summary>
+public enum ArchOption
+{
+  /// <summary><c>--arch=arm</c></summary>
+  Arm,
+  /// <summary><c>--arch=arm64</c></summary>
+  Arm64,
+  /// <summary><c>--arch=ia32</c></summary>
+  Ia32,
+  /// <summary><c>--arch=mips</c></summary>
+  Mips,
+  /// <summary><c>--arch=mipsel</c></summary>
+  Mipsel,
+  /// <summary><c>--arch=ppc</c></summary>
+  Ppc,
+  /// <summary><c>--arch=ppc64</c></summary>
+  Ppc64,
+  /// <summary><c>--arch=s390</c></summary>
+  S390,
+  /// <summary><c>--arch=s390x</c></summary>
+  S390x,
+  /// <summary><c>--arch=x64</c></summary>
+  X64,
+}
+
+internal static class ArchOptionExtensions
+{
+  internal static string ToArg(this ArchOption value) => value switch
+  {
+    ArchOption.Arm => "arm",
+    ArchOption.Arm64 => "arm64",
+    ArchOption.Ia32 => "ia32",
+    ArchOption.Mips => "mips",
+    ArchOption.Mipsel => "mipsel",
+    ArchOption.Ppc => "ppc",
+    ArchOption.Ppc64 => "ppc64",
+    ArchOption.S390 => "s390",
+    ArchOption.S390x => "s390x",
+    ArchOption.X64 => "x64",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out ArchOption value)
+  {
+    switch (arg)
+    {
+      case "arm": value = ArchOption.Arm; return true;
+      case "arm64": value = ArchOption.Arm64; return true;
+      case "ia32": value = ArchOption.Ia32; return true;
+      case "mips": value = ArchOption.Mips; return true;
+      case "mipsel": value = ArchOption.Mipsel; return true;
+      case "ppc": value = ArchOption.Ppc; return true;
+      case "ppc64": value = ArchOption.Ppc64; return true;
+      case "s390": value = ArchOption.S390; return true;
+      case "s390x": value = ArchOption.S390x; return true;
+      case "x64": value = ArchOption.X64; return true;
+      default: value = default; return false;
+    }
+  }
+}
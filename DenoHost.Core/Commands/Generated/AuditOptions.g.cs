@@ -0,0 +1,215 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno audit</c>. Audit currently installed dependencies.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/audit/"/>
+public sealed class AuditOptions
+{
+  #region Dependency management options
+
+  /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")", Since = "2.6.0")]
+  public string? Lock { get; set; }
+
+  /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file", Since = "2.6.0")]
+  public bool? NoLock { get; set; }
+
+  /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date", Since = "2.6.0")]
+  public bool? Frozen { get; set; }
+
+  #endregion
+
+  #region General
+
+  /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
+  public string? EnvFile { get; set; }
+
+  /// <summary>Only show advisories with severity greater or equal to the one specified</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--level &lt;level&gt;</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--level", Usage = "--level <level>", Heading = "General", Help = "Only show advisories with severity greater or equal to the one specified", Since = "2.6.0")]
+  public string? Level { get; set; }
+
+  /// <summary>Typed view of <see cref="Level"/>: <c>null</c> when it is unset or holds a value not in <see cref="LevelOption"/>.</summary>
+  public LevelOption? LevelOption { get => Level is { } arg && LevelOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Level = value?.ToArg(); }
+
+  /// <summary>Ignore advisories that don't have any actions to resolve them</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore-unfixable</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--ignore-unfixable", Usage = "--ignore-unfixable", Heading = "General", Help = "Ignore advisories that don't have any actions to resolve them", Since = "2.6.0")]
+  public bool? IgnoreUnfixable { get; set; }
+
+  /// <summary>Check against socket.dev vulnerability database</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--socket</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--socket", Usage = "--socket", Heading = "General", Help = "Check against socket.dev vulnerability database", Since = "2.6.0")]
+  public bool? Socket { get; set; }
+
+  /// <summary>Return exit code 0 if remote service(s) responds with an error.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore-registry-errors</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--ignore-registry-errors", Usage = "--ignore-registry-errors", Heading = "General", Help = "Return exit code 0 if remote service(s) responds with an error.", Since = "2.6.0")]
+  public bool? IgnoreRegistryErrors { get; set; }
+
+  /// <summary>Ignore advisories matching the given CVE IDs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore &lt;CVE&gt;</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--ignore", Usage = "--ignore <CVE>", Heading = "General", Help = "Ignore advisories matching the given CVE IDs", Since = "2.7.1")]
+  public string? Ignore { get; set; }
+
+  /// <summary>Automatically fix vulnerabilities by upgrading packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--fix</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--fix", Usage = "--fix", Heading = "General", Help = "Automatically fix vulnerabilities by upgrading packages", Since = "2.8.0")]
+  public bool? Fix { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno audit</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("audit", errors);
+  }
+
+  /// <summary>The <c>deno audit</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Lock is not null) { if (Lock.Length == 0) args.Add("--lock"); else args.Add(string.Concat("--lock=", Lock)); }
+    if (NoLock == true) args.Add("--no-lock");
+    if (Frozen.HasValue) args.Add(Frozen.Value ? "--frozen" : "--frozen=false");
+    if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
+    if (Level is not null) { args.Add("--level"); args.Add(Level); }
+    if (IgnoreUnfixable == true) args.Add("--ignore-unfixable");
+    if (Socket == true) args.Add("--socket");
+    if (IgnoreRegistryErrors == true) args.Add("--ignore-registry-errors");
+    if (Ignore is not null) { args.Add("--ignore"); args.Add(Ignore); }
+    if (Fix == true) args.Add("--fix");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Lock is not null
+    || NoLock == true
+    || Frozen.HasValue
+    || EnvFile is not null
+    || Level is not null
+    || IgnoreUnfixable == true
+    || Socket == true
+    || IgnoreRegistryErrors == true
+    || Ignore is not null
+    || Fix == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Lock is not null) versionCheck.Check(problems, "--lock", "2.6.0", null);
+    if (NoLock == true) versionCheck.Check(problems, "--no-lock", "2.6.0", null);
+    if (Frozen.HasValue) versionCheck.Check(problems, "--frozen", "2.6.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    if (Level is not null) versionCheck.Check(problems, "--level", "2.6.0", null);
+    if (IgnoreUnfixable == true) versionCheck.Check(problems, "--ignore-unfixable", "2.6.0", null);
+    if (Socket == true) versionCheck.Check(problems, "--socket", "2.6.0", null);
+    if (IgnoreRegistryErrors == true) versionCheck.Check(problems, "--ignore-registry-errors", "2.6.0", null);
+    if (Ignore is not null) versionCheck.Check(problems, "--ignore", "2.7.1", null);
+    if (Fix == true) versionCheck.Check(problems, "--fix", "2.8.0", null);
+    versionCheck.Report("audit", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new();
+
+  /// <summary>Parses a <c>deno audit</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static AuditOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno audit</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static AuditOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno audit: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno audit</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out AuditOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno audit</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out AuditOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new AuditOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--level": result.Level = reader.ReadValue(); break;
+        case "--ignore-unfixable": result.IgnoreUnfixable = reader.ReadFlag(); break;
+        case "--socket": result.Socket = reader.ReadFlag(); break;
+        case "--ignore-registry-errors": result.IgnoreRegistryErrors = reader.ReadFlag(); break;
+        case "--ignore": result.Ignore = reader.ReadValue(); break;
+        case "--fix": result.Fix = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -0,0 +1,42 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--backend</c>.</summary>
+public enum BackendOption
+{
+  /// <summary><c>--backend=webview</c></summary>
+  Webview,
+  /// <summary><c>--backend=cef</c></summary>
+  Cef,
+  /// <summary><c>--backend=raw</c></summary>
+  Raw,
+}
+
+internal static class BackendOptionExtensions
+{
+  internal static string ToArg(this BackendOption value) => value switch
+  {
+    BackendOption.Webview => "webview",
+    BackendOption.Cef => "cef",
+    BackendOption.Raw => "raw",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out BackendOption value)
+  {
+    switch (arg)
+    {
+      case "webview": value = BackendOption.Webview; return true;
+      case "cef": value = BackendOption.Cef; return true;
+      case "raw": value = BackendOption.Raw; return true;
+      default: value = default; return false;
+    }
+  }
+}
@@ -0,0 +1,171 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno bump-version</c>. Update version in the configuration file.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/bump-version/"/>
+public sealed class BumpVersionOptions
+{
+  #region General
+
+  /// <summary>Bump every package in the workspace (auto-detected at the workspace root)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--workspace</c> (short alias <c>-w</c>)</para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--workspace", ShortAlias = "-w", Usage = "--workspace", Heading = "General", Help = "Bump every package in the workspace (auto-detected at the workspace root)", Since = "2.8.0")]
+  public bool? Workspace { get; set; }
+
+  /// <summary>Disable workspace mode and only bump the deno.json/package.json in the current directory</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-workspace</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-workspace", Usage = "--no-workspace", Heading = "General", Help = "Disable workspace mode and only bump the deno.json/package.json in the current directory", Since = "2.8.0")]
+  public bool? NoWorkspace { get; set; }
+
+  /// <summary>Print the planned changes without writing any files</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--dry-run</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--dry-run", Usage = "--dry-run", Heading = "General", Help = "Print the planned changes without writing any files", Since = "2.8.0")]
+  public bool? DryRun { get; set; }
+
+  /// <summary>[conventional-commits mode] Git ref to start from. Default: latest tag (git describe --tags --abbrev=0)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--start &lt;REF&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--start", Usage = "--start <REF>", Heading = "General", Help = "[conventional-commits mode] Git ref to start from. Default: latest tag (git describe --tags --abbrev=0)", Since = "2.8.0")]
+  public string? Start { get; set; }
+
+  /// <summary>[conventional-commits mode] Git ref to compare against. Default: current branch</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--base &lt;REF&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--base", Usage = "--base <REF>", Heading = "General", Help = "[conventional-commits mode] Git ref to compare against. Default: current branch", Since = "2.8.0")]
+  public string? Base { get; set; }
+
+  /// <summary>Path to the import map to rewrite jsr: version constraints in. Defaults to the root deno.json (or its importMap target)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--import-map &lt;PATH&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--import-map", Usage = "--import-map <PATH>", Heading = "General", Help = "Path to the import map to rewrite jsr: version constraints in. Defaults to the root deno.json (or its importMap target)", Since = "2.8.0")]
+  public string? ImportMap { get; set; }
+
+  /// <summary>[conventional-commits mode] Path to the release notes file to prepend. Default: Releases.md</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--release-notes &lt;PATH&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--release-notes", Usage = "--release-notes <PATH>", Heading = "General", Help = "[conventional-commits mode] Path to the release notes file to prepend. Default: Releases.md", Since = "2.8.0")]
+  public string? ReleaseNotes { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno bump-version</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Workspace == true && NoWorkspace == true) errors.Add("'--workspace' cannot be used with '--no-workspace'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("bump-version", errors);
+  }
+
+  /// <summary>The <c>deno bump-version</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Workspace == true) args.Add("--workspace");
+    if (NoWorkspace == true) args.Add("--no-workspace");
+    if (DryRun == true) args.Add("--dry-run");
+    if (Start is not null) { args.Add("--start"); args.Add(Start); }
+    if (Base is not null) { args.Add("--base"); args.Add(Base); }
+    if (ImportMap is not null) { args.Add("--import-map"); args.Add(ImportMap); }
+    if (ReleaseNotes is not null) { args.Add("--release-notes"); args.Add(ReleaseNotes); }
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Workspace == true
+    || NoWorkspace == true
+    || DryRun == true
+    || Start is not null
+    || Base is not null
+    || ImportMap is not null
+    || ReleaseNotes is not null;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Workspace == true) versionCheck.Check(problems, "--workspace", "2.8.0", null);
+    if (NoWorkspace == true) versionCheck.Check(problems, "--no-workspace", "2.8.0", null);
+    if (DryRun == true) versionCheck.Check(problems, "--dry-run", "2.8.0", null);
+    if (Start is not null) versionCheck.Check(problems, "--start", "2.8.0", null);
+    if (Base is not null) versionCheck.Check(problems, "--base", "2.8.0", null);
+    if (ImportMap is not null) versionCheck.Check(problems, "--import-map", "2.8.0", null);
+    if (ReleaseNotes is not null) versionCheck.Check(problems, "--release-notes", "2.8.0", null);
+    versionCheck.Report("bump-version", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['w'] = "--workspace" };
+
+  /// <summary>Parses a <c>deno bump-version</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static BumpVersionOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno bump-version</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static BumpVersionOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno bump-version: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno bump-version</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out BumpVersionOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno bump-version</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out BumpVersionOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new BumpVersionOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--workspace": result.Workspace = reader.ReadFlag(); break;
+        case "--no-workspace": result.NoWorkspace = reader.ReadFlag(); break;
+        case "--dry-run": result.DryRun = reader.ReadFlag(); break;
+        case "--start": result.Start = reader.ReadValue(); break;
+        case "--base": result.Base = reader.ReadValue(); break;
+        case "--import-map": result.ImportMap = reader.ReadValue(); break;
+        case "--release-notes": result.ReleaseNotes = reader.ReadValue(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -0,0 +1,576 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno bundle</c>. Output a single JavaScript file with all dependencies.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/bundle/"/>
+public sealed class BundleOptions
+{
+  #region Unstable options
+
+  /// <summary>Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-detect-cjs</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-detect-cjs", Usage = "--unstable-detect-cjs", Heading = "Unstable options", Help = "Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases", Since = "2.1.0")]
+  public bool? UnstableDetectCjs { get; set; }
+
+  /// <summary>Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lazy-dynamic-imports</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lazy-dynamic-imports", Usage = "--unstable-lazy-dynamic-imports", Heading = "Unstable options", Help = "Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.", Since = "2.3.1")]
+  public bool? UnstableLazyDynamicImports { get; set; }
+
+  /// <summary>Enable unstable lockfile v5</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lockfile-v5</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lockfile-v5", Usage = "--unstable-lockfile-v5", Heading = "Unstable options", Help = "Enable unstable lockfile v5", Since = "2.3.1")]
+  public bool? UnstableLockfileV5 { get; set; }
+
+  /// <summary>Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-npm-lazy-caching</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-npm-lazy-caching", Usage = "--unstable-npm-lazy-caching", Heading = "Unstable options", Help = "Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed", Since = "2.3.1")]
+  public bool? UnstableNpmLazyCaching { get; set; }
+
+  /// <summary>Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sloppy-imports</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-sloppy-imports", Usage = "--unstable-sloppy-imports", Heading = "Unstable options", Help = "Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing")]
+  public bool? UnstableSloppyImports { get; set; }
+
+  /// <summary>Enable unstable TypeScript Go integration</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-tsgo</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-tsgo", Usage = "--unstable-tsgo", Heading = "Unstable options", Help = "Enable unstable TypeScript Go integration", Since = "2.6.0")]
+  public bool? UnstableTsgo { get; set; }
+
+  /// <summary>The <c>--unstable</c> flag has been deprecated. Use granular <c>--unstable-*</c> flags instead</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable", Usage = "--unstable", Heading = "Unstable options", Help = "The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead")]
+  public bool? Unstable { get; set; }
+
+  #endregion
+
+  #region Type checking options
+
+  /// <summary>Skip type-checking. If the value of "remote" is supplied, diagnostic errors from remote modules will be ignored</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-check[=&lt;NO_CHECK_TYPE&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-check", Usage = "--no-check[=<NO_CHECK_TYPE>]", Heading = "Type checking options", Help = "Skip type-checking. If the value of \"remote\" is supplied, diagnostic errors from remote modules will be ignored", Since = "2.4.0")]
+  public string? NoCheck { get; set; }
+
+  /// <summary>Typed view of <see cref="NoCheck"/>: <c>null</c> when it is unset or holds a value not in <see cref="NoCheckOption"/>.</summary>
+  public NoCheckOption? NoCheckOption { get => NoCheck is { } arg && NoCheckOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NoCheck = value?.ToArg(); }
+
+  /// <summary>Enable type-checking. This subcommand does not type-check by default; pass --check=all to also type-check remote modules. Alternatively, use the 'deno check' subcommand.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--check[=&lt;CHECK_TYPE&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--check", Usage = "--check[=<CHECK_TYPE>]", Heading = "Type checking options", Help = "Enable type-checking. This subcommand does not type-check by default; pass --check=all to also type-check remote modules. Alternatively, use the 'deno check' subcommand.", Since = "2.4.0")]
+  public string? Check { get; set; }
+
+  /// <summary>Typed view of <see cref="Check"/>: <c>null</c> when it is unset or holds a value not in <see cref="CheckOption"/>.</summary>
+  public CheckOption? CheckOption { get => Check is { } arg && CheckOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Check = value?.ToArg(); }
+
+  #endregion
+
+  #region Dependency management options
+
+  /// <summary>Load import map file from local file or remote URL</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/runtime/manual/basics/import_maps"/></para>
+  /// <para>Usage: <c>--import-map &lt;FILE&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--import-map", Usage = "--import-map <FILE>", Heading = "Dependency management options", Help = "Load import map file from local file or remote URL\nDocs: https://docs.deno.com/runtime/manual/basics/import_maps", Since = "2.4.0")]
+  public string? ImportMap { get; set; }
+
+  /// <summary>Do not resolve remote modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-remote</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-remote", Usage = "--no-remote", Heading = "Dependency management options", Help = "Do not resolve remote modules", Since = "2.4.0")]
+  public bool? NoRemote { get; set; }
+
+  /// <summary>Do not resolve npm modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-npm</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-npm", Usage = "--no-npm", Heading = "Dependency management options", Help = "Do not resolve npm modules", Since = "2.4.0")]
+  public bool? NoNpm { get; set; }
+
+  /// <summary>Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-dir[=&lt;MODE&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--node-modules-dir", Usage = "--node-modules-dir[=<MODE>]", Heading = "Dependency management options", Help = "Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.", Since = "2.4.0")]
+  public string? NodeModulesDir { get; set; }
+
+  /// <summary>Typed view of <see cref="NodeModulesDir"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesDirOption"/>.</summary>
+  public NodeModulesDirOption? NodeModulesDirOption { get => NodeModulesDir is { } arg && NodeModulesDirOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesDir = value?.ToArg(); }
+
+  /// <summary>Sets the linker mode for npm packages (isolated or hoisted)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-linker=&lt;MODE&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--node-modules-linker", Usage = "--node-modules-linker=<MODE>", Heading = "Dependency management options", Help = "Sets the linker mode for npm packages (isolated or hoisted)", Since = "2.8.0")]
+  public string? NodeModulesLinker { get; set; }
+
+  /// <summary>Typed view of <see cref="NodeModulesLinker"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesLinkerOption"/>.</summary>
+  public NodeModulesLinkerOption? NodeModulesLinkerOption { get => NodeModulesLinker is { } arg && NodeModulesLinkerOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesLinker = value?.ToArg(); }
+
+  /// <summary>Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--vendor[=&lt;vendor&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--vendor", Usage = "--vendor[=<vendor>]", Heading = "Dependency management options", Help = "Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages", Since = "2.4.0")]
+  public string? Vendor { get; set; }
+
+  /// <summary>Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--reload[=&lt;CACHE_BLOCKLIST&gt;...]</c> (short alias <c>-r</c>)</para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--reload", ShortAlias = "-r", Usage = "--reload[=<CACHE_BLOCKLIST>...]", Heading = "Dependency management options", Help = "Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.", Since = "2.4.0")]
+  public string[]? Reload { get; set; }
+
+  /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")", Since = "2.4.0")]
+  public string? Lock { get; set; }
+
+  /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file", Since = "2.4.0")]
+  public bool? NoLock { get; set; }
+
+  /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date", Since = "2.4.0")]
+  public bool? Frozen { get; set; }
+
+  #endregion
+
+  #region General
+
+  /// <summary>Use this argument to specify custom conditions for npm package exports. You can also use DENO_CONDITIONS env var.</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/go/conditional-exports"/></para>
+  /// <para>Usage: <c>--conditions &lt;conditions&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--conditions", Usage = "--conditions <conditions>", Heading = "General", Help = "Use this argument to specify custom conditions for npm package exports. You can also use DENO_CONDITIONS env var.\n\nDocs: https://docs.deno.com/go/conditional-exports", Since = "2.4.0")]
+  public string? Conditions { get; set; }
+
+  /// <summary>Load certificate authority from PEM encoded file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--cert &lt;FILE&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--cert", Usage = "--cert <FILE>", Heading = "General", Help = "Load certificate authority from PEM encoded file", Since = "2.4.0")]
+  public string? Cert { get; set; }
+
+  /// <summary>(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--minimum-dependency-age &lt;minimum-dependency-age&gt;</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--minimum-dependency-age", Usage = "--minimum-dependency-age <minimum-dependency-age>", Heading = "General", Help = "(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)", Since = "2.6.0")]
+  public string? MinimumDependencyAge { get; set; }
+
+  /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
+  public string? EnvFile { get; set; }
+
+  /// <summary>Output path`</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--output &lt;output&gt;</c> (short alias <c>-o</c>)</para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--output", ShortAlias = "-o", Usage = "--output <output>", Heading = "General", Help = "Output path`", Since = "2.4.0")]
+  public string? Output { get; set; }
+
+  /// <summary>Output directory for bundled files</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--outdir &lt;outdir&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--outdir", Usage = "--outdir <outdir>", Heading = "General", Help = "Output directory for bundled files", Since = "2.4.0")]
+  public string? Outdir { get; set; }
+
+  /// <remarks>
+  /// <para>Usage: <c>--external &lt;external&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--external", Usage = "--external <external>", Heading = "General", Since = "2.4.0")]
+  public string? External { get; set; }
+
+  /// <remarks>
+  /// <para>Usage: <c>--format &lt;format&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--format", Usage = "--format <format>", Heading = "General", Since = "2.4.0")]
+  public string? Format { get; set; }
+
+  /// <summary>How to handle packages. Accepted values are 'bundle' or 'external'</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--packages &lt;packages&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--packages", Usage = "--packages <packages>", Heading = "General", Help = "How to handle packages. Accepted values are 'bundle' or 'external'", Since = "2.4.0")]
+  public string? Packages { get; set; }
+
+  /// <summary>Minify the output</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--minify</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--minify", Usage = "--minify", Heading = "General", Help = "Minify the output", Since = "2.4.0")]
+  public bool? Minify { get; set; }
+
+  /// <summary>Keep function and class names</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--keep-names</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--keep-names", Usage = "--keep-names", Heading = "General", Help = "Keep function and class names", Since = "2.7.1")]
+  public bool? KeepNames { get; set; }
+
+  /// <summary>Enable code splitting</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--code-splitting</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--code-splitting", Usage = "--code-splitting", Heading = "General", Help = "Enable code splitting", Since = "2.4.0")]
+  public bool? CodeSplitting { get; set; }
+
+  /// <summary>Whether to inline imported modules into the importing file [default: true]</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--inline-imports[=&lt;inline-imports&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--inline-imports", Usage = "--inline-imports[=<inline-imports>]", Heading = "General", Help = "Whether to inline imported modules into the importing file [default: true]", Since = "2.4.0")]
+  public string? InlineImports { get; set; }
+
+  /// <summary>Generate source map. Accepted values are 'linked', 'inline', or 'external'</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--sourcemap[=&lt;sourcemap&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--sourcemap", Usage = "--sourcemap[=<sourcemap>]", Heading = "General", Help = "Generate source map. Accepted values are 'linked', 'inline', or 'external'", Since = "2.4.0")]
+  public string? Sourcemap { get; set; }
+
+  /// <summary>Watch and rebuild on changes</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--watch</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--watch", Usage = "--watch", Heading = "General", Help = "Watch and rebuild on changes", Since = "2.4.0")]
+  public bool? Watch { get; set; }
+
+  /// <summary>Platform to bundle for. Accepted values are 'browser' or 'deno'</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--platform &lt;platform&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--platform", Usage = "--platform <platform>", Heading = "General", Help = "Platform to bundle for. Accepted values are 'browser' or 'deno'", Since = "2.4.0")]
+  public string? Platform { get; set; }
+
+  /// <summary>Generate .d.ts declaration files alongside the bundle</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--declaration</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--declaration", Usage = "--declaration", Heading = "General", Help = "Generate .d.ts declaration files alongside the bundle", Since = "2.9.0")]
+  public bool? Declaration { get; set; }
+
+  /// <summary>Allow running npm lifecycle scripts for the given packages</summary>
+  /// <remarks>
+  /// <para>Note: Scripts will only be executed when using a node_modules directory (<c>--node-modules-dir</c>)</para>
+  /// <para>Usage: <c>--allow-scripts[=&lt;PACKAGE&gt;...]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-scripts", Usage = "--allow-scripts[=<PACKAGE>...]", Heading = "General", Help = "Allow running npm lifecycle scripts for the given packages\nNote: Scripts will only be executed when using a node_modules directory (`--node-modules-dir`)", Since = "2.4.0")]
+  public string[]? AllowScripts { get; set; }
+
+  /// <summary>Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-import[=&lt;IP_OR_HOSTNAME&gt;...]</c> (short alias <c>-I</c>)</para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-import", ShortAlias = "-I", Usage = "--allow-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443", Since = "2.4.0")]
+  public string[]? AllowImport { get; set; }
+
+  /// <summary>Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-import[=&lt;IP_OR_HOSTNAME&gt;...]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--deny-import", Usage = "--deny-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.", Since = "2.4.0")]
+  public string[]? DenyImport { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno bundle</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Check is not null && NoCheck is not null) errors.Add("'--check' cannot be used with '--no-check'.");
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("bundle", errors);
+  }
+
+  /// <summary>The <c>deno bundle</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (UnstableDetectCjs == true) args.Add("--unstable-detect-cjs");
+    if (UnstableLazyDynamicImports == true) args.Add("--unstable-lazy-dynamic-imports");
+    if (UnstableLockfileV5 == true) args.Add("--unstable-lockfile-v5");
+    if (UnstableNpmLazyCaching == true) args.Add("--unstable-npm-lazy-caching");
+    if (UnstableSloppyImports == true) args.Add("--unstable-sloppy-imports");
+    if (UnstableTsgo == true) args.Add("--unstable-tsgo");
+    if (NoCheck is not null) { if (NoCheck.Length == 0) args.Add("--no-check"); else args.Add(string.Concat("--no-check=", NoCheck)); }
+    if (ImportMap is not null) { args.Add("--import-map"); args.Add(ImportMap); }
+    if (NoRemote == true) args.Add("--no-remote");
+    if (NoNpm == true) args.Add("--no-npm");
+    if (NodeModulesDir is not null) { if (NodeModulesDir.Length == 0) args.Add("--node-modules-dir"); else args.Add(string.Concat("--node-modules-dir=", NodeModulesDir)); }
+    if (NodeModulesLinker is not null) { args.Add("--node-modules-linker"); args.Add(NodeModulesLinker); }
+    if (Vendor is not null) { if (Vendor.Length == 0) args.Add("--vendor"); else args.Add(string.Concat("--vendor=", Vendor)); }
+    if (Conditions is not null) { args.Add("--conditions"); args.Add(Conditions); }
+    if (Reload is not null) { if (Reload.Length == 0) args.Add("--reload"); else args.Add(string.Concat("--reload=", string.Join(",", Reload))); }
+    if (Lock is not null) { if (Lock.Length == 0) args.Add("--lock"); else args.Add(string.Concat("--lock=", Lock)); }
+    if (NoLock == true) args.Add("--no-lock");
+    if (Frozen.HasValue) args.Add(Frozen.Value ? "--frozen" : "--frozen=false");
+    if (Cert is not null) { args.Add("--cert"); args.Add(Cert); }
+    if (MinimumDependencyAge is not null) { args.Add("--minimum-dependency-age"); args.Add(MinimumDependencyAge); }
+    if (Check is not null) { if (Check.Length == 0) args.Add("--check"); else args.Add(string.Concat("--check=", Check)); }
+    if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
+    if (Output is not null) { args.Add("--output"); args.Add(Output); }
+    if (Outdir is not null) { args.Add("--outdir"); args.Add(Outdir); }
+    if (External is not null) { args.Add("--external"); args.Add(External); }
+    if (Format is not null) { args.Add("--format"); args.Add(Format); }
+    if (Packages is not null) { args.Add("--packages"); args.Add(Packages); }
+    if (Minify == true) args.Add("--minify");
+    if (KeepNames == true) args.Add("--keep-names");
+    if (CodeSplitting == true) args.Add("--code-splitting");
+    if (InlineImports is not null) { if (InlineImports.Length == 0) args.Add("--inline-imports"); else args.Add(string.Concat("--inline-imports=", InlineImports)); }
+    if (Sourcemap is not null) { if (Sourcemap.Length == 0) args.Add("--sourcemap"); else args.Add(string.Concat("--sourcemap=", Sourcemap)); }
+    if (Watch == true) args.Add("--watch");
+    if (Platform is not null) { args.Add("--platform"); args.Add(Platform); }
+    if (Declaration == true) args.Add("--declaration");
+    if (AllowScripts is not null) { if (AllowScripts.Length == 0) args.Add("--allow-scripts"); else args.Add(string.Concat("--allow-scripts=", string.Join(",", AllowScripts))); }
+    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else args.Add(string.Concat("--allow-import=", string.Join(",", AllowImport))); }
+    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else args.Add(string.Concat("--deny-import=", string.Join(",", DenyImport))); }
+    if (Unstable == true) args.Add("--unstable");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    UnstableDetectCjs == true
+    || UnstableLazyDynamicImports == true
+    || UnstableLockfileV5 == true
+    || UnstableNpmLazyCaching == true
+    || UnstableTsgo == true
+    || NoCheck is not null
+    || ImportMap is not null
+    || NoRemote == true
+    || NoNpm == true
+    || NodeModulesDir is not null
+    || NodeModulesLinker is not null
+    || Vendor is not null
+    || Conditions is not null
+    || Reload is not null
+    || Lock is not null
+    || NoLock == true
+    || Frozen.HasValue
+    || Cert is not null
+    || MinimumDependencyAge is not null
+    || Check is not null
+    || EnvFile is not null
+    || Output is not null
+    || Outdir is not null
+    || External is not null
+    || Format is not null
+    || Packages is not null
+    || Minify == true
+    || KeepNames == true
+    || CodeSplitting == true
+    || InlineImports is not null
+    || Sourcemap is not null
+    || Watch == true
+    || Platform is not null
+    || Declaration == true
+    || AllowScripts is not null
+    || AllowImport is not null
+    || DenyImport is not null;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (UnstableDetectCjs == true) versionCheck.Check(problems, "--unstable-detect-cjs", "2.1.0", null);
+    if (UnstableLazyDynamicImports == true) versionCheck.Check(problems, "--unstable-lazy-dynamic-imports", "2.3.1", null);
+    if (UnstableLockfileV5 == true) versionCheck.Check(problems, "--unstable-lockfile-v5", "2.3.1", null);
+    if (UnstableNpmLazyCaching == true) versionCheck.Check(problems, "--unstable-npm-lazy-caching", "2.3.1", null);
+    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.6.0", null);
+    if (NoCheck is not null) versionCheck.Check(problems, "--no-check", "2.4.0", null);
+    if (ImportMap is not null) versionCheck.Check(problems, "--import-map", "2.4.0", null);
+    if (NoRemote == true) versionCheck.Check(problems, "--no-remote", "2.4.0", null);
+    if (NoNpm == true) versionCheck.Check(problems, "--no-npm", "2.4.0", null);
+    if (NodeModulesDir is not null) versionCheck.Check(problems, "--node-modules-dir", "2.4.0", null);
+    if (NodeModulesLinker is not null) versionCheck.Check(problems, "--node-modules-linker", "2.8.0", null);
+    if (Vendor is not null) versionCheck.Check(problems, "--vendor", "2.4.0", null);
+    if (Conditions is not null) versionCheck.Check(problems, "--conditions", "2.4.0", null);
+    if (Reload is not null) versionCheck.Check(problems, "--reload", "2.4.0", null);
+    if (Lock is not null) versionCheck.Check(problems, "--lock", "2.4.0", null);
+    if (NoLock == true) versionCheck.Check(problems, "--no-lock", "2.4.0", null);
+    if (Frozen.HasValue) versionCheck.Check(problems, "--frozen", "2.4.0", null);
+    if (Cert is not null) versionCheck.Check(problems, "--cert", "2.4.0", null);
+    if (MinimumDependencyAge is not null) versionCheck.Check(problems, "--minimum-dependency-age", "2.6.0", null);
+    if (Check is not null) versionCheck.Check(problems, "--check", "2.4.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    if (Output is not null) versionCheck.Check(problems, "--output", "2.4.0", null);
+    if (Outdir is not null) versionCheck.Check(problems, "--outdir", "2.4.0", null);
+    if (External is not null) versionCheck.Check(problems, "--external", "2.4.0", null);
+    if (Format is not null) versionCheck.Check(problems, "--format", "2.4.0", null);
+    if (Packages is not null) versionCheck.Check(problems, "--packages", "2.4.0", null);
+    if (Minify == true) versionCheck.Check(problems, "--minify", "2.4.0", null);
+    if (KeepNames == true) versionCheck.Check(problems, "--keep-names", "2.7.1", null);
+    if (CodeSplitting == true) versionCheck.Check(problems, "--code-splitting", "2.4.0", null);
+    if (InlineImports is not null) versionCheck.Check(problems, "--inline-imports", "2.4.0", null);
+    if (Sourcemap is not null) versionCheck.Check(problems, "--sourcemap", "2.4.0", null);
+    if (Watch == true) versionCheck.Check(problems, "--watch", "2.4.0", null);
+    if (Platform is not null) versionCheck.Check(problems, "--platform", "2.4.0", null);
+    if (Declaration == true) versionCheck.Check(problems, "--declaration", "2.9.0", null);
+    if (AllowScripts is not null) versionCheck.Check(problems, "--allow-scripts", "2.4.0", null);
+    if (AllowImport is not null) versionCheck.Check(problems, "--allow-import", "2.4.0", null);
+    if (DenyImport is not null) versionCheck.Check(problems, "--deny-import", "2.4.0", null);
+    versionCheck.Report("bundle", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['r'] = "--reload", ['o'] = "--output", ['I'] = "--allow-import" };
+
+  /// <summary>Parses a <c>deno bundle</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static BundleOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno bundle</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static BundleOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno bundle: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno bundle</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out BundleOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno bundle</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out BundleOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new BundleOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--unstable-detect-cjs": result.UnstableDetectCjs = reader.ReadFlag(); break;
+        case "--unstable-lazy-dynamic-imports": result.UnstableLazyDynamicImports = reader.ReadFlag(); break;
+        case "--unstable-lockfile-v5": result.UnstableLockfileV5 = reader.ReadFlag(); break;
+        case "--unstable-npm-lazy-caching": result.UnstableNpmLazyCaching = reader.ReadFlag(); break;
+        case "--unstable-sloppy-imports": result.UnstableSloppyImports = reader.ReadFlag(); break;
+        case "--unstable-tsgo": result.UnstableTsgo = reader.ReadFlag(); break;
+        case "--no-check": result.NoCheck = reader.ReadOptionalValue(); break;
+        case "--import-map": result.ImportMap = reader.ReadValue(); break;
+        case "--no-remote": result.NoRemote = reader.ReadFlag(); break;
+        case "--no-npm": result.NoNpm = reader.ReadFlag(); break;
+        case "--node-modules-dir": result.NodeModulesDir = reader.ReadOptionalValue(); break;
+        case "--node-modules-linker": result.NodeModulesLinker = reader.ReadValue(); break;
+        case "--vendor": result.Vendor = reader.ReadOptionalValue(); break;
+        case "--conditions": result.Conditions = reader.ReadValue(); break;
+        case "--reload": result.Reload = DenoArgsReader.Concat(result.Reload, reader.ReadOptionalArray()); break;
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--cert": result.Cert = reader.ReadValue(); break;
+        case "--minimum-dependency-age": result.MinimumDependencyAge = reader.ReadValue(); break;
+        case "--check": result.Check = reader.ReadOptionalValue(); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--output": result.Output = reader.ReadValue(); break;
+        case "--outdir": result.Outdir = reader.ReadValue(); break;
+        case "--external": result.External = reader.ReadValue(); break;
+        case "--format": result.Format = reader.ReadValue(); break;
+        case "--packages": result.Packages = reader.ReadValue(); break;
+        case "--minify": result.Minify = reader.ReadFlag(); break;
+        case "--keep-names": result.KeepNames = reader.ReadFlag(); break;
+        case "--code-splitting": result.CodeSplitting = reader.ReadFlag(); break;
+        case "--inline-imports": result.InlineImports = reader.ReadOptionalValue(); break;
+        case "--sourcemap": result.Sourcemap = reader.ReadOptionalValue(); break;
+        case "--watch": result.Watch = reader.ReadFlag(); break;
+        case "--platform": result.Platform = reader.ReadValue(); break;
+        case "--declaration": result.Declaration = reader.ReadFlag(); break;
+        case "--allow-scripts": result.AllowScripts = DenoArgsReader.Concat(result.AllowScripts, reader.ReadOptionalArray()); break;
+        case "--allow-import": result.AllowImport = DenoArgsReader.Concat(result.AllowImport, reader.ReadOptionalArray()); break;
+        case "--deny-import": result.DenyImport = DenoArgsReader.Concat(result.DenyImport, reader.ReadOptionalArray()); break;
+        case "--unstable": result.Unstable = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -0,0 +1,38 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--check</c>.</summary>
+public enum CheckOption
+{
+  /// <summary>Passes <c>--check</c> without a value.</summary>
+  Default,
+  /// <summary><c>--check=all</c></summary>
+  All,
+}
+
+internal static class CheckOptionExtensions
+{
+  internal static string ToArg(this CheckOption value) => value switch
+  {
+    CheckOption.Default => "",
+    CheckOption.All => "all",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out CheckOption value)
+  {
+    switch (arg)
+    {
+      case "": value = CheckOption.Default; return true;
+      case "all": value = CheckOption.All; return true;
+      default: value = default; return false;
+    }
+  }
+}
@@ -4,62 +4,137 @@
 // Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
 #nullable enable
 
+using System;
 using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
 using System.Globalization;
 
 namespace DenoHost.Core.Commands;
 
 /// <summary>Options for <c>deno check</c>. Download and type-check without execution.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/check/"/>
 public sealed class CheckOptions
 {
   #region Unstable options
 
   /// <summary>Enable unstable bundle runtime API</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-bundle</c></para>
+  /// <para>Available since Deno 2.5.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-bundle", Usage = "--unstable-bundle", Heading = "Unstable options", Help = "Enable unstable bundle runtime API", Since = "2.5.0")]
   public bool? UnstableBundle { get; set; }
 
-  /// <summary>Enable unstable `Deno.cron` API</summary>
+  /// <summary>Enable unstable <c>Deno.cron</c> API</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-cron</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-cron", Usage = "--unstable-cron", Heading = "Unstable options", Help = "Enable unstable `Deno.cron` API")]
   public bool? UnstableCron { get; set; }
 
   /// <summary>Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-detect-cjs</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-detect-cjs", Usage = "--unstable-detect-cjs", Heading = "Unstable options", Help = "Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases", Since = "2.1.0")]
   public bool? UnstableDetectCjs { get; set; }
 
   /// <summary>Enable unstable KV APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-kv</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-kv", Usage = "--unstable-kv", Heading = "Unstable options", Help = "Enable unstable KV APIs")]
   public bool? UnstableKv { get; set; }
 
   /// <summary>Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lazy-dynamic-imports</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lazy-dynamic-imports", Usage = "--unstable-lazy-dynamic-imports", Heading = "Unstable options", Help = "Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.", Since = "2.3.1")]
   public bool? UnstableLazyDynamicImports { get; set; }
 
   /// <summary>Enable unstable lockfile v5</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lockfile-v5</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lockfile-v5", Usage = "--unstable-lockfile-v5", Heading = "Unstable options", Help = "Enable unstable lockfile v5", Since = "2.3.1")]
   public bool? UnstableLockfileV5 { get; set; }
 
   /// <summary>enable unstable net APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-net</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-net", Usage = "--unstable-net", Heading = "Unstable options", Help = "enable unstable net APIs")]
   public bool? UnstableNet { get; set; }
 
   /// <summary>Enable abort signal in Deno.serve without legacy behavior. This will not abort the server when the request is handled successfully.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-no-legacy-abort</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-no-legacy-abort", Usage = "--unstable-no-legacy-abort", Heading = "Unstable options", Help = "Enable abort signal in Deno.serve without legacy behavior. This will not abort the server when the request is handled successfully.", Since = "2.3.1")]
   public bool? UnstableNoLegacyAbort { get; set; }
 
   /// <summary>Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-npm-lazy-caching</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-npm-lazy-caching", Usage = "--unstable-npm-lazy-caching", Heading = "Unstable options", Help = "Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed", Since = "2.3.1")]
   public bool? UnstableNpmLazyCaching { get; set; }
 
   /// <summary>Enable unstable 'bytes' imports.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-raw-imports</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-raw-imports", Usage = "--unstable-raw-imports", Heading = "Unstable options", Help = "Enable unstable 'bytes' imports.", Since = "2.4.0")]
   public bool? UnstableRawImports { get; set; }
 
   /// <summary>Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sloppy-imports</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-sloppy-imports", Usage = "--unstable-sloppy-imports", Heading = "Unstable options", Help = "Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing")]
   public bool? UnstableSloppyImports { get; set; }
 
   /// <summary>Enable unstable TypeScript Go integration</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-tsgo</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-tsgo", Usage = "--unstable-tsgo", Heading = "Unstable options", Help = "Enable unstable TypeScript Go integration", Since = "2.6.0")]
   public bool? UnstableTsgo { get; set; }
 
   /// <summary>Enable unsafe __proto__ support. This is a security risk.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-unsafe-proto</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-unsafe-proto", Usage = "--unstable-unsafe-proto", Heading = "Unstable options", Help = "Enable unsafe __proto__ support. This is a security risk.")]
   public bool? UnstableUnsafeProto { get; set; }
 
   /// <summary>Enable unstable WebGPU APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-webgpu</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-webgpu", Usage = "--unstable-webgpu", Heading = "Unstable options", Help = "Enable unstable WebGPU APIs")]
   public bool? UnstableWebgpu { get; set; }
 
   /// <summary>Enable unstable Web Worker APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-worker-options</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-worker-options", Usage = "--unstable-worker-options", Heading = "Unstable options", Help = "Enable unstable Web Worker APIs")]
   public bool? UnstableWorkerOptions { get; set; }
 
-  /// <summary>The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead</summary>
+  /// <summary>The <c>--unstable</c> flag has been deprecated. Use granular <c>--unstable-*</c> flags instead</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable", Usage = "--unstable", Heading = "Unstable options", Help = "The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead")]
   public bool? Unstable { get; set; }
 
   #endregion
@@ -67,33 +142,82 @@ public sealed class CheckOptions
   #region Dependency management options
 
   /// <summary>Load import map file from local file or remote URL</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/runtime/manual/basics/import_maps"/></para>
+  /// <para>Usage: <c>--import-map &lt;FILE&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--import-map", Usage = "--import-map <FILE>", Heading = "Dependency management options", Help = "Load import map file from local file or remote URL\nDocs: https://docs.deno.com/runtime/manual/basics/import_maps")]
   public string? ImportMap { get; set; }
 
   /// <summary>Do not resolve remote modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-remote</c></para>
+  /// </remarks>
+  [DenoFlag("--no-remote", Usage = "--no-remote", Heading = "Dependency management options", Help = "Do not resolve remote modules")]
   public bool? NoRemote { get; set; }
 
   /// <summary>Do not resolve npm modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-npm</c></para>
+  /// </remarks>
+  [DenoFlag("--no-npm", Usage = "--no-npm", Heading = "Dependency management options", Help = "Do not resolve npm modules")]
   public bool? NoNpm { get; set; }
 
-  /// <summary>Selects the node_modules directory mode for npm packages (not a path). One of: [38;5;245mauto[39m (create a local node_modules directory and install npm packages into it), [38;5;245mmanual[39m (use the existing local node_modules directory, do not modify it), [38;5;245mnone[39m (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to [38;5;245mauto[39m when the flag is passed without a value.</summary>
+  /// <summary>Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-dir[=&lt;MODE&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--node-modules-dir", Usage = "--node-modules-dir[=<MODE>]", Heading = "Dependency management options", Help = "Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.")]
   public string? NodeModulesDir { get; set; }
 
+  /// <summary>Typed view of <see cref="NodeModulesDir"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesDirOption"/>.</summary>
+  public NodeModulesDirOption? NodeModulesDirOption { get => NodeModulesDir is { } arg && NodeModulesDirOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesDir = value?.ToArg(); }
+
   /// <summary>Sets the linker mode for npm packages (isolated or hoisted)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-linker=&lt;MODE&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--node-modules-linker", Usage = "--node-modules-linker=<MODE>", Heading = "Dependency management options", Help = "Sets the linker mode for npm packages (isolated or hoisted)", Since = "2.8.0")]
   public string? NodeModulesLinker { get; set; }
 
+  /// <summary>Typed view of <see cref="NodeModulesLinker"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesLinkerOption"/>.</summary>
+  public NodeModulesLinkerOption? NodeModulesLinkerOption { get => NodeModulesLinker is { } arg && NodeModulesLinkerOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesLinker = value?.ToArg(); }
+
   /// <summary>Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--vendor[=&lt;vendor&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--vendor", Usage = "--vendor[=<vendor>]", Heading = "Dependency management options", Help = "Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages")]
   public string? Vendor { get; set; }
 
-  /// <summary>Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; [38;5;245mnpm:[39m reloads all npm modules; [38;5;245mnpm:chalk[39m reloads a single npm module; [38;5;245mjsr:@std/http/file-server,jsr:@std/assert/assert-equals[39m reloads specific modules.</summary>
+  /// <summary>Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--reload[=&lt;CACHE_BLOCKLIST&gt;...]</c> (short alias <c>-r</c>)</para>
+  /// </remarks>
+  [DenoFlag("--reload", ShortAlias = "-r", Usage = "--reload[=<CACHE_BLOCKLIST>...]", Heading = "Dependency management options", Help = "Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.")]
   public string[]? Reload { get; set; }
 
   /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")")]
   public string? Lock { get; set; }
 
   /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file")]
   public bool? NoLock { get; set; }
 
   /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date", Since = "2.1.0")]
   public bool? Frozen { get; set; }
 
   #endregion
@@ -101,46 +225,109 @@ public sealed class CheckOptions
   #region General
 
   /// <summary>Use this argument to specify custom conditions for npm package exports. You can also use DENO_CONDITIONS env var.</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/go/conditional-exports"/></para>
+  /// <para>Usage: <c>--conditions &lt;conditions&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--conditions", Usage = "--conditions <conditions>", Heading = "General", Help = "Use this argument to specify custom conditions for npm package exports. You can also use DENO_CONDITIONS env var.\n\nDocs: https://docs.deno.com/go/conditional-exports", Since = "2.4.0")]
   public string? Conditions { get; set; }
 
   /// <summary>Load certificate authority from PEM encoded file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--cert &lt;FILE&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--cert", Usage = "--cert <FILE>", Heading = "General", Help = "Load certificate authority from PEM encoded file")]
   public string? Cert { get; set; }
 
   /// <summary>(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--minimum-dependency-age &lt;minimum-dependency-age&gt;</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--minimum-dependency-age", Usage = "--minimum-dependency-age <minimum-dependency-age>", Heading = "General", Help = "(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)", Since = "2.6.0")]
   public string? MinimumDependencyAge { get; set; }
 
   /// <summary>Disable V8 code cache feature</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-code-cache</c></para>
+  /// <para>Available since Deno 2.2.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-code-cache", Usage = "--no-code-cache", Heading = "General", Help = "Disable V8 code cache feature", Since = "2.2.0")]
   public bool? NoCodeCache { get; set; }
 
   /// <summary>Type-check all code, including remote modules and npm packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--all</c></para>
+  /// </remarks>
+  [DenoFlag("--all", Usage = "--all", Heading = "General", Help = "Type-check all code, including remote modules and npm packages")]
   public bool? All { get; set; }
 
   /// <summary>Type-check code blocks in JSDoc as well as actual code</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--doc</c></para>
+  /// </remarks>
+  [DenoFlag("--doc", Usage = "--doc", Heading = "General", Help = "Type-check code blocks in JSDoc as well as actual code")]
   public bool? Doc { get; set; }
 
   /// <summary>Type-check code blocks in JSDoc and Markdown only</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--doc-only</c></para>
+  /// </remarks>
+  [DenoFlag("--doc-only", Usage = "--doc-only", Heading = "General", Help = "Type-check code blocks in JSDoc and Markdown only")]
   public bool? DocOnly { get; set; }
 
-  /// <summary>Enable type-checking of JavaScript files (equivalent to `compilerOptions.checkJs: true`)</summary>
+  /// <summary>Enable type-checking of JavaScript files (equivalent to <c>compilerOptions.checkJs: true</c>)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--check-js</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--check-js", Usage = "--check-js", Heading = "General", Help = "Enable type-checking of JavaScript files (equivalent to `compilerOptions.checkJs: true`)", Since = "2.7.1")]
   public bool? CheckJs { get; set; }
 
-  /// <summary>Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: [38;5;245mdeno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443[39m</summary>
+  /// <summary>Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-import[=&lt;IP_OR_HOSTNAME&gt;...]</c> (short alias <c>-I</c>)</para>
+  /// </remarks>
+  [DenoFlag("--allow-import", ShortAlias = "-I", Usage = "--allow-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443")]
   public string[]? AllowImport { get; set; }
 
   /// <summary>Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-import[=&lt;IP_OR_HOSTNAME&gt;...]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--deny-import", Usage = "--deny-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.", Since = "2.4.0")]
   public string[]? DenyImport { get; set; }
 
   /// <summary>To see a list of all available flags use --v8-flags=--help</summary>
+  /// <remarks>
+  /// <para>Flags can also be set via the DENO_V8_FLAGS environment variable. Any flags set with this flag are appended after the DENO_V8_FLAGS environment variable</para>
+  /// <para>Usage: <c>--v8-flags[=&lt;V8_FLAGS&gt;...]</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--v8-flags", Usage = "--v8-flags[=<V8_FLAGS>...]", Heading = "General", Help = "To see a list of all available flags use --v8-flags=--help\nFlags can also be set via the DENO_V8_FLAGS environment variable.\nAny flags set with this flag are appended after the DENO_V8_FLAGS environment variable", Since = "2.6.0")]
   public string[]? V8Flags { get; set; }
 
   /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
   public string? EnvFile { get; set; }
 
   #endregion
 
   #region Desktop options
 
-  /// <summary>Type-check using the type definitions for `deno desktop`</summary>
+  /// <summary>Type-check using the type definitions for <c>deno desktop</c></summary>
+  /// <remarks>
+  /// <para>Usage: <c>--desktop</c></para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--desktop", Usage = "--desktop", Heading = "Desktop options", Help = "Type-check using the type definitions for `deno desktop`", Since = "2.9.5")]
   public bool? Desktop { get; set; }
 
   #endregion
@@ -148,17 +335,44 @@ public sealed class CheckOptions
   #region File watching options
 
   /// <summary>Watch for file changes and restart process automatically.</summary>
+  /// <remarks>
+  /// <para>Only local files from entry point module graph are watched.</para>
+  /// <para>Usage: <c>--watch</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--watch", Usage = "--watch", Heading = "File watching options", Help = "Watch for file changes and restart process automatically.\nOnly local files from entry point module graph are watched.", Since = "2.8.0")]
   public bool? Watch { get; set; }
 
   /// <summary>Exclude provided files/patterns from watch mode</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--watch-exclude[=&lt;FILES&gt;...]</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--watch-exclude", Usage = "--watch-exclude[=<FILES>...]", Heading = "File watching options", Help = "Exclude provided files/patterns from watch mode", Since = "2.8.0")]
   public string[]? WatchExclude { get; set; }
 
   /// <summary>Do not clear terminal screen when under watch mode</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-clear-screen</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-clear-screen", Usage = "--no-clear-screen", Heading = "File watching options", Help = "Do not clear terminal screen when under watch mode", Since = "2.8.0")]
   public bool? NoClearScreen { get; set; }
 
   #endregion
 
-  internal string[] ToArgs()
+  /// <summary>Checks for flag combinations <c>deno check</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (NoClearScreen == true && Watch != true) errors.Add("'--no-clear-screen' requires '--watch'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("check", errors);
+  }
+
+  /// <summary>The <c>deno check</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
   {
     var args = new List<string>();
     if (UnstableBundle == true) args.Add("--unstable-bundle");
@@ -183,7 +397,7 @@ public sealed class CheckOptions
     if (NodeModulesLinker is not null) { args.Add("--node-modules-linker"); args.Add(NodeModulesLinker); }
     if (Vendor is not null) { if (Vendor.Length == 0) args.Add("--vendor"); else args.Add(string.Concat("--vendor=", Vendor)); }
     if (Conditions is not null) { args.Add("--conditions"); args.Add(Conditions); }
-    if (Reload is not null) { if (Reload.Length == 0) args.Add("--reload"); else { args.Add("--reload"); args.Add(string.Join(",", Reload)); } }
+    if (Reload is not null) { if (Reload.Length == 0) args.Add("--reload"); else args.Add(string.Concat("--reload=", string.Join(",", Reload))); }
     if (Lock is not null) { if (Lock.Length == 0) args.Add("--lock"); else args.Add(string.Concat("--lock=", Lock)); }
     if (NoLock == true) args.Add("--no-lock");
     if (Frozen.HasValue) args.Add(Frozen.Value ? "--frozen" : "--frozen=false");
@@ -195,14 +409,148 @@ public sealed class CheckOptions
     if (DocOnly == true) args.Add("--doc-only");
     if (CheckJs == true) args.Add("--check-js");
     if (Desktop == true) args.Add("--desktop");
-    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else { args.Add("--allow-import"); args.Add(string.Join(",", AllowImport)); } }
-    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else { args.Add("--deny-import"); args.Add(string.Join(",", DenyImport)); } }
-    if (V8Flags is not null) { if (V8Flags.Length == 0) args.Add("--v8-flags"); else { args.Add("--v8-flags"); args.Add(string.Join(",", V8Flags)); } }
+    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else args.Add(string.Concat("--allow-import=", string.Join(",", AllowImport))); }
+    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else args.Add(string.Concat("--deny-import=", string.Join(",", DenyImport))); }
+    if (V8Flags is not null) { if (V8Flags.Length == 0) args.Add("--v8-flags"); else args.Add(string.Concat("--v8-flags=", string.Join(",", V8Flags))); }
     if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
     if (Watch == true) args.Add("--watch");
-    if (WatchExclude is not null) { if (WatchExclude.Length == 0) args.Add("--watch-exclude"); else { args.Add("--watch-exclude"); args.Add(string.Join(",", WatchExclude)); } }
+    if (WatchExclude is not null) { if (WatchExclude.Length == 0) args.Add("--watch-exclude"); else args.Add(string.Concat("--watch-exclude=", string.Join(",", WatchExclude))); }
     if (NoClearScreen == true) args.Add("--no-clear-screen");
     if (Unstable == true) args.Add("--unstable");
     return [.. args];
   }
+
+  internal bool UsesVersionedFlags =>
+    UnstableBundle == true
+    || UnstableDetectCjs == true
+    || UnstableLazyDynamicImports == true
+    || UnstableLockfileV5 == true
+    || UnstableNoLegacyAbort == true
+    || UnstableNpmLazyCaching == true
+    || UnstableRawImports == true
+    || UnstableTsgo == true
+    || NodeModulesLinker is not null
+    || Conditions is not null
+    || Frozen.HasValue
+    || MinimumDependencyAge is not null
+    || NoCodeCache == true
+    || CheckJs == true
+    || Desktop == true
+    || DenyImport is not null
+    || V8Flags is not null
+    || EnvFile is not null
+    || Watch == true
+    || WatchExclude is not null
+    || NoClearScreen == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (UnstableBundle == true) versionCheck.Check(problems, "--unstable-bundle", "2.5.0", null);
+    if (UnstableDetectCjs == true) versionCheck.Check(problems, "--unstable-detect-cjs", "2.1.0", null);
+    if (UnstableLazyDynamicImports == true) versionCheck.Check(problems, "--unstable-lazy-dynamic-imports", "2.3.1", null);
+    if (UnstableLockfileV5 == true) versionCheck.Check(problems, "--unstable-lockfile-v5", "2.3.1", null);
+    if (UnstableNoLegacyAbort == true) versionCheck.Check(problems, "--unstable-no-legacy-abort", "2.3.1", null);
+    if (UnstableNpmLazyCaching == true) versionCheck.Check(problems, "--unstable-npm-lazy-caching", "2.3.1", null);
+    if (UnstableRawImports == true) versionCheck.Check(problems, "--unstable-raw-imports", "2.4.0", null);
+    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.6.0", null);
+    if (NodeModulesLinker is not null) versionCheck.Check(problems, "--node-modules-linker", "2.8.0", null);
+    if (Conditions is not null) versionCheck.Check(problems, "--conditions", "2.4.0", null);
+    if (Frozen.HasValue) versionCheck.Check(problems, "--frozen", "2.1.0", null);
+    if (MinimumDependencyAge is not null) versionCheck.Check(problems, "--minimum-dependency-age", "2.6.0", null);
+    if (NoCodeCache == true) versionCheck.Check(problems, "--no-code-cache", "2.2.0", null);
+    if (CheckJs == true) versionCheck.Check(problems, "--check-js", "2.7.1", null);
+    if (Desktop == true) versionCheck.Check(problems, "--desktop", "2.9.5", null);
+    if (DenyImport is not null) versionCheck.Check(problems, "--deny-import", "2.4.0", null);
+    if (V8Flags is not null) versionCheck.Check(problems, "--v8-flags", "2.6.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    if (Watch == true) versionCheck.Check(problems, "--watch", "2.8.0", null);
+    if (WatchExclude is not null) versionCheck.Check(problems, "--watch-exclude", "2.8.0", null);
+    if (NoClearScreen == true) versionCheck.Check(problems, "--no-clear-screen", "2.8.0", null);
+    versionCheck.Report("check", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['r'] = "--reload", ['I'] = "--allow-import" };
+
+  /// <summary>Parses a <c>deno check</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CheckOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno check</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CheckOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno check: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno check</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CheckOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno check</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CheckOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new CheckOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--unstable-bundle": result.UnstableBundle = reader.ReadFlag(); break;
+        case "--unstable-cron": result.UnstableCron = reader.ReadFlag(); break;
+        case "--unstable-detect-cjs": result.UnstableDetectCjs = reader.ReadFlag(); break;
+        case "--unstable-kv": result.UnstableKv = reader.ReadFlag(); break;
+        case "--unstable-lazy-dynamic-imports": result.UnstableLazyDynamicImports = reader.ReadFlag(); break;
+        case "--unstable-lockfile-v5": result.UnstableLockfileV5 = reader.ReadFlag(); break;
+        case "--unstable-net": result.UnstableNet = reader.ReadFlag(); break;
+        case "--unstable-no-legacy-abort": result.UnstableNoLegacyAbort = reader.ReadFlag(); break;
+        case "--unstable-npm-lazy-caching": result.UnstableNpmLazyCaching = reader.ReadFlag(); break;
+        case "--unstable-raw-imports": result.UnstableRawImports = reader.ReadFlag(); break;
+        case "--unstable-sloppy-imports": result.UnstableSloppyImports = reader.ReadFlag(); break;
+        case "--unstable-tsgo": result.UnstableTsgo = reader.ReadFlag(); break;
+        case "--unstable-unsafe-proto": result.UnstableUnsafeProto = reader.ReadFlag(); break;
+        case "--unstable-webgpu": result.UnstableWebgpu = reader.ReadFlag(); break;
+        case "--unstable-worker-options": result.UnstableWorkerOptions = reader.ReadFlag(); break;
+        case "--import-map": result.ImportMap = reader.ReadValue(); break;
+        case "--no-remote": result.NoRemote = reader.ReadFlag(); break;
+        case "--no-npm": result.NoNpm = reader.ReadFlag(); break;
+        case "--node-modules-dir": result.NodeModulesDir = reader.ReadOptionalValue(); break;
+        case "--node-modules-linker": result.NodeModulesLinker = reader.ReadValue(); break;
+        case "--vendor": result.Vendor = reader.ReadOptionalValue(); break;
+        case "--conditions": result.Conditions = reader.ReadValue(); break;
+        case "--reload": result.Reload = DenoArgsReader.Concat(result.Reload, reader.ReadOptionalArray()); break;
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--cert": result.Cert = reader.ReadValue(); break;
+        case "--minimum-dependency-age": result.MinimumDependencyAge = reader.ReadValue(); break;
+        case "--no-code-cache": result.NoCodeCache = reader.ReadFlag(); break;
+        case "--all": result.All = reader.ReadFlag(); break;
+        case "--doc": result.Doc = reader.ReadFlag(); break;
+        case "--doc-only": result.DocOnly = reader.ReadFlag(); break;
+        case "--check-js": result.CheckJs = reader.ReadFlag(); break;
+        case "--desktop": result.Desktop = reader.ReadFlag(); break;
+        case "--allow-import": result.AllowImport = DenoArgsReader.Concat(result.AllowImport, reader.ReadOptionalArray()); break;
+        case "--deny-import": result.DenyImport = DenoArgsReader.Concat(result.DenyImport, reader.ReadOptionalArray()); break;
+        case "--v8-flags": result.V8Flags = DenoArgsReader.Concat(result.V8Flags, reader.ReadOptionalArray()); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--watch": result.Watch = reader.ReadFlag(); break;
+        case "--watch-exclude": result.WatchExclude = DenoArgsReader.Concat(result.WatchExclude, reader.ReadOptionalArray()); break;
+        case "--no-clear-screen": result.NoClearScreen = reader.ReadFlag(); break;
+        case "--unstable": result.Unstable = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
 }
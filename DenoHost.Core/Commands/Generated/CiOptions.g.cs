@@ -0,0 +1,318 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno ci</c>. Install dependencies in a clean, reproducible way for CI environments.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/ci/"/>
+public sealed class CiOptions
+{
+  #region Unstable options
+
+  /// <summary>Enable unstable bundle runtime API</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-bundle</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-bundle", Usage = "--unstable-bundle", Heading = "Unstable options", Help = "Enable unstable bundle runtime API", Since = "2.8.0")]
+  public bool? UnstableBundle { get; set; }
+
+  /// <summary>Enable unstable <c>Deno.cron</c> API</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-cron</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-cron", Usage = "--unstable-cron", Heading = "Unstable options", Help = "Enable unstable `Deno.cron` API", Since = "2.8.0")]
+  public bool? UnstableCron { get; set; }
+
+  /// <summary>Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-detect-cjs</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-detect-cjs", Usage = "--unstable-detect-cjs", Heading = "Unstable options", Help = "Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases", Since = "2.8.0")]
+  public bool? UnstableDetectCjs { get; set; }
+
+  /// <summary>Enable unstable KV APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-kv</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-kv", Usage = "--unstable-kv", Heading = "Unstable options", Help = "Enable unstable KV APIs", Since = "2.8.0")]
+  public bool? UnstableKv { get; set; }
+
+  /// <summary>Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lazy-dynamic-imports</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lazy-dynamic-imports", Usage = "--unstable-lazy-dynamic-imports", Heading = "Unstable options", Help = "Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.", Since = "2.8.0")]
+  public bool? UnstableLazyDynamicImports { get; set; }
+
+  /// <summary>Enable unstable lockfile v5</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lockfile-v5</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lockfile-v5", Usage = "--unstable-lockfile-v5", Heading = "Unstable options", Help = "Enable unstable lockfile v5", Since = "2.8.0")]
+  public bool? UnstableLockfileV5 { get; set; }
+
+  /// <summary>enable unstable net APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-net</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-net", Usage = "--unstable-net", Heading = "Unstable options", Help = "enable unstable net APIs", Since = "2.8.0")]
+  public bool? UnstableNet { get; set; }
+
+  /// <summary>Enable abort signal in Deno.serve without legacy behavior. This will not abort the server when the request is handled successfully.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-no-legacy-abort</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-no-legacy-abort", Usage = "--unstable-no-legacy-abort", Heading = "Unstable options", Help = "Enable abort signal in Deno.serve without legacy behavior. This will not abort the server when the request is handled successfully.", Since = "2.8.0")]
+  public bool? UnstableNoLegacyAbort { get; set; }
+
+  /// <summary>Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-npm-lazy-caching</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-npm-lazy-caching", Usage = "--unstable-npm-lazy-caching", Heading = "Unstable options", Help = "Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed", Since = "2.8.0")]
+  public bool? UnstableNpmLazyCaching { get; set; }
+
+  /// <summary>Enable unstable 'bytes' imports.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-raw-imports</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-raw-imports", Usage = "--unstable-raw-imports", Heading = "Unstable options", Help = "Enable unstable 'bytes' imports.", Since = "2.8.0")]
+  public bool? UnstableRawImports { get; set; }
+
+  /// <summary>Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sloppy-imports</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-sloppy-imports", Usage = "--unstable-sloppy-imports", Heading = "Unstable options", Help = "Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing", Since = "2.8.0")]
+  public bool? UnstableSloppyImports { get; set; }
+
+  /// <summary>Enable unstable TypeScript Go integration</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-tsgo</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-tsgo", Usage = "--unstable-tsgo", Heading = "Unstable options", Help = "Enable unstable TypeScript Go integration", Since = "2.8.0")]
+  public bool? UnstableTsgo { get; set; }
+
+  /// <summary>Enable unsafe __proto__ support. This is a security risk.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-unsafe-proto</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-unsafe-proto", Usage = "--unstable-unsafe-proto", Heading = "Unstable options", Help = "Enable unsafe __proto__ support. This is a security risk.", Since = "2.8.0")]
+  public bool? UnstableUnsafeProto { get; set; }
+
+  /// <summary>Enable unstable WebGPU APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-webgpu</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-webgpu", Usage = "--unstable-webgpu", Heading = "Unstable options", Help = "Enable unstable WebGPU APIs", Since = "2.8.0")]
+  public bool? UnstableWebgpu { get; set; }
+
+  /// <summary>Enable unstable Web Worker APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-worker-options</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-worker-options", Usage = "--unstable-worker-options", Heading = "Unstable options", Help = "Enable unstable Web Worker APIs", Since = "2.8.0")]
+  public bool? UnstableWorkerOptions { get; set; }
+
+  /// <summary>The <c>--unstable</c> flag has been deprecated. Use granular <c>--unstable-*</c> flags instead</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable", Usage = "--unstable", Heading = "Unstable options", Help = "The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead", Since = "2.8.0")]
+  public bool? Unstable { get; set; }
+
+  #endregion
+
+  #region General
+
+  /// <summary>Only install production dependencies (excludes devDependencies)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--prod</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--prod", Usage = "--prod", Heading = "General", Help = "Only install production dependencies (excludes devDependencies)", Since = "2.8.0")]
+  public bool? Prod { get; set; }
+
+  /// <summary>Exclude @types/* packages from installation.</summary>
+  /// <remarks>
+  /// <para>Be careful, as it uses a name-based heuristic and may skip packages that ship runtime code.</para>
+  /// <para>Usage: <c>--skip-types</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--skip-types", Usage = "--skip-types", Heading = "General", Help = "Exclude @types/* packages from installation.\nBe careful, as it uses a name-based heuristic and may skip packages that ship runtime code.", Since = "2.8.0")]
+  public bool? SkipTypes { get; set; }
+
+  /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
+  public string? EnvFile { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno ci</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno ci</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (UnstableBundle == true) args.Add("--unstable-bundle");
+    if (UnstableCron == true) args.Add("--unstable-cron");
+    if (UnstableDetectCjs == true) args.Add("--unstable-detect-cjs");
+    if (UnstableKv == true) args.Add("--unstable-kv");
+    if (UnstableLazyDynamicImports == true) args.Add("--unstable-lazy-dynamic-imports");
+    if (UnstableLockfileV5 == true) args.Add("--unstable-lockfile-v5");
+    if (UnstableNet == true) args.Add("--unstable-net");
+    if (UnstableNoLegacyAbort == true) args.Add("--unstable-no-legacy-abort");
+    if (UnstableNpmLazyCaching == true) args.Add("--unstable-npm-lazy-caching");
+    if (UnstableRawImports == true) args.Add("--unstable-raw-imports");
+    if (UnstableSloppyImports == true) args.Add("--unstable-sloppy-imports");
+    if (UnstableTsgo == true) args.Add("--unstable-tsgo");
+    if (UnstableUnsafeProto == true) args.Add("--unstable-unsafe-proto");
+    if (UnstableWebgpu == true) args.Add("--unstable-webgpu");
+    if (UnstableWorkerOptions == true) args.Add("--unstable-worker-options");
+    if (Prod == true) args.Add("--prod");
+    if (SkipTypes == true) args.Add("--skip-types");
+    if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
+    if (Unstable == true) args.Add("--unstable");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    UnstableBundle == true
+    || UnstableCron == true
+    || UnstableDetectCjs == true
+    || UnstableKv == true
+    || UnstableLazyDynamicImports == true
+    || UnstableLockfileV5 == true
+    || UnstableNet == true
+    || UnstableNoLegacyAbort == true
+    || UnstableNpmLazyCaching == true
+    || UnstableRawImports == true
+    || UnstableSloppyImports == true
+    || UnstableTsgo == true
+    || UnstableUnsafeProto == true
+    || UnstableWebgpu == true
+    || UnstableWorkerOptions == true
+    || Prod == true
+    || SkipTypes == true
+    || EnvFile is not null
+    || Unstable == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (UnstableBundle == true) versionCheck.Check(problems, "--unstable-bundle", "2.8.0", null);
+    if (UnstableCron == true) versionCheck.Check(problems, "--unstable-cron", "2.8.0", null);
+    if (UnstableDetectCjs == true) versionCheck.Check(problems, "--unstable-detect-cjs", "2.8.0", null);
+    if (UnstableKv == true) versionCheck.Check(problems, "--unstable-kv", "2.8.0", null);
+    if (UnstableLazyDynamicImports == true) versionCheck.Check(problems, "--unstable-lazy-dynamic-imports", "2.8.0", null);
+    if (UnstableLockfileV5 == true) versionCheck.Check(problems, "--unstable-lockfile-v5", "2.8.0", null);
+    if (UnstableNet == true) versionCheck.Check(problems, "--unstable-net", "2.8.0", null);
+    if (UnstableNoLegacyAbort == true) versionCheck.Check(problems, "--unstable-no-legacy-abort", "2.8.0", null);
+    if (UnstableNpmLazyCaching == true) versionCheck.Check(problems, "--unstable-npm-lazy-caching", "2.8.0", null);
+    if (UnstableRawImports == true) versionCheck.Check(problems, "--unstable-raw-imports", "2.8.0", null);
+    if (UnstableSloppyImports == true) versionCheck.Check(problems, "--unstable-sloppy-imports", "2.8.0", null);
+    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.8.0", null);
+    if (UnstableUnsafeProto == true) versionCheck.Check(problems, "--unstable-unsafe-proto", "2.8.0", null);
+    if (UnstableWebgpu == true) versionCheck.Check(problems, "--unstable-webgpu", "2.8.0", null);
+    if (UnstableWorkerOptions == true) versionCheck.Check(problems, "--unstable-worker-options", "2.8.0", null);
+    if (Prod == true) versionCheck.Check(problems, "--prod", "2.8.0", null);
+    if (SkipTypes == true) versionCheck.Check(problems, "--skip-types", "2.8.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    if (Unstable == true) versionCheck.Check(problems, "--unstable", "2.8.0", null);
+    versionCheck.Report("ci", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new();
+
+  /// <summary>Parses a <c>deno ci</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CiOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno ci</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CiOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno ci: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno ci</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CiOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno ci</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CiOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new CiOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--unstable-bundle": result.UnstableBundle = reader.ReadFlag(); break;
+        case "--unstable-cron": result.UnstableCron = reader.ReadFlag(); break;
+        case "--unstable-detect-cjs": result.UnstableDetectCjs = reader.ReadFlag(); break;
+        case "--unstable-kv": result.UnstableKv = reader.ReadFlag(); break;
+        case "--unstable-lazy-dynamic-imports": result.UnstableLazyDynamicImports = reader.ReadFlag(); break;
+        case "--unstable-lockfile-v5": result.UnstableLockfileV5 = reader.ReadFlag(); break;
+        case "--unstable-net": result.UnstableNet = reader.ReadFlag(); break;
+        case "--unstable-no-legacy-abort": result.UnstableNoLegacyAbort = reader.ReadFlag(); break;
+        case "--unstable-npm-lazy-caching": result.UnstableNpmLazyCaching = reader.ReadFlag(); break;
+        case "--unstable-raw-imports": result.UnstableRawImports = reader.ReadFlag(); break;
+        case "--unstable-sloppy-imports": result.UnstableSloppyImports = reader.ReadFlag(); break;
+        case "--unstable-tsgo": result.UnstableTsgo = reader.ReadFlag(); break;
+        case "--unstable-unsafe-proto": result.UnstableUnsafeProto = reader.ReadFlag(); break;
+        case "--unstable-webgpu": result.UnstableWebgpu = reader.ReadFlag(); break;
+        case "--unstable-worker-options": result.UnstableWorkerOptions = reader.ReadFlag(); break;
+        case "--prod": result.Prod = reader.ReadFlag(); break;
+        case "--skip-types": result.SkipTypes = reader.ReadFlag(); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--unstable": result.Unstable = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
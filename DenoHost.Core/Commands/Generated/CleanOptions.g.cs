@@ -0,0 +1,154 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno clean</c>. Remove the cache directory ($DENO_DIR)</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/clean/"/>
+public sealed class CleanOptions
+{
+  #region General
+
+  /// <summary>Retain cache data needed by the given files</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--except</c> (short alias <c>-e</c>)</para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--except", ShortAlias = "-e", Usage = "--except", Heading = "General", Help = "Retain cache data needed by the given files", Since = "2.3.1")]
+  public bool? Except { get; set; }
+
+  /// <summary>Show what would be removed without performing any actions</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--dry-run</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--dry-run", Usage = "--dry-run", Heading = "General", Help = "Show what would be removed without performing any actions", Since = "2.3.1")]
+  public bool? DryRun { get; set; }
+
+  #endregion
+
+  #region Dependency management options
+
+  /// <summary>Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-dir[=&lt;MODE&gt;]</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--node-modules-dir", Usage = "--node-modules-dir[=<MODE>]", Heading = "Dependency management options", Help = "Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.", Since = "2.3.1")]
+  public string? NodeModulesDir { get; set; }
+
+  /// <summary>Typed view of <see cref="NodeModulesDir"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesDirOption"/>.</summary>
+  public NodeModulesDirOption? NodeModulesDirOption { get => NodeModulesDir is { } arg && NodeModulesDirOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesDir = value?.ToArg(); }
+
+  /// <summary>Sets the linker mode for npm packages (isolated or hoisted)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-linker=&lt;MODE&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--node-modules-linker", Usage = "--node-modules-linker=<MODE>", Heading = "Dependency management options", Help = "Sets the linker mode for npm packages (isolated or hoisted)", Since = "2.8.0")]
+  public string? NodeModulesLinker { get; set; }
+
+  /// <summary>Typed view of <see cref="NodeModulesLinker"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesLinkerOption"/>.</summary>
+  public NodeModulesLinkerOption? NodeModulesLinkerOption { get => NodeModulesLinker is { } arg && NodeModulesLinkerOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesLinker = value?.ToArg(); }
+
+  /// <summary>Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--vendor[=&lt;vendor&gt;]</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--vendor", Usage = "--vendor[=<vendor>]", Heading = "Dependency management options", Help = "Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages", Since = "2.3.1")]
+  public string? Vendor { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno clean</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno clean</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Except == true) args.Add("--except");
+    if (DryRun == true) args.Add("--dry-run");
+    if (NodeModulesDir is not null) { if (NodeModulesDir.Length == 0) args.Add("--node-modules-dir"); else args.Add(string.Concat("--node-modules-dir=", NodeModulesDir)); }
+    if (NodeModulesLinker is not null) { args.Add("--node-modules-linker"); args.Add(NodeModulesLinker); }
+    if (Vendor is not null) { if (Vendor.Length == 0) args.Add("--vendor"); else args.Add(string.Concat("--vendor=", Vendor)); }
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Except == true
+    || DryRun == true
+    || NodeModulesDir is not null
+    || NodeModulesLinker is not null
+    || Vendor is not null;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Except == true) versionCheck.Check(problems, "--except", "2.3.1", null);
+    if (DryRun == true) versionCheck.Check(problems, "--dry-run", "2.3.1", null);
+    if (NodeModulesDir is not null) versionCheck.Check(problems, "--node-modules-dir", "2.3.1", null);
+    if (NodeModulesLinker is not null) versionCheck.Check(problems, "--node-modules-linker", "2.8.0", null);
+    if (Vendor is not null) versionCheck.Check(problems, "--vendor", "2.3.1", null);
+    versionCheck.Report("clean", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['e'] = "--except" };
+
+  /// <summary>Parses a <c>deno clean</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CleanOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno clean</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CleanOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno clean: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno clean</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CleanOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno clean</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CleanOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new CleanOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--except": result.Except = reader.ReadFlag(); break;
+        case "--dry-run": result.DryRun = reader.ReadFlag(); break;
+        case "--node-modules-dir": result.NodeModulesDir = reader.ReadOptionalValue(); break;
+        case "--node-modules-linker": result.NodeModulesLinker = reader.ReadValue(); break;
+        case "--vendor": result.Vendor = reader.ReadOptionalValue(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -4,74 +4,157 @@
 // Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
 #nullable enable
 
+using System;
 using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
 using System.Globalization;
 
 namespace DenoHost.Core.Commands;
 
 /// <summary>Options for <c>deno compile</c>. Compiles the given script into a self contained executable.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/compile/"/>
 public sealed class CompileOptions
 {
   #region Permissions
 
   /// <summary>Allow all permissions.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-all</c> (short alias <c>-A</c>)</para>
+  /// </remarks>
+  [DenoFlag("--allow-all", ShortAlias = "-A", Usage = "--allow-all", Heading = "Permissions", Help = "Allow all permissions.")]
   public bool? AllowAll { get; set; }
 
   /// <summary>Allow read access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-read[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-read", Usage = "--allow-read[=<PATH>...]", Heading = "Permissions", Help = "Allow read access. Empty array = allow all.")]
   public string[]? AllowRead { get; set; }
 
   /// <summary>Deny read access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-read[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-read", Usage = "--deny-read[=<PATH>...]", Heading = "Permissions", Help = "Deny read access.")]
   public string[]? DenyRead { get; set; }
 
   /// <summary>Ignore read permission check.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore-read[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--ignore-read", Usage = "--ignore-read[=<PATH>...]", Heading = "Permissions", Help = "Ignore read permission check.")]
   public string[]? IgnoreRead { get; set; }
 
   /// <summary>Allow write access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-write[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-write", Usage = "--allow-write[=<PATH>...]", Heading = "Permissions", Help = "Allow write access. Empty array = allow all.")]
   public string[]? AllowWrite { get; set; }
 
   /// <summary>Deny write access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-write[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-write", Usage = "--deny-write[=<PATH>...]", Heading = "Permissions", Help = "Deny write access.")]
   public string[]? DenyWrite { get; set; }
 
   /// <summary>Allow import access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-import[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-import", Usage = "--allow-import[=<PATH>...]", Heading = "Permissions", Help = "Allow import access. Empty array = allow all.")]
   public string[]? AllowImport { get; set; }
 
   /// <summary>Deny import access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-import[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-import", Usage = "--deny-import[=<PATH>...]", Heading = "Permissions", Help = "Deny import access.")]
   public string[]? DenyImport { get; set; }
 
   /// <summary>Allow env access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-env[=&lt;VAR&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-env", Usage = "--allow-env[=<VAR>...]", Heading = "Permissions", Help = "Allow env access. Empty array = allow all.")]
   public string[]? AllowEnv { get; set; }
 
   /// <summary>Deny env access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-env[=&lt;VAR&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-env", Usage = "--deny-env[=<VAR>...]", Heading = "Permissions", Help = "Deny env access.")]
   public string[]? DenyEnv { get; set; }
 
   /// <summary>Ignore env permission check.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore-env[=&lt;VAR&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--ignore-env", Usage = "--ignore-env[=<VAR>...]", Heading = "Permissions", Help = "Ignore env permission check.")]
   public string[]? IgnoreEnv { get; set; }
 
   /// <summary>Allow net access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-net[=&lt;HOST&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-net", Usage = "--allow-net[=<HOST>...]", Heading = "Permissions", Help = "Allow net access. Empty array = allow all.")]
   public string[]? AllowNet { get; set; }
 
   /// <summary>Deny net access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-net[=&lt;HOST&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-net", Usage = "--deny-net[=<HOST>...]", Heading = "Permissions", Help = "Deny net access.")]
   public string[]? DenyNet { get; set; }
 
   /// <summary>Allow run access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-run[=&lt;PROGRAM&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-run", Usage = "--allow-run[=<PROGRAM>...]", Heading = "Permissions", Help = "Allow run access. Empty array = allow all.")]
   public string[]? AllowRun { get; set; }
 
   /// <summary>Deny run access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-run[=&lt;PROGRAM&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-run", Usage = "--deny-run[=<PROGRAM>...]", Heading = "Permissions", Help = "Deny run access.")]
   public string[]? DenyRun { get; set; }
 
   /// <summary>Allow ffi access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-ffi[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-ffi", Usage = "--allow-ffi[=<PATH>...]", Heading = "Permissions", Help = "Allow ffi access. Empty array = allow all.")]
   public string[]? AllowFfi { get; set; }
 
   /// <summary>Deny ffi access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-ffi[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-ffi", Usage = "--deny-ffi[=<PATH>...]", Heading = "Permissions", Help = "Deny ffi access.")]
   public string[]? DenyFfi { get; set; }
 
   /// <summary>Allow sys access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-sys[=&lt;API&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-sys", Usage = "--allow-sys[=<API>...]", Heading = "Permissions", Help = "Allow sys access. Empty array = allow all.")]
   public string[]? AllowSys { get; set; }
 
   /// <summary>Deny sys access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-sys[=&lt;API&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-sys", Usage = "--deny-sys[=<API>...]", Heading = "Permissions", Help = "Deny sys access.")]
   public string[]? DenySys { get; set; }
 
   /// <summary>Always throw if required permission was not passed.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-prompt</c></para>
+  /// </remarks>
+  [DenoFlag("--no-prompt", Usage = "--no-prompt", Heading = "Permissions", Help = "Always throw if required permission was not passed.")]
   public bool? NoPrompt { get; set; }
 
   #endregion
@@ -79,51 +162,123 @@ public sealed class CompileOptions
   #region Unstable options
 
   /// <summary>Enable unstable bundle runtime API</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-bundle</c></para>
+  /// <para>Available since Deno 2.5.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-bundle", Usage = "--unstable-bundle", Heading = "Unstable options", Help = "Enable unstable bundle runtime API", Since = "2.5.0")]
   public bool? UnstableBundle { get; set; }
 
-  /// <summary>Enable unstable `Deno.cron` API</summary>
+  /// <summary>Enable unstable <c>Deno.cron</c> API</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-cron</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-cron", Usage = "--unstable-cron", Heading = "Unstable options", Help = "Enable unstable `Deno.cron` API")]
   public bool? UnstableCron { get; set; }
 
   /// <summary>Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-detect-cjs</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-detect-cjs", Usage = "--unstable-detect-cjs", Heading = "Unstable options", Help = "Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases", Since = "2.1.0")]
   public bool? UnstableDetectCjs { get; set; }
 
   /// <summary>Enable unstable KV APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-kv</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-kv", Usage = "--unstable-kv", Heading = "Unstable options", Help = "Enable unstable KV APIs")]
   public bool? UnstableKv { get; set; }
 
   /// <summary>Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lazy-dynamic-imports</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lazy-dynamic-imports", Usage = "--unstable-lazy-dynamic-imports", Heading = "Unstable options", Help = "Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.", Since = "2.3.1")]
   public bool? UnstableLazyDynamicImports { get; set; }
 
   /// <summary>Enable unstable lockfile v5</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lockfile-v5</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lockfile-v5", Usage = "--unstable-lockfile-v5", Heading = "Unstable options", Help = "Enable unstable lockfile v5", Since = "2.3.1")]
   public bool? UnstableLockfileV5 { get; set; }
 
   /// <summary>enable unstable net APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-net</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-net", Usage = "--unstable-net", Heading = "Unstable options", Help = "enable unstable net APIs")]
   public bool? UnstableNet { get; set; }
 
   /// <summary>Enable abort signal in Deno.serve without legacy behavior. This will not abort the server when the request is handled successfully.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-no-legacy-abort</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-no-legacy-abort", Usage = "--unstable-no-legacy-abort", Heading = "Unstable options", Help = "Enable abort signal in Deno.serve without legacy behavior. This will not abort the server when the request is handled successfully.", Since = "2.3.1")]
   public bool? UnstableNoLegacyAbort { get; set; }
 
   /// <summary>Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-npm-lazy-caching</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-npm-lazy-caching", Usage = "--unstable-npm-lazy-caching", Heading = "Unstable options", Help = "Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed", Since = "2.3.1")]
   public bool? UnstableNpmLazyCaching { get; set; }
 
   /// <summary>Enable unstable 'bytes' imports.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-raw-imports</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-raw-imports", Usage = "--unstable-raw-imports", Heading = "Unstable options", Help = "Enable unstable 'bytes' imports.", Since = "2.4.0")]
   public bool? UnstableRawImports { get; set; }
 
   /// <summary>Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sloppy-imports</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-sloppy-imports", Usage = "--unstable-sloppy-imports", Heading = "Unstable options", Help = "Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing")]
   public bool? UnstableSloppyImports { get; set; }
 
   /// <summary>Enable unstable TypeScript Go integration</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-tsgo</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-tsgo", Usage = "--unstable-tsgo", Heading = "Unstable options", Help = "Enable unstable TypeScript Go integration", Since = "2.6.0")]
   public bool? UnstableTsgo { get; set; }
 
   /// <summary>Enable unsafe __proto__ support. This is a security risk.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-unsafe-proto</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-unsafe-proto", Usage = "--unstable-unsafe-proto", Heading = "Unstable options", Help = "Enable unsafe __proto__ support. This is a security risk.")]
   public bool? UnstableUnsafeProto { get; set; }
 
   /// <summary>Enable unstable WebGPU APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-webgpu</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-webgpu", Usage = "--unstable-webgpu", Heading = "Unstable options", Help = "Enable unstable WebGPU APIs")]
   public bool? UnstableWebgpu { get; set; }
 
   /// <summary>Enable unstable Web Worker APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-worker-options</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-worker-options", Usage = "--unstable-worker-options", Heading = "Unstable options", Help = "Enable unstable Web Worker APIs")]
   public bool? UnstableWorkerOptions { get; set; }
 
-  /// <summary>The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead</summary>
+  /// <summary>The <c>--unstable</c> flag has been deprecated. Use granular <c>--unstable-*</c> flags instead</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable", Usage = "--unstable", Heading = "Unstable options", Help = "The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead")]
   public bool? Unstable { get; set; }
 
   #endregion
@@ -131,46 +286,112 @@ public sealed class CompileOptions
   #region Type checking options
 
   /// <summary>Skip type-checking. If the value of "remote" is supplied, diagnostic errors from remote modules will be ignored</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-check[=&lt;NO_CHECK_TYPE&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--no-check", Usage = "--no-check[=<NO_CHECK_TYPE>]", Heading = "Type checking options", Help = "Skip type-checking. If the value of \"remote\" is supplied, diagnostic errors from remote modules will be ignored")]
   public string? NoCheck { get; set; }
 
-  /// <summary>Set type-checking behavior. This subcommand type-checks local modules by default, so passing [38;5;245m--check[39m is redundant; pass [38;5;245m--check=all[39m to also type-check remote modules. Alternatively, use the [38;5;245m'deno check'[39m subcommand.</summary>
+  /// <summary>Typed view of <see cref="NoCheck"/>: <c>null</c> when it is unset or holds a value not in <see cref="NoCheckOption"/>.</summary>
+  public NoCheckOption? NoCheckOption { get => NoCheck is { } arg && NoCheckOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NoCheck = value?.ToArg(); }
+
+  /// <summary>Set type-checking behavior. This subcommand type-checks local modules by default, so passing --check is redundant; pass --check=all to also type-check remote modules. Alternatively, use the 'deno check' subcommand.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--check[=&lt;CHECK_TYPE&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--check", Usage = "--check[=<CHECK_TYPE>]", Heading = "Type checking options", Help = "Set type-checking behavior. This subcommand type-checks local modules by default, so passing --check is redundant; pass --check=all to also type-check remote modules. Alternatively, use the 'deno check' subcommand.")]
   public string? Check { get; set; }
 
+  /// <summary>Typed view of <see cref="Check"/>: <c>null</c> when it is unset or holds a value not in <see cref="CheckOption"/>.</summary>
+  public CheckOption? CheckOption { get => Check is { } arg && CheckOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Check = value?.ToArg(); }
+
   #endregion
 
   #region Dependency management options
 
   /// <summary>Load import map file from local file or remote URL</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/runtime/manual/basics/import_maps"/></para>
+  /// <para>Usage: <c>--import-map &lt;FILE&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--import-map", Usage = "--import-map <FILE>", Heading = "Dependency management options", Help = "Load import map file from local file or remote URL\nDocs: https://docs.deno.com/runtime/manual/basics/import_maps")]
   public string? ImportMap { get; set; }
 
   /// <summary>Do not resolve remote modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-remote</c></para>
+  /// </remarks>
+  [DenoFlag("--no-remote", Usage = "--no-remote", Heading = "Dependency management options", Help = "Do not resolve remote modules")]
   public bool? NoRemote { get; set; }
 
   /// <summary>Do not resolve npm modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-npm</c></para>
+  /// </remarks>
+  [DenoFlag("--no-npm", Usage = "--no-npm", Heading = "Dependency management options", Help = "Do not resolve npm modules")]
   public bool? NoNpm { get; set; }
 
-  /// <summary>Selects the node_modules directory mode for npm packages (not a path). One of: [38;5;245mauto[39m (create a local node_modules directory and install npm packages into it), [38;5;245mmanual[39m (use the existing local node_modules directory, do not modify it), [38;5;245mnone[39m (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to [38;5;245mauto[39m when the flag is passed without a value.</summary>
+  /// <summary>Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-dir[=&lt;MODE&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--node-modules-dir", Usage = "--node-modules-dir[=<MODE>]", Heading = "Dependency management options", Help = "Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.")]
   public string? NodeModulesDir { get; set; }
 
+  /// <summary>Typed view of <see cref="NodeModulesDir"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesDirOption"/>.</summary>
+  public NodeModulesDirOption? NodeModulesDirOption { get => NodeModulesDir is { } arg && NodeModulesDirOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesDir = value?.ToArg(); }
+
   /// <summary>Sets the linker mode for npm packages (isolated or hoisted)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-linker=&lt;MODE&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--node-modules-linker", Usage = "--node-modules-linker=<MODE>", Heading = "Dependency management options", Help = "Sets the linker mode for npm packages (isolated or hoisted)", Since = "2.8.0")]
   public string? NodeModulesLinker { get; set; }
 
+  /// <summary>Typed view of <see cref="NodeModulesLinker"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesLinkerOption"/>.</summary>
+  public NodeModulesLinkerOption? NodeModulesLinkerOption { get => NodeModulesLinker is { } arg && NodeModulesLinkerOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesLinker = value?.ToArg(); }
+
   /// <summary>Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--vendor[=&lt;vendor&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--vendor", Usage = "--vendor[=<vendor>]", Heading = "Dependency management options", Help = "Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages")]
   public string? Vendor { get; set; }
 
-  /// <summary>Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; [38;5;245mnpm:[39m reloads all npm modules; [38;5;245mnpm:chalk[39m reloads a single npm module; [38;5;245mjsr:@std/http/file-server,jsr:@std/assert/assert-equals[39m reloads specific modules.</summary>
+  /// <summary>Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--reload[=&lt;CACHE_BLOCKLIST&gt;...]</c> (short alias <c>-r</c>)</para>
+  /// </remarks>
+  [DenoFlag("--reload", ShortAlias = "-r", Usage = "--reload[=<CACHE_BLOCKLIST>...]", Heading = "Dependency management options", Help = "Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.")]
   public string[]? Reload { get; set; }
 
   /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")")]
   public string? Lock { get; set; }
 
   /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file")]
   public bool? NoLock { get; set; }
 
   /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date")]
   public bool? Frozen { get; set; }
 
   /// <summary>Require that remote dependencies are already cached</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--cached-only</c></para>
+  /// </remarks>
+  [DenoFlag("--cached-only", Usage = "--cached-only", Heading = "Dependency management options", Help = "Require that remote dependencies are already cached")]
   public bool? CachedOnly { get; set; }
 
   #endregion
@@ -178,39 +399,100 @@ public sealed class CompileOptions
   #region General
 
   /// <summary>Use this argument to specify custom conditions for npm package exports. You can also use DENO_CONDITIONS env var.</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/go/conditional-exports"/></para>
+  /// <para>Usage: <c>--conditions &lt;conditions&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--conditions", Usage = "--conditions <conditions>", Heading = "General", Help = "Use this argument to specify custom conditions for npm package exports. You can also use DENO_CONDITIONS env var.\n\nDocs: https://docs.deno.com/go/conditional-exports", Since = "2.4.0")]
   public string? Conditions { get; set; }
 
   /// <summary>Load certificate authority from PEM encoded file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--cert &lt;FILE&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--cert", Usage = "--cert <FILE>", Heading = "General", Help = "Load certificate authority from PEM encoded file")]
   public string? Cert { get; set; }
 
   /// <summary>(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--minimum-dependency-age &lt;minimum-dependency-age&gt;</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--minimum-dependency-age", Usage = "--minimum-dependency-age <minimum-dependency-age>", Heading = "General", Help = "(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)", Since = "2.6.0")]
   public string? MinimumDependencyAge { get; set; }
 
   /// <summary>Allow running npm lifecycle scripts for the given packages</summary>
+  /// <remarks>
+  /// <para>Note: Scripts will only be executed when using a node_modules directory (<c>--node-modules-dir</c>)</para>
+  /// <para>Usage: <c>--allow-scripts[=&lt;PACKAGE&gt;...]</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-scripts", Usage = "--allow-scripts[=<PACKAGE>...]", Heading = "General", Help = "Allow running npm lifecycle scripts for the given packages\nNote: Scripts will only be executed when using a node_modules directory (`--node-modules-dir`)", Since = "2.1.0")]
   public string[]? AllowScripts { get; set; }
 
-  /// <summary>Value of [38;5;245mglobalThis.location[39m used by some web APIs</summary>
+  /// <summary>Value of globalThis.location used by some web APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--location &lt;HREF&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--location", Usage = "--location <HREF>", Heading = "General", Help = "Value of globalThis.location used by some web APIs")]
   public string? Location { get; set; }
 
   /// <summary>To see a list of all available flags use --v8-flags=--help</summary>
+  /// <remarks>
+  /// <para>Flags can also be set via the DENO_V8_FLAGS environment variable. Any flags set with this flag are appended after the DENO_V8_FLAGS environment variable</para>
+  /// <para>Usage: <c>--v8-flags[=&lt;V8_FLAGS&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--v8-flags", Usage = "--v8-flags[=<V8_FLAGS>...]", Heading = "General", Help = "To see a list of all available flags use --v8-flags=--help\nFlags can also be set via the DENO_V8_FLAGS environment variable.\nAny flags set with this flag are appended after the DENO_V8_FLAGS environment variable")]
   public string[]? V8Flags { get; set; }
 
   /// <summary>Set the random number generator seed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--seed &lt;NUMBER&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--seed", Usage = "--seed <NUMBER>", Heading = "General", Help = "Set the random number generator seed")]
   public int? Seed { get; set; }
 
   /// <summary>A list of files that will be executed before the main module</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--preload &lt;FILE&gt;</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--preload", Usage = "--preload <FILE>", Heading = "General", Help = "A list of files that will be executed before the main module", Since = "2.4.0")]
   public string? Preload { get; set; }
 
   /// <summary>A list of CommonJS modules that will be executed before the main module</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--require &lt;FILE&gt;</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--require", Usage = "--require <FILE>", Heading = "General", Help = "A list of CommonJS modules that will be executed before the main module", Since = "2.6.0")]
   public string? Require { get; set; }
 
   /// <summary>Disable V8 code cache feature</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-code-cache</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-code-cache", Usage = "--no-code-cache", Heading = "General", Help = "Disable V8 code cache feature", Since = "2.1.0")]
   public bool? NoCodeCache { get; set; }
 
   /// <summary>Set content type of the supplied file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ext &lt;ext&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--ext", Usage = "--ext <ext>", Heading = "General", Help = "Set content type of the supplied file")]
   public string? Ext { get; set; }
 
+  /// <summary>Typed view of <see cref="Ext"/>: <c>null</c> when it is unset or holds a value not in <see cref="ExtOption"/>.</summary>
+  public ExtOption? ExtOption { get => Ext is { } arg && ExtOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Ext = value?.ToArg(); }
+
   /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.")]
   public string? EnvFile { get; set; }
 
   #endregion
@@ -218,39 +500,106 @@ public sealed class CompileOptions
   #region Compile options
 
   /// <summary>Includes an additional module or file/directory in the compiled executable.</summary>
+  /// <remarks>
+  /// <para>Use this flag if a dynamically imported module or a web worker main module fails to load in the executable or to embed a file or directory in the executable. This flag can be passed multiple times, to include multiple additional modules.</para>
+  /// <para>Usage: <c>--include &lt;include&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--include", Usage = "--include <include>", Heading = "Compile options", Help = "Includes an additional module or file/directory in the compiled executable.\nUse this flag if a dynamically imported module or a web worker main module\nfails to load in the executable or to embed a file or directory in the executable.\nThis flag can be passed multiple times, to include multiple additional modules.")]
   public string? Include { get; set; }
 
   /// <summary>Excludes a file/directory in the compiled executable.</summary>
+  /// <remarks>
+  /// <para>Use this flag to exclude a specific file or directory within the included files. For example, to exclude a certain folder in the bundled node_modules directory.</para>
+  /// <para>Usage: <c>--exclude &lt;exclude&gt;</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--exclude", Usage = "--exclude <exclude>", Heading = "Compile options", Help = "Excludes a file/directory in the compiled executable.\nUse this flag to exclude a specific file or directory within the included files.\nFor example, to exclude a certain folder in the bundled node_modules directory.", Since = "2.3.1")]
   public string? Exclude { get; set; }
 
-  /// <summary>Output file [38;5;245m(defaults to $PWD/&lt;inferred-name&gt;)[39m</summary>
+  /// <summary>Output file (defaults to $PWD/&lt;inferred-name&gt;)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--output &lt;output&gt;</c> (short alias <c>-o</c>)</para>
+  /// </remarks>
+  [DenoFlag("--output", ShortAlias = "-o", Usage = "--output <output>", Heading = "Compile options", Help = "Output file (defaults to $PWD/<inferred-name>)")]
   public string? Output { get; set; }
 
   /// <summary>Target OS architecture</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--target &lt;target&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--target", Usage = "--target <target>", Heading = "Compile options", Help = "Target OS architecture")]
   public string? Target { get; set; }
 
-  /// <summary>JS engine the compiled binary runs on [38;5;245m(quickjs is smaller and experimental, and does not receive the same security updates as v8)[39m</summary>
+  /// <summary>Typed view of <see cref="Target"/>: <c>null</c> when it is unset or holds a value not in <see cref="TargetOption"/>.</summary>
+  public TargetOption? TargetOption { get => Target is { } arg && TargetOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Target = value?.ToArg(); }
+
+  /// <summary>JS engine the compiled binary runs on (quickjs is smaller and experimental, and does not receive the same security updates as v8)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--engine &lt;engine&gt;</c></para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--engine", Usage = "--engine <engine>", Heading = "Compile options", Help = "JS engine the compiled binary runs on (quickjs is smaller and experimental, and does not receive the same security updates as v8)", Since = "2.9.5")]
   public string? Engine { get; set; }
 
+  /// <summary>Typed view of <see cref="Engine"/>: <c>null</c> when it is unset or holds a value not in <see cref="EngineOption"/>.</summary>
+  public EngineOption? EngineOption { get => Engine is { } arg && EngineOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Engine = value?.ToArg(); }
+
   /// <summary>Hide terminal on Windows</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-terminal</c></para>
+  /// </remarks>
+  [DenoFlag("--no-terminal", Usage = "--no-terminal", Heading = "Compile options", Help = "Hide terminal on Windows")]
   public bool? NoTerminal { get; set; }
 
   /// <summary>Set the icon of the executable on Windows (.ico)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--icon &lt;icon&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--icon", Usage = "--icon <icon>", Heading = "Compile options", Help = "Set the icon of the executable on Windows (.ico)")]
   public string? Icon { get; set; }
 
   /// <summary>Create a self-extracting binary that extracts the embedded file system to disk on first run and then runs from there</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--self-extracting</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--self-extracting", Usage = "--self-extracting", Heading = "Compile options", Help = "Create a self-extracting binary that extracts the embedded file system to disk on first run and then runs from there", Since = "2.7.1")]
   public bool? SelfExtracting { get; set; }
 
-  /// <summary>[33mExperimental.[39m Bundle the entrypoint with esbuild before embedding, instead of shipping the whole node_modules tree.</summary>
+  /// <summary>Experimental. Bundle the entrypoint with esbuild before embedding, instead of shipping the whole node_modules tree.</summary>
+  /// <remarks>
+  /// <para>Produces a smaller binary with faster startup, at the cost of dropping dynamic require/import patterns that can't be statically traced.</para>
+  /// <para>Usage: <c>--bundle</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--bundle", Usage = "--bundle", Heading = "Compile options", Help = "Experimental. Bundle the entrypoint with esbuild before embedding, instead of shipping the whole node_modules tree.\nProduces a smaller binary with faster startup, at the cost of dropping dynamic require/import patterns that can't be statically traced.", Since = "2.9.0")]
   public bool? Bundle { get; set; }
 
   /// <summary>Stable identity for the compiled app.</summary>
+  /// <remarks>
+  /// <para>Determines where origin-bound storage such as the default <c>Deno.openKv()</c>, <c>localStorage</c> and <c>caches</c> is persisted (under the platform's app data directory). Defaults to the output file name. Set this to keep storage stable across renames.</para>
+  /// <para>Usage: <c>--app-name &lt;app-name&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--app-name", Usage = "--app-name <app-name>", Heading = "Compile options", Help = "Stable identity for the compiled app.\nDetermines where origin-bound storage such as the default `Deno.openKv()`,\n`localStorage` and `caches` is persisted (under the platform's app data directory).\nDefaults to the output file name. Set this to keep storage stable across renames.", Since = "2.9.0")]
   public string? AppName { get; set; }
 
-  /// <summary>[33mExperimental.[39m Minify the bundled output. Only meaningful with [36m--bundle[39m.</summary>
+  /// <summary>Experimental. Minify the bundled output. Only meaningful with --bundle.</summary>
+  /// <remarks>
+  /// <para>Reduces both the embedded bundle size and runtime memory use, at the cost of less readable stack traces.</para>
+  /// <para>Usage: <c>--minify</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--minify", Usage = "--minify", Heading = "Compile options", Help = "Experimental. Minify the bundled output. Only meaningful with --bundle.\nReduces both the embedded bundle size and runtime memory use, at the cost of less readable stack traces.", Since = "2.9.0")]
   public bool? Minify { get; set; }
 
-  /// <summary>Embed only the npm packages reachable from the module graph (managed npm; no [36mnode_modules[39m directory).</summary>
+  /// <summary>Embed only the npm packages reachable from the module graph (managed npm; no node_modules directory).</summary>
+  /// <remarks>
+  /// <para>Without this flag the full managed npm snapshot from the lockfile / package.json is embedded. Reduces binary size when the lockfile contains packages the entrypoint does not import. Skips packages that are only reached through non-statically-analyzable dynamic imports; pass those with --include npm:&lt;pkg&gt; if needed.</para>
+  /// <para>Usage: <c>--exclude-unused-npm</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--exclude-unused-npm", Usage = "--exclude-unused-npm", Heading = "Compile options", Help = "Embed only the npm packages reachable from the module graph (managed npm; no node_modules directory).\nWithout this flag the full managed npm snapshot from the lockfile / package.json is embedded.\nReduces binary size when the lockfile contains packages the entrypoint does not import.\nSkips packages that are only reached through non-statically-analyzable dynamic imports;\npass those with --include npm:<pkg> if needed.", Since = "2.9.0")]
   public bool? ExcludeUnusedNpm { get; set; }
 
   #endregion
@@ -258,38 +607,74 @@ public sealed class CompileOptions
   #region File watching options
 
   /// <summary>Watch for file changes and restart process automatically.</summary>
+  /// <remarks>
+  /// <para>Only local files from entry point module graph are watched.</para>
+  /// <para>Usage: <c>--watch</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--watch", Usage = "--watch", Heading = "File watching options", Help = "Watch for file changes and restart process automatically.\nOnly local files from entry point module graph are watched.", Since = "2.9.0")]
   public bool? Watch { get; set; }
 
   /// <summary>Exclude provided files/patterns from watch mode</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--watch-exclude[=&lt;FILES&gt;...]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--watch-exclude", Usage = "--watch-exclude[=<FILES>...]", Heading = "File watching options", Help = "Exclude provided files/patterns from watch mode", Since = "2.9.0")]
   public string[]? WatchExclude { get; set; }
 
   /// <summary>Do not clear terminal screen when under watch mode</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-clear-screen</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-clear-screen", Usage = "--no-clear-screen", Heading = "File watching options", Help = "Do not clear terminal screen when under watch mode", Since = "2.9.0")]
   public bool? NoClearScreen { get; set; }
 
   #endregion
 
-  internal string[] ToArgs()
+  /// <summary>Checks for flag combinations <c>deno compile</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Check is not null && NoCheck is not null) errors.Add("'--check' cannot be used with '--no-check'.");
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (AllowAll == true && AllowRead is not null) errors.Add("'--allow-all' cannot be used with '--allow-read'.");
+    if (AllowAll == true && AllowWrite is not null) errors.Add("'--allow-all' cannot be used with '--allow-write'.");
+    if (AllowAll == true && AllowImport is not null) errors.Add("'--allow-all' cannot be used with '--allow-import'.");
+    if (AllowAll == true && AllowEnv is not null) errors.Add("'--allow-all' cannot be used with '--allow-env'.");
+    if (AllowAll == true && AllowNet is not null) errors.Add("'--allow-all' cannot be used with '--allow-net'.");
+    if (AllowAll == true && AllowRun is not null) errors.Add("'--allow-all' cannot be used with '--allow-run'.");
+    if (AllowAll == true && AllowFfi is not null) errors.Add("'--allow-all' cannot be used with '--allow-ffi'.");
+    if (AllowAll == true && AllowSys is not null) errors.Add("'--allow-all' cannot be used with '--allow-sys'.");
+    if (NoClearScreen == true && Watch != true) errors.Add("'--no-clear-screen' requires '--watch'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("compile", errors);
+  }
+
+  /// <summary>The <c>deno compile</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
   {
     var args = new List<string>();
     if (AllowAll == true) args.Add("--allow-all");
-    if (AllowRead is not null) { if (AllowRead.Length == 0) args.Add("--allow-read"); else { args.Add("--allow-read"); args.Add(string.Join(",", AllowRead)); } }
-    if (DenyRead is not null) { if (DenyRead.Length == 0) args.Add("--deny-read"); else { args.Add("--deny-read"); args.Add(string.Join(",", DenyRead)); } }
-    if (IgnoreRead is not null) { if (IgnoreRead.Length == 0) args.Add("--ignore-read"); else { args.Add("--ignore-read"); args.Add(string.Join(",", IgnoreRead)); } }
-    if (AllowWrite is not null) { if (AllowWrite.Length == 0) args.Add("--allow-write"); else { args.Add("--allow-write"); args.Add(string.Join(",", AllowWrite)); } }
-    if (DenyWrite is not null) { if (DenyWrite.Length == 0) args.Add("--deny-write"); else { args.Add("--deny-write"); args.Add(string.Join(",", DenyWrite)); } }
-    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else { args.Add("--allow-import"); args.Add(string.Join(",", AllowImport)); } }
-    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else { args.Add("--deny-import"); args.Add(string.Join(",", DenyImport)); } }
-    if (AllowEnv is not null) { if (AllowEnv.Length == 0) args.Add("--allow-env"); else { args.Add("--allow-env"); args.Add(string.Join(",", AllowEnv)); } }
-    if (DenyEnv is not null) { if (DenyEnv.Length == 0) args.Add("--deny-env"); else { args.Add("--deny-env"); args.Add(string.Join(",", DenyEnv)); } }
-    if (IgnoreEnv is not null) { if (IgnoreEnv.Length == 0) args.Add("--ignore-env"); else { args.Add("--ignore-env"); args.Add(string.Join(",", IgnoreEnv)); } }
-    if (AllowNet is not null) { if (AllowNet.Length == 0) args.Add("--allow-net"); else { args.Add("--allow-net"); args.Add(string.Join(",", AllowNet)); } }
-    if (DenyNet is not null) { if (DenyNet.Length == 0) args.Add("--deny-net"); else { args.Add("--deny-net"); args.Add(string.Join(",", DenyNet)); } }
-    if (AllowRun is not null) { if (AllowRun.Length == 0) args.Add("--allow-run"); else { args.Add("--allow-run"); args.Add(string.Join(",", AllowRun)); } }
-    if (DenyRun is not null) { if (DenyRun.Length == 0) args.Add("--deny-run"); else { args.Add("--deny-run"); args.Add(string.Join(",", DenyRun)); } }
-    if (AllowFfi is not null) { if (AllowFfi.Length == 0) args.Add("--allow-ffi"); else { args.Add("--allow-ffi"); args.Add(string.Join(",", AllowFfi)); } }
-    if (DenyFfi is not null) { if (DenyFfi.Length == 0) args.Add("--deny-ffi"); else { args.Add("--deny-ffi"); args.Add(string.Join(",", DenyFfi)); } }
-    if (AllowSys is not null) { if (AllowSys.Length == 0) args.Add("--allow-sys"); else { args.Add("--allow-sys"); args.Add(string.Join(",", AllowSys)); } }
-    if (DenySys is not null) { if (DenySys.Length == 0) args.Add("--deny-sys"); else { args.Add("--deny-sys"); args.Add(string.Join(",", DenySys)); } }
+    if (AllowRead is not null) { if (AllowRead.Length == 0) args.Add("--allow-read"); else args.Add(string.Concat("--allow-read=", string.Join(",", AllowRead))); }
+    if (DenyRead is not null) { if (DenyRead.Length == 0) args.Add("--deny-read"); else args.Add(string.Concat("--deny-read=", string.Join(",", DenyRead))); }
+    if (IgnoreRead is not null) { if (IgnoreRead.Length == 0) args.Add("--ignore-read"); else args.Add(string.Concat("--ignore-read=", string.Join(",", IgnoreRead))); }
+    if (AllowWrite is not null) { if (AllowWrite.Length == 0) args.Add("--allow-write"); else args.Add(string.Concat("--allow-write=", string.Join(",", AllowWrite))); }
+    if (DenyWrite is not null) { if (DenyWrite.Length == 0) args.Add("--deny-write"); else args.Add(string.Concat("--deny-write=", string.Join(",", DenyWrite))); }
+    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else args.Add(string.Concat("--allow-import=", string.Join(",", AllowImport))); }
+    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else args.Add(string.Concat("--deny-import=", string.Join(",", DenyImport))); }
+    if (AllowEnv is not null) { if (AllowEnv.Length == 0) args.Add("--allow-env"); else args.Add(string.Concat("--allow-env=", string.Join(",", AllowEnv))); }
+    if (DenyEnv is not null) { if (DenyEnv.Length == 0) args.Add("--deny-env"); else args.Add(string.Concat("--deny-env=", string.Join(",", DenyEnv))); }
+    if (IgnoreEnv is not null) { if (IgnoreEnv.Length == 0) args.Add("--ignore-env"); else args.Add(string.Concat("--ignore-env=", string.Join(",", IgnoreEnv))); }
+    if (AllowNet is not null) { if (AllowNet.Length == 0) args.Add("--allow-net"); else args.Add(string.Concat("--allow-net=", string.Join(",", AllowNet))); }
+    if (DenyNet is not null) { if (DenyNet.Length == 0) args.Add("--deny-net"); else args.Add(string.Concat("--deny-net=", string.Join(",", DenyNet))); }
+    if (AllowRun is not null) { if (AllowRun.Length == 0) args.Add("--allow-run"); else args.Add(string.Concat("--allow-run=", string.Join(",", AllowRun))); }
+    if (DenyRun is not null) { if (DenyRun.Length == 0) args.Add("--deny-run"); else args.Add(string.Concat("--deny-run=", string.Join(",", DenyRun))); }
+    if (AllowFfi is not null) { if (AllowFfi.Length == 0) args.Add("--allow-ffi"); else args.Add(string.Concat("--allow-ffi=", string.Join(",", AllowFfi))); }
+    if (DenyFfi is not null) { if (DenyFfi.Length == 0) args.Add("--deny-ffi"); else args.Add(string.Concat("--deny-ffi=", string.Join(",", DenyFfi))); }
+    if (AllowSys is not null) { if (AllowSys.Length == 0) args.Add("--allow-sys"); else args.Add(string.Concat("--allow-sys=", string.Join(",", AllowSys))); }
+    if (DenySys is not null) { if (DenySys.Length == 0) args.Add("--deny-sys"); else args.Add(string.Concat("--deny-sys=", string.Join(",", DenySys))); }
     if (NoPrompt == true) args.Add("--no-prompt");
     if (UnstableBundle == true) args.Add("--unstable-bundle");
     if (UnstableCron == true) args.Add("--unstable-cron");
@@ -314,16 +699,16 @@ public sealed class CompileOptions
     if (NodeModulesLinker is not null) { args.Add("--node-modules-linker"); args.Add(NodeModulesLinker); }
     if (Vendor is not null) { if (Vendor.Length == 0) args.Add("--vendor"); else args.Add(string.Concat("--vendor=", Vendor)); }
     if (Conditions is not null) { args.Add("--conditions"); args.Add(Conditions); }
-    if (Reload is not null) { if (Reload.Length == 0) args.Add("--reload"); else { args.Add("--reload"); args.Add(string.Join(",", Reload)); } }
+    if (Reload is not null) { if (Reload.Length == 0) args.Add("--reload"); else args.Add(string.Concat("--reload=", string.Join(",", Reload))); }
     if (Lock is not null) { if (Lock.Length == 0) args.Add("--lock"); else args.Add(string.Concat("--lock=", Lock)); }
     if (NoLock == true) args.Add("--no-lock");
     if (Frozen.HasValue) args.Add(Frozen.Value ? "--frozen" : "--frozen=false");
     if (Cert is not null) { args.Add("--cert"); args.Add(Cert); }
     if (MinimumDependencyAge is not null) { args.Add("--minimum-dependency-age"); args.Add(MinimumDependencyAge); }
-    if (AllowScripts is not null) { if (AllowScripts.Length == 0) args.Add("--allow-scripts"); else { args.Add("--allow-scripts"); args.Add(string.Join(",", AllowScripts)); } }
+    if (AllowScripts is not null) { if (AllowScripts.Length == 0) args.Add("--allow-scripts"); else args.Add(string.Concat("--allow-scripts=", string.Join(",", AllowScripts))); }
     if (CachedOnly == true) args.Add("--cached-only");
     if (Location is not null) { args.Add("--location"); args.Add(Location); }
-    if (V8Flags is not null) { if (V8Flags.Length == 0) args.Add("--v8-flags"); else { args.Add("--v8-flags"); args.Add(string.Join(",", V8Flags)); } }
+    if (V8Flags is not null) { if (V8Flags.Length == 0) args.Add("--v8-flags"); else args.Add(string.Concat("--v8-flags=", string.Join(",", V8Flags))); }
     if (Seed.HasValue) { args.Add("--seed"); args.Add(Seed.Value.ToString(CultureInfo.InvariantCulture)); }
     if (Preload is not null) { args.Add("--preload"); args.Add(Preload); }
     if (Require is not null) { args.Add("--require"); args.Add(Require); }
@@ -342,11 +727,187 @@ public sealed class CompileOptions
     if (Minify == true) args.Add("--minify");
     if (ExcludeUnusedNpm == true) args.Add("--exclude-unused-npm");
     if (Watch == true) args.Add("--watch");
-    if (WatchExclude is not null) { if (WatchExclude.Length == 0) args.Add("--watch-exclude"); else { args.Add("--watch-exclude"); args.Add(string.Join(",", WatchExclude)); } }
+    if (WatchExclude is not null) { if (WatchExclude.Length == 0) args.Add("--watch-exclude"); else args.Add(string.Concat("--watch-exclude=", string.Join(",", WatchExclude))); }
     if (NoClearScreen == true) args.Add("--no-clear-screen");
     if (Ext is not null) { args.Add("--ext"); args.Add(Ext); }
     if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
     if (Unstable == true) args.Add("--unstable");
     return [.. args];
   }
+
+  internal bool UsesVersionedFlags =>
+    UnstableBundle == true
+    || UnstableDetectCjs == true
+    || UnstableLazyDynamicImports == true
+    || UnstableLockfileV5 == true
+    || UnstableNoLegacyAbort == true
+    || UnstableNpmLazyCaching == true
+    || UnstableRawImports == true
+    || UnstableTsgo == true
+    || NodeModulesLinker is not null
+    || Conditions is not null
+    || MinimumDependencyAge is not null
+    || AllowScripts is not null
+    || Preload is not null
+    || Require is not null
+    || Exclude is not null
+    || Engine is not null
+    || NoCodeCache == true
+    || SelfExtracting == true
+    || Bundle == true
+    || AppName is not null
+    || Minify == true
+    || ExcludeUnusedNpm == true
+    || Watch == true
+    || WatchExclude is not null
+    || NoClearScreen == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (UnstableBundle == true) versionCheck.Check(problems, "--unstable-bundle", "2.5.0", null);
+    if (UnstableDetectCjs == true) versionCheck.Check(problems, "--unstable-detect-cjs", "2.1.0", null);
+    if (UnstableLazyDynamicImports == true) versionCheck.Check(problems, "--unstable-lazy-dynamic-imports", "2.3.1", null);
+    if (UnstableLockfileV5 == true) versionCheck.Check(problems, "--unstable-lockfile-v5", "2.3.1", null);
+    if (UnstableNoLegacyAbort == true) versionCheck.Check(problems, "--unstable-no-legacy-abort", "2.3.1", null);
+    if (UnstableNpmLazyCaching == true) versionCheck.Check(problems, "--unstable-npm-lazy-caching", "2.3.1", null);
+    if (UnstableRawImports == true) versionCheck.Check(problems, "--unstable-raw-imports", "2.4.0", null);
+    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.6.0", null);
+    if (NodeModulesLinker is not null) versionCheck.Check(problems, "--node-modules-linker", "2.8.0", null);
+    if (Conditions is not null) versionCheck.Check(problems, "--conditions", "2.4.0", null);
+    if (MinimumDependencyAge is not null) versionCheck.Check(problems, "--minimum-dependency-age", "2.6.0", null);
+    if (AllowScripts is not null) versionCheck.Check(problems, "--allow-scripts", "2.1.0", null);
+    if (Preload is not null) versionCheck.Check(problems, "--preload", "2.4.0", null);
+    if (Require is not null) versionCheck.Check(problems, "--require", "2.6.0", null);
+    if (Exclude is not null) versionCheck.Check(problems, "--exclude", "2.3.1", null);
+    if (Engine is not null) versionCheck.Check(problems, "--engine", "2.9.5", null);
+    if (NoCodeCache == true) versionCheck.Check(problems, "--no-code-cache", "2.1.0", null);
+    if (SelfExtracting == true) versionCheck.Check(problems, "--self-extracting", "2.7.1", null);
+    if (Bundle == true) versionCheck.Check(problems, "--bundle", "2.9.0", null);
+    if (AppName is not null) versionCheck.Check(problems, "--app-name", "2.9.0", null);
+    if (Minify == true) versionCheck.Check(problems, "--minify", "2.9.0", null);
+    if (ExcludeUnusedNpm == true) versionCheck.Check(problems, "--exclude-unused-npm", "2.9.0", null);
+    if (Watch == true) versionCheck.Check(problems, "--watch", "2.9.0", null);
+    if (WatchExclude is not null) versionCheck.Check(problems, "--watch-exclude", "2.9.0", null);
+    if (NoClearScreen == true) versionCheck.Check(problems, "--no-clear-screen", "2.9.0", null);
+    versionCheck.Report("compile", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['A'] = "--allow-all", ['r'] = "--reload", ['o'] = "--output" };
+
+  /// <summary>Parses a <c>deno compile</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CompileOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno compile</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">The entry point and every token after it, plus anything after <c>--</c>.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CompileOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno compile: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno compile</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CompileOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno compile</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CompileOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new CompileOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: true);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--allow-all": result.AllowAll = reader.ReadFlag(); break;
+        case "--allow-read": result.AllowRead = DenoArgsReader.Concat(result.AllowRead, reader.ReadOptionalArray()); break;
+        case "--deny-read": result.DenyRead = DenoArgsReader.Concat(result.DenyRead, reader.ReadOptionalArray()); break;
+        case "--ignore-read": result.IgnoreRead = DenoArgsReader.Concat(result.IgnoreRead, reader.ReadOptionalArray()); break;
+        case "--allow-write": result.AllowWrite = DenoArgsReader.Concat(result.AllowWrite, reader.ReadOptionalArray()); break;
+        case "--deny-write": result.DenyWrite = DenoArgsReader.Concat(result.DenyWrite, reader.ReadOptionalArray()); break;
+        case "--allow-import": result.AllowImport = DenoArgsReader.Concat(result.AllowImport, reader.ReadOptionalArray()); break;
+        case "--deny-import": result.DenyImport = DenoArgsReader.Concat(result.DenyImport, reader.ReadOptionalArray()); break;
+        case "--allow-env": result.AllowEnv = DenoArgsReader.Concat(result.AllowEnv, reader.ReadOptionalArray()); break;
+        case "--deny-env": result.DenyEnv = DenoArgsReader.Concat(result.DenyEnv, reader.ReadOptionalArray()); break;
+        case "--ignore-env": result.IgnoreEnv = DenoArgsReader.Concat(result.IgnoreEnv, reader.ReadOptionalArray()); break;
+        case "--allow-net": result.AllowNet = DenoArgsReader.Concat(result.AllowNet, reader.ReadOptionalArray()); break;
+        case "--deny-net": result.DenyNet = DenoArgsReader.Concat(result.DenyNet, reader.ReadOptionalArray()); break;
+        case "--allow-run": result.AllowRun = DenoArgsReader.Concat(result.AllowRun, reader.ReadOptionalArray()); break;
+        case "--deny-run": result.DenyRun = DenoArgsReader.Concat(result.DenyRun, reader.ReadOptionalArray()); break;
+        case "--allow-ffi": result.AllowFfi = DenoArgsReader.Concat(result.AllowFfi, reader.ReadOptionalArray()); break;
+        case "--deny-ffi": result.DenyFfi = DenoArgsReader.Concat(result.DenyFfi, reader.ReadOptionalArray()); break;
+        case "--allow-sys": result.AllowSys = DenoArgsReader.Concat(result.AllowSys, reader.ReadOptionalArray()); break;
+        case "--deny-sys": result.DenySys = DenoArgsReader.Concat(result.DenySys, reader.ReadOptionalArray()); break;
+        case "--no-prompt": result.NoPrompt = reader.ReadFlag(); break;
+        case "--unstable-bundle": result.UnstableBundle = reader.ReadFlag(); break;
+        case "--unstable-cron": result.UnstableCron = reader.ReadFlag(); break;
+        case "--unstable-detect-cjs": result.UnstableDetectCjs = reader.ReadFlag(); break;
+        case "--unstable-kv": result.UnstableKv = reader.ReadFlag(); break;
+        case "--unstable-lazy-dynamic-imports": result.UnstableLazyDynamicImports = reader.ReadFlag(); break;
+        case "--unstable-lockfile-v5": result.UnstableLockfileV5 = reader.ReadFlag(); break;
+        case "--unstable-net": result.UnstableNet = reader.ReadFlag(); break;
+        case "--unstable-no-legacy-abort": result.UnstableNoLegacyAbort = reader.ReadFlag(); break;
+        case "--unstable-npm-lazy-caching": result.UnstableNpmLazyCaching = reader.ReadFlag(); break;
+        case "--unstable-raw-imports": result.UnstableRawImports = reader.ReadFlag(); break;
+        case "--unstable-sloppy-imports": result.UnstableSloppyImports = reader.ReadFlag(); break;
+        case "--unstable-tsgo": result.UnstableTsgo = reader.ReadFlag(); break;
+        case "--unstable-unsafe-proto": result.UnstableUnsafeProto = reader.ReadFlag(); break;
+        case "--unstable-webgpu": result.UnstableWebgpu = reader.ReadFlag(); break;
+        case "--unstable-worker-options": result.UnstableWorkerOptions = reader.ReadFlag(); break;
+        case "--no-check": result.NoCheck = reader.ReadOptionalValue(); break;
+        case "--import-map": result.ImportMap = reader.ReadValue(); break;
+        case "--no-remote": result.NoRemote = reader.ReadFlag(); break;
+        case "--no-npm": result.NoNpm = reader.ReadFlag(); break;
+        case "--node-modules-dir": result.NodeModulesDir = reader.ReadOptionalValue(); break;
+        case "--node-modules-linker": result.NodeModulesLinker = reader.ReadValue(); break;
+        case "--vendor": result.Vendor = reader.ReadOptionalValue(); break;
+        case "--conditions": result.Conditions = reader.ReadValue(); break;
+        case "--reload": result.Reload = DenoArgsReader.Concat(result.Reload, reader.ReadOptionalArray()); break;
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--cert": result.Cert = reader.ReadValue(); break;
+        case "--minimum-dependency-age": result.MinimumDependencyAge = reader.ReadValue(); break;
+        case "--allow-scripts": result.AllowScripts = DenoArgsReader.Concat(result.AllowScripts, reader.ReadOptionalArray()); break;
+        case "--cached-only": result.CachedOnly = reader.ReadFlag(); break;
+        case "--location": result.Location = reader.ReadValue(); break;
+        case "--v8-flags": result.V8Flags = DenoArgsReader.Concat(result.V8Flags, reader.ReadOptionalArray()); break;
+        case "--seed": result.Seed = reader.ReadInt32(); break;
+        case "--preload": result.Preload = reader.ReadValue(); break;
+        case "--require": result.Require = reader.ReadValue(); break;
+        case "--check": result.Check = reader.ReadOptionalValue(); break;
+        case "--include": result.Include = reader.ReadValue(); break;
+        case "--exclude": result.Exclude = reader.ReadValue(); break;
+        case "--output": result.Output = reader.ReadValue(); break;
+        case "--target": result.Target = reader.ReadValue(); break;
+        case "--engine": result.Engine = reader.ReadValue(); break;
+        case "--no-code-cache": result.NoCodeCache = reader.ReadFlag(); break;
+        case "--no-terminal": result.NoTerminal = reader.ReadFlag(); break;
+        case "--icon": result.Icon = reader.ReadValue(); break;
+        case "--self-extracting": result.SelfExtracting = reader.ReadFlag(); break;
+        case "--bundle": result.Bundle = reader.ReadFlag(); break;
+        case "--app-name": result.AppName = reader.ReadValue(); break;
+        case "--minify": result.Minify = reader.ReadFlag(); break;
+        case "--exclude-unused-npm": result.ExcludeUnusedNpm = reader.ReadFlag(); break;
+        case "--watch": result.Watch = reader.ReadFlag(); break;
+        case "--watch-exclude": result.WatchExclude = DenoArgsReader.Concat(result.WatchExclude, reader.ReadOptionalArray()); break;
+        case "--no-clear-screen": result.NoClearScreen = reader.ReadFlag(); break;
+        case "--ext": result.Ext = reader.ReadValue(); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--unstable": result.Unstable = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
 }
@@ -0,0 +1,96 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno completions</c>. Output shell completion script to standard output.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/completions/"/>
+public sealed class CompletionsOptions
+{
+  #region General
+
+  /// <summary>Generate dynamic completions for the given shell (unstable), currently this only provides available tasks for <c>deno task</c>.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--dynamic</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--dynamic", Usage = "--dynamic", Heading = "General", Help = "Generate dynamic completions for the given shell (unstable), currently this only provides available tasks for `deno task`.", Since = "2.6.0")]
+  public bool? Dynamic { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno completions</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno completions</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Dynamic == true) args.Add("--dynamic");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Dynamic == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Dynamic == true) versionCheck.Check(problems, "--dynamic", "2.6.0", null);
+    versionCheck.Report("completions", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new();
+
+  /// <summary>Parses a <c>deno completions</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CompletionsOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno completions</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CompletionsOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno completions: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno completions</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CompletionsOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno completions</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CompletionsOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new CompletionsOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--dynamic": result.Dynamic = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -0,0 +1,46 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--compress</c>.</summary>
+public enum CompressOption
+{
+  /// <summary>Passes <c>--compress</c> without a value.</summary>
+  Default,
+  /// <summary><c>--compress=xz</c></summary>
+  Xz,
+  /// <summary><c>--compress=lzma</c></summary>
+  Lzma,
+  /// <summary><c>--compress=zstd</c></summary>
+  Zstd,
+}
+
+internal static class CompressOptionExtensions
+{
+  internal static string ToArg(this CompressOption value) => value switch
+  {
+    CompressOption.Default => "",
+    CompressOption.Xz => "xz",
+    CompressOption.Lzma => "lzma",
+    CompressOption.Zstd => "zstd",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out CompressOption value)
+  {
+    switch (arg)
+    {
+      case "": value = CompressOption.Default; return true;
+      case "xz": value = CompressOption.Xz; return true;
+      case "lzma": value = CompressOption.Lzma; return true;
+      case "zstd": value = CompressOption.Zstd; return true;
+      default: value = default; return false;
+    }
+  }
+}
@@ -0,0 +1,161 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno coverage</c>. Print coverage reports from coverage profiles.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/coverage/"/>
+public sealed class CoverageOptions
+{
+  #region General
+
+  /// <summary>Ignore coverage files</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore=&lt;ignore&gt;...</c></para>
+  /// </remarks>
+  [DenoFlag("--ignore", Usage = "--ignore=<ignore>...", Heading = "General", Help = "Ignore coverage files")]
+  public string[]? Ignore { get; set; }
+
+  /// <summary>Include source files in the report</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--include=&lt;regex&gt;...</c></para>
+  /// </remarks>
+  [DenoFlag("--include", Usage = "--include=<regex>...", Heading = "General", Help = "Include source files in the report")]
+  public string[]? Include { get; set; }
+
+  /// <summary>Exclude source files from the report</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--exclude=&lt;regex&gt;...</c></para>
+  /// </remarks>
+  [DenoFlag("--exclude", Usage = "--exclude=<regex>...", Heading = "General", Help = "Exclude source files from the report")]
+  public string[]? Exclude { get; set; }
+
+  /// <summary>Output coverage report in lcov format</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lcov</c></para>
+  /// </remarks>
+  [DenoFlag("--lcov", Usage = "--lcov", Heading = "General", Help = "Output coverage report in lcov format")]
+  public bool? Lcov { get; set; }
+
+  /// <summary>Exports the coverage report in lcov format to the given file.</summary>
+  /// <remarks>
+  /// <para>If no --output arg is specified then the report is written to stdout.</para>
+  /// <para>Usage: <c>--output=&lt;output&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--output", Usage = "--output=<output>", Heading = "General", Help = "Exports the coverage report in lcov format to the given file.\nIf no --output arg is specified then the report is written to stdout.")]
+  public string? Output { get; set; }
+
+  /// <summary>Output coverage report in HTML format in the given directory</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--html</c></para>
+  /// </remarks>
+  [DenoFlag("--html", Usage = "--html", Heading = "General", Help = "Output coverage report in HTML format in the given directory")]
+  public bool? Html { get; set; }
+
+  /// <summary>Output coverage report in detailed format in the terminal</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--detailed</c></para>
+  /// </remarks>
+  [DenoFlag("--detailed", Usage = "--detailed", Heading = "General", Help = "Output coverage report in detailed format in the terminal")]
+  public bool? Detailed { get; set; }
+
+  /// <summary>Fail if coverage is below this percentage (0-100), applied to line, branch, and function coverage.</summary>
+  /// <remarks>
+  /// <para>Per-metric thresholds can be set in deno.json under "coverage": { "thresholds": { ... } }. The flag takes precedence.</para>
+  /// <para>Usage: <c>--threshold=&lt;PERCENT&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--threshold", Usage = "--threshold=<PERCENT>", Heading = "General", Help = "Fail if coverage is below this percentage (0-100), applied to line, branch, and function coverage.\nPer-metric thresholds can be set in deno.json under \"coverage\": { \"thresholds\": { ... } }. The flag takes precedence.", Since = "2.9.0")]
+  public int? Threshold { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno coverage</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno coverage</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Ignore is { Length: > 0 }) { args.Add("--ignore"); args.Add(string.Join(",", Ignore)); }
+    if (Include is { Length: > 0 }) { args.Add("--include"); args.Add(string.Join(",", Include)); }
+    if (Exclude is { Length: > 0 }) { args.Add("--exclude"); args.Add(string.Join(",", Exclude)); }
+    if (Lcov == true) args.Add("--lcov");
+    if (Output is not null) { args.Add("--output"); args.Add(Output); }
+    if (Html == true) args.Add("--html");
+    if (Detailed == true) args.Add("--detailed");
+    if (Threshold.HasValue) { args.Add("--threshold"); args.Add(Threshold.Value.ToString(CultureInfo.InvariantCulture)); }
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Threshold.HasValue;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Threshold.HasValue) versionCheck.Check(problems, "--threshold", "2.9.0", null);
+    versionCheck.Report("coverage", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new();
+
+  /// <summary>Parses a <c>deno coverage</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CoverageOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno coverage</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CoverageOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno coverage: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno coverage</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CoverageOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno coverage</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CoverageOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new CoverageOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--ignore": result.Ignore = DenoArgsReader.Concat(result.Ignore, reader.ReadArray()); break;
+        case "--include": result.Include = DenoArgsReader.Concat(result.Include, reader.ReadArray()); break;
+        case "--exclude": result.Exclude = DenoArgsReader.Concat(result.Exclude, reader.ReadArray()); break;
+        case "--lcov": result.Lcov = reader.ReadFlag(); break;
+        case "--output": result.Output = reader.ReadValue(); break;
+        case "--html": result.Html = reader.ReadFlag(); break;
+        case "--detailed": result.Detailed = reader.ReadFlag(); break;
+        case "--threshold": result.Threshold = reader.ReadInt32(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
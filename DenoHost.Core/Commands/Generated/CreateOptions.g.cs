@@ -0,0 +1,120 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno create</c>. scaffolds a project from a package</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/create/"/>
+public sealed class CreateOptions
+{
+  #region General
+
+  /// <summary>Treat unprefixed package names as npm packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--npm</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--npm", Usage = "--npm", Heading = "General", Help = "Treat unprefixed package names as npm packages", Since = "2.7.1")]
+  public bool? Npm { get; set; }
+
+  /// <summary>Treat unprefixed package names as JSR packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--jsr</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--jsr", Usage = "--jsr", Heading = "General", Help = "Treat unprefixed package names as JSR packages", Since = "2.7.1")]
+  public bool? Jsr { get; set; }
+
+  /// <summary>Bypass the prompt and run with full permissions</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--yes</c> (short alias <c>-y</c>)</para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--yes", ShortAlias = "-y", Usage = "--yes", Heading = "General", Help = "Bypass the prompt and run with full permissions", Since = "2.7.1")]
+  public bool? Yes { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno create</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno create</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Npm == true) args.Add("--npm");
+    if (Jsr == true) args.Add("--jsr");
+    if (Yes == true) args.Add("--yes");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Npm == true
+    || Jsr == true
+    || Yes == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Npm == true) versionCheck.Check(problems, "--npm", "2.7.1", null);
+    if (Jsr == true) versionCheck.Check(problems, "--jsr", "2.7.1", null);
+    if (Yes == true) versionCheck.Check(problems, "--yes", "2.7.1", null);
+    versionCheck.Report("create", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['y'] = "--yes" };
+
+  /// <summary>Parses a <c>deno create</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CreateOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno create</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static CreateOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno create: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno create</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CreateOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno create</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out CreateOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new CreateOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--npm": result.Npm = reader.ReadFlag(); break;
+        case "--jsr": result.Jsr = reader.ReadFlag(); break;
+        case "--yes": result.Yes = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
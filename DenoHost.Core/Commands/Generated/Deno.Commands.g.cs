@@ -15,186 +15,989 @@ namespace DenoHost.Core;
 public static partial class Deno
 {
   /// <summary>Executes <c>deno run</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/run/"/>
   public static Task Run(string script, RunOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
     => Run<string>(script, options, baseOptions, cancellationToken);
 
   /// <summary>Executes <c>deno run</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Run<T>(string script, RunOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/run/"/>
+  public static async Task<T> Run<T>(string script, RunOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
     ArgumentException.ThrowIfNullOrWhiteSpace(script);
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
     args.Add(script);
-    return ExecuteCore<T>("run", [.. args], baseOptions, null, null, cancellationToken);
+    return await ExecuteCore<T>("run", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
-  /// <summary>Executes <c>deno eval</c>.</summary>
-  public static Task Eval(string code, EvalOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
-    => Eval<string>(code, options, baseOptions, cancellationToken);
+  /// <summary>Executes <c>deno watch</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/watch/"/>
+  public static Task Watch(string script, WatchOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Watch<string>(script, options, baseOptions, cancellationToken);
 
-  /// <summary>Executes <c>deno eval</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Eval<T>(string code, EvalOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <summary>Executes <c>deno watch</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/watch/"/>
+  public static async Task<T> Watch<T>(string script, WatchOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
-    ArgumentException.ThrowIfNullOrWhiteSpace(code);
+    ArgumentException.ThrowIfNullOrWhiteSpace(script);
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
-    args.Add(code);
-    return ExecuteCore<T>("eval", [.. args], baseOptions, null, null, cancellationToken);
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.Add(script);
+    return await ExecuteCore<T>("watch", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
-  /// <summary>Executes <c>deno test</c>.</summary>
-  public static Task Test(string[]? files = null, TestOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
-    => Test<string>(files, options, baseOptions, cancellationToken);
+  /// <summary>Executes <c>deno serve</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/serve/"/>
+  public static Task Serve(string script, ServeOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Serve<string>(script, options, baseOptions, cancellationToken);
 
-  /// <summary>Executes <c>deno test</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Test<T>(string[]? files = null, TestOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <summary>Executes <c>deno serve</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/serve/"/>
+  public static async Task<T> Serve<T>(string script, ServeOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
+    ArgumentException.ThrowIfNullOrWhiteSpace(script);
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
-    if (files != null) args.AddRange(files);
-    return ExecuteCore<T>("test", [.. args], baseOptions, null, null, cancellationToken);
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.Add(script);
+    return await ExecuteCore<T>("serve", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno add</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/add/"/>
+  public static Task Add(string[] packages, AddOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Add<string>(packages, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno add</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/add/"/>
+  public static async Task<T> Add<T>(string[] packages, AddOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    ArgumentNullException.ThrowIfNull(packages);
+    if (packages.Length == 0) throw new ArgumentException("At least one value is required.", nameof(packages));
+    if (Array.Exists(packages, string.IsNullOrWhiteSpace)) throw new ArgumentException("Values cannot be null or whitespace.", nameof(packages));
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.AddRange(packages);
+    return await ExecuteCore<T>("add", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno audit</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/audit/"/>
+  public static Task Audit(AuditOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Audit<string>(options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno audit</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/audit/"/>
+  public static async Task<T> Audit<T>(AuditOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+
+    return await ExecuteCore<T>("audit", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno remove</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/remove/"/>
+  public static Task Remove(string[] packages, RemoveOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Remove<string>(packages, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno remove</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/remove/"/>
+  public static async Task<T> Remove<T>(string[] packages, RemoveOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    ArgumentNullException.ThrowIfNull(packages);
+    if (packages.Length == 0) throw new ArgumentException("At least one value is required.", nameof(packages));
+    if (Array.Exists(packages, string.IsNullOrWhiteSpace)) throw new ArgumentException("Values cannot be null or whitespace.", nameof(packages));
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.AddRange(packages);
+    return await ExecuteCore<T>("remove", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
   /// <summary>Executes <c>deno bench</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/bench/"/>
   public static Task Bench(string[]? files = null, BenchOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
     => Bench<string>(files, options, baseOptions, cancellationToken);
 
   /// <summary>Executes <c>deno bench</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Bench<T>(string[]? files = null, BenchOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/bench/"/>
+  public static async Task<T> Bench<T>(string[]? files = null, BenchOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
     if (files != null) args.AddRange(files);
-    return ExecuteCore<T>("bench", [.. args], baseOptions, null, null, cancellationToken);
+    return await ExecuteCore<T>("bench", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
-  /// <summary>Executes <c>deno fmt</c>.</summary>
-  public static Task Fmt(string[]? files = null, FmtOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
-    => Fmt<string>(files, options, baseOptions, cancellationToken);
+  /// <summary>Executes <c>deno bundle</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/bundle/"/>
+  public static Task Bundle(string[]? files = null, BundleOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Bundle<string>(files, options, baseOptions, cancellationToken);
 
-  /// <summary>Executes <c>deno fmt</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Fmt<T>(string[]? files = null, FmtOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <summary>Executes <c>deno bundle</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/bundle/"/>
+  public static async Task<T> Bundle<T>(string[]? files = null, BundleOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
     if (files != null) args.AddRange(files);
-    return ExecuteCore<T>("fmt", [.. args], baseOptions, null, null, cancellationToken);
+    return await ExecuteCore<T>("bundle", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
-  /// <summary>Executes <c>deno lint</c>.</summary>
-  public static Task Lint(string[]? files = null, LintOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
-    => Lint<string>(files, options, baseOptions, cancellationToken);
+  /// <summary>Executes <c>deno cache</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/cache/"/>
+  public static Task Cache(string[] files, CacheOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Cache<string>(files, options, baseOptions, cancellationToken);
 
-  /// <summary>Executes <c>deno lint</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Lint<T>(string[]? files = null, LintOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <summary>Executes <c>deno cache</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/cache/"/>
+  public static async Task<T> Cache<T>(string[] files, CacheOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
+    ArgumentNullException.ThrowIfNull(files);
+    if (files.Length == 0) throw new ArgumentException("At least one value is required.", nameof(files));
+    if (Array.Exists(files, string.IsNullOrWhiteSpace)) throw new ArgumentException("Values cannot be null or whitespace.", nameof(files));
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
-    if (files != null) args.AddRange(files);
-    return ExecuteCore<T>("lint", [.. args], baseOptions, null, null, cancellationToken);
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.AddRange(files);
+    return await ExecuteCore<T>("cache", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
   /// <summary>Executes <c>deno check</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/check/"/>
   public static Task Check(string[]? files = null, CheckOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
     => Check<string>(files, options, baseOptions, cancellationToken);
 
   /// <summary>Executes <c>deno check</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Check<T>(string[]? files = null, CheckOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/check/"/>
+  public static async Task<T> Check<T>(string[]? files = null, CheckOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
     if (files != null) args.AddRange(files);
-    return ExecuteCore<T>("check", [.. args], baseOptions, null, null, cancellationToken);
+    return await ExecuteCore<T>("check", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno clean</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/clean/"/>
+  public static Task Clean(string[]? exceptPaths = null, CleanOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Clean<string>(exceptPaths, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno clean</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/clean/"/>
+  public static async Task<T> Clean<T>(string[]? exceptPaths = null, CleanOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (exceptPaths != null) args.AddRange(exceptPaths);
+    return await ExecuteCore<T>("clean", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
   /// <summary>Executes <c>deno compile</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/compile/"/>
   public static Task Compile(string script, CompileOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
     => Compile<string>(script, options, baseOptions, cancellationToken);
 
   /// <summary>Executes <c>deno compile</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Compile<T>(string script, CompileOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/compile/"/>
+  public static async Task<T> Compile<T>(string script, CompileOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(script);
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.Add(script);
+    return await ExecuteCore<T>("compile", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno create</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/create/"/>
+  public static Task Create(string? package = null, string[]? packageArgs = null, CreateOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Create<string>(package, packageArgs, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno create</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/create/"/>
+  public static async Task<T> Create<T>(string? package = null, string[]? packageArgs = null, CreateOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (package != null) args.Add(package);
+    if (packageArgs != null) args.AddRange(packageArgs);
+    return await ExecuteCore<T>("create", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno desktop</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/desktop/"/>
+  public static Task Desktop(string script, DesktopOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Desktop<string>(script, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno desktop</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/desktop/"/>
+  public static async Task<T> Desktop<T>(string script, DesktopOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
     ArgumentException.ThrowIfNullOrWhiteSpace(script);
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
     args.Add(script);
-    return ExecuteCore<T>("compile", [.. args], baseOptions, null, null, cancellationToken);
+    return await ExecuteCore<T>("desktop", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno completions</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/completions/"/>
+  public static Task Completions(string? shell = null, CompletionsOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Completions<string>(shell, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno completions</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/completions/"/>
+  public static async Task<T> Completions<T>(string? shell = null, CompletionsOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (shell != null) args.Add(shell);
+    return await ExecuteCore<T>("completions", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno coverage</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/coverage/"/>
+  public static Task Coverage(string[]? files = null, CoverageOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Coverage<string>(files, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno coverage</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/coverage/"/>
+  public static async Task<T> Coverage<T>(string[]? files = null, CoverageOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (files != null) args.AddRange(files);
+    return await ExecuteCore<T>("coverage", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno doc</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/doc/"/>
+  public static Task Doc(string[]? sourceFiles = null, DocOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Doc<string>(sourceFiles, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno doc</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/doc/"/>
+  public static async Task<T> Doc<T>(string[]? sourceFiles = null, DocOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (sourceFiles != null) args.AddRange(sourceFiles);
+    return await ExecuteCore<T>("doc", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno deploy</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/deploy/"/>
+  public static Task Deploy(string[]? deployArgs = null, DeployOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Deploy<string>(deployArgs, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno deploy</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/deploy/"/>
+  public static async Task<T> Deploy<T>(string[]? deployArgs = null, DeployOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (deployArgs != null) args.AddRange(deployArgs);
+    return await ExecuteCore<T>("deploy", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno sandbox</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/sandbox/"/>
+  public static Task Sandbox(string[]? sandboxArgs = null, SandboxOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Sandbox<string>(sandboxArgs, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno sandbox</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/sandbox/"/>
+  public static async Task<T> Sandbox<T>(string[]? sandboxArgs = null, SandboxOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (sandboxArgs != null) args.AddRange(sandboxArgs);
+    return await ExecuteCore<T>("sandbox", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno eval</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/eval/"/>
+  public static Task Eval(string code, EvalOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Eval<string>(code, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno eval</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/eval/"/>
+  public static async Task<T> Eval<T>(string code, EvalOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(code);
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.Add(code);
+    return await ExecuteCore<T>("eval", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno fmt</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/fmt/"/>
+  public static Task Fmt(string[]? files = null, FmtOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Fmt<string>(files, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno fmt</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/fmt/"/>
+  public static async Task<T> Fmt<T>(string[]? files = null, FmtOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (files != null) args.AddRange(files);
+    return await ExecuteCore<T>("fmt", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno init</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/init/"/>
+  public static Task Init(string[]? initArgs = null, InitOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Init<string>(initArgs, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno init</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/init/"/>
+  public static async Task<T> Init<T>(string[]? initArgs = null, InitOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (initArgs != null) args.AddRange(initArgs);
+    return await ExecuteCore<T>("init", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno info</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/info/"/>
+  public static Task Info(string? file = null, InfoOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Info<string>(file, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno info</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/info/"/>
+  public static async Task<T> Info<T>(string? file = null, InfoOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (file != null) args.Add(file);
+    return await ExecuteCore<T>("info", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno list</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/list/"/>
+  public static Task List(string[]? filters = null, ListOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => List<string>(filters, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno list</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/list/"/>
+  public static async Task<T> List<T>(string[]? filters = null, ListOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (filters != null) args.AddRange(filters);
+    return await ExecuteCore<T>("list", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno install</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/install/"/>
+  public static Task Install(string[]? packages = null, InstallOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Install<string>(packages, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno install</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/install/"/>
+  public static async Task<T> Install<T>(string[]? packages = null, InstallOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (packages != null) args.AddRange(packages);
+    return await ExecuteCore<T>("install", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno ci</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/ci/"/>
+  public static Task Ci(CiOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Ci<string>(options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno ci</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/ci/"/>
+  public static async Task<T> Ci<T>(CiOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+
+    return await ExecuteCore<T>("ci", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno jupyter</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/jupyter/"/>
+  public static Task Jupyter(JupyterOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Jupyter<string>(options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno jupyter</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/jupyter/"/>
+  public static async Task<T> Jupyter<T>(JupyterOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+
+    return await ExecuteCore<T>("jupyter", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno approve-scripts</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/approve-scripts/"/>
+  public static Task ApproveScripts(string[]? packages = null, ApproveScriptsOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => ApproveScripts<string>(packages, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno approve-scripts</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/approve-scripts/"/>
+  public static async Task<T> ApproveScripts<T>(string[]? packages = null, ApproveScriptsOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (packages != null) args.AddRange(packages);
+    return await ExecuteCore<T>("approve-scripts", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno uninstall</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/uninstall/"/>
+  public static Task Uninstall(string? nameOrPackage = null, string[]? additionalPackages = null, UninstallOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Uninstall<string>(nameOrPackage, additionalPackages, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno uninstall</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/uninstall/"/>
+  public static async Task<T> Uninstall<T>(string? nameOrPackage = null, string[]? additionalPackages = null, UninstallOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (nameOrPackage != null) args.Add(nameOrPackage);
+    if (additionalPackages != null) args.AddRange(additionalPackages);
+    return await ExecuteCore<T>("uninstall", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno outdated</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/outdated/"/>
+  public static Task Outdated(string[]? filters = null, OutdatedOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Outdated<string>(filters, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno outdated</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/outdated/"/>
+  public static async Task<T> Outdated<T>(string[]? filters = null, OutdatedOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (filters != null) args.AddRange(filters);
+    return await ExecuteCore<T>("outdated", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno link</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/link/"/>
+  public static Task Link(string[]? paths = null, LinkOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Link<string>(paths, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno link</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/link/"/>
+  public static async Task<T> Link<T>(string[]? paths = null, LinkOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (paths != null) args.AddRange(paths);
+    return await ExecuteCore<T>("link", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno unlink</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/unlink/"/>
+  public static Task Unlink(string[]? namesOrPaths = null, UnlinkOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Unlink<string>(namesOrPaths, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno unlink</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/unlink/"/>
+  public static async Task<T> Unlink<T>(string[]? namesOrPaths = null, UnlinkOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (namesOrPaths != null) args.AddRange(namesOrPaths);
+    return await ExecuteCore<T>("unlink", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno lint</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/lint/"/>
+  public static Task Lint(string[]? files = null, LintOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Lint<string>(files, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno lint</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/lint/"/>
+  public static async Task<T> Lint<T>(string[]? files = null, LintOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (files != null) args.AddRange(files);
+    return await ExecuteCore<T>("lint", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno publish</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/publish/"/>
+  public static Task Publish(PublishOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Publish<string>(options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno publish</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/publish/"/>
+  public static async Task<T> Publish<T>(PublishOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+
+    return await ExecuteCore<T>("publish", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno pack</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/pack/"/>
+  public static Task Pack(string[]? files = null, PackOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Pack<string>(files, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno pack</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/pack/"/>
+  public static async Task<T> Pack<T>(string[]? files = null, PackOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (files != null) args.AddRange(files);
+    return await ExecuteCore<T>("pack", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno repl</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/repl/"/>
+  public static Task Repl(string[]? replArgs = null, ReplOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Repl<string>(replArgs, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno repl</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/repl/"/>
+  public static async Task<T> Repl<T>(string[]? replArgs = null, ReplOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (replArgs != null) args.AddRange(replArgs);
+    return await ExecuteCore<T>("repl", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
   /// <summary>Executes <c>deno task</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/task/"/>
   public static Task Task(string taskName, TaskOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
     => Task<string>(taskName, options, baseOptions, cancellationToken);
 
   /// <summary>Executes <c>deno task</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Task<T>(string taskName, TaskOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/task/"/>
+  public static async Task<T> Task<T>(string taskName, TaskOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
     ArgumentException.ThrowIfNullOrWhiteSpace(taskName);
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
     args.Add(taskName);
-    return ExecuteCore<T>("task", [.. args], baseOptions, null, null, cancellationToken);
+    return await ExecuteCore<T>("task", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
-  /// <summary>Executes <c>deno serve</c>.</summary>
-  public static Task Serve(string script, ServeOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
-    => Serve<string>(script, options, baseOptions, cancellationToken);
+  /// <summary>Executes <c>deno test</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/test/"/>
+  public static Task Test(string[]? files = null, TestOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Test<string>(files, options, baseOptions, cancellationToken);
 
-  /// <summary>Executes <c>deno serve</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Serve<T>(string script, ServeOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <summary>Executes <c>deno test</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/test/"/>
+  public static async Task<T> Test<T>(string[]? files = null, TestOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
-    ArgumentException.ThrowIfNullOrWhiteSpace(script);
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
-    args.Add(script);
-    return ExecuteCore<T>("serve", [.. args], baseOptions, null, null, cancellationToken);
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (files != null) args.AddRange(files);
+    return await ExecuteCore<T>("test", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
-  /// <summary>Executes <c>deno cache</c>.</summary>
-  public static Task Cache(string[] files, CacheOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
-    => Cache<string>(files, options, baseOptions, cancellationToken);
+  /// <summary>Executes <c>deno transpile</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/transpile/"/>
+  public static Task Transpile(string[]? files = null, TranspileOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Transpile<string>(files, options, baseOptions, cancellationToken);
 
-  /// <summary>Executes <c>deno cache</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Cache<T>(string[] files, CacheOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <summary>Executes <c>deno transpile</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/transpile/"/>
+  public static async Task<T> Transpile<T>(string[]? files = null, TranspileOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
-    ArgumentNullException.ThrowIfNull(files);
-    if (files.Length == 0) throw new ArgumentException("At least one value is required.", nameof(files));
-    if (Array.Exists(files, string.IsNullOrWhiteSpace)) throw new ArgumentException("Values cannot be null or whitespace.", nameof(files));
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
-    args.AddRange(files);
-    return ExecuteCore<T>("cache", [.. args], baseOptions, null, null, cancellationToken);
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (files != null) args.AddRange(files);
+    return await ExecuteCore<T>("transpile", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
-  /// <summary>Executes <c>deno add</c>.</summary>
-  public static Task Add(string[] packages, AddOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
-    => Add<string>(packages, options, baseOptions, cancellationToken);
+  /// <summary>Executes <c>deno types</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/types/"/>
+  public static Task Types(TypesOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Types<string>(options, baseOptions, cancellationToken);
 
-  /// <summary>Executes <c>deno add</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Add<T>(string[] packages, AddOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <summary>Executes <c>deno types</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/types/"/>
+  public static async Task<T> Types<T>(TypesOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
-    ArgumentNullException.ThrowIfNull(packages);
-    if (packages.Length == 0) throw new ArgumentException("At least one value is required.", nameof(packages));
-    if (Array.Exists(packages, string.IsNullOrWhiteSpace)) throw new ArgumentException("Values cannot be null or whitespace.", nameof(packages));
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
-    args.AddRange(packages);
-    return ExecuteCore<T>("add", [.. args], baseOptions, null, null, cancellationToken);
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+
+    return await ExecuteCore<T>("types", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
-  /// <summary>Executes <c>deno remove</c>.</summary>
-  public static Task Remove(string[] packages, RemoveOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
-    => Remove<string>(packages, options, baseOptions, cancellationToken);
+  /// <summary>Executes <c>deno update</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/update/"/>
+  public static Task Update(string[]? filters = null, UpdateOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Update<string>(filters, options, baseOptions, cancellationToken);
 
-  /// <summary>Executes <c>deno remove</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
-  public static Task<T> Remove<T>(string[] packages, RemoveOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  /// <summary>Executes <c>deno update</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/update/"/>
+  public static async Task<T> Update<T>(string[]? filters = null, UpdateOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
   {
-    ArgumentNullException.ThrowIfNull(packages);
-    if (packages.Length == 0) throw new ArgumentException("At least one value is required.", nameof(packages));
-    if (Array.Exists(packages, string.IsNullOrWhiteSpace)) throw new ArgumentException("Values cannot be null or whitespace.", nameof(packages));
     var args = new List<string>();
-    if (options != null) args.AddRange(options.ToArgs());
-    args.AddRange(packages);
-    return ExecuteCore<T>("remove", [.. args], baseOptions, null, null, cancellationToken);
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (filters != null) args.AddRange(filters);
+    return await ExecuteCore<T>("update", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno upgrade</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/upgrade/"/>
+  public static Task Upgrade(string? version = null, UpgradeOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Upgrade<string>(version, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno upgrade</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/upgrade/"/>
+  public static async Task<T> Upgrade<T>(string? version = null, UpgradeOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (version != null) args.Add(version);
+    return await ExecuteCore<T>("upgrade", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno bump-version</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/bump-version/"/>
+  public static Task BumpVersion(string? increment = null, BumpVersionOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => BumpVersion<string>(increment, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno bump-version</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/bump-version/"/>
+  public static async Task<T> BumpVersion<T>(string? increment = null, BumpVersionOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    if (increment != null) args.Add(increment);
+    return await ExecuteCore<T>("bump-version", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno vendor</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/vendor/"/>
+  public static Task Vendor(VendorOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Vendor<string>(options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno vendor</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/vendor/"/>
+  public static async Task<T> Vendor<T>(VendorOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+
+    return await ExecuteCore<T>("vendor", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno why</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/why/"/>
+  public static Task Why(string package, WhyOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => Why<string>(package, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno why</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/why/"/>
+  public static async Task<T> Why<T>(string package, WhyOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(package);
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.Add(package);
+    return await ExecuteCore<T>("why", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
+  }
+
+  /// <summary>Executes <c>deno x</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/x/"/>
+  public static Task X(string script, XOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+    => X<string>(script, options, baseOptions, cancellationToken);
+
+  /// <summary>Executes <c>deno x</c> and deserializes stdout as <typeparamref name="T"/>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/x/"/>
+  public static async Task<T> X<T>(string script, XOptions? options = null, DenoExecuteBaseOptions? baseOptions = null, CancellationToken cancellationToken = default)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(script);
+    var args = new List<string>();
+    if (options != null)
+    {
+      options.Validate();
+      if (options.UsesVersionedFlags)
+        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+      args.AddRange(options.ToArgs());
+    }
+    args.Add(script);
+    return await ExecuteCore<T>("x", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);
   }
 
 }
@@ -0,0 +1,263 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System.Collections.Generic;
+using System.Globalization;
+
+namespace DenoHost.Core;
+
+/// <seealso href="https://docs.deno.com/go/env-vars"/>
+public sealed partial class DenoEnvironment
+{
+  /// <summary>A semi-colon separated list of bearer tokens and hostnames to use when fetching remote modules from private repositories (e.g. "abcde12345@deno.land;54321edcba@github.com")</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_AUTH_TOKENS</c>, joined with <c>;</c>.</para>
+  /// </remarks>
+  public string[]? DenoAuthTokens { get; set; }
+
+  /// <summary>Controls whether Web cache should use disk based or in-memory database.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_CACHE_DB_MODE</c>.</para>
+  /// </remarks>
+  public string? DenoCacheDbMode { get; set; }
+
+  /// <summary>Load certificate authorities from PEM encoded file.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_CERT</c>.</para>
+  /// </remarks>
+  public string? DenoCert { get; set; }
+
+  /// <summary>Enable Node.js compatibility mode - extensionless imports, built-in Node.js modules, CommonJS detection and more.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_COMPAT</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoCompat { get; set; }
+
+  /// <summary>Comma-separated list of custom conditions to resolve npm package exports and imports with. Equivalent to using the --conditions flag.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_CONDITIONS</c>, joined with <c>,</c>.</para>
+  /// </remarks>
+  public string[]? DenoConditions { get; set; }
+
+  /// <summary>Set the directory for collecting code coverage profiles. Equivalent to using the --coverage flag.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_COVERAGE_DIR</c>.</para>
+  /// </remarks>
+  public string? DenoCoverageDir { get; set; }
+
+  /// <summary>Set the cache directory</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_DIR</c>.</para>
+  /// </remarks>
+  public string? DenoDir { get; set; }
+
+  /// <summary>Set deno install's output directory (defaults to $HOME/.deno/bin)</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_INSTALL_ROOT</c>.</para>
+  /// </remarks>
+  public string? DenoInstallRoot { get; set; }
+
+  /// <summary>Number of parallel workers used for the --parallel flag with the test subcommand. Defaults to the number of available CPUs.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_JOBS</c>.</para>
+  /// </remarks>
+  public int? DenoJobs { get; set; }
+
+  /// <summary>Controls whether Deno.openKv() API should use disk based or in-memory database.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_KV_DB_MODE</c>.</para>
+  /// </remarks>
+  public string? DenoKvDbMode { get; set; }
+
+  /// <summary>Set the default path for Deno.openKv() when no path is provided.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_KV_DEFAULT_PATH</c>.</para>
+  /// </remarks>
+  public string? DenoKvDefaultPath { get; set; }
+
+  /// <summary>Set a prefix to be added to all Deno.openKv() paths.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_KV_PATH_PREFIX</c>.</para>
+  /// </remarks>
+  public string? DenoKvPathPrefix { get; set; }
+
+  /// <summary>Require Deno.openKv() to resolve to a distributed (remote) database. When set to "error", Deno.openKv() is always exposed and rejects with a clear message unless the resolved path is remote. When set to "warn", a local/in-memory fallback is allowed but logs a warning. Used by Deno Deploy to surface a clear error when no KV database is attached.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_KV_REQUIRES_DISTRIBUTED_DATABASE</c>.</para>
+  /// </remarks>
+  public string? DenoKvRequiresDistributedDatabase { get; set; }
+
+  /// <summary>Control if the transpiled sources should be cached.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_EMIT_CACHE_MODE</c>.</para>
+  /// </remarks>
+  public string? DenoEmitCacheMode { get; set; }
+
+  /// <summary>Disables auto-resolution of package.json.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_NO_PACKAGE_JSON</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoNoPackageJson { get; set; }
+
+  /// <summary>Set to disable permission prompts on access (alternative to passing --no-prompt on invocation).</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_NO_PROMPT</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoNoPrompt { get; set; }
+
+  /// <summary>Set to disable checking if a newer Deno version is available</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_NO_UPDATE_CHECK</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoNoUpdateCheck { get; set; }
+
+  /// <summary>Enable load-time source patches mitigating known React Server Components CVEs (CVE-2025-55182, CVE-2025-55184).</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_PATCH_REACT_CVE</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoPatchReactCve { get; set; }
+
+  /// <summary>Override address for Deno.serve ("tcp:0.0.0.0:8080", "unix:/tmp/deno.sock", or "vsock:1234:5678")</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_SERVE_ADDRESS</c>.</para>
+  /// </remarks>
+  public string? DenoServeAddress { get; set; }
+
+  /// <summary>Set to 1 or true to enable automatic response body compression in Deno.serve by default.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_SERVE_AUTOMATIC_COMPRESSION</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoServeAutomaticCompression { get; set; }
+
+  /// <summary>If the entrypoint contains export default { fetch }, <c>deno run</c> behaves like <c>deno serve</c>.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_AUTO_SERVE</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoAutoServe { get; set; }
+
+  /// <summary>Comma-separated list of order dependent certificate stores. Possible values: "system", "mozilla" (defaults to "mozilla")</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_TLS_CA_STORE</c>, joined with <c>,</c>.</para>
+  /// </remarks>
+  public string[]? DenoTlsCaStore { get; set; }
+
+  /// <summary>Environmental variable to enable stack traces in permission prompts.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_TRACE_PERMISSIONS</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoTracePermissions { get; set; }
+
+  /// <summary>Use cgroups to determine V8 memory limit.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_USE_CGROUPS</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoUseCgroups { get; set; }
+
+  /// <summary>Set V8 command line options. Equivalent to using the --v8-flags flag; flags passed via --v8-flags are appended after these.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_V8_FLAGS</c>, joined with <c>,</c>.</para>
+  /// </remarks>
+  public string[]? DenoV8Flags { get; set; }
+
+  /// <summary>Set force color output even if stdout isn't a tty.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>FORCE_COLOR</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? ForceColor { get; set; }
+
+  /// <summary>Proxy address for HTTP requests. (module downloads, fetch)</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>HTTP_PROXY</c>.</para>
+  /// </remarks>
+  public string? HttpProxy { get; set; }
+
+  /// <summary>Proxy address for HTTPS requests. (module downloads, fetch)</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>HTTPS_PROXY</c>.</para>
+  /// </remarks>
+  public string? HttpsProxy { get; set; }
+
+  /// <summary>Set to disable color.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>NO_COLOR</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? NoColor { get; set; }
+
+  /// <summary>Comma-separated list of hosts which do not use a proxy. (module downloads, fetch)</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>NO_PROXY</c>, joined with <c>,</c>.</para>
+  /// </remarks>
+  public string[]? NoProxy { get; set; }
+
+  /// <summary>If set to 1, node:http and node:https honor HTTP_PROXY, HTTPS_PROXY, and NO_PROXY from the environment.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>NODE_USE_ENV_PROXY</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? NodeUseEnvProxy { get; set; }
+
+  /// <summary>URL to use for the npm registry.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>NPM_CONFIG_REGISTRY</c>.</para>
+  /// </remarks>
+  public string? NpmConfigRegistry { get; set; }
+
+  /// <summary>Write TLS session keys to the specified file in NSS Key Log format for debugging encrypted traffic with tools like Wireshark.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>SSLKEYLOGFILE</c>.</para>
+  /// </remarks>
+  public string? SslKeyLogFile { get; set; }
+
+  /// <summary>If specified, removes X-deno-client-address header when serving HTTP.</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_TRUST_PROXY_HEADERS</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoTrustProxyHeaders { get; set; }
+
+  /// <summary>If specified, listen for SIGUSR2 signal to try and free memory (Linux only).</summary>
+  /// <remarks>
+  /// <para>Environment variable <c>DENO_USR2_MEMORY_TRIM</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>
+  /// </remarks>
+  public bool? DenoUsr2MemoryTrim { get; set; }
+
+  private IEnumerable<KeyValuePair<string, string?>> GetTypedVariables()
+  {
+    if (DenoAuthTokens is not null) yield return new("DENO_AUTH_TOKENS", string.Join(";", DenoAuthTokens));
+    if (DenoCacheDbMode is not null) yield return new("DENO_CACHE_DB_MODE", DenoCacheDbMode);
+    if (DenoCert is not null) yield return new("DENO_CERT", DenoCert);
+    if (DenoCompat.HasValue) yield return new("DENO_COMPAT", DenoCompat.Value ? "1" : null);
+    if (DenoConditions is not null) yield return new("DENO_CONDITIONS", string.Join(",", DenoConditions));
+    if (DenoCoverageDir is not null) yield return new("DENO_COVERAGE_DIR", DenoCoverageDir);
+    if (DenoDir is not null) yield return new("DENO_DIR", DenoDir);
+    if (DenoInstallRoot is not null) yield return new("DENO_INSTALL_ROOT", DenoInstallRoot);
+    if (DenoJobs.HasValue) yield return new("DENO_JOBS", DenoJobs.Value.ToString(CultureInfo.InvariantCulture));
+    if (DenoKvDbMode is not null) yield return new("DENO_KV_DB_MODE", DenoKvDbMode);
+    if (DenoKvDefaultPath is not null) yield return new("DENO_KV_DEFAULT_PATH", DenoKvDefaultPath);
+    if (DenoKvPathPrefix is not null) yield return new("DENO_KV_PATH_PREFIX", DenoKvPathPrefix);
+    if (DenoKvRequiresDistributedDatabase is not null) yield return new("DENO_KV_REQUIRES_DISTRIBUTED_DATABASE", DenoKvRequiresDistributedDatabase);
+    if (DenoEmitCacheMode is not null) yield return new("DENO_EMIT_CACHE_MODE", DenoEmitCacheMode);
+    if (DenoNoPackageJson.HasValue) yield return new("DENO_NO_PACKAGE_JSON", DenoNoPackageJson.Value ? "1" : null);
+    if (DenoNoPrompt.HasValue) yield return new("DENO_NO_PROMPT", DenoNoPrompt.Value ? "1" : null);
+    if (DenoNoUpdateCheck.HasValue) yield return new("DENO_NO_UPDATE_CHECK", DenoNoUpdateCheck.Value ? "1" : null);
+    if (DenoPatchReactCve.HasValue) yield return new("DENO_PATCH_REACT_CVE", DenoPatchReactCve.Value ? "1" : null);
+    if (DenoServeAddress is not null) yield return new("DENO_SERVE_ADDRESS", DenoServeAddress);
+    if (DenoServeAutomaticCompression.HasValue) yield return new("DENO_SERVE_AUTOMATIC_COMPRESSION", DenoServeAutomaticCompression.Value ? "1" : null);
+    if (DenoAutoServe.HasValue) yield return new("DENO_AUTO_SERVE", DenoAutoServe.Value ? "1" : null);
+    if (DenoTlsCaStore is not null) yield return new("DENO_TLS_CA_STORE", string.Join(",", DenoTlsCaStore));
+    if (DenoTracePermissions.HasValue) yield return new("DENO_TRACE_PERMISSIONS", DenoTracePermissions.Value ? "1" : null);
+    if (DenoUseCgroups.HasValue) yield return new("DENO_USE_CGROUPS", DenoUseCgroups.Value ? "1" : null);
+    if (DenoV8Flags is not null) yield return new("DENO_V8_FLAGS", string.Join(",", DenoV8Flags));
+    if (ForceColor.HasValue) yield return new("FORCE_COLOR", ForceColor.Value ? "1" : null);
+    if (HttpProxy is not null) yield return new("HTTP_PROXY", HttpProxy);
+    if (HttpsProxy is not null) yield return new("HTTPS_PROXY", HttpsProxy);
+    if (NoColor.HasValue) yield return new("NO_COLOR", NoColor.Value ? "1" : null);
+    if (NoProxy is not null) yield return new("NO_PROXY", string.Join(",", NoProxy));
+    if (NodeUseEnvProxy.HasValue) yield return new("NODE_USE_ENV_PROXY", NodeUseEnvProxy.Value ? "1" : null);
+    if (NpmConfigRegistry is not null) yield return new("NPM_CONFIG_REGISTRY", NpmConfigRegistry);
+    if (SslKeyLogFile is not null) yield return new("SSLKEYLOGFILE", SslKeyLogFile);
+    if (DenoTrustProxyHeaders.HasValue) yield return new("DENO_TRUST_PROXY_HEADERS", DenoTrustProxyHeaders.Value ? "1" : null);
+    if (DenoUsr2MemoryTrim.HasValue) yield return new("DENO_USR2_MEMORY_TRIM", DenoUsr2MemoryTrim.Value ? "1" : null);
+  }
+}
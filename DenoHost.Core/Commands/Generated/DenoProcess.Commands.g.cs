@@ -13,39 +13,173 @@ namespace DenoHost.Core;
 public partial class DenoProcess
 {
   /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno run</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/run/"/>
   public static DenoProcess Run(string script, RunOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
   {
     ArgumentException.ThrowIfNullOrWhiteSpace(script);
     var args = new List<string> { "run" };
-    if (options != null) args.AddRange(options.ToArgs());
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
     args.Add(script);
-    return baseOptions != null
+    var process = baseOptions != null
       ? new DenoProcess(baseOptions, [.. args])
       : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
   }
 
-  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno task</c>.</summary>
-  public static DenoProcess Task(string taskName, TaskOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno watch</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/watch/"/>
+  public static DenoProcess Watch(string script, WatchOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
   {
-    ArgumentException.ThrowIfNullOrWhiteSpace(taskName);
-    var args = new List<string> { "task" };
-    if (options != null) args.AddRange(options.ToArgs());
-    args.Add(taskName);
-    return baseOptions != null
+    ArgumentException.ThrowIfNullOrWhiteSpace(script);
+    var args = new List<string> { "watch" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    args.Add(script);
+    var process = baseOptions != null
       ? new DenoProcess(baseOptions, [.. args])
       : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
   }
 
   /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno serve</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/serve/"/>
   public static DenoProcess Serve(string script, ServeOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
   {
     ArgumentException.ThrowIfNullOrWhiteSpace(script);
     var args = new List<string> { "serve" };
-    if (options != null) args.AddRange(options.ToArgs());
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    args.Add(script);
+    var process = baseOptions != null
+      ? new DenoProcess(baseOptions, [.. args])
+      : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
+  }
+
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno bench</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/bench/"/>
+  public static DenoProcess Bench(string[]? files = null, BenchOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    var args = new List<string> { "bench" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    if (files != null) args.AddRange(files);
+    var process = baseOptions != null
+      ? new DenoProcess(baseOptions, [.. args])
+      : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
+  }
+
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno bundle</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/bundle/"/>
+  public static DenoProcess Bundle(string[]? files = null, BundleOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    var args = new List<string> { "bundle" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    if (files != null) args.AddRange(files);
+    var process = baseOptions != null
+      ? new DenoProcess(baseOptions, [.. args])
+      : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
+  }
+
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno check</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/check/"/>
+  public static DenoProcess Check(string[]? files = null, CheckOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    var args = new List<string> { "check" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    if (files != null) args.AddRange(files);
+    var process = baseOptions != null
+      ? new DenoProcess(baseOptions, [.. args])
+      : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
+  }
+
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno compile</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/compile/"/>
+  public static DenoProcess Compile(string script, CompileOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(script);
+    var args = new List<string> { "compile" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
     args.Add(script);
-    return baseOptions != null
+    var process = baseOptions != null
+      ? new DenoProcess(baseOptions, [.. args])
+      : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
+  }
+
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno fmt</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/fmt/"/>
+  public static DenoProcess Fmt(string[]? files = null, FmtOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    var args = new List<string> { "fmt" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    if (files != null) args.AddRange(files);
+    var process = baseOptions != null
+      ? new DenoProcess(baseOptions, [.. args])
+      : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
+  }
+
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno lint</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/lint/"/>
+  public static DenoProcess Lint(string[]? files = null, LintOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    var args = new List<string> { "lint" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    if (files != null) args.AddRange(files);
+    var process = baseOptions != null
+      ? new DenoProcess(baseOptions, [.. args])
+      : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
+  }
+
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno task</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/task/"/>
+  public static DenoProcess Task(string taskName, TaskOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(taskName);
+    var args = new List<string> { "task" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    args.Add(taskName);
+    var process = baseOptions != null
+      ? new DenoProcess(baseOptions, [.. args])
+      : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
+  }
+
+  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno test</c>.</summary>
+  /// <seealso href="https://docs.deno.com/runtime/reference/cli/test/"/>
+  public static DenoProcess Test(string[]? files = null, TestOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    var args = new List<string> { "test" };
+    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }
+    if (files != null) args.AddRange(files);
+    var process = baseOptions != null
       ? new DenoProcess(baseOptions, [.. args])
       : new DenoProcess([.. args]);
+    if (options is { UsesVersionedFlags: true })
+      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));
+    return process;
   }
 
 }
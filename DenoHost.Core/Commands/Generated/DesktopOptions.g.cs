@@ -0,0 +1,971 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno desktop</c>. Build and run desktop applications.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/desktop/"/>
+public sealed class DesktopOptions
+{
+  #region Permissions
+
+  /// <summary>Allow all permissions.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-all</c> (short alias <c>-A</c>)</para>
+  /// </remarks>
+  [DenoFlag("--allow-all", ShortAlias = "-A", Usage = "--allow-all", Heading = "Permissions", Help = "Allow all permissions.")]
+  public bool? AllowAll { get; set; }
+
+  /// <summary>Allow read access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-read[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-read", Usage = "--allow-read[=<PATH>...]", Heading = "Permissions", Help = "Allow read access. Empty array = allow all.")]
+  public string[]? AllowRead { get; set; }
+
+  /// <summary>Deny read access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-read[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-read", Usage = "--deny-read[=<PATH>...]", Heading = "Permissions", Help = "Deny read access.")]
+  public string[]? DenyRead { get; set; }
+
+  /// <summary>Ignore read permission check.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore-read[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--ignore-read", Usage = "--ignore-read[=<PATH>...]", Heading = "Permissions", Help = "Ignore read permission check.")]
+  public string[]? IgnoreRead { get; set; }
+
+  /// <summary>Allow write access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-write[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-write", Usage = "--allow-write[=<PATH>...]", Heading = "Permissions", Help = "Allow write access. Empty array = allow all.")]
+  public string[]? AllowWrite { get; set; }
+
+  /// <summary>Deny write access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-write[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-write", Usage = "--deny-write[=<PATH>...]", Heading = "Permissions", Help = "Deny write access.")]
+  public string[]? DenyWrite { get; set; }
+
+  /// <summary>Allow import access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-import[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-import", Usage = "--allow-import[=<PATH>...]", Heading = "Permissions", Help = "Allow import access. Empty array = allow all.")]
+  public string[]? AllowImport { get; set; }
+
+  /// <summary>Deny import access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-import[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-import", Usage = "--deny-import[=<PATH>...]", Heading = "Permissions", Help = "Deny import access.")]
+  public string[]? DenyImport { get; set; }
+
+  /// <summary>Allow env access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-env[=&lt;VAR&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-env", Usage = "--allow-env[=<VAR>...]", Heading = "Permissions", Help = "Allow env access. Empty array = allow all.")]
+  public string[]? AllowEnv { get; set; }
+
+  /// <summary>Deny env access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-env[=&lt;VAR&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-env", Usage = "--deny-env[=<VAR>...]", Heading = "Permissions", Help = "Deny env access.")]
+  public string[]? DenyEnv { get; set; }
+
+  /// <summary>Ignore env permission check.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore-env[=&lt;VAR&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--ignore-env", Usage = "--ignore-env[=<VAR>...]", Heading = "Permissions", Help = "Ignore env permission check.")]
+  public string[]? IgnoreEnv { get; set; }
+
+  /// <summary>Allow net access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-net[=&lt;HOST&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-net", Usage = "--allow-net[=<HOST>...]", Heading = "Permissions", Help = "Allow net access. Empty array = allow all.")]
+  public string[]? AllowNet { get; set; }
+
+  /// <summary>Deny net access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-net[=&lt;HOST&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-net", Usage = "--deny-net[=<HOST>...]", Heading = "Permissions", Help = "Deny net access.")]
+  public string[]? DenyNet { get; set; }
+
+  /// <summary>Allow run access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-run[=&lt;PROGRAM&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-run", Usage = "--allow-run[=<PROGRAM>...]", Heading = "Permissions", Help = "Allow run access. Empty array = allow all.")]
+  public string[]? AllowRun { get; set; }
+
+  /// <summary>Deny run access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-run[=&lt;PROGRAM&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-run", Usage = "--deny-run[=<PROGRAM>...]", Heading = "Permissions", Help = "Deny run access.")]
+  public string[]? DenyRun { get; set; }
+
+  /// <summary>Allow ffi access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-ffi[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-ffi", Usage = "--allow-ffi[=<PATH>...]", Heading = "Permissions", Help = "Allow ffi access. Empty array = allow all.")]
+  public string[]? AllowFfi { get; set; }
+
+  /// <summary>Deny ffi access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-ffi[=&lt;PATH&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-ffi", Usage = "--deny-ffi[=<PATH>...]", Heading = "Permissions", Help = "Deny ffi access.")]
+  public string[]? DenyFfi { get; set; }
+
+  /// <summary>Allow sys access. Empty array = allow all.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-sys[=&lt;API&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--allow-sys", Usage = "--allow-sys[=<API>...]", Heading = "Permissions", Help = "Allow sys access. Empty array = allow all.")]
+  public string[]? AllowSys { get; set; }
+
+  /// <summary>Deny sys access.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-sys[=&lt;API&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--deny-sys", Usage = "--deny-sys[=<API>...]", Heading = "Permissions", Help = "Deny sys access.")]
+  public string[]? DenySys { get; set; }
+
+  /// <summary>Always throw if required permission was not passed.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-prompt</c></para>
+  /// </remarks>
+  [DenoFlag("--no-prompt", Usage = "--no-prompt", Heading = "Permissions", Help = "Always throw if required permission was not passed.")]
+  public bool? NoPrompt { get; set; }
+
+  #endregion
+
+  #region Unstable options
+
+  /// <summary>Enable unstable bundle runtime API</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-bundle</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-bundle", Usage = "--unstable-bundle", Heading = "Unstable options", Help = "Enable unstable bundle runtime API", Since = "2.9.0")]
+  public bool? UnstableBundle { get; set; }
+
+  /// <summary>Enable unstable <c>Deno.cron</c> API</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-cron</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-cron", Usage = "--unstable-cron", Heading = "Unstable options", Help = "Enable unstable `Deno.cron` API", Since = "2.9.0")]
+  public bool? UnstableCron { get; set; }
+
+  /// <summary>Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-detect-cjs</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-detect-cjs", Usage = "--unstable-detect-cjs", Heading = "Unstable options", Help = "Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases", Since = "2.9.0")]
+  public bool? UnstableDetectCjs { get; set; }
+
+  /// <summary>Enable unstable KV APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-kv</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-kv", Usage = "--unstable-kv", Heading = "Unstable options", Help = "Enable unstable KV APIs", Since = "2.9.0")]
+  public bool? UnstableKv { get; set; }
+
+  /// <summary>Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lazy-dynamic-imports</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lazy-dynamic-imports", Usage = "--unstable-lazy-dynamic-imports", Heading = "Unstable options", Help = "Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.", Since = "2.9.0")]
+  public bool? UnstableLazyDynamicImports { get; set; }
+
+  /// <summary>Enable unstable lockfile v5</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lockfile-v5</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lockfile-v5", Usage = "--unstable-lockfile-v5", Heading = "Unstable options", Help = "Enable unstable lockfile v5", Since = "2.9.0")]
+  public bool? UnstableLockfileV5 { get; set; }
+
+  /// <summary>enable unstable net APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-net</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-net", Usage = "--unstable-net", Heading = "Unstable options", Help = "enable unstable net APIs", Since = "2.9.0")]
+  public bool? UnstableNet { get; set; }
+
+  /// <summary>Enable abort signal in Deno.serve without legacy behavior. This will not abort the server when the request is handled successfully.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-no-legacy-abort</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-no-legacy-abort", Usage = "--unstable-no-legacy-abort", Heading = "Unstable options", Help = "Enable abort signal in Deno.serve without legacy behavior. This will not abort the server when the request is handled successfully.", Since = "2.9.0")]
+  public bool? UnstableNoLegacyAbort { get; set; }
+
+  /// <summary>Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-npm-lazy-caching</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-npm-lazy-caching", Usage = "--unstable-npm-lazy-caching", Heading = "Unstable options", Help = "Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed", Since = "2.9.0")]
+  public bool? UnstableNpmLazyCaching { get; set; }
+
+  /// <summary>Enable unstable 'bytes' imports.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-raw-imports</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-raw-imports", Usage = "--unstable-raw-imports", Heading = "Unstable options", Help = "Enable unstable 'bytes' imports.", Since = "2.9.0")]
+  public bool? UnstableRawImports { get; set; }
+
+  /// <summary>Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sloppy-imports</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-sloppy-imports", Usage = "--unstable-sloppy-imports", Heading = "Unstable options", Help = "Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing", Since = "2.9.0")]
+  public bool? UnstableSloppyImports { get; set; }
+
+  /// <summary>Enable unstable TypeScript Go integration</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-tsgo</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-tsgo", Usage = "--unstable-tsgo", Heading = "Unstable options", Help = "Enable unstable TypeScript Go integration", Since = "2.9.0")]
+  public bool? UnstableTsgo { get; set; }
+
+  /// <summary>Enable unsafe __proto__ support. This is a security risk.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-unsafe-proto</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-unsafe-proto", Usage = "--unstable-unsafe-proto", Heading = "Unstable options", Help = "Enable unsafe __proto__ support. This is a security risk.", Since = "2.9.0")]
+  public bool? UnstableUnsafeProto { get; set; }
+
+  /// <summary>Enable unstable WebGPU APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-webgpu</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-webgpu", Usage = "--unstable-webgpu", Heading = "Unstable options", Help = "Enable unstable WebGPU APIs", Since = "2.9.0")]
+  public bool? UnstableWebgpu { get; set; }
+
+  /// <summary>Enable unstable Web Worker APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-worker-options</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-worker-options", Usage = "--unstable-worker-options", Heading = "Unstable options", Help = "Enable unstable Web Worker APIs", Since = "2.9.0")]
+  public bool? UnstableWorkerOptions { get; set; }
+
+  /// <summary>The <c>--unstable</c> flag has been deprecated. Use granular <c>--unstable-*</c> flags instead</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable", Usage = "--unstable", Heading = "Unstable options", Help = "The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead", Since = "2.9.0")]
+  public bool? Unstable { get; set; }
+
+  #endregion
+
+  #region Type checking options
+
+  /// <summary>Skip type-checking. If the value of "remote" is supplied, diagnostic errors from remote modules will be ignored</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-check[=&lt;NO_CHECK_TYPE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-check", Usage = "--no-check[=<NO_CHECK_TYPE>]", Heading = "Type checking options", Help = "Skip type-checking. If the value of \"remote\" is supplied, diagnostic errors from remote modules will be ignored", Since = "2.9.0")]
+  public string? NoCheck { get; set; }
+
+  /// <summary>Typed view of <see cref="NoCheck"/>: <c>null</c> when it is unset or holds a value not in <see cref="NoCheckOption"/>.</summary>
+  public NoCheckOption? NoCheckOption { get => NoCheck is { } arg && NoCheckOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NoCheck = value?.ToArg(); }
+
+  /// <summary>Set type-checking behavior. This subcommand type-checks local modules by default, so passing --check is redundant; pass --check=all to also type-check remote modules. Alternatively, use the 'deno check' subcommand.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--check[=&lt;CHECK_TYPE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--check", Usage = "--check[=<CHECK_TYPE>]", Heading = "Type checking options", Help = "Set type-checking behavior. This subcommand type-checks local modules by default, so passing --check is redundant; pass --check=all to also type-check remote modules. Alternatively, use the 'deno check' subcommand.", Since = "2.9.0")]
+  public string? Check { get; set; }
+
+  /// <summary>Typed view of <see cref="Check"/>: <c>null</c> when it is unset or holds a value not in <see cref="CheckOption"/>.</summary>
+  public CheckOption? CheckOption { get => Check is { } arg && CheckOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Check = value?.ToArg(); }
+
+  #endregion
+
+  #region Dependency management options
+
+  /// <summary>Load import map file from local file or remote URL</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/runtime/manual/basics/import_maps"/></para>
+  /// <para>Usage: <c>--import-map &lt;FILE&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--import-map", Usage = "--import-map <FILE>", Heading = "Dependency management options", Help = "Load import map file from local file or remote URL\nDocs: https://docs.deno.com/runtime/manual/basics/import_maps", Since = "2.9.0")]
+  public string? ImportMap { get; set; }
+
+  /// <summary>Do not resolve remote modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-remote</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-remote", Usage = "--no-remote", Heading = "Dependency management options", Help = "Do not resolve remote modules", Since = "2.9.0")]
+  public bool? NoRemote { get; set; }
+
+  /// <summary>Do not resolve npm modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-npm</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-npm", Usage = "--no-npm", Heading = "Dependency management options", Help = "Do not resolve npm modules", Since = "2.9.0")]
+  public bool? NoNpm { get; set; }
+
+  /// <summary>Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-dir[=&lt;MODE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--node-modules-dir", Usage = "--node-modules-dir[=<MODE>]", Heading = "Dependency management options", Help = "Selects the node_modules directory mode for npm packages (not a path). One of: auto (create a local node_modules directory and install npm packages into it), manual (use the existing local node_modules directory, do not modify it), none (do not use a local node_modules directory; resolve npm packages from the global cache). Defaults to auto when the flag is passed without a value.", Since = "2.9.0")]
+  public string? NodeModulesDir { get; set; }
+
+  /// <summary>Typed view of <see cref="NodeModulesDir"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesDirOption"/>.</summary>
+  public NodeModulesDirOption? NodeModulesDirOption { get => NodeModulesDir is { } arg && NodeModulesDirOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesDir = value?.ToArg(); }
+
+  /// <summary>Sets the linker mode for npm packages (isolated or hoisted)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--node-modules-linker=&lt;MODE&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--node-modules-linker", Usage = "--node-modules-linker=<MODE>", Heading = "Dependency management options", Help = "Sets the linker mode for npm packages (isolated or hoisted)", Since = "2.9.0")]
+  public string? NodeModulesLinker { get; set; }
+
+  /// <summary>Typed view of <see cref="NodeModulesLinker"/>: <c>null</c> when it is unset or holds a value not in <see cref="NodeModulesLinkerOption"/>.</summary>
+  public NodeModulesLinkerOption? NodeModulesLinkerOption { get => NodeModulesLinker is { } arg && NodeModulesLinkerOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => NodeModulesLinker = value?.ToArg(); }
+
+  /// <summary>Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--vendor[=&lt;vendor&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--vendor", Usage = "--vendor[=<vendor>]", Heading = "Dependency management options", Help = "Toggles local vendor folder usage for remote modules and a node_modules folder for npm packages", Since = "2.9.0")]
+  public string? Vendor { get; set; }
+
+  /// <summary>Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--reload[=&lt;CACHE_BLOCKLIST&gt;...]</c> (short alias <c>-r</c>)</para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--reload", ShortAlias = "-r", Usage = "--reload[=<CACHE_BLOCKLIST>...]", Heading = "Dependency management options", Help = "Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.", Since = "2.9.0")]
+  public string[]? Reload { get; set; }
+
+  /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")", Since = "2.9.0")]
+  public string? Lock { get; set; }
+
+  /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file", Since = "2.9.0")]
+  public bool? NoLock { get; set; }
+
+  /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date", Since = "2.9.0")]
+  public bool? Frozen { get; set; }
+
+  /// <summary>Require that remote dependencies are already cached</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--cached-only</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--cached-only", Usage = "--cached-only", Heading = "Dependency management options", Help = "Require that remote dependencies are already cached", Since = "2.9.0")]
+  public bool? CachedOnly { get; set; }
+
+  #endregion
+
+  #region General
+
+  /// <summary>Use this argument to specify custom conditions for npm package exports. You can also use DENO_CONDITIONS env var.</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/go/conditional-exports"/></para>
+  /// <para>Usage: <c>--conditions &lt;conditions&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--conditions", Usage = "--conditions <conditions>", Heading = "General", Help = "Use this argument to specify custom conditions for npm package exports. You can also use DENO_CONDITIONS env var.\n\nDocs: https://docs.deno.com/go/conditional-exports", Since = "2.9.0")]
+  public string? Conditions { get; set; }
+
+  /// <summary>Load certificate authority from PEM encoded file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--cert &lt;FILE&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--cert", Usage = "--cert <FILE>", Heading = "General", Help = "Load certificate authority from PEM encoded file", Since = "2.9.0")]
+  public string? Cert { get; set; }
+
+  /// <summary>(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--minimum-dependency-age &lt;minimum-dependency-age&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--minimum-dependency-age", Usage = "--minimum-dependency-age <minimum-dependency-age>", Heading = "General", Help = "(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)", Since = "2.9.0")]
+  public string? MinimumDependencyAge { get; set; }
+
+  /// <summary>Allow running npm lifecycle scripts for the given packages</summary>
+  /// <remarks>
+  /// <para>Note: Scripts will only be executed when using a node_modules directory (<c>--node-modules-dir</c>)</para>
+  /// <para>Usage: <c>--allow-scripts[=&lt;PACKAGE&gt;...]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-scripts", Usage = "--allow-scripts[=<PACKAGE>...]", Heading = "General", Help = "Allow running npm lifecycle scripts for the given packages\nNote: Scripts will only be executed when using a node_modules directory (`--node-modules-dir`)", Since = "2.9.0")]
+  public string[]? AllowScripts { get; set; }
+
+  /// <summary>Value of globalThis.location used by some web APIs</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--location &lt;HREF&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--location", Usage = "--location <HREF>", Heading = "General", Help = "Value of globalThis.location used by some web APIs", Since = "2.9.0")]
+  public string? Location { get; set; }
+
+  /// <summary>To see a list of all available flags use --v8-flags=--help</summary>
+  /// <remarks>
+  /// <para>Flags can also be set via the DENO_V8_FLAGS environment variable. Any flags set with this flag are appended after the DENO_V8_FLAGS environment variable</para>
+  /// <para>Usage: <c>--v8-flags[=&lt;V8_FLAGS&gt;...]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--v8-flags", Usage = "--v8-flags[=<V8_FLAGS>...]", Heading = "General", Help = "To see a list of all available flags use --v8-flags=--help\nFlags can also be set via the DENO_V8_FLAGS environment variable.\nAny flags set with this flag are appended after the DENO_V8_FLAGS environment variable", Since = "2.9.0")]
+  public string[]? V8Flags { get; set; }
+
+  /// <summary>Set the random number generator seed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--seed &lt;NUMBER&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--seed", Usage = "--seed <NUMBER>", Heading = "General", Help = "Set the random number generator seed", Since = "2.9.0")]
+  public int? Seed { get; set; }
+
+  /// <summary>A list of files that will be executed before the main module</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--preload &lt;FILE&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--preload", Usage = "--preload <FILE>", Heading = "General", Help = "A list of files that will be executed before the main module", Since = "2.9.0")]
+  public string? Preload { get; set; }
+
+  /// <summary>A list of CommonJS modules that will be executed before the main module</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--require &lt;FILE&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--require", Usage = "--require <FILE>", Heading = "General", Help = "A list of CommonJS modules that will be executed before the main module", Since = "2.9.0")]
+  public string? Require { get; set; }
+
+  /// <summary>Disable V8 code cache feature</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-code-cache</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-code-cache", Usage = "--no-code-cache", Heading = "General", Help = "Disable V8 code cache feature", Since = "2.9.0")]
+  public bool? NoCodeCache { get; set; }
+
+  /// <summary>Set content type of the supplied file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ext &lt;ext&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--ext", Usage = "--ext <ext>", Heading = "General", Help = "Set content type of the supplied file", Since = "2.9.0")]
+  public string? Ext { get; set; }
+
+  /// <summary>Typed view of <see cref="Ext"/>: <c>null</c> when it is unset or holds a value not in <see cref="ExtOption"/>.</summary>
+  public ExtOption? ExtOption { get => Ext is { } arg && ExtOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Ext = value?.ToArg(); }
+
+  /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
+  public string? EnvFile { get; set; }
+
+  #endregion
+
+  #region Debugging options
+
+  /// <summary>Override the CEF renderer debugger listen address; defaults to an auto-allocated port</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--inspect-renderer[=&lt;HOST_PORT&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--inspect-renderer", Usage = "--inspect-renderer[=<HOST_PORT>]", Heading = "Debugging options", Help = "Override the CEF renderer debugger listen address; defaults to an auto-allocated port", Since = "2.9.0")]
+  public string? InspectRenderer { get; set; }
+
+  #endregion
+
+  #region Desktop options
+
+  /// <summary>Includes an additional module or file/directory in the compiled executable.</summary>
+  /// <remarks>
+  /// <para>Use this flag if a dynamically imported module or a web worker main module fails to load in the executable or to embed a file or directory in the executable. This flag can be passed multiple times, to include multiple additional modules.</para>
+  /// <para>Usage: <c>--include &lt;include&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--include", Usage = "--include <include>", Heading = "Desktop options", Help = "Includes an additional module or file/directory in the compiled executable.\nUse this flag if a dynamically imported module or a web worker main module\nfails to load in the executable or to embed a file or directory in the executable.\nThis flag can be passed multiple times, to include multiple additional modules.", Since = "2.9.0")]
+  public string? Include { get; set; }
+
+  /// <summary>Excludes a file/directory in the compiled executable.</summary>
+  /// <remarks>
+  /// <para>Use this flag to exclude a specific file or directory within the included files.</para>
+  /// <para>Usage: <c>--exclude &lt;exclude&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--exclude", Usage = "--exclude <exclude>", Heading = "Desktop options", Help = "Excludes a file/directory in the compiled executable.\nUse this flag to exclude a specific file or directory within the included files.", Since = "2.9.0")]
+  public string? Exclude { get; set; }
+
+  /// <summary>Embed only the npm packages reachable from the module graph (managed npm; no node_modules directory).</summary>
+  /// <remarks>
+  /// <para>Without this flag the full managed npm snapshot from the lockfile / package.json is embedded. Reduces binary size when the lockfile contains packages the entrypoint does not import. Skips packages that are only reached through non-statically-analyzable dynamic imports; pass those with --include npm:&lt;pkg&gt; if needed.</para>
+  /// <para>Usage: <c>--exclude-unused-npm</c></para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--exclude-unused-npm", Usage = "--exclude-unused-npm", Heading = "Desktop options", Help = "Embed only the npm packages reachable from the module graph (managed npm; no node_modules directory).\nWithout this flag the full managed npm snapshot from the lockfile / package.json is embedded.\nReduces binary size when the lockfile contains packages the entrypoint does not import.\nSkips packages that are only reached through non-statically-analyzable dynamic imports;\npass those with --include npm:<pkg> if needed.", Since = "2.9.5")]
+  public bool? ExcludeUnusedNpm { get; set; }
+
+  /// <summary>Output path (e.g. MyApp.app, MyApp.dmg, MyApp.AppImage, MyApp.deb, MyApp.rpm, MyApp.msi)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--output &lt;output&gt;</c> (short alias <c>-o</c>)</para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--output", ShortAlias = "-o", Usage = "--output <output>", Heading = "Desktop options", Help = "Output path (e.g. MyApp.app, MyApp.dmg, MyApp.AppImage, MyApp.deb, MyApp.rpm, MyApp.msi)", Since = "2.9.0")]
+  public string? Output { get; set; }
+
+  /// <summary>Target OS architecture</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--target &lt;target&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--target", Usage = "--target <target>", Heading = "Desktop options", Help = "Target OS architecture", Since = "2.9.0")]
+  public string? Target { get; set; }
+
+  /// <summary>Typed view of <see cref="Target"/>: <c>null</c> when it is unset or holds a value not in <see cref="TargetOption"/>.</summary>
+  public TargetOption? TargetOption { get => Target is { } arg && TargetOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Target = value?.ToArg(); }
+
+  /// <summary>Set the application icon (.ico on Windows, .icns or .png on macOS)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--icon &lt;icon&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--icon", Usage = "--icon <icon>", Heading = "Desktop options", Help = "Set the application icon (.ico on Windows, .icns or .png on macOS)", Since = "2.9.0")]
+  public string? Icon { get; set; }
+
+  /// <summary>Run the desktop app with Hot Module Replacement enabled</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--hmr</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--hmr", Usage = "--hmr", Heading = "Desktop options", Help = "Run the desktop app with Hot Module Replacement enabled", Since = "2.9.0")]
+  public bool? Hmr { get; set; }
+
+  /// <summary>Backend to use for the desktop app</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--backend &lt;backend&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--backend", Usage = "--backend <backend>", Heading = "Desktop options", Help = "Backend to use for the desktop app", Since = "2.9.0")]
+  public string? Backend { get; set; }
+
+  /// <summary>Typed view of <see cref="Backend"/>: <c>null</c> when it is unset or holds a value not in <see cref="BackendOption"/>.</summary>
+  public BackendOption? BackendOption { get => Backend is { } arg && BackendOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Backend = value?.ToArg(); }
+
+  /// <summary>JS engine the desktop binary runs on (quickjs is smaller and experimental, and does not receive the same security updates as v8)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--engine &lt;engine&gt;</c></para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--engine", Usage = "--engine <engine>", Heading = "Desktop options", Help = "JS engine the desktop binary runs on (quickjs is smaller and experimental, and does not receive the same security updates as v8)", Since = "2.9.5")]
+  public string? Engine { get; set; }
+
+  /// <summary>Typed view of <see cref="Engine"/>: <c>null</c> when it is unset or holds a value not in <see cref="EngineOption"/>.</summary>
+  public EngineOption? EngineOption { get => Engine is { } arg && EngineOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Engine = value?.ToArg(); }
+
+  /// <summary>Build for all supported target platforms</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--all-targets</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--all-targets", Usage = "--all-targets", Heading = "Desktop options", Help = "Build for all supported target platforms", Since = "2.9.0")]
+  public bool? AllTargets { get; set; }
+
+  /// <summary>Make the packaged app self-extracting: the payload is compressed inside the app and unpacked on first launch. Off by default. Defaults to xz (decompressed by the system <c>tar</c> everywhere); zstd is smaller/faster but needs the <c>zstd</c> tool at runtime.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--compress [&lt;compress&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--compress", Usage = "--compress [<compress>]", Heading = "Desktop options", Help = "Make the packaged app self-extracting: the payload is compressed inside the app and unpacked on first launch. Off by default. Defaults to xz (decompressed by the system `tar` everywhere); zstd is smaller/faster but needs the `zstd` tool at runtime.", Since = "2.9.0")]
+  public string? Compress { get; set; }
+
+  /// <summary>Typed view of <see cref="Compress"/>: <c>null</c> when it is unset or holds a value not in <see cref="CompressOption"/>.</summary>
+  public CompressOption? CompressOption { get => Compress is { } arg && CompressOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Compress = value?.ToArg(); }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno desktop</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Check is not null && NoCheck is not null) errors.Add("'--check' cannot be used with '--no-check'.");
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (AllowAll == true && AllowRead is not null) errors.Add("'--allow-all' cannot be used with '--allow-read'.");
+    if (AllowAll == true && AllowWrite is not null) errors.Add("'--allow-all' cannot be used with '--allow-write'.");
+    if (AllowAll == true && AllowImport is not null) errors.Add("'--allow-all' cannot be used with '--allow-import'.");
+    if (AllowAll == true && AllowEnv is not null) errors.Add("'--allow-all' cannot be used with '--allow-env'.");
+    if (AllowAll == true && AllowNet is not null) errors.Add("'--allow-all' cannot be used with '--allow-net'.");
+    if (AllowAll == true && AllowRun is not null) errors.Add("'--allow-all' cannot be used with '--allow-run'.");
+    if (AllowAll == true && AllowFfi is not null) errors.Add("'--allow-all' cannot be used with '--allow-ffi'.");
+    if (AllowAll == true && AllowSys is not null) errors.Add("'--allow-all' cannot be used with '--allow-sys'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("desktop", errors);
+  }
+
+  /// <summary>The <c>deno desktop</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (AllowAll == true) args.Add("--allow-all");
+    if (AllowRead is not null) { if (AllowRead.Length == 0) args.Add("--allow-read"); else args.Add(string.Concat("--allow-read=", string.Join(",", AllowRead))); }
+    if (DenyRead is not null) { if (DenyRead.Length == 0) args.Add("--deny-read"); else args.Add(string.Concat("--deny-read=", string.Join(",", DenyRead))); }
+    if (IgnoreRead is not null) { if (IgnoreRead.Length == 0) args.Add("--ignore-read"); else args.Add(string.Concat("--ignore-read=", string.Join(",", IgnoreRead))); }
+    if (AllowWrite is not null) { if (AllowWrite.Length == 0) args.Add("--allow-write"); else args.Add(string.Concat("--allow-write=", string.Join(",", AllowWrite))); }
+    if (DenyWrite is not null) { if (DenyWrite.Length == 0) args.Add("--deny-write"); else args.Add(string.Concat("--deny-write=", string.Join(",", DenyWrite))); }
+    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else args.Add(string.Concat("--allow-import=", string.Join(",", AllowImport))); }
+    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else args.Add(string.Concat("--deny-import=", string.Join(",", DenyImport))); }
+    if (AllowEnv is not null) { if (AllowEnv.Length == 0) args.Add("--allow-env"); else args.Add(string.Concat("--allow-env=", string.Join(",", AllowEnv))); }
+    if (DenyEnv is not null) { if (DenyEnv.Length == 0) args.Add("--deny-env"); else args.Add(string.Concat("--deny-env=", string.Join(",", DenyEnv))); }
+    if (IgnoreEnv is not null) { if (IgnoreEnv.Length == 0) args.Add("--ignore-env"); else args.Add(string.Concat("--ignore-env=", string.Join(",", IgnoreEnv))); }
+    if (AllowNet is not null) { if (AllowNet.Length == 0) args.Add("--allow-net"); else args.Add(string.Concat("--allow-net=", string.Join(",", AllowNet))); }
+    if (DenyNet is not null) { if (DenyNet.Length == 0) args.Add("--deny-net"); else args.Add(string.Concat("--deny-net=", string.Join(",", DenyNet))); }
+    if (AllowRun is not null) { if (AllowRun.Length == 0) args.Add("--allow-run"); else args.Add(string.Concat("--allow-run=", string.Join(",", AllowRun))); }
+    if (DenyRun is not null) { if (DenyRun.Length == 0) args.Add("--deny-run"); else args.Add(string.Concat("--deny-run=", string.Join(",", DenyRun))); }
+    if (AllowFfi is not null) { if (AllowFfi.Length == 0) args.Add("--allow-ffi"); else args.Add(string.Concat("--allow-ffi=", string.Join(",", AllowFfi))); }
+    if (DenyFfi is not null) { if (DenyFfi.Length == 0) args.Add("--deny-ffi"); else args.Add(string.Concat("--deny-ffi=", string.Join(",", DenyFfi))); }
+    if (AllowSys is not null) { if (AllowSys.Length == 0) args.Add("--allow-sys"); else args.Add(string.Concat("--allow-sys=", string.Join(",", AllowSys))); }
+    if (DenySys is not null) { if (DenySys.Length == 0) args.Add("--deny-sys"); else args.Add(string.Concat("--deny-sys=", string.Join(",", DenySys))); }
+    if (NoPrompt == true) args.Add("--no-prompt");
+    if (UnstableBundle == true) args.Add("--unstable-bundle");
+    if (UnstableCron == true) args.Add("--unstable-cron");
+    if (UnstableDetectCjs == true) args.Add("--unstable-detect-cjs");
+    if (UnstableKv == true) args.Add("--unstable-kv");
+    if (UnstableLazyDynamicImports == true) args.Add("--unstable-lazy-dynamic-imports");
+    if (UnstableLockfileV5 == true) args.Add("--unstable-lockfile-v5");
+    if (UnstableNet == true) args.Add("--unstable-net");
+    if (UnstableNoLegacyAbort == true) args.Add("--unstable-no-legacy-abort");
+    if (UnstableNpmLazyCaching == true) args.Add("--unstable-npm-lazy-caching");
+    if (UnstableRawImports == true) args.Add("--unstable-raw-imports");
+    if (UnstableSloppyImports == true) args.Add("--unstable-sloppy-imports");
+    if (UnstableTsgo == true) args.Add("--unstable-tsgo");
+    if (UnstableUnsafeProto == true) args.Add("--unstable-unsafe-proto");
+    if (UnstableWebgpu == true) args.Add("--unstable-webgpu");
+    if (UnstableWorkerOptions == true) args.Add("--unstable-worker-options");
+    if (NoCheck is not null) { if (NoCheck.Length == 0) args.Add("--no-check"); else args.Add(string.Concat("--no-check=", NoCheck)); }
+    if (ImportMap is not null) { args.Add("--import-map"); args.Add(ImportMap); }
+    if (NoRemote == true) args.Add("--no-remote");
+    if (NoNpm == true) args.Add("--no-npm");
+    if (NodeModulesDir is not null) { if (NodeModulesDir.Length == 0) args.Add("--node-modules-dir"); else args.Add(string.Concat("--node-modules-dir=", NodeModulesDir)); }
+    if (NodeModulesLinker is not null) { args.Add("--node-modules-linker"); args.Add(NodeModulesLinker); }
+    if (Vendor is not null) { if (Vendor.Length == 0) args.Add("--vendor"); else args.Add(string.Concat("--vendor=", Vendor)); }
+    if (Conditions is not null) { args.Add("--conditions"); args.Add(Conditions); }
+    if (Reload is not null) { if (Reload.Length == 0) args.Add("--reload"); else args.Add(string.Concat("--reload=", string.Join(",", Reload))); }
+    if (Lock is not null) { if (Lock.Length == 0) args.Add("--lock"); else args.Add(string.Concat("--lock=", Lock)); }
+    if (NoLock == true) args.Add("--no-lock");
+    if (Frozen.HasValue) args.Add(Frozen.Value ? "--frozen" : "--frozen=false");
+    if (Cert is not null) { args.Add("--cert"); args.Add(Cert); }
+    if (MinimumDependencyAge is not null) { args.Add("--minimum-dependency-age"); args.Add(MinimumDependencyAge); }
+    if (AllowScripts is not null) { if (AllowScripts.Length == 0) args.Add("--allow-scripts"); else args.Add(string.Concat("--allow-scripts=", string.Join(",", AllowScripts))); }
+    if (CachedOnly == true) args.Add("--cached-only");
+    if (Location is not null) { args.Add("--location"); args.Add(Location); }
+    if (V8Flags is not null) { if (V8Flags.Length == 0) args.Add("--v8-flags"); else args.Add(string.Concat("--v8-flags=", string.Join(",", V8Flags))); }
+    if (Seed.HasValue) { args.Add("--seed"); args.Add(Seed.Value.ToString(CultureInfo.InvariantCulture)); }
+    if (Preload is not null) { args.Add("--preload"); args.Add(Preload); }
+    if (Require is not null) { args.Add("--require"); args.Add(Require); }
+    if (Check is not null) { if (Check.Length == 0) args.Add("--check"); else args.Add(string.Concat("--check=", Check)); }
+    if (InspectRenderer is not null) { if (InspectRenderer.Length == 0) args.Add("--inspect-renderer"); else args.Add(string.Concat("--inspect-renderer=", InspectRenderer)); }
+    if (Include is not null) { args.Add("--include"); args.Add(Include); }
+    if (Exclude is not null) { args.Add("--exclude"); args.Add(Exclude); }
+    if (ExcludeUnusedNpm == true) args.Add("--exclude-unused-npm");
+    if (Output is not null) { args.Add("--output"); args.Add(Output); }
+    if (Target is not null) { args.Add("--target"); args.Add(Target); }
+    if (NoCodeCache == true) args.Add("--no-code-cache");
+    if (Icon is not null) { args.Add("--icon"); args.Add(Icon); }
+    if (Hmr == true) args.Add("--hmr");
+    if (Backend is not null) { args.Add("--backend"); args.Add(Backend); }
+    if (Engine is not null) { args.Add("--engine"); args.Add(Engine); }
+    if (AllTargets == true) args.Add("--all-targets");
+    if (Compress is not null) { if (Compress.Length == 0) args.Add("--compress"); else args.Add(string.Concat("--compress=", Compress)); }
+    if (Ext is not null) { args.Add("--ext"); args.Add(Ext); }
+    if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
+    if (Unstable == true) args.Add("--unstable");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    UnstableBundle == true
+    || UnstableCron == true
+    || UnstableDetectCjs == true
+    || UnstableKv == true
+    || UnstableLazyDynamicImports == true
+    || UnstableLockfileV5 == true
+    || UnstableNet == true
+    || UnstableNoLegacyAbort == true
+    || UnstableNpmLazyCaching == true
+    || UnstableRawImports == true
+    || UnstableSloppyImports == true
+    || UnstableTsgo == true
+    || UnstableUnsafeProto == true
+    || UnstableWebgpu == true
+    || UnstableWorkerOptions == true
+    || NoCheck is not null
+    || ImportMap is not null
+    || NoRemote == true
+    || NoNpm == true
+    || NodeModulesDir is not null
+    || NodeModulesLinker is not null
+    || Vendor is not null
+    || Conditions is not null
+    || Reload is not null
+    || Lock is not null
+    || NoLock == true
+    || Frozen.HasValue
+    || Cert is not null
+    || MinimumDependencyAge is not null
+    || AllowScripts is not null
+    || CachedOnly == true
+    || Location is not null
+    || V8Flags is not null
+    || Seed.HasValue
+    || Preload is not null
+    || Require is not null
+    || Check is not null
+    || InspectRenderer is not null
+    || Include is not null
+    || Exclude is not null
+    || ExcludeUnusedNpm == true
+    || Output is not null
+    || Target is not null
+    || NoCodeCache == true
+    || Icon is not null
+    || Hmr == true
+    || Backend is not null
+    || Engine is not null
+    || AllTargets == true
+    || Compress is not null
+    || Ext is not null
+    || EnvFile is not null
+    || Unstable == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (UnstableBundle == true) versionCheck.Check(problems, "--unstable-bundle", "2.9.0", null);
+    if (UnstableCron == true) versionCheck.Check(problems, "--unstable-cron", "2.9.0", null);
+    if (UnstableDetectCjs == true) versionCheck.Check(problems, "--unstable-detect-cjs", "2.9.0", null);
+    if (UnstableKv == true) versionCheck.Check(problems, "--unstable-kv", "2.9.0", null);
+    if (UnstableLazyDynamicImports == true) versionCheck.Check(problems, "--unstable-lazy-dynamic-imports", "2.9.0", null);
+    if (UnstableLockfileV5 == true) versionCheck.Check(problems, "--unstable-lockfile-v5", "2.9.0", null);
+    if (UnstableNet == true) versionCheck.Check(problems, "--unstable-net", "2.9.0", null);
+    if (UnstableNoLegacyAbort == true) versionCheck.Check(problems, "--unstable-no-legacy-abort", "2.9.0", null);
+    if (UnstableNpmLazyCaching == true) versionCheck.Check(problems, "--unstable-npm-lazy-caching", "2.9.0", null);
+    if (UnstableRawImports == true) versionCheck.Check(problems, "--unstable-raw-imports", "2.9.0", null);
+    if (UnstableSloppyImports == true) versionCheck.Check(problems, "--unstable-sloppy-imports", "2.9.0", null);
+    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.9.0", null);
+    if (UnstableUnsafeProto == true) versionCheck.Check(problems, "--unstable-unsafe-proto", "2.9.0", null);
+    if (UnstableWebgpu == true) versionCheck.Check(problems, "--unstable-webgpu", "2.9.0", null);
+    if (UnstableWorkerOptions == true) versionCheck.Check(problems, "--unstable-worker-options", "2.9.0", null);
+    if (NoCheck is not null) versionCheck.Check(problems, "--no-check", "2.9.0", null);
+    if (ImportMap is not null) versionCheck.Check(problems, "--import-map", "2.9.0", null);
+    if (NoRemote == true) versionCheck.Check(problems, "--no-remote", "2.9.0", null);
+    if (NoNpm == true) versionCheck.Check(problems, "--no-npm", "2.9.0", null);
+    if (NodeModulesDir is not null) versionCheck.Check(problems, "--node-modules-dir", "2.9.0", null);
+    if (NodeModulesLinker is not null) versionCheck.Check(problems, "--node-modules-linker", "2.9.0", null);
+    if (Vendor is not null) versionCheck.Check(problems, "--vendor", "2.9.0", null);
+    if (Conditions is not null) versionCheck.Check(problems, "--conditions", "2.9.0", null);
+    if (Reload is not null) versionCheck.Check(problems, "--reload", "2.9.0", null);
+    if (Lock is not null) versionCheck.Check(problems, "--lock", "2.9.0", null);
+    if (NoLock == true) versionCheck.Check(problems, "--no-lock", "2.9.0", null);
+    if (Frozen.HasValue) versionCheck.Check(problems, "--frozen", "2.9.0", null);
+    if (Cert is not null) versionCheck.Check(problems, "--cert", "2.9.0", null);
+    if (MinimumDependencyAge is not null) versionCheck.Check(problems, "--minimum-dependency-age", "2.9.0", null);
+    if (AllowScripts is not null) versionCheck.Check(problems, "--allow-scripts", "2.9.0", null);
+    if (CachedOnly == true) versionCheck.Check(problems, "--cached-only", "2.9.0", null);
+    if (Location is not null) versionCheck.Check(problems, "--location", "2.9.0", null);
+    if (V8Flags is not null) versionCheck.Check(problems, "--v8-flags", "2.9.0", null);
+    if (Seed.HasValue) versionCheck.Check(problems, "--seed", "2.9.0", null);
+    if (Preload is not null) versionCheck.Check(problems, "--preload", "2.9.0", null);
+    if (Require is not null) versionCheck.Check(problems, "--require", "2.9.0", null);
+    if (Check is not null) versionCheck.Check(problems, "--check", "2.9.0", null);
+    if (InspectRenderer is not null) versionCheck.Check(problems, "--inspect-renderer", "2.9.0", null);
+    if (Include is not null) versionCheck.Check(problems, "--include", "2.9.0", null);
+    if (Exclude is not null) versionCheck.Check(problems, "--exclude", "2.9.0", null);
+    if (ExcludeUnusedNpm == true) versionCheck.Check(problems, "--exclude-unused-npm", "2.9.5", null);
+    if (Output is not null) versionCheck.Check(problems, "--output", "2.9.0", null);
+    if (Target is not null) versionCheck.Check(problems, "--target", "2.9.0", null);
+    if (NoCodeCache == true) versionCheck.Check(problems, "--no-code-cache", "2.9.0", null);
+    if (Icon is not null) versionCheck.Check(problems, "--icon", "2.9.0", null);
+    if (Hmr == true) versionCheck.Check(problems, "--hmr", "2.9.0", null);
+    if (Backend is not null) versionCheck.Check(problems, "--backend", "2.9.0", null);
+    if (Engine is not null) versionCheck.Check(problems, "--engine", "2.9.5", null);
+    if (AllTargets == true) versionCheck.Check(problems, "--all-targets", "2.9.0", null);
+    if (Compress is not null) versionCheck.Check(problems, "--compress", "2.9.0", null);
+    if (Ext is not null) versionCheck.Check(problems, "--ext", "2.9.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    if (Unstable == true) versionCheck.Check(problems, "--unstable", "2.9.0", null);
+    versionCheck.Report("desktop", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['A'] = "--allow-all", ['r'] = "--reload", ['o'] = "--output" };
+
+  /// <summary>Parses a <c>deno desktop</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static DesktopOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno desktop</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">The entry point and every token after it, plus anything after <c>--</c>.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static DesktopOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno desktop: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno desktop</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out DesktopOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno desktop</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out DesktopOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new DesktopOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: true);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--allow-all": result.AllowAll = reader.ReadFlag(); break;
+        case "--allow-read": result.AllowRead = DenoArgsReader.Concat(result.AllowRead, reader.ReadOptionalArray()); break;
+        case "--deny-read": result.DenyRead = DenoArgsReader.Concat(result.DenyRead, reader.ReadOptionalArray()); break;
+        case "--ignore-read": result.IgnoreRead = DenoArgsReader.Concat(result.IgnoreRead, reader.ReadOptionalArray()); break;
+        case "--allow-write": result.AllowWrite = DenoArgsReader.Concat(result.AllowWrite, reader.ReadOptionalArray()); break;
+        case "--deny-write": result.DenyWrite = DenoArgsReader.Concat(result.DenyWrite, reader.ReadOptionalArray()); break;
+        case "--allow-import": result.AllowImport = DenoArgsReader.Concat(result.AllowImport, reader.ReadOptionalArray()); break;
+        case "--deny-import": result.DenyImport = DenoArgsReader.Concat(result.DenyImport, reader.ReadOptionalArray()); break;
+        case "--allow-env": result.AllowEnv = DenoArgsReader.Concat(result.AllowEnv, reader.ReadOptionalArray()); break;
+        case "--deny-env": result.DenyEnv = DenoArgsReader.Concat(result.DenyEnv, reader.ReadOptionalArray()); break;
+        case "--ignore-env": result.IgnoreEnv = DenoArgsReader.Concat(result.IgnoreEnv, reader.ReadOptionalArray()); break;
+        case "--allow-net": result.AllowNet = DenoArgsReader.Concat(result.AllowNet, reader.ReadOptionalArray()); break;
+        case "--deny-net": result.DenyNet = DenoArgsReader.Concat(result.DenyNet, reader.ReadOptionalArray()); break;
+        case "--allow-run": result.AllowRun = DenoArgsReader.Concat(result.AllowRun, reader.ReadOptionalArray()); break;
+        case "--deny-run": result.DenyRun = DenoArgsReader.Concat(result.DenyRun, reader.ReadOptionalArray()); break;
+        case "--allow-ffi": result.AllowFfi = DenoArgsReader.Concat(result.AllowFfi, reader.ReadOptionalArray()); break;
+        case "--deny-ffi": result.DenyFfi = DenoArgsReader.Concat(result.DenyFfi, reader.ReadOptionalArray()); break;
+        case "--allow-sys": result.AllowSys = DenoArgsReader.Concat(result.AllowSys, reader.ReadOptionalArray()); break;
+        case "--deny-sys": result.DenySys = DenoArgsReader.Concat(result.DenySys, reader.ReadOptionalArray()); break;
+        case "--no-prompt": result.NoPrompt = reader.ReadFlag(); break;
+        case "--unstable-bundle": result.UnstableBundle = reader.ReadFlag(); break;
+        case "--unstable-cron": result.UnstableCron = reader.ReadFlag(); break;
+        case "--unstable-detect-cjs": result.UnstableDetectCjs = reader.ReadFlag(); break;
+        case "--unstable-kv": result.UnstableKv = reader.ReadFlag(); break;
+        case "--unstable-lazy-dynamic-imports": result.UnstableLazyDynamicImports = reader.ReadFlag(); break;
+        case "--unstable-lockfile-v5": result.UnstableLockfileV5 = reader.ReadFlag(); break;
+        case "--unstable-net": result.UnstableNet = reader.ReadFlag(); break;
+        case "--unstable-no-legacy-abort": result.UnstableNoLegacyAbort = reader.ReadFlag(); break;
+        case "--unstable-npm-lazy-caching": result.UnstableNpmLazyCaching = reader.ReadFlag(); break;
+        case "--unstable-raw-imports": result.UnstableRawImports = reader.ReadFlag(); break;
+        case "--unstable-sloppy-imports": result.UnstableSloppyImports = reader.ReadFlag(); break;
+        case "--unstable-tsgo": result.UnstableTsgo = reader.ReadFlag(); break;
+        case "--unstable-unsafe-proto": result.UnstableUnsafeProto = reader.ReadFlag(); break;
+        case "--unstable-webgpu": result.UnstableWebgpu = reader.ReadFlag(); break;
+        case "--unstable-worker-options": result.UnstableWorkerOptions = reader.ReadFlag(); break;
+        case "--no-check": result.NoCheck = reader.ReadOptionalValue(); break;
+        case "--import-map": result.ImportMap = reader.ReadValue(); break;
+        case "--no-remote": result.NoRemote = reader.ReadFlag(); break;
+        case "--no-npm": result.NoNpm = reader.ReadFlag(); break;
+        case "--node-modules-dir": result.NodeModulesDir = reader.ReadOptionalValue(); break;
+        case "--node-modules-linker": result.NodeModulesLinker = reader.ReadValue(); break;
+        case "--vendor": result.Vendor = reader.ReadOptionalValue(); break;
+        case "--conditions": result.Conditions = reader.ReadValue(); break;
+        case "--reload": result.Reload = DenoArgsReader.Concat(result.Reload, reader.ReadOptionalArray()); break;
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--cert": result.Cert = reader.ReadValue(); break;
+        case "--minimum-dependency-age": result.MinimumDependencyAge = reader.ReadValue(); break;
+        case "--allow-scripts": result.AllowScripts = DenoArgsReader.Concat(result.AllowScripts, reader.ReadOptionalArray()); break;
+        case "--cached-only": result.CachedOnly = reader.ReadFlag(); break;
+        case "--location": result.Location = reader.ReadValue(); break;
+        case "--v8-flags": result.V8Flags = DenoArgsReader.Concat(result.V8Flags, reader.ReadOptionalArray()); break;
+        case "--seed": result.Seed = reader.ReadInt32(); break;
+        case "--preload": result.Preload = reader.ReadValue(); break;
+        case "--require": result.Require = reader.ReadValue(); break;
+        case "--check": result.Check = reader.ReadOptionalValue(); break;
+        case "--inspect-renderer": result.InspectRenderer = reader.ReadOptionalValue(); break;
+        case "--include": result.Include = reader.ReadValue(); break;
+        case "--exclude": result.Exclude = reader.ReadValue(); break;
+        case "--exclude-unused-npm": result.ExcludeUnusedNpm = reader.ReadFlag(); break;
+        case "--output": result.Output = reader.ReadValue(); break;
+        case "--target": result.Target = reader.ReadValue(); break;
+        case "--no-code-cache": result.NoCodeCache = reader.ReadFlag(); break;
+        case "--icon": result.Icon = reader.ReadValue(); break;
+        case "--hmr": result.Hmr = reader.ReadFlag(); break;
+        case "--backend": result.Backend = reader.ReadValue(); break;
+        case "--engine": result.Engine = reader.ReadValue(); break;
+        case "--all-targets": result.AllTargets = reader.ReadFlag(); break;
+        case "--compress": result.Compress = reader.ReadOptionalValue(); break;
+        case "--ext": result.Ext = reader.ReadValue(); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--unstable": result.Unstable = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
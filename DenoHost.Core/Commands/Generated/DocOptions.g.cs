@@ -0,0 +1,377 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno doc</c>. Show documentation for a module.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/doc/"/>
+public sealed class DocOptions
+{
+  #region Unstable options
+
+  /// <summary>Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-detect-cjs</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-detect-cjs", Usage = "--unstable-detect-cjs", Heading = "Unstable options", Help = "Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases", Since = "2.1.0")]
+  public bool? UnstableDetectCjs { get; set; }
+
+  /// <summary>Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lazy-dynamic-imports</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lazy-dynamic-imports", Usage = "--unstable-lazy-dynamic-imports", Heading = "Unstable options", Help = "Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.", Since = "2.3.1")]
+  public bool? UnstableLazyDynamicImports { get; set; }
+
+  /// <summary>Enable unstable lockfile v5</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lockfile-v5</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lockfile-v5", Usage = "--unstable-lockfile-v5", Heading = "Unstable options", Help = "Enable unstable lockfile v5", Since = "2.3.1")]
+  public bool? UnstableLockfileV5 { get; set; }
+
+  /// <summary>Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-npm-lazy-caching</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-npm-lazy-caching", Usage = "--unstable-npm-lazy-caching", Heading = "Unstable options", Help = "Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed", Since = "2.3.1")]
+  public bool? UnstableNpmLazyCaching { get; set; }
+
+  /// <summary>Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sloppy-imports</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-sloppy-imports", Usage = "--unstable-sloppy-imports", Heading = "Unstable options", Help = "Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing")]
+  public bool? UnstableSloppyImports { get; set; }
+
+  /// <summary>Enable unstable TypeScript Go integration</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-tsgo</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-tsgo", Usage = "--unstable-tsgo", Heading = "Unstable options", Help = "Enable unstable TypeScript Go integration", Since = "2.6.0")]
+  public bool? UnstableTsgo { get; set; }
+
+  /// <summary>The <c>--unstable</c> flag has been deprecated. Use granular <c>--unstable-*</c> flags instead</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable", Usage = "--unstable", Heading = "Unstable options", Help = "The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead")]
+  public bool? Unstable { get; set; }
+
+  #endregion
+
+  #region Dependency management options
+
+  /// <summary>Load import map file from local file or remote URL</summary>
+  /// <remarks>
+  /// <para>Docs: <see href="https://docs.deno.com/runtime/manual/basics/import_maps"/></para>
+  /// <para>Usage: <c>--import-map &lt;FILE&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--import-map", Usage = "--import-map <FILE>", Heading = "Dependency management options", Help = "Load import map file from local file or remote URL\nDocs: https://docs.deno.com/runtime/manual/basics/import_maps")]
+  public string? ImportMap { get; set; }
+
+  /// <summary>Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--reload[=&lt;CACHE_BLOCKLIST&gt;...]</c> (short alias <c>-r</c>)</para>
+  /// </remarks>
+  [DenoFlag("--reload", ShortAlias = "-r", Usage = "--reload[=<CACHE_BLOCKLIST>...]", Heading = "Dependency management options", Help = "Reload source code cache (recompile TypeScript). With no value, reloads everything. Pass a comma-separated list of specifiers to reload only those modules; npm: reloads all npm modules; npm:chalk reloads a single npm module; jsr:@std/http/file-server,jsr:@std/assert/assert-equals reloads specific modules.")]
+  public string[]? Reload { get; set; }
+
+  /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")")]
+  public string? Lock { get; set; }
+
+  /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file")]
+  public bool? NoLock { get; set; }
+
+  /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date", Since = "2.4.0")]
+  public bool? Frozen { get; set; }
+
+  /// <summary>Do not resolve npm modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-npm</c></para>
+  /// </remarks>
+  [DenoFlag("--no-npm", Usage = "--no-npm", Heading = "Dependency management options", Help = "Do not resolve npm modules")]
+  public bool? NoNpm { get; set; }
+
+  /// <summary>Do not resolve remote modules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-remote</c></para>
+  /// </remarks>
+  [DenoFlag("--no-remote", Usage = "--no-remote", Heading = "Dependency management options", Help = "Do not resolve remote modules")]
+  public bool? NoRemote { get; set; }
+
+  #endregion
+
+  #region General
+
+  /// <summary>Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-import[=&lt;IP_OR_HOSTNAME&gt;...]</c> (short alias <c>-I</c>)</para>
+  /// </remarks>
+  [DenoFlag("--allow-import", ShortAlias = "-I", Usage = "--allow-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443")]
+  public string[]? AllowImport { get; set; }
+
+  /// <summary>Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-import[=&lt;IP_OR_HOSTNAME&gt;...]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--deny-import", Usage = "--deny-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.", Since = "2.4.0")]
+  public string[]? DenyImport { get; set; }
+
+  /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
+  public string? EnvFile { get; set; }
+
+  #endregion
+
+  #region Documentation options
+
+  /// <summary>Output documentation in JSON format</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--json</c></para>
+  /// </remarks>
+  [DenoFlag("--json", Usage = "--json", Heading = "Documentation options", Help = "Output documentation in JSON format")]
+  public bool? Json { get; set; }
+
+  /// <summary>Output documentation in HTML format</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--html</c></para>
+  /// </remarks>
+  [DenoFlag("--html", Usage = "--html", Heading = "Documentation options", Help = "Output documentation in HTML format")]
+  public bool? Html { get; set; }
+
+  /// <summary>The name that will be used in the docs (ie for breadcrumbs)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--name=&lt;name&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--name", Usage = "--name=<name>", Heading = "Documentation options", Help = "The name that will be used in the docs (ie for breadcrumbs)")]
+  public string? Name { get; set; }
+
+  /// <summary>Path to a JSON file keyed by category and an optional value of a markdown doc</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--category-docs=&lt;category-docs&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--category-docs", Usage = "--category-docs=<category-docs>", Heading = "Documentation options", Help = "Path to a JSON file keyed by category and an optional value of a markdown doc")]
+  public string? CategoryDocs { get; set; }
+
+  /// <summary>Path to a JSON file keyed by file, with an inner map of symbol to an external link</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--symbol-redirect-map=&lt;symbol-redirect-map&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--symbol-redirect-map", Usage = "--symbol-redirect-map=<symbol-redirect-map>", Heading = "Documentation options", Help = "Path to a JSON file keyed by file, with an inner map of symbol to an external link")]
+  public string? SymbolRedirectMap { get; set; }
+
+  /// <summary>Remove trailing .html from various links. Will still generate files with a .html extension</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--strip-trailing-html</c></para>
+  /// </remarks>
+  [DenoFlag("--strip-trailing-html", Usage = "--strip-trailing-html", Heading = "Documentation options", Help = "Remove trailing .html from various links. Will still generate files with a .html extension")]
+  public bool? StripTrailingHtml { get; set; }
+
+  /// <summary>Uses the provided mapping of default name to wanted name for usage blocks</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--default-symbol-map=&lt;default-symbol-map&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--default-symbol-map", Usage = "--default-symbol-map=<default-symbol-map>", Heading = "Documentation options", Help = "Uses the provided mapping of default name to wanted name for usage blocks")]
+  public string? DefaultSymbolMap { get; set; }
+
+  /// <summary>Directory for HTML documentation output</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--output=&lt;output&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--output", Usage = "--output=<output>", Heading = "Documentation options", Help = "Directory for HTML documentation output")]
+  public string? Output { get; set; }
+
+  /// <summary>Output private documentation</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--private</c></para>
+  /// </remarks>
+  [DenoFlag("--private", Usage = "--private", Heading = "Documentation options", Help = "Output private documentation")]
+  public bool? Private { get; set; }
+
+  /// <summary>Dot separated path to symbol</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--filter &lt;filter&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--filter", Usage = "--filter <filter>", Heading = "Documentation options", Help = "Dot separated path to symbol")]
+  public string? Filter { get; set; }
+
+  /// <summary>Output documentation diagnostics.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lint</c></para>
+  /// </remarks>
+  [DenoFlag("--lint", Usage = "--lint", Heading = "Documentation options", Help = "Output documentation diagnostics.")]
+  public bool? Lint { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno doc</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("doc", errors);
+  }
+
+  /// <summary>The <c>deno doc</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (UnstableDetectCjs == true) args.Add("--unstable-detect-cjs");
+    if (UnstableLazyDynamicImports == true) args.Add("--unstable-lazy-dynamic-imports");
+    if (UnstableLockfileV5 == true) args.Add("--unstable-lockfile-v5");
+    if (UnstableNpmLazyCaching == true) args.Add("--unstable-npm-lazy-caching");
+    if (UnstableSloppyImports == true) args.Add("--unstable-sloppy-imports");
+    if (UnstableTsgo == true) args.Add("--unstable-tsgo");
+    if (ImportMap is not null) { args.Add("--import-map"); args.Add(ImportMap); }
+    if (Reload is not null) { if (Reload.Length == 0) args.Add("--reload"); else args.Add(string.Concat("--reload=", string.Join(",", Reload))); }
+    if (Lock is not null) { if (Lock.Length == 0) args.Add("--lock"); else args.Add(string.Concat("--lock=", Lock)); }
+    if (NoLock == true) args.Add("--no-lock");
+    if (Frozen.HasValue) args.Add(Frozen.Value ? "--frozen" : "--frozen=false");
+    if (NoNpm == true) args.Add("--no-npm");
+    if (NoRemote == true) args.Add("--no-remote");
+    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else args.Add(string.Concat("--allow-import=", string.Join(",", AllowImport))); }
+    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else args.Add(string.Concat("--deny-import=", string.Join(",", DenyImport))); }
+    if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
+    if (Json == true) args.Add("--json");
+    if (Html == true) args.Add("--html");
+    if (Name is not null) { args.Add("--name"); args.Add(Name); }
+    if (CategoryDocs is not null) { args.Add("--category-docs"); args.Add(CategoryDocs); }
+    if (SymbolRedirectMap is not null) { args.Add("--symbol-redirect-map"); args.Add(SymbolRedirectMap); }
+    if (StripTrailingHtml == true) args.Add("--strip-trailing-html");
+    if (DefaultSymbolMap is not null) { args.Add("--default-symbol-map"); args.Add(DefaultSymbolMap); }
+    if (Output is not null) { args.Add("--output"); args.Add(Output); }
+    if (Private == true) args.Add("--private");
+    if (Filter is not null) { args.Add("--filter"); args.Add(Filter); }
+    if (Lint == true) args.Add("--lint");
+    if (Unstable == true) args.Add("--unstable");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    UnstableDetectCjs == true
+    || UnstableLazyDynamicImports == true
+    || UnstableLockfileV5 == true
+    || UnstableNpmLazyCaching == true
+    || UnstableTsgo == true
+    || Frozen.HasValue
+    || DenyImport is not null
+    || EnvFile is not null;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (UnstableDetectCjs == true) versionCheck.Check(problems, "--unstable-detect-cjs", "2.1.0", null);
+    if (UnstableLazyDynamicImports == true) versionCheck.Check(problems, "--unstable-lazy-dynamic-imports", "2.3.1", null);
+    if (UnstableLockfileV5 == true) versionCheck.Check(problems, "--unstable-lockfile-v5", "2.3.1", null);
+    if (UnstableNpmLazyCaching == true) versionCheck.Check(problems, "--unstable-npm-lazy-caching", "2.3.1", null);
+    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.6.0", null);
+    if (Frozen.HasValue) versionCheck.Check(problems, "--frozen", "2.4.0", null);
+    if (DenyImport is not null) versionCheck.Check(problems, "--deny-import", "2.4.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    versionCheck.Report("doc", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['r'] = "--reload", ['I'] = "--allow-import" };
+
+  /// <summary>Parses a <c>deno doc</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static DocOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno doc</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static DocOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno doc: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno doc</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out DocOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno doc</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out DocOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new DocOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--unstable-detect-cjs": result.UnstableDetectCjs = reader.ReadFlag(); break;
+        case "--unstable-lazy-dynamic-imports": result.UnstableLazyDynamicImports = reader.ReadFlag(); break;
+        case "--unstable-lockfile-v5": result.UnstableLockfileV5 = reader.ReadFlag(); break;
+        case "--unstable-npm-lazy-caching": result.UnstableNpmLazyCaching = reader.ReadFlag(); break;
+        case "--unstable-sloppy-imports": result.UnstableSloppyImports = reader.ReadFlag(); break;
+        case "--unstable-tsgo": result.UnstableTsgo = reader.ReadFlag(); break;
+        case "--import-map": result.ImportMap = reader.ReadValue(); break;
+        case "--reload": result.Reload = DenoArgsReader.Concat(result.Reload, reader.ReadOptionalArray()); break;
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--no-npm": result.NoNpm = reader.ReadFlag(); break;
+        case "--no-remote": result.NoRemote = reader.ReadFlag(); break;
+        case "--allow-import": result.AllowImport = DenoArgsReader.Concat(result.AllowImport, reader.ReadOptionalArray()); break;
+        case "--deny-import": result.DenyImport = DenoArgsReader.Concat(result.DenyImport, reader.ReadOptionalArray()); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--json": result.Json = reader.ReadFlag(); break;
+        case "--html": result.Html = reader.ReadFlag(); break;
+        case "--name": result.Name = reader.ReadValue(); break;
+        case "--category-docs": result.CategoryDocs = reader.ReadValue(); break;
+        case "--symbol-redirect-map": result.SymbolRedirectMap = reader.ReadValue(); break;
+        case "--strip-trailing-html": result.StripTrailingHtml = reader.ReadFlag(); break;
+        case "--default-symbol-map": result.DefaultSymbolMap = reader.ReadValue(); break;
+        case "--output": result.Output = reader.ReadValue(); break;
+        case "--private": result.Private = reader.ReadFlag(); break;
+        case "--filter": result.Filter = reader.ReadValue(); break;
+        case "--lint": result.Lint = reader.ReadFlag(); break;
+        case "--unstable": result.Unstable = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -0,0 +1,38 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--engine</c>.</summary>
+public enum EngineOption
+{
+  /// <summary><c>--engine=v8</c></summary>
+  V8,
+  /// <summary><c>--engine=quickjs</c></summary>
+  Quickjs,
+}
+
+internal static class EngineOptionExtensions
+{
+  internal static string ToArg(this EngineOption value) => value switch
+  {
+    EngineOption.V8 => "v8",
+    EngineOption.Quickjs => "quickjs",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out EngineOption value)
+  {
+    switch (arg)
+    {
+      case "v8": value = EngineOption.V8; return true;
+      case "quickjs": value = EngineOption.Quickjs; return true;
+      default: value = default; return false;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--ext</c>.</summary>
+public enum ExtOption
+{
+  /// <summary><c>--ext=ts</c></summary>
+  Ts,
+  /// <summary><c>--ext=tsx</c></summary>
+  Tsx,
+  /// <summary><c>--ext=js</c></summary>
+  Js,
+  /// <summary><c>--ext=jsx</c></summary>
+  Jsx,
+  /// <summary><c>--ext=mts</c></summary>
+  Mts,
+  /// <summary><c>--ext=mjs</c></summary>
+  Mjs,
+  /// <summary><c>--ext=cts</c></summary>
+  Cts,
+  /// <summary><c>--ext=cjs</c></summary>
+  Cjs,
+}
+
+internal static class ExtOptionExtensions
+{
+  internal static string ToArg(this ExtOption value) => value switch
+  {
+    ExtOption.Ts => "ts",
+    ExtOption.Tsx => "tsx",
+    ExtOption.Js => "js",
+    ExtOption.Jsx => "jsx",
+    ExtOption.Mts => "mts",
+    ExtOption.Mjs => "mjs",
+    ExtOption.Cts => "cts",
+    ExtOption.Cjs => "cjs",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out ExtOption value)
+  {
+    switch (arg)
+    {
+      case "ts": value = ExtOption.Ts; return true;
+      case "tsx": value = ExtOption.Tsx; return true;
+      case "js": value = ExtOption.Js; return true;
+      case "jsx": value = ExtOption.Jsx; return true;
+      case "mts": value = ExtOption.Mts; return true;
+      case "mjs": value = ExtOption.Mjs; return true;
+      case "cts": value = ExtOption.Cts; return true;
+      case "cjs": value = ExtOption.Cjs; return true;
+      default: value = default; return false;
+    }
+  }
+}
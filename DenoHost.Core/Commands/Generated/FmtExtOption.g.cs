@@ -0,0 +1,134 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--ext</c> for <c>deno fmt</c>.</summary>
+public enum FmtExtOption
+{
+  /// <summary><c>--ext=ts</c></summary>
+  Ts,
+  /// <summary><c>--ext=tsx</c></summary>
+  Tsx,
+  /// <summary><c>--ext=js</c></summary>
+  Js,
+  /// <summary><c>--ext=jsx</c></summary>
+  Jsx,
+  /// <summary><c>--ext=mts</c></summary>
+  Mts,
+  /// <summary><c>--ext=mjs</c></summary>
+  Mjs,
+  /// <summary><c>--ext=cts</c></summary>
+  Cts,
+  /// <summary><c>--ext=cjs</c></summary>
+  Cjs,
+  /// <summary><c>--ext=md</c></summary>
+  Md,
+  /// <summary><c>--ext=json</c></summary>
+  Json,
+  /// <summary><c>--ext=jsonc</c></summary>
+  Jsonc,
+  /// <summary><c>--ext=css</c></summary>
+  Css,
+  /// <summary><c>--ext=scss</c></summary>
+  Scss,
+  /// <summary><c>--ext=less</c></summary>
+  Less,
+  /// <summary><c>--ext=html</c></summary>
+  Html,
+  /// <summary><c>--ext=xml</c></summary>
+  Xml,
+  /// <summary><c>--ext=svg</c></summary>
+  Svg,
+  /// <summary><c>--ext=svelte</c></summary>
+  Svelte,
+  /// <summary><c>--ext=vue</c></summary>
+  Vue,
+  /// <summary><c>--ext=astro</c></summary>
+  Astro,
+  /// <summary><c>--ext=yml</c></summary>
+  Yml,
+  /// <summary><c>--ext=yaml</c></summary>
+  Yaml,
+  /// <summary><c>--ext=ipynb</c></summary>
+  Ipynb,
+  /// <summary><c>--ext=sql</c></summary>
+  Sql,
+  /// <summary><c>--ext=vto</c></summary>
+  Vto,
+  /// <summary><c>--ext=njk</c></summary>
+  Njk,
+}
+
+internal static class FmtExtOptionExtensions
+{
+  internal static string ToArg(this FmtExtOption value) => value switch
+  {
+    FmtExtOption.Ts => "ts",
+    FmtExtOption.Tsx => "tsx",
+    FmtExtOption.Js => "js",
+    FmtExtOption.Jsx => "jsx",
+    FmtExtOption.Mts => "mts",
+    FmtExtOption.Mjs => "mjs",
+    FmtExtOption.Cts => "cts",
+    FmtExtOption.Cjs => "cjs",
+    FmtExtOption.Md => "md",
+    FmtExtOption.Json => "json",
+    FmtExtOption.Jsonc => "jsonc",
+    FmtExtOption.Css => "css",
+    FmtExtOption.Scss => "scss",
+    FmtExtOption.Less => "less",
+    FmtExtOption.Html => "html",
+    FmtExtOption.Xml => "xml",
+    FmtExtOption.Svg => "svg",
+    FmtExtOption.Svelte => "svelte",
+    FmtExtOption.Vue => "vue",
+    FmtExtOption.Astro => "astro",
+    FmtExtOption.Yml => "yml",
+    FmtExtOption.Yaml => "yaml",
+    FmtExtOption.Ipynb => "ipynb",
+    FmtExtOption.Sql => "sql",
+    FmtExtOption.Vto => "vto",
+    FmtExtOption.Njk => "njk",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out FmtExtOption value)
+  {
+    switch (arg)
+    {
+      case "ts": value = FmtExtOption.Ts; return true;
+      case "tsx": value = FmtExtOption.Tsx; return true;
+      case "js": value = FmtExtOption.Js; return true;
+      case "jsx": value = FmtExtOption.Jsx; return true;
+      case "mts": value = FmtExtOption.Mts; return true;
+      case "mjs": value = FmtExtOption.Mjs; return true;
+      case "cts": value = FmtExtOption.Cts; return true;
+      case "cjs": value = FmtExtOption.Cjs; return true;
+      case "md": value = FmtExtOption.Md; return true;
+      case "json": value = FmtExtOption.Json; return true;
+      case "jsonc": value = FmtExtOption.Jsonc; return true;
+      case "css": value = FmtExtOption.Css; return true;
+      case "scss": value = FmtExtOption.Scss; return true;
+      case "less": value = FmtExtOption.Less; return true;
+      case "html": value = FmtExtOption.Html; return true;
+      case "xml": value = FmtExtOption.Xml; return true;
+      case "svg": value = FmtExtOption.Svg; return true;
+      case "svelte": value = FmtExtOption.Svelte; return true;
+      case "vue": value = FmtExtOption.Vue; return true;
+      case "astro": value = FmtExtOption.Astro; return true;
+      case "yml": value = FmtExtOption.Yml; return true;
+      case "yaml": value = FmtExtOption.Yaml; return true;
+      case "ipynb": value = FmtExtOption.Ipynb; return true;
+      case "sql": value = FmtExtOption.Sql; return true;
+      case "vto": value = FmtExtOption.Vto; return true;
+      case "njk": value = FmtExtOption.Njk; return true;
+      default: value = default; return false;
+    }
+  }
+}
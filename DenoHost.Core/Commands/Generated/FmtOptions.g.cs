@@ -4,53 +4,117 @@
 // Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
 #nullable enable
 
+using System;
 using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
 using System.Globalization;
 
 namespace DenoHost.Core.Commands;
 
 /// <summary>Options for <c>deno fmt</c>. Auto-format various file types.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/fmt/"/>
 public sealed class FmtOptions
 {
   #region Formatting options
 
   /// <summary>Check if the source files are formatted</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--check</c></para>
+  /// </remarks>
+  [DenoFlag("--check", Usage = "--check", Heading = "Formatting options", Help = "Check if the source files are formatted")]
   public bool? Check { get; set; }
 
   /// <summary>Stop checking files on first format error</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--fail-fast</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--fail-fast", Usage = "--fail-fast", Heading = "Formatting options", Help = "Stop checking files on first format error", Since = "2.7.1")]
   public bool? FailFast { get; set; }
 
   /// <summary>Set content type of the supplied file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ext &lt;ext&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--ext", Usage = "--ext <ext>", Heading = "Formatting options", Help = "Set content type of the supplied file")]
   public string? Ext { get; set; }
 
+  /// <summary>Typed view of <see cref="Ext"/>: <c>null</c> when it is unset or holds a value not in <see cref="FmtExtOption"/>.</summary>
+  public FmtExtOption? ExtOption { get => Ext is { } arg && FmtExtOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Ext = value?.ToArg(); }
+
   /// <summary>Ignore formatting particular source files</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore=&lt;ignore&gt;...</c></para>
+  /// </remarks>
+  [DenoFlag("--ignore", Usage = "--ignore=<ignore>...", Heading = "Formatting options", Help = "Ignore formatting particular source files")]
   public string[]? Ignore { get; set; }
 
-  /// <summary>Use tabs instead of spaces for indentation [38;5;245m[default: false][39m</summary>
+  /// <summary>Use tabs instead of spaces for indentation [default: false]</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--use-tabs[=&lt;use-tabs&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--use-tabs", Usage = "--use-tabs[=<use-tabs>]", Heading = "Formatting options", Help = "Use tabs instead of spaces for indentation [default: false]")]
   public bool? UseTabs { get; set; }
 
-  /// <summary>Define maximum line width [38;5;245m[default: 80][39m</summary>
+  /// <summary>Define maximum line width [default: 80]</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--line-width &lt;line-width&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--line-width", Usage = "--line-width <line-width>", Heading = "Formatting options", Help = "Define maximum line width [default: 80]")]
   public int? LineWidth { get; set; }
 
-  /// <summary>Define indentation width [38;5;245m[default: 2][39m</summary>
+  /// <summary>Define indentation width [default: 2]</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--indent-width &lt;indent-width&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--indent-width", Usage = "--indent-width <indent-width>", Heading = "Formatting options", Help = "Define indentation width [default: 2]")]
   public int? IndentWidth { get; set; }
 
-  /// <summary>Use single quotes [38;5;245m[default: false][39m</summary>
+  /// <summary>Use single quotes [default: false]</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--single-quote[=&lt;single-quote&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--single-quote", Usage = "--single-quote[=<single-quote>]", Heading = "Formatting options", Help = "Use single quotes [default: false]")]
   public bool? SingleQuote { get; set; }
 
-  /// <summary>Define how prose should be wrapped [38;5;245m[default: always][39m</summary>
+  /// <summary>Define how prose should be wrapped [default: always]</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--prose-wrap &lt;prose-wrap&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--prose-wrap", Usage = "--prose-wrap <prose-wrap>", Heading = "Formatting options", Help = "Define how prose should be wrapped [default: always]")]
   public string? ProseWrap { get; set; }
 
-  /// <summary>Don't use semicolons except where necessary [38;5;245m[default: false][39m</summary>
+  /// <summary>Typed view of <see cref="ProseWrap"/>: <c>null</c> when it is unset or holds a value not in <see cref="ProseWrapOption"/>.</summary>
+  public ProseWrapOption? ProseWrapOption { get => ProseWrap is { } arg && ProseWrapOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => ProseWrap = value?.ToArg(); }
+
+  /// <summary>Don't use semicolons except where necessary [default: false]</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-semicolons[=&lt;no-semicolons&gt;]</c></para>
+  /// </remarks>
+  [DenoFlag("--no-semicolons", Usage = "--no-semicolons[=<no-semicolons>]", Heading = "Formatting options", Help = "Don't use semicolons except where necessary [default: false]")]
   public bool? NoSemicolons { get; set; }
 
-  /// <summary>Don't read .editorconfig files to infer formatting options [38;5;245m[default: false][39m</summary>
+  /// <summary>Don't read .editorconfig files to infer formatting options [default: false]</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-editorconfig</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-editorconfig", Usage = "--no-editorconfig", Heading = "Formatting options", Help = "Don't read .editorconfig files to infer formatting options [default: false]", Since = "2.9.0")]
   public bool? NoEditorconfig { get; set; }
 
   /// <summary>Enable formatting Svelte, Vue, Astro and Angular files</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-component</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-component", Usage = "--unstable-component", Heading = "Formatting options", Help = "Enable formatting Svelte, Vue, Astro and Angular files")]
   public bool? UnstableComponent { get; set; }
 
   /// <summary>Enable formatting SQL files.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sql</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-sql", Usage = "--unstable-sql", Heading = "Formatting options", Help = "Enable formatting SQL files.", Since = "2.1.0")]
   public bool? UnstableSql { get; set; }
 
   #endregion
@@ -58,6 +122,11 @@ public sealed class FmtOptions
   #region General
 
   /// <summary>Don't return an error code if no files were found</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--permit-no-files</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--permit-no-files", Usage = "--permit-no-files", Heading = "General", Help = "Don't return an error code if no files were found", Since = "2.3.1")]
   public bool? PermitNoFiles { get; set; }
 
   #endregion
@@ -65,17 +134,40 @@ public sealed class FmtOptions
   #region File watching options
 
   /// <summary>Watch for file changes and restart process automatically.</summary>
+  /// <remarks>
+  /// <para>Local files from entry point module graph are watched by default. Additional paths might be watched by passing them as arguments to this flag.</para>
+  /// <para>Usage: <c>--watch[=&lt;FILES&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--watch", Usage = "--watch[=<FILES>...]", Heading = "File watching options", Help = "Watch for file changes and restart process automatically.\nLocal files from entry point module graph are watched by default.\nAdditional paths might be watched by passing them as arguments to this flag.")]
   public string[]? Watch { get; set; }
 
   /// <summary>Exclude provided files/patterns from watch mode</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--watch-exclude[=&lt;FILES&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--watch-exclude", Usage = "--watch-exclude[=<FILES>...]", Heading = "File watching options", Help = "Exclude provided files/patterns from watch mode")]
   public string[]? WatchExclude { get; set; }
 
   /// <summary>Do not clear terminal screen when under watch mode</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-clear-screen</c></para>
+  /// </remarks>
+  [DenoFlag("--no-clear-screen", Usage = "--no-clear-screen", Heading = "File watching options", Help = "Do not clear terminal screen when under watch mode")]
   public bool? NoClearScreen { get; set; }
 
   #endregion
 
-  internal string[] ToArgs()
+  /// <summary>Checks for flag combinations <c>deno fmt</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (NoClearScreen == true && Watch is null) errors.Add("'--no-clear-screen' requires '--watch'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("fmt", errors);
+  }
+
+  /// <summary>The <c>deno fmt</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
   {
     var args = new List<string>();
     if (Check == true) args.Add("--check");
@@ -83,8 +175,8 @@ public sealed class FmtOptions
     if (Ext is not null) { args.Add("--ext"); args.Add(Ext); }
     if (Ignore is { Length: > 0 }) { args.Add("--ignore"); args.Add(string.Join(",", Ignore)); }
     if (PermitNoFiles == true) args.Add("--permit-no-files");
-    if (Watch is not null) { if (Watch.Length == 0) args.Add("--watch"); else { args.Add("--watch"); args.Add(string.Join(",", Watch)); } }
-    if (WatchExclude is not null) { if (WatchExclude.Length == 0) args.Add("--watch-exclude"); else { args.Add("--watch-exclude"); args.Add(string.Join(",", WatchExclude)); } }
+    if (Watch is not null) { if (Watch.Length == 0) args.Add("--watch"); else args.Add(string.Concat("--watch=", string.Join(",", Watch))); }
+    if (WatchExclude is not null) { if (WatchExclude.Length == 0) args.Add("--watch-exclude"); else args.Add(string.Concat("--watch-exclude=", string.Join(",", WatchExclude))); }
     if (NoClearScreen == true) args.Add("--no-clear-screen");
     if (UseTabs.HasValue) args.Add(UseTabs.Value ? "--use-tabs" : "--use-tabs=false");
     if (LineWidth.HasValue) { args.Add("--line-width"); args.Add(LineWidth.Value.ToString(CultureInfo.InvariantCulture)); }
@@ -97,4 +189,79 @@ public sealed class FmtOptions
     if (UnstableSql == true) args.Add("--unstable-sql");
     return [.. args];
   }
+
+  internal bool UsesVersionedFlags =>
+    FailFast == true
+    || PermitNoFiles == true
+    || NoEditorconfig == true
+    || UnstableSql == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (FailFast == true) versionCheck.Check(problems, "--fail-fast", "2.7.1", null);
+    if (PermitNoFiles == true) versionCheck.Check(problems, "--permit-no-files", "2.3.1", null);
+    if (NoEditorconfig == true) versionCheck.Check(problems, "--no-editorconfig", "2.9.0", null);
+    if (UnstableSql == true) versionCheck.Check(problems, "--unstable-sql", "2.1.0", null);
+    versionCheck.Report("fmt", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new();
+
+  /// <summary>Parses a <c>deno fmt</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static FmtOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno fmt</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static FmtOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno fmt: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno fmt</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out FmtOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno fmt</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out FmtOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new FmtOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--check": result.Check = reader.ReadFlag(); break;
+        case "--fail-fast": result.FailFast = reader.ReadFlag(); break;
+        case "--ext": result.Ext = reader.ReadValue(); break;
+        case "--ignore": result.Ignore = DenoArgsReader.Concat(result.Ignore, reader.ReadArray()); break;
+        case "--permit-no-files": result.PermitNoFiles = reader.ReadFlag(); break;
+        case "--watch": result.Watch = DenoArgsReader.Concat(result.Watch, reader.ReadOptionalArray()); break;
+        case "--watch-exclude": result.WatchExclude = DenoArgsReader.Concat(result.WatchExclude, reader.ReadOptionalArray()); break;
+        case "--no-clear-screen": result.NoClearScreen = reader.ReadFlag(); break;
+        case "--use-tabs": result.UseTabs = reader.ReadBoolean(); break;
+        case "--line-width": result.LineWidth = reader.ReadInt32(); break;
+        case "--indent-width": result.IndentWidth = reader.ReadInt32(); break;
+        case "--single-quote": result.SingleQuote = reader.ReadBoolean(); break;
+        case "--prose-wrap": result.ProseWrap = reader.ReadValue(); break;
+        case "--no-semicolons": result.NoSemicolons = reader.ReadBoolean(); break;
+        case "--no-editorconfig": result.NoEditorconfig = reader.ReadFlag(); break;
+        case "--unstable-component": result.UnstableComponent = reader.ReadFlag(); break;
+        case "--unstable-sql": result.UnstableSql = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
 }
@@ -0,0 +1,150 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno init</c>. scaffolds a basic Deno project with a script, test, and configuration file</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/init/"/>
+public sealed class InitOptions
+{
+  #region General
+
+  /// <summary>Generate a npm create-* project</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--npm</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--npm", Usage = "--npm", Heading = "General", Help = "Generate a npm create-* project", Since = "2.1.0")]
+  public bool? Npm { get; set; }
+
+  /// <summary>Generate a project from a JSR package</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--jsr</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--jsr", Usage = "--jsr", Heading = "General", Help = "Generate a project from a JSR package", Since = "2.7.1")]
+  public bool? Jsr { get; set; }
+
+  /// <summary>Generate an example library project</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lib</c></para>
+  /// </remarks>
+  [DenoFlag("--lib", Usage = "--lib", Heading = "General", Help = "Generate an example library project")]
+  public bool? Lib { get; set; }
+
+  /// <summary>Generate an example project for <c>deno serve</c></summary>
+  /// <remarks>
+  /// <para>Usage: <c>--serve</c></para>
+  /// </remarks>
+  [DenoFlag("--serve", Usage = "--serve", Heading = "General", Help = "Generate an example project for `deno serve`")]
+  public bool? Serve { get; set; }
+
+  /// <summary>Generate a minimal project with just main.ts and deno.json</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--empty</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--empty", Usage = "--empty", Heading = "General", Help = "Generate a minimal project with just main.ts and deno.json", Since = "2.6.0")]
+  public bool? Empty { get; set; }
+
+  /// <summary>Bypass the prompt and run with full permissions</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--yes</c> (short alias <c>-y</c>)</para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--yes", ShortAlias = "-y", Usage = "--yes", Heading = "General", Help = "Bypass the prompt and run with full permissions", Since = "2.6.0")]
+  public bool? Yes { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno init</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno init</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Npm == true) args.Add("--npm");
+    if (Jsr == true) args.Add("--jsr");
+    if (Lib == true) args.Add("--lib");
+    if (Serve == true) args.Add("--serve");
+    if (Empty == true) args.Add("--empty");
+    if (Yes == true) args.Add("--yes");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Npm == true
+    || Jsr == true
+    || Empty == true
+    || Yes == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Npm == true) versionCheck.Check(problems, "--npm", "2.1.0", null);
+    if (Jsr == true) versionCheck.Check(problems, "--jsr", "2.7.1", null);
+    if (Empty == true) versionCheck.Check(problems, "--empty", "2.6.0", null);
+    if (Yes == true) versionCheck.Check(problems, "--yes", "2.6.0", null);
+    versionCheck.Report("init", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['y'] = "--yes" };
+
+  /// <summary>Parses a <c>deno init</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static InitOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno init</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static InitOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno init: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno init</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out InitOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno init</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out InitOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new InitOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--npm": result.Npm = reader.ReadFlag(); break;
+        case "--jsr": result.Jsr = reader.ReadFlag(); break;
+        case "--lib": result.Lib = reader.ReadFlag(); break;
+        case "--serve": result.Serve = reader.ReadFlag(); break;
+        case "--empty": result.Empty = reader.ReadFlag(); break;
+        case "--yes": result.Yes = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
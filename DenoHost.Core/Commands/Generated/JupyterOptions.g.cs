@@ -0,0 +1,147 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno jupyter</c>. Deno kernel for Jupyter notebooks</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/jupyter/"/>
+public sealed class JupyterOptions
+{
+  #region General
+
+  /// <summary>Install a kernelspec</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--install</c></para>
+  /// </remarks>
+  [DenoFlag("--install", Usage = "--install", Heading = "General", Help = "Install a kernelspec")]
+  public bool? Install { get; set; }
+
+  /// <summary>Set a name for the kernel (defaults to 'deno'). Useful when maintaing multiple Deno kernels.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--name &lt;name&gt;</c> (short alias <c>-n</c>)</para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--name", ShortAlias = "-n", Usage = "--name <name>", Heading = "General", Help = "Set a name for the kernel (defaults to 'deno'). Useful when maintaing multiple Deno kernels.", Since = "2.4.0")]
+  public string? Name { get; set; }
+
+  /// <summary>Set a display name for the kernel (defaults to 'Deno'). Useful when maintaing multiple Deno kernels.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--display &lt;display&gt;</c> (short alias <c>-d</c>)</para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--display", ShortAlias = "-d", Usage = "--display <display>", Heading = "General", Help = "Set a display name for the kernel (defaults to 'Deno'). Useful when maintaing multiple Deno kernels.", Since = "2.4.0")]
+  public string? Display { get; set; }
+
+  /// <summary>Force installation of a kernel, overwriting previously existing kernelspec</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--force</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--force", Usage = "--force", Heading = "General", Help = "Force installation of a kernel, overwriting previously existing kernelspec", Since = "2.4.0")]
+  public bool? Force { get; set; }
+
+  /// <summary>Start the kernel</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--kernel</c></para>
+  /// </remarks>
+  [DenoFlag("--kernel", Usage = "--kernel", Heading = "General", Help = "Start the kernel")]
+  public bool? Kernel { get; set; }
+
+  /// <summary>Path to JSON file describing connection parameters, provided by Jupyter</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--conn &lt;conn&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--conn", Usage = "--conn <conn>", Heading = "General", Help = "Path to JSON file describing connection parameters, provided by Jupyter")]
+  public string? Conn { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno jupyter</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno jupyter</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Install == true) args.Add("--install");
+    if (Name is not null) { args.Add("--name"); args.Add(Name); }
+    if (Display is not null) { args.Add("--display"); args.Add(Display); }
+    if (Force == true) args.Add("--force");
+    if (Kernel == true) args.Add("--kernel");
+    if (Conn is not null) { args.Add("--conn"); args.Add(Conn); }
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Name is not null
+    || Display is not null
+    || Force == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Name is not null) versionCheck.Check(problems, "--name", "2.4.0", null);
+    if (Display is not null) versionCheck.Check(problems, "--display", "2.4.0", null);
+    if (Force == true) versionCheck.Check(problems, "--force", "2.4.0", null);
+    versionCheck.Report("jupyter", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['n'] = "--name", ['d'] = "--display" };
+
+  /// <summary>Parses a <c>deno jupyter</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static JupyterOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno jupyter</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static JupyterOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno jupyter: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno jupyter</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out JupyterOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno jupyter</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out JupyterOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new JupyterOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--install": result.Install = reader.ReadFlag(); break;
+        case "--name": result.Name = reader.ReadValue(); break;
+        case "--display": result.Display = reader.ReadValue(); break;
+        case "--force": result.Force = reader.ReadFlag(); break;
+        case "--kernel": result.Kernel = reader.ReadFlag(); break;
+        case "--conn": result.Conn = reader.ReadValue(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -0,0 +1,46 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--level</c>.</summary>
+public enum LevelOption
+{
+  /// <summary><c>--level=low</c></summary>
+  Low,
+  /// <summary><c>--level=moderate</c></summary>
+  Moderate,
+  /// <summary><c>--level=high</c></summary>
+  High,
+  /// <summary><c>--level=critical</c></summary>
+  Critical,
+}
+
+internal static class LevelOptionExtensions
+{
+  internal static string ToArg(this LevelOption value) => value switch
+  {
+    LevelOption.Low => "low",
+    LevelOption.Moderate => "moderate",
+    LevelOption.High => "high",
+    LevelOption.Critical => "critical",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out LevelOption value)
+  {
+    switch (arg)
+    {
+      case "low": value = LevelOption.Low; return true;
+      case "moderate": value = LevelOption.Moderate; return true;
+      case "high": value = LevelOption.High; return true;
+      case "critical": value = LevelOption.Critical; return true;
+      default: value = default; return false;
+    }
+  }
+}
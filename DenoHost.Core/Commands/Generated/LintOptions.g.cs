@@ -4,35 +4,71 @@
 // Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
 #nullable enable
 
+using System;
 using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
 using System.Globalization;
 
 namespace DenoHost.Core.Commands;
 
 /// <summary>Options for <c>deno lint</c>. Lint JavaScript/TypeScript source code.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/lint/"/>
 public sealed class LintOptions
 {
   #region Unstable options
 
   /// <summary>Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-detect-cjs</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-detect-cjs", Usage = "--unstable-detect-cjs", Heading = "Unstable options", Help = "Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases", Since = "2.1.0")]
   public bool? UnstableDetectCjs { get; set; }
 
   /// <summary>Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lazy-dynamic-imports</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lazy-dynamic-imports", Usage = "--unstable-lazy-dynamic-imports", Heading = "Unstable options", Help = "Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.", Since = "2.3.1")]
   public bool? UnstableLazyDynamicImports { get; set; }
 
   /// <summary>Enable unstable lockfile v5</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lockfile-v5</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lockfile-v5", Usage = "--unstable-lockfile-v5", Heading = "Unstable options", Help = "Enable unstable lockfile v5", Since = "2.3.1")]
   public bool? UnstableLockfileV5 { get; set; }
 
   /// <summary>Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-npm-lazy-caching</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-npm-lazy-caching", Usage = "--unstable-npm-lazy-caching", Heading = "Unstable options", Help = "Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed", Since = "2.3.1")]
   public bool? UnstableNpmLazyCaching { get; set; }
 
   /// <summary>Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sloppy-imports</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable-sloppy-imports", Usage = "--unstable-sloppy-imports", Heading = "Unstable options", Help = "Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing")]
   public bool? UnstableSloppyImports { get; set; }
 
   /// <summary>Enable unstable TypeScript Go integration</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-tsgo</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-tsgo", Usage = "--unstable-tsgo", Heading = "Unstable options", Help = "Enable unstable TypeScript Go integration", Since = "2.6.0")]
   public bool? UnstableTsgo { get; set; }
 
-  /// <summary>The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead</summary>
+  /// <summary>The <c>--unstable</c> flag has been deprecated. Use granular <c>--unstable-*</c> flags instead</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable</c></para>
+  /// </remarks>
+  [DenoFlag("--unstable", Usage = "--unstable", Heading = "Unstable options", Help = "The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead")]
   public bool? Unstable { get; set; }
 
   #endregion
@@ -40,43 +76,97 @@ public sealed class LintOptions
   #region Linting options
 
   /// <summary>Fix any linting errors for rules that support it</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--fix</c></para>
+  /// </remarks>
+  [DenoFlag("--fix", Usage = "--fix", Heading = "Linting options", Help = "Fix any linting errors for rules that support it")]
   public bool? Fix { get; set; }
 
   /// <summary>List available rules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--rules</c></para>
+  /// </remarks>
+  [DenoFlag("--rules", Usage = "--rules", Heading = "Linting options", Help = "List available rules")]
   public bool? Rules { get; set; }
 
   /// <summary>Use set of rules with a tag</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--rules-tags=&lt;rules-tags&gt;...</c></para>
+  /// </remarks>
+  [DenoFlag("--rules-tags", Usage = "--rules-tags=<rules-tags>...", Heading = "Linting options", Help = "Use set of rules with a tag")]
   public string[]? RulesTags { get; set; }
 
   /// <summary>Include lint rules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--rules-include=&lt;rules-include&gt;...</c></para>
+  /// </remarks>
+  [DenoFlag("--rules-include", Usage = "--rules-include=<rules-include>...", Heading = "Linting options", Help = "Include lint rules")]
   public string[]? RulesInclude { get; set; }
 
   /// <summary>Exclude lint rules</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--rules-exclude=&lt;rules-exclude&gt;...</c></para>
+  /// </remarks>
+  [DenoFlag("--rules-exclude", Usage = "--rules-exclude=<rules-exclude>...", Heading = "Linting options", Help = "Exclude lint rules")]
   public string[]? RulesExclude { get; set; }
 
   /// <summary>Ignore linting particular source files</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore=&lt;ignore&gt;...</c></para>
+  /// </remarks>
+  [DenoFlag("--ignore", Usage = "--ignore=<ignore>...", Heading = "Linting options", Help = "Ignore linting particular source files")]
   public string[]? Ignore { get; set; }
 
   /// <summary>Output lint result in JSON format</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--json</c></para>
+  /// </remarks>
+  [DenoFlag("--json", Usage = "--json", Heading = "Linting options", Help = "Output lint result in JSON format")]
   public bool? Json { get; set; }
 
   /// <summary>Output lint result in compact format</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--compact</c></para>
+  /// </remarks>
+  [DenoFlag("--compact", Usage = "--compact", Heading = "Linting options", Help = "Output lint result in compact format")]
   public bool? Compact { get; set; }
 
   #endregion
 
   #region General
 
-  /// <summary>Specify the file extension to lint when reading from stdin.For example, use `jsx` to lint JSX files or `tsx` for TSX files.This argument is necessary because stdin input does not automatically infer the file type.Example usage: `cat file.jsx | deno lint - --ext=jsx`.</summary>
+  /// <summary>Specify the file extension to lint when reading from stdin.For example, use <c>jsx</c> to lint JSX files or <c>tsx</c> for TSX files.This argument is necessary because stdin input does not automatically infer the file type.Example usage: <c>cat file.jsx | deno lint - --ext=jsx</c>.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ext=&lt;EXT&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--ext", Usage = "--ext=<EXT>", Heading = "General", Help = "Specify the file extension to lint when reading from stdin.For example, use `jsx` to lint JSX files or `tsx` for TSX files.This argument is necessary because stdin input does not automatically infer the file type.Example usage: `cat file.jsx | deno lint - --ext=jsx`.")]
   public string? Ext { get; set; }
 
+  /// <summary>Typed view of <see cref="Ext"/>: <c>null</c> when it is unset or holds a value not in <see cref="ExtOption"/>.</summary>
+  public ExtOption? ExtOption { get => Ext is { } arg && ExtOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Ext = value?.ToArg(); }
+
   /// <summary>Don't return an error code if no files were found</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--permit-no-files</c></para>
+  /// <para>Available since Deno 2.3.1.</para>
+  /// </remarks>
+  [DenoFlag("--permit-no-files", Usage = "--permit-no-files", Heading = "General", Help = "Don't return an error code if no files were found", Since = "2.3.1")]
   public bool? PermitNoFiles { get; set; }
 
-  /// <summary>Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: [38;5;245mdeno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443[39m</summary>
+  /// <summary>Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-import[=&lt;IP_OR_HOSTNAME&gt;...]</c> (short alias <c>-I</c>)</para>
+  /// <para>Available since Deno 2.2.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-import", ShortAlias = "-I", Usage = "--allow-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Allow importing from remote hosts. Optionally specify allowed IP addresses and host names, with ports as necessary. Default value: deno.land:443,jsr.io:443,esm.sh:443,raw.esm.sh:443,cdn.jsdelivr.net:443,raw.githubusercontent.com:443,gist.githubusercontent.com:443", Since = "2.2.0")]
   public string[]? AllowImport { get; set; }
 
   /// <summary>Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--deny-import[=&lt;IP_OR_HOSTNAME&gt;...]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--deny-import", Usage = "--deny-import[=<IP_OR_HOSTNAME>...]", Heading = "General", Help = "Deny importing from remote hosts. Optionally specify denied IP addresses and host names, with ports as necessary.", Since = "2.4.0")]
   public string[]? DenyImport { get; set; }
 
   #endregion
@@ -84,17 +174,40 @@ public sealed class LintOptions
   #region File watching options
 
   /// <summary>Watch for file changes and restart process automatically.</summary>
+  /// <remarks>
+  /// <para>Local files from entry point module graph are watched by default. Additional paths might be watched by passing them as arguments to this flag.</para>
+  /// <para>Usage: <c>--watch[=&lt;FILES&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--watch", Usage = "--watch[=<FILES>...]", Heading = "File watching options", Help = "Watch for file changes and restart process automatically.\nLocal files from entry point module graph are watched by default.\nAdditional paths might be watched by passing them as arguments to this flag.")]
   public string[]? Watch { get; set; }
 
   /// <summary>Exclude provided files/patterns from watch mode</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--watch-exclude[=&lt;FILES&gt;...]</c></para>
+  /// </remarks>
+  [DenoFlag("--watch-exclude", Usage = "--watch-exclude[=<FILES>...]", Heading = "File watching options", Help = "Exclude provided files/patterns from watch mode")]
   public string[]? WatchExclude { get; set; }
 
   /// <summary>Do not clear terminal screen when under watch mode</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-clear-screen</c></para>
+  /// </remarks>
+  [DenoFlag("--no-clear-screen", Usage = "--no-clear-screen", Heading = "File watching options", Help = "Do not clear terminal screen when under watch mode")]
   public bool? NoClearScreen { get; set; }
 
   #endregion
 
-  internal string[] ToArgs()
+  /// <summary>Checks for flag combinations <c>deno lint</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (NoClearScreen == true && Watch is null) errors.Add("'--no-clear-screen' requires '--watch'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("lint", errors);
+  }
+
+  /// <summary>The <c>deno lint</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
   {
     var args = new List<string>();
     if (UnstableDetectCjs == true) args.Add("--unstable-detect-cjs");
@@ -113,12 +226,100 @@ public sealed class LintOptions
     if (Json == true) args.Add("--json");
     if (Compact == true) args.Add("--compact");
     if (PermitNoFiles == true) args.Add("--permit-no-files");
-    if (Watch is not null) { if (Watch.Length == 0) args.Add("--watch"); else { args.Add("--watch"); args.Add(string.Join(",", Watch)); } }
-    if (WatchExclude is not null) { if (WatchExclude.Length == 0) args.Add("--watch-exclude"); else { args.Add("--watch-exclude"); args.Add(string.Join(",", WatchExclude)); } }
+    if (Watch is not null) { if (Watch.Length == 0) args.Add("--watch"); else args.Add(string.Concat("--watch=", string.Join(",", Watch))); }
+    if (WatchExclude is not null) { if (WatchExclude.Length == 0) args.Add("--watch-exclude"); else args.Add(string.Concat("--watch-exclude=", string.Join(",", WatchExclude))); }
     if (NoClearScreen == true) args.Add("--no-clear-screen");
-    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else { args.Add("--allow-import"); args.Add(string.Join(",", AllowImport)); } }
-    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else { args.Add("--deny-import"); args.Add(string.Join(",", DenyImport)); } }
+    if (AllowImport is not null) { if (AllowImport.Length == 0) args.Add("--allow-import"); else args.Add(string.Concat("--allow-import=", string.Join(",", AllowImport))); }
+    if (DenyImport is not null) { if (DenyImport.Length == 0) args.Add("--deny-import"); else args.Add(string.Concat("--deny-import=", string.Join(",", DenyImport))); }
     if (Unstable == true) args.Add("--unstable");
     return [.. args];
   }
+
+  internal bool UsesVersionedFlags =>
+    UnstableDetectCjs == true
+    || UnstableLazyDynamicImports == true
+    || UnstableLockfileV5 == true
+    || UnstableNpmLazyCaching == true
+    || UnstableTsgo == true
+    || PermitNoFiles == true
+    || AllowImport is not null
+    || DenyImport is not null;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (UnstableDetectCjs == true) versionCheck.Check(problems, "--unstable-detect-cjs", "2.1.0", null);
+    if (UnstableLazyDynamicImports == true) versionCheck.Check(problems, "--unstable-lazy-dynamic-imports", "2.3.1", null);
+    if (UnstableLockfileV5 == true) versionCheck.Check(problems, "--unstable-lockfile-v5", "2.3.1", null);
+    if (UnstableNpmLazyCaching == true) versionCheck.Check(problems, "--unstable-npm-lazy-caching", "2.3.1", null);
+    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.6.0", null);
+    if (PermitNoFiles == true) versionCheck.Check(problems, "--permit-no-files", "2.3.1", null);
+    if (AllowImport is not null) versionCheck.Check(problems, "--allow-import", "2.2.0", null);
+    if (DenyImport is not null) versionCheck.Check(problems, "--deny-import", "2.4.0", null);
+    versionCheck.Report("lint", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['I'] = "--allow-import" };
+
+  /// <summary>Parses a <c>deno lint</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static LintOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno lint</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static LintOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno lint: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno lint</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out LintOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno lint</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out LintOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new LintOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--unstable-detect-cjs": result.UnstableDetectCjs = reader.ReadFlag(); break;
+        case "--unstable-lazy-dynamic-imports": result.UnstableLazyDynamicImports = reader.ReadFlag(); break;
+        case "--unstable-lockfile-v5": result.UnstableLockfileV5 = reader.ReadFlag(); break;
+        case "--unstable-npm-lazy-caching": result.UnstableNpmLazyCaching = reader.ReadFlag(); break;
+        case "--unstable-sloppy-imports": result.UnstableSloppyImports = reader.ReadFlag(); break;
+        case "--unstable-tsgo": result.UnstableTsgo = reader.ReadFlag(); break;
+        case "--fix": result.Fix = reader.ReadFlag(); break;
+        case "--ext": result.Ext = reader.ReadValue(); break;
+        case "--rules": result.Rules = reader.ReadFlag(); break;
+        case "--rules-tags": result.RulesTags = DenoArgsReader.Concat(result.RulesTags, reader.ReadArray()); break;
+        case "--rules-include": result.RulesInclude = DenoArgsReader.Concat(result.RulesInclude, reader.ReadArray()); break;
+        case "--rules-exclude": result.RulesExclude = DenoArgsReader.Concat(result.RulesExclude, reader.ReadArray()); break;
+        case "--ignore": result.Ignore = DenoArgsReader.Concat(result.Ignore, reader.ReadArray()); break;
+        case "--json": result.Json = reader.ReadFlag(); break;
+        case "--compact": result.Compact = reader.ReadFlag(); break;
+        case "--permit-no-files": result.PermitNoFiles = reader.ReadFlag(); break;
+        case "--watch": result.Watch = DenoArgsReader.Concat(result.Watch, reader.ReadOptionalArray()); break;
+        case "--watch-exclude": result.WatchExclude = DenoArgsReader.Concat(result.WatchExclude, reader.ReadOptionalArray()); break;
+        case "--no-clear-screen": result.NoClearScreen = reader.ReadFlag(); break;
+        case "--allow-import": result.AllowImport = DenoArgsReader.Concat(result.AllowImport, reader.ReadOptionalArray()); break;
+        case "--deny-import": result.DenyImport = DenoArgsReader.Concat(result.DenyImport, reader.ReadOptionalArray()); break;
+        case "--unstable": result.Unstable = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
 }
@@ -0,0 +1,132 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno list</c>. List the dependencies declared in deno.json / package.json.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/list/"/>
+public sealed class ListOptions
+{
+  #region General
+
+  /// <summary>Maximum depth of the dependency tree to display (0 = direct dependencies only)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--depth &lt;depth&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--depth", Usage = "--depth <depth>", Heading = "General", Help = "Maximum depth of the dependency tree to display (0 = direct dependencies only)", Since = "2.9.0")]
+  public string? Depth { get; set; }
+
+  /// <summary>Only list production dependencies</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--prod</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--prod", Usage = "--prod", Heading = "General", Help = "Only list production dependencies", Since = "2.9.0")]
+  public bool? Prod { get; set; }
+
+  /// <summary>Only list development dependencies</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--dev</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--dev", Usage = "--dev", Heading = "General", Help = "Only list development dependencies", Since = "2.9.0")]
+  public bool? Dev { get; set; }
+
+  /// <summary>Include all workspace members</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--recursive</c> (short alias <c>-r</c>)</para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--recursive", ShortAlias = "-r", Usage = "--recursive", Heading = "General", Help = "Include all workspace members", Since = "2.9.0")]
+  public bool? Recursive { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno list</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno list</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Depth is not null) { args.Add("--depth"); args.Add(Depth); }
+    if (Prod == true) args.Add("--prod");
+    if (Dev == true) args.Add("--dev");
+    if (Recursive == true) args.Add("--recursive");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Depth is not null
+    || Prod == true
+    || Dev == true
+    || Recursive == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Depth is not null) versionCheck.Check(problems, "--depth", "2.9.0", null);
+    if (Prod == true) versionCheck.Check(problems, "--prod", "2.9.0", null);
+    if (Dev == true) versionCheck.Check(problems, "--dev", "2.9.0", null);
+    if (Recursive == true) versionCheck.Check(problems, "--recursive", "2.9.0", null);
+    versionCheck.Report("list", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['r'] = "--recursive" };
+
+  /// <summary>Parses a <c>deno list</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static ListOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno list</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static ListOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno list: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno list</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out ListOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno list</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out ListOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new ListOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--depth": result.Depth = reader.ReadValue(); break;
+        case "--prod": result.Prod = reader.ReadFlag(); break;
+        case "--dev": result.Dev = reader.ReadFlag(); break;
+        case "--recursive": result.Recursive = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -0,0 +1,38 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--no-check</c>.</summary>
+public enum NoCheckOption
+{
+  /// <summary>Passes <c>--no-check</c> without a value.</summary>
+  Default,
+  /// <summary><c>--no-check=remote</c></summary>
+  Remote,
+}
+
+internal static class NoCheckOptionExtensions
+{
+  internal static string ToArg(this NoCheckOption value) => value switch
+  {
+    NoCheckOption.Default => "",
+    NoCheckOption.Remote => "remote",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out NoCheckOption value)
+  {
+    switch (arg)
+    {
+      case "": value = NoCheckOption.Default; return true;
+      case "remote": value = NoCheckOption.Remote; return true;
+      default: value = default; return false;
+    }
+  }
+}
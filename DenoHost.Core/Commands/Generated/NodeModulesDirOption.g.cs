@@ -0,0 +1,46 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--node-modules-dir</c>.</summary>
+public enum NodeModulesDirOption
+{
+  /// <summary>Passes <c>--node-modules-dir</c> without a value.</summary>
+  Default,
+  /// <summary><c>--node-modules-dir=auto</c></summary>
+  Auto,
+  /// <summary><c>--node-modules-dir=manual</c></summary>
+  Manual,
+  /// <summary><c>--node-modules-dir=none</c></summary>
+  None,
+}
+
+internal static class NodeModulesDirOptionExtensions
+{
+  internal static string ToArg(this NodeModulesDirOption value) => value switch
+  {
+    NodeModulesDirOption.Default => "",
+    NodeModulesDirOption.Auto => "auto",
+    NodeModulesDirOption.Manual => "manual",
+    NodeModulesDirOption.None => "none",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out NodeModulesDirOption value)
+  {
+    switch (arg)
+    {
+      case "": value = NodeModulesDirOption.Default; return true;
+      case "auto": value = NodeModulesDirOption.Auto; return true;
+      case "manual": value = NodeModulesDirOption.Manual; return true;
+      case "none": value = NodeModulesDirOption.None; return true;
+      default: value = default; return false;
+    }
+  }
+}
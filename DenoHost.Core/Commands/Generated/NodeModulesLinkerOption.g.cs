@@ -0,0 +1,38 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--node-modules-linker</c>.</summary>
+public enum NodeModulesLinkerOption
+{
+  /// <summary><c>--node-modules-linker=isolated</c></summary>
+  Isolated,
+  /// <summary><c>--node-modules-linker=hoisted</c></summary>
+  Hoisted,
+}
+
+internal static class NodeModulesLinkerOptionExtensions
+{
+  internal static string ToArg(this NodeModulesLinkerOption value) => value switch
+  {
+    NodeModulesLinkerOption.Isolated => "isolated",
+    NodeModulesLinkerOption.Hoisted => "hoisted",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out NodeModulesLinkerOption value)
+  {
+    switch (arg)
+    {
+      case "isolated": value = NodeModulesLinkerOption.Isolated; return true;
+      case "hoisted": value = NodeModulesLinkerOption.Hoisted; return true;
+      default: value = default; return false;
+    }
+  }
+}
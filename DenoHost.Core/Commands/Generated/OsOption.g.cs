@@ -0,0 +1,62 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--os</c>.</summary>
+public enum OsOption
+{
+  /// <summary><c>--os=aix</c></summary>
+  Aix,
+  /// <summary><c>--os=android</c></summary>
+  Android,
+  /// <summary><c>--os=darwin</c></summary>
+  Darwin,
+  /// <summary><c>--os=freebsd</c></summary>
+  Freebsd,
+  /// <summary><c>--os=linux</c></summary>
+  Linux,
+  /// <summary><c>--os=openbsd</c></summary>
+  Openbsd,
+  /// <summary><c>--os=sunos</c></summary>
+  Sunos,
+  /// <summary><c>--os=win32</c></summary>
+  Win32,
+}
+
+internal static class OsOptionExtensions
+{
+  internal static string ToArg(this OsOption value) => value switch
+  {
+    OsOption.Aix => "aix",
+    OsOption.Android => "android",
+    OsOption.Darwin => "darwin",
+    OsOption.Freebsd => "freebsd",
+    OsOption.Linux => "linux",
+    OsOption.Openbsd => "openbsd",
+    OsOption.Sunos => "sunos",
+    OsOption.Win32 => "win32",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out OsOption value)
+  {
+    switch (arg)
+    {
+      case "aix": value = OsOption.Aix; return true;
+      case "android": value = OsOption.Android; return true;
+      case "darwin": value = OsOption.Darwin; return true;
+      case "freebsd": value = OsOption.Freebsd; return true;
+      case "linux": value = OsOption.Linux; return true;
+      case "openbsd": value = OsOption.Openbsd; return true;
+      case "sunos": value = OsOption.Sunos; return true;
+      case "win32": value = OsOption.Win32; return true;
+      default: value = default; return false;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno outdated</c>. Find and update outdated dependencies.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/outdated/"/>
+public sealed class OutdatedOptions
+{
+  #region General
+
+  /// <summary>Consider the latest version, regardless of semver constraints</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--latest</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--latest", Usage = "--latest", Heading = "General", Help = "Consider the latest version, regardless of semver constraints", Since = "2.1.0")]
+  public bool? Latest { get; set; }
+
+  /// <summary>Only consider versions that satisfy semver requirements</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--compatible</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--compatible", Usage = "--compatible", Heading = "General", Help = "Only consider versions that satisfy semver requirements", Since = "2.1.0")]
+  public bool? Compatible { get; set; }
+
+  /// <summary>Include all workspace members</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--recursive</c> (short alias <c>-r</c>)</para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--recursive", ShortAlias = "-r", Usage = "--recursive", Heading = "General", Help = "Include all workspace members", Since = "2.1.0")]
+  public bool? Recursive { get; set; }
+
+  /// <summary>(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--minimum-dependency-age &lt;minimum-dependency-age&gt;</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--minimum-dependency-age", Usage = "--minimum-dependency-age <minimum-dependency-age>", Heading = "General", Help = "(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)", Since = "2.6.0")]
+  public string? MinimumDependencyAge { get; set; }
+
+  /// <summary>Install only updating the lockfile</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lockfile-only</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--lockfile-only", Usage = "--lockfile-only", Heading = "General", Help = "Install only updating the lockfile", Since = "2.6.0")]
+  public bool? LockfileOnly { get; set; }
+
+  /// <summary>Interactively select which dependencies to update</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--interactive</c> (short alias <c>-i</c>)</para>
+  /// <para>Available since Deno 2.2.0.</para>
+  /// </remarks>
+  [DenoFlag("--interactive", ShortAlias = "-i", Usage = "--interactive", Heading = "General", Help = "Interactively select which dependencies to update", Since = "2.2.0")]
+  public bool? Interactive { get; set; }
+
+  /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
+  public string? EnvFile { get; set; }
+
+  /// <summary>Update dependency versions</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--update</c> (short alias <c>-u</c>)</para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--update", ShortAlias = "-u", Usage = "--update", Heading = "General", Help = "Update dependency versions", Since = "2.1.0")]
+  public bool? Update { get; set; }
+
+  #endregion
+
+  #region Dependency management options
+
+  /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")", Since = "2.1.0")]
+  public string? Lock { get; set; }
+
+  /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// <para>Available since Deno 2.1.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file", Since = "2.1.0")]
+  public bool? NoLock { get; set; }
+
+  /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date", Since = "2.4.0")]
+  public bool? Frozen { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno outdated</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("outdated", errors);
+  }
+
+  /// <summary>The <c>deno outdated</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Latest == true) args.Add("--latest");
+    if (Compatible == true) args.Add("--compatible");
+    if (Recursive == true) args.Add("--recursive");
+    if (MinimumDependencyAge is not null) { args.Add("--minimum-dependency-age"); args.Add(MinimumDependencyAge); }
+    if (LockfileOnly == true) args.Add("--lockfile-only");
+    if (Interactive == true) args.Add("--interactive");
+    if (Lock is not null) { if (Lock.Length == 0) args.Add("--lock"); else args.Add(string.Concat("--lock=", Lock)); }
+    if (NoLock == true) args.Add("--no-lock");
+    if (Frozen.HasValue) args.Add(Frozen.Value ? "--frozen" : "--frozen=false");
+    if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
+    if (Update == true) args.Add("--update");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Latest == true
+    || Compatible == true
+    || Recursive == true
+    || MinimumDependencyAge is not null
+    || LockfileOnly == true
+    || Interactive == true
+    || Lock is not null
+    || NoLock == true
+    || Frozen.HasValue
+    || EnvFile is not null
+    || Update == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Latest == true) versionCheck.Check(problems, "--latest", "2.1.0", null);
+    if (Compatible == true) versionCheck.Check(problems, "--compatible", "2.1.0", null);
+    if (Recursive == true) versionCheck.Check(problems, "--recursive", "2.1.0", null);
+    if (MinimumDependencyAge is not null) versionCheck.Check(problems, "--minimum-dependency-age", "2.6.0", null);
+    if (LockfileOnly == true) versionCheck.Check(problems, "--lockfile-only", "2.6.0", null);
+    if (Interactive == true) versionCheck.Check(problems, "--interactive", "2.2.0", null);
+    if (Lock is not null) versionCheck.Check(problems, "--lock", "2.1.0", null);
+    if (NoLock == true) versionCheck.Check(problems, "--no-lock", "2.1.0", null);
+    if (Frozen.HasValue) versionCheck.Check(problems, "--frozen", "2.4.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    if (Update == true) versionCheck.Check(problems, "--update", "2.1.0", null);
+    versionCheck.Report("outdated", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['r'] = "--recursive", ['i'] = "--interactive", ['u'] = "--update" };
+
+  /// <summary>Parses a <c>deno outdated</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static OutdatedOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno outdated</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static OutdatedOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno outdated: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno outdated</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out OutdatedOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno outdated</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out OutdatedOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new OutdatedOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--latest": result.Latest = reader.ReadFlag(); break;
+        case "--compatible": result.Compatible = reader.ReadFlag(); break;
+        case "--recursive": result.Recursive = reader.ReadFlag(); break;
+        case "--minimum-dependency-age": result.MinimumDependencyAge = reader.ReadValue(); break;
+        case "--lockfile-only": result.LockfileOnly = reader.ReadFlag(); break;
+        case "--interactive": result.Interactive = reader.ReadFlag(); break;
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--update": result.Update = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
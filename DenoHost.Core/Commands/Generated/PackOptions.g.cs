@@ -0,0 +1,269 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno pack</c>. Create an npm-compatible tarball from a Deno project</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/pack/"/>
+public sealed class PackOptions
+{
+  #region Unstable options
+
+  /// <summary>Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-detect-cjs</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-detect-cjs", Usage = "--unstable-detect-cjs", Heading = "Unstable options", Help = "Treats ambiguous .js, .jsx, .ts, .tsx files as CommonJS modules in more cases", Since = "2.8.0")]
+  public bool? UnstableDetectCjs { get; set; }
+
+  /// <summary>Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lazy-dynamic-imports</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lazy-dynamic-imports", Usage = "--unstable-lazy-dynamic-imports", Heading = "Unstable options", Help = "Lazily loads statically analyzable dynamic imports when not running with type checking. Warning: This may change the order of semver specifier resolution.", Since = "2.8.0")]
+  public bool? UnstableLazyDynamicImports { get; set; }
+
+  /// <summary>Enable unstable lockfile v5</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-lockfile-v5</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-lockfile-v5", Usage = "--unstable-lockfile-v5", Heading = "Unstable options", Help = "Enable unstable lockfile v5", Since = "2.8.0")]
+  public bool? UnstableLockfileV5 { get; set; }
+
+  /// <summary>Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-npm-lazy-caching</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-npm-lazy-caching", Usage = "--unstable-npm-lazy-caching", Heading = "Unstable options", Help = "Enable unstable lazy caching of npm dependencies, downloading them only as needed (disabled: all npm packages in package.json are installed on startup; enabled: only npm packages that are actually referenced in an import are installed", Since = "2.8.0")]
+  public bool? UnstableNpmLazyCaching { get; set; }
+
+  /// <summary>Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-sloppy-imports</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-sloppy-imports", Usage = "--unstable-sloppy-imports", Heading = "Unstable options", Help = "Enable unstable resolving of specifiers by extension probing, .js to .ts, and directory probing", Since = "2.8.0")]
+  public bool? UnstableSloppyImports { get; set; }
+
+  /// <summary>Enable unstable TypeScript Go integration</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable-tsgo</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable-tsgo", Usage = "--unstable-tsgo", Heading = "Unstable options", Help = "Enable unstable TypeScript Go integration", Since = "2.8.0")]
+  public bool? UnstableTsgo { get; set; }
+
+  /// <summary>The <c>--unstable</c> flag has been deprecated. Use granular <c>--unstable-*</c> flags instead</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--unstable</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--unstable", Usage = "--unstable", Heading = "Unstable options", Help = "The `--unstable` flag has been deprecated. Use granular `--unstable-*` flags instead", Since = "2.8.0")]
+  public bool? Unstable { get; set; }
+
+  #endregion
+
+  #region General
+
+  /// <summary>Output file path (defaults to &lt;name&gt;-&lt;version&gt;.tgz)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--output &lt;FILE&gt;</c> (short alias <c>-o</c>)</para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--output", ShortAlias = "-o", Usage = "--output <FILE>", Heading = "General", Help = "Output file path (defaults to <name>-<version>.tgz)", Since = "2.8.0")]
+  public string? Output { get; set; }
+
+  /// <summary>Show what would be packed without creating the tarball</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--dry-run</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--dry-run", Usage = "--dry-run", Heading = "General", Help = "Show what would be packed without creating the tarball", Since = "2.8.0")]
+  public bool? DryRun { get; set; }
+
+  /// <summary>Skip fast-check type extraction; .d.ts files are omitted from the output</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-slow-types</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-slow-types", Usage = "--allow-slow-types", Heading = "General", Help = "Skip fast-check type extraction; .d.ts files are omitted from the output", Since = "2.8.0")]
+  public bool? AllowSlowTypes { get; set; }
+
+  /// <summary>Allow packing if the repository has uncommitted changes</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--allow-dirty</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--allow-dirty", Usage = "--allow-dirty", Heading = "General", Help = "Allow packing if the repository has uncommitted changes", Since = "2.8.0")]
+  public bool? AllowDirty { get; set; }
+
+  /// <summary>Override the version in the tarball</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--set-version &lt;VERSION&gt;</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--set-version", Usage = "--set-version <VERSION>", Heading = "General", Help = "Override the version in the tarball", Since = "2.8.0")]
+  public string? SetVersion { get; set; }
+
+  /// <summary>Don't include source maps in the output</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-source-maps</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-source-maps", Usage = "--no-source-maps", Heading = "General", Help = "Don't include source maps in the output", Since = "2.8.0")]
+  public bool? NoSourceMaps { get; set; }
+
+  /// <summary>Ignore files matching these patterns</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--ignore=&lt;ignore&gt;...</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--ignore", Usage = "--ignore=<ignore>...", Heading = "General", Help = "Ignore files matching these patterns", Since = "2.8.0")]
+  public string[]? Ignore { get; set; }
+
+  /// <summary>Load environment variables from local file</summary>
+  /// <remarks>
+  /// <para>Only the first environment variable with a given key is used. Existing process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved. Where multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.</para>
+  /// <para>Usage: <c>--env-file[=&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--env-file", Usage = "--env-file[=<FILE>]", Heading = "General", Help = "Load environment variables from local file\nOnly the first environment variable with a given key is used.\nExisting process environment variables are not overwritten, so if variables with the same names already exist in the environment, their values will be preserved.\nWhere multiple declarations for the same environment variable exist in your .env file, the first one encountered is applied. This is determined by the order of the files you pass as arguments.", Since = "2.9.0")]
+  public string? EnvFile { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno pack</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno pack</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (UnstableDetectCjs == true) args.Add("--unstable-detect-cjs");
+    if (UnstableLazyDynamicImports == true) args.Add("--unstable-lazy-dynamic-imports");
+    if (UnstableLockfileV5 == true) args.Add("--unstable-lockfile-v5");
+    if (UnstableNpmLazyCaching == true) args.Add("--unstable-npm-lazy-caching");
+    if (UnstableSloppyImports == true) args.Add("--unstable-sloppy-imports");
+    if (UnstableTsgo == true) args.Add("--unstable-tsgo");
+    if (Output is not null) { args.Add("--output"); args.Add(Output); }
+    if (DryRun == true) args.Add("--dry-run");
+    if (AllowSlowTypes == true) args.Add("--allow-slow-types");
+    if (AllowDirty == true) args.Add("--allow-dirty");
+    if (SetVersion is not null) { args.Add("--set-version"); args.Add(SetVersion); }
+    if (NoSourceMaps == true) args.Add("--no-source-maps");
+    if (Ignore is { Length: > 0 }) { args.Add("--ignore"); args.Add(string.Join(",", Ignore)); }
+    if (EnvFile is not null) { if (EnvFile.Length == 0) args.Add("--env-file"); else args.Add(string.Concat("--env-file=", EnvFile)); }
+    if (Unstable == true) args.Add("--unstable");
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    UnstableDetectCjs == true
+    || UnstableLazyDynamicImports == true
+    || UnstableLockfileV5 == true
+    || UnstableNpmLazyCaching == true
+    || UnstableSloppyImports == true
+    || UnstableTsgo == true
+    || Output is not null
+    || DryRun == true
+    || AllowSlowTypes == true
+    || AllowDirty == true
+    || SetVersion is not null
+    || NoSourceMaps == true
+    || Ignore is { Length: > 0 }
+    || EnvFile is not null
+    || Unstable == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (UnstableDetectCjs == true) versionCheck.Check(problems, "--unstable-detect-cjs", "2.8.0", null);
+    if (UnstableLazyDynamicImports == true) versionCheck.Check(problems, "--unstable-lazy-dynamic-imports", "2.8.0", null);
+    if (UnstableLockfileV5 == true) versionCheck.Check(problems, "--unstable-lockfile-v5", "2.8.0", null);
+    if (UnstableNpmLazyCaching == true) versionCheck.Check(problems, "--unstable-npm-lazy-caching", "2.8.0", null);
+    if (UnstableSloppyImports == true) versionCheck.Check(problems, "--unstable-sloppy-imports", "2.8.0", null);
+    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.8.0", null);
+    if (Output is not null) versionCheck.Check(problems, "--output", "2.8.0", null);
+    if (DryRun == true) versionCheck.Check(problems, "--dry-run", "2.8.0", null);
+    if (AllowSlowTypes == true) versionCheck.Check(problems, "--allow-slow-types", "2.8.0", null);
+    if (AllowDirty == true) versionCheck.Check(problems, "--allow-dirty", "2.8.0", null);
+    if (SetVersion is not null) versionCheck.Check(problems, "--set-version", "2.8.0", null);
+    if (NoSourceMaps == true) versionCheck.Check(problems, "--no-source-maps", "2.8.0", null);
+    if (Ignore is { Length: > 0 }) versionCheck.Check(problems, "--ignore", "2.8.0", null);
+    if (EnvFile is not null) versionCheck.Check(problems, "--env-file", "2.9.0", null);
+    if (Unstable == true) versionCheck.Check(problems, "--unstable", "2.8.0", null);
+    versionCheck.Report("pack", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['o'] = "--output" };
+
+  /// <summary>Parses a <c>deno pack</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static PackOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno pack</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static PackOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno pack: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno pack</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out PackOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno pack</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out PackOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new PackOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--unstable-detect-cjs": result.UnstableDetectCjs = reader.ReadFlag(); break;
+        case "--unstable-lazy-dynamic-imports": result.UnstableLazyDynamicImports = reader.ReadFlag(); break;
+        case "--unstable-lockfile-v5": result.UnstableLockfileV5 = reader.ReadFlag(); break;
+        case "--unstable-npm-lazy-caching": result.UnstableNpmLazyCaching = reader.ReadFlag(); break;
+        case "--unstable-sloppy-imports": result.UnstableSloppyImports = reader.ReadFlag(); break;
+        case "--unstable-tsgo": result.UnstableTsgo = reader.ReadFlag(); break;
+        case "--output": result.Output = reader.ReadValue(); break;
+        case "--dry-run": result.DryRun = reader.ReadFlag(); break;
+        case "--allow-slow-types": result.AllowSlowTypes = reader.ReadFlag(); break;
+        case "--allow-dirty": result.AllowDirty = reader.ReadFlag(); break;
+        case "--set-version": result.SetVersion = reader.ReadValue(); break;
+        case "--no-source-maps": result.NoSourceMaps = reader.ReadFlag(); break;
+        case "--ignore": result.Ignore = DenoArgsReader.Concat(result.Ignore, reader.ReadArray()); break;
+        case "--env-file": result.EnvFile = reader.ReadOptionalValue(); break;
+        case "--unstable": result.Unstable = reader.ReadFlag(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -0,0 +1,42 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--prose-wrap</c>.</summary>
+public enum ProseWrapOption
+{
+  /// <summary><c>--prose-wrap=always</c></summary>
+  Always,
+  /// <summary><c>--prose-wrap=never</c></summary>
+  Never,
+  /// <summary><c>--prose-wrap=preserve</c></summary>
+  Preserve,
+}
+
+internal static class ProseWrapOptionExtensions
+{
+  internal static string ToArg(this ProseWrapOption value) => value switch
+  {
+    ProseWrapOption.Always => "always",
+    ProseWrapOption.Never => "never",
+    ProseWrapOption.Preserve => "preserve",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out ProseWrapOption value)
+  {
+    switch (arg)
+    {
+      case "always": value = ProseWrapOption.Always; return true;
+      case "never": value = ProseWrapOption.Never; return true;
+      case "preserve": value = ProseWrapOption.Preserve; return true;
+      default: value = default; return false;
+    }
+  }
+}
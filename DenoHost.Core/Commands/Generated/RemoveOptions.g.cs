@@ -4,29 +4,57 @@
 // Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
 #nullable enable
 
+using System;
 using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
 using System.Globalization;
 
 namespace DenoHost.Core.Commands;
 
 /// <summary>Options for <c>deno remove</c>. Remove dependencies from the configuration file.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/remove/"/>
 public sealed class RemoveOptions
 {
   #region General
 
   /// <summary>Installation root</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--root &lt;root&gt;</c></para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--root", Usage = "--root <root>", Heading = "General", Help = "Installation root", Since = "2.9.0")]
   public string? Root { get; set; }
 
   /// <summary>Remove globally installed package or module</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--global</c> (short alias <c>-g</c>)</para>
+  /// <para>Available since Deno 2.9.0.</para>
+  /// </remarks>
+  [DenoFlag("--global", ShortAlias = "-g", Usage = "--global", Heading = "General", Help = "Remove globally installed package or module", Since = "2.9.0")]
   public bool? Global { get; set; }
 
   /// <summary>Install only updating the lockfile</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lockfile-only</c></para>
+  /// <para>Available since Deno 2.6.0.</para>
+  /// </remarks>
+  [DenoFlag("--lockfile-only", Usage = "--lockfile-only", Heading = "General", Help = "Install only updating the lockfile", Since = "2.6.0")]
   public bool? LockfileOnly { get; set; }
 
   /// <summary>Force using package.json for dependency management instead of deno.json</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--package-json</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--package-json", Usage = "--package-json", Heading = "General", Help = "Force using package.json for dependency management instead of deno.json", Since = "2.8.0")]
   public bool? PackageJson { get; set; }
 
   /// <summary>(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--minimum-dependency-age &lt;minimum-dependency-age&gt;</c></para>
+  /// <para>Available since Deno 2.9.5.</para>
+  /// </remarks>
+  [DenoFlag("--minimum-dependency-age", Usage = "--minimum-dependency-age <minimum-dependency-age>", Heading = "General", Help = "(Unstable) The age in minutes, ISO-8601 duration or RFC3339 absolute timestamp (e.g. '120' for two hours, 'P2D' for two days, '2025-09-16' for cutoff date, '2025-09-16T12:00:00+00:00' for cutoff time, '0' to disable)", Since = "2.9.5")]
   public string? MinimumDependencyAge { get; set; }
 
   #endregion
@@ -34,17 +62,42 @@ public sealed class RemoveOptions
   #region Dependency management options
 
   /// <summary>Check the specified lock file. (If value is not provided, defaults to "./deno.lock")</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--lock [&lt;FILE&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--lock", Usage = "--lock [<FILE>]", Heading = "Dependency management options", Help = "Check the specified lock file. (If value is not provided, defaults to \"./deno.lock\")", Since = "2.4.0")]
   public string? Lock { get; set; }
 
   /// <summary>Disable auto discovery of the lock file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-lock</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-lock", Usage = "--no-lock", Heading = "Dependency management options", Help = "Disable auto discovery of the lock file", Since = "2.4.0")]
   public bool? NoLock { get; set; }
 
   /// <summary>Error out if lockfile is out of date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--frozen[=&lt;BOOLEAN&gt;]</c></para>
+  /// <para>Available since Deno 2.4.0.</para>
+  /// </remarks>
+  [DenoFlag("--frozen", Usage = "--frozen[=<BOOLEAN>]", Heading = "Dependency management options", Help = "Error out if lockfile is out of date", Since = "2.4.0")]
   public bool? Frozen { get; set; }
 
   #endregion
 
-  internal string[] ToArgs()
+  /// <summary>Checks for flag combinations <c>deno remove</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+    var errors = new List<string>();
+    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");
+    if (errors.Count > 0) throw new DenoOptionsValidationException("remove", errors);
+  }
+
+  /// <summary>The <c>deno remove</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
   {
     var args = new List<string>();
     if (Root is not null) { args.Add("--root"); args.Add(Root); }
@@ -57,4 +110,78 @@ public sealed class RemoveOptions
     if (MinimumDependencyAge is not null) { args.Add("--minimum-dependency-age"); args.Add(MinimumDependencyAge); }
     return [.. args];
   }
+
+  internal bool UsesVersionedFlags =>
+    Root is not null
+    || Global == true
+    || Lock is not null
+    || NoLock == true
+    || Frozen.HasValue
+    || LockfileOnly == true
+    || PackageJson == true
+    || MinimumDependencyAge is not null;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Root is not null) versionCheck.Check(problems, "--root", "2.9.0", null);
+    if (Global == true) versionCheck.Check(problems, "--global", "2.9.0", null);
+    if (Lock is not null) versionCheck.Check(problems, "--lock", "2.4.0", null);
+    if (NoLock == true) versionCheck.Check(problems, "--no-lock", "2.4.0", null);
+    if (Frozen.HasValue) versionCheck.Check(problems, "--frozen", "2.4.0", null);
+    if (LockfileOnly == true) versionCheck.Check(problems, "--lockfile-only", "2.6.0", null);
+    if (PackageJson == true) versionCheck.Check(problems, "--package-json", "2.8.0", null);
+    if (MinimumDependencyAge is not null) versionCheck.Check(problems, "--minimum-dependency-age", "2.9.5", null);
+    versionCheck.Report("remove", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['g'] = "--global" };
+
+  /// <summary>Parses a <c>deno remove</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static RemoveOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno remove</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static RemoveOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno remove: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno remove</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out RemoveOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno remove</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out RemoveOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new RemoveOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--root": result.Root = reader.ReadValue(); break;
+        case "--global": result.Global = reader.ReadFlag(); break;
+        case "--lock": result.Lock = reader.ReadOptionalValue(); break;
+        case "--no-lock": result.NoLock = reader.ReadFlag(); break;
+        case "--frozen": result.Frozen = reader.ReadBoolean(); break;
+        case "--lockfile-only": result.LockfileOnly = reader.ReadFlag(); break;
+        case "--package-json": result.PackageJson = reader.ReadFlag(); break;
+        case "--minimum-dependency-age": result.MinimumDependencyAge = reader.ReadValue(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
 }
@@ -0,0 +1,46 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--reporter</c>.</summary>
+public enum ReporterOption
+{
+  /// <summary><c>--reporter=pretty</c></summary>
+  Pretty,
+  /// <summary><c>--reporter=dot</c></summary>
+  Dot,
+  /// <summary><c>--reporter=junit</c></summary>
+  Junit,
+  /// <summary><c>--reporter=tap</c></summary>
+  Tap,
+}
+
+internal static class ReporterOptionExtensions
+{
+  internal static string ToArg(this ReporterOption value) => value switch
+  {
+    ReporterOption.Pretty => "pretty",
+    ReporterOption.Dot => "dot",
+    ReporterOption.Junit => "junit",
+    ReporterOption.Tap => "tap",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out ReporterOption value)
+  {
+    switch (arg)
+    {
+      case "pretty": value = ReporterOption.Pretty; return true;
+      case "dot": value = ReporterOption.Dot; return true;
+      case "junit": value = ReporterOption.Junit; return true;
+      case "tap": value = ReporterOption.Tap; return true;
+      default: value = default; return false;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--source-map</c>.</summary>
+public enum SourceMapOption
+{
+  /// <summary><c>--source-map=none</c></summary>
+  None,
+  /// <summary><c>--source-map=inline</c></summary>
+  Inline,
+  /// <summary><c>--source-map=separate</c></summary>
+  Separate,
+}
+
+internal static class SourceMapOptionExtensions
+{
+  internal static string ToArg(this SourceMapOption value) => value switch
+  {
+    SourceMapOption.None => "none",
+    SourceMapOption.Inline => "inline",
+    SourceMapOption.Separate => "separate",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out SourceMapOption value)
+  {
+    switch (arg)
+    {
+      case "none": value = SourceMapOption.None; return true;
+      case "inline": value = SourceMapOption.Inline; return true;
+      case "separate": value = SourceMapOption.Separate; return true;
+      default: value = default; return false;
+    }
+  }
+}
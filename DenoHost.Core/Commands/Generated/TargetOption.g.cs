@@ -0,0 +1,54 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Source: `deno json_reference` (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Values accepted by <c>--target</c>.</summary>
+public enum TargetOption
+{
+  /// <summary><c>--target=x86_64-unknown-linux-gnu</c></summary>
+  X8664UnknownLinuxGnu,
+  /// <summary><c>--target=aarch64-unknown-linux-gnu</c></summary>
+  Aarch64UnknownLinuxGnu,
+  /// <summary><c>--target=x86_64-pc-windows-msvc</c></summary>
+  X8664PcWindowsMsvc,
+  /// <summary><c>--target=aarch64-pc-windows-msvc</c></summary>
+  Aarch64PcWindowsMsvc,
+  /// <summary><c>--target=x86_64-apple-darwin</c></summary>
+  X8664AppleDarwin,
+  /// <summary><c>--target=aarch64-apple-darwin</c></summary>
+  Aarch64AppleDarwin,
+}
+
+internal static class TargetOptionExtensions
+{
+  internal static string ToArg(this TargetOption value) => value switch
+  {
+    TargetOption.X8664UnknownLinuxGnu => "x86_64-unknown-linux-gnu",
+    TargetOption.Aarch64UnknownLinuxGnu => "aarch64-unknown-linux-gnu",
+    TargetOption.X8664PcWindowsMsvc => "x86_64-pc-windows-msvc",
+    TargetOption.Aarch64PcWindowsMsvc => "aarch64-pc-windows-msvc",
+    TargetOption.X8664AppleDarwin => "x86_64-apple-darwin",
+    TargetOption.Aarch64AppleDarwin => "aarch64-apple-darwin",
+    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),
+  };
+
+  internal static bool TryFromArg(string arg, out TargetOption value)
+  {
+    switch (arg)
+    {
+      case "x86_64-unknown-linux-gnu": value = TargetOption.X8664UnknownLinuxGnu; return true;
+      case "aarch64-unknown-linux-gnu": value = TargetOption.Aarch64UnknownLinuxGnu; return true;
+      case "x86_64-pc-windows-msvc": value = TargetOption.X8664PcWindowsMsvc; return true;
+      case "aarch64-pc-windows-msvc": value = TargetOption.Aarch64PcWindowsMsvc; return true;
+      case "x86_64-apple-darwin": value = TargetOption.X8664AppleDarwin; return true;
+      case "aarch64-apple-darwin": value = TargetOption.Aarch64AppleDarwin; return true;
+      default: value = default; return false;
+    }
+  }
+}
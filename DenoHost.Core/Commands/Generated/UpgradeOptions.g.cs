@@ -0,0 +1,148 @@
+// <auto-generated/>
+// Generated by tools/gen-commands/generate.ts
+// Sources: `deno json_reference` + Deno JSON schema (Deno 2.9.5)
+// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace DenoHost.Core.Commands;
+
+/// <summary>Options for <c>deno upgrade</c>. Upgrade deno executable to the given version.</summary>
+/// <seealso href="https://docs.deno.com/runtime/reference/cli/upgrade/"/>
+public sealed class UpgradeOptions
+{
+  #region Upgrade options
+
+  /// <summary>The path to output the updated version to</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--output &lt;output&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--output", Usage = "--output <output>", Heading = "Upgrade options", Help = "The path to output the updated version to")]
+  public string? Output { get; set; }
+
+  /// <summary>Perform all checks without replacing old exe</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--dry-run</c></para>
+  /// </remarks>
+  [DenoFlag("--dry-run", Usage = "--dry-run", Heading = "Upgrade options", Help = "Perform all checks without replacing old exe")]
+  public bool? DryRun { get; set; }
+
+  /// <summary>Replace current exe even if not out-of-date</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--force</c> (short alias <c>-f</c>)</para>
+  /// </remarks>
+  [DenoFlag("--force", ShortAlias = "-f", Usage = "--force", Heading = "Upgrade options", Help = "Replace current exe even if not out-of-date")]
+  public bool? Force { get; set; }
+
+  /// <summary>Verify the downloaded archive against the provided SHA256 checksum</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--checksum &lt;checksum&gt;</c></para>
+  /// <para>Available since Deno 2.7.1.</para>
+  /// </remarks>
+  [DenoFlag("--checksum", Usage = "--checksum <checksum>", Heading = "Upgrade options", Help = "Verify the downloaded archive against the provided SHA256 checksum", Since = "2.7.1")]
+  public string? Checksum { get; set; }
+
+  /// <summary>Disable delta updates and always download the full archive</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--no-delta</c></para>
+  /// <para>Available since Deno 2.8.0.</para>
+  /// </remarks>
+  [DenoFlag("--no-delta", Usage = "--no-delta", Heading = "Upgrade options", Help = "Disable delta updates and always download the full archive", Since = "2.8.0")]
+  public bool? NoDelta { get; set; }
+
+  #endregion
+
+  #region General
+
+  /// <summary>Load certificate authority from PEM encoded file</summary>
+  /// <remarks>
+  /// <para>Usage: <c>--cert &lt;FILE&gt;</c></para>
+  /// </remarks>
+  [DenoFlag("--cert", Usage = "--cert <FILE>", Heading = "General", Help = "Load certificate authority from PEM encoded file")]
+  public string? Cert { get; set; }
+
+  #endregion
+
+  /// <summary>Checks for flag combinations <c>deno upgrade</c> rejects, before a process is started.</summary>
+  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>
+  public void Validate()
+  {
+  }
+
+  /// <summary>The <c>deno upgrade</c> arguments these options stand for (without the subcommand).</summary>
+  public string[] ToArgs()
+  {
+    var args = new List<string>();
+    if (Output is not null) { args.Add("--output"); args.Add(Output); }
+    if (DryRun == true) args.Add("--dry-run");
+    if (Force == true) args.Add("--force");
+    if (Checksum is not null) { args.Add("--checksum"); args.Add(Checksum); }
+    if (NoDelta == true) args.Add("--no-delta");
+    if (Cert is not null) { args.Add("--cert"); args.Add(Cert); }
+    return [.. args];
+  }
+
+  internal bool UsesVersionedFlags =>
+    Checksum is not null
+    || NoDelta == true;
+
+  internal void CheckVersion(DenoVersionCheck? versionCheck)
+  {
+    if (versionCheck is null) return;
+    var problems = new List<string>();
+    if (Checksum is not null) versionCheck.Check(problems, "--checksum", "2.7.1", null);
+    if (NoDelta == true) versionCheck.Check(problems, "--no-delta", "2.8.0", null);
+    versionCheck.Report("upgrade", problems);
+  }
+
+  private static readonly Dictionary<char, string> ShortAliases = new() { ['f'] = "--force" };
+
+  /// <summary>Parses a <c>deno upgrade</c> argument list (without the subcommand) back into options.</summary>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static UpgradeOptions Parse(string[] args) => Parse(args, out _);
+
+  /// <summary>Parses a <c>deno upgrade</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>
+  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>
+  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>
+  public static UpgradeOptions Parse(string[] args, out string[] positionals)
+  {
+    if (!TryParse(args, out var options, out positionals, out var errors))
+      throw new FormatException($"Invalid arguments for deno upgrade: {string.Join(" ", errors)}");
+    return options;
+  }
+
+  /// <summary>Tries to parse a <c>deno upgrade</c> argument list (without the subcommand) back into options.</summary>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out UpgradeOptions? options)
+    => TryParse(args, out options, out _, out _);
+
+  /// <summary>Tries to parse a <c>deno upgrade</c> argument list (without the subcommand) back into options.</summary>
+  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out UpgradeOptions? options, out string[] positionals, out string[] errors)
+  {
+    ArgumentNullException.ThrowIfNull(args);
+    var result = new UpgradeOptions();
+    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: false);
+    while (reader.MoveNext())
+    {
+      switch (reader.Flag)
+      {
+        case "--output": result.Output = reader.ReadValue(); break;
+        case "--dry-run": result.DryRun = reader.ReadFlag(); break;
+        case "--force": result.Force = reader.ReadFlag(); break;
+        case "--checksum": result.Checksum = reader.ReadValue(); break;
+        case "--no-delta": result.NoDelta = reader.ReadFlag(); break;
+        case "--cert": result.Cert = reader.ReadValue(); break;
+        default: reader.ReportUnknown(); break;
+      }
+    }
+    positionals = reader.Positionals;
+    errors = reader.Errors;
+    options = errors.Length == 0 ? result : null;
+    return options is not null;
+  }
+}
@@ -53,7 +53,7 @@ public class DenoConfig
   public bool? Vendor { get; set; }
 
   [JsonPropertyName("tasks")]
-  public Dictionary<string, object>? Tasks { get; set; }
+  public Dictionary<string, TaskDefinition>? Tasks { get; set; }
 
   [JsonPropertyName("test")]
   public TestConfig? Test { get; set; }
@@ -0,0 +1,108 @@
+using System;
+using System.Collections.Generic;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+namespace DenoHost.Core.Config;
+
+/// <summary>
+/// Represents a task in the <c>tasks</c> section of a Deno configuration file: either a plain command string or an
+/// object with a command, a description and the tasks it depends on.
+/// </summary>
+[JsonConverter(typeof(TaskDefinitionJsonConverter))]
+public class TaskDefinition
+{
+  /// <summary>
+  /// Gets or sets the command to execute. A task without a command only runs its dependencies.
+  /// </summary>
+  public string? Command { get; set; }
+
+  /// <summary>
+  /// Gets or sets the description shown by <c>deno task</c> without arguments.
+  /// </summary>
+  public string? Description { get; set; }
+
+  /// <summary>
+  /// Gets or sets the names of the tasks that run before this one (in parallel where possible).
+  /// </summary>
+  public List<string>? Dependencies { get; set; }
+
+  /// <summary>
+  /// Gets a value indicating whether this task is written as a plain command string.
+  /// </summary>
+  [JsonIgnore]
+  public bool IsCommandOnly => Command != null && Description == null && Dependencies == null;
+
+  /// <summary>
+  /// Creates a task that runs the given command, written as a plain string.
+  /// </summary>
+  /// <param name="command">The command to execute.</param>
+  /// <returns>A new TaskDefinition instance.</returns>
+  public static TaskDefinition FromCommand(string command)
+  {
+    return new TaskDefinition { Command = command };
+  }
+
+  public static implicit operator TaskDefinition(string command) => FromCommand(command);
+}
+
+/// <summary>
+/// JSON converter for TaskDefinition to handle the string-or-object schema pattern.
+/// </summary>
+public class TaskDefinitionJsonConverter : JsonConverter<TaskDefinition>
+{
+  public override TaskDefinition? Read(ref Utf8JsonReader reader, Type typeToConvert, JsonSerializerOptions options)
+  {
+    switch (reader.TokenType)
+    {
+      case JsonTokenType.String:
+        return TaskDefinition.FromCommand(reader.GetString()!);
+      case JsonTokenType.StartObject:
+        var task = new TaskDefinition();
+        while (reader.Read() && reader.TokenType != JsonTokenType.EndObject)
+        {
+          var name = reader.GetString();
+          reader.Read();
+          switch (name)
+          {
+            case "command":
+              task.Command = reader.GetString();
+              break;
+            case "description":
+              task.Description = reader.GetString();
+              break;
+            case "dependencies":
+              task.Dependencies = JsonSerializer.Deserialize<List<string>>(ref reader, options);
+              break;
+            default:
+              reader.Skip();
+              break;
+          }
+        }
+        return task;
+      default:
+        throw new JsonException($"Unexpected token type: {reader.TokenType}");
+    }
+  }
+
+  public override void Write(Utf8JsonWriter writer, TaskDefinition value, JsonSerializerOptions options)
+  {
+    if (value.IsCommandOnly)
+    {
+      writer.WriteStringValue(value.Command);
+      return;
+    }
+
+    writer.WriteStartObject();
+    if (value.Description != null)
+      writer.WriteString("description", value.Description);
+    if (value.Command != null)
+      writer.WriteString("command", value.Command);
+    if (value.Dependencies != null)
+    {
+      writer.WritePropertyName("dependencies");
+      JsonSerializer.Serialize(writer, value.Dependencies, options);
+    }
+    writer.WriteEndObject();
+  }
+}
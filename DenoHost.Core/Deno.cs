@@ -2,6 +2,7 @@ using System;
 using System.Threading;
 using System.Threading.Tasks;
 using Microsoft.Extensions.Logging;
+using DenoHost.Core.Commands;
 using DenoHost.Core.Config;
 
 namespace DenoHost.Core;
@@ -16,6 +17,11 @@ public static partial class Deno
   /// </summary>
   public static ILogger? Logger { get; set; }
 
+  /// <summary>
+  /// Default handling of options flags the Deno binary does not support (see <see cref="DenoExecuteBaseOptions.UnsupportedFlags"/>).
+  /// </summary>
+  public static DenoUnsupportedFlagHandling UnsupportedFlags { get; set; } = DenoUnsupportedFlagHandling.Warn;
+
   /// <summary>
   /// Executes a Deno command with composite execution options.
   /// </summary>
@@ -308,6 +314,7 @@ public static partial class Deno
         baseOptions?.JsonSerializerOptions,
         baseOptions?.Logger ?? Logger,
         normalizedArgs,
+        baseOptions?.Environment,
         cancellationToken).ConfigureAwait(false);
     }
     finally
@@ -0,0 +1,45 @@
+using System.Collections.Generic;
+using System.Diagnostics;
+using System.Linq;
+
+namespace DenoHost.Core;
+
+/// <summary>
+/// Environment variables for a Deno process. The typed properties are generated from the variables Deno documents
+/// (<c>deno help</c>); <see cref="Variables"/> takes any other variable. Unset properties keep the value inherited from
+/// the host process unless <see cref="ClearInherited"/> is set.
+/// </summary>
+public sealed partial class DenoEnvironment
+{
+  /// <summary>
+  /// Starts Deno with only the variables set on this instance instead of a copy of the host process environment.
+  /// </summary>
+  /// <remarks>
+  /// Deno itself needs little, but scripts and subprocesses may expect <c>PATH</c> or <c>HOME</c>, and on Windows
+  /// <c>SystemRoot</c>; pass them through <see cref="Variables"/> where needed.
+  /// </remarks>
+  public bool ClearInherited { get; set; }
+
+  /// <summary>
+  /// Further variables, applied after the typed properties; a <see langword="null"/> value removes the variable.
+  /// </summary>
+  public IDictionary<string, string?> Variables { get; init; } = new Dictionary<string, string?>();
+
+  /// <summary>The variables this instance sets (or, with a <see langword="null"/> value, removes), in apply order.</summary>
+  public IEnumerable<KeyValuePair<string, string?>> GetVariables() => GetTypedVariables().Concat(Variables);
+
+  internal void ApplyTo(ProcessStartInfo startInfo)
+  {
+    var environment = startInfo.Environment;
+    if (ClearInherited)
+      environment.Clear();
+
+    foreach (var (name, value) in GetVariables())
+    {
+      if (value is null)
+        environment.Remove(name);
+      else
+        environment[name] = value;
+    }
+  }
+}
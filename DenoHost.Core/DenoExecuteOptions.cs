@@ -1,5 +1,7 @@
+using System;
 using System.Text.Json;
 using Microsoft.Extensions.Logging;
+using DenoHost.Core.Commands;
 using DenoHost.Core.Config;
 
 namespace DenoHost.Core;
@@ -11,6 +13,22 @@ public class DenoExecuteBaseOptions
   public JsonSerializerOptions? JsonSerializerOptions { get; set; }
 
   public ILogger? Logger { get; set; }
+
+  /// <summary>
+  /// What to do with options flags the Deno binary does not support; defaults to <see cref="Deno.UnsupportedFlags"/>.
+  /// </summary>
+  public DenoUnsupportedFlagHandling? UnsupportedFlags { get; set; }
+
+  /// <summary>
+  /// Deno version to check options flags against; detected from the binary (<c>deno --version</c>) when not set.
+  /// </summary>
+  public Version? DenoVersion { get; set; }
+
+  /// <summary>
+  /// Environment variables for the Deno process (<c>DENO_DIR</c>, <c>NO_COLOR</c>, proxies, …); the host process
+  /// environment is inherited when not set.
+  /// </summary>
+  public DenoEnvironment? Environment { get; set; }
 }
 
 public class DenoExecuteOptions : DenoExecuteBaseOptions
@@ -28,6 +28,7 @@ internal static class DenoExecutor
   /// <param name="jsonSerializerOptions">Optional JSON serializer options.</param>
   /// <param name="logger">Optional logger instance.</param>
   /// <param name="args">Additional arguments for Deno.</param>
+  /// <param name="environment">Optional environment variables for the process.</param>
   /// <param name="cancellationToken">Cancellation token to cancel the operation.</param>
   /// <returns>The deserialized result of the Deno process.</returns>
   /// <exception cref="ArgumentNullException">Thrown if resultType is null.</exception>
@@ -42,6 +43,7 @@ internal static class DenoExecutor
     JsonSerializerOptions? jsonSerializerOptions,
     ILogger? logger,
     string[]? args,
+    DenoEnvironment? environment,
     CancellationToken cancellationToken = default)
   {
     ArgumentNullException.ThrowIfNull(resultType);
@@ -96,6 +98,8 @@ internal static class DenoExecutor
       foreach (var arg in argumentList)
         startInfo.ArgumentList.Add(arg);
 
+      environment?.ApplyTo(startInfo);
+
       using var process = new Process
       {
         StartInfo = startInfo
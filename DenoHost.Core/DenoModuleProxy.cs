@@ -0,0 +1,127 @@
+using System;
+using System.IO;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace DenoHost.Core;
+
+/// <summary>
+/// Base class of the proxies generated by <c>tools/gen-commands/generate-proxy.ts</c>: calls an exported function of a
+/// TypeScript module through <c>deno eval</c>, passing the arguments and the result as JSON.
+/// </summary>
+/// <remarks>
+/// Every call starts a new Deno process that imports the module, so module state does not survive between calls.
+/// The module's own <c>console.log</c> output is redirected to stderr; stdout carries only the result.
+/// </remarks>
+public abstract class DenoModuleProxy
+{
+  // Arguments: module specifier, export name, JSON array of arguments. Writes {"value":…} or {"error":{…}}.
+  internal const string InvokeScript = """
+    const [specifier, exportName, argsJson] = Deno.args;
+    const write = (response) => {
+      const bytes = new TextEncoder().encode(JSON.stringify(response));
+      for (let n = 0; n < bytes.length;) n += Deno.stdout.writeSync(bytes.subarray(n));
+    };
+    console.log = console.info = console.debug = console.error;
+    try {
+      const fn = (await import(specifier))[exportName];
+      if (typeof fn !== "function") throw new TypeError(`${specifier} does not export a function '${exportName}'.`);
+      write({ value: (await fn(...JSON.parse(argsJson))) ?? null });
+    } catch (e) {
+      write({ error: { name: e?.name ?? "Error", message: e?.message ?? String(e), stack: e?.stack ?? null } });
+    }
+    """;
+
+  /// <param name="module">
+  /// The TypeScript module: a file path (relative to <see cref="DenoExecuteBaseOptions.WorkingDirectory"/> or the
+  /// current directory) or a URL / <c>jsr:</c> / <c>npm:</c> specifier.
+  /// </param>
+  /// <param name="baseOptions">Working directory, logger, JSON options and environment for every call.</param>
+  protected DenoModuleProxy(string module, DenoExecuteBaseOptions? baseOptions = null)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(module);
+    BaseOptions = baseOptions;
+    ModuleSpecifier = ResolveSpecifier(module, baseOptions?.WorkingDirectory);
+  }
+
+  /// <summary>The specifier the module is imported from; file paths are resolved to <c>file://</c> URLs.</summary>
+  public string ModuleSpecifier { get; }
+
+  /// <summary>The options every call runs with.</summary>
+  public DenoExecuteBaseOptions? BaseOptions { get; }
+
+  /// <summary>Calls <paramref name="exportName"/> and deserializes its (awaited) return value.</summary>
+  /// <param name="exportName">The exported function.</param>
+  /// <param name="requiredArgs">
+  /// How many leading <paramref name="args"/> are required; trailing <see langword="null"/> arguments after them are
+  /// left out, so the function sees <c>undefined</c> and applies its defaults.
+  /// </param>
+  /// <param name="args">The arguments, serialized as a JSON array.</param>
+  /// <param name="cancellationToken">Cancels the call and terminates the Deno process.</param>
+  /// <exception cref="DenoProxyException">The function threw.</exception>
+  protected async Task<T> InvokeAsync<T>(string exportName, int requiredArgs, object?[] args, CancellationToken cancellationToken)
+  {
+    var response = await InvokeCoreAsync<T>(exportName, requiredArgs, args, cancellationToken).ConfigureAwait(false);
+    return response.Value!;
+  }
+
+  /// <summary>Calls <paramref name="exportName"/> and ignores its return value.</summary>
+  /// <inheritdoc cref="InvokeAsync{T}(string, int, object?[], CancellationToken)"/>
+  protected Task InvokeAsync(string exportName, int requiredArgs, object?[] args, CancellationToken cancellationToken)
+    => InvokeCoreAsync<JsonElement>(exportName, requiredArgs, args, cancellationToken);
+
+  private async Task<InvokeResponse<T>> InvokeCoreAsync<T>(string exportName, int requiredArgs, object?[] args, CancellationToken cancellationToken)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(exportName);
+    var argsJson = JsonSerializer.Serialize(TrimOptionalArgs(args, requiredArgs), BaseOptions?.JsonSerializerOptions);
+    string[] evalArgs = [InvokeScript, ModuleSpecifier, exportName, argsJson];
+
+    var response = BaseOptions != null
+      ? await Deno.Execute<InvokeResponse<T>>("eval", BaseOptions, evalArgs, cancellationToken).ConfigureAwait(false)
+      : await Deno.Execute<InvokeResponse<T>>("eval", evalArgs, cancellationToken).ConfigureAwait(false);
+
+    if (response.Error is { } error)
+      throw new DenoProxyException(ModuleSpecifier, exportName, error.Name, error.Message, error.Stack);
+    return response;
+  }
+
+  internal static object?[] TrimOptionalArgs(object?[] args, int requiredArgs)
+  {
+    var count = args.Length;
+    while (count > requiredArgs && args[count - 1] is null)
+      count--;
+    return args[..count];
+  }
+
+  internal static string ResolveSpecifier(string module, string? workingDirectory)
+  {
+    if (module.Contains("://", StringComparison.Ordinal) || module.StartsWith("jsr:", StringComparison.Ordinal) || module.StartsWith("npm:", StringComparison.Ordinal))
+      return module;
+
+    var basePath = Path.GetFullPath(workingDirectory ?? Directory.GetCurrentDirectory());
+    return new Uri(Path.GetFullPath(module, basePath)).AbsoluteUri;
+  }
+
+  internal sealed class InvokeResponse<T>
+  {
+    [JsonPropertyName("value")]
+    public T? Value { get; set; }
+
+    [JsonPropertyName("error")]
+    public InvokeError? Error { get; set; }
+  }
+
+  internal sealed class InvokeError
+  {
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = "Error";
+
+    [JsonPropertyName("message")]
+    public string Message { get; set; } = string.Empty;
+
+    [JsonPropertyName("stack")]
+    public string? Stack { get; set; }
+  }
+}
@@ -2,6 +2,7 @@ using System;
 using System.Diagnostics;
 using System.IO;
 using System.Text;
+using System.Text.Json;
 using System.Threading;
 using System.Threading.Tasks;
 using Microsoft.Extensions.Logging;
@@ -19,11 +20,19 @@ public partial class DenoProcess : IDisposable
   private readonly string[] _args;
   private readonly ILogger? _logger;
   private readonly string? _tempConfigPath;
+  private readonly DenoEnvironment? _environment;
   private readonly Lock _lock = new();
   private Process? _process;
+  private DenoRpcConnection? _rpc;
   private int? _lastExitCode;
   private bool _disposed;
 
+  /// <summary>
+  /// Runs at the start of <see cref="StartAsync"/>, before Deno is launched; the generated factories use it to check the
+  /// options against the Deno version in use.
+  /// </summary>
+  internal Func<CancellationToken, Task>? BeforeStart { get; set; }
+
   /// <summary>
   /// Gets a value indicating whether the Deno process is currently running.
   /// </summary>
@@ -160,6 +169,7 @@ public partial class DenoProcess : IDisposable
     _args = allArgs;
     _workingDirectory = baseOptions.WorkingDirectory ?? Directory.GetCurrentDirectory();
     _logger = baseOptions.Logger ?? Deno.Logger;
+    _environment = baseOptions.Environment;
   }
 
   /// <summary>
@@ -176,6 +186,7 @@ public partial class DenoProcess : IDisposable
     _args = args;
     _workingDirectory = baseOptions.WorkingDirectory ?? Directory.GetCurrentDirectory();
     _logger = baseOptions.Logger ?? Deno.Logger;
+    _environment = baseOptions.Environment;
   }
 
   /// <summary>
@@ -282,6 +293,24 @@ public partial class DenoProcess : IDisposable
     _workingDirectory = workingDirectory ?? options.WorkingDirectory ?? Directory.GetCurrentDirectory();
     _logger = logger ?? options.Logger ?? Deno.Logger;
     _tempConfigPath = tempConfigPath;
+    _environment = options.Environment;
+  }
+
+  /// <summary>
+  /// Opens a JSON-RPC 2.0 channel to the script, which imports <c>denohost-rpc.ts</c> (see <see cref="DenoRpcConnection"/>).
+  /// Messages from the script are no longer raised as <see cref="OutputDataReceived"/>; other output still is.
+  /// Call it before <see cref="StartAsync"/> so no message is missed; later calls return the same connection.
+  /// </summary>
+  /// <param name="jsonSerializerOptions">Options for params and results; only used by the first call.</param>
+  /// <returns>The connection to the script.</returns>
+  public DenoRpcConnection OpenRpc(JsonSerializerOptions? jsonSerializerOptions = null)
+  {
+    ObjectDisposedException.ThrowIf(_disposed, this);
+
+    using (_lock.EnterScope())
+    {
+      return _rpc ??= new DenoRpcConnection(SendInputAsync, jsonSerializerOptions, _logger);
+    }
   }
 
   /// <summary>
@@ -302,6 +331,9 @@ public partial class DenoProcess : IDisposable
       _lastExitCode = null;
     }
 
+    if (BeforeStart != null)
+      await BeforeStart(cancellationToken);
+
     if (Helper.IsChecksumBypassEnabled())
     {
       _logger?.LogWarning(
@@ -330,6 +362,8 @@ public partial class DenoProcess : IDisposable
     foreach (var arg in _args)
       startInfo.ArgumentList.Add(arg);
 
+    _environment?.ApplyTo(startInfo);
+
     var process = new Process
     {
       StartInfo = startInfo,
@@ -339,10 +373,18 @@ public partial class DenoProcess : IDisposable
     // Set up event handlers
     process.OutputDataReceived += (sender, e) =>
     {
-      if (e.Data != null)
+      if (e.Data == null)
+      {
+        // End of stdout: no more responses will arrive.
+        _rpc?.Close("The Deno process exited");
+      }
+      else
       {
         try
         {
+          if (_rpc?.TryReceive(e.Data) == true)
+            return;
+
           OutputDataReceived?.Invoke(this, e);
           _logger?.LogDebug("Deno stdout: {Data}", e.Data);
         }
@@ -645,6 +687,8 @@ public partial class DenoProcess : IDisposable
       }
     }
 
+    _rpc?.Close("The DenoProcess was disposed");
+
     // Clean up temporary config file if it exists (retry a few times in case of transient file locks)
     if (!string.IsNullOrEmpty(_tempConfigPath))
     {
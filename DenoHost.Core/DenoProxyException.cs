@@ -0,0 +1,34 @@
+using System;
+
+namespace DenoHost.Core;
+
+/// <summary>
+/// Thrown by a generated <see cref="DenoModuleProxy"/> when the TypeScript function throws (or its promise rejects).
+/// </summary>
+public sealed class DenoProxyException : Exception
+{
+  public DenoProxyException(string moduleSpecifier, string exportName, string errorName, string errorMessage, string? denoStackTrace)
+    : base($"{exportName} in {moduleSpecifier} threw {errorName}: {errorMessage}")
+  {
+    ModuleSpecifier = moduleSpecifier;
+    ExportName = exportName;
+    ErrorName = errorName;
+    ErrorMessage = errorMessage;
+    DenoStackTrace = denoStackTrace;
+  }
+
+  /// <summary>The module the function was imported from.</summary>
+  public string ModuleSpecifier { get; }
+
+  /// <summary>The exported function that threw.</summary>
+  public string ExportName { get; }
+
+  /// <summary>The JavaScript error name, e.g. <c>TypeError</c>.</summary>
+  public string ErrorName { get; }
+
+  /// <summary>The JavaScript error message.</summary>
+  public string ErrorMessage { get; }
+
+  /// <summary>The JavaScript stack trace, when the thrown value had one.</summary>
+  public string? DenoStackTrace { get; }
+}
@@ -0,0 +1,519 @@
+using System;
+using System.Buffers;
+using System.Collections.Concurrent;
+using System.Collections.Generic;
+using System.IO;
+using System.Text;
+using System.Text.Json;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging;
+
+namespace DenoHost.Core;
+
+/// <summary>
+/// A JSON-RPC 2.0 channel between .NET and the script of a <see cref="DenoProcess"/>, opened with
+/// <see cref="DenoProcess.OpenRpc"/>. The script imports the companion module <c>denohost-rpc.ts</c>
+/// (<see cref="WriteModule"/>) and calls <c>connect()</c>.
+/// </summary>
+/// <remarks>
+/// Messages travel over stdin/stdout as single lines that start with the ASCII record separator (RFC 7464), so the
+/// script's <c>console.log</c> output still arrives through <see cref="DenoProcess.OutputDataReceived"/> and never
+/// corrupts a message. Cancelling a call sends a <c>$/cancelRequest</c> notification, as in the Language Server
+/// Protocol, which aborts the handler's <c>AbortSignal</c>; the script cancels .NET handlers the same way.
+/// The connection survives <see cref="DenoProcess.RestartAsync"/>; calls pending when the process exits fail.
+/// </remarks>
+public sealed class DenoRpcConnection
+{
+  internal const char RecordSeparator = '\u001e';
+  internal const string CancelMethod = "$/cancelRequest";
+
+  /// <summary>The file name of the companion module.</summary>
+  public const string ModuleFileName = "denohost-rpc.ts";
+
+  private static readonly Lazy<string> LazyModuleSource = new(LoadModuleSource);
+
+  private readonly Func<string, CancellationToken, Task> _send;
+  private readonly JsonSerializerOptions? _jsonSerializerOptions;
+  private readonly ILogger? _logger;
+  private readonly SemaphoreSlim _writeLock = new(1, 1);
+  private readonly ConcurrentDictionary<string, Func<JsonElement?, CancellationToken, Task<JsonElement?>>> _handlers = new(StringComparer.Ordinal);
+  private readonly ConcurrentDictionary<string, Action<JsonElement?>> _notificationHandlers = new(StringComparer.Ordinal);
+  private readonly ConcurrentDictionary<long, PendingCall> _pendingCalls = new();
+  private readonly ConcurrentDictionary<string, CancellationTokenSource> _incomingRequests = new(StringComparer.Ordinal);
+  private long _nextId;
+
+  /// <param name="send">Writes one line to the script's stdin.</param>
+  /// <param name="jsonSerializerOptions">Options for params and results.</param>
+  /// <param name="logger">Optional logger.</param>
+  internal DenoRpcConnection(Func<string, CancellationToken, Task> send, JsonSerializerOptions? jsonSerializerOptions = null, ILogger? logger = null)
+  {
+    _send = send ?? throw new ArgumentNullException(nameof(send));
+    _jsonSerializerOptions = jsonSerializerOptions;
+    _logger = logger;
+  }
+
+  /// <summary>The source of <c>denohost-rpc.ts</c>, the module Deno scripts import to talk to this connection.</summary>
+  public static string ModuleSource => LazyModuleSource.Value;
+
+  /// <summary>Writes <c>denohost-rpc.ts</c> into <paramref name="directory"/>.</summary>
+  /// <param name="directory">The directory the script imports the module from.</param>
+  /// <returns>The full path of the written module.</returns>
+  public static string WriteModule(string directory)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(directory);
+
+    Directory.CreateDirectory(directory);
+    var path = Path.GetFullPath(Path.Combine(directory, ModuleFileName));
+    File.WriteAllText(path, ModuleSource);
+    return path;
+  }
+
+  /// <summary>
+  /// Answers the script's <c>call(method, params)</c> with the handler's result. Registering the same method again
+  /// replaces the handler.
+  /// </summary>
+  /// <param name="method">The method name.</param>
+  /// <param name="handler">
+  /// Receives the deserialized params and a token that is cancelled when the script aborts the call or the process
+  /// exits. Throw <see cref="DenoRpcException"/> to answer with a specific error code; any other exception is answered
+  /// with <see cref="DenoRpcErrorCodes.InternalError"/>.
+  /// </param>
+  public void AddHandler<TParams, TResult>(string method, Func<TParams, CancellationToken, Task<TResult>> handler)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(method);
+    ArgumentNullException.ThrowIfNull(handler);
+
+    _handlers[method] = async (parameters, cancellationToken) =>
+    {
+      var result = await handler(DeserializeParams<TParams>(method, parameters), cancellationToken).ConfigureAwait(false);
+      return JsonSerializer.SerializeToElement(result, _jsonSerializerOptions);
+    };
+  }
+
+  /// <summary>
+  /// Answers the script's <c>call(method, params)</c> with <c>null</c> once the handler completes.
+  /// </summary>
+  /// <inheritdoc cref="AddHandler{TParams, TResult}(string, Func{TParams, CancellationToken, Task{TResult}})"/>
+  public void AddHandler<TParams>(string method, Func<TParams, CancellationToken, Task> handler)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(method);
+    ArgumentNullException.ThrowIfNull(handler);
+
+    _handlers[method] = async (parameters, cancellationToken) =>
+    {
+      await handler(DeserializeParams<TParams>(method, parameters), cancellationToken).ConfigureAwait(false);
+      return null;
+    };
+  }
+
+  /// <summary>
+  /// Calls <paramref name="handler"/> for the script's <c>notify(method, params)</c>. It runs on the thread that reads
+  /// stdout, like <see cref="DenoProcess.OutputDataReceived"/>, so it should return quickly.
+  /// </summary>
+  /// <param name="method">The method name.</param>
+  /// <param name="handler">Receives the deserialized params; exceptions are logged.</param>
+  public void AddNotificationHandler<TParams>(string method, Action<TParams> handler)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(method);
+    ArgumentNullException.ThrowIfNull(handler);
+
+    _notificationHandlers[method] = parameters => handler(DeserializeParams<TParams>(method, parameters));
+  }
+
+  /// <summary>Removes the request and notification handlers of <paramref name="method"/>.</summary>
+  /// <returns><see langword="true"/> if a handler was removed.</returns>
+  public bool RemoveHandler(string method)
+  {
+    ArgumentNullException.ThrowIfNull(method);
+
+    var removedHandler = _handlers.TryRemove(method, out _);
+    var removedNotificationHandler = _notificationHandlers.TryRemove(method, out _);
+    return removedHandler || removedNotificationHandler;
+  }
+
+  /// <summary>Calls a handler the script registered with <c>rpc.handle(method, …)</c> and deserializes its result.</summary>
+  /// <param name="method">The method name.</param>
+  /// <param name="parameters">The params, serialized as JSON; normally an object or an array.</param>
+  /// <param name="cancellationToken">Cancels the call and aborts the handler's <c>AbortSignal</c> in the script.</param>
+  /// <exception cref="DenoRpcException">The script answered with an error.</exception>
+  /// <exception cref="InvalidOperationException">The process is not running or exited before answering.</exception>
+  public async Task<TResult> InvokeAsync<TResult>(string method, object? parameters = null, CancellationToken cancellationToken = default)
+  {
+    var result = await InvokeCoreAsync(method, parameters, cancellationToken).ConfigureAwait(false);
+    return result.Deserialize<TResult>(_jsonSerializerOptions)!;
+  }
+
+  /// <summary>Calls a handler the script registered with <c>rpc.handle(method, …)</c> and ignores its result.</summary>
+  /// <inheritdoc cref="InvokeAsync{TResult}(string, object?, CancellationToken)"/>
+  public Task InvokeAsync(string method, object? parameters = null, CancellationToken cancellationToken = default)
+    => InvokeCoreAsync(method, parameters, cancellationToken);
+
+  /// <summary>Sends a notification to a handler the script registered with <c>rpc.onNotification(method, …)</c>.</summary>
+  /// <param name="method">The method name.</param>
+  /// <param name="parameters">The params, serialized as JSON; normally an object or an array.</param>
+  /// <param name="cancellationToken">Cancellation token to observe while waiting for the write to complete.</param>
+  /// <exception cref="InvalidOperationException">The process is not running.</exception>
+  public Task NotifyAsync(string method, object? parameters = null, CancellationToken cancellationToken = default)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(method);
+
+    return SendAsync(writer =>
+    {
+      writer.WriteString("method", method);
+      WriteParams(writer, parameters);
+    }, cancellationToken);
+  }
+
+  private async Task<JsonElement> InvokeCoreAsync(string method, object? parameters, CancellationToken cancellationToken)
+  {
+    ArgumentException.ThrowIfNullOrWhiteSpace(method);
+    cancellationToken.ThrowIfCancellationRequested();
+
+    var id = Interlocked.Increment(ref _nextId);
+    var call = new PendingCall(method);
+    _pendingCalls[id] = call;
+
+    try
+    {
+      await SendAsync(writer =>
+      {
+        writer.WriteNumber("id", id);
+        writer.WriteString("method", method);
+        WriteParams(writer, parameters);
+      }, cancellationToken).ConfigureAwait(false);
+    }
+    catch
+    {
+      _pendingCalls.TryRemove(id, out _);
+      throw;
+    }
+
+    using var registration = cancellationToken.Register(() => CancelCall(id, cancellationToken));
+    return await call.Completion.Task.ConfigureAwait(false);
+  }
+
+  private void CancelCall(long id, CancellationToken cancellationToken)
+  {
+    // A response that arrives after this is ignored, because its id is no longer pending.
+    if (!_pendingCalls.TryRemove(id, out var call))
+      return;
+
+    call.Completion.TrySetCanceled(cancellationToken);
+    Forget(SendAsync(writer =>
+    {
+      writer.WriteString("method", CancelMethod);
+      writer.WritePropertyName("params");
+      writer.WriteStartObject();
+      writer.WriteNumber("id", id);
+      writer.WriteEndObject();
+    }, CancellationToken.None), CancelMethod);
+  }
+
+  /// <summary>
+  /// Handles one line of the script's stdout.
+  /// </summary>
+  /// <returns><see langword="false"/> if the line does not start with the record separator and is regular output.</returns>
+  internal bool TryReceive(string line)
+  {
+    if (line.Length == 0 || line[0] != RecordSeparator)
+      return false;
+
+    JsonDocument document;
+    try
+    {
+      document = JsonDocument.Parse(line.AsMemory(1));
+    }
+    catch (JsonException ex)
+    {
+      _logger?.LogWarning(ex, "Received a malformed JSON-RPC message from Deno");
+      Forget(SendErrorAsync(null, DenoRpcErrorCodes.ParseError, "Parse error", null), "(parse error)");
+      return true;
+    }
+
+    using (document)
+    {
+      Dispatch(document.RootElement);
+    }
+
+    return true;
+  }
+
+  /// <summary>
+  /// Fails the pending calls and cancels the running handlers, e.g. when the process exits.
+  /// </summary>
+  internal void Close(string reason)
+  {
+    foreach (var id in _pendingCalls.Keys)
+    {
+      if (_pendingCalls.TryRemove(id, out var call))
+        call.Completion.TrySetException(new InvalidOperationException($"{reason} before answering '{call.Method}'."));
+    }
+
+    foreach (var cancellation in _incomingRequests.Values)
+      Cancel(cancellation);
+  }
+
+  private void Dispatch(JsonElement message)
+  {
+    if (message.ValueKind != JsonValueKind.Object)
+    {
+      Forget(SendErrorAsync(null, DenoRpcErrorCodes.InvalidRequest, "Invalid Request", null), "(invalid request)");
+      return;
+    }
+
+    var hasId = message.TryGetProperty("id", out var id);
+    if (message.TryGetProperty("method", out var methodElement) && methodElement.ValueKind == JsonValueKind.String)
+    {
+      var method = methodElement.GetString()!;
+      JsonElement? parameters = message.TryGetProperty("params", out var paramsElement) ? paramsElement.Clone() : null;
+
+      if (hasId)
+        HandleRequest(id.Clone(), method, parameters);
+      else
+        HandleNotification(method, parameters);
+    }
+    else if (hasId && (message.TryGetProperty("result", out _) || message.TryGetProperty("error", out _)))
+    {
+      HandleResponse(id, message);
+    }
+    else
+    {
+      Forget(SendErrorAsync(hasId ? id.Clone() : null, DenoRpcErrorCodes.InvalidRequest, "Invalid Request", null), "(invalid request)");
+    }
+  }
+
+  private void HandleResponse(JsonElement id, JsonElement message)
+  {
+    if (id.ValueKind != JsonValueKind.Number || !id.TryGetInt64(out var key) || !_pendingCalls.TryRemove(key, out var call))
+    {
+      _logger?.LogDebug("Ignoring the JSON-RPC response {Id}, which no call is waiting for", id.GetRawText());
+      return;
+    }
+
+    if (message.TryGetProperty("error", out var error))
+    {
+      if (error.ValueKind != JsonValueKind.Object)
+      {
+        call.Completion.TrySetException(new DenoRpcException(call.Method, DenoRpcErrorCodes.InvalidRequest, "Invalid Request: the response's error is not an object", null));
+        return;
+      }
+
+      var code = error.TryGetProperty("code", out var codeElement)
+        && codeElement.ValueKind == JsonValueKind.Number
+        && codeElement.TryGetInt32(out var value)
+          ? value
+          : DenoRpcErrorCodes.InternalError;
+      var errorMessage = error.TryGetProperty("message", out var messageElement) && messageElement.ValueKind == JsonValueKind.String
+        ? messageElement.GetString()!
+        : "Unknown error";
+      JsonElement? data = error.TryGetProperty("data", out var dataElement) ? dataElement.Clone() : null;
+
+      call.Completion.TrySetException(new DenoRpcException(call.Method, code, errorMessage, data));
+      return;
+    }
+
+    call.Completion.TrySetResult(message.TryGetProperty("result", out var result) ? result.Clone() : default);
+  }
+
+  private void HandleRequest(JsonElement id, string method, JsonElement? parameters)
+  {
+    if (!_handlers.TryGetValue(method, out var handler))
+    {
+      Forget(SendErrorAsync(id, DenoRpcErrorCodes.MethodNotFound, $"Method not found: {method}", null), method);
+      return;
+    }
+
+    var key = id.GetRawText();
+    var cancellation = new CancellationTokenSource();
+    _incomingRequests[key] = cancellation;
+    Forget(RunHandlerAsync(id, key, method, handler, parameters, cancellation), method);
+  }
+
+  private async Task RunHandlerAsync(
+    JsonElement id,
+    string key,
+    string method,
+    Func<JsonElement?, CancellationToken, Task<JsonElement?>> handler,
+    JsonElement? parameters,
+    CancellationTokenSource cancellation)
+  {
+    JsonElement? result = null;
+    (int Code, string Message, JsonElement? Data)? error = null;
+
+    try
+    {
+      // Off the stdout thread: the handler may call back into the script and wait for the response.
+      result = await Task.Run(() => handler(parameters, cancellation.Token), CancellationToken.None).ConfigureAwait(false);
+    }
+    catch (OperationCanceledException) when (cancellation.IsCancellationRequested)
+    {
+      error = (DenoRpcErrorCodes.RequestCancelled, "Request cancelled", null);
+    }
+    catch (DenoRpcException ex)
+    {
+      error = (ex.Code, ex.ErrorMessage, ex.ErrorData);
+    }
+    catch (Exception ex)
+    {
+      _logger?.LogError(ex, "JSON-RPC handler {Method} failed", method);
+      error = (DenoRpcErrorCodes.InternalError, ex.Message, JsonSerializer.SerializeToElement(new { name = ex.GetType().FullName, stack = ex.StackTrace }));
+    }
+    finally
+    {
+      _incomingRequests.TryRemove(new KeyValuePair<string, CancellationTokenSource>(key, cancellation));
+      cancellation.Dispose();
+    }
+
+    if (error is { } e)
+      await SendErrorAsync(id, e.Code, e.Message, e.Data).ConfigureAwait(false);
+    else
+      await SendResultAsync(id, result).ConfigureAwait(false);
+  }
+
+  private void HandleNotification(string method, JsonElement? parameters)
+  {
+    if (method == CancelMethod)
+    {
+      if (parameters is { ValueKind: JsonValueKind.Object } cancelParams
+        && cancelParams.TryGetProperty("id", out var id)
+        && _incomingRequests.TryGetValue(id.GetRawText(), out var cancellation))
+      {
+        Cancel(cancellation);
+      }
+      return;
+    }
+
+    if (!_notificationHandlers.TryGetValue(method, out var handler))
+    {
+      _logger?.LogDebug("No handler for the JSON-RPC notification {Method}", method);
+      return;
+    }
+
+    try
+    {
+      handler(parameters);
+    }
+    catch (Exception ex)
+    {
+      _logger?.LogError(ex, "JSON-RPC notification handler {Method} failed", method);
+    }
+  }
+
+  private static void Cancel(CancellationTokenSource cancellation)
+  {
+    try
+    {
+      cancellation.Cancel();
+    }
+    catch (ObjectDisposedException)
+    {
+      // The handler completed in the meantime.
+    }
+  }
+
+  private T DeserializeParams<T>(string method, JsonElement? parameters)
+  {
+    try
+    {
+      return parameters is { } value ? value.Deserialize<T>(_jsonSerializerOptions)! : default!;
+    }
+    catch (JsonException ex)
+    {
+      throw new DenoRpcException(DenoRpcErrorCodes.InvalidParams, $"Invalid params for {method}: {ex.Message}");
+    }
+  }
+
+  private void WriteParams(Utf8JsonWriter writer, object? parameters)
+  {
+    if (parameters is null)
+      return;
+
+    writer.WritePropertyName("params");
+    JsonSerializer.Serialize(writer, parameters, parameters.GetType(), _jsonSerializerOptions);
+  }
+
+  private Task SendResultAsync(JsonElement id, JsonElement? result)
+    => SendAsync(writer =>
+    {
+      writer.WritePropertyName("id");
+      id.WriteTo(writer);
+      writer.WritePropertyName("result");
+      if (result is { } value)
+        value.WriteTo(writer);
+      else
+        writer.WriteNullValue();
+    }, CancellationToken.None);
+
+  private Task SendErrorAsync(JsonElement? id, int code, string message, JsonElement? data)
+    => SendAsync(writer =>
+    {
+      writer.WritePropertyName("id");
+      if (id is { } value)
+        value.WriteTo(writer);
+      else
+        writer.WriteNullValue();
+      writer.WritePropertyName("error");
+      writer.WriteStartObject();
+      writer.WriteNumber("code", code);
+      writer.WriteString("message", message);
+      if (data is { } dataValue)
+      {
+        writer.WritePropertyName("data");
+        dataValue.WriteTo(writer);
+      }
+      writer.WriteEndObject();
+    }, CancellationToken.None);
+
+  private async Task SendAsync(Action<Utf8JsonWriter> writeMembers, CancellationToken cancellationToken)
+  {
+    var buffer = new ArrayBufferWriter<byte>();
+    using (var writer = new Utf8JsonWriter(buffer))
+    {
+      writer.WriteStartObject();
+      writer.WriteString("jsonrpc", "2.0");
+      writeMembers(writer);
+      writer.WriteEndObject();
+    }
+
+    var frame = RecordSeparator + Encoding.UTF8.GetString(buffer.WrittenSpan);
+
+    // One message per line; concurrent writers must not interleave.
+    await _writeLock.WaitAsync(cancellationToken).ConfigureAwait(false);
+    try
+    {
+      await _send(frame, cancellationToken).ConfigureAwait(false);
+    }
+    finally
+    {
+      _writeLock.Release();
+    }
+  }
+
+  private void Forget(Task task, string method)
+    => _ = task.ContinueWith(
+      t => _logger?.LogWarning(t.Exception, "Failed to send the JSON-RPC message for {Method}", method),
+      CancellationToken.None,
+      TaskContinuationOptions.OnlyOnFaulted,
+      TaskScheduler.Default);
+
+  private static string LoadModuleSource()
+  {
+    var assembly = typeof(DenoRpcConnection).Assembly;
+    var resourceName = Array.Find(
+      assembly.GetManifestResourceNames(),
+      static name => name.EndsWith(ModuleFileName, StringComparison.Ordinal))
+      ?? throw new InvalidOperationException($"{ModuleFileName} is not embedded in {assembly.GetName().Name}.");
+
+    using var stream = assembly.GetManifestResourceStream(resourceName)!;
+    using var reader = new StreamReader(stream);
+    return reader.ReadToEnd();
+  }
+
+  private sealed class PendingCall(string method)
+  {
+    public string Method { get; } = method;
+
+    public TaskCompletionSource<JsonElement> Completion { get; } = new(TaskCreationOptions.RunContinuationsAsynchronously);
+  }
+}
@@ -0,0 +1,77 @@
+using System;
+using System.Text.Json;
+
+namespace DenoHost.Core;
+
+/// <summary>
+/// Error codes of the JSON-RPC 2.0 specification, plus the Language Server Protocol code for cancelled requests.
+/// </summary>
+public static class DenoRpcErrorCodes
+{
+  /// <summary>The message was not valid JSON.</summary>
+  public const int ParseError = -32700;
+
+  /// <summary>The message was not a valid request.</summary>
+  public const int InvalidRequest = -32600;
+
+  /// <summary>No handler is registered for the method.</summary>
+  public const int MethodNotFound = -32601;
+
+  /// <summary>The params could not be deserialized into the handler's parameter type.</summary>
+  public const int InvalidParams = -32602;
+
+  /// <summary>The handler threw.</summary>
+  public const int InternalError = -32603;
+
+  /// <summary>The caller cancelled the request.</summary>
+  public const int RequestCancelled = -32800;
+}
+
+/// <summary>
+/// A JSON-RPC error. <see cref="DenoRpcConnection"/> throws it when a call to the Deno script fails; a handler throws
+/// it to answer with its own <see cref="Code"/> and <see cref="ErrorData"/>.
+/// </summary>
+public sealed class DenoRpcException : Exception
+{
+  public DenoRpcException(int code, string errorMessage, JsonElement? errorData = null)
+    : base(errorMessage)
+  {
+    Code = code;
+    ErrorMessage = errorMessage;
+    ErrorData = errorData;
+  }
+
+  internal DenoRpcException(string method, int code, string errorMessage, JsonElement? errorData)
+    : base($"{method} failed with JSON-RPC error {code}: {errorMessage}")
+  {
+    Method = method;
+    Code = code;
+    ErrorMessage = errorMessage;
+    ErrorData = errorData;
+  }
+
+  /// <summary>The method that was called, when the error is a response from the Deno script.</summary>
+  public string? Method { get; }
+
+  /// <summary>The JSON-RPC error code, e.g. <see cref="DenoRpcErrorCodes.MethodNotFound"/>.</summary>
+  public int Code { get; }
+
+  /// <summary>The error message of the error object.</summary>
+  public string ErrorMessage { get; }
+
+  /// <summary>The <c>data</c> member of the error object, if any.</summary>
+  public JsonElement? ErrorData { get; }
+
+  /// <summary>The JavaScript error name, e.g. <c>TypeError</c>, when the Deno handler threw an error.</summary>
+  public string? ErrorName => GetDataString("name");
+
+  /// <summary>The JavaScript stack trace, when the Deno handler threw an error that had one.</summary>
+  public string? DenoStackTrace => GetDataString("stack");
+
+  private string? GetDataString(string property)
+    => ErrorData is { ValueKind: JsonValueKind.Object } data
+      && data.TryGetProperty(property, out var value)
+      && value.ValueKind == JsonValueKind.String
+        ? value.GetString()
+        : null;
+}
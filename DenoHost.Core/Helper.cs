@@ -1,10 +1,17 @@
 using System;
+using System.Collections.Concurrent;
+using System.Collections.Generic;
+using System.Diagnostics;
 using System.IO;
+using System.Linq;
 using System.Runtime.InteropServices;
 using System.Security;
 using System.Security.Cryptography;
 using System.Text.Json;
 using System.Text.Json.Serialization;
+using System.Text.RegularExpressions;
+using System.Threading;
+using System.Threading.Tasks;
 using DenoHost.Core.Config;
 
 namespace DenoHost.Core;
@@ -136,6 +143,81 @@ internal static class Helper
     return normalizedPath;
   }
 
+  private static readonly TimeSpan DenoVersionTimeout = TimeSpan.FromSeconds(10);
+  private static readonly ConcurrentDictionary<string, Lazy<Task<Version?>>> DetectedDenoVersions = new();
+
+  /// <summary>
+  /// Version of the Deno binary in use (<c>deno --version</c> run with <paramref name="environment"/> applied, once per
+  /// distinct environment); null when it cannot be run or does not answer within ten seconds. Failed detections are not
+  /// cached, so the next call tries again.
+  /// </summary>
+  internal static async Task<Version?> GetDenoVersionAsync(DenoEnvironment? environment, CancellationToken cancellationToken)
+  {
+    var key = environment is null
+      ? string.Empty
+      : string.Join('\n', environment.GetVariables().Select(v => $"{v.Key}={v.Value}").Prepend(environment.ClearInherited ? "clear" : "inherit"));
+    var detection = DetectedDenoVersions.GetOrAdd(key, _ => new Lazy<Task<Version?>>(() => DetectDenoVersionAsync(environment)));
+
+    // The detection is shared, so the caller's token only stops the wait, not the detection.
+    try
+    {
+      var version = await detection.Value.WaitAsync(cancellationToken).ConfigureAwait(false);
+      if (version is null)
+        DetectedDenoVersions.TryRemove(new KeyValuePair<string, Lazy<Task<Version?>>>(key, detection));
+      return version;
+    }
+    catch when (detection.Value.IsFaulted)
+    {
+      DetectedDenoVersions.TryRemove(new KeyValuePair<string, Lazy<Task<Version?>>>(key, detection));
+      throw;
+    }
+  }
+
+  internal static Version? ParseDenoVersion(string versionOutput)
+  {
+    // "deno 2.9.5 (stable, release, x86_64-unknown-linux-gnu)"
+    var match = Regex.Match(versionOutput, @"^deno (\d+\.\d+\.\d+)", RegexOptions.Multiline);
+    return match.Success ? Version.Parse(match.Groups[1].Value) : null;
+  }
+
+  private static async Task<Version?> DetectDenoVersionAsync(DenoEnvironment? environment)
+  {
+    try
+    {
+      var startInfo = new ProcessStartInfo
+      {
+        FileName = GetDenoPath(),
+        RedirectStandardOutput = true,
+        RedirectStandardError = true,
+        UseShellExecute = false,
+        CreateNoWindow = true,
+      };
+      startInfo.ArgumentList.Add("--version");
+      environment?.ApplyTo(startInfo);
+
+      using var process = Process.Start(startInfo);
+      if (process is null) return null;
+
+      using var timeout = new CancellationTokenSource(DenoVersionTimeout);
+      try
+      {
+        var output = process.StandardOutput.ReadToEndAsync(timeout.Token);
+        var error = process.StandardError.ReadToEndAsync(timeout.Token);
+        await Task.WhenAll(output, error, process.WaitForExitAsync(timeout.Token)).ConfigureAwait(false);
+        return process.ExitCode == 0 ? ParseDenoVersion(await output.ConfigureAwait(false)) : null;
+      }
+      catch (OperationCanceledException)
+      {
+        process.Kill(entireProcessTree: true);
+        return null;
+      }
+    }
+    catch (Exception ex) when (ex is IOException or InvalidOperationException or UnauthorizedAccessException or PlatformNotSupportedException or System.ComponentModel.Win32Exception or SecurityException)
+    {
+      return null;
+    }
+  }
+
   internal static bool IsChecksumBypassEnabled()
   {
     var value = Environment.GetEnvironmentVariable(ChecksumBypassEnvVarName);
@@ -12,6 +12,7 @@ internal static class LogEvents
   public static readonly EventId DenoExecutionFailed = new(1003, "DenoExecutionFailed");
   public static readonly EventId DenoExecutionError = new(1004, "DenoExecutionError");
   public static readonly EventId DenoOutput = new(1005, "DenoOutput");
+  public static readonly EventId UnsupportedDenoFlag = new(1006, "UnsupportedDenoFlag");
   public static readonly EventId SignatureValidationFailed = new(2001, "SignatureValidationFailed");
   public static readonly EventId HashMismatchDetected = new(2002, "HashMismatchDetected");
   public static readonly EventId MetadataMissing = new(2003, "MetadataMissing");
@@ -0,0 +1,109 @@
+import { assertEquals, assertRejects } from 'jsr:@std/assert@^1.0.19';
+import { connect, type ConnectOptions, ErrorCodes, RECORD_SEPARATOR, RpcError } from './denohost-rpc.ts';
+
+// A connection over an in-memory input; `nextSent` yields the messages the script wrote, checking their framing.
+function open(options: ConnectOptions = {}) {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let input!: ReadableStreamDefaultController<Uint8Array>;
+  const frames: string[] = [];
+  let written: (() => void) | undefined;
+
+  const rpc = connect({
+    ...options,
+    input: new ReadableStream({ start: (controller) => void (input = controller) }),
+    write: (bytes) => {
+      frames.push(decoder.decode(bytes));
+      written?.();
+      return Promise.resolve();
+    },
+  });
+
+  return {
+    rpc,
+    receive: (line: string) => input.enqueue(encoder.encode(line + '\n')),
+    close: () => input.close(),
+    async nextSent() {
+      while (frames.length === 0) await new Promise<void>((resolve) => (written = resolve));
+      const frame = frames.shift()!;
+      assertEquals([frame.at(0), frame.at(-1)], [RECORD_SEPARATOR, '\n']);
+      return JSON.parse(frame.slice(1, -1));
+    },
+  };
+}
+
+const message = (body: object) => RECORD_SEPARATOR + JSON.stringify({ jsonrpc: '2.0', ...body });
+
+Deno.test('connect: only lines starting with the record separator are messages', async () => {
+  const text: string[] = [];
+  const { rpc, receive, close, nextSent } = open({ onText: (line) => text.push(line) });
+  rpc.handle('greet', (name: string) => `Hello ${name}`);
+
+  const call = rpc.call<number>('add', [2, 3]);
+  assertEquals(await nextSent(), { jsonrpc: '2.0', id: 1, method: 'add', params: [2, 3] });
+  receive('hello');
+  receive('partial ' + message({ id: 1, result: 4 }));
+  receive(message({ id: 1, result: 5 }));
+  assertEquals(await call, 5);
+  assertEquals(text, ['hello', 'partial ' + message({ id: 1, result: 4 })]);
+
+  receive(message({ id: 'a', method: 'greet', params: 'Deno' }));
+  assertEquals(await nextSent(), { jsonrpc: '2.0', id: 'a', result: 'Hello Deno' });
+
+  receive(`${RECORD_SEPARATOR}{not json`);
+  assertEquals(await nextSent(), {
+    jsonrpc: '2.0',
+    id: null,
+    error: { code: ErrorCodes.ParseError, message: 'Parse error' },
+  });
+
+  close();
+  await rpc.closed;
+});
+
+Deno.test('connect: an error response that is not an object fails the call with InvalidRequest', async () => {
+  const { rpc, receive, close, nextSent } = open();
+
+  const call = rpc.call('add');
+  const { id } = await nextSent();
+  receive(message({ id, error: 'boom' }));
+  const error = await assertRejects(() => call, RpcError);
+  assertEquals(error.code, ErrorCodes.InvalidRequest);
+
+  close();
+  await rpc.closed;
+});
+
+Deno.test('connect: aborting a call cancels it on the host, $/cancelRequest aborts a handler', async () => {
+  const { rpc, receive, close, nextSent } = open();
+  rpc.handle('wait', (_params, { signal }) => new Promise((_, reject) => signal.addEventListener('abort', reject)));
+
+  const controller = new AbortController();
+  const call = rpc.call('slow', undefined, { signal: controller.signal });
+  assertEquals((await nextSent()).id, 1);
+  controller.abort(new Error('no longer needed'));
+  await assertRejects(() => call, Error, 'no longer needed');
+  assertEquals(await nextSent(), { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } });
+
+  receive(message({ id: 7, method: 'wait' }));
+  receive(message({ method: '$/cancelRequest', params: { id: 7 } }));
+  assertEquals(await nextSent(), {
+    jsonrpc: '2.0',
+    id: 7,
+    error: { code: ErrorCodes.RequestCancelled, message: 'Request cancelled' },
+  });
+
+  close();
+  await rpc.closed;
+});
+
+Deno.test('connect: closing the input resolves closed and rejects pending and later calls', async () => {
+  const { rpc, close, nextSent } = open();
+
+  const pending = assertRejects(() => rpc.call('never'), Error, 'The host closed the connection.');
+  await nextSent();
+  close();
+  await rpc.closed;
+  await pending;
+  await assertRejects(() => rpc.call('late'), Error, 'The host closed the connection.');
+});
@@ -0,0 +1,261 @@
+// Companion module of DenoHost.Core's DenoRpcConnection: JSON-RPC 2.0 between a Deno script and the .NET host over
+// stdin/stdout. Every message is one line that starts with the ASCII record separator (RFC 7464 JSON text
+// sequences), so console.log output stays regular output on the .NET side and never corrupts a message.
+//
+//   import { connect } from './denohost-rpc.ts';
+//
+//   const rpc = connect();
+//   rpc.handle('add', ([a, b]: [number, number]) => a + b);
+//   const user = await rpc.call<{ name: string }>('getUser', { id: 42 });
+//   rpc.notify('progress', { percent: 50 });
+//   await rpc.closed; // the host closed stdin (DenoProcess.StopAsync)
+//
+// Register handlers before the first `await`: requests that arrive for an unknown method are answered with
+// "Method not found". Write this file with DenoRpcConnection.WriteModule(directory) or take it from the package's
+// deno/ folder.
+
+export const RECORD_SEPARATOR = '\x1e';
+
+/** Error codes of the JSON-RPC 2.0 specification, plus the LSP code for cancelled requests. */
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  RequestCancelled: -32800,
+} as const;
+
+const CANCEL_METHOD = '$/cancelRequest';
+
+/** A JSON-RPC error: thrown by `call` for error responses, and answered with its code when a handler throws it. */
+export class RpcError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: unknown) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+// deno-lint-ignore no-explicit-any
+export type RequestHandler = (params: any, context: { signal: AbortSignal }) => unknown;
+// deno-lint-ignore no-explicit-any
+export type NotificationHandler = (params: any) => unknown;
+
+export interface ConnectOptions {
+  /** Where messages from the host arrive; stdin by default. */
+  input?: ReadableStream<Uint8Array>;
+  /** Writes one encoded message; stdout by default. */
+  write?: (bytes: Uint8Array) => Promise<void>;
+  /** Receives input lines that are not messages (for example text sent with DenoProcess.SendInputAsync). */
+  onText?: (line: string) => void;
+}
+
+export interface RpcConnection {
+  /** Answers requests for `method` from the host with the handler's (awaited) return value. */
+  handle(method: string, handler: RequestHandler): void;
+  /** Calls `handler` for notifications of `method` from the host. */
+  onNotification(method: string, handler: NotificationHandler): void;
+  /** Calls a handler registered with DenoRpcConnection.AddHandler; aborting `signal` cancels it on the host. */
+  call<T = unknown>(method: string, params?: unknown, options?: { signal?: AbortSignal }): Promise<T>;
+  /** Sends a notification to a handler registered with DenoRpcConnection.AddNotificationHandler. */
+  notify(method: string, params?: unknown): Promise<void>;
+  /** Resolves when the host closes the input; pending calls are rejected then. */
+  readonly closed: Promise<void>;
+}
+
+interface Message {
+  jsonrpc?: string;
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+async function writeStdout(bytes: Uint8Array): Promise<void> {
+  for (let n = 0; n < bytes.length;) n += await Deno.stdout.write(bytes.subarray(n));
+}
+
+function toErrorObject(error: unknown): Message['error'] {
+  if (error instanceof RpcError) {
+    return { code: error.code, message: error.message, data: error.data ?? { name: error.name, stack: error.stack } };
+  }
+  const e = error as Error | undefined;
+  return {
+    code: ErrorCodes.InternalError,
+    message: e?.message ?? String(error),
+    data: { name: e?.name ?? 'Error', stack: e?.stack ?? null },
+  };
+}
+
+export function connect(options: ConnectOptions = {}): RpcConnection {
+  const input = options.input ?? Deno.stdin.readable;
+  const write = options.write ?? writeStdout;
+  const encoder = new TextEncoder();
+
+  const handlers = new Map<string, RequestHandler>();
+  const notificationHandlers = new Map<string, NotificationHandler>();
+  const pending = new Map<number, { resolve: (value: unknown) => void; reject: (reason: unknown) => void }>();
+  const incoming = new Map<string, AbortController>();
+  let nextId = 1;
+  let isClosed = false;
+
+  // Messages are written one after another, so a partial write never interleaves with the next message.
+  let writing = Promise.resolve();
+  const send = (message: Message): Promise<void> => {
+    const bytes = encoder.encode(RECORD_SEPARATOR + JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+    const result = writing.then(() => write(bytes));
+    writing = result.catch(() => {});
+    return result;
+  };
+
+  const respond = (id: Message['id'], body: Pick<Message, 'result' | 'error'>) =>
+    send({ id, ...body }).catch((e) => console.error(`denohost-rpc: failed to send the response to ${id}:`, e));
+
+  async function handleRequest(message: Message & { method: string }) {
+    const handler = handlers.get(message.method);
+    if (!handler) {
+      await respond(message.id, {
+        error: { code: ErrorCodes.MethodNotFound, message: `Method not found: ${message.method}` },
+      });
+      return;
+    }
+
+    const key = JSON.stringify(message.id);
+    const controller = new AbortController();
+    incoming.set(key, controller);
+    try {
+      const result = await handler(message.params, { signal: controller.signal });
+      await respond(
+        message.id,
+        controller.signal.aborted
+          ? { error: { code: ErrorCodes.RequestCancelled, message: 'Request cancelled' } }
+          : { result: result ?? null },
+      );
+    } catch (e) {
+      await respond(message.id, {
+        error: controller.signal.aborted
+          ? { code: ErrorCodes.RequestCancelled, message: 'Request cancelled' }
+          : toErrorObject(e),
+      });
+    } finally {
+      incoming.delete(key);
+    }
+  }
+
+  function handleNotification(message: Message & { method: string }) {
+    if (message.method === CANCEL_METHOD) {
+      const id = (message.params as { id?: unknown } | undefined)?.id;
+      incoming.get(JSON.stringify(id))?.abort(new RpcError(ErrorCodes.RequestCancelled, 'Request cancelled'));
+      return;
+    }
+    const handler = notificationHandlers.get(message.method);
+    if (!handler) return;
+    Promise.resolve()
+      .then(() => handler(message.params))
+      .catch((e) => console.error(`denohost-rpc: notification handler for ${message.method} failed:`, e));
+  }
+
+  function handleResponse(message: Message) {
+    const request = typeof message.id === 'number' ? pending.get(message.id) : undefined;
+    if (!request) return; // cancelled on this side already
+    pending.delete(message.id as number);
+    const { error } = message;
+    if (error === undefined) {
+      request.resolve(message.result ?? null);
+    } else if (typeof error !== 'object' || error === null) {
+      request.reject(new RpcError(ErrorCodes.InvalidRequest, "Invalid Request: the response's error is not an object"));
+    } else {
+      request.reject(new RpcError(error.code, error.message, error.data));
+    }
+  }
+
+  function receive(line: string) {
+    if (!line.startsWith(RECORD_SEPARATOR)) {
+      if (line) options.onText?.(line);
+      return;
+    }
+
+    let message: Message;
+    try {
+      message = JSON.parse(line.slice(1));
+    } catch {
+      void respond(null, { error: { code: ErrorCodes.ParseError, message: 'Parse error' } });
+      return;
+    }
+
+    if (typeof message?.method === 'string') {
+      if (message.id === undefined) handleNotification(message as Message & { method: string });
+      else void handleRequest(message as Message & { method: string });
+    } else if (message && message.id !== undefined && ('result' in message || 'error' in message)) {
+      handleResponse(message);
+    } else {
+      void respond(message?.id ?? null, { error: { code: ErrorCodes.InvalidRequest, message: 'Invalid Request' } });
+    }
+  }
+
+  async function readInput() {
+    let buffer = '';
+    for await (const chunk of input.pipeThrough(new TextDecoderStream())) {
+      buffer += chunk;
+      let newline;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        receive(buffer.slice(0, newline).replace(/\r$/, ''));
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+    if (buffer) receive(buffer);
+  }
+
+  const closed = readInput().catch(() => {}).finally(() => {
+    isClosed = true;
+    for (const controller of incoming.values()) controller.abort(new Error('The host closed the connection.'));
+    for (const request of pending.values()) request.reject(new Error('The host closed the connection.'));
+    pending.clear();
+  });
+
+  return {
+    handle(method, handler) {
+      handlers.set(method, handler);
+    },
+
+    onNotification(method, handler) {
+      notificationHandlers.set(method, handler);
+    },
+
+    call<T>(method: string, params?: unknown, { signal }: { signal?: AbortSignal } = {}): Promise<T> {
+      if (isClosed) return Promise.reject(new Error('The host closed the connection.'));
+      signal?.throwIfAborted();
+
+      const id = nextId++;
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          if (!pending.delete(id)) return;
+          reject(signal!.reason);
+          void send({ method: CANCEL_METHOD, params: { id } }).catch(() => {});
+        };
+        pending.set(id, {
+          resolve: (value) => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(value as T);
+          },
+          reject: (reason) => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(reason);
+          },
+        });
+        signal?.addEventListener('abort', onAbort, { once: true });
+        send({ id, method, ...(params === undefined ? {} : { params }) }).catch((e) => {
+          pending.delete(id);
+          reject(e);
+        });
+      });
+    },
+
+    notify(method, params) {
+      return send({ method, ...(params === undefined ? {} : { params }) });
+    },
+
+    closed,
+  };
+}
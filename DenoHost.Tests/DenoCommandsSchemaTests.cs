@@ -12,13 +12,16 @@ namespace DenoHost.Tests;
 /// </summary>
 public class DenoCommandsSchemaTests
 {
-  // Commands whose generated options include permission flags (must match `hasPermissions: true`
-  // entries in tools/gen-commands/generate.ts's COMMANDS list).
-  private static readonly HashSet<string> PermissionCommands = ["run", "eval", "test", "bench", "compile", "serve"];
-
   private static readonly HttpClient HttpClient = new();
 
-  private static readonly string SnapshotPath = FindSnapshotFile();
+  private static readonly string SnapshotPath = FindGenCommandsFile("deno_reference.snapshot.json");
+
+  // Flags never generated and commands whose generated options include permission flags, shared with the generator.
+  private static readonly JsonNode GeneratorConfig = JsonNode.Parse(
+    File.ReadAllText(FindGenCommandsFile("generator.config.jsonc")),
+    documentOptions: new JsonDocumentOptions { CommentHandling = JsonCommentHandling.Skip, AllowTrailingCommas = true })!;
+
+  private static readonly HashSet<string> PermissionCommands = ConfigNames("permissionCommands");
 
   [Fact]
   public async Task GeneratedOptions_MatchCurrentDenoJsonReference()
@@ -97,7 +100,7 @@ public class DenoCommandsSchemaTests
     if (proc.ExitCode != 0)
       throw new InvalidOperationException($"deno json_reference exited with code {proc.ExitCode}.");
 
-    var skipFlags = new HashSet<string> { "config", "no-config", "help", "inspect", "inspect-brk", "inspect-wait", "inspect-publish-uid", "tunnel" };
+    var skipFlags = ConfigNames("skipFlags");
 
     var root = JsonNode.Parse(output)!;
     var subcommands = root["subcommands"]!.AsArray();
@@ -178,9 +181,12 @@ public class DenoCommandsSchemaTests
     return plusIndex > 0 ? version[..plusIndex] : version;
   }
 
-  private static string FindSnapshotFile()
+  private static HashSet<string> ConfigNames(string section) =>
+    GeneratorConfig[section]?.AsArray().Select(v => v!.GetValue<string>()).ToHashSet() ?? [];
+
+  private static string FindGenCommandsFile(string fileName)
   {
-    // Walk up from the test binary location to find the solution root, then locate the snapshot.
+    // Walk up from the test binary location to find the solution root, then locate the file.
     var dir = new DirectoryInfo(AppContext.BaseDirectory);
     while (dir != null && dir.GetFiles("*.slnx").Length == 0 && dir.GetFiles("*.sln").Length == 0)
       dir = dir.Parent;
@@ -188,9 +194,9 @@ public class DenoCommandsSchemaTests
     if (dir == null)
       throw new DirectoryNotFoundException("Solution root not found.");
 
-    var path = Path.Combine(dir.FullName, "tools", "gen-commands", "deno_reference.snapshot.json");
+    var path = Path.Combine(dir.FullName, "tools", "gen-commands", fileName);
     if (!File.Exists(path))
-      throw new FileNotFoundException($"Snapshot not found at {path}. Run `deno task generate` in tools/gen-commands/.");
+      throw new FileNotFoundException($"{fileName} not found at {path}. Run `deno task generate` in tools/gen-commands/.");
 
     return path;
   }
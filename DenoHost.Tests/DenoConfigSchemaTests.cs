@@ -258,7 +258,7 @@ public class DenoConfigSchemaTests
         ["@std/"] = "jsr:@std/",
         ["@/"] = "./src/"
       },
-      Tasks = new Dictionary<string, object>
+      Tasks = new Dictionary<string, TaskDefinition>
       {
         ["test"] = "deno test",
         ["dev"] = "deno run --allow-net --allow-read server.ts"
@@ -324,7 +324,7 @@ public class DenoConfigSchemaTests
         ["target"] = "ES2022",
         ["lib"] = new[] { "deno.window", "dom", "deno.unstable" }
       },
-      Tasks = new Dictionary<string, object>
+      Tasks = new Dictionary<string, TaskDefinition>
       {
         ["build"] = "deno run build.ts",
         ["test"] = "deno test --coverage",
@@ -486,4 +486,36 @@ public class DenoConfigSchemaTests
     Assert.Equal("test-permissions", deserializedConfig.Test?.Permissions?.PermissionName);
     Assert.True(deserializedConfig.Bench?.Permissions?.IsPermissionSet);
   }
+
+  [Fact]
+  public void TaskDefinition_SerializationRoundTrip_KeepsStringShorthand()
+  {
+    var json = """
+      {
+        "tasks": {
+          "dev": "deno run --watch main.ts",
+          "build": {
+            "description": "Bundle the app",
+            "command": "deno bundle main.ts",
+            "dependencies": ["check"]
+          },
+          "ci": { "dependencies": ["build", "dev"] }
+        }
+      }
+      """;
+
+    var config = JsonSerializer.Deserialize<DenoConfig>(json, JsonOptions.Default);
+
+    Assert.NotNull(config?.Tasks);
+    Assert.True(config.Tasks["dev"].IsCommandOnly);
+    Assert.Equal("deno run --watch main.ts", config.Tasks["dev"].Command);
+    Assert.Equal("Bundle the app", config.Tasks["build"].Description);
+    Assert.Equal(["check"], config.Tasks["build"].Dependencies!);
+    Assert.Null(config.Tasks["ci"].Command);
+
+    var tasks = JsonDocument.Parse(config.ToJson()).RootElement.GetProperty("tasks");
+    Assert.Equal(JsonValueKind.String, tasks.GetProperty("dev").ValueKind);
+    Assert.Equal("deno bundle main.ts", tasks.GetProperty("build").GetProperty("command").GetString());
+    Assert.False(tasks.GetProperty("ci").TryGetProperty("command", out _));
+  }
 }
@@ -0,0 +1,84 @@
+using System.Diagnostics;
+using DenoHost.Core;
+
+namespace DenoHost.Tests;
+
+public class DenoEnvironmentTests
+{
+  [Fact]
+  public void GetVariables_FormatsTypedProperties()
+  {
+    var environment = new DenoEnvironment
+    {
+      DenoAuthTokens = ["a@deno.land", "b@github.com"],
+      DenoV8Flags = ["--max-old-space-size=512", "--expose-gc"],
+      DenoJobs = 4,
+      DenoNoUpdateCheck = true,
+      NoColor = false,
+      DenoDir = "/tmp/deno",
+    };
+
+    var variables = environment.GetVariables().ToDictionary(v => v.Key, v => v.Value);
+
+    Assert.Equal("a@deno.land;b@github.com", variables["DENO_AUTH_TOKENS"]);
+    Assert.Equal("--max-old-space-size=512,--expose-gc", variables["DENO_V8_FLAGS"]);
+    Assert.Equal("4", variables["DENO_JOBS"]);
+    Assert.Equal("1", variables["DENO_NO_UPDATE_CHECK"]);
+    Assert.Null(variables["NO_COLOR"]);
+    Assert.Equal("/tmp/deno", variables["DENO_DIR"]);
+    Assert.Equal(6, variables.Count);
+  }
+
+  [Fact]
+  public void GetVariables_AppliesCustomVariablesLast()
+  {
+    var environment = new DenoEnvironment
+    {
+      DenoDir = "/tmp/typed",
+      Variables = { ["DENO_DIR"] = "/tmp/custom", ["MY_VAR"] = "x" },
+    };
+
+    var variables = environment.GetVariables().ToList();
+
+    Assert.Equal(["DENO_DIR", "DENO_DIR", "MY_VAR"], variables.Select(v => v.Key));
+    Assert.Equal("/tmp/custom", variables[1].Value);
+  }
+
+  [Fact]
+  public void ApplyTo_SetsAndRemovesVariables()
+  {
+    var startInfo = new ProcessStartInfo("deno");
+    startInfo.Environment["NO_COLOR"] = "1";
+    startInfo.Environment["KEEP_ME"] = "yes";
+
+    new DenoEnvironment { NoColor = false, DenoNoPrompt = true }.ApplyTo(startInfo);
+
+    Assert.False(startInfo.Environment.ContainsKey("NO_COLOR"));
+    Assert.Equal("1", startInfo.Environment["DENO_NO_PROMPT"]);
+    Assert.Equal("yes", startInfo.Environment["KEEP_ME"]);
+  }
+
+  [Fact]
+  public void ApplyTo_ClearInherited_KeepsOnlyOwnVariables()
+  {
+    var startInfo = new ProcessStartInfo("deno");
+    startInfo.Environment["KEEP_ME"] = "yes";
+
+    new DenoEnvironment { ClearInherited = true, Variables = { ["MY_VAR"] = "x" } }.ApplyTo(startInfo);
+
+    Assert.Equal(["MY_VAR"], startInfo.Environment.Keys);
+  }
+
+  [Fact]
+  public async Task Execute_WithEnvironment_PassesVariablesToDeno()
+  {
+    var baseOptions = new DenoExecuteBaseOptions
+    {
+      Environment = new DenoEnvironment { Variables = { ["DENOHOST_TEST_VALUE"] = "from-environment" } }
+    };
+
+    var result = await Deno.Execute<string>("eval", baseOptions, ["console.log(Deno.env.get('DENOHOST_TEST_VALUE'))"], TestContext.Current.CancellationToken);
+
+    Assert.Contains("from-environment", result);
+  }
+}
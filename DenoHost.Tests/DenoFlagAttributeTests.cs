@@ -0,0 +1,40 @@
+using System.Reflection;
+using DenoHost.Core.Commands;
+
+namespace DenoHost.Tests;
+
+public class DenoFlagAttributeTests
+{
+  [Fact]
+  public void EveryGeneratedOptionsProperty_HasDenoFlagAttribute()
+  {
+    var optionsTypes = typeof(RunOptions).Assembly.GetTypes()
+      .Where(t => t.Namespace == "DenoHost.Core.Commands" && t.Name.EndsWith("Options", StringComparison.Ordinal) && t.IsClass);
+
+    foreach (var type in optionsTypes)
+    {
+      foreach (var property in type.GetProperties(BindingFlags.Public | BindingFlags.Instance))
+      {
+        var flag = property.GetCustomAttribute<DenoFlagAttribute>();
+        Assert.True(flag is not null, $"{type.Name}.{property.Name} has no [DenoFlag].");
+        Assert.StartsWith("--", flag.Name);
+        Assert.Contains(flag.Name, flag.Usage);
+      }
+    }
+  }
+
+  [Fact]
+  public void DenoFlagAttribute_CarriesShortAliasHeadingAndPlainHelp()
+  {
+    var allowAll = typeof(RunOptions).GetProperty(nameof(RunOptions.AllowAll))!.GetCustomAttribute<DenoFlagAttribute>()!;
+    Assert.Equal("--allow-all", allowAll.Name);
+    Assert.Equal("-A", allowAll.ShortAlias);
+    Assert.Equal("Permissions", allowAll.Heading);
+
+    var envFile = typeof(RunOptions).GetProperty(nameof(RunOptions.EnvFile))!.GetCustomAttribute<DenoFlagAttribute>()!;
+    Assert.Null(envFile.ShortAlias);
+    Assert.Equal("--env-file[=<FILE>]", envFile.Usage);
+    Assert.StartsWith("Load environment variables from local file\n", envFile.Help);
+    Assert.DoesNotContain("\u001b", envFile.Help);
+  }
+}
@@ -0,0 +1,125 @@
+using System.Text.Json.Serialization;
+using DenoHost.Core;
+
+namespace DenoHost.Tests;
+
+public class DenoModuleProxyTests(TempFileFixture tempFileFixture) : IClassFixture<TempFileFixture>
+{
+  private const string PricingModule = """
+    export interface QuoteRequest { sku: string; quantity: number }
+    export interface Quote { sku: string; total: number; note?: string }
+    export async function quote(request: QuoteRequest, discount = 0): Promise<Quote> {
+      console.log("noise on stdout must not break the result");
+      return { sku: request.sku, total: request.quantity * 10 * (1 - discount / 100) };
+    }
+    export function find(sku: string): Quote | null { return null; }
+    export function fail(): void { throw new RangeError("out of stock"); }
+    """;
+
+  // Shaped like the output of tools/gen-commands/generate-proxy.ts.
+  private sealed record QuoteRequest
+  {
+    [JsonPropertyName("sku")]
+    public required string Sku { get; init; }
+
+    [JsonPropertyName("quantity")]
+    public required double Quantity { get; init; }
+  }
+
+  private sealed record Quote
+  {
+    [JsonPropertyName("sku")]
+    public required string Sku { get; init; }
+
+    [JsonPropertyName("total")]
+    public required double Total { get; init; }
+
+    [JsonPropertyName("note")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? Note { get; init; }
+  }
+
+  private sealed class PricingProxy(string module, DenoExecuteBaseOptions? baseOptions = null)
+    : DenoModuleProxy(module, baseOptions)
+  {
+    public Task<Quote> QuoteAsync(QuoteRequest request, double? discount = null, CancellationToken cancellationToken = default)
+      => InvokeAsync<Quote>("quote", 1, [request, discount], cancellationToken);
+
+    public Task<Quote?> FindAsync(string sku, CancellationToken cancellationToken = default)
+      => InvokeAsync<Quote?>("find", 1, [sku], cancellationToken);
+
+    public Task FailAsync(CancellationToken cancellationToken = default)
+      => InvokeAsync("fail", 0, [], cancellationToken);
+
+    public Task MissingAsync(CancellationToken cancellationToken = default)
+      => InvokeAsync("missing", 0, [], cancellationToken);
+  }
+
+  private PricingProxy CreateProxy()
+  {
+    tempFileFixture.CreateTempFile("pricing.ts", PricingModule);
+    return new PricingProxy("pricing.ts", new DenoExecuteBaseOptions { WorkingDirectory = tempFileFixture.TempDirectory });
+  }
+
+  [Fact]
+  public async Task InvokeAsync_SerializesArgumentsAndDeserializesResult()
+  {
+    var proxy = CreateProxy();
+
+    var quote = await proxy.QuoteAsync(new QuoteRequest { Sku = "A-1", Quantity = 3 }, 50, TestContext.Current.CancellationToken);
+
+    Assert.Equal(new Quote { Sku = "A-1", Total = 15 }, quote);
+  }
+
+  [Fact]
+  public async Task InvokeAsync_LeavesOutNullOptionalArguments()
+  {
+    var proxy = CreateProxy();
+
+    var quote = await proxy.QuoteAsync(new QuoteRequest { Sku = "A-1", Quantity = 3 }, cancellationToken: TestContext.Current.CancellationToken);
+
+    Assert.Equal(30, quote.Total);
+  }
+
+  [Fact]
+  public async Task InvokeAsync_ReturnsNull()
+  {
+    var proxy = CreateProxy();
+
+    Assert.Null(await proxy.FindAsync("nope", TestContext.Current.CancellationToken));
+  }
+
+  [Fact]
+  public async Task InvokeAsync_ThrowsDenoProxyException()
+  {
+    var proxy = CreateProxy();
+
+    var ex = await Assert.ThrowsAsync<DenoProxyException>(() => proxy.FailAsync(TestContext.Current.CancellationToken));
+
+    Assert.Equal("fail", ex.ExportName);
+    Assert.Equal("RangeError", ex.ErrorName);
+    Assert.Equal("out of stock", ex.ErrorMessage);
+    Assert.Contains("pricing.ts", ex.DenoStackTrace);
+
+    ex = await Assert.ThrowsAsync<DenoProxyException>(() => proxy.MissingAsync(TestContext.Current.CancellationToken));
+    Assert.Equal("TypeError", ex.ErrorName);
+  }
+
+  [Fact]
+  public void TrimOptionalArgs_KeepsRequiredNulls()
+  {
+    Assert.Equal(["a"], DenoModuleProxy.TrimOptionalArgs(["a", null, null], 1));
+    Assert.Equal(["a", null, "c"], DenoModuleProxy.TrimOptionalArgs(["a", null, "c"], 1));
+    Assert.Null(Assert.Single(DenoModuleProxy.TrimOptionalArgs([null], 1)));
+  }
+
+  [Fact]
+  public void ResolveSpecifier_TurnsPathsIntoFileUrls()
+  {
+    var directory = Path.GetTempPath();
+
+    Assert.Equal(new Uri(Path.Combine(directory, "mod.ts")).AbsoluteUri, DenoModuleProxy.ResolveSpecifier("mod.ts", directory));
+    Assert.Equal("jsr:@std/path", DenoModuleProxy.ResolveSpecifier("jsr:@std/path", directory));
+    Assert.Equal("https://example.com/mod.ts", DenoModuleProxy.ResolveSpecifier("https://example.com/mod.ts", directory));
+  }
+}
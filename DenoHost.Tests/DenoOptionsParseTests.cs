@@ -0,0 +1,126 @@
+using DenoHost.Core.Commands;
+
+namespace DenoHost.Tests;
+
+public class DenoOptionsParseTests
+{
+  [Fact]
+  public void RunOptions_RoundTripsThroughToArgs()
+  {
+    var options = new RunOptions
+    {
+      AllowAll = true,
+      AllowRead = ["./data", "/tmp"],
+      Reload = [],
+      Frozen = false,
+      Location = "https://example.com",
+      Seed = -7,
+      CpuProfInterval = 1_000_000_000_000,
+      EnvFile = "",
+      NoCheck = "remote",
+      Ext = "tsx",
+    };
+
+    var parsed = RunOptions.Parse(options.ToArgs());
+
+    Assert.Equal(options.ToArgs(), parsed.ToArgs());
+    Assert.Equal(["./data", "/tmp"], parsed.AllowRead);
+    Assert.Equal("remote", parsed.NoCheck);
+  }
+
+  // One canonical ToArgs() output per ArgStyle; values that look like flags, hold '=' or need quoting included.
+  public static TheoryData<string[]> CanonicalRunArgs => new()
+  {
+    { ["--allow-all"] },
+    { ["--frozen"] },
+    { ["--frozen=false"] },
+    { ["--location", "https://x.dev/?q=1"] },
+    { ["--ext", "-neg"] },
+    { ["--import-map", "ä b"] },
+    { ["--seed", "-1000"] },
+    { ["--cpu-prof-interval", "1000000000000"] },
+    { ["--env-file"] },
+    { ["--env-file=k=v"] },
+    { ["--allow-read"] },
+    { ["--allow-read=a,src/x.ts,k=v"] },
+  };
+
+  [Theory]
+  [MemberData(nameof(CanonicalRunArgs))]
+  public void RunOptions_ToArgs_RoundTripsThroughParse(string[] args)
+  {
+    Assert.Equal(args, RunOptions.Parse(args).ToArgs());
+  }
+
+  [Fact]
+  public void FmtOptions_ToArgs_RoundTripsArrays()
+  {
+    var options = new FmtOptions { Ignore = ["a.ts", "-neg", "k=v"] };
+
+    Assert.Equal(["--ignore", "a.ts,-neg,k=v"], options.ToArgs());
+    Assert.Equal(options.Ignore, FmtOptions.Parse(options.ToArgs()).Ignore);
+  }
+
+  [Fact]
+  public void EnumViews_WriteAndReadTheStringProperty()
+  {
+    var options = new TestOptions { ReporterOption = ReporterOption.Junit, NoCheckOption = NoCheckOption.Default };
+
+    Assert.Equal("junit", options.Reporter);
+    Assert.Equal(["--no-check", "--reporter", "junit"], options.ToArgs());
+
+    options.Reporter = "custom";
+    Assert.Null(options.ReporterOption);
+    Assert.Equal(["--ext", "md"], new FmtOptions { ExtOption = FmtExtOption.Md }.ToArgs());
+  }
+
+  [Fact]
+  public void Parse_ResolvesShortAliases()
+  {
+    var options = RunOptions.Parse(["-A", "-r=npm:x"]);
+
+    Assert.True(options.AllowAll);
+    Assert.Equal(["npm:x"], options.Reload);
+    Assert.Equal(["--allow-all", "--reload=npm:x"], options.ToArgs());
+  }
+
+  [Fact]
+  public void RunOptions_Parse_StopsAtTheEntryPoint()
+  {
+    var options = RunOptions.Parse(["-A", "--no-check", "main.ts", "--port", "8080"], out var positionals);
+
+    Assert.True(options.AllowAll);
+    Assert.Equal("", options.NoCheck);
+    Assert.Equal(["main.ts", "--port", "8080"], positionals);
+  }
+
+  [Fact]
+  public void FmtOptions_Parse_AcceptsEqualsAndSpaceFormsAndCommaArrays()
+  {
+    var options = FmtOptions.Parse(["--line-width", "100", "--prose-wrap=never", "--ignore=a.ts,b.ts", "--ignore=c.ts", "src"], out var positionals);
+
+    Assert.Equal(100, options.LineWidth);
+    Assert.Equal("never", options.ProseWrap);
+    Assert.Equal(["a.ts", "b.ts", "c.ts"], options.Ignore);
+    Assert.Equal(["src"], positionals);
+  }
+
+  [Fact]
+  public void TryParse_ReportsUnknownFlagsAndMalformedValues()
+  {
+    var ok = FmtOptions.TryParse(["--nope", "--line-width=wide", "--prose-wrap"], out var options, out _, out var errors);
+
+    Assert.False(ok);
+    Assert.Null(options);
+    Assert.Equal(
+      ["Unknown flag '--nope'.", "'--line-width' expects a number, got 'wide'.", "'--prose-wrap' expects a value."],
+      errors);
+  }
+
+  [Fact]
+  public void Parse_ThrowsFormatExceptionOnUnknownFlags()
+  {
+    var ex = Assert.Throws<FormatException>(() => RunOptions.Parse(["--definitely-not-a-flag"]));
+    Assert.Contains("--definitely-not-a-flag", ex.Message);
+  }
+}
@@ -0,0 +1,61 @@
+using System.Reflection;
+using DenoHost.Core.Commands;
+using NJsonSchema;
+
+namespace DenoHost.Tests;
+
+/// <summary>
+/// Validates the JSON Schemas generated next to the options classes (DenoHost.Core/Commands/Generated/Schemas).
+/// When this test fails, run `deno task generate` in tools/gen-commands/ and commit the result.
+/// </summary>
+public class DenoOptionsSchemaTests
+{
+  private static readonly string SchemaDirectory = FindSchemaDirectory();
+
+  [Fact]
+  public async Task EveryOptionsClass_HasASchemaWithTheSameProperties()
+  {
+    var optionsTypes = typeof(RunOptions).Assembly.GetTypes()
+      .Where(t => t.Namespace == "DenoHost.Core.Commands" && t.IsClass && t.Name.EndsWith("Options", StringComparison.Ordinal));
+
+    foreach (var type in optionsTypes)
+    {
+      var schema = await JsonSchema.FromFileAsync(Path.Combine(SchemaDirectory, $"{type.Name}.schema.json"), TestContext.Current.CancellationToken);
+      var expected = type.GetProperties(BindingFlags.Public | BindingFlags.Instance).Select(p => p.Name).Order();
+
+      Assert.Equal(expected, schema.Properties.Keys.Order());
+    }
+  }
+
+  [Fact]
+  public async Task RunOptionsSchema_AcceptsBindableSectionsAndRejectsTypos()
+  {
+    var schema = await JsonSchema.FromFileAsync(Path.Combine(SchemaDirectory, "RunOptions.schema.json"), TestContext.Current.CancellationToken);
+
+    Assert.Empty(schema.Validate("""{ "AllowNet": ["example.com"], "NoCheck": "Remote", "Seed": 42, "Watch": [] }"""));
+    Assert.NotEmpty(schema.Validate("""{ "AllowNett": ["example.com"] }"""));
+    Assert.NotEmpty(schema.Validate("""{ "NoCheck": "Everything" }"""));
+    Assert.NotEmpty(schema.Validate("""{ "Seed": "42" }"""));
+  }
+
+  [Fact]
+  public async Task CombinedSchema_ValidatesOneSectionPerSubcommand()
+  {
+    var schema = await JsonSchema.FromFileAsync(Path.Combine(SchemaDirectory, "denohost.options.schema.json"), TestContext.Current.CancellationToken);
+
+    Assert.Empty(schema.Validate("""{ "Run": { "AllowAll": true }, "Serve": { "Port": 8080 } }"""));
+    Assert.NotEmpty(schema.Validate("""{ "Serve": { "Port": "http" } }"""));
+  }
+
+  private static string FindSchemaDirectory()
+  {
+    var dir = new DirectoryInfo(AppContext.BaseDirectory);
+    while (dir != null && dir.GetFiles("*.slnx").Length == 0 && dir.GetFiles("*.sln").Length == 0)
+      dir = dir.Parent;
+
+    if (dir == null)
+      throw new DirectoryNotFoundException("Solution root not found.");
+
+    return Path.Combine(dir.FullName, "DenoHost.Core", "Commands", "Generated", "Schemas");
+  }
+}
@@ -0,0 +1,69 @@
+using DenoHost.Core;
+using DenoHost.Core.Commands;
+
+namespace DenoHost.Tests;
+
+public class DenoOptionsValidationTests
+{
+  [Fact]
+  public void Validate_AcceptsCompatibleOptions()
+  {
+    var options = new RunOptions { AllowRead = ["."], DenyRead = ["./secrets"], Watch = [], NoClearScreen = true };
+
+    options.Validate();
+  }
+
+  [Fact]
+  public void Validate_AcceptsAllowAllNarrowedByDenyFlags()
+  {
+    var options = new RunOptions { AllowAll = true, DenyRead = ["./secrets"], DenyNet = [] };
+
+    options.Validate();
+  }
+
+  [Fact]
+  public void Validate_ReportsEveryViolatedRule()
+  {
+    var options = new RunOptions
+    {
+      Lock = "deno.lock",
+      NoLock = true,
+      Watch = [],
+      WatchHmr = [],
+      AllowAll = true,
+      AllowNet = [],
+      Check = "all",
+      NoCheck = "",
+    };
+
+    var ex = Assert.Throws<DenoOptionsValidationException>(options.Validate);
+
+    Assert.Equal("run", ex.Command);
+    Assert.Equal("options", ex.ParamName);
+    Assert.Equal(
+      [
+        "'--check' cannot be used with '--no-check'.",
+        "'--lock' cannot be used with '--no-lock'.",
+        "'--allow-all' cannot be used with '--allow-net'.",
+        "'--watch' cannot be used with '--watch-hmr'.",
+      ],
+      ex.Errors);
+    Assert.Contains("'--lock' cannot be used with '--no-lock'.", ex.Message);
+  }
+
+  [Fact]
+  public void Validate_ChecksRequirements()
+  {
+    var ex = Assert.Throws<DenoOptionsValidationException>(new ServeOptions { NoClearScreen = true }.Validate);
+
+    Assert.Equal(["'--no-clear-screen' requires '--watch' or '--watch-hmr'."], ex.Errors);
+  }
+
+  [Fact]
+  public async Task DenoRun_ValidatesOptionsBeforeStartingDeno()
+  {
+    var options = new RunOptions { Watch = [], WatchHmr = [] };
+
+    await Assert.ThrowsAsync<DenoOptionsValidationException>(() => Deno.Run("main.ts", options, cancellationToken: TestContext.Current.CancellationToken));
+  }
+}
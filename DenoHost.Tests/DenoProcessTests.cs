@@ -1214,6 +1214,24 @@ public class DenoProcessTests
     Assert.Throws<ArgumentException>(() => DenoProcess.Task(taskName));
   }
 
+  [Fact]
+  public void WatchCapableCommands_CreateUnstartedProcesses()
+  {
+    using var test = DenoProcess.Test(["tests/"], new TestOptions { Watch = [] });
+    using var bench = DenoProcess.Bench(options: new BenchOptions { Watch = [] });
+    using var fmt = DenoProcess.Fmt(options: new FmtOptions { Watch = [], Check = true });
+    using var lint = DenoProcess.Lint(["src/"], new LintOptions { Watch = [] });
+    using var check = DenoProcess.Check(options: new CheckOptions { Watch = true });
+
+    Assert.All(new[] { test, bench, fmt, lint, check }, process => Assert.False(process.IsRunning));
+  }
+
+  [Fact]
+  public void WatchCapableCommands_ValidateOptions()
+  {
+    Assert.Throws<DenoOptionsValidationException>(() => DenoProcess.Test(options: new TestOptions { NoClearScreen = true }));
+  }
+
   [Fact]
   public async Task Run_WhenStarted_ExecutesScriptCorrectly()
   {
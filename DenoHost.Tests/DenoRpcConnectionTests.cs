@@ -0,0 +1,231 @@
+using System.Collections.Concurrent;
+using System.Text.Json;
+using System.Threading.Channels;
+using DenoHost.Core;
+
+namespace DenoHost.Tests;
+
+public class DenoRpcConnectionTests(TempFileFixture tempFileFixture) : IClassFixture<TempFileFixture>
+{
+  private const string Script = """
+    import { connect } from './denohost-rpc.ts';
+
+    const rpc = connect();
+    rpc.handle('add', ([a, b]: [number, number]) => a + b);
+    rpc.handle('greetViaHost', async (name: string) => {
+      console.log('calling the host');
+      return await rpc.call<string>('greet', name);
+    });
+    rpc.handle('fail', () => {
+      throw new RangeError('out of range');
+    });
+    await rpc.closed;
+    """;
+
+  private readonly Channel<JsonElement> _sent = Channel.CreateUnbounded<JsonElement>();
+
+  // Stands in for the script: captures what the connection writes to stdin.
+  private DenoRpcConnection CreateConnection() => new((frame, _) =>
+  {
+    Assert.Equal(DenoRpcConnection.RecordSeparator, frame[0]);
+    _sent.Writer.TryWrite(JsonDocument.Parse(frame[1..]).RootElement.Clone());
+    return Task.CompletedTask;
+  });
+
+  private Task<JsonElement> NextSentAsync() => _sent.Reader.ReadAsync(TestContext.Current.CancellationToken).AsTask();
+
+  private static void Receive(DenoRpcConnection rpc, string json)
+    => Assert.True(rpc.TryReceive(DenoRpcConnection.RecordSeparator + json));
+
+  [Fact]
+  public async Task InvokeAsync_SendsRequestAndDeserializesResult()
+  {
+    var rpc = CreateConnection();
+
+    var call = rpc.InvokeAsync<int>("add", new[] { 2, 3 }, TestContext.Current.CancellationToken);
+    var request = await NextSentAsync();
+    Receive(rpc, $$"""{"jsonrpc":"2.0","id":{{request.GetProperty("id").GetInt64()}},"result":5}""");
+
+    Assert.Equal("2.0", request.GetProperty("jsonrpc").GetString());
+    Assert.Equal("add", request.GetProperty("method").GetString());
+    Assert.Equal("[2,3]", request.GetProperty("params").GetRawText());
+    Assert.Equal(5, await call);
+  }
+
+  [Fact]
+  public async Task InvokeAsync_ThrowsDenoRpcExceptionForErrorResponses()
+  {
+    var rpc = CreateConnection();
+
+    var call = rpc.InvokeAsync("fail", cancellationToken: TestContext.Current.CancellationToken);
+    var request = await NextSentAsync();
+    Receive(rpc, $$"""
+      {"jsonrpc":"2.0","id":{{request.GetProperty("id").GetInt64()}},"error":{"code":-32603,"message":"out of range","data":{"name":"RangeError","stack":"RangeError: out of range\n    at file:///script.ts:9:11"}}}
+      """);
+
+    var ex = await Assert.ThrowsAsync<DenoRpcException>(() => call);
+    Assert.False(request.TryGetProperty("params", out _));
+    Assert.Equal("fail", ex.Method);
+    Assert.Equal(DenoRpcErrorCodes.InternalError, ex.Code);
+    Assert.Equal("out of range", ex.ErrorMessage);
+    Assert.Equal("RangeError", ex.ErrorName);
+    Assert.Contains("script.ts", ex.DenoStackTrace);
+  }
+
+  [Fact]
+  public async Task InvokeAsync_FailsWithInvalidRequestWhenTheErrorIsNotAnObject()
+  {
+    var rpc = CreateConnection();
+
+    var call = rpc.InvokeAsync("fail", cancellationToken: TestContext.Current.CancellationToken);
+    var request = await NextSentAsync();
+    Receive(rpc, $$"""{"jsonrpc":"2.0","id":{{request.GetProperty("id").GetInt64()}},"error":"boom"}""");
+
+    var ex = await Assert.ThrowsAsync<DenoRpcException>(() => call);
+    Assert.Equal("fail", ex.Method);
+    Assert.Equal(DenoRpcErrorCodes.InvalidRequest, ex.Code);
+  }
+
+  [Fact]
+  public async Task InvokeAsync_SendsCancelRequestWhenCancelled()
+  {
+    var rpc = CreateConnection();
+    using var cts = CancellationTokenSource.CreateLinkedTokenSource(TestContext.Current.CancellationToken);
+
+    var call = rpc.InvokeAsync("slow", cancellationToken: cts.Token);
+    var id = (await NextSentAsync()).GetProperty("id").GetInt64();
+    await cts.CancelAsync();
+
+    await Assert.ThrowsAnyAsync<OperationCanceledException>(() => call);
+    var cancel = await NextSentAsync();
+    Assert.Equal("$/cancelRequest", cancel.GetProperty("method").GetString());
+    Assert.Equal(id, cancel.GetProperty("params").GetProperty("id").GetInt64());
+    Assert.False(cancel.TryGetProperty("id", out _));
+
+    // The script's late answer is ignored.
+    Receive(rpc, $$"""{"jsonrpc":"2.0","id":{{id}},"result":null}""");
+  }
+
+  [Fact]
+  public async Task AddHandler_AnswersRequestsFromTheScript()
+  {
+    var rpc = CreateConnection();
+    rpc.AddHandler<string, string>("greet", (name, _) => Task.FromResult($"Hello {name}"));
+    rpc.AddHandler<int>("fail", (_, _) => throw new InvalidOperationException("not now"));
+    rpc.AddHandler<int>("reject", (_, _) => throw new DenoRpcException(42, "rejected", JsonSerializer.SerializeToElement(new { retry = true })));
+
+    Receive(rpc, """{"jsonrpc":"2.0","id":1,"method":"greet","params":"Deno"}""");
+    var response = await NextSentAsync();
+    Assert.Equal(1, response.GetProperty("id").GetInt32());
+    Assert.Equal("Hello Deno", response.GetProperty("result").GetString());
+
+    Receive(rpc, """{"jsonrpc":"2.0","id":2,"method":"missing"}""");
+    Assert.Equal(DenoRpcErrorCodes.MethodNotFound, (await NextSentAsync()).GetProperty("error").GetProperty("code").GetInt32());
+
+    Receive(rpc, """{"jsonrpc":"2.0","id":3,"method":"fail","params":1}""");
+    var error = (await NextSentAsync()).GetProperty("error");
+    Assert.Equal(DenoRpcErrorCodes.InternalError, error.GetProperty("code").GetInt32());
+    Assert.Equal("not now", error.GetProperty("message").GetString());
+    Assert.Equal("System.InvalidOperationException", error.GetProperty("data").GetProperty("name").GetString());
+
+    Receive(rpc, """{"jsonrpc":"2.0","id":4,"method":"reject","params":1}""");
+    error = (await NextSentAsync()).GetProperty("error");
+    Assert.Equal(42, error.GetProperty("code").GetInt32());
+    Assert.True(error.GetProperty("data").GetProperty("retry").GetBoolean());
+
+    Receive(rpc, """{"jsonrpc":"2.0","id":5,"method":"fail","params":"one"}""");
+    Assert.Equal(DenoRpcErrorCodes.InvalidParams, (await NextSentAsync()).GetProperty("error").GetProperty("code").GetInt32());
+  }
+
+  [Fact]
+  public async Task AddHandler_IsCancelledByTheScript()
+  {
+    var rpc = CreateConnection();
+    rpc.AddHandler<JsonElement>("wait", (_, cancellationToken) => Task.Delay(Timeout.Infinite, cancellationToken));
+
+    Receive(rpc, """{"jsonrpc":"2.0","id":"a","method":"wait"}""");
+    Receive(rpc, """{"jsonrpc":"2.0","method":"$/cancelRequest","params":{"id":"a"}}""");
+
+    var response = await NextSentAsync();
+    Assert.Equal("a", response.GetProperty("id").GetString());
+    Assert.Equal(DenoRpcErrorCodes.RequestCancelled, response.GetProperty("error").GetProperty("code").GetInt32());
+  }
+
+  [Fact]
+  public async Task Notifications_GoBothWays()
+  {
+    var rpc = CreateConnection();
+    var progress = new List<int>();
+    rpc.AddNotificationHandler<int>("progress", progress.Add);
+
+    Receive(rpc, """{"jsonrpc":"2.0","method":"progress","params":50}""");
+    Receive(rpc, """{"jsonrpc":"2.0","method":"unknown","params":1}""");
+    await rpc.NotifyAsync("stop", new { reason = "done" }, TestContext.Current.CancellationToken);
+
+    Assert.Equal([50], progress);
+    var notification = await NextSentAsync();
+    Assert.Equal("stop", notification.GetProperty("method").GetString());
+    Assert.Equal("done", notification.GetProperty("params").GetProperty("reason").GetString());
+    Assert.False(notification.TryGetProperty("id", out _));
+  }
+
+  [Fact]
+  public void TryReceive_LeavesRegularOutputAlone()
+  {
+    var rpc = CreateConnection();
+
+    Assert.False(rpc.TryReceive("""{"jsonrpc":"2.0","id":1,"result":5}"""));
+    Assert.False(rpc.TryReceive("hello"));
+    Assert.False(rpc.TryReceive(""));
+    Assert.False(rpc.TryReceive("partial " + DenoRpcConnection.RecordSeparator + """{"jsonrpc":"2.0","id":1,"result":5}"""));
+  }
+
+  [Fact]
+  public async Task Close_FailsPendingCalls()
+  {
+    var rpc = CreateConnection();
+
+    var call = rpc.InvokeAsync("add", cancellationToken: TestContext.Current.CancellationToken);
+    await NextSentAsync();
+    rpc.Close("The Deno process exited");
+
+    var ex = await Assert.ThrowsAsync<InvalidOperationException>(() => call);
+    Assert.Equal("The Deno process exited before answering 'add'.", ex.Message);
+  }
+
+  [Fact]
+  public void WriteModule_WritesTheEmbeddedModule()
+  {
+    var path = DenoRpcConnection.WriteModule(tempFileFixture.TempDirectory);
+
+    Assert.Equal(DenoRpcConnection.ModuleFileName, Path.GetFileName(path));
+    Assert.Equal(DenoRpcConnection.ModuleSource, File.ReadAllText(path));
+    Assert.Contains("export function connect", DenoRpcConnection.ModuleSource);
+  }
+
+  [Fact]
+  public async Task OpenRpc_CallsTheScriptAndKeepsConsoleOutputApart()
+  {
+    tempFileFixture.CreateTempFile("rpc-script.ts", Script);
+    DenoRpcConnection.WriteModule(tempFileFixture.TempDirectory);
+    using var process = new DenoProcess("run", ["rpc-script.ts"], workingDirectory: tempFileFixture.TempDirectory);
+    var output = new ConcurrentQueue<string>();
+    process.OutputDataReceived += (_, e) => output.Enqueue(e.Data!);
+
+    var rpc = process.OpenRpc();
+    Assert.Same(rpc, process.OpenRpc());
+    rpc.AddHandler<string, string>("greet", (name, _) => Task.FromResult($"Hello {name}"));
+    await process.StartAsync(TestContext.Current.CancellationToken);
+
+    Assert.Equal(5, await rpc.InvokeAsync<int>("add", new[] { 2, 3 }, TestContext.Current.CancellationToken));
+    Assert.Equal("Hello Deno", await rpc.InvokeAsync<string>("greetViaHost", "Deno", TestContext.Current.CancellationToken));
+    var ex = await Assert.ThrowsAsync<DenoRpcException>(() => rpc.InvokeAsync("fail", cancellationToken: TestContext.Current.CancellationToken));
+    Assert.Equal("RangeError", ex.ErrorName);
+
+    await process.StopAsync(cancellationToken: TestContext.Current.CancellationToken);
+
+    Assert.Equal(0, process.ExitCode);
+    Assert.Contains("calling the host", output);
+    Assert.DoesNotContain(output, line => line.Contains(DenoRpcConnection.RecordSeparator));
+  }
+}
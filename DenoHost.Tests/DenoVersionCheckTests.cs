@@ -0,0 +1,108 @@
+using DenoHost.Core;
+using DenoHost.Core.Commands;
+
+namespace DenoHost.Tests;
+
+public class DenoVersionCheckTests
+{
+  [Fact]
+  public async Task CheckVersion_PassesSupportedFlags()
+  {
+    var baseOptions = new DenoExecuteBaseOptions { DenoVersion = new Version(2, 6, 0), UnsupportedFlags = DenoUnsupportedFlagHandling.Throw };
+    var options = new RunOptions { UnstableTsgo = true };
+
+    options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, TestContext.Current.CancellationToken));
+    Assert.Equal(["--unstable-tsgo"], options.ToArgs());
+  }
+
+  [Fact]
+  public async Task CheckVersion_ThrowsForFlagsNewerThanTheBinary()
+  {
+    var baseOptions = new DenoExecuteBaseOptions { DenoVersion = new Version(2, 5, 0), UnsupportedFlags = DenoUnsupportedFlagHandling.Throw };
+    var options = new RunOptions { UnstableTsgo = true };
+    var check = await DenoVersionCheck.ForAsync(baseOptions, TestContext.Current.CancellationToken);
+
+    var ex = Assert.Throws<DenoOptionsValidationException>(() => options.CheckVersion(check));
+
+    Assert.Equal("run", ex.Command);
+    Assert.Equal(["'--unstable-tsgo' requires Deno 2.6.0 or later; the binary is Deno 2.5.0."], ex.Errors);
+  }
+
+  [Fact]
+  public async Task CheckVersion_WarnsAndKeepsFlagsByDefault()
+  {
+    var baseOptions = new DenoExecuteBaseOptions { DenoVersion = new Version(2, 5, 0), UnsupportedFlags = DenoUnsupportedFlagHandling.Warn };
+    var options = new RunOptions { UnstableTsgo = true };
+
+    options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, TestContext.Current.CancellationToken));
+    Assert.Equal(["--unstable-tsgo"], options.ToArgs());
+  }
+
+  [Fact]
+  public async Task ForAsync_ReturnsNullWhenIgnored()
+  {
+    var baseOptions = new DenoExecuteBaseOptions { DenoVersion = new Version(2, 0, 0), UnsupportedFlags = DenoUnsupportedFlagHandling.Ignore };
+
+    Assert.Null(await DenoVersionCheck.ForAsync(baseOptions, TestContext.Current.CancellationToken));
+  }
+
+  [Fact]
+  public async Task ForAsync_DetectsTheVersionWithTheCallersEnvironment()
+  {
+    var baseOptions = new DenoExecuteBaseOptions
+    {
+      UnsupportedFlags = DenoUnsupportedFlagHandling.Warn,
+      Environment = new DenoEnvironment { NoColor = true },
+    };
+
+    var check = await DenoVersionCheck.ForAsync(baseOptions, TestContext.Current.CancellationToken);
+
+    Assert.NotNull(check);
+    Assert.True(check.DenoVersion >= new Version(2, 0, 0));
+  }
+
+  [Fact]
+  public async Task ProcessFactories_CheckTheVersionWhenStarted()
+  {
+    var baseOptions = new DenoExecuteBaseOptions { DenoVersion = new Version(2, 5, 0), UnsupportedFlags = DenoUnsupportedFlagHandling.Throw };
+    using var process = DenoProcess.Run("main.ts", new RunOptions { UnstableTsgo = true }, baseOptions);
+
+    await Assert.ThrowsAsync<DenoOptionsValidationException>(() => process.StartAsync(TestContext.Current.CancellationToken));
+    Assert.False(process.IsRunning);
+  }
+
+  [Fact]
+  public void UsesVersionedFlags_SkipsDetectionWithoutVersionedFlags()
+  {
+    var baseOptions = new DenoExecuteBaseOptions { UnsupportedFlags = DenoUnsupportedFlagHandling.Throw };
+
+    Assert.False(new RunOptions { AllowAll = true }.UsesVersionedFlags);
+    Assert.True(new RunOptions { UnstableTsgo = true }.UsesVersionedFlags);
+
+    using var plain = DenoProcess.Run("main.ts", new RunOptions { AllowAll = true }, baseOptions);
+    using var versioned = DenoProcess.Run("main.ts", new RunOptions { UnstableTsgo = true }, baseOptions);
+    Assert.Null(plain.BeforeStart);
+    Assert.NotNull(versioned.BeforeStart);
+  }
+
+  [Fact]
+  public void Check_ReportsRemovedFlags()
+  {
+    var check = new DenoVersionCheck(new Version(2, 4, 0), DenoUnsupportedFlagHandling.Throw, logger: null);
+    var problems = new List<string>();
+
+    check.Check(problems, "--legacy", since: null, removedIn: "2.4.0");
+    check.Check(problems, "--current", since: "2.0.0", removedIn: "2.5.0");
+
+    Assert.Equal(["'--legacy' was removed in Deno 2.4.0; the binary is Deno 2.4.0."], problems);
+  }
+
+  [Theory]
+  [InlineData("deno 2.9.5 (stable, release, x86_64-unknown-linux-gnu)\nv8 14.0.365.5\ntypescript 5.9.2", "2.9.5")]
+  [InlineData("deno 2.0.0", "2.0.0")]
+  [InlineData("not deno", null)]
+  public void ParseDenoVersion_ReadsTheFirstLine(string output, string? expected)
+  {
+    Assert.Equal(expected is null ? null : Version.Parse(expected), Helper.ParseDenoVersion(output));
+  }
+}
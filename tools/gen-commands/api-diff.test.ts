@@ -0,0 +1,137 @@
+import { assertEquals } from '@std/assert';
+import { API_FILE_PATTERN, apiBump, diffApi, parseApiSymbols } from './api-diff.ts';
+
+const OPTIONS_V1 = `namespace DenoHost.Core.Commands;
+
+public sealed class RunOptions
+{
+  public bool? Quiet { get; set; }
+  public string? Location { get; set; }
+  public string[]? Legacy { get; set; }
+
+  public void Validate() { }
+
+  public static RunOptions Parse(string[] args) => throw new NotImplementedException();
+
+  internal string[] ToArgs() => [];
+}
+
+internal static class RunOptionExtensions
+{
+  public static string ToArg(this RunOption value) => "";
+}
+
+public enum RunOption
+{
+  Fast,
+  Slow,
+}
+`;
+
+const OPTIONS_V2 = `namespace DenoHost.Core.Commands;
+
+public sealed class RunOptions
+{
+  public bool? Quiet { get; set; }
+  public Uri? Location { get; set; }
+  public string[]? Tsgo { get; set; }
+
+  public void Validate() { }
+
+  public static RunOptions Parse(string[] args, bool strict = false) => throw new NotImplementedException();
+
+  public static bool TryParse(string[] args, [NotNullWhen(true)] out RunOptions? options, out string? error) => throw new NotImplementedException();
+
+  internal string[] ToArgs() => [];
+}
+
+public enum RunOption
+{
+  Fast,
+  Balanced = 2,
+}
+
+public sealed class ServeOptions
+{
+  public int? Port { get; set; }
+}
+`;
+
+const COMMANDS = `namespace DenoHost.Core;
+
+public static partial class Deno
+{
+  public static Task<T> Run<T>(RunOptions options, CancellationToken cancellationToken = default) => Execute<T>(options);
+  public static Task Run(RunOptions options, CancellationToken cancellationToken = default) => Execute(options);
+}
+`;
+
+Deno.test('API_FILE_PATTERN: options, option enums and command files only', () => {
+  const files = [
+    'DenoHost.Core/Commands/Generated/RunOptions.g.cs',
+    'DenoHost.Core/Commands/Generated/CheckOption.g.cs',
+    'DenoHost.Core/Commands/Generated/Deno.Commands.g.cs',
+    'DenoHost.Core/Commands/Generated/DenoFlagRegistry.g.cs',
+    'DenoHost.Core/Commands/RunOptions.g.cs',
+  ];
+  assertEquals(files.filter((f) => API_FILE_PATTERN.test(f)), files.slice(0, 3));
+});
+
+Deno.test('parseApiSymbols: public types and members, internal ones skipped', () => {
+  const symbols = parseApiSymbols(OPTIONS_V1);
+  assertEquals(symbols.map((s) => `${s.kind} ${s.key}`), [
+    'type RunOptions',
+    'property RunOptions.Quiet',
+    'property RunOptions.Location',
+    'property RunOptions.Legacy',
+    'method RunOptions.Validate()',
+    'method RunOptions.Parse(args)',
+    'type RunOption',
+    'enum-member RunOption.Fast',
+    'enum-member RunOption.Slow',
+  ]);
+  assertEquals(symbols.find((s) => s.key === 'RunOptions.Legacy')?.signature, 'string[]?');
+  assertEquals(symbols.find((s) => s.key === 'RunOptions.Parse(args)')?.signature, '(string[] args) → RunOptions');
+});
+
+Deno.test('parseApiSymbols: overloads keyed by generic arity and parameter names', () => {
+  const symbols = parseApiSymbols(COMMANDS).filter((s) => s.kind === 'method');
+  assertEquals(symbols.map((s) => s.key), [
+    'Deno.Run`1(options, cancellationToken)',
+    'Deno.Run(options, cancellationToken)',
+  ]);
+  assertEquals(symbols[0].name, 'Run<T>');
+  assertEquals(symbols[0].signature, '(RunOptions options, CancellationToken cancellationToken) → Task<T>');
+});
+
+Deno.test('diffApi: added, removed and retyped members; new types folded', () => {
+  const changes = diffApi(parseApiSymbols(OPTIONS_V1), parseApiSymbols(OPTIONS_V2));
+  assertEquals(changes.map((c) => `${c.kind} ${c.symbol.key}`), [
+    'added RunOption.Balanced',
+    'removed RunOption.Slow',
+    'removed RunOptions.Legacy',
+    'retyped RunOptions.Location',
+    'added RunOptions.Tsgo',
+    'added RunOptions.Parse(args, strict)',
+    'removed RunOptions.Parse(args)',
+    'added RunOptions.TryParse(args, options, error)',
+    'added ServeOptions',
+  ]);
+  const retyped = changes.find((c) => c.kind === 'retyped')!;
+  assertEquals([retyped.before, retyped.after], ['string?', 'Uri?']);
+});
+
+Deno.test('diffApi: a removed type is one entry', () => {
+  const changes = diffApi(parseApiSymbols(OPTIONS_V2), parseApiSymbols(OPTIONS_V1));
+  assertEquals(changes.filter((c) => c.symbol.container === 'ServeOptions').map((c) => `${c.kind} ${c.symbol.kind}`), [
+    'removed type',
+  ]);
+});
+
+Deno.test('apiBump: removals and retypes are major, additions minor, nothing patch', () => {
+  const v1 = parseApiSymbols(OPTIONS_V1);
+  const v2 = parseApiSymbols(OPTIONS_V2);
+  assertEquals(apiBump(diffApi(v1, v2)), 'major');
+  assertEquals(apiBump(diffApi(v1, [...v1, ...parseApiSymbols(COMMANDS)])), 'minor');
+  assertEquals(apiBump(diffApi(v1, v1)), 'patch');
+});
@@ -0,0 +1,179 @@
+// Symbol-level diff of the generated public C# API (options classes, their enums and the Deno/DenoProcess command
+// methods) between two versions of the generated sources. Pure functions only — changelog.ts reads the files from git.
+//
+// The parser only understands the shapes generate.ts emits: top-level types, one member declaration per line,
+// members indented by two spaces. Internal and private members are not part of the public API and are skipped.
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SymbolKind = 'type' | 'property' | 'method' | 'enum-member';
+
+export interface ApiSymbol {
+  kind: SymbolKind;
+  /** Declaring type; the type itself for `type` symbols. */
+  container: string;
+  name: string;
+  /** Identity across versions: methods are keyed by name, generic arity and parameter names (overloads differ). */
+  key: string;
+  /** What a retype compares: the property type, or the method's parameter types and return type. */
+  signature: string;
+}
+
+export type ApiChangeKind = 'added' | 'removed' | 'retyped';
+
+export interface ApiChange {
+  kind: ApiChangeKind;
+  symbol: ApiSymbol;
+  /** Signature before a retype or removal. */
+  before: string | null;
+  /** Signature after a retype or addition. */
+  after: string | null;
+}
+
+export type SemverBump = 'major' | 'minor' | 'patch';
+
+/** Generated files that make up the public command API. */
+export const API_FILE_PATTERN = /^DenoHost\.Core\/Commands\/Generated\/[^/]*(?:Options?|\.Commands)\.g\.cs$/;
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+const TYPE_DECLARATION =
+  /^(public|internal)\s+(?:(?:sealed|static|partial|abstract|readonly)\s+)*(class|enum|record|struct|interface)\s+(\w+)/;
+const PROPERTY_DECLARATION = /^ {2}public\s+(?:(?:static|required|override|virtual)\s+)*(.+?)\s+(\w+)\s*\{\s*get\b/;
+const METHOD_DECLARATION =
+  /^ {2}public\s+(?:(?:static|override|virtual|async|new)\s+)*(.+?)\s+(\w+)(<[^(]+>)?\((.*)\)\s*(?:=>|\{|$)/;
+const ENUM_MEMBER = /^ {2}(\w+)\s*(?:=\s*[^,]+)?,?\s*$/;
+
+/** Splits on commas outside of `<>`, `()` and `[]`. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if ('<([{'.includes(ch)) depth++;
+    else if ('>)]}'.includes(ch)) depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/** `[NotNullWhen(true)] out RunOptions? options = null` → type `out RunOptions?`, name `options`. */
+function parseParameter(text: string): { type: string; name: string } {
+  const withoutAttributes = text.replace(/^\[[^\]]*\]\s*/, '');
+  const withoutDefault = withoutAttributes.replace(/\s*=.*$/, '');
+  const name = withoutDefault.match(/(\w+)$/)?.[1] ?? withoutDefault;
+  return { type: withoutDefault.slice(0, withoutDefault.length - name.length).trim(), name };
+}
+
+export function parseApiSymbols(source: string): ApiSymbol[] {
+  const symbols: ApiSymbol[] = [];
+  let container: { name: string; kind: string; public: boolean } | null = null;
+
+  for (const line of source.split(/\r?\n/)) {
+    const type = line.match(TYPE_DECLARATION);
+    if (type) {
+      container = { name: type[3], kind: type[2], public: type[1] === 'public' };
+      if (container.public) {
+        symbols.push({ kind: 'type', container: type[3], name: type[3], key: type[3], signature: type[2] });
+      }
+      continue;
+    }
+    if (!container?.public) continue;
+
+    if (container.kind === 'enum') {
+      const member = line.match(ENUM_MEMBER);
+      if (member) {
+        const name = member[1];
+        symbols.push({
+          kind: 'enum-member',
+          container: container.name,
+          name,
+          key: `${container.name}.${name}`,
+          signature: '',
+        });
+      }
+      continue;
+    }
+
+    const property = line.match(PROPERTY_DECLARATION);
+    if (property) {
+      const [, csType, name] = property;
+      symbols.push({
+        kind: 'property',
+        container: container.name,
+        name,
+        key: `${container.name}.${name}`,
+        signature: csType,
+      });
+      continue;
+    }
+
+    const method = line.match(METHOD_DECLARATION);
+    if (method) {
+      const [, returnType, name, generics = '', params] = method;
+      const parameters = splitTopLevel(params).map(parseParameter);
+      const arity = generics ? `\`${splitTopLevel(generics.slice(1, -1)).length}` : '';
+      symbols.push({
+        kind: 'method',
+        container: container.name,
+        name: `${name}${generics}`,
+        key: `${container.name}.${name}${arity}(${parameters.map((p) => p.name).join(', ')})`,
+        signature: `(${parameters.map((p) => `${p.type} ${p.name}`).join(', ')}) → ${returnType}`,
+      });
+    }
+  }
+
+  return symbols;
+}
+
+// ─── Diffing ──────────────────────────────────────────────────────────────────
+
+const KIND_ORDER: SymbolKind[] = ['type', 'property', 'method', 'enum-member'];
+
+/**
+ * Added, removed and retyped symbols, ordered by container, then kind, then name. Members of an added or removed
+ * type are folded into the type's own entry.
+ */
+export function diffApi(before: ApiSymbol[], after: ApiSymbol[]): ApiChange[] {
+  const beforeByKey = new Map(before.map((s) => [s.key, s]));
+  const afterByKey = new Map(after.map((s) => [s.key, s]));
+  const addedTypes = new Set(after.filter((s) => s.kind === 'type' && !beforeByKey.has(s.key)).map((s) => s.name));
+  const removedTypes = new Set(before.filter((s) => s.kind === 'type' && !afterByKey.has(s.key)).map((s) => s.name));
+  const changes: ApiChange[] = [];
+
+  for (const symbol of after) {
+    const old = beforeByKey.get(symbol.key);
+    if (!old) {
+      if (symbol.kind === 'type' || !addedTypes.has(symbol.container)) {
+        changes.push({ kind: 'added', symbol, before: null, after: symbol.signature });
+      }
+    } else if (old.signature !== symbol.signature) {
+      changes.push({ kind: 'retyped', symbol, before: old.signature, after: symbol.signature });
+    }
+  }
+  for (const symbol of before) {
+    if (afterByKey.has(symbol.key)) continue;
+    if (symbol.kind === 'type' || !removedTypes.has(symbol.container)) {
+      changes.push({ kind: 'removed', symbol, before: symbol.signature, after: null });
+    }
+  }
+
+  return changes.sort((a, b) =>
+    a.symbol.container.localeCompare(b.symbol.container) ||
+    KIND_ORDER.indexOf(a.symbol.kind) - KIND_ORDER.indexOf(b.symbol.kind) ||
+    a.symbol.name.localeCompare(b.symbol.name) ||
+    a.kind.localeCompare(b.kind)
+  );
+}
+
+/** Removals and retypes break callers; additions are new features; anything else is a patch. */
+export function apiBump(changes: ApiChange[]): SemverBump {
+  if (changes.some((c) => c.kind !== 'added')) return 'major';
+  return changes.length > 0 ? 'minor' : 'patch';
+}
@@ -0,0 +1,139 @@
+import { assertEquals, assertStringIncludes, assertThrows } from '@std/assert';
+import { join } from '@std/path';
+import { diffApi, parseApiSymbols } from './api-diff.ts';
+import {
+  categorizeCommit,
+  type CategorizedCommit,
+  insertChangelogSection,
+  parseCliArgs,
+  renderChangelogSection,
+  suggestBump,
+} from './changelog.ts';
+
+function categorize(subject: string): string | null {
+  return categorizeCommit({ hash: '0123456789abcdef', subject })?.category ?? null;
+}
+
+function commits(...subjects: string[]): CategorizedCommit[] {
+  return subjects.map((subject, i) => categorizeCommit({ hash: `${i}`.repeat(10), subject })!);
+}
+
+const BEFORE = parseApiSymbols(`public sealed class RunOptions
+{
+  public bool? Quiet { get; set; }
+  public string? Location { get; set; }
+  public static RunOptions Parse(string[] args) => new();
+}
+`);
+
+const AFTER = parseApiSymbols(`public sealed class RunOptions
+{
+  public bool? Quiet { get; set; }
+  public Uri? Location { get; set; }
+  public string[]? Tsgo { get; set; }
+  public static RunOptions Parse(string[] args) => new();
+}
+`);
+
+Deno.test('categorizeCommit: conventional commits', () => {
+  assertEquals(categorize('feat(run): add --tsgo'), 'added');
+  assertEquals(categorize('fix: quote paths with spaces'), 'fixed');
+  assertEquals(categorize('refactor: split the generator'), 'changed');
+  assertEquals(categorize('feat!: drop .NET 8'), 'breaking');
+  assertEquals(categorize('docs: typo'), null);
+  assertEquals(categorize('chore(deps): bump @std/path'), null);
+  assertEquals(categorizeCommit({ hash: 'a', subject: 'feat(run): add --tsgo' })?.text, 'add --tsgo');
+});
+
+Deno.test('categorizeCommit: plain subjects by leading verb, tags stripped', () => {
+  assertEquals(categorize('[user-003] Add generated DenoProcess commands'), 'added');
+  assertEquals(categorize('Fix argument escaping on Windows'), 'fixed');
+  assertEquals(categorize('Remove the legacy runner'), 'removed');
+  assertEquals(categorize('Rework the options parser'), 'changed');
+  assertEquals(categorize('Update Deno to v2.5.6'), 'deno');
+  assertEquals(categorize('Update Deno to v2.5.6 (security)'), 'deno');
+  assertEquals(categorize('Harden permission defaults (GHSA-abcd-efgh-ijkl)'), 'security');
+  assertEquals(categorizeCommit({ hash: 'a', subject: '[user-003] Add commands' })?.text, 'Add commands');
+});
+
+Deno.test('suggestBump: the larger of API diff and commits', () => {
+  const added = diffApi(BEFORE, [...BEFORE, ...AFTER.filter((s) => s.name === 'Tsgo')]);
+  assertEquals(suggestBump([], commits('Fix a bug')), 'patch');
+  assertEquals(suggestBump([], commits('Add a feature')), 'minor');
+  assertEquals(suggestBump(added, commits('Fix a bug')), 'minor');
+  assertEquals(suggestBump(added, commits('feat!: breaking')), 'major');
+  assertEquals(suggestBump(diffApi(BEFORE, AFTER), []), 'major');
+});
+
+Deno.test('renderChangelogSection: categories, Deno version and public API', () => {
+  const section = renderChangelogSection({
+    version: 'v2.6.0',
+    date: '2026-10-19',
+    fromRef: 'v2.5.0',
+    denoVersion: { from: '2.5.3', to: '2.6.0' },
+    commits: commits('Add typed proxies', 'Fix quoting', 'Update Deno to v2.6.0'),
+    apiChanges: diffApi(BEFORE, AFTER),
+  });
+
+  assertEquals(section.split('\n').slice(0, 3), [
+    '## [v2.6.0] - 2026-10-19',
+    '',
+    'Changes since v2.5.0. Suggested version bump: **major** (public API removals, retyped members or breaking commits).',
+  ]);
+  assertStringIncludes(
+    section,
+    '### Deno\n\n- Bundled Deno updated from 2.5.3 to 2.6.0\n- Update Deno to v2.6.0 (2222222)',
+  );
+  assertStringIncludes(section, '### Added\n\n- Add typed proxies (0000000)');
+  assertStringIncludes(section, '### Fixed\n\n- Fix quoting (1111111)');
+  assertStringIncludes(
+    section,
+    '### Public API\n\n#### `RunOptions`\n\n' +
+      '- Changed property `Location`: `string?` → `Uri?`\n' +
+      '- Added property `Tsgo` (`string[]?`)\n',
+  );
+});
+
+Deno.test('renderChangelogSection: empty categories are left out', () => {
+  const section = renderChangelogSection({
+    version: 'v2.5.1',
+    date: '2026-10-19',
+    fromRef: 'v2.5.0',
+    denoVersion: { from: '2.5.3', to: '2.5.3' },
+    commits: commits('Fix quoting'),
+    apiChanges: [],
+  });
+  assertEquals(section.match(/^###/gm)?.length, 1);
+  assertStringIncludes(section, '**patch**');
+});
+
+Deno.test('insertChangelogSection: new file, newest first, same version replaced', () => {
+  const v1 = '## [v1] - 2026-01-01\n\n- one\n';
+  const v2 = '## [v2] - 2026-02-01\n\n- two\n';
+
+  const created = insertChangelogSection(null, v1, 'v1');
+  assertStringIncludes(created, '# Changelog\n');
+  assertEquals(created.endsWith(`\n\n${v1}`), true);
+
+  const both = insertChangelogSection(created, v2, 'v2');
+  assertEquals(both.indexOf('## [v2]') < both.indexOf('## [v1]'), true);
+
+  const replaced = insertChangelogSection(both, '## [v2] - 2026-02-02\n\n- two again\n', 'v2');
+  assertEquals(replaced.match(/## \[v2\]/g)?.length, 1);
+  assertStringIncludes(replaced, '- two again\n\n## [v1]');
+  assertEquals(replaced.includes('- two\n'), false);
+});
+
+Deno.test('parseCliArgs: tags, version and output path', () => {
+  assertEquals(parseCliArgs(['v1.0.0', 'v1.1.0', '--out', 'CHANGES.md'], '/work'), {
+    fromRef: 'v1.0.0',
+    toRef: 'v1.1.0',
+    version: 'v1.1.0',
+    out: join('/work', 'CHANGES.md'),
+    stdout: false,
+  });
+  assertEquals(parseCliArgs(['v1.0.0', 'HEAD', '--version', 'v1.1.0', '--stdout']).version, 'v1.1.0');
+  assertThrows(() => parseCliArgs(['v1.0.0']), Error, 'expected <from-tag> and <to-tag>');
+  assertThrows(() => parseCliArgs(['a', 'b', '--out']), Error, '--out needs a value');
+  assertThrows(() => parseCliArgs(['a', 'b', '--bogus']), Error, 'unknown option --bogus');
+});
@@ -0,0 +1,281 @@
+// Writes a CHANGELOG.md section for the changes between two release tags: the bundled Deno version, the commit
+// subjects sorted into categories and the symbol-level diff of the generated public API (see api-diff.ts), plus the
+// semver bump the changes call for.
+//
+//   deno task changelog <from-tag> <to-tag> [--version <name>] [--out <file>] [--stdout]
+
+import { dirname, join, resolve } from '@std/path';
+import { API_FILE_PATTERN, apiBump, type ApiChange, diffApi, parseApiSymbols, type SemverBump } from './api-diff.ts';
+
+const SCRIPT_DIR = dirname(import.meta.filename!);
+const REPO_ROOT = join(SCRIPT_DIR, '..', '..');
+const GENERATED_DIR = 'DenoHost.Core/Commands/Generated';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CommitCategory = 'breaking' | 'security' | 'added' | 'changed' | 'fixed' | 'removed' | 'deno';
+
+export interface Commit {
+  hash: string;
+  subject: string;
+}
+
+export interface CategorizedCommit extends Commit {
+  category: CommitCategory;
+  /** Subject without the conventional-commit prefix or a leading `[tag]`. */
+  text: string;
+}
+
+export interface ChangelogInput {
+  version: string;
+  date: string;
+  fromRef: string;
+  denoVersion: { from: string | null; to: string | null };
+  commits: CategorizedCommit[];
+  apiChanges: ApiChange[];
+}
+
+export interface CliArgs {
+  fromRef: string;
+  toRef: string;
+  version: string;
+  out: string;
+  stdout: boolean;
+}
+
+// ─── Commits ──────────────────────────────────────────────────────────────────
+
+const CATEGORY_HEADINGS: [CommitCategory, string][] = [
+  ['breaking', 'Breaking Changes'],
+  ['security', 'Security'],
+  ['added', 'Added'],
+  ['changed', 'Changed'],
+  ['fixed', 'Fixed'],
+  ['removed', 'Removed'],
+];
+
+// Conventional-commit types that are not user-facing; dropped unless marked breaking.
+const SKIPPED_TYPES = new Set(['build', 'chore', 'ci', 'docs', 'style', 'test']);
+
+/** Sorts a commit subject into a changelog category; null for commits consumers do not need to see. */
+export function categorizeCommit(commit: Commit): CategorizedCommit | null {
+  const subject = commit.subject.replace(/^\[[^\]]+\]\s*/, '').trim();
+  const conventional = subject.match(/^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/);
+  const text = conventional ? conventional[4] : subject;
+  const result = (category: CommitCategory): CategorizedCommit => ({ ...commit, category, text });
+
+  if (/\bupdate deno to v?\d/i.test(subject)) return result('deno');
+  if (conventional?.[3] || /\bBREAKING\b/.test(subject)) return result('breaking');
+  if (/\b(?:security|vulnerab\w*|CVE-\d+|GHSA-[\w-]+)\b/i.test(subject)) return result('security');
+
+  if (conventional) {
+    const type = conventional[1].toLowerCase();
+    if (type === 'feat') return result('added');
+    if (type === 'fix') return result('fixed');
+    if (SKIPPED_TYPES.has(type)) return null;
+    return result('changed');
+  }
+
+  if (/^(?:add|introduce|support|generate|allow|expose)\b/i.test(text)) return result('added');
+  if (/^(?:fix|correct|repair)\b/i.test(text)) return result('fixed');
+  if (/^(?:remove|drop|delete)\b/i.test(text)) return result('removed');
+  if (/^(?:merge|bump version|release)\b/i.test(text)) return null;
+  return result('changed');
+}
+
+/** The larger of the API bump and what the commits call for (breaking → major, additions → minor). */
+export function suggestBump(apiChanges: ApiChange[], commits: CategorizedCommit[]): SemverBump {
+  const fromCommits: SemverBump = commits.some((c) => c.category === 'breaking')
+    ? 'major'
+    : commits.some((c) => c.category === 'added')
+    ? 'minor'
+    : 'patch';
+  const order: SemverBump[] = ['patch', 'minor', 'major'];
+  return order[Math.max(order.indexOf(fromCommits), order.indexOf(apiBump(apiChanges)))];
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+function renderApiChange(change: ApiChange): string {
+  const { symbol } = change;
+  const what = symbol.kind === 'type'
+    ? `${change.before ?? change.after} \`${symbol.name}\``
+    : symbol.kind === 'enum-member'
+    ? `value \`${symbol.name}\``
+    : `${symbol.kind} \`${symbol.name}\``;
+  const signature = symbol.kind === 'property' || symbol.kind === 'method'
+    ? ` (\`${change.before ?? change.after}\`)`
+    : '';
+
+  switch (change.kind) {
+    case 'added':
+    case 'removed':
+      return `${change.kind === 'added' ? 'Added' : 'Removed'} ${what}${signature}`;
+    case 'retyped':
+      return `Changed ${what}: \`${change.before}\` → \`${change.after}\``;
+  }
+}
+
+function renderApiChanges(changes: ApiChange[]): string[] {
+  const lines: string[] = [];
+  let container = '';
+  for (const change of changes) {
+    if (change.symbol.container !== container) {
+      container = change.symbol.container;
+      lines.push('', `#### \`${container}\``, '');
+    }
+    lines.push(`- ${renderApiChange(change)}`);
+  }
+  return lines;
+}
+
+const BUMP_REASONS: Record<SemverBump, string> = {
+  major: 'public API removals, retyped members or breaking commits',
+  minor: 'new public API or features, nothing removed',
+  patch: 'no public API changes and no new features',
+};
+
+export function renderChangelogSection(input: ChangelogInput): string {
+  const bump = suggestBump(input.apiChanges, input.commits);
+  const lines = [
+    `## [${input.version}] - ${input.date}`,
+    '',
+    `Changes since ${input.fromRef}. Suggested version bump: **${bump}** (${BUMP_REASONS[bump]}).`,
+  ];
+
+  const { from, to } = input.denoVersion;
+  const denoCommits = input.commits.filter((c) => c.category === 'deno');
+  if ((from && to && from !== to) || denoCommits.length > 0) {
+    lines.push('', '### Deno', '');
+    if (from && to && from !== to) lines.push(`- Bundled Deno updated from ${from} to ${to}`);
+    for (const commit of denoCommits) lines.push(`- ${commit.text} (${commit.hash.slice(0, 7)})`);
+  }
+
+  for (const [category, heading] of CATEGORY_HEADINGS) {
+    const commits = input.commits.filter((c) => c.category === category);
+    if (commits.length === 0) continue;
+    lines.push('', `### ${heading}`, '');
+    for (const commit of commits) lines.push(`- ${commit.text} (${commit.hash.slice(0, 7)})`);
+  }
+
+  if (input.apiChanges.length > 0) {
+    lines.push('', '### Public API');
+    lines.push(...renderApiChanges(input.apiChanges));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to DenoHost are documented in this file. Sections are generated by
+\`tools/gen-commands/changelog.ts\` and can be edited by hand afterwards.
+`;
+
+/** Inserts `section` above the newest release, replacing an existing section for the same version. */
+export function insertChangelogSection(existing: string | null, section: string, version: string): string {
+  const content = existing?.trim() ? existing : CHANGELOG_HEADER;
+  const heading = `## [${version}]`;
+
+  const start = content.indexOf(`\n${heading}`);
+  if (start >= 0) {
+    const next = content.indexOf('\n## ', start + 1);
+    return content.slice(0, start + 1) + section + (next >= 0 ? '\n' + content.slice(next + 1) : '');
+  }
+
+  const first = content.indexOf('\n## ');
+  if (first < 0) return content.replace(/\n*$/, '\n\n') + section;
+  return content.slice(0, first + 1) + section + '\n' + content.slice(first + 1);
+}
+
+// ─── CLI ──────────────────────────────────────────────────────────────────────
+
+export function parseCliArgs(args: string[], cwd = '.'): CliArgs {
+  const values: Record<string, string> = {};
+  const positionals: string[] = [];
+  let stdout = false;
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (['--out', '--version'].includes(flag)) {
+      if (i + 1 >= args.length) throw new Error(`${flag} needs a value`);
+      values[flag] = args[++i];
+    } else if (flag === '--stdout') {
+      stdout = true;
+    } else if (flag.startsWith('-')) {
+      throw new Error(`unknown option ${flag}`);
+    } else {
+      positionals.push(flag);
+    }
+  }
+  if (positionals.length !== 2) throw new Error('expected <from-tag> and <to-tag>');
+  return {
+    fromRef: positionals[0],
+    toRef: positionals[1],
+    version: values['--version'] ?? positionals[1],
+    out: values['--out'] ? resolve(cwd, values['--out']) : join(REPO_ROOT, 'CHANGELOG.md'),
+    stdout,
+  };
+}
+
+async function git(...args: string[]): Promise<string> {
+  const output = await new Deno.Command('git', { args: ['-C', REPO_ROOT, ...args], stdout: 'piped', stderr: 'piped' })
+    .output();
+  if (!output.success) throw new Error(`git ${args.join(' ')} failed:\n${new TextDecoder().decode(output.stderr)}`);
+  return new TextDecoder().decode(output.stdout);
+}
+
+async function readApiSymbols(ref: string) {
+  const files = (await git('ls-tree', '-r', '--name-only', ref, '--', GENERATED_DIR)).split('\n')
+    .filter((path) => API_FILE_PATTERN.test(path));
+  const sources = await Promise.all(files.map((path) => git('show', `${ref}:${path}`)));
+  return sources.flatMap(parseApiSymbols);
+}
+
+async function readDenoVersion(ref: string): Promise<string | null> {
+  try {
+    return (await git('show', `${ref}:Directory.Build.props`)).match(/<DenoVersion>([^<]+)<\/DenoVersion>/)?.[1] ??
+      null;
+  } catch {
+    return null;
+  }
+}
+
+if (import.meta.main) {
+  let cli: CliArgs;
+  try {
+    cli = parseCliArgs(Deno.args, Deno.env.get('INIT_CWD') ?? Deno.cwd());
+  } catch (e) {
+    console.error(`Error: ${(e as Error).message}`);
+    console.error('Usage: deno task changelog <from-tag> <to-tag> [--version <name>] [--out <file>] [--stdout]');
+    Deno.exit(1);
+  }
+
+  const log = await git('log', '--no-merges', '--format=%H%x09%s', `${cli.fromRef}..${cli.toRef}`);
+  const commits = log.split('\n').filter(Boolean).map((line) => {
+    const [hash, subject] = line.split('\t');
+    return categorizeCommit({ hash, subject });
+  }).filter((c): c is CategorizedCommit => c !== null);
+
+  const section = renderChangelogSection({
+    version: cli.version,
+    date: (await git('log', '-1', '--format=%cs', cli.toRef)).trim(),
+    fromRef: cli.fromRef,
+    denoVersion: { from: await readDenoVersion(cli.fromRef), to: await readDenoVersion(cli.toRef) },
+    commits,
+    apiChanges: diffApi(await readApiSymbols(cli.fromRef), await readApiSymbols(cli.toRef)),
+  });
+
+  if (cli.stdout) {
+    console.log(section);
+  } else {
+    let existing: string | null = null;
+    try {
+      existing = await Deno.readTextFile(cli.out);
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) throw e;
+    }
+    await Deno.writeTextFile(cli.out, insertChangelogSection(existing, section, cli.version));
+    console.log(`  Wrote ${cli.version} (${commits.length} commits) → ${cli.out}`);
+    console.log(`  ${section.split('\n')[2]}`);
+  }
+}
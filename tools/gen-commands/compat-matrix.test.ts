@@ -0,0 +1,132 @@
+import { assertEquals, assertStringIncludes, assertThrows } from '@std/assert';
+import {
+  buildCompatMatrix,
+  buildVersionModel,
+  parseCliArgs,
+  renderCompatMatrixMarkdown,
+  summarizeVersions,
+} from './compat-matrix.ts';
+import type { DenoArg, DenoReference } from './generate.ts';
+
+function arg(long: string, usage: string): DenoArg {
+  return { name: long, short: null, long, required: false, help: `help for ${long}`, help_heading: null, usage };
+}
+
+function reference(commands: Record<string, DenoArg[]>): DenoReference {
+  return {
+    name: 'deno',
+    about: null,
+    args: [],
+    subcommands: Object.entries(commands).map(([name, args]) => ({ name, about: null, args })),
+  };
+}
+
+const QUIET = arg('quiet', '-q, --quiet');
+const SCRIPT = { ...arg('script_arg', '<SCRIPT_ARG>...'), long: null };
+
+const ARCHIVE = [
+  {
+    denoVersion: '2.2.0',
+    reference: reference({
+      run: [QUIET, arg('location', '--location[=<HREF>]'), arg('tsgo', '--tsgo'), SCRIPT],
+      serve: [QUIET, arg('port', '--port <PORT>')],
+    }),
+  },
+  {
+    denoVersion: '2.0.0',
+    reference: reference({
+      run: [
+        QUIET,
+        arg('location', '--location <HREF>'),
+        arg('legacy', '--legacy'),
+        arg('config', '--config <FILE>'),
+        SCRIPT,
+      ],
+    }),
+  },
+  {
+    denoVersion: '2.1.0',
+    reference: reference({
+      run: [QUIET, arg('location', '--location[=<HREF>]'), arg('legacy', '--legacy'), arg('tsgo', '--tsgo'), SCRIPT],
+    }),
+  },
+];
+
+Deno.test('buildVersionModel: the generated flags per options class, skipFlags excluded', () => {
+  const model = buildVersionModel(ARCHIVE[1]);
+  assertEquals(Object.keys(model.classes), ['RunOptions']);
+  assertEquals(Object.keys(model.classes.RunOptions), ['Quiet', 'Location', 'Legacy']);
+  assertEquals(model.classes.RunOptions.Location, {
+    flagName: '--location',
+    csType: 'string?',
+    argStyle: 'value',
+    usage: '--location <HREF>',
+    toArgs: 'if (Location is not null) { args.Add("--location"); args.Add(Location); }',
+  });
+});
+
+Deno.test('buildCompatMatrix: existence per version and style changes', () => {
+  const matrix = buildCompatMatrix(ARCHIVE.map(buildVersionModel));
+  assertEquals(matrix.versions, ['2.0.0', '2.1.0', '2.2.0']);
+  assertEquals(matrix.rows.map((r) => [`${r.optionsClass}.${r.property}`, r.shapes.map((s) => s?.argStyle ?? null)]), [
+    ['RunOptions.Quiet', ['flag', 'flag', 'flag']],
+    ['RunOptions.Location', ['value', 'optvalue', 'optvalue']],
+    ['RunOptions.Tsgo', [null, 'flag', 'flag']],
+    ['RunOptions.Legacy', ['flag', 'flag', null]],
+    ['ServeOptions.Quiet', [null, null, 'flag']],
+    ['ServeOptions.Port', [null, null, 'intvalue']], // argStyles override in generator.config.jsonc
+  ]);
+  const location = matrix.rows.find((r) => r.property === 'Location')!;
+  assertEquals(location.styleChanges.map((c) => [c.fromVersion, c.toVersion, c.before.usage, c.after.usage]), [
+    ['2.0.0', '2.1.0', '--location <HREF>', '--location[=<HREF>]'],
+  ]);
+  assertEquals(matrix.rows.filter((r) => r.styleChanges.length > 0).length, 1);
+});
+
+Deno.test('summarizeVersions: distance of every version from the newest', () => {
+  const summary = summarizeVersions(buildCompatMatrix(ARCHIVE.map(buildVersionModel)));
+  assertEquals(summary, [
+    { denoVersion: '2.0.0', classes: 1, properties: 3, missing: 3, differentStyle: 1 },
+    { denoVersion: '2.1.0', classes: 1, properties: 4, missing: 2, differentStyle: 0 },
+    { denoVersion: '2.2.0', classes: 2, properties: 5, missing: 0, differentStyle: 0 },
+  ]);
+});
+
+Deno.test('renderCompatMatrixMarkdown: summary, style changes and only the varying rows per class', () => {
+  const markdown = renderCompatMatrixMarkdown(buildCompatMatrix(ARCHIVE.map(buildVersionModel)));
+  assertStringIncludes(markdown, '| 2.0.0 | 1 | 3 | 3 | 1 |');
+  assertStringIncludes(
+    markdown,
+    '| `RunOptions.Location` | 2.0.0 → 2.1.0 | `value` `string?` (`--location <HREF>`) | ' +
+      '`optvalue` `string?` (`--location[=<HREF>]`) |',
+  );
+  assertStringIncludes(
+    markdown,
+    '## RunOptions\n\n1 of 4 properties are generated identically in every version.\n\n' +
+      '| Property | 2.0.0 | 2.1.0 | 2.2.0 |\n| -------- | --- | --- | --- |\n' +
+      '| `Location` | `value` | ✓ | ✓ |\n| `Tsgo` | – | ✓ | ✓ |\n| `Legacy` | ✓ | ✓ | – |',
+  );
+  assertStringIncludes(markdown, '## ServeOptions\n\n| Property |');
+});
+
+Deno.test('renderCompatMatrixMarkdown: version count', () => {
+  assertStringIncludes(
+    renderCompatMatrixMarkdown(buildCompatMatrix(ARCHIVE.map(buildVersionModel))),
+    '3 archived Deno versions, 2.0.0 to 2.2.0.',
+  );
+  assertStringIncludes(
+    renderCompatMatrixMarkdown(buildCompatMatrix(ARCHIVE.slice(0, 1).map(buildVersionModel))),
+    '1 archived Deno version, 2.2.0.',
+  );
+});
+
+Deno.test('renderCompatMatrixMarkdown: empty archive', () => {
+  assertStringIncludes(renderCompatMatrixMarkdown({ versions: [], rows: [] }), 'deno task history:add');
+});
+
+Deno.test('parseCliArgs: --from takes a version', () => {
+  assertEquals(parseCliArgs([]), { from: null, stdout: false });
+  assertEquals(parseCliArgs(['--from', '2.1.0', '--stdout']), { from: '2.1.0', stdout: true });
+  assertThrows(() => parseCliArgs(['--from', 'latest']), Error, 'Not a Deno version');
+  assertThrows(() => parseCliArgs(['--bogus']), Error, 'unknown option --bogus');
+});
@@ -0,0 +1,265 @@
+// Compatibility matrix of the generated options classes across the archived Deno versions (history/reference/).
+// Every archived `json_reference` goes through the generator's own pipeline — the flag set per options class as in
+// deno_reference.snapshot.json, inferProperty and renderToArgsLine — with today's generator.config.jsonc, so the
+// matrix shows which XxxOptions property exists in which Deno version and where a flag's argument style changed.
+// Permission flags come from the config schema, not json_reference, and are left out (as in history/).
+//
+//   deno task compat-matrix [--from <version>] [--stdout]
+
+import { dirname, join } from '@std/path';
+import { type ArgStyle, collectCommandArgs, inferProperty, renderToArgsLine, toPascalCase } from './generate.ts';
+import { compareVersions, parseVersion, readReferenceArchive } from './history.ts';
+import type { ReferenceSnapshot } from './sources.ts';
+
+const SCRIPT_DIR = dirname(import.meta.filename!);
+const MATRIX_MD = join(SCRIPT_DIR, 'compat_matrix.md');
+const MATRIX_JSON = join(SCRIPT_DIR, 'compat_matrix.json');
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface PropertyShape {
+  flagName: string;
+  csType: string;
+  argStyle: ArgStyle;
+  usage: string;
+  /** The generated `ToArgs()` statement, trimmed. */
+  toArgs: string;
+}
+
+export interface VersionModel {
+  denoVersion: string;
+  /** Options class → property name → shape. */
+  classes: Record<string, Record<string, PropertyShape>>;
+}
+
+export interface StyleChange {
+  fromVersion: string;
+  toVersion: string;
+  before: PropertyShape;
+  after: PropertyShape;
+}
+
+export interface MatrixRow {
+  optionsClass: string;
+  property: string;
+  /** One entry per matrix version; null where the version does not generate the property. */
+  shapes: (PropertyShape | null)[];
+  styleChanges: StyleChange[];
+}
+
+export interface CompatMatrix {
+  versions: string[];
+  rows: MatrixRow[];
+}
+
+export interface VersionSummary {
+  denoVersion: string;
+  classes: number;
+  properties: number;
+  /** Properties of the newest version this version does not generate. */
+  missing: number;
+  /** Properties this version generates with another argument style or C# type than the newest version. */
+  differentStyle: number;
+}
+
+export interface CliArgs {
+  from: string | null;
+  stdout: boolean;
+}
+
+// ─── Building ─────────────────────────────────────────────────────────────────
+
+/** The options classes one Deno version would generate, keyed like the generated code. */
+export function buildVersionModel(snapshot: ReferenceSnapshot): VersionModel {
+  const classes: VersionModel['classes'] = {};
+  try {
+    for (const [command, args] of Object.entries(collectCommandArgs(snapshot.reference, []))) {
+      const properties: Record<string, PropertyShape> = {};
+      for (const arg of args) {
+        const prop = inferProperty(arg, command);
+        if (!prop) continue;
+        properties[prop.csName] = {
+          flagName: prop.flagName,
+          csType: prop.csType,
+          argStyle: prop.argStyle,
+          usage: prop.usage,
+          toArgs: renderToArgsLine(prop).trim(),
+        };
+      }
+      classes[`${toPascalCase(command)}Options`] = properties;
+    }
+  } catch (e) {
+    throw new Error(`Deno ${snapshot.denoVersion}: ${(e as Error).message}`);
+  }
+  return { denoVersion: snapshot.denoVersion, classes };
+}
+
+function sameStyle(a: PropertyShape, b: PropertyShape): boolean {
+  return a.argStyle === b.argStyle && a.csType === b.csType;
+}
+
+/** One row per property any version generates, ordered by class and the property order of the newest version. */
+export function buildCompatMatrix(models: VersionModel[]): CompatMatrix {
+  const sorted = [...models].sort((a, b) => compareVersions(a.denoVersion, b.denoVersion));
+  const keys = new Map<string, { optionsClass: string; property: string }>();
+  for (const model of [...sorted].reverse()) {
+    for (const [optionsClass, properties] of Object.entries(model.classes)) {
+      for (const property of Object.keys(properties)) {
+        keys.set(`${optionsClass}.${property}`, { optionsClass, property });
+      }
+    }
+  }
+
+  const rows = [...keys.values()].map(({ optionsClass, property }): MatrixRow => {
+    const shapes = sorted.map((m) => m.classes[optionsClass]?.[property] ?? null);
+    const styleChanges: StyleChange[] = [];
+    let previous: { version: string; shape: PropertyShape } | null = null;
+    for (const [i, shape] of shapes.entries()) {
+      if (!shape) continue;
+      if (previous && !sameStyle(previous.shape, shape)) {
+        styleChanges.push({
+          fromVersion: previous.version,
+          toVersion: sorted[i].denoVersion,
+          before: previous.shape,
+          after: shape,
+        });
+      }
+      previous = { version: sorted[i].denoVersion, shape };
+    }
+    return { optionsClass, property, shapes, styleChanges };
+  });
+
+  rows.sort((a, b) => a.optionsClass.localeCompare(b.optionsClass));
+  return { versions: sorted.map((m) => m.denoVersion), rows };
+}
+
+/** Per version: how far its generated API is from the newest archived version's. */
+export function summarizeVersions(matrix: CompatMatrix): VersionSummary[] {
+  const newest = matrix.versions.length - 1;
+  return matrix.versions.map((denoVersion, i) => {
+    const present = matrix.rows.filter((r) => r.shapes[i]);
+    return {
+      denoVersion,
+      classes: new Set(present.map((r) => r.optionsClass)).size,
+      properties: present.length,
+      missing: matrix.rows.filter((r) => r.shapes[newest] && !r.shapes[i]).length,
+      differentStyle: present.filter((r) => r.shapes[newest] && !sameStyle(r.shapes[i]!, r.shapes[newest]!)).length,
+    };
+  });
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+function renderCell(shape: PropertyShape | null, newest: PropertyShape | null): string {
+  if (!shape) return '–';
+  return newest && !sameStyle(shape, newest) ? `\`${shape.argStyle}\`` : '✓';
+}
+
+function renderShape(shape: PropertyShape): string {
+  return `\`${shape.argStyle}\` \`${shape.csType}\` (\`${shape.usage}\`)`;
+}
+
+export function renderCompatMatrixMarkdown(matrix: CompatMatrix): string {
+  const { versions } = matrix;
+  const newestVersion = versions.at(-1);
+  const lines = ['# Generated API compatibility matrix', ''];
+  if (!newestVersion) {
+    lines.push('No archived `json_reference` outputs. Add them with `deno task history:add /path/to/deno`.');
+    return lines.join('\n');
+  }
+
+  const range = versions.length === 1
+    ? `1 archived Deno version, ${newestVersion}`
+    : `${versions.length} archived Deno versions, ${versions[0]} to ${newestVersion}`;
+  lines.push(
+    `${range}. ✓ = generated as in ${newestVersion}, ` +
+      `– = not generated, \`style\` = generated with another argument style or C# type than in ${newestVersion}.`,
+    '',
+    '## Summary',
+    '',
+    `| Deno | Options classes | Properties | Missing vs ${newestVersion} | Different style vs ${newestVersion} |`,
+    '| ---- | --------------- | ---------- | ---------------- | ------------------------ |',
+  );
+  for (const s of summarizeVersions(matrix)) {
+    lines.push(`| ${s.denoVersion} | ${s.classes} | ${s.properties} | ${s.missing} | ${s.differentStyle} |`);
+  }
+
+  const changes = matrix.rows.flatMap((row) => row.styleChanges.map((change) => ({ row, change })));
+  lines.push('', '## Argument style changes', '');
+  if (changes.length === 0) {
+    lines.push('None.');
+  } else {
+    lines.push('| Property | Deno | Before | After |', '| -------- | ---- | ------ | ----- |');
+    for (const { row, change } of changes) {
+      lines.push(
+        `| \`${row.optionsClass}.${row.property}\` | ${change.fromVersion} → ${change.toVersion} | ` +
+          `${renderShape(change.before)} | ${renderShape(change.after)} |`,
+      );
+    }
+  }
+
+  const newest = versions.length - 1;
+  const byClass = Map.groupBy(matrix.rows, (row) => row.optionsClass);
+  for (const [optionsClass, rows] of byClass) {
+    const varying = rows.filter((row) => row.shapes.some((shape) => renderCell(shape, row.shapes[newest]) !== '✓'));
+    lines.push('', `## ${optionsClass}`, '');
+    const unchanged = rows.length - varying.length;
+    if (unchanged > 0) {
+      lines.push(`${unchanged} of ${rows.length} properties are generated identically in every version.`);
+    }
+    if (varying.length === 0) continue;
+    if (unchanged > 0) lines.push('');
+    lines.push(`| Property | ${versions.join(' | ')} |`, `| -------- |${versions.map(() => ' --- |').join('')}`);
+    for (const row of varying) {
+      lines.push(
+        `| \`${row.property}\` | ${row.shapes.map((shape) => renderCell(shape, row.shapes[newest])).join(' | ')} |`,
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// ─── CLI ──────────────────────────────────────────────────────────────────────
+
+export function parseCliArgs(args: string[]): CliArgs {
+  const result: CliArgs = { from: null, stdout: false };
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === '--from') {
+      if (i + 1 >= args.length) throw new Error('--from needs a value');
+      result.from = args[++i];
+      parseVersion(result.from);
+    } else if (flag === '--stdout') {
+      result.stdout = true;
+    } else {
+      throw new Error(`unknown option ${flag}`);
+    }
+  }
+  return result;
+}
+
+if (import.meta.main) {
+  let cli: CliArgs;
+  try {
+    cli = parseCliArgs(Deno.args);
+  } catch (e) {
+    console.error(`Error: ${(e as Error).message}`);
+    console.error('Usage: deno task compat-matrix [--from <version>] [--stdout]');
+    Deno.exit(1);
+  }
+
+  const archive = (await readReferenceArchive())
+    .filter((s) => !cli.from || compareVersions(s.denoVersion, cli.from) >= 0);
+  const matrix = buildCompatMatrix(archive.map(buildVersionModel));
+  const markdown = renderCompatMatrixMarkdown(matrix);
+
+  if (cli.stdout) {
+    console.log(markdown);
+  } else {
+    await Deno.writeTextFile(MATRIX_MD, markdown + '\n');
+    await Deno.writeTextFile(MATRIX_JSON, JSON.stringify(matrix, null, 2) + '\n');
+    const changes = matrix.rows.reduce((n, row) => n + row.styleChanges.length, 0);
+    console.log(`  Compatibility matrix (${matrix.versions.length} versions, ${changes} style changes) → ${MATRIX_MD}`);
+  }
+}
@@ -0,0 +1,113 @@
+import { assert, assertEquals, assertFalse, assertStringIncludes, assertThrows } from '@std/assert';
+import { diffCommandArgs, parseDriftBase, renderDriftMarkdown } from './drift.ts';
+import type { DenoArg } from './generate.ts';
+
+function arg(long: string, usage: string, extra: Partial<DenoArg> = {}): DenoArg {
+  return {
+    name: long,
+    short: null,
+    long,
+    required: false,
+    help: `help for ${long}`,
+    help_heading: null,
+    usage,
+    ...extra,
+  };
+}
+
+const QUIET = arg('quiet', '-q, --quiet');
+const CONFIG = arg('config', '-c, --config <FILE>');
+const LOCATION = arg('location', '--location <HREF>');
+
+Deno.test('diffCommandArgs: identical inputs produce no changes', () => {
+  const report = diffCommandArgs({ run: [QUIET, CONFIG] }, { run: [QUIET, CONFIG] }, '2.9.4', '2.9.5');
+  assertEquals(report.changes, []);
+  assertFalse(report.breaking);
+});
+
+Deno.test('diffCommandArgs: added flags are non-breaking, removed flags are breaking', () => {
+  const report = diffCommandArgs({ run: [QUIET, CONFIG] }, { run: [QUIET, LOCATION] }, '2.9.4', '2.9.5');
+  assertEquals(report.changes.map((c) => [c.kind, c.before?.flag ?? c.after?.flag, c.breaking]), [
+    ['removed', '--config', true],
+    ['added', '--location', false],
+  ]);
+  assert(report.breaking);
+});
+
+Deno.test('diffCommandArgs: renames are matched by clap arg id or identical help text', () => {
+  const byId = diffCommandArgs(
+    { run: [arg('unstable-foo', '--unstable-foo')] },
+    {
+      run: [arg('foo', '--foo', { name: 'unstable-foo', help: 'other' })],
+    },
+    'a',
+    'b',
+  );
+  assertEquals(byId.changes.map((c) => [c.kind, c.before?.property, c.after?.property]), [[
+    'renamed',
+    'UnstableFoo',
+    'Foo',
+  ]]);
+
+  const byHelp = diffCommandArgs(
+    { run: [arg('old-name', '--old-name', { help: 'Same text' })] },
+    {
+      run: [arg('new-name', '--new-name', { help: 'Same text' })],
+    },
+    'a',
+    'b',
+  );
+  assertEquals(byHelp.changes.map((c) => c.kind), ['renamed']);
+  assert(byHelp.breaking);
+});
+
+Deno.test('diffCommandArgs: C# type changes are breaking, same-type style changes are not', () => {
+  const toArray = diffCommandArgs({ run: [LOCATION] }, { run: [arg('location', '--location <HREF>...')] }, 'a', 'b');
+  assertEquals(toArray.changes.map((c) => [c.kind, c.before?.csType, c.after?.csType, c.breaking]), [
+    ['type-changed', 'string?', 'string[]?', true],
+  ]);
+
+  const toOptional = diffCommandArgs({ run: [LOCATION] }, { run: [arg('location', '--location[=<HREF>]')] }, 'a', 'b');
+  assertEquals(toOptional.changes.map((c) => [c.before?.argStyle, c.after?.argStyle, c.breaking]), [[
+    'value',
+    'optvalue',
+    false,
+  ]]);
+
+  // A value set only adds the typed enum view; the string property is unchanged.
+  const toEnum = diffCommandArgs(
+    { run: [arg('mode', '--mode <MODE>')] },
+    { run: [arg('mode', '--mode <a|b>')] },
+    'a',
+    'b',
+  );
+  assertEquals(toEnum.changes, []);
+});
+
+Deno.test('diffCommandArgs: commands that appear or disappear are reported once', () => {
+  const report = diffCommandArgs({ bundle: [QUIET] }, { deploy: [QUIET] }, 'a', 'b');
+  assertEquals(report.changes.map((c) => [c.kind, c.optionsClass, c.breaking]), [
+    ['command-removed', 'BundleOptions', true],
+    ['command-added', 'DeployOptions', false],
+  ]);
+});
+
+Deno.test('renderDriftMarkdown: one table per command with breaking marker', () => {
+  const report = diffCommandArgs({ run: [QUIET, CONFIG] }, { run: [QUIET, LOCATION] }, '2.9.4', '2.9.5');
+  const md = renderDriftMarkdown(report);
+  assertStringIncludes(md, '# Deno flag drift: 2.9.4 → 2.9.5');
+  assertStringIncludes(md, '## deno run (`RunOptions`)');
+  assertStringIncludes(md, '| Removed | `--config` | `Config` | `string?` (value) | **yes** |');
+  assertStringIncludes(md, '| Added | `--location` | `Location` | `string?` (value) | no |');
+});
+
+Deno.test('renderDriftMarkdown: empty report says so', () => {
+  const md = renderDriftMarkdown(diffCommandArgs({ run: [QUIET] }, { run: [QUIET] }, '2.9.5', '2.9.5'));
+  assertStringIncludes(md, 'No flag changes');
+});
+
+Deno.test('parseDriftBase: the version after --drift-base', () => {
+  assertEquals(parseDriftBase(['--refresh']), null);
+  assertEquals(parseDriftBase(['--refresh', '--drift-base', '2.9.4']), '2.9.4');
+  assertThrows(() => parseDriftBase(['--drift-base', '--refresh']), Error, 'needs a Deno version');
+});
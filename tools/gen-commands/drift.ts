@@ -0,0 +1,192 @@
+// Compares the flags of the previous json_reference snapshot with the current reference and classifies every
+// change by its effect on the public XxxOptions API. Pure functions only — generate.ts writes the reports.
+
+import { type DenoArg, inferProperty, toPascalCase } from './generate.ts';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type DriftKind = 'command-added' | 'command-removed' | 'added' | 'removed' | 'renamed' | 'type-changed';
+
+interface FlagShape {
+  flag: string;
+  property: string;
+  argStyle: string;
+  csType: string;
+}
+
+export interface FlagDrift {
+  command: string;
+  optionsClass: string;
+  kind: DriftKind;
+  before: FlagShape | null;
+  after: FlagShape | null;
+  breaking: boolean;
+}
+
+export interface DriftReport {
+  fromVersion: string;
+  toVersion: string;
+  breaking: boolean;
+  changes: FlagDrift[];
+}
+
+// ─── Diffing ──────────────────────────────────────────────────────────────────
+
+function shapeOf(arg: DenoArg, command: string): FlagShape | null {
+  const prop = inferProperty(arg, command);
+  if (!prop) return null;
+  return { flag: prop.flagName, property: prop.csName, argStyle: prop.argStyle, csType: prop.csType };
+}
+
+// A removed and an added flag are one rename when clap kept the arg id (`name`) or the help text.
+function findRename(removed: DenoArg, added: DenoArg[]): DenoArg | undefined {
+  return added.find((a) => a.name === removed.name) ??
+    (removed.help ? added.find((a) => a.help === removed.help) : undefined);
+}
+
+function diffCommand(command: string, before: DenoArg[], after: DenoArg[]): FlagDrift[] {
+  const optionsClass = `${toPascalCase(command)}Options`;
+  const beforeByLong = new Map(before.map((a) => [a.long!, a]));
+  const afterByLong = new Map(after.map((a) => [a.long!, a]));
+  const changes: FlagDrift[] = [];
+  const push = (kind: DriftKind, b: DenoArg | null, a: DenoArg | null, breaking: boolean) =>
+    changes.push({
+      command,
+      optionsClass,
+      kind,
+      before: b && shapeOf(b, command),
+      after: a && shapeOf(a, command),
+      breaking,
+    });
+
+  const removed = before.filter((a) => !afterByLong.has(a.long!));
+  const added = after.filter((a) => !beforeByLong.has(a.long!));
+
+  for (const old of removed) {
+    const renamedTo = findRename(old, added);
+    if (renamedTo) {
+      added.splice(added.indexOf(renamedTo), 1);
+      push('renamed', old, renamedTo, true);
+    } else {
+      push('removed', old, null, true);
+    }
+  }
+
+  for (const arg of added) push('added', null, arg, false);
+
+  for (const arg of after) {
+    const old = beforeByLong.get(arg.long!);
+    if (!old) continue;
+    const b = shapeOf(old, command);
+    const a = shapeOf(arg, command);
+    if (!b || !a || (b.argStyle === a.argStyle && b.csType === a.csType)) continue;
+    // Same C# type keeps source compatibility; only the emitted CLI form changes.
+    push('type-changed', old, arg, b.csType !== a.csType);
+  }
+
+  return changes;
+}
+
+/** Diffs the per-command flag lists produced by `collectCommandArgs` for two Deno versions. */
+export function diffCommandArgs(
+  before: Record<string, DenoArg[]>,
+  after: Record<string, DenoArg[]>,
+  fromVersion: string,
+  toVersion: string,
+): DriftReport {
+  const changes: FlagDrift[] = [];
+  const commands = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  for (const command of commands) {
+    const optionsClass = `${toPascalCase(command)}Options`;
+    if (!after[command]) {
+      changes.push({ command, optionsClass, kind: 'command-removed', before: null, after: null, breaking: true });
+    } else if (!before[command]) {
+      changes.push({ command, optionsClass, kind: 'command-added', before: null, after: null, breaking: false });
+    } else {
+      changes.push(...diffCommand(command, before[command], after[command]));
+    }
+  }
+
+  return { fromVersion, toVersion, breaking: changes.some((c) => c.breaking), changes };
+}
+
+/** `--drift-base <version>`: the Deno version to compare against, e.g. the one the repository ships before a bump. */
+export function parseDriftBase(args: string[]): string | null {
+  const i = args.indexOf('--drift-base');
+  if (i < 0) return null;
+  const version = args[i + 1];
+  if (!version || version.startsWith('--')) {
+    throw new Error('--drift-base needs a Deno version, e.g. --drift-base 2.9.5');
+  }
+  return version;
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+const KIND_LABELS: Record<DriftKind, string> = {
+  'command-added': 'Command added',
+  'command-removed': 'Command removed',
+  'added': 'Added',
+  'removed': 'Removed',
+  'renamed': 'Renamed',
+  'type-changed': 'Type changed',
+};
+
+function describe(change: FlagDrift): [string, string, string] {
+  const { before: b, after: a } = change;
+  switch (change.kind) {
+    case 'added':
+      return [`\`${a!.flag}\``, `\`${a!.property}\``, `\`${a!.csType}\` (${a!.argStyle})`];
+    case 'removed':
+      return [`\`${b!.flag}\``, `\`${b!.property}\``, `\`${b!.csType}\` (${b!.argStyle})`];
+    case 'renamed':
+      return [
+        `\`${b!.flag}\` → \`${a!.flag}\``,
+        `\`${b!.property}\` → \`${a!.property}\``,
+        `\`${a!.csType}\` (${a!.argStyle})`,
+      ];
+    case 'type-changed':
+      return [
+        `\`${a!.flag}\``,
+        `\`${a!.property}\``,
+        `\`${b!.csType}\` (${b!.argStyle}) → \`${a!.csType}\` (${a!.argStyle})`,
+      ];
+    default:
+      return ['', `\`${change.optionsClass}\``, ''];
+  }
+}
+
+export function renderDriftMarkdown(report: DriftReport): string {
+  const breakingCount = report.changes.filter((c) => c.breaking).length;
+  const lines: string[] = [];
+  lines.push(`# Deno flag drift: ${report.fromVersion} → ${report.toVersion}`);
+  lines.push('');
+
+  if (report.changes.length === 0) {
+    lines.push('No flag changes in the generated options classes.');
+    return lines.join('\n');
+  }
+
+  lines.push(
+    `Breaking changes: **${breakingCount}** · Non-breaking changes: **${report.changes.length - breakingCount}**`,
+  );
+
+  const commands = [...new Set(report.changes.map((c) => c.command))];
+  for (const command of commands) {
+    const changes = report.changes.filter((c) => c.command === command);
+    lines.push('');
+    lines.push(`## deno ${command} (\`${changes[0].optionsClass}\`)`);
+    lines.push('');
+    lines.push('| Change | Flag | Property | Type | Breaking |');
+    lines.push('| ------ | ---- | -------- | ---- | -------- |');
+    for (const change of changes) {
+      const [flag, property, type] = describe(change);
+      lines.push(
+        `| ${KIND_LABELS[change.kind]} | ${flag} | ${property} | ${type} | ${change.breaking ? '**yes**' : 'no'} |`,
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,80 @@
+import { assertEquals, assertStringIncludes } from '@std/assert';
+import {
+  buildEnvProperties,
+  envVarCsName,
+  inferEnvVarType,
+  renderDenoEnvironment,
+  renderEnvAssignment,
+} from './environment.ts';
+
+const VARS = [
+  {
+    name: 'DENO_AUTH_TOKENS',
+    description: 'A semi-colon separated list of bearer tokens and hostnames\nto use when fetching remote modules',
+    example: '(e.g. "a@deno.land;b@github.com")',
+  },
+  {
+    name: 'DENO_TLS_CA_STORE',
+    description: 'Comma-separated list of order dependent certificate stores.',
+    example: null,
+  },
+  { name: 'DENO_DIR', description: 'Set the cache directory', example: null },
+  { name: 'NO_COLOR', description: 'Set to disable color.', example: null },
+  { name: 'DENO_JOBS', description: 'Number of parallel workers.', example: null },
+  { name: 'SSLKEYLOGFILE', description: 'Write TLS session keys to the specified file.', example: null },
+];
+
+Deno.test('inferEnvVarType / envVarCsName', () => {
+  assertEquals(inferEnvVarType('A semi-colon separated list of tokens'), { type: 'list', separator: ';' });
+  assertEquals(inferEnvVarType('Comma-separated list of hosts'), { type: 'list', separator: ',' });
+  assertEquals(inferEnvVarType('Set the cache directory'), { type: 'string', separator: '' });
+  assertEquals(envVarCsName('DENO_NO_UPDATE_CHECK'), 'DenoNoUpdateCheck');
+});
+
+Deno.test('buildEnvProperties: description and example become one line, overrides set type and name', () => {
+  const props = buildEnvProperties(VARS, {
+    NO_COLOR: { type: 'flag' },
+    DENO_JOBS: { type: 'int' },
+    SSLKEYLOGFILE: { name: 'SslKeyLogFile' },
+  });
+  assertEquals(props.map((p) => [p.csName, p.type, p.separator]), [
+    ['DenoAuthTokens', 'list', ';'],
+    ['DenoTlsCaStore', 'list', ','],
+    ['DenoDir', 'string', ''],
+    ['NoColor', 'flag', ''],
+    ['DenoJobs', 'int', ''],
+    ['SslKeyLogFile', 'string', ''],
+  ]);
+  assertEquals(
+    props[0].description,
+    'A semi-colon separated list of bearer tokens and hostnames to use when fetching remote modules (e.g. "a@deno.land;b@github.com")',
+  );
+});
+
+Deno.test('renderEnvAssignment: flags set 1 or remove, lists are joined, numbers are invariant', () => {
+  const [tokens, , dir, noColor, jobs] = buildEnvProperties(VARS, {
+    NO_COLOR: { type: 'flag' },
+    DENO_JOBS: { type: 'int' },
+  });
+  assertEquals(
+    renderEnvAssignment(tokens).trim(),
+    'if (DenoAuthTokens is not null) yield return new("DENO_AUTH_TOKENS", string.Join(";", DenoAuthTokens));',
+  );
+  assertEquals(renderEnvAssignment(dir).trim(), 'if (DenoDir is not null) yield return new("DENO_DIR", DenoDir);');
+  assertEquals(
+    renderEnvAssignment(noColor).trim(),
+    'if (NoColor.HasValue) yield return new("NO_COLOR", NoColor.Value ? "1" : null);',
+  );
+  assertEquals(
+    renderEnvAssignment(jobs).trim(),
+    'if (DenoJobs.HasValue) yield return new("DENO_JOBS", DenoJobs.Value.ToString(CultureInfo.InvariantCulture));',
+  );
+});
+
+Deno.test('renderDenoEnvironment: partial class with XML docs naming the variable', () => {
+  const cs = renderDenoEnvironment(buildEnvProperties(VARS.slice(2, 3), {}), '2.9.5');
+  assertStringIncludes(cs, 'public sealed partial class DenoEnvironment');
+  assertStringIncludes(cs, '  /// <summary>Set the cache directory</summary>');
+  assertStringIncludes(cs, '  /// <para>Environment variable <c>DENO_DIR</c>.</para>');
+  assertStringIncludes(cs, '  public string? DenoDir { get; set; }');
+});
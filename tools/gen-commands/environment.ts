@@ -0,0 +1,129 @@
+// DenoEnvironment.g.cs: one typed property per environment variable in the `env` section of `deno json_reference`
+// (the "Environment variables" list of `deno help`). Values are strings unless the description names a separated
+// list or generator.config.jsonc gives the variable another type (on/off flags, numbers) or a better C# name.
+
+import type { DenoEnvVar } from './generate.ts';
+import type { EnvVarOverride, EnvVarType } from './generator-config.ts';
+import { csStringLiteral, inlineXml, plainHelp } from './xml-doc.ts';
+
+export const ENV_VARS_DOCS_URL = 'https://docs.deno.com/go/env-vars';
+
+export interface EnvProperty {
+  csName: string;
+  envName: string;
+  type: EnvVarType;
+  separator: string; // list types only
+  description: string; // plain text on one line, including the parenthesized example or default
+}
+
+/** Type read from the description: "Comma-separated list …" / "A semi-colon separated list …". */
+export function inferEnvVarType(description: string): { type: EnvVarType; separator: string } {
+  if (/semi-?colon[ -]separated list/i.test(description)) return { type: 'list', separator: ';' };
+  if (/comma[ -]separated list/i.test(description)) return { type: 'list', separator: ',' };
+  return { type: 'string', separator: '' };
+}
+
+/** `DENO_NO_UPDATE_CHECK` → `DenoNoUpdateCheck` */
+export function envVarCsName(envName: string): string {
+  return envName.toLowerCase().split('_').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+}
+
+export function buildEnvProperties(vars: DenoEnvVar[], overrides: Record<string, EnvVarOverride>): EnvProperty[] {
+  return vars.map((v) => {
+    // Descriptions are hard-wrapped for the terminal; `example` continues them (`(defaults to …)`, `(e.g. …)`).
+    const description = [v.description, v.example].filter(Boolean).map((t) => plainHelp(t).replace(/\s*\n\s*/g, ' '))
+      .join(' ');
+    const inferred = inferEnvVarType(description);
+    const override = overrides[v.name] ?? {};
+    const type = override.type ?? inferred.type;
+    return {
+      csName: override.name ?? envVarCsName(v.name),
+      envName: v.name,
+      type,
+      separator: type === 'list' ? override.separator ?? (inferred.separator || ',') : '',
+      description,
+    };
+  });
+}
+
+function csType(type: EnvVarType): string {
+  switch (type) {
+    case 'flag':
+      return 'bool?';
+    case 'int':
+      return 'int?';
+    case 'list':
+      return 'string[]?';
+    default:
+      return 'string?';
+  }
+}
+
+export function renderEnvProperty(prop: EnvProperty): string {
+  const lines: string[] = [];
+  if (prop.description) lines.push(`  /// <summary>${inlineXml(prop.description)}</summary>`);
+  lines.push('  /// <remarks>');
+  if (prop.type === 'flag') {
+    lines.push(
+      `  /// <para>Environment variable <c>${prop.envName}</c>: <see langword="true"/> sets it to <c>1</c>, <see langword="false"/> removes an inherited value.</para>`,
+    );
+  } else if (prop.type === 'list') {
+    lines.push(
+      `  /// <para>Environment variable <c>${prop.envName}</c>, joined with <c>${
+        inlineXml(prop.separator)
+      }</c>.</para>`,
+    );
+  } else {
+    lines.push(`  /// <para>Environment variable <c>${prop.envName}</c>.</para>`);
+  }
+  lines.push('  /// </remarks>');
+  lines.push(`  public ${csType(prop.type)} ${prop.csName} { get; set; }`);
+  return lines.join('\n');
+}
+
+// Mirrors the property types: a null value removes the variable from the child environment.
+export function renderEnvAssignment(prop: EnvProperty): string {
+  const name = csStringLiteral(prop.envName);
+  const n = prop.csName;
+  switch (prop.type) {
+    case 'flag':
+      return `    if (${n}.HasValue) yield return new(${name}, ${n}.Value ? "1" : null);`;
+    case 'int':
+      return `    if (${n}.HasValue) yield return new(${name}, ${n}.Value.ToString(CultureInfo.InvariantCulture));`;
+    case 'list':
+      return `    if (${n} is not null) yield return new(${name}, string.Join(${
+        csStringLiteral(prop.separator)
+      }, ${n}));`;
+    default:
+      return `    if (${n} is not null) yield return new(${name}, ${n});`;
+  }
+}
+
+export function renderDenoEnvironment(props: EnvProperty[], denoVersion: string): string {
+  const lines: string[] = [];
+  lines.push('// <auto-generated/>');
+  lines.push('// Generated by tools/gen-commands/generate.ts');
+  lines.push(`// Source: \`deno json_reference\` (Deno ${denoVersion})`);
+  lines.push('// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.');
+  lines.push('#nullable enable');
+  lines.push('');
+  lines.push('using System.Collections.Generic;');
+  lines.push('using System.Globalization;');
+  lines.push('');
+  lines.push('namespace DenoHost.Core;');
+  lines.push('');
+  lines.push(`/// <seealso href="${ENV_VARS_DOCS_URL}"/>`);
+  lines.push('public sealed partial class DenoEnvironment');
+  lines.push('{');
+  for (const prop of props) {
+    lines.push(renderEnvProperty(prop));
+    lines.push('');
+  }
+  lines.push('  private IEnumerable<KeyValuePair<string, string?>> GetTypedVariables()');
+  lines.push('  {');
+  for (const prop of props) lines.push(renderEnvAssignment(prop));
+  if (props.length === 0) lines.push('    yield break;');
+  lines.push('  }');
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,79 @@
+// Generates a typed C# proxy for a TypeScript module: records for its exported interfaces and a `DenoModuleProxy`
+// subclass with one async method per exported function (see proxy-model.ts). Reads the module with `deno doc --json`,
+// so a changed signature shows up as a compile error after regeneration instead of a JSON error at runtime.
+//
+//   deno task generate:proxy <path/to/module.ts> [--out <file>] [--namespace <ns>] [--class <name>]
+
+import { basename, dirname, join, resolve } from '@std/path';
+import { buildProxyModel, proxyClassName, renderProxyFile } from './proxy-model.ts';
+
+export const DEFAULT_NAMESPACE = 'DenoHost.Proxies';
+
+interface CliArgs {
+  modulePath: string;
+  out: string;
+  namespace: string;
+  className: string;
+}
+
+// Relative paths are resolved against `cwd`; `deno task` runs in tools/gen-commands and passes the caller's directory
+// as INIT_CWD.
+export function parseCliArgs(args: string[], cwd = '.'): CliArgs {
+  const values: Record<string, string> = {};
+  const positionals: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (['--out', '--namespace', '--class'].includes(flag)) {
+      if (i + 1 >= args.length) throw new Error(`${flag} needs a value`);
+      values[flag] = args[++i];
+    } else if (flag.startsWith('-')) {
+      throw new Error(`unknown option ${flag}`);
+    } else {
+      positionals.push(flag);
+    }
+  }
+  if (positionals.length !== 1) throw new Error('expected exactly one module path');
+  const modulePath = resolve(cwd, positionals[0]);
+  const className = values['--class'] ?? proxyClassName(basename(modulePath));
+  return {
+    modulePath,
+    out: values['--out'] ? resolve(cwd, values['--out']) : join(dirname(modulePath), `${className}.g.cs`),
+    namespace: values['--namespace'] ?? DEFAULT_NAMESPACE,
+    className,
+  };
+}
+
+async function denoDoc(modulePath: string): Promise<unknown> {
+  const output = await new Deno.Command(Deno.execPath(), {
+    args: ['doc', '--json', modulePath],
+    stdout: 'piped',
+    stderr: 'piped',
+  }).output();
+  if (!output.success) {
+    throw new Error(`deno doc --json ${modulePath} failed:\n${new TextDecoder().decode(output.stderr)}`);
+  }
+  return JSON.parse(new TextDecoder().decode(output.stdout));
+}
+
+if (import.meta.main) {
+  let cli: CliArgs;
+  try {
+    cli = parseCliArgs(Deno.args, Deno.env.get('INIT_CWD') ?? Deno.cwd());
+  } catch (e) {
+    console.error(`Error: ${(e as Error).message}`);
+    console.error(
+      'Usage: deno task generate:proxy <path/to/module.ts> [--out <file>] [--namespace <ns>] [--class <name>]',
+    );
+    Deno.exit(1);
+  }
+  const model = buildProxyModel(await denoDoc(cli.modulePath));
+  const source = basename(cli.modulePath);
+  await Deno.writeTextFile(
+    cli.out,
+    renderProxyFile(model, { namespace: cli.namespace, className: cli.className, source }) + '\n',
+  );
+  console.log(
+    `  Generated ${cli.className} (${model.methods.length} functions, ${model.records.length} records) → ${cli.out}`,
+  );
+  for (const warning of model.warnings) console.warn(`  Warning: ${warning}`);
+}
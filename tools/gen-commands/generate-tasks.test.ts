@@ -0,0 +1,92 @@
+import { assertEquals, assertStringIncludes, assertThrows } from '@std/assert';
+import { parseCliArgs, readTasks, renderDenoTasks, taskMethodName } from './generate-tasks.ts';
+
+const CONFIG = {
+  tasks: {
+    'check': 'deno check main.ts',
+    'build:prod': {
+      description: 'Bundle the app\nfor production',
+      command: 'deno bundle main.ts > dist/app.js',
+      dependencies: ['check'],
+    },
+    'ci': { dependencies: ['check', 'build:prod'] },
+  },
+};
+
+Deno.test('taskMethodName: PascalCase, reserved members get a Task suffix', () => {
+  assertEquals(taskMethodName('build:prod'), 'BuildProd');
+  assertEquals(taskMethodName('test-watch'), 'TestWatch');
+  assertEquals(taskMethodName('2fa'), 'Value2fa');
+  assertEquals(taskMethodName('names'), 'NamesTask');
+  assertEquals(taskMethodName('deno-tasks'), 'DenoTasksTask');
+});
+
+Deno.test('readTasks: string and object entries', () => {
+  assertEquals(readTasks(CONFIG), [
+    { name: 'check', csName: 'Check', command: 'deno check main.ts', description: null, dependencies: [] },
+    {
+      name: 'build:prod',
+      csName: 'BuildProd',
+      command: 'deno bundle main.ts > dist/app.js',
+      description: 'Bundle the app\nfor production',
+      dependencies: ['check'],
+    },
+    { name: 'ci', csName: 'Ci', command: null, description: null, dependencies: ['check', 'build:prod'] },
+  ]);
+  assertEquals(readTasks({}), []);
+});
+
+Deno.test('readTasks: rejects bad entries, unknown dependencies and name clashes', () => {
+  assertThrows(() => readTasks({ tasks: { a: 1 } }), Error, 'deno.json: tasks.a must be a command string or an object');
+  assertThrows(() => readTasks({ tasks: { a: { dependencies: 'b' } } }), Error, 'tasks.a.dependencies must be a list');
+  assertThrows(
+    () => readTasks({ tasks: { a: { dependencies: ['b'] } } }),
+    Error,
+    'tasks.a depends on unknown task(s) "b"',
+  );
+  assertThrows(
+    () => readTasks({ tasks: { 'a-b': 'x', 'a:b': 'y' } }),
+    Error,
+    'tasks "a-b" and "a:b" both map to DenoTasks.AB',
+  );
+});
+
+Deno.test('renderDenoTasks: names, dependencies and one documented method per task', () => {
+  const cs = renderDenoTasks(readTasks(CONFIG), { namespace: 'MyApp', className: 'DenoTasks', source: 'deno.json' });
+  assertStringIncludes(cs, 'namespace MyApp;');
+  assertStringIncludes(cs, 'public static partial class DenoTasks');
+  assertStringIncludes(cs, '    public const string BuildProd = "build:prod";');
+  assertStringIncludes(cs, '    [Names.Ci] = [Names.Check, Names.BuildProd],');
+  assertStringIncludes(cs, '    [Names.Check] = [],');
+  assertStringIncludes(
+    cs,
+    [
+      '  /// <summary>Bundle the app for production</summary>',
+      '  /// <remarks>',
+      '  /// <para>Creates a <see cref="DenoProcess"/> for <c>deno task build:prod</c>: <c>deno bundle main.ts &gt; dist/app.js</c>.</para>',
+      '  /// <para>Runs <see cref="Check"/> first.</para>',
+      '  /// </remarks>',
+      '  public static DenoProcess BuildProd(TaskOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)',
+      '    => DenoProcess.Task(Names.BuildProd, options, baseOptions);',
+    ].join('\n'),
+  );
+  assertStringIncludes(cs, '  /// <summary>Runs the <c>ci</c> task.</summary>');
+  assertStringIncludes(cs, '<c>deno task ci</c> (dependencies only).');
+});
+
+Deno.test('parseCliArgs: output next to the config file unless --out is given', () => {
+  assertEquals(parseCliArgs(['app/deno.jsonc'], '/src'), {
+    configPath: '/src/app/deno.jsonc',
+    out: '/src/app/DenoTasks.g.cs',
+    namespace: 'DenoHost.Tasks',
+    className: 'DenoTasks',
+  });
+  assertEquals(parseCliArgs(['deno.json', '--class', 'Tasks', '--namespace', 'MyApp', '--out', 'Gen/T.g.cs'], '/src'), {
+    configPath: '/src/deno.json',
+    out: '/src/Gen/T.g.cs',
+    namespace: 'MyApp',
+    className: 'Tasks',
+  });
+  assertThrows(() => parseCliArgs([]), Error, 'expected exactly one');
+  assertThrows(() => parseCliArgs(['deno.json', '--watch']), Error, 'unknown option --watch');
+});
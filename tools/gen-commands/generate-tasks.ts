@@ -0,0 +1,221 @@
+// Generates a `DenoTasks` C# class from the `tasks` section of a project's deno.json/deno.jsonc: one method per task
+// returning an unstarted `DenoProcess` for `deno task <name>`, so a renamed or removed task breaks the build instead
+// of failing at runtime. Unlike generate.ts this reads a consumer project, not the Deno binary.
+//
+//   deno task generate:tasks <path/to/deno.json> [--out <file>] [--namespace <ns>] [--class <name>]
+
+import { basename, dirname, join, resolve } from '@std/path';
+import { escapeXml, toCsIdentifier } from './generate.ts';
+import { stripJsonComments } from './generator-config.ts';
+import { csStringLiteral, inlineXml } from './xml-doc.ts';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface DenoTask {
+  name: string; // as written in deno.json
+  csName: string; // method and `Names` constant
+  command: string | null; // null: the task only runs its dependencies
+  description: string | null;
+  dependencies: string[];
+}
+
+export interface DenoTasksOptions {
+  namespace: string;
+  className: string;
+  source: string; // config file name, for the header and docs
+}
+
+export const DEFAULT_NAMESPACE = 'DenoHost.Tasks';
+export const DEFAULT_CLASS_NAME = 'DenoTasks';
+
+// Members of the generated class a task method must not collide with.
+const RESERVED_MEMBERS = ['Names', 'Dependencies'];
+
+// ─── Model ────────────────────────────────────────────────────────────────────
+
+/** `build:prod` → `BuildProd`; names that clash with the class or its other members get a `Task` suffix. */
+export function taskMethodName(name: string, className = DEFAULT_CLASS_NAME): string {
+  const csName = toCsIdentifier(name);
+  return csName === className || RESERVED_MEMBERS.includes(csName) ? `${csName}Task` : csName;
+}
+
+/** Reads and checks the `tasks` section (string or `{ description, command, dependencies }` entries). */
+export function readTasks(config: unknown, source = 'deno.json', className = DEFAULT_CLASS_NAME): DenoTask[] {
+  const fail = (message: string): never => {
+    throw new Error(`${source}: ${message}`);
+  };
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+  if (!isObject(config)) fail('expected a JSON object');
+  const tasks = (config as Record<string, unknown>).tasks ?? {};
+  if (!isObject(tasks)) fail('"tasks" must be an object');
+
+  const result = Object.entries(tasks as Record<string, unknown>).map(([name, entry]): DenoTask => {
+    const csName = taskMethodName(name, className);
+    if (typeof entry === 'string') return { name, csName, command: entry, description: null, dependencies: [] };
+    if (!isObject(entry)) return fail(`tasks.${name} must be a command string or an object`);
+
+    const { command = null, description = null, dependencies = [] } = entry;
+    if (command !== null && typeof command !== 'string') fail(`tasks.${name}.command must be a string`);
+    if (description !== null && typeof description !== 'string') fail(`tasks.${name}.description must be a string`);
+    if (!Array.isArray(dependencies) || dependencies.some((d) => typeof d !== 'string')) {
+      fail(`tasks.${name}.dependencies must be a list of task names`);
+    }
+    return {
+      name,
+      csName,
+      command: command as string | null,
+      description: description as string | null,
+      dependencies: dependencies as string[],
+    };
+  });
+
+  const byCsName = new Map<string, string>();
+  for (const task of result) {
+    const other = byCsName.get(task.csName);
+    if (other) fail(`tasks "${other}" and "${task.name}" both map to ${className}.${task.csName}`);
+    byCsName.set(task.csName, task.name);
+    const unknown = task.dependencies.filter((d) => !result.some((t) => t.name === d));
+    if (unknown.length > 0) {
+      fail(`tasks.${task.name} depends on unknown task(s) ${unknown.map((d) => `"${d}"`).join(', ')}`);
+    }
+  }
+  return result;
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+function oneLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+export function renderTaskMethod(task: DenoTask, tasks: DenoTask[]): string {
+  const cref = (name: string) => `<see cref="${tasks.find((t) => t.name === name)!.csName}"/>`;
+  const lines: string[] = [];
+  lines.push(
+    `  /// <summary>${
+      task.description ? inlineXml(oneLine(task.description)) : `Runs the <c>${escapeXml(task.name)}</c> task.`
+    }</summary>`,
+  );
+  lines.push('  /// <remarks>');
+  const runs = task.command ? `: <c>${escapeXml(oneLine(task.command))}</c>` : ' (dependencies only)';
+  lines.push(
+    `  /// <para>Creates a <see cref="DenoProcess"/> for <c>deno task ${escapeXml(task.name)}</c>${runs}.</para>`,
+  );
+  if (task.dependencies.length > 0) {
+    lines.push(`  /// <para>Runs ${task.dependencies.map(cref).join(', ')} first.</para>`);
+  }
+  lines.push('  /// </remarks>');
+  lines.push(
+    `  public static DenoProcess ${task.csName}(TaskOptions? options = null, DenoExecuteBaseOptions? baseOptions = null)`,
+  );
+  lines.push(`    => DenoProcess.Task(Names.${task.csName}, options, baseOptions);`);
+  return lines.join('\n');
+}
+
+export function renderDenoTasks(tasks: DenoTask[], options: DenoTasksOptions): string {
+  const { namespace, className, source } = options;
+  const lines: string[] = [];
+  lines.push('// <auto-generated/>');
+  lines.push('// Generated by tools/gen-commands/generate-tasks.ts');
+  lines.push(`// Source: ${source}`);
+  lines.push('// Do not edit manually — run `deno task generate:tasks` in tools/gen-commands/ to regenerate.');
+  lines.push('#nullable enable');
+  lines.push('');
+  lines.push('using System.Collections.Generic;');
+  lines.push('using DenoHost.Core;');
+  lines.push('using DenoHost.Core.Commands;');
+  lines.push('');
+  lines.push(`namespace ${namespace};`);
+  lines.push('');
+  lines.push(`/// <summary>The tasks of <c>${escapeXml(source)}</c>, started with <c>deno task</c>.</summary>`);
+  lines.push(
+    '/// <remarks>Deno looks the task up in the configuration file of the working directory (or a parent).</remarks>',
+  );
+  lines.push(`public static partial class ${className}`);
+  lines.push('{');
+  lines.push('  /// <summary>Task names as written in the configuration file.</summary>');
+  lines.push('  public static class Names');
+  lines.push('  {');
+  for (const task of tasks) lines.push(`    public const string ${task.csName} = ${csStringLiteral(task.name)};`);
+  lines.push('  }');
+  lines.push('');
+  lines.push('  /// <summary>The <c>dependencies</c> of each task, which <c>deno task</c> runs before it.</summary>');
+  lines.push(
+    '  public static IReadOnlyDictionary<string, string[]> Dependencies { get; } = new Dictionary<string, string[]>',
+  );
+  lines.push('  {');
+  for (const task of tasks) {
+    const deps = task.dependencies.map((d) => `Names.${tasks.find((t) => t.name === d)!.csName}`).join(', ');
+    lines.push(`    [Names.${task.csName}] = [${deps}],`);
+  }
+  lines.push('  };');
+  for (const task of tasks) {
+    lines.push('');
+    lines.push(renderTaskMethod(task, tasks));
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+interface CliArgs {
+  configPath: string;
+  out: string;
+  namespace: string;
+  className: string;
+}
+
+// Relative paths are resolved against `cwd`; `deno task` runs in tools/gen-commands and passes the caller's directory
+// as INIT_CWD.
+export function parseCliArgs(args: string[], cwd = '.'): CliArgs {
+  const values: Record<string, string> = {};
+  const positionals: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (['--out', '--namespace', '--class'].includes(flag)) {
+      if (i + 1 >= args.length) throw new Error(`${flag} needs a value`);
+      values[flag] = args[++i];
+    } else if (flag.startsWith('-')) {
+      throw new Error(`unknown option ${flag}`);
+    } else {
+      positionals.push(flag);
+    }
+  }
+  if (positionals.length !== 1) throw new Error('expected exactly one deno.json/deno.jsonc path');
+  const configPath = resolve(cwd, positionals[0]);
+  return {
+    configPath,
+    out: values['--out']
+      ? resolve(cwd, values['--out'])
+      : join(dirname(configPath), `${values['--class'] ?? DEFAULT_CLASS_NAME}.g.cs`),
+    namespace: values['--namespace'] ?? DEFAULT_NAMESPACE,
+    className: values['--class'] ?? DEFAULT_CLASS_NAME,
+  };
+}
+
+if (import.meta.main) {
+  let cli: CliArgs;
+  try {
+    cli = parseCliArgs(Deno.args, Deno.env.get('INIT_CWD') ?? Deno.cwd());
+  } catch (e) {
+    console.error(`Error: ${(e as Error).message}`);
+    console.error(
+      'Usage: deno task generate:tasks <path/to/deno.json> [--out <file>] [--namespace <ns>] [--class <name>]',
+    );
+    Deno.exit(1);
+  }
+  const source = basename(cli.configPath);
+  const tasks = readTasks(
+    JSON.parse(stripJsonComments(await Deno.readTextFile(cli.configPath))),
+    source,
+    cli.className,
+  );
+  await Deno.writeTextFile(
+    cli.out,
+    renderDenoTasks(tasks, { namespace: cli.namespace, className: cli.className, source }) + '\n',
+  );
+  console.log(`  Generated ${cli.className} (${tasks.length} tasks) → ${cli.out}`);
+}
@@ -1,5 +1,23 @@
-import { assertEquals, assertMatch, assertStrictEquals } from '@std/assert';
-import { argStyleToCsType, inferProperty, renderToArgsLine, toPascalCase } from './generate.ts';
+import { assertEquals, assertMatch, assertStrictEquals, assertStringIncludes, assertThrows } from '@std/assert';
+import {
+  type ArgStyle,
+  argStyleToCsType,
+  buildCommands,
+  collectCommandArgs,
+  collectValueEnums,
+  derivePositionals,
+  getPermissionTypes,
+  inferProperty,
+  isProcessCommand,
+  renderCheckVersion,
+  renderParseCase,
+  renderProperty,
+  renderToArgsLine,
+  renderValueEnum,
+  toCsIdentifier,
+  toPascalCase,
+} from './generate.ts';
+import { REFERENCE_SNAPSHOT_FILE } from './sources.ts';
 
 // ─── toPascalCase ─────────────────────────────────────────────────────────────
 
@@ -15,6 +33,43 @@ Deno.test('toPascalCase: hyphenated', () => {
   assertEquals(toPascalCase('node-modules-dir'), 'NodeModulesDir');
 });
 
+// ─── toCsIdentifier ───────────────────────────────────────────────────────────
+
+Deno.test('toCsIdentifier: camelCase and separators', () => {
+  assertEquals(toCsIdentifier('compilerOptions'), 'CompilerOptions');
+  assertEquals(toCsIdentifier('deno.window'), 'DenoWindow');
+  assertEquals(toCsIdentifier('as-needed'), 'AsNeeded');
+});
+
+Deno.test('toCsIdentifier: leading digit is prefixed', () => {
+  assertEquals(toCsIdentifier('2d'), 'Value2d');
+});
+
+// ─── getPermissionTypes ───────────────────────────────────────────────────────
+
+// Trimmed-down permission part of cli/schemas/config-file.v1.json
+const PERMISSION_SCHEMA = {
+  $defs: {
+    allowDenyPermissionConfigValue: { oneOf: [{ type: 'boolean' }, { type: 'object' }] },
+    allowDenyIgnorePermissionConfigValue: { oneOf: [{ type: 'boolean' }, { type: 'object' }] },
+    permissionSet: {
+      type: 'object',
+      properties: {
+        all: { type: 'boolean', description: 'Allow all permissions.' },
+        read: { $ref: '#/$defs/allowDenyIgnorePermissionConfigValue' },
+        net: { $ref: '#/$defs/allowDenyPermissionConfigValue' },
+      },
+    },
+  },
+};
+
+Deno.test('getPermissionTypes: ignore support comes from allowDenyIgnore refs', () => {
+  assertEquals(getPermissionTypes(PERMISSION_SCHEMA), [
+    { name: 'read', hasIgnore: true },
+    { name: 'net', hasIgnore: false },
+  ]);
+});
+
 // ─── inferProperty: type inference from usage strings ─────────────────────────
 
 function arg(long: string, usage: string, heading?: string) {
@@ -42,7 +97,7 @@ Deno.test('inferProperty: required string value', () => {
 });
 
 Deno.test('inferProperty: optional string value', () => {
-  const prop = inferProperty(arg('no-check', '--no-check[=<NO_CHECK_TYPE>]'));
+  const prop = inferProperty(arg('env-file', '--env-file[=<FILE>]'));
   assertEquals(prop?.csType, 'string?');
   assertEquals(prop?.argStyle, 'optvalue');
 });
@@ -78,7 +133,15 @@ Deno.test('inferProperty: int value (INDEX/COUNT)', () => {
 });
 
 Deno.test('inferProperty: positional arg returns null', () => {
-  const result = inferProperty({ name: 'script_arg', short: null, long: null, required: false, help: null, help_heading: null, usage: '[SCRIPT_ARG]...' });
+  const result = inferProperty({
+    name: 'script_arg',
+    short: null,
+    long: null,
+    required: false,
+    help: null,
+    help_heading: null,
+    usage: '[SCRIPT_ARG]...',
+  });
   assertEquals(result, null);
 });
 
@@ -92,7 +155,7 @@ Deno.test('inferProperty: null heading defaults to General', () => {
   assertEquals(prop?.heading, 'General');
 });
 
-// ─── ARG_STYLE_OVERRIDES ──────────────────────────────────────────────────────
+// ─── argStyles overrides (generator.config.jsonc) ─────────────────────────────
 
 Deno.test('inferProperty: override — port is intvalue despite <PORT> hint', () => {
   const prop = inferProperty(arg('port', '--port <PORT>'));
@@ -154,8 +217,26 @@ Deno.test('argStyleToCsType: value and optvalue → string?', () => {
 
 // ─── renderToArgsLine ─────────────────────────────────────────────────────────
 
-function prop(csName: string, csType: string, argStyle: Parameters<typeof renderToArgsLine>[0]['argStyle'], flagName: string) {
-  return { csName, csType, argStyle, flagName, xmlDoc: '', heading: '' };
+function prop(
+  csName: string,
+  csType: string,
+  argStyle: Parameters<typeof renderToArgsLine>[0]['argStyle'],
+  flagName: string,
+) {
+  return {
+    csName,
+    csType,
+    argStyle,
+    flagName,
+    xmlDoc: '',
+    help: '',
+    usage: flagName,
+    heading: '',
+    shortName: null,
+    valueEnum: null,
+    since: null,
+    removedIn: null,
+  };
 }
 
 Deno.test('renderToArgsLine: flag', () => {
@@ -212,3 +293,252 @@ Deno.test('renderToArgsLine: optarray emits bare flag for empty array', () => {
   // bare flag branch
   assertStrictEquals(line.includes('args.Add("--watch")'), true);
 });
+
+Deno.test('renderToArgsLine: optarray joins values with = (Deno requires it)', () => {
+  const line = renderToArgsLine(prop('AllowRead', 'string[]?', 'optarray', '--allow-read'));
+  assertMatch(line, /string\.Concat\("--allow-read=", string\.Join\(",", AllowRead\)\)/);
+});
+
+// ─── renderCheckVersion ───────────────────────────────────────────────────────
+
+Deno.test('renderCheckVersion: one check per versioned flag, nothing to detect without any', () => {
+  const tsgo = { ...prop('UnstableTsgo', 'bool?', 'flag', '--unstable-tsgo'), since: '2.6.0' };
+  assertEquals(renderCheckVersion('run', [prop('Quiet', 'bool?', 'flag', '--quiet'), tsgo]), [
+    '  internal bool UsesVersionedFlags =>',
+    '    UnstableTsgo == true;',
+    '',
+    '  internal void CheckVersion(DenoVersionCheck? versionCheck)',
+    '  {',
+    '    if (versionCheck is null) return;',
+    '    var problems = new List<string>();',
+    '    if (UnstableTsgo == true) versionCheck.Check(problems, "--unstable-tsgo", "2.6.0", null);',
+    '    versionCheck.Report("run", problems);',
+    '  }',
+  ]);
+  assertEquals(renderCheckVersion('run', [prop('Quiet', 'bool?', 'flag', '--quiet')]), [
+    '  internal bool UsesVersionedFlags => false;',
+    '',
+    '  internal void CheckVersion(DenoVersionCheck? versionCheck) { }',
+  ]);
+});
+
+// ─── renderParseCase ──────────────────────────────────────────────────────────
+
+Deno.test('renderParseCase: one reader call per ArgStyle', () => {
+  const cases: [ArgStyle, string][] = [
+    ['flag', 'reader.ReadFlag()'],
+    ['boolopt', 'reader.ReadBoolean()'],
+    ['value', 'reader.ReadValue()'],
+    ['intvalue', 'reader.ReadInt32()'],
+    ['longvalue', 'reader.ReadInt64()'],
+    ['optvalue', 'reader.ReadOptionalValue()'],
+    ['array', 'DenoArgsReader.Concat(result.X, reader.ReadArray())'],
+    ['optarray', 'DenoArgsReader.Concat(result.X, reader.ReadOptionalArray())'],
+  ];
+  for (const [style, call] of cases) {
+    assertEquals(renderParseCase(prop('X', '', style, '--x')), `        case "--x": result.X = ${call}; break;`);
+  }
+});
+
+// ─── Closed value sets ────────────────────────────────────────────────────────
+
+Deno.test('inferProperty: <a|b|c> usage becomes an enum next to the string property', () => {
+  const prop = inferProperty(arg('color', '--color <auto|always|never>'), 'run');
+  assertEquals(prop?.csType, 'string?');
+  assertEquals(prop?.valueEnum?.name, 'ColorOption');
+  assertEquals(prop?.valueEnum?.values, ['auto', 'always', 'never']);
+});
+
+Deno.test('inferProperty: possible_values metadata and help text become enums', () => {
+  const meta = inferProperty({ ...arg('mode', '--mode <MODE>'), possible_values: ['a', 'b'] }, 'run');
+  assertEquals(meta?.valueEnum?.values, ['a', 'b']);
+  const help = inferProperty({
+    ...arg('mode', '--mode <MODE>'),
+    help: 'Mode \x1b[38;5;245m[possible values: x, y]\x1b[39m',
+  }, 'run');
+  assertEquals(help?.valueEnum?.values, ['x', 'y']);
+});
+
+Deno.test('inferProperty: valueSets supply the sets the reference does not expose', () => {
+  assertEquals(inferProperty(arg('reporter', '--reporter <reporter>'), 'test')?.valueEnum?.values, [
+    'pretty',
+    'dot',
+    'junit',
+    'tap',
+  ]);
+  assertEquals(inferProperty(arg('ext', '--ext <ext>'), 'fmt')?.valueEnum?.name, 'FmtExtOption');
+  assertEquals(inferProperty(arg('log-level', '-L, --log-level <LOG_LEVEL>'), 'run')?.valueEnum, null);
+});
+
+Deno.test('collectValueEnums: the checked-in reference yields the curated enums', async () => {
+  const { reference } = JSON.parse(await Deno.readTextFile(REFERENCE_SNAPSHOT_FILE));
+  const enums = collectValueEnums(collectCommandArgs(reference, []));
+  const reporter = enums.find((en) => en.name === 'ReporterOption');
+  assertEquals(reporter?.values, ['pretty', 'dot', 'junit', 'tap']);
+  assertEquals(reporter?.command, null);
+  assertEquals(enums.find((en) => en.name === 'NoCheckOption')?.hasDefault, true);
+  assertEquals(enums.find((en) => en.name === 'FmtExtOption')?.command, 'fmt');
+});
+
+Deno.test('inferProperty: optvalue enum has a Default member', () => {
+  const prop = inferProperty(
+    { ...arg('no-check', '--no-check[=<NO_CHECK_TYPE>]'), possible_values: ['remote'] },
+    'run',
+  );
+  assertEquals(prop?.valueEnum?.hasDefault, true);
+  assertEquals(
+    renderToArgsLine(prop!),
+    '    if (NoCheck is not null) { if (NoCheck.Length == 0) args.Add("--no-check"); else args.Add(string.Concat("--no-check=", NoCheck)); }',
+  );
+});
+
+Deno.test('inferProperty: true/false value sets stay boolean', () => {
+  const prop = inferProperty({ ...arg('vendor', '--vendor[=<vendor>]'), possible_values: ['true', 'false'] }, 'run');
+  assertEquals(prop?.valueEnum, null);
+});
+
+Deno.test('renderProperty: the enum is a typed view over the string property', () => {
+  const cs = renderProperty(
+    inferProperty({ ...arg('reporter', '--reporter <reporter>'), possible_values: ['pretty', 'dot'] }, 'test')!,
+  );
+  assertStringIncludes(cs, '  public string? Reporter { get; set; }');
+  assertStringIncludes(
+    cs,
+    '  public ReporterOption? ReporterOption { get => Reporter is { } arg && ReporterOptionExtensions.TryFromArg(arg, out var value) ? value : null; set => Reporter = value?.ToArg(); }',
+  );
+});
+
+Deno.test('renderValueEnum: members and ToArg switch', () => {
+  const target = { ...arg('target', '--target <target>'), possible_values: ['x86_64-apple-darwin'] };
+  const cs = renderValueEnum(inferProperty(target, 'compile')!.valueEnum!, '2.9.5');
+  assertStringIncludes(cs, 'public enum TargetOption');
+  assertStringIncludes(cs, '  /// <summary><c>--target=x86_64-apple-darwin</c></summary>\n  X8664AppleDarwin,');
+  assertStringIncludes(cs, '    TargetOption.X8664AppleDarwin => "x86_64-apple-darwin",');
+  assertStringIncludes(cs, '_ => throw new ArgumentOutOfRangeException(nameof(value), value, null),');
+
+  const noCheck = renderValueEnum(
+    inferProperty({ ...arg('no-check', '--no-check[=<NO_CHECK_TYPE>]'), possible_values: ['remote'] }, 'run')!
+      .valueEnum!,
+    '2.9.5',
+  );
+  assertStringIncludes(noCheck, '    NoCheckOption.Default => "",');
+  assertStringIncludes(noCheck, '      case "": value = NoCheckOption.Default; return true;');
+});
+
+Deno.test('collectValueEnums: one enum per flag, conflicting sets are rejected', () => {
+  const color = { ...arg('color', '--color <color>'), possible_values: ['auto', 'never'] };
+  assertEquals(collectValueEnums({ test: [color], bench: [color] }).map((e) => e.name), ['ColorOption']);
+  const other = { ...color, possible_values: ['auto', 'always'] };
+  assertThrows(() => collectValueEnums({ test: [color], bench: [other] }), Error, "'bench color'");
+});
+
+// ─── derivePositionals / buildCommands ────────────────────────────────────────
+
+function positional(name: string, usage: string, required = false) {
+  return { name, short: null, long: null, required, help: null, help_heading: null, usage };
+}
+
+function subcommand(name: string, ...args: ReturnType<typeof positional>[]) {
+  return { name, about: null, args: [arg('quiet', '-q, --quiet'), ...args] };
+}
+
+Deno.test('derivePositionals: optional variadic becomes a nullable pluralized array', () => {
+  assertEquals(derivePositionals(subcommand('check', positional('file', '[file]...'))), [
+    { csParam: 'string[]? files = null', append: 'if (files != null) args.AddRange(files);' },
+  ]);
+});
+
+Deno.test('derivePositionals: single values keep their requiredness', () => {
+  assertEquals(derivePositionals(subcommand('why', positional('package', '<package>', true))), [
+    { csParam: 'string package', append: 'args.Add(package);' },
+  ]);
+  assertEquals(derivePositionals(subcommand('info', positional('file', '[file]'))).map((p) => p.csParam), [
+    'string? file = null',
+  ]);
+});
+
+Deno.test('derivePositionals: leading script_arg / code_arg is a required entry point', () => {
+  assertEquals(derivePositionals(subcommand('run', positional('script_arg', '[SCRIPT_ARG]...'))), [
+    { csParam: 'string script', append: 'args.Add(script);', entryPoint: true },
+  ]);
+  assertEquals(derivePositionals(subcommand('eval', positional('code_arg', '[CODE_ARG]...'))).map((p) => p.csParam), [
+    'string code',
+  ]);
+});
+
+Deno.test('derivePositionals: trailing script_arg after other positionals is dropped', () => {
+  const sub = subcommand('test', positional('files', '[files]...'), positional('script_arg', '[SCRIPT_ARG]...'));
+  assertEquals(derivePositionals(sub).map((p) => p.csParam), ['string[]? files = null']);
+});
+
+Deno.test('derivePositionals: names clashing with generated locals are prefixed with the command', () => {
+  assertEquals(derivePositionals(subcommand('repl', positional('args', '[ARGS]...'))).map((p) => p.csParam), [
+    'string[]? replArgs = null',
+  ]);
+});
+
+Deno.test('derivePositionals: override table wins over the usage', () => {
+  assertEquals(derivePositionals(subcommand('task')).map((p) => p.csParam), ['string taskName']);
+  assertEquals(derivePositionals(subcommand('add', positional('packages', '[packages]...'))).map((p) => p.csParam), [
+    'string[] packages',
+  ]);
+});
+
+Deno.test('buildCommands: every subcommand except meta ones, permissions from the fixed list', () => {
+  const ref = {
+    name: 'deno',
+    about: null,
+    args: [],
+    subcommands: [
+      subcommand('run'),
+      subcommand('doc'),
+      subcommand('help'),
+      subcommand('json_reference'),
+      subcommand('lsp'),
+    ],
+  };
+  assertEquals(buildCommands(ref).map((c) => [c.name, c.hasPermissions]), [['run', true], ['doc', false]]);
+});
+
+Deno.test('isProcessCommand: every subcommand with --watch, plus processCommands', () => {
+  const watch = {
+    name: 'watch',
+    short: null,
+    long: 'watch',
+    required: false,
+    help: null,
+    help_heading: null,
+    usage: '--watch[=<FILES>...]',
+  };
+  const ref = {
+    name: 'deno',
+    about: null,
+    args: [],
+    subcommands: [{ ...subcommand('fmt'), args: [watch] }, subcommand('task'), subcommand('doc')],
+  };
+  assertEquals(buildCommands(ref).filter(isProcessCommand).map((c) => c.name), ['fmt', 'task']);
+});
+
+// ─── renderProperty: XML docs and [DenoFlag] ──────────────────────────────────
+
+Deno.test('renderProperty: help becomes summary and remarks, usage and alias go into docs and [DenoFlag]', () => {
+  const p = inferProperty({
+    name: 'log-level',
+    short: 'L',
+    long: 'log-level',
+    required: false,
+    help: 'Set log level\n  \x1b[38;5;245mDefaults to `info`.\x1b[39m',
+    help_heading: 'Debugging options',
+    usage: '-L, --log-level <LOG_LEVEL>',
+  })!;
+  const lines = renderProperty(p).split('\n');
+  assertEquals(lines, [
+    '  /// <summary>Set log level</summary>',
+    '  /// <remarks>',
+    '  /// <para>Defaults to <c>info</c>.</para>',
+    '  /// <para>Usage: <c>-L, --log-level &lt;LOG_LEVEL&gt;</c> (short alias <c>-L</c>)</para>',
+    '  /// </remarks>',
+    '  [DenoFlag("--log-level", ShortAlias = "-L", Usage = "-L, --log-level <LOG_LEVEL>", Heading = "Debugging options", Help = "Set log level\\nDefaults to `info`.")]',
+    '  public string? LogLevel { get; set; }',
+  ]);
+});
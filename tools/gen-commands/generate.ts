@@ -1,16 +1,47 @@
 // Generates C# options classes and Deno method overloads from `deno json_reference` + the Deno JSON schema.
 // Run: deno task generate
 
-import { join, dirname } from '@std/path';
+import { dirname, join } from '@std/path';
+import { diffCommandArgs, parseDriftBase, renderDriftMarkdown } from './drift.ts';
+import { buildEnvProperties, renderDenoEnvironment } from './environment.ts';
+import {
+  buildCombinedOptionsSchema,
+  buildOptionsSchema,
+  COMBINED_SCHEMA_FILE,
+  type OptionsSchemaSource,
+} from './options-schema.ts';
+import {
+  flagAvailability,
+  type HistorySnapshot,
+  readHistory,
+  readReferenceArchive,
+  toHistorySnapshot,
+  writeHistorySnapshot,
+  writeReferenceArchive,
+} from './history.ts';
+import { ARG_STYLES, type GeneratorConfig, type PositionalOverride, readGeneratorConfig } from './generator-config.ts';
+import { checkOverrides, renderOverrideReport } from './overrides.ts';
+import {
+  buildValidationRules,
+  isSetExpression,
+  readValidationOverrides,
+  renderValidateMethod,
+  type ValidationRule,
+} from './validation.ts';
+import { csStringLiteral, docsUrl, helpToXmlDoc, plainHelp } from './xml-doc.ts';
+import { loadSources, parseGeneratorMode, readReferenceSnapshot, readSchemaSnapshot } from './sources.ts';
 
 const SCRIPT_DIR = dirname(import.meta.filename!);
 const REPO_ROOT = join(SCRIPT_DIR, '..', '..');
 const OUTPUT_DIR = join(REPO_ROOT, 'DenoHost.Core', 'Commands', 'Generated');
+const SCHEMA_OUTPUT_DIR = join(OUTPUT_DIR, 'Schemas');
 const SNAPSHOT_FILE = join(SCRIPT_DIR, 'deno_reference.snapshot.json');
+const DRIFT_REPORT_MD = join(SCRIPT_DIR, 'drift_report.md');
+const DRIFT_REPORT_JSON = join(SCRIPT_DIR, 'drift_report.json');
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-interface DenoArg {
+export interface DenoArg {
   name: string;
   short: string | null;
   long: string | null;
@@ -18,19 +49,29 @@ interface DenoArg {
   help: string | null;
   help_heading: string | null;
   usage: string;
+  possible_values?: string[]; // clap value metadata, when the reference includes it
+  conflicts_with?: string[]; // clap relations, when the reference includes them (long names)
+  requires?: string[];
 }
 
-interface DenoSubcommand {
+export interface DenoSubcommand {
   name: string;
   about: string | null;
   args: DenoArg[];
 }
 
-interface DenoReference {
+export interface DenoEnvVar {
+  name: string;
+  description: string;
+  example: string | null;
+}
+
+export interface DenoReference {
   name: string;
   about: string | null;
   args: DenoArg[];
   subcommands: DenoSubcommand[];
+  env?: DenoEnvVar[]; // "Environment variables" of `deno help`
 }
 
 interface PermissionType {
@@ -40,48 +81,94 @@ interface PermissionType {
 
 // ─── Configuration ────────────────────────────────────────────────────────────
 
-// Flags always skipped (handled by DenoHost or not useful for embedding)
-const SKIP_FLAGS = new Set([
-  'config', 'no-config',  // managed by DenoExecuteOptions / DenoExecuteBaseOptions
-  'help',                  // meta
-  'inspect', 'inspect-brk', 'inspect-wait', 'inspect-publish-uid',
-  'tunnel',                // Deno Deploy specific
-]);
+// Overrides from generator.config.jsonc (see generator-config.ts)
+const CONFIG: GeneratorConfig = readGeneratorConfig();
+const SKIP_FLAGS = new Set(CONFIG.skipFlags);
+const SKIP_COMMANDS = new Set(CONFIG.skipCommands);
+const PERMISSION_COMMANDS = new Set(CONFIG.permissionCommands);
 
-// Commands to generate, with positional arg handling
+// One generated subcommand, with positional arg handling
 interface CommandConfig {
   name: string;
   // Each positional: csParam = C# parameter declaration, append = statement added to args list
-  positional: Array<{ csParam: string; append: string }>;
+  positional: Positional[];
   hasPermissions: boolean;
+  hasWatch: boolean; // accepts --watch, so it can run as a long-lived DenoProcess
 }
 
-const COMMANDS: CommandConfig[] = [
-  { name: 'run', positional: [{ csParam: 'string script', append: 'args.Add(script);' }], hasPermissions: true },
-  { name: 'eval', positional: [{ csParam: 'string code', append: 'args.Add(code);' }], hasPermissions: true },
-  { name: 'test', positional: [{ csParam: 'string[]? files = null', append: 'if (files != null) args.AddRange(files);' }], hasPermissions: true },
-  { name: 'bench', positional: [{ csParam: 'string[]? files = null', append: 'if (files != null) args.AddRange(files);' }], hasPermissions: true },
-  { name: 'fmt', positional: [{ csParam: 'string[]? files = null', append: 'if (files != null) args.AddRange(files);' }], hasPermissions: false },
-  { name: 'lint', positional: [{ csParam: 'string[]? files = null', append: 'if (files != null) args.AddRange(files);' }], hasPermissions: false },
-  { name: 'check', positional: [{ csParam: 'string[]? files = null', append: 'if (files != null) args.AddRange(files);' }], hasPermissions: false },
-  { name: 'compile', positional: [{ csParam: 'string script', append: 'args.Add(script);' }], hasPermissions: true },
-  { name: 'task', positional: [{ csParam: 'string taskName', append: 'args.Add(taskName);' }], hasPermissions: false },
-  { name: 'serve', positional: [{ csParam: 'string script', append: 'args.Add(script);' }], hasPermissions: true },
-  { name: 'cache', positional: [{ csParam: 'string[] files', append: 'args.AddRange(files);' }], hasPermissions: false },
-  { name: 'add', positional: [{ csParam: 'string[] packages', append: 'args.AddRange(packages);' }], hasPermissions: false },
-  { name: 'remove', positional: [{ csParam: 'string[] packages', append: 'args.AddRange(packages);' }], hasPermissions: false },
-];
+interface Positional {
+  csParam: string;
+  append: string;
+  entryPoint?: boolean; // everything after it belongs to the script/task, not to deno
+}
 
-// ─── Permission derivation from JSON schema ───────────────────────────────────
+// Names used by the generated method bodies and trailing parameters
+const RESERVED_PARAM_NAMES = new Set(['args', 'options', 'baseOptions', 'cancellationToken']);
+
+function toCamelCase(s: string): string {
+  const pascal = s.split(/[-_]/).map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join('');
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function positional(name: string, variadic: boolean, required: boolean): Positional {
+  if (variadic) {
+    return required
+      ? { csParam: `string[] ${name}`, append: `args.AddRange(${name});` }
+      : { csParam: `string[]? ${name} = null`, append: `if (${name} != null) args.AddRange(${name});` };
+  }
+  return required
+    ? { csParam: `string ${name}`, append: `args.Add(${name});` }
+    : { csParam: `string? ${name} = null`, append: `if (${name} != null) args.Add(${name});` };
+}
+
+function overridePositional(p: PositionalOverride): Positional {
+  const result = positional(p.name, p.type.startsWith('string[]'), !p.type.endsWith('?'));
+  return p.entryPoint ? { ...result, entryPoint: true } : result;
+}
+
+export function derivePositionals(subcmd: DenoSubcommand): Positional[] {
+  const override = CONFIG.positionals[subcmd.name];
+  if (override) return override.map(overridePositional);
+
+  const positionals = subcmd.args.filter((a) => !a.long && !a.usage.startsWith('-'));
+  const result: Positional[] = [];
+
+  for (const [index, arg] of positionals.entries()) {
+    const entryPoint = CONFIG.entryPointPositionals[arg.name];
+    if (entryPoint) {
+      // After other positionals (`deno test [files]... -- [SCRIPT_ARG]...`) it is the `--` passthrough tail.
+      if (index > 0) continue;
+      result.push({ csParam: `string ${entryPoint}`, append: `args.Add(${entryPoint});`, entryPoint: true });
+      continue;
+    }
+
+    const variadic = arg.usage.endsWith('...');
+    const required = arg.required || arg.usage.startsWith('<');
+    let name = toCamelCase(arg.name);
+    if (variadic && !name.endsWith('s')) name += 's';
+    if (RESERVED_PARAM_NAMES.has(name)) name = toCamelCase(`${subcmd.name}-${name}`);
+
+    result.push(positional(name, variadic, required));
+  }
+
+  return result;
+}
+
+export function buildCommands(ref: DenoReference): CommandConfig[] {
+  return ref.subcommands
+    .filter((s) => !SKIP_COMMANDS.has(s.name))
+    .map((s) => ({
+      name: s.name,
+      positional: derivePositionals(s),
+      hasPermissions: PERMISSION_COMMANDS.has(s.name),
+      hasWatch: s.args.some((a) => a.long === 'watch'),
+    }));
+}
 
-async function fetchPermissionTypes(denoVersion: string): Promise<PermissionType[]> {
-  const schemaUrl = `https://raw.githubusercontent.com/denoland/deno/v${denoVersion}/cli/schemas/config-file.v1.json`;
-  console.log(`Fetching schema: ${schemaUrl}`);
-  const response = await fetch(schemaUrl);
-  if (!response.ok) throw new Error(`Failed to fetch schema: ${response.status} ${response.statusText}`);
-  // deno-lint-ignore no-explicit-any
-  const schema: any = await response.json();
+// ─── Permission derivation from JSON schema ───────────────────────────────────
 
+// deno-lint-ignore no-explicit-any
+export function getPermissionTypes(schema: any): PermissionType[] {
   const permissionSetProps = schema.$defs?.permissionSet?.properties;
   if (!permissionSetProps || typeof permissionSetProps !== 'object') {
     throw new Error('Deno config schema is missing $defs.permissionSet.properties');
@@ -109,14 +196,18 @@ async function fetchPermissionTypes(denoVersion: string): Promise<PermissionType
   return permissionTypes;
 }
 
-function buildPermissionSupplement(permTypes: PermissionType[]): DenoArg[] {
+export function buildPermissionSupplement(permTypes: PermissionType[]): DenoArg[] {
   const args: DenoArg[] = [];
 
   // --allow-all / -A
   args.push({
-    name: 'allow-all', short: 'A', long: 'allow-all', required: false,
+    name: 'allow-all',
+    short: 'A',
+    long: 'allow-all',
+    required: false,
     help: 'Allow all permissions.',
-    help_heading: 'Permissions', usage: '--allow-all',
+    help_heading: 'Permissions',
+    usage: '--allow-all',
   });
 
   for (const perm of permTypes) {
@@ -124,29 +215,45 @@ function buildPermissionSupplement(permTypes: PermissionType[]): DenoArg[] {
     // Friendly names for usage hints
     const hint = n === 'net' ? 'HOST' : n === 'env' ? 'VAR' : n === 'sys' ? 'API' : n === 'run' ? 'PROGRAM' : 'PATH';
     args.push({
-      name: `allow-${n}`, short: null, long: `allow-${n}`, required: false,
+      name: `allow-${n}`,
+      short: null,
+      long: `allow-${n}`,
+      required: false,
       help: `Allow ${n} access. Empty array = allow all.`,
-      help_heading: 'Permissions', usage: `--allow-${n}[=<${hint}>...]`,
+      help_heading: 'Permissions',
+      usage: `--allow-${n}[=<${hint}>...]`,
     });
     args.push({
-      name: `deny-${n}`, short: null, long: `deny-${n}`, required: false,
+      name: `deny-${n}`,
+      short: null,
+      long: `deny-${n}`,
+      required: false,
       help: `Deny ${n} access.`,
-      help_heading: 'Permissions', usage: `--deny-${n}[=<${hint}>...]`,
+      help_heading: 'Permissions',
+      usage: `--deny-${n}[=<${hint}>...]`,
     });
     if (perm.hasIgnore) {
       args.push({
-        name: `ignore-${n}`, short: null, long: `ignore-${n}`, required: false,
+        name: `ignore-${n}`,
+        short: null,
+        long: `ignore-${n}`,
+        required: false,
         help: `Ignore ${n} permission check.`,
-        help_heading: 'Permissions', usage: `--ignore-${n}[=<${hint}>...]`,
+        help_heading: 'Permissions',
+        usage: `--ignore-${n}[=<${hint}>...]`,
       });
     }
   }
 
   // --no-prompt
   args.push({
-    name: 'no-prompt', short: null, long: 'no-prompt', required: false,
+    name: 'no-prompt',
+    short: null,
+    long: 'no-prompt',
+    required: false,
     help: 'Always throw if required permission was not passed.',
-    help_heading: 'Permissions', usage: '--no-prompt',
+    help_heading: 'Permissions',
+    usage: '--no-prompt',
   });
 
   return args;
@@ -154,21 +261,44 @@ function buildPermissionSupplement(permTypes: PermissionType[]): DenoArg[] {
 
 // ─── Type inference ────────────────────────────────────────────────────────────
 
-type ArgStyle = 'flag' | 'boolopt' | 'value' | 'intvalue' | 'longvalue' | 'optvalue' | 'array' | 'optarray';
+export type ArgStyle = (typeof ARG_STYLES)[number];
 
-interface Property {
+export interface Property {
   csName: string;
   csType: string;
   argStyle: ArgStyle;
   flagName: string;
-  xmlDoc: string;
+  xmlDoc: string; // summary line, XML-escaped
+  help: string; // full help text, ANSI stripped
+  usage: string; // clap usage, e.g. `-R, --allow-read[=<PATH>...]`
   heading: string;
+  shortName: string | null;
+  valueEnum: ValueEnum | null;
+  since: string | null; // first Deno version with the flag (history/), null when unknown
+  removedIn: string | null;
+}
+
+// C# enum for a value flag with a closed set of values; the `string?` property stays the source of truth
+export interface ValueEnum {
+  name: string;
+  flagName: string;
+  command: string | null; // set when the value set only applies to one subcommand
+  values: string[];
+  hasDefault: boolean; // optvalue flags: `Default` passes the flag without a value
 }
 
 export function toPascalCase(s: string): string {
   return s.split('-').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join('');
 }
 
+// Any schema or script name as a C# identifier: separators dropped, words capitalized, a leading digit prefixed
+export function toCsIdentifier(s: string): string {
+  const words = s.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+  if (!name) return 'Value';
+  return /^[0-9]/.test(name) ? `Value${name}` : name;
+}
+
 export function escapeXml(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
@@ -176,127 +306,374 @@ export function escapeXml(s: string): string {
 export function argStyleToCsType(style: ArgStyle): string {
   switch (style) {
     case 'flag':
-    case 'boolopt':   return 'bool?';
-    case 'intvalue':  return 'int?';
-    case 'longvalue': return 'long?';
+    case 'boolopt':
+      return 'bool?';
+    case 'intvalue':
+      return 'int?';
+    case 'longvalue':
+      return 'long?';
     case 'array':
-    case 'optarray':  return 'string[]?';
-    default:          return 'string?';
+    case 'optarray':
+      return 'string[]?';
+    default:
+      return 'string?';
   }
 }
 
-// Explicit overrides for flags whose usage hint doesn't match the heuristic.
-// Keyed by the long flag name (without --).
-const ARG_STYLE_OVERRIDES: Partial<Record<string, ArgStyle>> = {
-  'port':          'intvalue',  // <PORT> hint doesn't match NUMBER heuristic
-  'line-width':    'intvalue',  // usage uses a non-NUMBER placeholder
-  'indent-width':  'intvalue',  // same
-  'use-tabs':      'boolopt',   // usage uses [=<true|false>] not [=<BOOLEAN>]
-  'single-quote':  'boolopt',
-  'no-semicolons': 'boolopt',
-};
-
-export function inferProperty(arg: DenoArg): Property | null {
+export function inferProperty(arg: DenoArg, command = ''): Property | null {
   if (!arg.long) return null;
 
-  const overrideStyle = ARG_STYLE_OVERRIDES[arg.long];
-  if (overrideStyle !== undefined) {
-    return {
-      csName: toPascalCase(arg.long),
-      csType: argStyleToCsType(overrideStyle),
-      argStyle: overrideStyle,
-      flagName: `--${arg.long}`,
-      xmlDoc: arg.help ? escapeXml(arg.help.split('\n')[0]) : '',
-      heading: arg.help_heading ?? 'General',
-    };
-  }
-
-  const usage = arg.usage;
-  const upper = usage.toUpperCase();
-
-  let argStyle: ArgStyle;
-  if (upper.includes('BOOLEAN')) {
-    argStyle = 'boolopt';
-  } else if (!usage.includes('<') && !usage.includes('[=')) {
-    argStyle = 'flag';
-  } else if (upper.includes('MICROSECOND')) {
-    argStyle = 'longvalue';
-  } else if (upper.includes('NUMBER') || upper.includes('PERCENT') || upper.includes('INDEX/COUNT')) {
-    argStyle = 'intvalue';
-  } else if (usage.includes('...')) {
-    argStyle = /\[=?</.test(usage) ? 'optarray' : 'array';
-  } else if (/\[=?</.test(usage)) {
-    argStyle = 'optvalue';
-  } else {
-    argStyle = 'value';
-  }
+  const argStyle = CONFIG.argStyles[arg.long] ?? inferArgStyle(arg.usage);
+  const valueEnum = argStyle === 'value' || argStyle === 'optvalue'
+    ? buildValueEnum(arg, command, argStyle === 'optvalue')
+    : null;
+  const help = plainHelp(arg.help);
 
   return {
     csName: toPascalCase(arg.long),
     csType: argStyleToCsType(argStyle),
     argStyle,
     flagName: `--${arg.long}`,
-    xmlDoc: arg.help ? escapeXml(arg.help.split('\n')[0]) : '',
+    xmlDoc: escapeXml(help.split('\n')[0]),
+    help,
+    usage: arg.usage,
     heading: arg.help_heading ?? 'General',
+    shortName: arg.short,
+    valueEnum,
+    since: null,
+    removedIn: null,
   };
 }
 
+export function inferArgStyle(usage: string): ArgStyle {
+  const upper = usage.toUpperCase();
+  if (upper.includes('BOOLEAN')) return 'boolopt';
+  if (!usage.includes('<') && !usage.includes('[=')) return 'flag';
+  if (upper.includes('MICROSECOND')) return 'longvalue';
+  if (upper.includes('NUMBER') || upper.includes('PERCENT') || upper.includes('INDEX/COUNT')) return 'intvalue';
+  if (usage.includes('...')) return /\[=?</.test(usage) ? 'optarray' : 'array';
+  if (/\[=?</.test(usage)) return 'optvalue';
+  return 'value';
+}
+
+// ─── Closed value sets ────────────────────────────────────────────────────────
+
+// Reads a closed value set from the reference: clap metadata, `<a|b|c>` usage or `[possible values: …]` help text.
+export function referenceValueSet(arg: DenoArg): string[] | null {
+  if (arg.possible_values?.length) return arg.possible_values;
+  const usage = arg.usage.match(/<([^<>|]+(?:\|[^<>|]+)+)>/);
+  if (usage) return usage[1].split('|').map((v) => v.trim());
+  // deno-lint-ignore no-control-regex
+  const help = arg.help?.replace(/\x1b\[[0-9;]*m/g, '').match(/\[possible values: ([^\]]+)\]/);
+  if (help) return help[1].split(',').map((v) => v.trim());
+  return null;
+}
+
+// valueSets entries override the reference: scoped entry, then unscoped entry, then reference metadata.
+export function buildValueEnum(arg: DenoArg, command: string, hasDefault: boolean): ValueEnum | null {
+  const long = arg.long!;
+  const scoped = CONFIG.valueSets[`${command} ${long}`];
+  const unscoped = CONFIG.valueSets[long];
+  const values = scoped !== undefined ? scoped : unscoped !== undefined ? unscoped : referenceValueSet(arg);
+  // true/false sets are booleans, handled by the boolopt style
+  if (!values || values.every((v) => v === 'true' || v === 'false')) return null;
+  if (hasDefault && values.some((v) => toCsIdentifier(v) === 'Default')) {
+    throw new Error(`--${long}: value 'default' clashes with the generated Default member`);
+  }
+
+  const isScoped = scoped !== undefined;
+  return {
+    name: `${isScoped ? toPascalCase(command) : ''}${toPascalCase(long)}Option`,
+    flagName: `--${long}`,
+    command: isScoped ? command : null,
+    values,
+    hasDefault,
+  };
+}
+
+export function renderValueEnum(en: ValueEnum, denoVersion: string): string {
+  const scope = en.command ? ` for <c>deno ${en.command}</c>` : '';
+  const lines: string[] = [];
+  lines.push('// <auto-generated/>');
+  lines.push('// Generated by tools/gen-commands/generate.ts');
+  lines.push(`// Source: \`deno json_reference\` (Deno ${denoVersion})`);
+  lines.push('// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.');
+  lines.push('#nullable enable');
+  lines.push('');
+  lines.push('using System;');
+  lines.push('');
+  lines.push('namespace DenoHost.Core.Commands;');
+  lines.push('');
+  lines.push(`/// <summary>Values accepted by <c>${en.flagName}</c>${scope}.</summary>`);
+  lines.push(`public enum ${en.name}`);
+  lines.push('{');
+  if (en.hasDefault) {
+    lines.push(`  /// <summary>Passes <c>${en.flagName}</c> without a value.</summary>`);
+    lines.push('  Default,');
+  }
+  for (const value of en.values) {
+    lines.push(`  /// <summary><c>${en.flagName}=${escapeXml(value)}</c></summary>`);
+    lines.push(`  ${toCsIdentifier(value)},`);
+  }
+  lines.push('}');
+  lines.push('');
+  lines.push(`internal static class ${en.name}Extensions`);
+  lines.push('{');
+  lines.push(`  internal static string ToArg(this ${en.name} value) => value switch`);
+  lines.push('  {');
+  if (en.hasDefault) lines.push(`    ${en.name}.Default => "",`);
+  for (const value of en.values) {
+    lines.push(`    ${en.name}.${toCsIdentifier(value)} => "${value}",`);
+  }
+  lines.push('    _ => throw new ArgumentOutOfRangeException(nameof(value), value, null),');
+  lines.push('  };');
+  lines.push('');
+  lines.push(`  internal static bool TryFromArg(string arg, out ${en.name} value)`);
+  lines.push('  {');
+  lines.push('    switch (arg)');
+  lines.push('    {');
+  if (en.hasDefault) lines.push(`      case "": value = ${en.name}.Default; return true;`);
+  for (const value of en.values) {
+    lines.push(`      case "${value}": value = ${en.name}.${toCsIdentifier(value)}; return true;`);
+  }
+  lines.push('      default: value = default; return false;');
+  lines.push('    }');
+  lines.push('  }');
+  lines.push('}');
+  return lines.join('\n');
+}
+
 // ─── C# code generation ───────────────────────────────────────────────────────
 
-function renderProperty(prop: Property): string {
+// Full help as <remarks>, plus the usage line and short alias; the same data goes into [DenoFlag] for runtime use.
+export function renderProperty(prop: Property): string {
+  const doc = helpToXmlDoc(prop.help);
+  const alias = prop.shortName ? ` (short alias <c>-${escapeXml(prop.shortName)}</c>)` : '';
+
+  const attribute = [csStringLiteral(prop.flagName)];
+  if (prop.shortName) attribute.push(`ShortAlias = ${csStringLiteral(`-${prop.shortName}`)}`);
+  attribute.push(`Usage = ${csStringLiteral(prop.usage)}`);
+  attribute.push(`Heading = ${csStringLiteral(prop.heading)}`);
+  if (prop.help) attribute.push(`Help = ${csStringLiteral(prop.help)}`);
+  if (prop.since) attribute.push(`Since = ${csStringLiteral(prop.since)}`);
+  if (prop.removedIn) attribute.push(`RemovedIn = ${csStringLiteral(prop.removedIn)}`);
+
   const lines: string[] = [];
-  if (prop.xmlDoc) lines.push(`  /// <summary>${prop.xmlDoc}</summary>`);
+  if (doc.summary) lines.push(`  /// <summary>${doc.summary}</summary>`);
+  lines.push('  /// <remarks>');
+  for (const line of doc.remarks) lines.push(`  /// ${line}`);
+  lines.push(`  /// <para>Usage: <c>${escapeXml(prop.usage)}</c>${alias}</para>`);
+  if (prop.since || prop.removedIn) lines.push(`  /// <para>${availabilityText(prop)}</para>`);
+  lines.push('  /// </remarks>');
+  lines.push(`  [DenoFlag(${attribute.join(', ')})]`);
   lines.push(`  public ${prop.csType} ${prop.csName} { get; set; }`);
+  if (prop.valueEnum) lines.push('', ...renderEnumView(prop, prop.valueEnum));
   return lines.join('\n');
 }
 
+// Typed view of a closed-set property. The string stays authoritative, so values Deno adds later still pass through.
+function renderEnumView(prop: Property, en: ValueEnum): string[] {
+  const n = prop.csName;
+  return [
+    `  /// <summary>Typed view of <see cref="${n}"/>: <c>null</c> when it is unset or holds a value not in <see cref="${en.name}"/>.</summary>`,
+    `  public ${en.name}? ${n}Option { get => ${n} is { } arg && ${en.name}Extensions.TryFromArg(arg, out var value) ? value : null; set => ${n} = value?.ToArg(); }`,
+  ];
+}
+
+function availabilityText(prop: Property): string {
+  const since = prop.since ? `Available since Deno ${prop.since}.` : '';
+  const removed = prop.removedIn ? `Removed in Deno ${prop.removedIn}.` : '';
+  return [since, removed].filter(Boolean).join(' ');
+}
+
+// Checks the flags in use against the detected Deno version (DenoVersionCheck.cs) before ToArgs() runs
+export function renderCheckVersion(command: string, props: Property[]): string[] {
+  const versioned = props.filter((p) => p.since || p.removedIn);
+  const lines: string[] = [];
+  if (versioned.length === 0) {
+    lines.push('  internal bool UsesVersionedFlags => false;');
+    lines.push('');
+    lines.push('  internal void CheckVersion(DenoVersionCheck? versionCheck) { }');
+    return lines;
+  }
+  // Callers only detect the Deno version (a `deno --version` run) when this is true
+  lines.push('  internal bool UsesVersionedFlags =>');
+  versioned.forEach((p, i) => {
+    lines.push(`    ${i === 0 ? '' : '|| '}${isSetExpression(p)}${i === versioned.length - 1 ? ';' : ''}`);
+  });
+  lines.push('');
+  const literal = (v: string | null) => (v ? `"${v}"` : 'null');
+  lines.push('  internal void CheckVersion(DenoVersionCheck? versionCheck)');
+  lines.push('  {');
+  lines.push('    if (versionCheck is null) return;');
+  lines.push('    var problems = new List<string>();');
+  for (const p of versioned) {
+    lines.push(
+      `    if (${isSetExpression(p)}) versionCheck.Check(problems, "${p.flagName}", ${literal(p.since)}, ${
+        literal(p.removedIn)
+      });`,
+    );
+  }
+  lines.push(`    versionCheck.Report("${command}", problems);`);
+  lines.push('  }');
+  return lines;
+}
+
 export function renderToArgsLine(prop: Property): string {
   const n = prop.csName;
   const f = prop.flagName;
   switch (prop.argStyle) {
-    case 'flag': return `    if (${n} == true) args.Add("${f}");`;
-    case 'boolopt': return `    if (${n}.HasValue) args.Add(${n}.Value ? "${f}" : "${f}=false");`;
-    case 'value': return `    if (${n} is not null) { args.Add("${f}"); args.Add(${n}); }`;
+    case 'flag':
+      return `    if (${n} == true) args.Add("${f}");`;
+    case 'boolopt':
+      return `    if (${n}.HasValue) args.Add(${n}.Value ? "${f}" : "${f}=false");`;
+    case 'value':
+      return `    if (${n} is not null) { args.Add("${f}"); args.Add(${n}); }`;
     case 'intvalue':
-    case 'longvalue': return `    if (${n}.HasValue) { args.Add("${f}"); args.Add(${n}.Value.ToString(CultureInfo.InvariantCulture)); }`;
-    case 'optvalue': return `    if (${n} is not null) { if (${n}.Length == 0) args.Add("${f}"); else args.Add(string.Concat("${f}=", ${n})); }`;
-    case 'array': return `    if (${n} is { Length: > 0 }) { args.Add("${f}"); args.Add(string.Join(",", ${n})); }`;
-    case 'optarray': return `    if (${n} is not null) { if (${n}.Length == 0) args.Add("${f}"); else { args.Add("${f}"); args.Add(string.Join(",", ${n})); } }`;
+    case 'longvalue':
+      return `    if (${n}.HasValue) { args.Add("${f}"); args.Add(${n}.Value.ToString(CultureInfo.InvariantCulture)); }`;
+    case 'optvalue':
+      return `    if (${n} is not null) { if (${n}.Length == 0) args.Add("${f}"); else args.Add(string.Concat("${f}=", ${n})); }`;
+    case 'array':
+      return `    if (${n} is { Length: > 0 }) { args.Add("${f}"); args.Add(string.Join(",", ${n})); }`;
+    case 'optarray':
+      return `    if (${n} is not null) { if (${n}.Length == 0) args.Add("${f}"); else args.Add(string.Concat("${f}=", string.Join(",", ${n}))); }`;
   }
 }
 
-function generateOptionsClass(
+// One `case` of the generated TryParse switch; mirrors renderToArgsLine.
+export function renderParseCase(prop: Property): string {
+  const n = `result.${prop.csName}`;
+  const head = `        case "${prop.flagName}": `;
+  switch (prop.argStyle) {
+    case 'flag':
+      return `${head}${n} = reader.ReadFlag(); break;`;
+    case 'boolopt':
+      return `${head}${n} = reader.ReadBoolean(); break;`;
+    case 'value':
+      return `${head}${n} = reader.ReadValue(); break;`;
+    case 'intvalue':
+      return `${head}${n} = reader.ReadInt32(); break;`;
+    case 'longvalue':
+      return `${head}${n} = reader.ReadInt64(); break;`;
+    case 'optvalue':
+      return `${head}${n} = reader.ReadOptionalValue(); break;`;
+    case 'array':
+      return `${head}${n} = DenoArgsReader.Concat(${n}, reader.ReadArray()); break;`;
+    case 'optarray':
+      return `${head}${n} = DenoArgsReader.Concat(${n}, reader.ReadOptionalArray()); break;`;
+  }
+}
+
+function renderParseMethods(cmd: CommandConfig, className: string, props: Property[]): string[] {
+  const aliases = props.filter((p) => p.shortName).map((p) => `['${p.shortName}'] = "${p.flagName}"`);
+  const stopAtPositional = cmd.positional[0]?.entryPoint === true;
+  const lines: string[] = [];
+  lines.push(
+    `  private static readonly Dictionary<char, string> ShortAliases = new()${
+      aliases.length ? ` { ${aliases.join(', ')} }` : ''
+    };`,
+  );
+  lines.push('');
+  lines.push(
+    `  /// <summary>Parses a <c>deno ${cmd.name}</c> argument list (without the subcommand) back into options.</summary>`,
+  );
+  lines.push(
+    '  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>',
+  );
+  lines.push(`  public static ${className} Parse(string[] args) => Parse(args, out _);`);
+  lines.push('');
+  lines.push(
+    `  /// <summary>Parses a <c>deno ${cmd.name}</c> argument list (without the subcommand) back into options.</summary>`,
+  );
+  lines.push('  /// <param name="args">The arguments that follow the subcommand name on the command line.</param>');
+  lines.push(
+    stopAtPositional
+      ? '  /// <param name="positionals">The entry point and every token after it, plus anything after <c>--</c>.</param>'
+      : '  /// <param name="positionals">Non-flag tokens in order, including <c>--</c> and everything after it.</param>',
+  );
+  lines.push(
+    '  /// <exception cref="FormatException">The list contains unknown flags or malformed values.</exception>',
+  );
+  lines.push(`  public static ${className} Parse(string[] args, out string[] positionals)`);
+  lines.push('  {');
+  lines.push('    if (!TryParse(args, out var options, out positionals, out var errors))');
+  lines.push(`      throw new FormatException($"Invalid arguments for deno ${cmd.name}: {string.Join(" ", errors)}");`);
+  lines.push('    return options;');
+  lines.push('  }');
+  lines.push('');
+  lines.push(
+    `  /// <summary>Tries to parse a <c>deno ${cmd.name}</c> argument list (without the subcommand) back into options.</summary>`,
+  );
+  lines.push(`  public static bool TryParse(string[] args, [NotNullWhen(true)] out ${className}? options)`);
+  lines.push('    => TryParse(args, out options, out _, out _);');
+  lines.push('');
+  lines.push(
+    `  /// <summary>Tries to parse a <c>deno ${cmd.name}</c> argument list (without the subcommand) back into options.</summary>`,
+  );
+  lines.push('  /// <param name="errors">One message per unknown flag or malformed value; empty on success.</param>');
+  lines.push(
+    `  public static bool TryParse(string[] args, [NotNullWhen(true)] out ${className}? options, out string[] positionals, out string[] errors)`,
+  );
+  lines.push('  {');
+  lines.push('    ArgumentNullException.ThrowIfNull(args);');
+  lines.push(`    var result = new ${className}();`);
+  lines.push(`    var reader = new DenoArgsReader(args, ShortAliases, stopAtPositional: ${stopAtPositional});`);
+  lines.push('    while (reader.MoveNext())');
+  lines.push('    {');
+  lines.push('      switch (reader.Flag)');
+  lines.push('      {');
+  for (const prop of props) lines.push(renderParseCase(prop));
+  lines.push('        default: reader.ReportUnknown(); break;');
+  lines.push('      }');
+  lines.push('    }');
+  lines.push('    positionals = reader.Positionals;');
+  lines.push('    errors = reader.Errors;');
+  lines.push('    options = errors.Length == 0 ? result : null;');
+  lines.push('    return options is not null;');
+  lines.push('  }');
+  return lines;
+}
+
+// Flag-bearing args of one subcommand as emitted into its options class: permissions first, then json_reference
+export function optionsArgs(cmd: CommandConfig, subcmd: DenoSubcommand, permSupplement: DenoArg[]): DenoArg[] {
+  const sourceArgs = [...(cmd.hasPermissions ? permSupplement : []), ...subcmd.args];
+  // Skip excluded flags and positionals (usage not starting with -)
+  return sourceArgs.filter((a) => a.long && !SKIP_FLAGS.has(a.long) && a.usage.startsWith('-'));
+}
+
+export function buildOptionsProperties(
   cmd: CommandConfig,
   subcmd: DenoSubcommand,
   permSupplement: DenoArg[],
+  history: HistorySnapshot[] = [],
+  denoVersion = '',
+): Property[] {
+  return optionsArgs(cmd, subcmd, permSupplement)
+    .map((a) => inferProperty(a, cmd.name))
+    .filter((p): p is Property => p !== null)
+    .map((p) => ({ ...p, ...flagAvailability(history, denoVersion, cmd.name, p.flagName.slice(2)) }));
+}
+
+/** First line of the subcommand's `about`, without ANSI codes. */
+export function commandSummary(subcmd: DenoSubcommand): string {
+  return plainHelp(subcmd.about).split('\n')[0].trim();
+}
+
+function generateOptionsClass(
+  cmd: CommandConfig,
+  subcmd: DenoSubcommand,
+  allProps: Property[],
+  rules: ValidationRule[],
   denoVersion: string,
 ): string {
   const className = `${toPascalCase(cmd.name)}Options`;
 
-  // Build full arg list: permissions first, then json_reference args
-  const sourceArgs: DenoArg[] = [
-    ...(cmd.hasPermissions ? permSupplement : []),
-    ...subcmd.args,
-  ];
-
-  // Filter: skip excluded flags and positionals (usage not starting with -)
-  const filtered = sourceArgs.filter((a) => {
-    if (!a.long) return false;
-    if (SKIP_FLAGS.has(a.long)) return false;
-    if (!a.usage.startsWith('-')) return false;
-    return true;
-  });
-
-  // Map to properties and group by heading
+  // Group by heading
   const groups = new Map<string, Property[]>();
-  const allProps: Property[] = [];
-
-  for (const arg of filtered) {
-    const prop = inferProperty(arg);
-    if (!prop) continue;
+  for (const prop of allProps) {
     if (!groups.has(prop.heading)) groups.set(prop.heading, []);
     groups.get(prop.heading)!.push(prop);
-    allProps.push(prop);
   }
 
   const lines: string[] = [];
@@ -306,17 +683,20 @@ function generateOptionsClass(
   lines.push('// Do not edit manually — run `deno task generate` in tools/gen-commands/ to regenerate.');
   lines.push('#nullable enable');
   lines.push('');
+  lines.push('using System;');
   lines.push('using System.Collections.Generic;');
+  lines.push('using System.Diagnostics.CodeAnalysis;');
   lines.push('using System.Globalization;');
   lines.push('');
   lines.push('namespace DenoHost.Core.Commands;');
   lines.push('');
 
-  const firstLine = subcmd.about?.split('\n')[0].replace(/\s*\[[^m]*m/g, '').trim() ?? '';
+  const firstLine = commandSummary(subcmd);
   const summary = firstLine
     ? `Options for <c>deno ${cmd.name}</c>. ${escapeXml(firstLine)}`
     : `Options for <c>deno ${cmd.name}</c>.`;
   lines.push(`/// <summary>${summary}</summary>`);
+  lines.push(`/// <seealso href="${docsUrl(cmd.name)}"/>`);
   lines.push(`public sealed class ${className}`);
   lines.push('{');
 
@@ -331,7 +711,12 @@ function generateOptionsClass(
     lines.push('');
   }
 
-  lines.push('  internal string[] ToArgs()');
+  lines.push(...renderValidateMethod(cmd.name, rules, allProps));
+  lines.push('');
+  lines.push(
+    `  /// <summary>The <c>deno ${cmd.name}</c> arguments these options stand for (without the subcommand).</summary>`,
+  );
+  lines.push('  public string[] ToArgs()');
   lines.push('  {');
   lines.push('    var args = new List<string>();');
   for (const prop of allProps) {
@@ -339,6 +724,10 @@ function generateOptionsClass(
   }
   lines.push('    return [.. args];');
   lines.push('  }');
+  lines.push('');
+  lines.push(...renderCheckVersion(cmd.name, allProps));
+  lines.push('');
+  lines.push(...renderParseMethods(cmd, className, allProps));
   lines.push('}');
 
   return lines.join('\n');
@@ -359,7 +748,7 @@ function buildNullChecks(positional: CommandConfig['positional']): string[] {
     });
 }
 
-function generateDenoCommandsPartial(ref: DenoReference, denoVersion: string): string {
+function generateDenoCommandsPartial(ref: DenoReference, commands: CommandConfig[], denoVersion: string): string {
   const lines: string[] = [];
   lines.push('// <auto-generated/>');
   lines.push(`// Generated by tools/gen-commands/generate.ts`);
@@ -378,7 +767,7 @@ function generateDenoCommandsPartial(ref: DenoReference, denoVersion: string): s
   lines.push('public static partial class Deno');
   lines.push('{');
 
-  for (const cmd of COMMANDS) {
+  for (const cmd of commands) {
     const subcmd = ref.subcommands.find((s) => s.name === cmd.name);
     if (!subcmd) continue;
 
@@ -387,7 +776,12 @@ function generateDenoCommandsPartial(ref: DenoReference, denoVersion: string): s
 
     // Build parameter list
     const positionalParams = cmd.positional.map((p) => p.csParam).join(', ');
-    const allParamStr = [positionalParams, `${optClass}? options = null`, 'DenoExecuteBaseOptions? baseOptions = null', 'CancellationToken cancellationToken = default']
+    const allParamStr = [
+      positionalParams,
+      `${optClass}? options = null`,
+      'DenoExecuteBaseOptions? baseOptions = null',
+      'CancellationToken cancellationToken = default',
+    ]
       .filter(Boolean)
       .join(', ');
 
@@ -401,17 +795,31 @@ function generateDenoCommandsPartial(ref: DenoReference, denoVersion: string): s
     const delegateArgs = [...positionalArgNames, 'options', 'baseOptions', 'cancellationToken'].join(', ');
 
     lines.push(`  /// <summary>Executes <c>deno ${cmd.name}</c>.</summary>`);
+    lines.push(`  /// <seealso href="${docsUrl(cmd.name)}"/>`);
     lines.push(`  public static Task ${methodName}(${allParamStr})`);
     lines.push(`    => ${methodName}<string>(${delegateArgs});`);
     lines.push('');
-    lines.push(`  /// <summary>Executes <c>deno ${cmd.name}</c> and deserializes stdout as <typeparamref name="T"/>.</summary>`);
-    lines.push(`  public static Task<T> ${methodName}<T>(${allParamStr})`);
+    lines.push(
+      `  /// <summary>Executes <c>deno ${cmd.name}</c> and deserializes stdout as <typeparamref name="T"/>.</summary>`,
+    );
+    lines.push(`  /// <seealso href="${docsUrl(cmd.name)}"/>`);
+    lines.push(`  public static async Task<T> ${methodName}<T>(${allParamStr})`);
     lines.push('  {');
     if (nullChecks.length > 0) lines.push(nullChecks.join('\n'));
     lines.push('    var args = new List<string>();');
-    lines.push('    if (options != null) args.AddRange(options.ToArgs());');
+    lines.push('    if (options != null)');
+    lines.push('    {');
+    lines.push('      options.Validate();');
+    lines.push(
+      '      if (options.UsesVersionedFlags)',
+      '        options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));',
+    );
+    lines.push('      args.AddRange(options.ToArgs());');
+    lines.push('    }');
     lines.push(positionalAppends);
-    lines.push(`    return ExecuteCore<T>("${cmd.name}", [.. args], baseOptions, null, null, cancellationToken);`);
+    lines.push(
+      `    return await ExecuteCore<T>("${cmd.name}", [.. args], baseOptions, null, null, cancellationToken).ConfigureAwait(false);`,
+    );
     lines.push('  }');
     lines.push('');
   }
@@ -420,11 +828,13 @@ function generateDenoCommandsPartial(ref: DenoReference, denoVersion: string): s
   return lines.join('\n');
 }
 
-// Commands for which DenoProcess factory methods are generated (long-running only)
-const PROCESS_COMMAND_NAMES = new Set(['run', 'serve', 'task']);
+// DenoProcess factories: every watch-capable subcommand, plus the long-running ones listed in processCommands
+export function isProcessCommand(cmd: CommandConfig): boolean {
+  return cmd.hasWatch || CONFIG.processCommands.includes(cmd.name);
+}
 
-function generateDenoProcessCommandsPartial(denoVersion: string): string {
-  const processCommands = COMMANDS.filter((c) => PROCESS_COMMAND_NAMES.has(c.name));
+function generateDenoProcessCommandsPartial(commands: CommandConfig[], denoVersion: string): string {
+  const processCommands = commands.filter(isProcessCommand);
 
   const lines: string[] = [];
   lines.push('// <auto-generated/>');
@@ -456,15 +866,21 @@ function generateDenoProcessCommandsPartial(denoVersion: string): string {
     const positionalAppends = cmd.positional.map((p) => `    ${p.append}`).join('\n');
 
     lines.push(`  /// <summary>Creates a <see cref="DenoProcess"/> for <c>deno ${cmd.name}</c>.</summary>`);
+    lines.push(`  /// <seealso href="${docsUrl(cmd.name)}"/>`);
     lines.push(`  public static DenoProcess ${methodName}(${allParamStr})`);
     lines.push('  {');
     if (nullChecks.length > 0) lines.push(nullChecks.join('\n'));
     lines.push(`    var args = new List<string> { "${cmd.name}" };`);
-    lines.push('    if (options != null) args.AddRange(options.ToArgs());');
+    lines.push('    if (options != null) { options.Validate(); args.AddRange(options.ToArgs()); }');
     lines.push(positionalAppends);
-    lines.push('    return baseOptions != null');
+    lines.push('    var process = baseOptions != null');
     lines.push('      ? new DenoProcess(baseOptions, [.. args])');
     lines.push('      : new DenoProcess([.. args]);');
+    lines.push('    if (options is { UsesVersionedFlags: true })');
+    lines.push(
+      '      process.BeforeStart = async cancellationToken => options.CheckVersion(await DenoVersionCheck.ForAsync(baseOptions, cancellationToken).ConfigureAwait(false));',
+    );
+    lines.push('    return process;');
     lines.push('  }');
     lines.push('');
   }
@@ -473,18 +889,45 @@ function generateDenoProcessCommandsPartial(denoVersion: string): string {
   return lines.join('\n');
 }
 
+// One enum per closed value set; flags sharing a name must share the set unless a scoped valueSets entry separates them.
+export function collectValueEnums(commandArgs: Record<string, DenoArg[]>): ValueEnum[] {
+  const enums = new Map<string, { en: ValueEnum; command: string }>();
+  for (const [command, args] of Object.entries(commandArgs)) {
+    for (const arg of args) {
+      const en = inferProperty(arg, command)?.valueEnum;
+      if (!en) continue;
+      const seen = enums.get(en.name);
+      if (!seen) {
+        enums.set(en.name, { en, command });
+      } else if (seen.en.values.join('|') !== en.values.join('|') || seen.en.hasDefault !== en.hasDefault) {
+        throw new Error(
+          `${en.flagName} accepts different values in \`deno ${seen.command}\` and \`deno ${command}\`. ` +
+            `Add a '${command} ${arg.long}' entry to valueSets in generator.config.jsonc.`,
+        );
+      }
+    }
+  }
+  return [...enums.values()].map((e) => e.en);
+}
+
+// Flag-bearing args per generated command (permissions first), as emitted into the options classes.
+export function collectCommandArgs(ref: DenoReference, permSupplement: DenoArg[]): Record<string, DenoArg[]> {
+  const result: Record<string, DenoArg[]> = {};
+  for (const cmd of buildCommands(ref)) {
+    const subcmd = ref.subcommands.find((s) => s.name === cmd.name);
+    if (!subcmd) continue;
+    result[cmd.name] = optionsArgs(cmd, subcmd, permSupplement);
+  }
+  return result;
+}
+
 function generateSnapshot(ref: DenoReference, permSupplement: DenoArg[]): string {
   // Reduced snapshot: only the commands we care about, only flag names.
   // Used by DenoCommandsSchemaTests to detect when deno json_reference or the
   // permission schema diverges from what was generated.
   const snapshot: Record<string, string[]> = {};
-  for (const cmd of COMMANDS) {
-    const subcmd = ref.subcommands.find((s) => s.name === cmd.name);
-    if (!subcmd) continue;
-    const sourceArgs = [...(cmd.hasPermissions ? permSupplement : []), ...subcmd.args];
-    snapshot[cmd.name] = sourceArgs
-      .filter((a) => a.long && !SKIP_FLAGS.has(a.long) && a.usage.startsWith('-'))
-      .map((a) => a.long!);
+  for (const [command, args] of Object.entries(collectCommandArgs(ref, permSupplement))) {
+    snapshot[command] = args.map((a) => a.long!);
   }
   return JSON.stringify({ commands: snapshot }, null, 2);
 }
@@ -492,56 +935,139 @@ function generateSnapshot(ref: DenoReference, permSupplement: DenoArg[]): string
 // ─── Main ────────────────────────────────────────────────────────────────────
 
 async function main() {
-  // 1. Get deno version
-  const versionProc = new Deno.Command('deno', { args: ['--version'], stdout: 'piped' });
-  const { stdout: versionOut } = await versionProc.output();
-  const denoVersion = new TextDecoder().decode(versionOut).match(/deno (\S+)/)?.[1] ?? 'unknown';
+  // 1–2. Get deno version, `deno json_reference` and the config schema (live or from snapshots)
+  // The previous snapshots are read first — refresh mode overwrites them.
+  const mode = parseGeneratorMode(Deno.args);
+  const failOnBreaking = Deno.args.includes('--fail-on-breaking');
+  const driftBase = parseDriftBase(Deno.args);
+  const previousRef = await readReferenceSnapshot();
+  const previousSchema = await readSchemaSnapshot();
+  const { denoVersion, reference: ref, schema } = await loadSources(mode);
   console.log(`Deno version: ${denoVersion}`);
 
-  // 2. Run deno json_reference
-  const refProc = new Deno.Command('deno', { args: ['json_reference'], stdout: 'piped' });
-  const { stdout: refOut, success } = await refProc.output();
-  if (!success) throw new Error('deno json_reference failed');
-  const ref: DenoReference = JSON.parse(new TextDecoder().decode(refOut));
-
   // 3. Get permission types from JSON schema
-  const permTypes = await fetchPermissionTypes(denoVersion);
+  const permTypes = getPermissionTypes(schema);
   console.log(`Permission types: ${permTypes.map((p) => p.name + (p.hasIgnore ? '+ignore' : '')).join(', ')}`);
   const permSupplement = buildPermissionSupplement(permTypes);
 
+  // 3b. Check generator.config.jsonc against the reference
+  const overrides = checkOverrides(CONFIG, ref, permSupplement);
+  console.log(`Overrides: ${overrides.applied.length} applied, ${overrides.stale.length} stale`);
+  for (const line of renderOverrideReport(overrides)) console.log(line);
+  if (overrides.stale.length > 0 && Deno.args.includes('--fail-on-stale-overrides')) {
+    console.error('Stale overrides in generator.config.jsonc (--fail-on-stale-overrides).');
+    Deno.exit(3);
+  }
+
   // 4. Ensure output directory
   await Deno.mkdir(OUTPUT_DIR, { recursive: true });
 
-  // 5. Generate options classes
-  for (const cmd of COMMANDS) {
-    const subcmd = ref.subcommands.find((s) => s.name === cmd.name);
-    if (!subcmd) {
-      console.warn(`  Warning: subcommand '${cmd.name}' not found in json_reference — skipping.`);
-      continue;
-    }
+  // 5. Generate options classes for every subcommand
+  const commands = buildCommands(ref);
+  for await (const entry of Deno.readDir(OUTPUT_DIR)) {
+    if (entry.isFile && /Options?\.g\.cs$/.test(entry.name)) await Deno.remove(join(OUTPUT_DIR, entry.name));
+  }
+  const validationOverrides = await readValidationOverrides();
+  await writeHistorySnapshot(toHistorySnapshot(ref, denoVersion));
+  await writeReferenceArchive({ denoVersion, reference: ref });
+  const history = await readHistory();
+  const schemaSources: OptionsSchemaSource[] = [];
+  for (const cmd of commands) {
+    const subcmd = ref.subcommands.find((s) => s.name === cmd.name)!;
     const className = `${toPascalCase(cmd.name)}Options`;
-    const content = generateOptionsClass(cmd, subcmd, permSupplement, denoVersion);
+    const properties = buildOptionsProperties(cmd, subcmd, permSupplement, history, denoVersion);
+    const rules = buildValidationRules(cmd.name, optionsArgs(cmd, subcmd, permSupplement), validationOverrides);
+    const content = generateOptionsClass(cmd, subcmd, properties, rules, denoVersion);
     const outPath = join(OUTPUT_DIR, `${className}.g.cs`);
     await Deno.writeTextFile(outPath, content + '\n');
     console.log(`  Generated ${className}.g.cs`);
+    schemaSources.push({ command: cmd.name, className, summary: commandSummary(subcmd), properties });
+  }
+
+  // 5b. JSON Schemas for the options classes (one per class plus a combined one)
+  await Deno.mkdir(SCHEMA_OUTPUT_DIR, { recursive: true });
+  for await (const entry of Deno.readDir(SCHEMA_OUTPUT_DIR)) {
+    if (entry.isFile && entry.name.endsWith('.schema.json')) await Deno.remove(join(SCHEMA_OUTPUT_DIR, entry.name));
+  }
+  for (const source of schemaSources) {
+    const schema = buildOptionsSchema(source);
+    await Deno.writeTextFile(
+      join(SCHEMA_OUTPUT_DIR, `${source.className}.schema.json`),
+      JSON.stringify(schema, null, 2) + '\n',
+    );
+  }
+  const combinedSchema = buildCombinedOptionsSchema(schemaSources, denoVersion);
+  await Deno.writeTextFile(
+    join(SCHEMA_OUTPUT_DIR, COMBINED_SCHEMA_FILE),
+    JSON.stringify(combinedSchema, null, 2) + '\n',
+  );
+  console.log(`  Generated ${schemaSources.length} options schemas + ${COMBINED_SCHEMA_FILE} → ${SCHEMA_OUTPUT_DIR}`);
+
+  // 6. Generate one enum per closed value set
+  for (const en of collectValueEnums(collectCommandArgs(ref, permSupplement))) {
+    await Deno.writeTextFile(join(OUTPUT_DIR, `${en.name}.g.cs`), renderValueEnum(en, denoVersion) + '\n');
+    console.log(`  Generated ${en.name}.g.cs`);
   }
 
-  // 6. Generate Deno.Commands.g.cs
-  const denoCommandsContent = generateDenoCommandsPartial(ref, denoVersion);
+  // 7. Generate Deno.Commands.g.cs
+  const denoCommandsContent = generateDenoCommandsPartial(ref, commands, denoVersion);
   await Deno.writeTextFile(join(OUTPUT_DIR, 'Deno.Commands.g.cs'), denoCommandsContent + '\n');
   console.log('  Generated Deno.Commands.g.cs');
 
-  // 7. Generate DenoProcess.Commands.g.cs
-  const denoProcessCommandsContent = generateDenoProcessCommandsPartial(denoVersion);
+  // 8. Generate DenoProcess.Commands.g.cs
+  const denoProcessCommandsContent = generateDenoProcessCommandsPartial(commands, denoVersion);
   await Deno.writeTextFile(join(OUTPUT_DIR, 'DenoProcess.Commands.g.cs'), denoProcessCommandsContent + '\n');
   console.log('  Generated DenoProcess.Commands.g.cs');
 
-  // 8. Save snapshot (for test validation)
+  // 8b. Generate DenoEnvironment.g.cs from the documented environment variables
+  const envProperties = buildEnvProperties(ref.env ?? [], CONFIG.environment);
+  await Deno.writeTextFile(
+    join(OUTPUT_DIR, 'DenoEnvironment.g.cs'),
+    renderDenoEnvironment(envProperties, denoVersion) + '\n',
+  );
+  console.log(`  Generated DenoEnvironment.g.cs (${envProperties.length} variables)`);
+
+  // 9. Save snapshot (for test validation)
   const snapshotContent = generateSnapshot(ref, permSupplement);
   await Deno.writeTextFile(SNAPSHOT_FILE, snapshotContent + '\n');
   console.log(`  Snapshot saved → ${SNAPSHOT_FILE}`);
 
+  // 10. Flag drift report against the archived reference of --drift-base, else the previous json_reference snapshot
+  let breaking = false;
+  let baseline = previousRef;
+  if (driftBase) {
+    baseline = (await readReferenceArchive()).find((s) => s.denoVersion === driftBase) ?? previousRef;
+    if (baseline?.denoVersion !== driftBase) {
+      console.warn(
+        `  Warning: no archived json_reference for Deno ${driftBase}; comparing against json_reference.snapshot.json.`,
+      );
+    }
+  }
+  if (baseline) {
+    const previousPermTypes = previousSchema?.denoVersion === baseline.denoVersion
+      ? getPermissionTypes(previousSchema.schema)
+      : permTypes;
+    const report = diffCommandArgs(
+      collectCommandArgs(baseline.reference, buildPermissionSupplement(previousPermTypes)),
+      collectCommandArgs(ref, permSupplement),
+      baseline.denoVersion,
+      denoVersion,
+    );
+    await Deno.writeTextFile(DRIFT_REPORT_MD, renderDriftMarkdown(report) + '\n');
+    await Deno.writeTextFile(DRIFT_REPORT_JSON, JSON.stringify(report, null, 2) + '\n');
+    const breakingCount = report.changes.filter((c) => c.breaking).length;
+    console.log(`  Drift report (${report.changes.length} changes, ${breakingCount} breaking) → ${DRIFT_REPORT_MD}`);
+    breaking = report.breaking;
+  } else {
+    console.warn('  Warning: no json_reference snapshot to compare against — drift report skipped.');
+  }
+
   console.log('\nDone! Run `dotnet build` to verify the generated code compiles.');
+
+  if (breaking && failOnBreaking) {
+    console.error('Breaking flag changes detected (--fail-on-breaking).');
+    Deno.exit(2);
+  }
 }
 
 if (import.meta.main) {
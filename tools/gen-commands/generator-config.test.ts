@@ -0,0 +1,61 @@
+import { assertEquals, assertThrows } from '@std/assert';
+import { join } from '@std/path';
+import {
+  ARG_STYLES,
+  parseGeneratorConfig,
+  POSITIONAL_TYPES,
+  readGeneratorConfig,
+  stripJsonComments,
+} from './generator-config.ts';
+
+Deno.test('stripJsonComments: comments and trailing commas go, strings stay', () => {
+  const text = '{\n  // line\n  "a": "http://x /* y */", /* block */\n  "b": ["c", "d",],\n}';
+  assertEquals(JSON.parse(stripJsonComments(text)), { a: 'http://x /* y */', b: ['c', 'd'] });
+  assertEquals(JSON.parse(stripJsonComments('{ "q": "a\\"//b" }')), { q: 'a"//b' });
+});
+
+Deno.test('parseGeneratorConfig: missing sections are empty', () => {
+  assertEquals(parseGeneratorConfig({ skipFlags: ['tunnel'] }), {
+    skipFlags: ['tunnel'],
+    skipCommands: [],
+    permissionCommands: [],
+    processCommands: [],
+    positionals: {},
+    entryPointPositionals: {},
+    argStyles: {},
+    valueSets: {},
+    environment: {},
+  });
+});
+
+Deno.test('parseGeneratorConfig: rejects typos and malformed entries', () => {
+  assertThrows(() => parseGeneratorConfig({ skipFlag: ['tunnel'] }), Error, 'unknown section "skipFlag"');
+  assertThrows(() => parseGeneratorConfig({ argStyles: { port: 'int' } }), Error, 'argStyles.port must be one of');
+  assertThrows(
+    () => parseGeneratorConfig({ positionals: { task: [{ name: 'TaskName', type: 'string' }] } }),
+    Error,
+    'positionals.task[0]',
+  );
+  assertThrows(
+    () => parseGeneratorConfig({ positionals: { task: [{ name: 'taskName', type: 'int' }] } }),
+    Error,
+    'type must be one of',
+  );
+  assertThrows(() => parseGeneratorConfig({ valueSets: { reporter: [] } }), Error, 'valueSets["reporter"]');
+  assertThrows(() => parseGeneratorConfig({ processCommands: 'run' }), Error, '"processCommands" must be a list');
+  assertThrows(
+    () => parseGeneratorConfig({ environment: { NO_COLOR: { type: 'bool' } } }),
+    Error,
+    'environment.NO_COLOR.type',
+  );
+});
+
+Deno.test('generator.config.jsonc parses and matches its schema', async () => {
+  const config = readGeneratorConfig();
+  assertEquals(config.processCommands.includes('task'), true);
+
+  const schema = JSON.parse(await Deno.readTextFile(join(import.meta.dirname!, 'generator.config.schema.json')));
+  assertEquals(Object.keys(schema.properties).filter((k) => k !== '$schema').sort(), Object.keys(config).sort());
+  assertEquals(schema.properties.argStyles.additionalProperties.enum, [...ARG_STYLES]);
+  assertEquals(schema.properties.positionals.additionalProperties.items.properties.type.enum, [...POSITIONAL_TYPES]);
+});
@@ -0,0 +1,176 @@
+// generator.config.jsonc: the hand-maintained overrides of the generator (skipped flags and commands, argument
+// styles, value sets, positionals, DenoProcess commands). Kept out of generate.ts so forks can change generation
+// without patching the script; generator.config.schema.json describes the same shape for editors.
+
+import { join } from '@std/path';
+
+export const GENERATOR_CONFIG_FILE = join(import.meta.dirname!, 'generator.config.jsonc');
+
+export const ARG_STYLES = [
+  'flag',
+  'boolopt',
+  'value',
+  'intvalue',
+  'longvalue',
+  'optvalue',
+  'array',
+  'optarray',
+] as const;
+export const POSITIONAL_TYPES = ['string', 'string?', 'string[]', 'string[]?'] as const;
+export const ENV_VAR_TYPES = ['string', 'flag', 'int', 'list'] as const;
+
+export type EnvVarType = (typeof ENV_VAR_TYPES)[number];
+
+export interface PositionalOverride {
+  name: string; // C# parameter name
+  type: (typeof POSITIONAL_TYPES)[number];
+  entryPoint?: boolean; // everything after it belongs to the script/task, not to deno
+}
+
+export interface EnvVarOverride {
+  type?: EnvVarType; // flag: bool? set to `1` or removed; list: string[]? joined with `separator`
+  separator?: string;
+  name?: string; // C# property name
+}
+
+export interface GeneratorConfig {
+  skipFlags: string[]; // long names without `--`
+  skipCommands: string[];
+  permissionCommands: string[]; // subcommands that accept the permission flags
+  processCommands: string[]; // long-running subcommands without --watch that get a DenoProcess factory
+  positionals: Record<string, PositionalOverride[]>; // subcommand → positionals, replacing the derived ones
+  entryPointPositionals: Record<string, string>; // clap positional id → C# parameter name
+  argStyles: Record<string, (typeof ARG_STYLES)[number]>;
+  valueSets: Record<string, string[] | null>; // `flag` or `command flag` → values; null: open set
+  environment: Record<string, EnvVarOverride>; // DenoEnvironment, keyed by variable name
+}
+
+const KEYS: (keyof GeneratorConfig)[] = [
+  'skipFlags',
+  'skipCommands',
+  'permissionCommands',
+  'processCommands',
+  'positionals',
+  'entryPointPositionals',
+  'argStyles',
+  'valueSets',
+  'environment',
+];
+
+/** Removes `//` and `/* *\/` comments and trailing commas, leaving strings untouched. */
+export function stripJsonComments(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') j += text[j] === '\\' ? 2 : 1;
+      out += text.slice(i, j + 1);
+      i = j;
+    } else if (c === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end < 0 ? text.length : end + 1;
+    } else if (c === ']' || c === '}') {
+      out = out.replace(/,(\s*)$/, '$1') + c; // trailing comma
+    } else {
+      out += c;
+    }
+  }
+  return out;
+}
+
+export function readGeneratorConfig(path = GENERATOR_CONFIG_FILE): GeneratorConfig {
+  return parseGeneratorConfig(JSON.parse(stripJsonComments(Deno.readTextFileSync(path))), path);
+}
+
+/** Checks the shape of generator.config.jsonc; missing sections are empty, unknown ones are rejected. */
+export function parseGeneratorConfig(json: unknown, source = 'generator.config.jsonc'): GeneratorConfig {
+  const fail = (message: string): never => {
+    throw new Error(`${source}: ${message}`);
+  };
+  const isStrings = (v: unknown): v is string[] =>
+    Array.isArray(v) && v.every((s) => typeof s === 'string' && s.length > 0);
+  const isRecord = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+  if (!isRecord(json)) fail('expected an object');
+  const root = json as Record<string, unknown>;
+  for (const key of Object.keys(root)) {
+    if (key !== '$schema' && !KEYS.includes(key as keyof GeneratorConfig)) fail(`unknown section "${key}"`);
+  }
+  const section = (key: keyof GeneratorConfig, kind: 'list' | 'map') => {
+    const value = root[key] ?? (kind === 'list' ? [] : {});
+    if (kind === 'list' ? !isStrings(value) : !isRecord(value)) {
+      fail(`"${key}" must be ${kind === 'list' ? 'a list of names' : 'an object'}`);
+    }
+    return value;
+  };
+
+  const positionals = section('positionals', 'map') as Record<string, unknown>;
+  for (const [command, list] of Object.entries(positionals)) {
+    if (!Array.isArray(list)) fail(`positionals.${command} must be a list`);
+    (list as unknown[]).forEach((p, i) => {
+      if (!isRecord(p) || typeof p.name !== 'string' || !/^[a-z][A-Za-z0-9]*$/.test(p.name)) {
+        fail(`positionals.${command}[${i}] needs a camelCase "name"`);
+      }
+      const positional = p as Record<string, unknown>;
+      if (!POSITIONAL_TYPES.includes(positional.type as PositionalOverride['type'])) {
+        fail(`positionals.${command}[${i}].type must be one of ${POSITIONAL_TYPES.join(', ')}`);
+      }
+      if (positional.entryPoint !== undefined && typeof positional.entryPoint !== 'boolean') {
+        fail(`positionals.${command}[${i}].entryPoint must be a boolean`);
+      }
+    });
+  }
+
+  const entryPointPositionals = section('entryPointPositionals', 'map') as Record<string, unknown>;
+  for (const [id, name] of Object.entries(entryPointPositionals)) {
+    if (typeof name !== 'string' || !/^[a-z][A-Za-z0-9]*$/.test(name)) {
+      fail(`entryPointPositionals.${id} must be a camelCase name`);
+    }
+  }
+
+  const argStyles = section('argStyles', 'map') as Record<string, unknown>;
+  for (const [flag, style] of Object.entries(argStyles)) {
+    if (!ARG_STYLES.includes(style as GeneratorConfig['argStyles'][string])) {
+      fail(`argStyles.${flag} must be one of ${ARG_STYLES.join(', ')}`);
+    }
+  }
+
+  const valueSets = section('valueSets', 'map') as Record<string, unknown>;
+  for (const [key, values] of Object.entries(valueSets)) {
+    if (values !== null && (!isStrings(values) || values.length === 0)) {
+      fail(`valueSets["${key}"] must be a list of values or null`);
+    }
+  }
+
+  const environment = section('environment', 'map') as Record<string, unknown>;
+  for (const [name, entry] of Object.entries(environment)) {
+    if (!isRecord(entry)) fail(`environment.${name} must be an object`);
+    const e = entry as Record<string, unknown>;
+    if (e.type !== undefined && !ENV_VAR_TYPES.includes(e.type as EnvVarType)) {
+      fail(`environment.${name}.type must be one of ${ENV_VAR_TYPES.join(', ')}`);
+    }
+    if (e.separator !== undefined && (typeof e.separator !== 'string' || e.separator.length === 0)) {
+      fail(`environment.${name}.separator must be a string`);
+    }
+    if (e.name !== undefined && (typeof e.name !== 'string' || !/^[A-Z][A-Za-z0-9]*$/.test(e.name))) {
+      fail(`environment.${name}.name must be a PascalCase name`);
+    }
+  }
+
+  return {
+    skipFlags: section('skipFlags', 'list'),
+    skipCommands: section('skipCommands', 'list'),
+    permissionCommands: section('permissionCommands', 'list'),
+    processCommands: section('processCommands', 'list'),
+    positionals,
+    entryPointPositionals,
+    argStyles,
+    valueSets,
+    environment,
+  } as GeneratorConfig;
+}
@@ -0,0 +1,116 @@
+import { assertEquals, assertThrows } from '@std/assert';
+import { join } from '@std/path';
+import {
+  compareVersions,
+  flagAvailability,
+  type HistorySnapshot,
+  readHistory,
+  readReferenceArchive,
+  toHistorySnapshot,
+  writeHistorySnapshot,
+  writeReferenceArchive,
+} from './history.ts';
+
+function snapshot(denoVersion: string, runFlags: string[]): HistorySnapshot {
+  return { denoVersion, commands: { run: runFlags } };
+}
+
+const HISTORY = [
+  snapshot('2.0.0', ['quiet', 'legacy']),
+  snapshot('2.1.0', ['quiet', 'legacy', 'tsgo']),
+  snapshot('2.2.0', ['quiet', 'tsgo']),
+  snapshot('2.3.0', ['quiet', 'tsgo', 'flaky']),
+  snapshot('2.4.0', ['quiet', 'tsgo']),
+];
+
+Deno.test('compareVersions: numeric, not lexicographic', () => {
+  assertEquals(compareVersions('2.10.0', '2.9.5') > 0, true);
+  assertEquals(compareVersions('v2.9.5', '2.9.5'), 0);
+  assertThrows(() => compareVersions('next', '2.9.5'), Error, 'Not a Deno version');
+});
+
+Deno.test('flagAvailability: since is the start of the unbroken run, oldest version means unknown', () => {
+  assertEquals(flagAvailability(HISTORY, '2.4.0', 'run', 'tsgo'), { since: '2.1.0', removedIn: null });
+  assertEquals(flagAvailability(HISTORY, '2.4.0', 'run', 'quiet'), { since: null, removedIn: null });
+});
+
+Deno.test('flagAvailability: removedIn is the first newer version without the flag', () => {
+  assertEquals(flagAvailability(HISTORY, '2.1.0', 'run', 'legacy'), { since: null, removedIn: '2.2.0' });
+  assertEquals(flagAvailability(HISTORY, '2.3.0', 'run', 'flaky'), { since: '2.3.0', removedIn: '2.4.0' });
+});
+
+Deno.test('flagAvailability: unknown versions, commands and flags (permissions) have no data', () => {
+  assertEquals(flagAvailability(HISTORY, '2.5.0', 'run', 'tsgo'), { since: null, removedIn: null });
+  assertEquals(flagAvailability(HISTORY, '2.4.0', 'serve', 'tsgo'), { since: null, removedIn: null });
+  assertEquals(flagAvailability(HISTORY, '2.4.0', 'run', 'allow-read'), { since: null, removedIn: null });
+});
+
+Deno.test('toHistorySnapshot/writeHistorySnapshot/readHistory: flags only, sorted by version', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const ref = {
+      name: 'deno',
+      about: null,
+      args: [],
+      subcommands: [{
+        name: 'run',
+        about: null,
+        args: [
+          {
+            name: 'quiet',
+            short: 'q',
+            long: 'quiet',
+            required: false,
+            help: null,
+            help_heading: null,
+            usage: '-q, --quiet',
+          },
+          {
+            name: 'script_arg',
+            short: null,
+            long: null,
+            required: false,
+            help: null,
+            help_heading: null,
+            usage: '[SCRIPT_ARG]...',
+          },
+        ],
+        subcommands: [],
+      }],
+    };
+    await writeHistorySnapshot(toHistorySnapshot(ref, '2.10.0'), dir);
+    await writeHistorySnapshot(snapshot('2.9.5', []), dir);
+
+    assertEquals(JSON.parse(await Deno.readTextFile(join(dir, '2.10.0.json'))), {
+      denoVersion: '2.10.0',
+      commands: { run: ['quiet'] },
+    });
+    assertEquals((await readHistory(dir)).map((s) => s.denoVersion), ['2.9.5', '2.10.0']);
+    assertEquals(await readHistory(join(dir, 'missing')), []);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('writeReferenceArchive/readReferenceArchive: full reference round trip, gzip-compressed, sorted by version', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const reference = {
+      name: 'deno',
+      about: 'A modern runtime',
+      args: [],
+      subcommands: [{ name: 'run', about: null, args: [] }],
+    };
+    const path = await writeReferenceArchive({ denoVersion: '2.10.0', reference }, dir);
+    await writeReferenceArchive({ denoVersion: '2.9.5', reference }, dir);
+
+    assertEquals(path, join(dir, '2.10.0.json.gz'));
+    assertEquals([...(await Deno.readFile(path)).slice(0, 2)], [0x1f, 0x8b]);
+    const archive = await readReferenceArchive(dir);
+    assertEquals(archive.map((s) => s.denoVersion), ['2.9.5', '2.10.0']);
+    assertEquals(archive[1].reference, reference);
+    assertEquals(await readReferenceArchive(join(dir, 'missing')), []);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
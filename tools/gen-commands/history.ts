@@ -0,0 +1,147 @@
+// Per-version flag history: one reduced `deno json_reference` snapshot per Deno version in history/, used to
+// annotate generated properties with the version a flag first appeared in (and was removed in, if any).
+//
+// history/reference/ keeps the full, gzip-compressed `json_reference` output of the same versions for tools that
+// rerun the generator's inference per version (compat-matrix.ts).
+//
+// Add a version from any Deno binary (e.g. an older release):
+//   deno task history:add /path/to/deno
+// generate.ts records the version it generates from on every run.
+
+import { dirname, join } from '@std/path';
+import type { DenoReference } from './generate.ts';
+import type { ReferenceSnapshot } from './sources.ts';
+
+const SCRIPT_DIR = dirname(import.meta.filename!);
+export const HISTORY_DIR = join(SCRIPT_DIR, 'history');
+export const REFERENCE_ARCHIVE_DIR = join(HISTORY_DIR, 'reference');
+
+export interface HistorySnapshot {
+  denoVersion: string;
+  commands: Record<string, string[]>; // subcommand → long flag names, in reference order
+}
+
+export interface FlagAvailability {
+  since: string | null; // null: present in the oldest recorded version, so the real origin is unknown
+  removedIn: string | null; // first newer recorded version without the flag
+}
+
+const UNKNOWN: FlagAvailability = { since: null, removedIn: null };
+
+export function parseVersion(version: string): number[] {
+  const match = version.match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  if (!match) throw new Error(`Not a Deno version: ${version}`);
+  return match.slice(1, 4).map(Number);
+}
+
+export function compareVersions(a: string, b: string): number {
+  const [x, y] = [parseVersion(a), parseVersion(b)];
+  for (let i = 0; i < 3; i++) {
+    if (x[i] !== y[i]) return x[i] - y[i];
+  }
+  return 0;
+}
+
+/** Flags of every subcommand, as recorded in history. Permission flags are not part of json_reference. */
+export function toHistorySnapshot(ref: DenoReference, denoVersion: string): HistorySnapshot {
+  const commands: Record<string, string[]> = {};
+  for (const subcmd of ref.subcommands) {
+    commands[subcmd.name] = subcmd.args.filter((a) => a.long && a.usage.startsWith('-')).map((a) => a.long!);
+  }
+  return { denoVersion, commands };
+}
+
+/** All recorded versions, oldest first. */
+export async function readHistory(dir = HISTORY_DIR): Promise<HistorySnapshot[]> {
+  const snapshots: HistorySnapshot[] = [];
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (!entry.isFile || !entry.name.endsWith('.json')) continue;
+      const snapshot = JSON.parse(await Deno.readTextFile(join(dir, entry.name))) as HistorySnapshot;
+      if (!snapshot.denoVersion || !snapshot.commands) throw new Error(`Malformed history snapshot: ${entry.name}`);
+      snapshots.push(snapshot);
+    }
+  } catch (e) {
+    if (!(e instanceof Deno.errors.NotFound)) throw e;
+  }
+  return snapshots.sort((a, b) => compareVersions(a.denoVersion, b.denoVersion));
+}
+
+export async function writeHistorySnapshot(snapshot: HistorySnapshot, dir = HISTORY_DIR): Promise<string> {
+  await Deno.mkdir(dir, { recursive: true });
+  const path = join(dir, `${snapshot.denoVersion}.json`);
+  await Deno.writeTextFile(path, JSON.stringify(snapshot, null, 2) + '\n');
+  return path;
+}
+
+async function pipeBytes(bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream) {
+  return new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+}
+
+/** All archived `json_reference` outputs, oldest first. */
+export async function readReferenceArchive(dir = REFERENCE_ARCHIVE_DIR): Promise<ReferenceSnapshot[]> {
+  const snapshots: ReferenceSnapshot[] = [];
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (!entry.isFile || !entry.name.endsWith('.json.gz')) continue;
+      const bytes = await pipeBytes(await Deno.readFile(join(dir, entry.name)), new DecompressionStream('gzip'));
+      const snapshot = JSON.parse(new TextDecoder().decode(bytes)) as ReferenceSnapshot;
+      if (!snapshot.denoVersion || !snapshot.reference) {
+        throw new Error(`Malformed reference archive entry: ${entry.name}`);
+      }
+      snapshots.push(snapshot);
+    }
+  } catch (e) {
+    if (!(e instanceof Deno.errors.NotFound)) throw e;
+  }
+  return snapshots.sort((a, b) => compareVersions(a.denoVersion, b.denoVersion));
+}
+
+export async function writeReferenceArchive(snapshot: ReferenceSnapshot, dir = REFERENCE_ARCHIVE_DIR): Promise<string> {
+  await Deno.mkdir(dir, { recursive: true });
+  const path = join(dir, `${snapshot.denoVersion}.json.gz`);
+  const json = new TextEncoder().encode(JSON.stringify(snapshot, null, 2) + '\n');
+  await Deno.writeFile(path, await pipeBytes(json, new CompressionStream('gzip')));
+  return path;
+}
+
+/**
+ * Availability of a flag as seen from `denoVersion`: `since` is the start of the unbroken run of recorded versions
+ * that contains it, `removedIn` the first newer recorded version without it. Flags history never saw (permission
+ * flags) are unknown.
+ */
+export function flagAvailability(
+  history: HistorySnapshot[],
+  denoVersion: string,
+  command: string,
+  flag: string,
+): FlagAvailability {
+  const has = (s: HistorySnapshot) => s.commands[command]?.includes(flag) ?? false;
+  const current = history.findIndex((s) => compareVersions(s.denoVersion, denoVersion) === 0);
+  if (current < 0 || !has(history[current])) return UNKNOWN;
+
+  let first = current;
+  while (first > 0 && has(history[first - 1])) first--;
+  const removed = history.slice(current + 1).find((s) => !has(s));
+
+  return {
+    since: first === 0 ? null : history[first].denoVersion,
+    removedIn: removed?.denoVersion ?? null,
+  };
+}
+
+if (import.meta.main) {
+  if (Deno.args.length === 0) {
+    console.error('Usage: deno task history:add <path-to-deno> [<path-to-deno> ...]');
+    Deno.exit(1);
+  }
+  for (const binary of Deno.args) {
+    const run = (args: string[]) => new Deno.Command(binary, { args, stdout: 'piped', stderr: 'piped' }).output();
+    const version = new TextDecoder().decode((await run(['--version'])).stdout).match(/^deno (\S+)/)?.[1];
+    const output = await run(['json_reference']);
+    if (!version || !output.success) throw new Error(`${binary} is not a Deno binary with \`deno json_reference\`.`);
+    const ref = JSON.parse(new TextDecoder().decode(output.stdout)) as DenoReference;
+    console.log(`  Recorded Deno ${version} → ${await writeHistorySnapshot(toHistorySnapshot(ref, version))}`);
+    console.log(`  Archived json_reference → ${await writeReferenceArchive({ denoVersion: version, reference: ref })}`);
+  }
+}
@@ -0,0 +1,62 @@
+import { assertEquals } from '@std/assert';
+import { type DenoArg, inferProperty } from './generate.ts';
+import { buildCombinedOptionsSchema, buildOptionsSchema, propertySchema } from './options-schema.ts';
+
+function arg(long: string, usage: string, extra: Partial<DenoArg> = {}): DenoArg {
+  return { name: long, short: null, long, required: false, help: null, help_heading: null, usage, ...extra };
+}
+
+function schemaOf(a: DenoArg, command = 'run') {
+  return propertySchema(inferProperty(a, command)!);
+}
+
+Deno.test('propertySchema: JSON types follow the C# types', () => {
+  assertEquals(schemaOf(arg('quiet', '--quiet')).type, 'boolean');
+  assertEquals(schemaOf(arg('frozen', '--frozen[=<BOOLEAN>]')).type, 'boolean');
+  assertEquals(schemaOf(arg('seed', '--seed <NUMBER>')).type, 'integer');
+  assertEquals(schemaOf(arg('location', '--location <HREF>')).type, 'string');
+  assertEquals(schemaOf(arg('allow-read', '--allow-read[=<PATH>...]')).items, { type: 'string' });
+});
+
+Deno.test('propertySchema: closed value sets are examples of the CLI values, not a restriction', () => {
+  const schema = schemaOf(arg('no-check', '--no-check[=<NO_CHECK_TYPE>]', { possible_values: ['remote'] }));
+  assertEquals(schema.type, 'string');
+  assertEquals(schema.examples, ['', 'remote']);
+  assertEquals(schema.enum, undefined);
+});
+
+Deno.test('propertySchema: help text and CLI metadata', () => {
+  const schema = schemaOf(
+    arg('allow-all', '--allow-all', {
+      short: 'A',
+      help: 'Allow all.\n  \x1b[38;5;245mCareful.\x1b[39m',
+      help_heading: 'Permissions',
+    }),
+  );
+  assertEquals(schema.description, 'Allow all.\nCareful.');
+  assertEquals(schema['x-deno'], {
+    flag: '--allow-all',
+    shortAlias: '-A',
+    usage: '--allow-all',
+    heading: 'Permissions',
+  });
+});
+
+Deno.test('buildOptionsSchema and buildCombinedOptionsSchema', () => {
+  const source = {
+    command: 'run',
+    className: 'RunOptions',
+    summary: 'Run a program.',
+    properties: [inferProperty(arg('quiet', '--quiet'))!],
+  };
+
+  const single = buildOptionsSchema(source);
+  assertEquals(single.$schema, 'http://json-schema.org/draft-07/schema#');
+  assertEquals(single.description, 'Options for `deno run`. Run a program.');
+  assertEquals(single.additionalProperties, false);
+  assertEquals(Object.keys(single.properties), ['Quiet']);
+
+  const combined = buildCombinedOptionsSchema([source], '2.9.5');
+  assertEquals(combined.properties, { Run: { $ref: '#/definitions/RunOptions' } });
+  assertEquals(combined.definitions.RunOptions.properties, single.properties);
+});
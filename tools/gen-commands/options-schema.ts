@@ -0,0 +1,92 @@
+// Builds JSON Schemas (draft-07, like the Deno config schema) for the generated XxxOptions classes, so config
+// sections bound to them (e.g. `appsettings.json`) get editor completion and validation. Property names are the C#
+// names, which is what Microsoft.Extensions.Configuration binds.
+
+import type { ArgStyle, Property } from './generate.ts';
+import { docsUrl } from './xml-doc.ts';
+
+const JSON_SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+export const COMBINED_SCHEMA_FILE = 'denohost.options.schema.json';
+
+// deno-lint-ignore no-explicit-any
+export type JsonSchema = Record<string, any>;
+
+export interface OptionsSchemaSource {
+  command: string;
+  className: string;
+  summary: string; // plain first line of the subcommand's `about`
+  properties: Property[];
+}
+
+function valueSchema(argStyle: ArgStyle): JsonSchema {
+  switch (argStyle) {
+    case 'flag':
+    case 'boolopt':
+      return { type: 'boolean' };
+    case 'intvalue':
+      return { type: 'integer', minimum: -2147483648, maximum: 2147483647 };
+    case 'longvalue':
+      return { type: 'integer' };
+    case 'array':
+    case 'optarray':
+      return { type: 'array', items: { type: 'string' } };
+    default:
+      return { type: 'string' };
+  }
+}
+
+/** Schema of one property: C# type, full help and the CLI metadata also found on `[DenoFlag]`. */
+export function propertySchema(prop: Property): JsonSchema {
+  // Closed value sets are examples only: the property is a string so values newer than the generator still bind.
+  const schema = prop.valueEnum
+    ? {
+      ...valueSchema(prop.argStyle),
+      examples: [...(prop.valueEnum.hasDefault ? [''] : []), ...prop.valueEnum.values],
+    }
+    : valueSchema(prop.argStyle);
+
+  return {
+    ...schema,
+    ...(prop.help ? { description: prop.help } : {}),
+    'x-deno': {
+      flag: prop.flagName,
+      ...(prop.shortName ? { shortAlias: `-${prop.shortName}` } : {}),
+      usage: prop.usage,
+      heading: prop.heading,
+    },
+  };
+}
+
+function optionsClassSchema(source: OptionsSchemaSource): JsonSchema {
+  const description = source.summary
+    ? `Options for \`deno ${source.command}\`. ${source.summary}`
+    : `Options for \`deno ${source.command}\`.`;
+  return {
+    title: source.className,
+    description,
+    type: 'object',
+    additionalProperties: false,
+    properties: Object.fromEntries(source.properties.map((p) => [p.csName, propertySchema(p)])),
+    'x-deno': { command: source.command, docs: docsUrl(source.command) },
+  };
+}
+
+/** Standalone schema for one options class (`RunOptions.schema.json`). */
+export function buildOptionsSchema(source: OptionsSchemaSource): JsonSchema {
+  return { $schema: JSON_SCHEMA_DRAFT, ...optionsClassSchema(source) };
+}
+
+/** One schema for all options classes; each is a definition and a section named after its subcommand. */
+export function buildCombinedOptionsSchema(sources: OptionsSchemaSource[], denoVersion: string): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DRAFT,
+    title: 'DenoHost options',
+    description:
+      `Options for the typed Deno command API (Deno ${denoVersion}). Sections are named after the subcommand, e.g. \`Run\` binds to \`RunOptions\`.`,
+    type: 'object',
+    properties: Object.fromEntries(
+      sources.map((s) => [s.className.replace(/Options$/, ''), { $ref: `#/definitions/${s.className}` }]),
+    ),
+    definitions: Object.fromEntries(sources.map((s) => [s.className, optionsClassSchema(s)])),
+  };
+}
@@ -0,0 +1,80 @@
+import { assertEquals } from '@std/assert';
+import type { DenoArg, DenoReference } from './generate.ts';
+import { parseGeneratorConfig } from './generator-config.ts';
+import { checkOverrides, renderOverrideReport } from './overrides.ts';
+
+function flag(long: string, usage = `--${long}`): DenoArg {
+  return { name: long, short: null, long, required: false, help: null, help_heading: null, usage };
+}
+
+const REF: DenoReference = {
+  name: 'deno',
+  about: null,
+  args: [],
+  env: [{ name: 'DENO_DIR', description: 'Set the cache directory', example: null }],
+  subcommands: [
+    {
+      name: 'serve',
+      about: null,
+      args: [flag('port', '--port <PORT>'), flag('tunnel'), flag('reporter', '--reporter <reporter>')],
+    },
+    {
+      name: 'fmt',
+      about: null,
+      args: [flag('line-width', '--line-width <NUMBER>'), flag('ext', '--ext <ext>'), flag('watch')],
+    },
+  ],
+};
+
+Deno.test('checkOverrides: reports the members each override shaped', () => {
+  const config = parseGeneratorConfig({
+    skipFlags: ['tunnel'],
+    processCommands: ['serve'],
+    argStyles: { port: 'intvalue' },
+    valueSets: { 'fmt ext': ['ts', 'md'], reporter: ['pretty', 'dot'] },
+  });
+  const report = checkOverrides(config, REF, []);
+  assertEquals(report.stale, []);
+  assertEquals(report.applied, [
+    { override: 'skipFlags.tunnel', targets: ['deno serve --tunnel'] },
+    { override: 'processCommands.serve', targets: ['DenoProcess.Serve'] },
+    { override: 'argStyles.port', targets: ['ServeOptions.Port'] },
+    { override: 'valueSets["fmt ext"]', targets: ['FmtOptions.Ext'] },
+    { override: 'valueSets["reporter"]', targets: ['ServeOptions.Reporter'] },
+  ]);
+});
+
+Deno.test('checkOverrides: overrides that match nothing or are no longer needed are stale, skipFlags never', () => {
+  const config = parseGeneratorConfig({
+    skipFlags: ['inspect-publish-uid'],
+    processCommands: ['watch', 'fmt'],
+    positionals: { upgrade: [{ name: 'version', type: 'string?' }] },
+    argStyles: { 'line-width': 'intvalue', 'use-tabs': 'boolopt' },
+    valueSets: { 'lint ext': null },
+    environment: { DENO_DIR: { type: 'string' }, DENO_GONE: { type: 'flag' } },
+  });
+  const ref = structuredClone(REF);
+  ref.subcommands[0].args[2].possible_values = ['pretty', 'dot'];
+  const report = checkOverrides(
+    { ...config, valueSets: { ...config.valueSets, reporter: ['pretty', 'dot'] } },
+    ref,
+    [],
+  );
+
+  assertEquals(report.applied, []);
+  assertEquals(report.stale.map((s) => `${s.override}: ${s.reason}`), [
+    'processCommands.watch: `deno watch` is not generated',
+    'processCommands.fmt: `deno fmt` has --watch and gets a factory anyway',
+    'positionals.upgrade: `deno upgrade` is not generated',
+    "argStyles.line-width: the usage already infers 'intvalue'",
+    'argStyles.use-tabs: no subcommand has --use-tabs',
+    'valueSets["lint ext"]: no value flag --ext matches',
+    'valueSets["reporter"]: the reference already gives the same value set',
+    'environment.DENO_DIR: the description already gives the same property',
+    'environment.DENO_GONE: Deno no longer documents DENO_GONE',
+  ]);
+  assertEquals(
+    renderOverrideReport(report)[0],
+    '  Warning: stale override processCommands.watch: `deno watch` is not generated',
+  );
+});
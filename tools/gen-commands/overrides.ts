@@ -0,0 +1,150 @@
+// Checks generator.config.jsonc against the current `deno json_reference`: which override shaped which generated
+// member, and which overrides no longer match anything (e.g. after Deno renamed a flag) and can be removed.
+
+import { buildEnvProperties } from './environment.ts';
+import type { GeneratorConfig } from './generator-config.ts';
+import {
+  buildCommands,
+  type DenoArg,
+  type DenoReference,
+  inferArgStyle,
+  optionsArgs,
+  referenceValueSet,
+  toPascalCase,
+} from './generate.ts';
+
+export interface AppliedOverride {
+  override: string; // e.g. `argStyles.port`
+  targets: string[]; // generated members it shaped, e.g. `ServeOptions.Port`
+}
+
+export interface StaleOverride {
+  override: string;
+  reason: string;
+}
+
+export interface OverrideReport {
+  applied: AppliedOverride[];
+  stale: StaleOverride[];
+}
+
+export function checkOverrides(config: GeneratorConfig, ref: DenoReference, permSupplement: DenoArg[]): OverrideReport {
+  const applied: AppliedOverride[] = [];
+  const stale: StaleOverride[] = [];
+  const commands = buildCommands(ref);
+  const generated = new Set(commands.map((c) => c.name));
+  const subcommands = new Map(ref.subcommands.map((s) => [s.name, s]));
+  const emitted = commands.map((cmd) => ({
+    cmd,
+    className: `${toPascalCase(cmd.name)}Options`,
+    sourceArgs: [...(cmd.hasPermissions ? permSupplement : []), ...subcommands.get(cmd.name)!.args],
+    args: optionsArgs(cmd, subcommands.get(cmd.name)!, permSupplement),
+  }));
+
+  const record = (override: string, targets: string[], reason: string) => {
+    if (targets.length > 0) applied.push({ override, targets });
+    else stale.push({ override, reason });
+  };
+
+  // skipFlags are guards, not fixes: they keep the flags out for any Deno version (DenoHost.Tests reads the same list
+  // against the bundled binary), so an entry the current reference lacks is not stale.
+  for (const flag of config.skipFlags) {
+    const targets = emitted.filter((e) => e.sourceArgs.some((a) => a.long === flag)).map((e) =>
+      `deno ${e.cmd.name} --${flag}`
+    );
+    if (targets.length > 0) applied.push({ override: `skipFlags.${flag}`, targets });
+  }
+  for (const command of config.skipCommands) {
+    record(
+      `skipCommands.${command}`,
+      subcommands.has(command) ? [`deno ${command}`] : [],
+      `there is no \`deno ${command}\``,
+    );
+  }
+  for (const command of config.permissionCommands) {
+    const targets = generated.has(command) ? [`${toPascalCase(command)}Options (permission flags)`] : [];
+    record(`permissionCommands.${command}`, targets, `\`deno ${command}\` is not generated`);
+  }
+  for (const command of config.processCommands) {
+    const cmd = commands.find((c) => c.name === command);
+    const targets = cmd && !cmd.hasWatch ? [`DenoProcess.${toPascalCase(command)}`] : [];
+    record(
+      `processCommands.${command}`,
+      targets,
+      cmd ? `\`deno ${command}\` has --watch and gets a factory anyway` : `\`deno ${command}\` is not generated`,
+    );
+  }
+  for (const [command, positionals] of Object.entries(config.positionals)) {
+    const targets = generated.has(command)
+      ? [`Deno.${toPascalCase(command)}(${positionals.map((p) => p.name).join(', ')})`]
+      : [];
+    record(`positionals.${command}`, targets, `\`deno ${command}\` is not generated`);
+  }
+  for (const [id, name] of Object.entries(config.entryPointPositionals)) {
+    const targets = commands
+      .filter((c) => !config.positionals[c.name])
+      .filter((c) => subcommands.get(c.name)!.args.find((a) => !a.long && !a.usage.startsWith('-'))?.name === id)
+      .map((c) => `Deno.${toPascalCase(c.name)}(${name})`);
+    record(`entryPointPositionals.${id}`, targets, `no subcommand has a \`${id}\` positional`);
+  }
+
+  for (const [flag, style] of Object.entries(config.argStyles)) {
+    const matching = emitted.flatMap((e) => e.args.filter((a) => a.long === flag).map((a) => ({ e, a })));
+    const targets = matching.filter(({ a }) => inferArgStyle(a.usage) !== style).map(({ e }) =>
+      `${e.className}.${toPascalCase(flag)}`
+    );
+    record(
+      `argStyles.${flag}`,
+      targets,
+      matching.length > 0 ? `the usage already infers '${style}'` : `no subcommand has --${flag}`,
+    );
+  }
+
+  // Same precedence as buildValueEnum: scoped entry, then unscoped entry, then reference metadata.
+  const valueSetTargets = new Map<string, string[]>(Object.keys(config.valueSets).map((key) => [key, []]));
+  const superseded = new Set<string>();
+  const sameSet = (a: string[] | null, b: string[] | null) => (a?.join('|') ?? null) === (b?.join('|') ?? null);
+  for (const { cmd, className, args } of emitted) {
+    for (const arg of args) {
+      const style = config.argStyles[arg.long!] ?? inferArgStyle(arg.usage);
+      if (style !== 'value' && style !== 'optvalue') continue;
+      const scoped = `${cmd.name} ${arg.long}`;
+      const key = scoped in config.valueSets ? scoped : arg.long! in config.valueSets ? arg.long! : null;
+      if (!key) continue;
+      if (sameSet(config.valueSets[key], referenceValueSet(arg))) superseded.add(key);
+      else valueSetTargets.get(key)!.push(`${className}.${toPascalCase(arg.long!)}`);
+    }
+  }
+  for (const [key, targets] of valueSetTargets) {
+    const flag = key.split(' ').pop();
+    record(
+      `valueSets["${key}"]`,
+      targets,
+      superseded.has(key) ? 'the reference already gives the same value set' : `no value flag --${flag} matches`,
+    );
+  }
+
+  const envVars = new Map((ref.env ?? []).map((v) => [v.name, v]));
+  for (const [name, override] of Object.entries(config.environment)) {
+    const envVar = envVars.get(name);
+    const property = envVar ? buildEnvProperties([envVar], { [name]: override })[0] : null;
+    const inferred = envVar ? buildEnvProperties([envVar], {})[0] : null;
+    const changes = property &&
+      (property.type !== inferred!.type || property.separator !== inferred!.separator ||
+        property.csName !== inferred!.csName);
+    const targets = changes ? [`DenoEnvironment.${property.csName}`] : [];
+    record(
+      `environment.${name}`,
+      targets,
+      envVar ? 'the description already gives the same property' : `Deno no longer documents ${name}`,
+    );
+  }
+
+  return { applied, stale };
+}
+
+export function renderOverrideReport(report: OverrideReport): string[] {
+  const lines = report.applied.map((a) => `  ${a.override} → ${a.targets.join(', ')}`);
+  for (const s of report.stale) lines.push(`  Warning: stale override ${s.override}: ${s.reason}`);
+  return lines;
+}
@@ -0,0 +1,165 @@
+import { assertEquals, assertStringIncludes, assertThrows } from '@std/assert';
+import {
+  buildProxyModel,
+  csParamName,
+  type DocNode,
+  proxyClassName,
+  proxyMethodName,
+  renderProxyFile,
+} from './proxy-model.ts';
+
+// Minimal `deno doc --json` shapes (locations omitted).
+const kw = (value: string): DocNode => ({ repr: value, kind: 'keyword', value });
+const ref = (typeName: string, typeParams?: DocNode[]): DocNode => ({
+  repr: typeName,
+  kind: 'typeRef',
+  value: typeParams ? { typeName, typeParams } : { typeName, resolution: { kind: 'local' } },
+});
+const lit = (s: string): DocNode => ({ repr: s, kind: 'literal', value: { kind: 'string', string: s } });
+const exported = (name: string, kind: string, def: DocNode, doc?: DocNode): DocNode => ({
+  name,
+  declarations: [{ declarationKind: 'export', kind, def, ...(doc ? { jsDoc: doc } : {}) }],
+});
+const param = (name: string, tsType: DocNode, optional = false): DocNode => ({
+  kind: 'identifier',
+  name,
+  optional,
+  tsType,
+});
+
+const DOC = {
+  version: 1,
+  nodes: {
+    'file:///app/pricing.ts': {
+      symbols: [
+        exported('Entity', 'interface', { properties: [{ name: 'id', tsType: kw('string') }] }),
+        exported('QuoteRequest', 'interface', {
+          extends: [{ repr: 'Entity', kind: 'typeRef', value: { typeName: 'Entity' } }],
+          properties: [
+            { name: 'sku', tsType: kw('string'), jsDoc: { doc: 'Product SKU.' } },
+            { name: 'coupon', optional: true, tsType: { kind: 'union', value: [kw('string'), kw('null')] } },
+            {
+              name: 'tags',
+              tsType: {
+                kind: 'typeOperator',
+                value: { operator: 'readonly', tsType: { kind: 'array', value: kw('string') } },
+              },
+            },
+            { name: 'prices', tsType: ref('Record', [kw('string'), kw('number')]) },
+            { name: 'kind', tsType: { kind: 'union', value: [lit('a'), lit('b')] } },
+          ],
+        }, { doc: 'A quote request.' }),
+        exported('Sku', 'typeAlias', { tsType: kw('string') }),
+        exported('calculateQuote', 'function', {
+          params: [
+            param('request', ref('QuoteRequest')),
+            { kind: 'assign', left: param('discount', kw('number')), right: '0' },
+          ],
+          returnType: ref('Promise', [kw('number')]),
+          isAsync: true,
+        }, {
+          doc: 'Calculates a quote.\n\nRounds to cents.',
+          tags: [{ kind: 'param', name: 'request', doc: 'The request.' }, { kind: 'return', doc: 'The total.' }],
+        }),
+        exported('find', 'function', {
+          params: [param('sku', ref('Sku'))],
+          returnType: { kind: 'union', value: [ref('QuoteRequest'), kw('null')] },
+        }),
+        exported('log', 'function', {
+          params: [param('event', kw('string'), true)],
+          returnType: ref('Promise', [kw('void')]),
+        }),
+        exported('big', 'function', { params: [param('n', kw('bigint'))], returnType: ref('Date', []) }),
+      ],
+    },
+  },
+};
+
+Deno.test('naming: methods get Async, keywords are escaped, class from the file name', () => {
+  assertEquals(proxyMethodName('calculateQuote'), 'CalculateQuoteAsync');
+  assertEquals(csParamName('event'), '@event');
+  assertEquals(csParamName('cancellationToken'), '@cancellationToken');
+  assertEquals(proxyClassName('order-pricing.ts'), 'OrderPricingProxy');
+});
+
+Deno.test('buildProxyModel: interfaces become flattened records', () => {
+  const { records } = buildProxyModel(DOC);
+  assertEquals(records.map((r) => r.name), ['Entity', 'QuoteRequest']);
+  assertEquals(records[1].properties.map((p) => [p.jsonName, p.csName, p.csType, p.optional]), [
+    ['id', 'Id', 'string', false],
+    ['sku', 'Sku', 'string', false],
+    ['coupon', 'Coupon', 'string?', true],
+    ['tags', 'Tags', 'string[]', false],
+    ['prices', 'Prices', 'Dictionary<string, double>', false],
+    ['kind', 'Kind', 'string', false],
+  ]);
+});
+
+Deno.test('buildProxyModel: functions become methods; unsupported types fall back to JsonElement with a warning', () => {
+  const { methods, warnings } = buildProxyModel(DOC);
+  assertEquals(
+    methods.map((
+      m,
+    ) => [m.csName, m.csReturnType, m.params.map((p) => `${p.csType} ${p.name}${p.optional ? '?' : ''}`)]),
+    [
+      ['CalculateQuoteAsync', 'double', ['QuoteRequest request', 'double? discount?']],
+      ['FindAsync', 'QuoteRequest?', ['string sku']],
+      ['LogAsync', null, ['string? @event?']],
+      ['BigAsync', 'JsonElement', ['JsonElement n']],
+    ],
+  );
+  assertEquals(warnings, [
+    'big() parameter n: `bigint` has no JSON equivalent in C#; using JsonElement',
+    'big() return type: `Date` has no JSON equivalent in C#; using JsonElement',
+  ]);
+});
+
+Deno.test('buildProxyModel: exports mapping to the same method name are rejected', () => {
+  const doc = {
+    nodes: {
+      'file:///m.ts': {
+        symbols: [exported('run_it', 'function', { params: [] }), exported('runIt', 'function', { params: [] })],
+      },
+    },
+  };
+  assertThrows(() => buildProxyModel(doc), Error, 'Exports "run_it" and "runIt" both map to RunItAsync');
+});
+
+Deno.test('renderProxyFile: records and a DenoModuleProxy subclass', () => {
+  const cs = renderProxyFile(buildProxyModel(DOC), {
+    namespace: 'MyApp',
+    className: 'PricingProxy',
+    source: 'pricing.ts',
+  });
+  assertStringIncludes(cs, 'namespace MyApp;');
+  assertStringIncludes(
+    cs,
+    [
+      '  [JsonPropertyName("coupon")]',
+      '  [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]',
+      '  public string? Coupon { get; init; }',
+    ].join('\n'),
+  );
+  assertStringIncludes(cs, '  public required string Sku { get; init; }');
+  assertStringIncludes(
+    cs,
+    'public partial class PricingProxy(string module, DenoExecuteBaseOptions? baseOptions = null)\n  : DenoModuleProxy(module, baseOptions)',
+  );
+  assertStringIncludes(
+    cs,
+    [
+      '  /// <summary>Calculates a quote.</summary>',
+      '  /// <remarks>',
+      '  /// <para>Rounds to cents.</para>',
+      '  /// </remarks>',
+      '  /// <param name="request">The request.</param>',
+      '  /// <returns>The total.</returns>',
+      '  public Task<double> CalculateQuoteAsync(QuoteRequest request, double? discount = null, CancellationToken cancellationToken = default)',
+      '    => InvokeAsync<double>("calculateQuote", 1, [request, discount], cancellationToken);',
+    ].join('\n'),
+  );
+  assertStringIncludes(
+    cs,
+    '  public Task LogAsync(string? @event = null, CancellationToken cancellationToken = default)\n    => InvokeAsync("log", 0, [@event], cancellationToken);',
+  );
+});
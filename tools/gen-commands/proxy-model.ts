@@ -0,0 +1,448 @@
+// Builds typed C# proxies for a TypeScript module from its `deno doc --json` output: exported interfaces (and object
+// type aliases) become records, exported functions become async methods of a `DenoModuleProxy` subclass.
+// Arguments and results cross the process boundary as JSON, so only JSON-shaped types map to C# types; everything
+// else becomes `JsonElement` and is reported as a warning. Pure functions only — generate-proxy.ts owns all I/O.
+
+import { escapeXml, toCsIdentifier } from './generate.ts';
+import { csStringLiteral, inlineXml } from './xml-doc.ts';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+// deno-lint-ignore no-explicit-any
+export type DocNode = any;
+
+export interface ProxyProperty {
+  jsonName: string;
+  csName: string;
+  csType: string;
+  optional: boolean; // `name?:` — omitted from the JSON when null
+  doc: string | null;
+}
+
+export interface ProxyRecord {
+  name: string;
+  doc: string | null;
+  properties: ProxyProperty[];
+}
+
+export interface ProxyParam {
+  name: string; // C# identifier (`@`-prefixed for keywords)
+  csType: string;
+  optional: boolean; // may be left out: passed as `undefined` when null
+  doc: string | null;
+}
+
+export interface ProxyMethod {
+  exportName: string;
+  csName: string;
+  csReturnType: string | null; // null: the function returns nothing (`void`, `Promise<void>`)
+  doc: string | null;
+  returnsDoc: string | null;
+  params: ProxyParam[];
+}
+
+export interface ProxyModel {
+  records: ProxyRecord[];
+  methods: ProxyMethod[];
+  warnings: string[];
+}
+
+export interface ProxyOptions {
+  namespace: string;
+  className: string;
+  source: string; // module file name, for the header and docs
+}
+
+const JSON_ELEMENT = 'JsonElement';
+
+// JSON-shaped keywords and literal kinds; other keywords (`bigint`, `symbol`, `never`, …) have no JSON form.
+const KEYWORD_TYPES: Record<string, string> = {
+  string: 'string',
+  number: 'double',
+  boolean: 'bool',
+  any: JSON_ELEMENT,
+  unknown: JSON_ELEMENT,
+  object: JSON_ELEMENT,
+};
+const LITERAL_TYPES: Record<string, string> = {
+  string: 'string',
+  template: 'string',
+  number: 'double',
+  boolean: 'bool',
+};
+
+const CS_KEYWORDS = new Set([
+  'abstract',
+  'as',
+  'base',
+  'bool',
+  'break',
+  'byte',
+  'case',
+  'catch',
+  'char',
+  'checked',
+  'class',
+  'const',
+  'continue',
+  'decimal',
+  'default',
+  'delegate',
+  'do',
+  'double',
+  'else',
+  'enum',
+  'event',
+  'explicit',
+  'extern',
+  'false',
+  'finally',
+  'fixed',
+  'float',
+  'for',
+  'foreach',
+  'goto',
+  'if',
+  'implicit',
+  'in',
+  'int',
+  'interface',
+  'internal',
+  'is',
+  'lock',
+  'long',
+  'namespace',
+  'new',
+  'null',
+  'object',
+  'operator',
+  'out',
+  'override',
+  'params',
+  'private',
+  'protected',
+  'public',
+  'readonly',
+  'ref',
+  'return',
+  'sbyte',
+  'sealed',
+  'short',
+  'sizeof',
+  'stackalloc',
+  'static',
+  'string',
+  'struct',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'uint',
+  'ulong',
+  'unchecked',
+  'unsafe',
+  'ushort',
+  'using',
+  'virtual',
+  'void',
+  'volatile',
+  'while',
+]);
+
+// ─── Naming ───────────────────────────────────────────────────────────────────
+
+/** `calculateQuote` → `CalculateQuoteAsync` */
+export function proxyMethodName(exportName: string): string {
+  return `${toCsIdentifier(exportName)}Async`;
+}
+
+export function csParamName(name: string): string {
+  const id = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return CS_KEYWORDS.has(id) || id === 'cancellationToken' ? `@${id}` : id;
+}
+
+/** `pricing.ts` → `PricingProxy` */
+export function proxyClassName(moduleFile: string): string {
+  return `${toCsIdentifier(moduleFile.replace(/\.[cm]?[jt]sx?$/, ''))}Proxy`;
+}
+
+// ─── Type mapping ─────────────────────────────────────────────────────────────
+
+export function nullable(csType: string): string {
+  return csType.endsWith('?') || csType === JSON_ELEMENT ? csType : `${csType}?`;
+}
+
+function isNullish(t: DocNode): boolean {
+  return t?.kind === 'keyword' && (t.value === 'null' || t.value === 'undefined');
+}
+
+/**
+ * C# type for a `deno doc` tsType. `records` are the names of the generated records, `aliases` the other local type
+ * aliases (resolved in place); `where` names the use site in warnings.
+ */
+export function mapTsType(t: DocNode, ctx: TypeContext, where: string): string {
+  const unsupported = (what: string): string => {
+    ctx.warnings.push(`${where}: ${what} has no JSON equivalent in C#; using JsonElement`);
+    return JSON_ELEMENT;
+  };
+  if (!t) return unsupported('a missing type annotation');
+
+  switch (t.kind) {
+    case 'keyword':
+      return KEYWORD_TYPES[t.value] ?? unsupported(`\`${t.value}\``);
+    case 'literal':
+      return LITERAL_TYPES[t.value?.kind] ?? unsupported(`the literal \`${t.repr}\``);
+    case 'parenthesized':
+      return mapTsType(t.value, ctx, where);
+    case 'typeOperator':
+      return t.value?.operator === 'readonly'
+        ? mapTsType(t.value.tsType, ctx, where)
+        : unsupported(`\`${t.value?.operator}\``);
+    case 'array':
+      return `${mapTsType(t.value, ctx, where)}[]`;
+    case 'union': {
+      const members = (t.value as DocNode[]).filter((m) => !isNullish(m));
+      const types = [...new Set(members.map((m) => mapTsType(m, ctx, where)))];
+      const csType = types.length === 1 ? types[0] : unsupported('a union of different types');
+      return members.length < t.value.length ? nullable(csType) : csType;
+    }
+    case 'typeLiteral': {
+      const index = t.value?.indexSignatures ?? [];
+      const members = (t.value?.properties?.length ?? 0) + (t.value?.methods?.length ?? 0);
+      if (index.length === 1 && members === 0 && index[0].params?.[0]?.tsType?.value === 'string') {
+        return `Dictionary<string, ${mapTsType(index[0].tsType, ctx, where)}>`;
+      }
+      return unsupported('an inline object type (export it as an interface)');
+    }
+    case 'typeRef': {
+      const name: string = t.value?.typeName;
+      const params: DocNode[] = t.value?.typeParams ?? [];
+      if (t.value?.resolution?.kind === 'typeParam') return unsupported(`the type parameter \`${name}\``);
+      if ((name === 'Array' || name === 'ReadonlyArray') && params.length === 1) {
+        return `${mapTsType(params[0], ctx, where)}[]`;
+      }
+      if (name === 'Record' && params.length === 2 && params[0]?.value === 'string') {
+        return `Dictionary<string, ${mapTsType(params[1], ctx, where)}>`;
+      }
+      if (ctx.records.has(name)) return name;
+      if (ctx.aliases.has(name)) return mapTsType(ctx.aliases.get(name), ctx, where);
+      return unsupported(`\`${t.repr ?? name}\``);
+    }
+    default:
+      return unsupported(`\`${t.repr ?? t.kind}\``);
+  }
+}
+
+export interface TypeContext {
+  records: Set<string>;
+  aliases: Map<string, DocNode>; // alias name → its tsType
+  warnings: string[];
+}
+
+// ─── Model ────────────────────────────────────────────────────────────────────
+
+function docText(jsDoc: DocNode): string | null {
+  return jsDoc?.doc?.trim() || null;
+}
+
+function tagDoc(jsDoc: DocNode, kind: string, name?: string): string | null {
+  const tag = (jsDoc?.tags ?? []).find((t: DocNode) => t.kind === kind && (name === undefined || t.name === name));
+  return tag?.doc?.trim() || null;
+}
+
+/** Exported symbols of the root module: `nodes[<specifier>].symbols` (deno doc JSON v2). */
+export function rootSymbols(doc: DocNode): DocNode[] {
+  const nodes = doc?.nodes;
+  if (!nodes || typeof nodes !== 'object') throw new Error('Unexpected `deno doc --json` output: no "nodes"');
+  const [root] = Object.values(nodes) as DocNode[];
+  return root?.symbols ?? [];
+}
+
+export function buildProxyModel(doc: DocNode): ProxyModel {
+  const symbols = rootSymbols(doc);
+  const exported = symbols.flatMap((s: DocNode) =>
+    (s.declarations ?? []).filter((d: DocNode) => d.declarationKind === 'export').map((d: DocNode) => ({
+      name: s.name as string,
+      decl: d,
+    }))
+  );
+  const isRecord = (d: DocNode) =>
+    d.kind === 'interface' ||
+    (d.kind === 'typeAlias' && d.def?.tsType?.kind === 'typeLiteral' &&
+      (d.def.tsType.value?.properties?.length ?? 0) > 0);
+
+  const ctx: TypeContext = {
+    records: new Set(exported.filter((e) => isRecord(e.decl)).map((e) => e.name)),
+    aliases: new Map(
+      exported.filter((e) => e.decl.kind === 'typeAlias' && !isRecord(e.decl)).map((e) => [e.name, e.decl.def?.tsType]),
+    ),
+    warnings: [],
+  };
+  const interfaces = new Map(exported.filter((e) => e.decl.kind === 'interface').map((e) => [e.name, e.decl]));
+
+  // Interface properties including those of local base interfaces (records do not inherit, they are flattened).
+  const ownProperties = (decl: DocNode): DocNode[] =>
+    decl.kind === 'interface' ? decl.def?.properties ?? [] : decl.def?.tsType?.value?.properties ?? [];
+  const allProperties = (decl: DocNode, seen = new Set<DocNode>()): DocNode[] => {
+    if (seen.has(decl)) return [];
+    seen.add(decl);
+    const inherited = (decl.def?.extends ?? []).flatMap((e: DocNode) => {
+      const base = interfaces.get(e.value?.typeName);
+      return base ? allProperties(base, seen) : [];
+    });
+    return [...inherited, ...ownProperties(decl)];
+  };
+
+  const records: ProxyRecord[] = exported.filter((e) => isRecord(e.decl)).map(({ name, decl }) => {
+    for (const e of decl.def?.extends ?? []) {
+      if (!interfaces.has(e.value?.typeName)) {
+        ctx.warnings.push(
+          `${name}: base type \`${e.repr}\` is not an interface of this module; its properties are missing`,
+        );
+      }
+    }
+    const properties = allProperties(decl).map((p: DocNode): ProxyProperty => {
+      const csType = mapTsType(p.tsType, ctx, `${name}.${p.name}`);
+      return {
+        jsonName: p.name,
+        csName: toCsIdentifier(p.name),
+        csType: p.optional ? nullable(csType) : csType,
+        optional: p.optional === true,
+        doc: docText(p.jsDoc),
+      };
+    });
+    return { name, doc: docText(decl.jsDoc), properties };
+  });
+
+  const methods: ProxyMethod[] = exported.filter((e) => e.decl.kind === 'function').map(({ name, decl }) => {
+    const where = `${name}()`;
+    const params = (decl.def?.params ?? []).map((p: DocNode, i: number): ProxyParam => {
+      const id = p.kind === 'assign' ? p.left : p.kind === 'rest' ? p.arg : p;
+      const paramName: string = id?.kind === 'identifier' ? id.name : `arg${i}`;
+      const csType = mapTsType(p.tsType ?? id?.tsType, ctx, `${where} parameter ${paramName}`);
+      const optional = p.kind === 'assign' || id?.optional === true;
+      return {
+        name: csParamName(paramName),
+        csType: optional ? nullable(csType) : csType,
+        optional,
+        doc: tagDoc(decl.jsDoc, 'param', paramName),
+      };
+    });
+    // C# optional parameters must come last; an optional TS parameter followed by a required one stays required.
+    for (let i = params.length - 2; i >= 0; i--) if (!params[i + 1].optional) params[i].optional = false;
+
+    let returnType = decl.def?.returnType;
+    if (returnType?.kind === 'typeRef' && returnType.value?.typeName === 'Promise') {
+      returnType = returnType.value.typeParams?.[0];
+    }
+    const isVoid = returnType?.kind === 'keyword' && (returnType.value === 'void' || returnType.value === 'undefined');
+    return {
+      exportName: name,
+      csName: proxyMethodName(decl.def?.defName && name === 'default' ? decl.def.defName : name),
+      csReturnType: isVoid ? null : mapTsType(returnType, ctx, `${where} return type`),
+      doc: docText(decl.jsDoc),
+      returnsDoc: tagDoc(decl.jsDoc, 'return'),
+      params,
+    };
+  });
+
+  const seen = new Map<string, string>();
+  for (const m of methods) {
+    const other = seen.get(m.csName);
+    if (other) throw new Error(`Exports "${other}" and "${m.exportName}" both map to ${m.csName}`);
+    seen.set(m.csName, m.exportName);
+  }
+
+  return { records, methods, warnings: ctx.warnings };
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+// First paragraph → <summary>, the rest → <remarks> paragraphs.
+function renderDoc(doc: string | null, indent: string, fallback: string | null = null): string[] {
+  const paragraphs = (doc ?? '').split(/\n\s*\n/).map((p) => p.replace(/\s*\n\s*/g, ' ').trim()).filter(Boolean);
+  const lines: string[] = [];
+  const summary = paragraphs.length > 0 ? inlineXml(paragraphs[0]) : fallback;
+  if (summary) lines.push(`${indent}/// <summary>${summary}</summary>`);
+  if (paragraphs.length > 1) {
+    lines.push(`${indent}/// <remarks>`);
+    for (const p of paragraphs.slice(1)) lines.push(`${indent}/// <para>${inlineXml(p)}</para>`);
+    lines.push(`${indent}/// </remarks>`);
+  }
+  return lines;
+}
+
+export function renderRecord(record: ProxyRecord): string {
+  const lines: string[] = [...renderDoc(record.doc, '')];
+  lines.push(`public sealed record ${record.name}`);
+  lines.push('{');
+  record.properties.forEach((p, i) => {
+    if (i > 0) lines.push('');
+    lines.push(...renderDoc(p.doc, '  '));
+    lines.push(`  [JsonPropertyName(${csStringLiteral(p.jsonName)})]`);
+    if (p.optional) lines.push('  [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]');
+    lines.push(`  public ${p.optional ? '' : 'required '}${p.csType} ${p.csName} { get; init; }`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function renderProxyMethod(method: ProxyMethod): string {
+  const lines: string[] = [...renderDoc(method.doc, '  ', `Calls <c>${escapeXml(method.exportName)}</c>.`)];
+  for (const p of method.params) {
+    if (p.doc) {
+      lines.push(
+        `  /// <param name="${p.name.replace(/^@/, '')}">${inlineXml(p.doc.replace(/\s*\n\s*/g, ' '))}</param>`,
+      );
+    }
+  }
+  if (method.returnsDoc) {
+    lines.push(`  /// <returns>${inlineXml(method.returnsDoc.replace(/\s*\n\s*/g, ' '))}</returns>`);
+  }
+
+  const params = method.params.map((p) => `${p.csType} ${p.name}${p.optional ? ' = null' : ''}`);
+  params.push('CancellationToken cancellationToken = default');
+  const task = method.csReturnType ? `Task<${method.csReturnType}>` : 'Task';
+  const invoke = method.csReturnType ? `InvokeAsync<${method.csReturnType}>` : 'InvokeAsync';
+  const required = method.params.filter((p) => !p.optional).length;
+  const args = method.params.map((p) => p.name).join(', ');
+  lines.push(`  public ${task} ${method.csName}(${params.join(', ')})`);
+  lines.push(`    => ${invoke}(${csStringLiteral(method.exportName)}, ${required}, [${args}], cancellationToken);`);
+  return lines.join('\n');
+}
+
+export function renderProxyFile(model: ProxyModel, options: ProxyOptions): string {
+  const { namespace, className, source } = options;
+  const lines: string[] = [];
+  lines.push('// <auto-generated/>');
+  lines.push('// Generated by tools/gen-commands/generate-proxy.ts');
+  lines.push(`// Source: \`deno doc --json ${source}\``);
+  lines.push('// Do not edit manually — run `deno task generate:proxy` in tools/gen-commands/ to regenerate.');
+  lines.push('#nullable enable');
+  lines.push('');
+  lines.push('using System.Collections.Generic;');
+  lines.push('using System.Text.Json;');
+  lines.push('using System.Text.Json.Serialization;');
+  lines.push('using System.Threading;');
+  lines.push('using System.Threading.Tasks;');
+  lines.push('using DenoHost.Core;');
+  lines.push('');
+  lines.push(`namespace ${namespace};`);
+  for (const record of model.records) {
+    lines.push('');
+    lines.push(renderRecord(record));
+  }
+  lines.push('');
+  lines.push(`/// <summary>Calls the exported functions of <c>${escapeXml(source)}</c> in a Deno process.</summary>`);
+  lines.push(`public partial class ${className}(string module, DenoExecuteBaseOptions? baseOptions = null)`);
+  lines.push('  : DenoModuleProxy(module, baseOptions)');
+  lines.push('{');
+  model.methods.forEach((m, i) => {
+    if (i > 0) lines.push('');
+    lines.push(renderProxyMethod(m));
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
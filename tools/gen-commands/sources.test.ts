@@ -0,0 +1,106 @@
+import { assertEquals, assertRejects, assertThrows } from '@std/assert';
+import { join } from '@std/path';
+import {
+  type GeneratorSources,
+  parseGeneratorMode,
+  readSnapshotSources,
+  schemaUrl,
+  writeSnapshotSources,
+} from './sources.ts';
+
+const SOURCES: GeneratorSources = {
+  denoVersion: '2.9.5',
+  reference: { name: 'deno', about: null, args: [], subcommands: [{ name: 'run', about: null, args: [] }] },
+  schema: { $defs: { permissionSet: { properties: { read: {} } } } },
+};
+
+// ─── parseGeneratorMode ───────────────────────────────────────────────────────
+
+Deno.test('parseGeneratorMode: defaults to live', () => {
+  assertEquals(parseGeneratorMode([]), 'live');
+});
+
+Deno.test('parseGeneratorMode: --offline and --refresh', () => {
+  assertEquals(parseGeneratorMode(['--offline']), 'offline');
+  assertEquals(parseGeneratorMode(['--refresh']), 'refresh');
+});
+
+Deno.test('parseGeneratorMode: --offline and --refresh are mutually exclusive', () => {
+  assertThrows(() => parseGeneratorMode(['--offline', '--refresh']), Error, 'cannot be combined');
+});
+
+// ─── Snapshot round trip ──────────────────────────────────────────────────────
+
+Deno.test('writeSnapshotSources/readSnapshotSources: round trip without network', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const refPath = join(dir, 'ref.json');
+    const schemaPath = join(dir, 'schema.json');
+    await writeSnapshotSources(SOURCES, refPath, schemaPath);
+
+    assertEquals(await readSnapshotSources(refPath, schemaPath), SOURCES);
+    const schemaSnapshot = JSON.parse(await Deno.readTextFile(schemaPath));
+    assertEquals(schemaSnapshot.url, schemaUrl('2.9.5'));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('writeSnapshotSources: output is byte-for-byte deterministic', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const paths = [
+      join(dir, 'a-ref.json'),
+      join(dir, 'a-schema.json'),
+      join(dir, 'b-ref.json'),
+      join(dir, 'b-schema.json'),
+    ];
+    await writeSnapshotSources(SOURCES, paths[0], paths[1]);
+    await writeSnapshotSources(structuredClone(SOURCES), paths[2], paths[3]);
+    assertEquals(await Deno.readTextFile(paths[0]), await Deno.readTextFile(paths[2]));
+    assertEquals(await Deno.readTextFile(paths[1]), await Deno.readTextFile(paths[3]));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('readSnapshotSources: missing snapshot points at generate:refresh', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await assertRejects(
+      () => readSnapshotSources(join(dir, 'missing.json'), join(dir, 'schema.json')),
+      Error,
+      'generate:refresh',
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('readSnapshotSources: a missing schema snapshot fails too', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const refPath = join(dir, 'ref.json');
+    const schemaPath = join(dir, 'schema.json');
+    await writeSnapshotSources(SOURCES, refPath, schemaPath);
+    await Deno.remove(schemaPath);
+
+    await assertRejects(() => readSnapshotSources(refPath, schemaPath), Error, `Snapshot not found: ${schemaPath}`);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('readSnapshotSources: rejects snapshots from different Deno versions', async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const refPath = join(dir, 'ref.json');
+    const schemaPath = join(dir, 'schema.json');
+    await writeSnapshotSources(SOURCES, refPath, schemaPath);
+    await writeSnapshotSources({ ...SOURCES, denoVersion: '2.9.4' }, join(dir, 'old-ref.json'), schemaPath);
+
+    await assertRejects(() => readSnapshotSources(refPath, schemaPath), Error, 'Snapshots disagree');
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
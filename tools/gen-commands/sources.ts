@@ -0,0 +1,137 @@
+// Loads the generator inputs (`deno json_reference` + Deno config-file schema) either live or from the
+// checked-in snapshots, so generation can run without network access.
+
+import { dirname, join } from '@std/path';
+import type { DenoReference } from './generate.ts';
+
+const SCRIPT_DIR = dirname(import.meta.filename!);
+// The Deno config-file JSON schema, as fetched; only walked loosely for the permission types
+// deno-lint-ignore no-explicit-any
+export type JsonSchema = any;
+
+export const REFERENCE_SNAPSHOT_FILE = join(SCRIPT_DIR, 'json_reference.snapshot.json');
+export const SCHEMA_SNAPSHOT_FILE = join(SCRIPT_DIR, 'config_schema.snapshot.json');
+
+// live    — run the local deno binary and fetch the schema from GitHub (default)
+// offline — read both inputs from the snapshots only; no network, no deno subprocess
+// refresh — like live, then overwrite the snapshots with what was read
+export type GeneratorMode = 'live' | 'offline' | 'refresh';
+
+export interface GeneratorSources {
+  denoVersion: string;
+  reference: DenoReference;
+  schema: JsonSchema;
+}
+
+export interface ReferenceSnapshot {
+  denoVersion: string;
+  reference: DenoReference;
+}
+
+export interface SchemaSnapshot {
+  denoVersion: string;
+  url: string;
+  schema: JsonSchema;
+}
+
+export function schemaUrl(denoVersion: string): string {
+  return `https://raw.githubusercontent.com/denoland/deno/v${denoVersion}/cli/schemas/config-file.v1.json`;
+}
+
+export function parseGeneratorMode(args: string[]): GeneratorMode {
+  const offline = args.includes('--offline');
+  const refresh = args.includes('--refresh');
+  if (offline && refresh) throw new Error('--offline and --refresh cannot be combined.');
+  return offline ? 'offline' : refresh ? 'refresh' : 'live';
+}
+
+async function readJsonFile<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path)) as T;
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+}
+
+/** Reads the `deno json_reference` snapshot; `null` when it does not exist yet. */
+export async function readReferenceSnapshot(path = REFERENCE_SNAPSHOT_FILE): Promise<ReferenceSnapshot | null> {
+  const snapshot = await readJsonFile<ReferenceSnapshot>(path);
+  if (snapshot && (!snapshot.denoVersion || !snapshot.reference)) throw new Error(`Malformed snapshot: ${path}`);
+  return snapshot;
+}
+
+/** Reads the config-file schema snapshot; `null` when it does not exist yet. */
+export async function readSchemaSnapshot(path = SCHEMA_SNAPSHOT_FILE): Promise<SchemaSnapshot | null> {
+  const snapshot = await readJsonFile<SchemaSnapshot>(path);
+  if (snapshot && (!snapshot.denoVersion || !snapshot.schema)) throw new Error(`Malformed snapshot: ${path}`);
+  return snapshot;
+}
+
+export async function readSnapshotSources(
+  referencePath = REFERENCE_SNAPSHOT_FILE,
+  schemaPath = SCHEMA_SNAPSHOT_FILE,
+): Promise<GeneratorSources> {
+  const hint = 'Run `deno task generate:refresh` once with network access to create it.';
+  const ref = await readReferenceSnapshot(referencePath);
+  if (!ref) throw new Error(`Snapshot not found: ${referencePath}. ${hint}`);
+  const schema = await readSchemaSnapshot(schemaPath);
+  if (!schema) throw new Error(`Snapshot not found: ${schemaPath}. ${hint}`);
+
+  if (ref.denoVersion !== schema.denoVersion) {
+    throw new Error(
+      `Snapshots disagree: json_reference is from Deno ${ref.denoVersion}, schema from Deno ${schema.denoVersion}. ` +
+        'Run `deno task generate:refresh` to update both.',
+    );
+  }
+
+  return { denoVersion: ref.denoVersion, reference: ref.reference, schema: schema.schema };
+}
+
+export async function writeSnapshotSources(
+  sources: GeneratorSources,
+  referencePath = REFERENCE_SNAPSHOT_FILE,
+  schemaPath = SCHEMA_SNAPSHOT_FILE,
+): Promise<void> {
+  const ref: ReferenceSnapshot = { denoVersion: sources.denoVersion, reference: sources.reference };
+  await Deno.writeTextFile(referencePath, JSON.stringify(ref, null, 2) + '\n');
+  const schema: SchemaSnapshot = {
+    denoVersion: sources.denoVersion,
+    url: schemaUrl(sources.denoVersion),
+    schema: sources.schema,
+  };
+  await Deno.writeTextFile(schemaPath, JSON.stringify(schema, null, 2) + '\n');
+}
+
+async function loadLiveSources(): Promise<GeneratorSources> {
+  const versionProc = new Deno.Command('deno', { args: ['--version'], stdout: 'piped' });
+  const { stdout: versionOut } = await versionProc.output();
+  const denoVersion = new TextDecoder().decode(versionOut).match(/deno (\S+)/)?.[1] ?? 'unknown';
+
+  const refProc = new Deno.Command('deno', { args: ['json_reference'], stdout: 'piped' });
+  const { stdout: refOut, success } = await refProc.output();
+  if (!success) throw new Error('deno json_reference failed');
+  const reference: DenoReference = JSON.parse(new TextDecoder().decode(refOut));
+
+  const url = schemaUrl(denoVersion);
+  console.log(`Fetching schema: ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch schema: ${response.status} ${response.statusText}`);
+  const schema: JsonSchema = await response.json();
+
+  return { denoVersion, reference, schema };
+}
+
+export async function loadSources(mode: GeneratorMode): Promise<GeneratorSources> {
+  if (mode === 'offline') {
+    console.log('Offline mode: reading json_reference and schema snapshots');
+    return await readSnapshotSources();
+  }
+
+  const sources = await loadLiveSources();
+  if (mode === 'refresh') {
+    await writeSnapshotSources(sources);
+    console.log(`  Snapshots refreshed → ${REFERENCE_SNAPSHOT_FILE}, ${SCHEMA_SNAPSHOT_FILE}`);
+  }
+  return sources;
+}
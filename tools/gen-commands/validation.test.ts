@@ -0,0 +1,106 @@
+import { assertEquals, assertThrows } from '@std/assert';
+import { type DenoArg, inferProperty } from './generate.ts';
+import {
+  buildValidationRules,
+  parseValidationOverrides,
+  readValidationOverrides,
+  renderValidateMethod,
+  type ValidationOverrides,
+} from './validation.ts';
+
+function arg(long: string, usage: string, extra: Partial<DenoArg> = {}): DenoArg {
+  return { name: long, short: null, long, required: false, help: null, help_heading: null, usage, ...extra };
+}
+
+const NONE: ValidationOverrides = { conflicts: [], requires: [] };
+
+const LOCK = arg('lock', '--lock[=<FILE>]');
+const NO_LOCK = arg('no-lock', '--no-lock');
+const WATCH = arg('watch', '--watch[=<FILES>...]');
+const WATCH_HMR = arg('watch-hmr', '--watch-hmr[=<FILES>...]');
+const NO_CLEAR_SCREEN = arg('no-clear-screen', '--no-clear-screen');
+const ALLOW_ALL = arg('allow-all', '--allow-all');
+const ALLOW_READ = arg('allow-read', '--allow-read[=<PATH>...]');
+const ALLOW_SCRIPTS = arg('allow-scripts', '--allow-scripts[=<PACKAGE>...]');
+const DENY_READ = arg('deny-read', '--deny-read[=<PATH>...]');
+
+Deno.test('buildValidationRules: --x/--no-x pairs conflict', () => {
+  assertEquals(buildValidationRules('run', [LOCK, NO_LOCK, arg('no-remote', '--no-remote')], NONE), [
+    { kind: 'conflict', flag: 'lock', other: 'no-lock' },
+  ]);
+});
+
+Deno.test('buildValidationRules: reference metadata comes first and is deduplicated', () => {
+  const args = [
+    arg('lock', '--lock[=<FILE>]', { conflicts_with: ['no-lock'], requires: ['frozen'] }),
+    NO_LOCK,
+    arg('frozen', '--frozen'),
+    arg('x', '--x <X>', { required: true }),
+  ];
+  assertEquals(buildValidationRules('run', args, NONE), [
+    { kind: 'conflict', flag: 'lock', other: 'no-lock' },
+    { kind: 'requires', flag: 'lock', anyOf: ['frozen'] },
+    { kind: 'required', flag: 'x' },
+  ]);
+});
+
+Deno.test('buildValidationRules: overrides expand prefixes, honour except and skip missing flags', () => {
+  const overrides = parseValidationOverrides({
+    conflicts: [{ flag: 'allow-all', conflictsWith: ['allow-*'], except: ['allow-scripts'] }, {
+      flag: 'watch',
+      conflictsWith: ['watch-hmr'],
+    }],
+    requires: [{ flag: 'no-clear-screen', anyOf: ['watch', 'watch-hmr'] }],
+  });
+  assertEquals(
+    buildValidationRules('run', [ALLOW_ALL, ALLOW_READ, ALLOW_SCRIPTS, DENY_READ, WATCH, NO_CLEAR_SCREEN], overrides),
+    [
+      { kind: 'conflict', flag: 'allow-all', other: 'allow-read' },
+      { kind: 'requires', flag: 'no-clear-screen', anyOf: ['watch'] },
+    ],
+  );
+});
+
+Deno.test('buildValidationRules: commands scope an override', () => {
+  const overrides = parseValidationOverrides({
+    conflicts: [{ flag: 'watch', conflictsWith: ['watch-hmr'], commands: ['serve'] }],
+  });
+  assertEquals(buildValidationRules('run', [WATCH, WATCH_HMR], overrides), []);
+  assertEquals(buildValidationRules('serve', [WATCH, WATCH_HMR], overrides).length, 1);
+});
+
+Deno.test('parseValidationOverrides: malformed entries are rejected', () => {
+  assertThrows(() => parseValidationOverrides([]), Error, 'expected an object');
+  assertThrows(() => parseValidationOverrides({ conflicts: [{ flag: 'a' }] }), Error, 'conflicts[0]');
+  assertThrows(() => parseValidationOverrides({ requires: [{ flag: 'a', anyOf: [] }] }), Error, 'requires[0]');
+});
+
+Deno.test('readValidationOverrides: the committed validation-rules.json is valid', async () => {
+  const overrides = await readValidationOverrides();
+  assertEquals(overrides.conflicts.some((r) => r.flag === 'allow-all'), true);
+});
+
+Deno.test('readValidationOverrides: --allow-all combines with --deny-* (the deny flags narrow -A)', async () => {
+  const overrides = await readValidationOverrides();
+  assertEquals(buildValidationRules('run', [ALLOW_ALL, ALLOW_READ, DENY_READ], overrides), [
+    { kind: 'conflict', flag: 'allow-all', other: 'allow-read' },
+  ]);
+});
+
+Deno.test('renderValidateMethod: checks mirror what ToArgs() emits', () => {
+  const args = [LOCK, NO_LOCK, WATCH, WATCH_HMR, NO_CLEAR_SCREEN];
+  const props = args.map((a) => inferProperty(a, 'run')!);
+  const rules = buildValidationRules('run', args, {
+    conflicts: [],
+    requires: [{ flag: 'no-clear-screen', anyOf: ['watch', 'watch-hmr'] }],
+  });
+  assertEquals(renderValidateMethod('run', rules, props).slice(2), [
+    '  public void Validate()',
+    '  {',
+    '    var errors = new List<string>();',
+    `    if (Lock is not null && NoLock == true) errors.Add("'--lock' cannot be used with '--no-lock'.");`,
+    `    if (NoClearScreen == true && Watch is null && WatchHmr is null) errors.Add("'--no-clear-screen' requires '--watch' or '--watch-hmr'.");`,
+    '    if (errors.Count > 0) throw new DenoOptionsValidationException("run", errors);',
+    '  }',
+  ]);
+});
@@ -0,0 +1,186 @@
+// Flag conflict and requirement rules for the generated XxxOptions.Validate() methods. Rules come from three
+// sources, in order: clap metadata in the reference (`required`, `conflicts_with`, `requires`), `--x`/`--no-x`
+// naming pairs, and validation-rules.json for what the reference does not expose.
+
+import { join } from '@std/path';
+import type { DenoArg, Property } from './generate.ts';
+
+export type ValidationRule =
+  | { kind: 'required'; flag: string }
+  | { kind: 'conflict'; flag: string; other: string }
+  | { kind: 'requires'; flag: string; anyOf: string[] };
+
+// validation-rules.json: flag names without `--`; `*` at the end matches a prefix (`allow-*`).
+export interface ValidationOverrides {
+  conflicts: { flag: string; conflictsWith: string[]; except?: string[]; commands?: string[] }[];
+  requires: { flag: string; anyOf: string[]; commands?: string[] }[];
+}
+
+export const VALIDATION_RULES_FILE = join(import.meta.dirname!, 'validation-rules.json');
+
+export async function readValidationOverrides(path = VALIDATION_RULES_FILE): Promise<ValidationOverrides> {
+  return parseValidationOverrides(JSON.parse(await Deno.readTextFile(path)), path);
+}
+
+/** Checks the shape of validation-rules.json; a typo there would otherwise silently drop a rule. */
+export function parseValidationOverrides(json: unknown, source = 'validation-rules.json'): ValidationOverrides {
+  const fail = (message: string): never => {
+    throw new Error(`${source}: ${message}`);
+  };
+  const isStrings = (v: unknown): v is string[] =>
+    Array.isArray(v) && v.every((s) => typeof s === 'string' && s.length > 0);
+  const isRecord = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+  if (!isRecord(json)) fail('expected an object');
+  const root = json as Record<string, unknown>;
+  const conflicts = root.conflicts ?? [];
+  const requires = root.requires ?? [];
+  if (!Array.isArray(conflicts)) fail('"conflicts" must be an array');
+  if (!Array.isArray(requires)) fail('"requires" must be an array');
+
+  (conflicts as unknown[]).forEach((rule, i) => {
+    if (!isRecord(rule) || typeof rule.flag !== 'string' || !isStrings(rule.conflictsWith)) {
+      fail(`conflicts[${i}] needs "flag" and a non-empty "conflictsWith" list`);
+    }
+    if (
+      (rule as Record<string, unknown>).commands !== undefined && !isStrings((rule as Record<string, unknown>).commands)
+    ) {
+      fail(`conflicts[${i}].commands must be a list of subcommands`);
+    }
+    if (
+      (rule as Record<string, unknown>).except !== undefined && !isStrings((rule as Record<string, unknown>).except)
+    ) {
+      fail(`conflicts[${i}].except must be a list of flags`);
+    }
+  });
+  (requires as unknown[]).forEach((rule, i) => {
+    if (!isRecord(rule) || typeof rule.flag !== 'string' || !isStrings(rule.anyOf) || rule.anyOf.length === 0) {
+      fail(`requires[${i}] needs "flag" and a non-empty "anyOf" list`);
+    }
+    if (
+      (rule as Record<string, unknown>).commands !== undefined && !isStrings((rule as Record<string, unknown>).commands)
+    ) {
+      fail(`requires[${i}].commands must be a list of subcommands`);
+    }
+  });
+
+  return { conflicts, requires } as ValidationOverrides;
+}
+
+function matches(pattern: string, flag: string): boolean {
+  return pattern.endsWith('*') ? flag.startsWith(pattern.slice(0, -1)) : flag === pattern;
+}
+
+function appliesTo(rule: { commands?: string[] }, command: string): boolean {
+  return !rule.commands || rule.commands.includes(command);
+}
+
+/** Rules for one subcommand, restricted to flags its options class actually has. */
+export function buildValidationRules(
+  command: string,
+  args: DenoArg[],
+  overrides: ValidationOverrides,
+): ValidationRule[] {
+  const flags = args.map((a) => a.long!);
+  const has = new Set(flags);
+  const rules: ValidationRule[] = [];
+  const conflictKeys = new Set<string>();
+
+  const addConflict = (flag: string, other: string) => {
+    if (flag === other || !has.has(flag) || !has.has(other)) return;
+    const key = [flag, other].sort().join('\0');
+    if (conflictKeys.has(key)) return;
+    conflictKeys.add(key);
+    rules.push({ kind: 'conflict', flag, other });
+  };
+  const addRequires = (flag: string, anyOf: string[]) => {
+    const present = anyOf.filter((f) => has.has(f));
+    if (has.has(flag) && present.length > 0) rules.push({ kind: 'requires', flag, anyOf: present });
+  };
+
+  // 1. Reference metadata
+  for (const arg of args) {
+    if (arg.required) rules.push({ kind: 'required', flag: arg.long! });
+    for (const other of arg.conflicts_with ?? []) addConflict(arg.long!, other);
+    for (const required of arg.requires ?? []) addRequires(arg.long!, [required]);
+  }
+
+  // 2. --x / --no-x
+  for (const flag of flags) {
+    if (flag.startsWith('no-')) addConflict(flag.slice(3), flag);
+  }
+
+  // 3. validation-rules.json
+  for (const rule of overrides.conflicts.filter((r) => appliesTo(r, command))) {
+    for (const pattern of rule.conflictsWith) {
+      for (const other of flags.filter((f) => matches(pattern, f) && !rule.except?.includes(f))) {
+        addConflict(rule.flag, other);
+      }
+    }
+  }
+  for (const rule of overrides.requires.filter((r) => appliesTo(r, command))) addRequires(rule.flag, rule.anyOf);
+
+  return rules;
+}
+
+/** Expression that is true when ToArgs() emits the flag (or, negated, when it does not); mirrors renderToArgsLine. */
+export function isSetExpression(prop: Property, negated = false): string {
+  const n = prop.csName;
+  switch (prop.argStyle) {
+    case 'flag':
+      return negated ? `${n} != true` : `${n} == true`;
+    case 'array':
+      return negated ? `${n} is not { Length: > 0 }` : `${n} is { Length: > 0 }`;
+    case 'boolopt':
+    case 'intvalue':
+    case 'longvalue':
+      return negated ? `!${n}.HasValue` : `${n}.HasValue`;
+    default:
+      return negated ? `${n} is null` : `${n} is not null`;
+  }
+}
+
+function quote(flag: string): string {
+  return `'--${flag}'`;
+}
+
+/** One generated check per rule; the messages follow clap's wording. */
+export function renderValidationCheck(rule: ValidationRule, byFlag: Map<string, Property>): string {
+  const isSet = (flag: string, negated = false) => isSetExpression(byFlag.get(`--${flag}`)!, negated);
+  switch (rule.kind) {
+    case 'required':
+      return `    if (${isSet(rule.flag, true)}) errors.Add("${quote(rule.flag)} is required.");`;
+    case 'conflict':
+      return `    if (${isSet(rule.flag)} && ${isSet(rule.other)}) errors.Add("${
+        quote(rule.flag)
+      } cannot be used with ${quote(rule.other)}.");`;
+    case 'requires': {
+      const anyOf = rule.anyOf.map((f) => isSet(f, true)).join(' && ');
+      return `    if (${isSet(rule.flag)} && ${anyOf}) errors.Add("${quote(rule.flag)} requires ${
+        rule.anyOf.map(quote).join(' or ')
+      }.");`;
+    }
+  }
+}
+
+/** The `Validate()` method of an options class. */
+export function renderValidateMethod(command: string, rules: ValidationRule[], props: Property[]): string[] {
+  const byFlag = new Map(props.map((p) => [p.flagName, p]));
+  const lines: string[] = [];
+  lines.push(
+    `  /// <summary>Checks for flag combinations <c>deno ${command}</c> rejects, before a process is started.</summary>`,
+  );
+  lines.push('  /// <exception cref="DenoOptionsValidationException">Thrown with every violated rule.</exception>');
+  lines.push('  public void Validate()');
+  lines.push('  {');
+  if (rules.length === 0) {
+    lines.push('  }');
+    return lines;
+  }
+  lines.push('    var errors = new List<string>();');
+  for (const rule of rules) lines.push(renderValidationCheck(rule, byFlag));
+  lines.push(`    if (errors.Count > 0) throw new DenoOptionsValidationException("${command}", errors);`);
+  lines.push('  }');
+  return lines;
+}
@@ -0,0 +1,53 @@
+import { assertEquals } from '@std/assert';
+import { csStringLiteral, docsUrl, helpToXmlDoc, plainHelp, stripAnsi } from './xml-doc.ts';
+
+Deno.test('stripAnsi: removes colour codes only', () => {
+  assertEquals(stripAnsi('\x1b[33mExperimental.\x1b[39m Use \x1b[36m--bundle\x1b[39m.'), 'Experimental. Use --bundle.');
+});
+
+Deno.test('plainHelp: drops indentation and trailing blanks, keeps line breaks', () => {
+  assertEquals(
+    plainHelp('Summary\n  \x1b[38;5;245mFirst line\n  second line\x1b[39m\n'),
+    'Summary\nFirst line\nsecond line',
+  );
+  assertEquals(plainHelp(null), '');
+});
+
+Deno.test('helpToXmlDoc: first line is the summary, wrapped lines form one paragraph', () => {
+  const doc = helpToXmlDoc('Watch for changes.\n  Local files are watched\n  by default.');
+  assertEquals(doc.summary, 'Watch for changes.');
+  assertEquals(doc.remarks, ['<para>Local files are watched by default.</para>']);
+});
+
+Deno.test('helpToXmlDoc: blank lines and Docs links start new paragraphs', () => {
+  const doc = helpToXmlDoc(
+    'Use a config file.\n  Usually `deno.json` & friends.\n  Docs: https://docs.deno.com/go/config\n\n  More.',
+  );
+  assertEquals(doc.remarks, [
+    '<para>Usually <c>deno.json</c> &amp; friends.</para>',
+    '<para>Docs: <see href="https://docs.deno.com/go/config"/></para>',
+    '<para>More.</para>',
+  ]);
+});
+
+Deno.test('helpToXmlDoc: bullet lines become a list', () => {
+  const doc = helpToXmlDoc('Pick one:\n  - <a> first\n  * second.\n  After.');
+  assertEquals(doc.remarks, [
+    '<list type="bullet">',
+    '  <item><description>&lt;a&gt; first</description></item>',
+    '  <item><description>second.</description></item>',
+    '</list>',
+    '<para>After.</para>',
+  ]);
+});
+
+Deno.test('helpToXmlDoc: trailing punctuation is not part of a URL', () => {
+  assertEquals(helpToXmlDoc('x\nSee https://deno.com/a.').remarks, [
+    '<para>See <see href="https://deno.com/a"/>.</para>',
+  ]);
+});
+
+Deno.test('docsUrl and csStringLiteral', () => {
+  assertEquals(docsUrl('run'), 'https://docs.deno.com/runtime/reference/cli/run/');
+  assertEquals(csStringLiteral('a "b"\\c\nd'), '"a \\"b\\"\\\\c\\nd"');
+});
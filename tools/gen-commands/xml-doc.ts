@@ -0,0 +1,92 @@
+// Turns the clap help text from `deno json_reference` into C# XML doc comments and attribute literals.
+// Help text is one summary line followed by indented, hard-wrapped continuation lines (often dimmed with ANSI
+// colours), blank lines between paragraphs, occasional `- ` bullets and `Docs: https://…` links.
+
+import { escapeXml } from './generate.ts';
+
+export interface HelpDoc {
+  summary: string; // first line, XML-escaped
+  remarks: string[]; // `<para>`/`<list>` lines, already XML
+}
+
+// deno-lint-ignore no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+const BULLET_PATTERN = /^\s*[-*•]\s+/;
+const DOCS_LINK_PATTERN = /^Docs:\s/;
+const URL_PATTERN = /https?:\/\/[^\s<>"'`)]+[^\s<>"'`).,;:]/g;
+
+export function stripAnsi(s: string): string {
+  return s.replace(ANSI_PATTERN, '');
+}
+
+/** Help text without ANSI codes and indentation; line breaks are kept as clap wraps them. */
+export function plainHelp(help: string | null): string {
+  if (!help) return '';
+  return stripAnsi(help).replace(/\r/g, '').split('\n').map((l) => l.trim()).join('\n').trim();
+}
+
+/** Inline formatting: XML escaping, `code` → <c>, URLs → <see href>. */
+export function inlineXml(text: string): string {
+  return escapeXml(text)
+    .replace(/`([^`]+)`/g, (_, code: string) => `<c>${code}</c>`)
+    .replace(URL_PATTERN, (url) => `<see href="${url}"/>`);
+}
+
+type Block = { kind: 'para'; text: string } | { kind: 'list'; items: string[] };
+
+function blocksOf(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) {
+      current = null;
+      continue;
+    }
+    if (BULLET_PATTERN.test(raw)) {
+      const item = line.replace(BULLET_PATTERN, '');
+      if (current?.kind === 'list') current.items.push(item);
+      else blocks.push(current = { kind: 'list', items: [item] });
+      continue;
+    }
+    // Wrapped lines continue the open paragraph; text after a list and `Docs:` links start a new one.
+    if (current?.kind === 'para' && !DOCS_LINK_PATTERN.test(line)) current.text += ` ${line}`;
+    else blocks.push(current = { kind: 'para', text: line });
+  }
+
+  return blocks;
+}
+
+/** Splits help text into the `<summary>` line and `<remarks>` paragraphs and bullet lists. */
+export function helpToXmlDoc(help: string | null): HelpDoc {
+  const [first = '', ...rest] = plainHelp(help).split('\n');
+  const remarks: string[] = [];
+
+  for (const block of blocksOf(rest)) {
+    if (block.kind === 'para') {
+      remarks.push(`<para>${inlineXml(block.text)}</para>`);
+    } else {
+      remarks.push('<list type="bullet">');
+      for (const item of block.items) remarks.push(`  <item><description>${inlineXml(item)}</description></item>`);
+      remarks.push('</list>');
+    }
+  }
+
+  return { summary: inlineXml(first.trim()), remarks };
+}
+
+/** Docs page of a subcommand on docs.deno.com. */
+export function docsUrl(command: string): string {
+  return `https://docs.deno.com/runtime/reference/cli/${command}/`;
+}
+
+/** Regular C# string literal. */
+export function csStringLiteral(s: string): string {
+  const escaped = s
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}